@@ -16,8 +16,10 @@ import { registerBookingActionCancelRoutes } from './routes/booking-actions-canc
 import { registerBookingActionRescheduleRoutes } from './routes/booking-actions-reschedule';
 import { registerBookingActionViewRoutes } from './routes/booking-actions-view';
 import { registerBookingCreateRoutes } from './routes/bookings-create';
+import { registerCaldavCalendarConnectRoutes } from './routes/calendar-caldav-connect';
 import { registerGoogleCalendarConnectRoutes } from './routes/calendar-google-connect';
 import { registerCalendarConnectionRoutes } from './routes/calendar-connections';
+import { registerCalendarFeedRoutes } from './routes/calendar-feeds';
 import { registerGoogleCalendarSyncRoutes } from './routes/calendar-google-sync';
 import { registerMicrosoftCalendarConnectRoutes } from './routes/calendar-microsoft-connect';
 import { registerMicrosoftCalendarSyncRoutes } from './routes/calendar-microsoft-sync';
@@ -28,16 +30,31 @@ import { registerEmbedRoutes } from './routes/embed';
 import { registerHealthRoutes } from './routes/health';
 import { registerNotificationRunRoutes } from './routes/notifications-run';
 import { registerOrganizerAvailabilityRoutes } from './routes/organizer-availability';
+import { registerOrganizerAvailabilityScheduleRoutes } from './routes/organizer-availability-schedules';
+import { registerOrganizerBookingActionRoutes } from './routes/organizer-booking-actions';
+import { registerOrganizerBookingRequestRoutes } from './routes/organizer-booking-requests';
+import { registerOrganizerBookingRoutes } from './routes/organizer-bookings';
+import { registerOrganizerEventTypeDuplicateRoutes } from './routes/organizer-event-type-duplicate';
+import { registerOrganizerEventTypeLifecycleRoutes } from './routes/organizer-event-type-lifecycle';
 import { registerOrganizerEventTypeRoutes } from './routes/organizer-event-types';
 import { registerOrganizerNotificationRuleRoutes } from './routes/organizer-notification-rules';
+import { registerOrganizerRoutingFormRoutes } from './routes/organizer-routing-forms';
+import { registerOrganizerTeamInvitationRoutes } from './routes/organizer-team-invitations';
+import { registerOrganizerTeamMembershipRoutes } from './routes/organizer-team-membership';
+import { registerOrganizerTeamRoundRobinRoutes } from './routes/organizer-team-round-robin';
 import { registerOrganizerTeamReadRoutes } from './routes/organizer-teams-read';
 import { registerOrganizerTeamWriteRoutes } from './routes/organizer-teams-write';
 import { registerOrganizerTimeOffRoutes } from './routes/organizer-time-off';
+import { registerPaymentRoutes } from './routes/payments';
 import { registerProfileRoutes } from './routes/profile';
 import { registerPublicAvailabilityRoutes } from './routes/public-availability';
 import { registerPublicEventRoutes } from './routes/public-events';
+import { registerPublicRoutingFormRoutes } from './routes/public-routing-forms';
+import { registerSlotWaitlistRoutes } from './routes/slot-waitlist';
 import { registerTeamBookingCreateRoutes } from './routes/team-bookings-create';
+import { registerTeamInvitationActionRoutes } from './routes/team-invitation-actions';
 import { registerWebhookDeliveryRoutes } from './routes/webhook-deliveries';
+import { registerWebhookSecretRotationRoutes } from './routes/webhook-secret-rotation';
 import { registerWebhookRoutes } from './routes/webhooks';
 
 const app = new Hono<{ Bindings: Bindings }>();
@@ -103,28 +120,45 @@ registerGoogleCalendarConnectRoutes(app);
 registerGoogleCalendarSyncRoutes(app);
 registerMicrosoftCalendarConnectRoutes(app);
 registerMicrosoftCalendarSyncRoutes(app);
+registerCaldavCalendarConnectRoutes(app);
 registerCalendarWritebackRoutes(app);
+registerCalendarFeedRoutes(app);
 registerNotificationRunRoutes(app);
 
 registerEmbedRoutes(app);
 registerWebhookRoutes(app);
 registerWebhookDeliveryRoutes(app);
+registerWebhookSecretRotationRoutes(app);
 registerDemoRoutes(app);
 
 registerOrganizerNotificationRuleRoutes(app);
 registerOrganizerAvailabilityRoutes(app);
+registerOrganizerAvailabilityScheduleRoutes(app);
 registerOrganizerTimeOffRoutes(app);
+registerOrganizerBookingRoutes(app);
+registerOrganizerBookingActionRoutes(app);
+registerOrganizerBookingRequestRoutes(app);
 registerOrganizerEventTypeRoutes(app);
+registerOrganizerEventTypeDuplicateRoutes(app);
+registerOrganizerEventTypeLifecycleRoutes(app);
 registerOrganizerTeamReadRoutes(app);
 registerOrganizerTeamWriteRoutes(app);
+registerOrganizerTeamInvitationRoutes(app);
+registerOrganizerTeamMembershipRoutes(app);
+registerOrganizerTeamRoundRobinRoutes(app);
+registerOrganizerRoutingFormRoutes(app);
+registerTeamInvitationActionRoutes(app);
 
 registerPublicEventRoutes(app);
 registerPublicAvailabilityRoutes(app);
+registerPublicRoutingFormRoutes(app);
 registerBookingCreateRoutes(app);
+registerPaymentRoutes(app);
 registerTeamBookingCreateRoutes(app);
 registerBookingActionViewRoutes(app);
 registerBookingActionCancelRoutes(app);
 registerBookingActionRescheduleRoutes(app);
+registerSlotWaitlistRoutes(app);
 
 app.onError((error, context) => {
   logInternalError('api_unhandled_error', error);
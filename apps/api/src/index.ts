@@ -1 +1,10 @@
-export { default } from './app';
+import app from './app';
+import { handleScheduled } from './scheduled';
+import type { Bindings } from './server/types';
+
+export default {
+  fetch: app.fetch,
+  scheduled: (controller: ScheduledController, env: Bindings, executionContext: ExecutionContext) => {
+    executionContext.waitUntil(handleScheduled(controller, env));
+  },
+} satisfies ExportedHandler<Bindings>;
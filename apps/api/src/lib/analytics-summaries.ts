@@ -4,6 +4,7 @@ import type { AnalyticsFunnelStage } from '@opencalendly/shared';
 export type { AnalyticsFunnelStage } from '@opencalendly/shared';
 
 type MetricBucket = {
+  routingDecisions: number;
   pageViews: number;
   slotSelections: number;
   bookingConfirmations: number;
@@ -48,6 +49,7 @@ type CollectiveRow = {
 };
 
 const createMetricBucket = (): MetricBucket => ({
+  routingDecisions: 0,
   pageViews: 0,
   slotSelections: 0,
   bookingConfirmations: 0,
@@ -132,6 +134,10 @@ export const summarizeFunnelAnalytics = (input: {
       summary.slotSelections += count;
       eventBucket.slotSelections += count;
       dayBucket.slotSelections += count;
+    } else if (row.stage === 'routing_decision') {
+      summary.routingDecisions += count;
+      eventBucket.routingDecisions += count;
+      dayBucket.routingDecisions += count;
     } else {
       summary.bookingConfirmations += count;
       eventBucket.bookingConfirmations += count;
@@ -109,6 +109,22 @@ describe('summarizeFunnelAnalytics', () => {
     expect(result.byEventType[0]?.eventTypeName).toBe('Intro Call');
     expect(result.daily[0]?.date).toBe('2026-03-01');
   });
+
+  it('counts routing decisions without touching the booking conversion rate', () => {
+    const result = summarizeFunnelAnalytics({
+      eventTypeNameById: new Map([['event-1', 'Intro Call']]),
+      funnelRows: [
+        { stage: 'routing_decision', eventTypeId: 'event-1', date: '2026-03-01', count: 3 },
+        { stage: 'page_view', eventTypeId: 'event-1', date: '2026-03-01', count: 2 },
+      ],
+      bookingRows: [],
+    });
+
+    expect(result.summary.routingDecisions).toBe(3);
+    expect(result.summary.bookingConfirmations).toBe(0);
+    expect(result.summary.conversionRate).toBe(0);
+    expect(result.byEventType[0]?.routingDecisions).toBe(3);
+  });
 });
 
 describe('summarizeTeamAnalytics', () => {
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { computeAvailabilitySlots } from './availability';
+import { computeAvailabilitySlots, toEventTypeSchedulingRules } from './availability';
 
 describe('computeAvailabilitySlots', () => {
   it('filters slots that overlap existing bookings plus buffers', () => {
@@ -123,4 +123,65 @@ describe('computeAvailabilitySlots', () => {
     expect(startsAtList).not.toContain('2026-03-02T09:30:00.000Z');
     expect(startsAtList).not.toContain('2026-03-02T10:30:00.000Z');
   });
+
+  it('applies event type notice, horizon, buffers and slot increment', () => {
+    const baseInput = {
+      organizerTimezone: 'UTC',
+      rangeStartIso: '2026-03-02T00:00:00.000Z',
+      days: 3,
+      durationMinutes: 30,
+      rules: [0, 1, 2, 3, 4, 5, 6].map((dayOfWeek) => ({
+        dayOfWeek,
+        startMinute: 540,
+        endMinute: 660,
+        bufferBeforeMinutes: 0,
+        bufferAfterMinutes: 0,
+      })),
+      overrides: [],
+      bookings: [
+        {
+          startsAt: new Date('2026-03-03T10:00:00.000Z'),
+          endsAt: new Date('2026-03-03T10:30:00.000Z'),
+          status: 'confirmed',
+        },
+      ],
+      now: new Date('2026-03-02T09:05:00.000Z'),
+    };
+
+    const slots = computeAvailabilitySlots({
+      ...baseInput,
+      eventTypeRules: toEventTypeSchedulingRules({
+        minimumNoticeMinutes: 60,
+        bookingHorizonDays: 1,
+        bufferAfterMinutes: 30,
+        slotIncrementMinutes: 30,
+      }),
+    });
+
+    expect(slots.map((slot) => slot.startsAt)).toEqual([
+      '2026-03-02T10:30:00.000Z',
+      '2026-03-03T09:00:00.000Z',
+    ]);
+    expect(slots[0]?.bufferAfterMinutes).toBe(30);
+  });
+
+  it('keeps the previous behavior when the event type has no scheduling rules', () => {
+    const slots = computeAvailabilitySlots({
+      organizerTimezone: 'UTC',
+      rangeStartIso: '2026-03-02T00:00:00.000Z',
+      days: 1,
+      durationMinutes: 30,
+      rules: [{ dayOfWeek: 1, startMinute: 540, endMinute: 600, bufferBeforeMinutes: 0, bufferAfterMinutes: 0 }],
+      overrides: [],
+      bookings: [],
+      eventTypeRules: toEventTypeSchedulingRules({}),
+      now: new Date('2026-03-02T09:20:00.000Z'),
+    });
+
+    expect(slots.map((slot) => slot.startsAt)).toEqual([
+      '2026-03-02T09:00:00.000Z',
+      '2026-03-02T09:15:00.000Z',
+      '2026-03-02T09:30:00.000Z',
+    ]);
+  });
 });
@@ -21,6 +21,14 @@ export type ExistingBooking = {
   metadata?: string | null;
 };
 
+// Approval requests block their slot until the organizer decides; payment holds until they are paid
+// or expire, and the query layer drops lapsed ones.
+export const SLOT_HOLDING_BOOKING_STATUSES: ReadonlySet<string> = new Set([
+  'confirmed',
+  'pending_payment',
+  'pending_approval',
+]);
+
 export type AvailabilitySlot = {
   startsAt: string;
   endsAt: string;
@@ -28,6 +36,14 @@ export type AvailabilitySlot = {
   bufferAfterMinutes: number;
 };
 
+export type EventTypeSchedulingRules = {
+  minimumNoticeMinutes: number;
+  bookingHorizonDays: number | null;
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+  slotIncrementMinutes: number | null;
+};
+
 export type ComputeAvailabilityInput = {
   organizerTimezone: string;
   rangeStartIso: string;
@@ -37,10 +53,56 @@ export type ComputeAvailabilityInput = {
   overrides: AvailabilityOverrideWindow[];
   bookings: ExistingBooking[];
   slotIncrementMinutes?: number;
+  eventTypeRules?: EventTypeSchedulingRules;
+  now?: Date;
 };
 
 const DEFAULT_SLOT_INCREMENT_MINUTES = 15;
 
+export const toEventTypeSchedulingRules = (
+  eventType: Partial<EventTypeSchedulingRules>,
+): EventTypeSchedulingRules => {
+  return {
+    minimumNoticeMinutes: eventType.minimumNoticeMinutes ?? 0,
+    bookingHorizonDays: eventType.bookingHorizonDays ?? null,
+    bufferBeforeMinutes: eventType.bufferBeforeMinutes ?? 0,
+    bufferAfterMinutes: eventType.bufferAfterMinutes ?? 0,
+    slotIncrementMinutes: eventType.slotIncrementMinutes ?? null,
+  };
+};
+
+// Minimum notice and the booking horizon are measured from `now`, not from the requested range.
+const resolveBookableStartWindow = (
+  eventTypeRules: EventTypeSchedulingRules | undefined,
+  now: Date,
+): { earliestStartMs: number; latestStartMs: number } => {
+  const nowMs = now.getTime();
+  return {
+    earliestStartMs:
+      eventTypeRules && eventTypeRules.minimumNoticeMinutes > 0
+        ? nowMs + eventTypeRules.minimumNoticeMinutes * 60_000
+        : Number.NEGATIVE_INFINITY,
+    latestStartMs: eventTypeRules?.bookingHorizonDays
+      ? nowMs + eventTypeRules.bookingHorizonDays * 24 * 60 * 60_000
+      : Number.POSITIVE_INFINITY,
+  };
+};
+
+export const resolveBookableWindowViolation = (
+  startsAt: Date,
+  eventTypeRules: EventTypeSchedulingRules,
+  now: Date = new Date(),
+): 'minimum_notice' | 'booking_horizon' | null => {
+  const { earliestStartMs, latestStartMs } = resolveBookableStartWindow(eventTypeRules, now);
+  if (startsAt.getTime() < earliestStartMs) {
+    return 'minimum_notice';
+  }
+  if (startsAt.getTime() > latestStartMs) {
+    return 'booking_horizon';
+  }
+  return null;
+};
+
 const overlaps = (aStartMs: number, aEndMs: number, bStartMs: number, bEndMs: number): boolean => {
   return aStartMs < bEndMs && bStartMs < aEndMs;
 };
@@ -196,10 +258,23 @@ export const computeAvailabilitySlots = (input: ComputeAvailabilityInput): Avail
   const days = Math.max(1, Math.min(30, Math.trunc(input.days)));
   const slotIncrementMinutes = Math.max(
     5,
-    Math.min(60, Math.trunc(input.slotIncrementMinutes ?? DEFAULT_SLOT_INCREMENT_MINUTES)),
+    Math.min(
+      60,
+      Math.trunc(
+        input.slotIncrementMinutes ?? input.eventTypeRules?.slotIncrementMinutes ?? DEFAULT_SLOT_INCREMENT_MINUTES,
+      ),
+    ),
+  );
+  const eventBufferBeforeMinutes = input.eventTypeRules?.bufferBeforeMinutes ?? 0;
+  const eventBufferAfterMinutes = input.eventTypeRules?.bufferAfterMinutes ?? 0;
+  const { earliestStartMs, latestStartMs } = resolveBookableStartWindow(
+    input.eventTypeRules,
+    input.now ?? new Date(),
   );
+  const isOutsideBookableWindow = (slotStartMs: number): boolean =>
+    slotStartMs < earliestStartMs || slotStartMs > latestStartMs;
   const rangeEnd = rangeStart.plus({ days });
-  const confirmedBookings = input.bookings.filter((booking) => booking.status === 'confirmed');
+  const confirmedBookings = input.bookings.filter((booking) => SLOT_HOLDING_BOOKING_STATUSES.has(booking.status));
 
   const blockingOverrides = input.overrides
     .filter((override) => !override.isAvailable)
@@ -245,7 +320,8 @@ export const computeAvailabilitySlots = (input: ComputeAvailabilityInput): Avail
 
         if (
           slotStartUtc.toMillis() < rangeStart.toMillis() ||
-          slotEndUtc.toMillis() > rangeEnd.toMillis()
+          slotEndUtc.toMillis() > rangeEnd.toMillis() ||
+          isOutsideBookableWindow(slotStartUtc.toMillis())
         ) {
           continue;
         }
@@ -254,8 +330,8 @@ export const computeAvailabilitySlots = (input: ComputeAvailabilityInput): Avail
           slots,
           slotStartUtc,
           slotEndUtc,
-          rule.bufferBeforeMinutes,
-          rule.bufferAfterMinutes,
+          Math.max(rule.bufferBeforeMinutes, eventBufferBeforeMinutes),
+          Math.max(rule.bufferAfterMinutes, eventBufferAfterMinutes),
           blockingOverrides,
           confirmedBookings,
         );
@@ -283,7 +359,8 @@ export const computeAvailabilitySlots = (input: ComputeAvailabilityInput): Avail
 
       if (
         slotStart.toMillis() < rangeStart.toMillis() ||
-        slotEnd.toMillis() > rangeEnd.toMillis()
+        slotEnd.toMillis() > rangeEnd.toMillis() ||
+        isOutsideBookableWindow(slotStart.toMillis())
       ) {
         continue;
       }
@@ -292,8 +369,8 @@ export const computeAvailabilitySlots = (input: ComputeAvailabilityInput): Avail
         slots,
         slotStart,
         slotEnd,
-        maxBuffer.before,
-        maxBuffer.after,
+        Math.max(maxBuffer.before, eventBufferBeforeMinutes),
+        Math.max(maxBuffer.after, eventBufferAfterMinutes),
         blockingOverrides,
         confirmedBookings,
       );
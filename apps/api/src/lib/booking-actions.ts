@@ -4,15 +4,17 @@ import {
   computeAvailabilitySlots,
   type AvailabilityOverrideWindow,
   type AvailabilitySlot,
+  type EventTypeSchedulingRules,
   type ExistingBooking,
   type WeeklyAvailabilityRule,
 } from './availability';
+import { isBookingAnswerValue, type BookingAnswers } from './booking-answers';
 
 export type BookingActionType = 'cancel' | 'reschedule';
 export type BookingActionTokenState = 'usable' | 'idempotent-replay' | 'gone';
 
 export type BookingMetadata = {
-  answers: Record<string, string>;
+  answers: BookingAnswers;
   timezone?: string;
   team?: {
     teamId: string;
@@ -20,9 +22,38 @@ export type BookingMetadata = {
     teamEventTypeId: string;
     mode: 'round_robin' | 'collective';
     assignmentUserIds: string[];
+    // Subset of assignmentUserIds who joined a collective booking as optional attendees.
+    optionalAttendeeUserIds?: string[];
   };
 };
 
+// Rewrites who a team booking is assigned to, dropping optional attendees who are no longer on it.
+export const withTeamAssignmentUserIds = (metadata: string | null, assignmentUserIds: string[]): string | null => {
+  if (!metadata) {
+    return metadata;
+  }
+  try {
+    const parsed = JSON.parse(metadata) as Record<string, unknown>;
+    const team = parsed.team;
+    if (!team || typeof team !== 'object' || Array.isArray(team)) {
+      return metadata;
+    }
+    const optionalAttendeeUserIds = (team as Record<string, unknown>).optionalAttendeeUserIds;
+    return JSON.stringify({
+      ...parsed,
+      team: {
+        ...team,
+        assignmentUserIds,
+        ...(Array.isArray(optionalAttendeeUserIds)
+          ? { optionalAttendeeUserIds: optionalAttendeeUserIds.filter((userId) => assignmentUserIds.includes(userId)) }
+          : {}),
+      },
+    });
+  } catch {
+    return metadata;
+  }
+};
+
 type BookingWithOptionalId = ExistingBooking & {
   id?: string;
 };
@@ -45,7 +76,7 @@ export const parseBookingMetadata = (
     const answers =
       parsed.answers && typeof parsed.answers === 'object' && !Array.isArray(parsed.answers)
         ? Object.fromEntries(
-            Object.entries(parsed.answers).filter((entry) => typeof entry[1] === 'string'),
+            Object.entries(parsed.answers).filter((entry) => isBookingAnswerValue(entry[1])),
           )
         : {};
 
@@ -69,6 +100,17 @@ export const parseBookingMetadata = (
         (value) => typeof value === 'string' && value.trim().length > 0,
       );
 
+    const rawOptionalAttendeeUserIds =
+      parsed.team && typeof parsed.team === 'object' && !Array.isArray(parsed.team)
+        ? (parsed.team as Record<string, unknown>).optionalAttendeeUserIds
+        : undefined;
+    const optionalAttendeeUserIds = Array.isArray(rawOptionalAttendeeUserIds)
+      ? rawOptionalAttendeeUserIds.filter(
+          (value): value is string =>
+            typeof value === 'string' && (rawAssignmentUserIds ?? []).includes(value),
+        )
+      : [];
+
     const team =
       parsed.team &&
       typeof parsed.team === 'object' &&
@@ -83,6 +125,7 @@ export const parseBookingMetadata = (
             teamEventTypeId: (parsed.team as Record<string, unknown>).teamEventTypeId as string,
             mode: (parsed.team as Record<string, unknown>).mode as 'round_robin' | 'collective',
             assignmentUserIds: rawAssignmentUserIds as string[],
+            ...(optionalAttendeeUserIds.length > 0 ? { optionalAttendeeUserIds } : {}),
             ...((parsed.team as Record<string, unknown>).teamSlug &&
             typeof (parsed.team as Record<string, unknown>).teamSlug === 'string'
               ? { teamSlug: (parsed.team as Record<string, unknown>).teamSlug as string }
@@ -153,6 +196,7 @@ export const resolveRequestedRescheduleSlot = (input: {
   overrides: AvailabilityOverrideWindow[];
   bookings: BookingWithOptionalId[];
   excludeBookingId?: string;
+  eventTypeRules?: EventTypeSchedulingRules;
 }): {
   requestedStartsAt: Date;
   requestedEndsAt: Date;
@@ -191,6 +235,7 @@ export const resolveRequestedRescheduleSlot = (input: {
     bookings: input.excludeBookingId
       ? input.bookings.filter((booking) => booking.id !== input.excludeBookingId)
       : input.bookings,
+    ...(input.eventTypeRules ? { eventTypeRules: input.eventTypeRules } : {}),
   });
 
   const slotKey = `${requestedStartsAtIso}|${requestedEndsAtIso}`;
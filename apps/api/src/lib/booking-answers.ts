@@ -0,0 +1,194 @@
+import {
+  EVENT_QUESTION_PATTERN_ANSWER_MAX_LENGTH,
+  emailSchema,
+  isSafeAnswerPattern,
+  type BookingAnswerValue,
+  type EventQuestion,
+} from '@opencalendly/shared';
+
+export type BookingAnswerQuestion = Pick<EventQuestion, 'id' | 'label' | 'required'> &
+  Partial<Pick<EventQuestion, 'placeholder' | 'type' | 'options' | 'minLength' | 'maxLength' | 'pattern'>>;
+
+export type BookingAnswers = Record<string, BookingAnswerValue>;
+
+// Returned by the normalizer so `validateBookingAnswers` can raise its own error class without
+// this module depending on the booking engine.
+export type BookingAnswerResult =
+  | { kind: 'answered'; value: BookingAnswerValue }
+  | { kind: 'empty' }
+  | { kind: 'invalid'; message: string };
+
+const PHONE_ALLOWED_CHARACTERS = /^\+?[0-9\s().-]+$/;
+const PHONE_MIN_DIGITS = 7;
+const PHONE_MAX_DIGITS = 15;
+
+const invalid = (question: BookingAnswerQuestion, reason: string): BookingAnswerResult => ({
+  kind: 'invalid',
+  message: `Answer for "${question.label}" ${reason}`,
+});
+
+const isValidHttpUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+};
+
+const checkTextRules = (question: BookingAnswerQuestion, value: string): BookingAnswerResult => {
+  if (question.minLength !== undefined && value.length < question.minLength) {
+    return invalid(question, `must be at least ${question.minLength} characters.`);
+  }
+  if (question.maxLength !== undefined && value.length > question.maxLength) {
+    return invalid(question, `must be at most ${question.maxLength} characters.`);
+  }
+  if (question.pattern) {
+    // Organizer patterns run on anonymous input: long answers are refused before any regex work,
+    // and a pattern outside the safe subset is never evaluated, even one stored before the check.
+    if (value.length > EVENT_QUESTION_PATTERN_ANSWER_MAX_LENGTH) {
+      return invalid(question, `must be at most ${EVENT_QUESTION_PATTERN_ANSWER_MAX_LENGTH} characters.`);
+    }
+    // Patterns must match the whole answer so `[0-9]+` cannot be satisfied by a single digit.
+    if (!isSafeAnswerPattern(question.pattern) || !new RegExp(`^(?:${question.pattern})$`).test(value)) {
+      return invalid(question, 'is not in the expected format.');
+    }
+  }
+  return { kind: 'answered', value };
+};
+
+const normalizeTextAnswer = (question: BookingAnswerQuestion, rawValue: BookingAnswerValue): BookingAnswerResult => {
+  if (typeof rawValue !== 'string') {
+    return invalid(question, 'must be text.');
+  }
+  const value = rawValue.trim();
+  if (!value) {
+    return { kind: 'empty' };
+  }
+
+  const type = question.type ?? 'short_text';
+  if (type === 'email' && !emailSchema.safeParse(value).success) {
+    return invalid(question, 'must be a valid email address.');
+  }
+  if (type === 'url' && !isValidHttpUrl(value)) {
+    return invalid(question, 'must be a valid http or https URL.');
+  }
+  if (type === 'phone') {
+    const digitCount = value.replace(/\D/g, '').length;
+    if (!PHONE_ALLOWED_CHARACTERS.test(value) || digitCount < PHONE_MIN_DIGITS || digitCount > PHONE_MAX_DIGITS) {
+      return invalid(question, 'must be a valid phone number.');
+    }
+  }
+  return checkTextRules(question, value);
+};
+
+const normalizeNumberAnswer = (question: BookingAnswerQuestion, rawValue: BookingAnswerValue): BookingAnswerResult => {
+  if (typeof rawValue === 'number') {
+    return Number.isFinite(rawValue) ? { kind: 'answered', value: rawValue } : invalid(question, 'must be a number.');
+  }
+  if (typeof rawValue !== 'string') {
+    return invalid(question, 'must be a number.');
+  }
+  const value = rawValue.trim();
+  if (!value) {
+    return { kind: 'empty' };
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? { kind: 'answered', value: parsed } : invalid(question, 'must be a number.');
+};
+
+const normalizeSingleSelectAnswer = (
+  question: BookingAnswerQuestion,
+  rawValue: BookingAnswerValue,
+): BookingAnswerResult => {
+  if (typeof rawValue !== 'string') {
+    return invalid(question, 'must be one of the listed options.');
+  }
+  const value = rawValue.trim();
+  if (!value) {
+    return { kind: 'empty' };
+  }
+  return question.options?.includes(value)
+    ? { kind: 'answered', value }
+    : invalid(question, 'must be one of the listed options.');
+};
+
+const normalizeMultiSelectAnswer = (
+  question: BookingAnswerQuestion,
+  rawValue: BookingAnswerValue,
+): BookingAnswerResult => {
+  if (!Array.isArray(rawValue)) {
+    return invalid(question, 'must be a list of the listed options.');
+  }
+  const selected = Array.from(new Set(rawValue.map((value) => value.trim()).filter(Boolean)));
+  if (selected.length === 0) {
+    return { kind: 'empty' };
+  }
+  if (selected.some((value) => !question.options?.includes(value))) {
+    return invalid(question, 'must only include the listed options.');
+  }
+  // Keep the organizer's option order so stored answers are stable regardless of click order.
+  return { kind: 'answered', value: (question.options ?? []).filter((option) => selected.includes(option)) };
+};
+
+const normalizeCheckboxAnswer = (question: BookingAnswerQuestion, rawValue: BookingAnswerValue): BookingAnswerResult => {
+  if (typeof rawValue !== 'boolean') {
+    return invalid(question, 'must be true or false.');
+  }
+  // A required checkbox is a consent gate, so an unchecked box counts as unanswered.
+  return rawValue || !question.required ? { kind: 'answered', value: rawValue } : { kind: 'empty' };
+};
+
+export const normalizeBookingAnswer = (
+  question: BookingAnswerQuestion,
+  rawValue: BookingAnswerValue | undefined,
+): BookingAnswerResult => {
+  if (rawValue === undefined) {
+    return { kind: 'empty' };
+  }
+
+  switch (question.type ?? 'short_text') {
+    case 'number':
+      return normalizeNumberAnswer(question, rawValue);
+    case 'single_select':
+      return normalizeSingleSelectAnswer(question, rawValue);
+    case 'multi_select':
+      return normalizeMultiSelectAnswer(question, rawValue);
+    case 'checkbox':
+      return normalizeCheckboxAnswer(question, rawValue);
+    default:
+      return normalizeTextAnswer(question, rawValue);
+  }
+};
+
+export const isBookingAnswerValue = (value: unknown): value is BookingAnswerValue => {
+  if (Array.isArray(value)) {
+    return value.every((entry) => typeof entry === 'string');
+  }
+  return (
+    typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    (typeof value === 'number' && Number.isFinite(value))
+  );
+};
+
+// Canonical form for idempotency hashing: trims strings, drops blanks, and sorts list answers so
+// a retried request with the same selections in a different order hashes identically.
+export const canonicalizeBookingAnswer = (rawValue: unknown): BookingAnswerValue | null => {
+  if (typeof rawValue === 'string') {
+    const value = rawValue.trim();
+    return value ? value : null;
+  }
+  if (Array.isArray(rawValue)) {
+    const values = rawValue
+      .filter((value): value is string => typeof value === 'string')
+      .map((value) => value.trim())
+      .filter(Boolean)
+      .sort();
+    return values.length > 0 ? values : null;
+  }
+  if (typeof rawValue === 'boolean' || (typeof rawValue === 'number' && Number.isFinite(rawValue))) {
+    return rawValue;
+  }
+  return null;
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+
+import { evaluateBookingRequestDecision, findEventTypeApprovalIssue } from './booking-requests';
+
+describe('booking request helpers', () => {
+  it('reports the first problem with an approval setting', () => {
+    const base = { requiresConfirmation: true, priceCents: null, isTeamEventType: false };
+
+    expect(findEventTypeApprovalIssue(base)).toBeNull();
+    expect(findEventTypeApprovalIssue({ ...base, requiresConfirmation: false, priceCents: 5000 })).toBeNull();
+    expect(findEventTypeApprovalIssue({ ...base, priceCents: 5000 })).toBe(
+      'Paid event types cannot require approval yet.',
+    );
+    expect(findEventTypeApprovalIssue({ ...base, isTeamEventType: true })).toBe(
+      'Team event types cannot require approval yet.',
+    );
+  });
+
+  it('only lets organizers decide pending requests that have not started', () => {
+    const now = new Date('2026-03-10T12:00:00.000Z');
+    const startsAt = new Date('2026-03-12T16:00:00.000Z');
+
+    expect(evaluateBookingRequestDecision({ bookingStatus: 'pending_approval', startsAt, now })).toBe('pending');
+    expect(evaluateBookingRequestDecision({ bookingStatus: 'confirmed', startsAt, now })).toBe('already-decided');
+    expect(evaluateBookingRequestDecision({ bookingStatus: 'declined', startsAt, now })).toBe('already-decided');
+    expect(evaluateBookingRequestDecision({ bookingStatus: 'pending_approval', startsAt: now, now })).toBe('started');
+  });
+});
@@ -0,0 +1,41 @@
+export type BookingRequestDecisionState = 'pending' | 'already-decided' | 'started';
+
+/**
+ * Checks a resolved (stored + patched) approval setting. Returns the first problem, or null when
+ * the event type can be saved as is.
+ */
+export const findEventTypeApprovalIssue = (input: {
+  requiresConfirmation: boolean;
+  priceCents: number | null;
+  isTeamEventType: boolean;
+}): string | null => {
+  if (!input.requiresConfirmation) {
+    return null;
+  }
+  // A payment hold expires on a timer, which an organizer review cannot promise to beat.
+  if (input.priceCents !== null) {
+    return 'Paid event types cannot require approval yet.';
+  }
+  if (input.isTeamEventType) {
+    return 'Team event types cannot require approval yet.';
+  }
+  return null;
+};
+
+/**
+ * Organizers can approve or decline a request only while it is still pending and the slot has not
+ * started; after that the invitee has to book again.
+ */
+export const evaluateBookingRequestDecision = (input: {
+  bookingStatus: string;
+  startsAt: Date;
+  now: Date;
+}): BookingRequestDecisionState => {
+  if (input.bookingStatus !== 'pending_approval') {
+    return 'already-decided';
+  }
+  if (input.startsAt.getTime() <= input.now.getTime()) {
+    return 'started';
+  }
+  return 'pending';
+};
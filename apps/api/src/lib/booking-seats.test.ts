@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+
+import { findEventTypeSeatingIssue, planSlotSeating, withRemainingSeats } from './booking-seats';
+
+const slot = { startsAt: '2026-03-02T09:00:00.000Z', endsAt: '2026-03-02T10:00:00.000Z' };
+
+const booking = (overrides: { eventTypeId: string; seatNumber?: number; status?: string; startsAt?: string; endsAt?: string }) => ({
+  eventTypeId: overrides.eventTypeId,
+  seatNumber: overrides.seatNumber ?? 1,
+  status: overrides.status ?? 'confirmed',
+  startsAt: new Date(overrides.startsAt ?? slot.startsAt),
+  endsAt: new Date(overrides.endsAt ?? slot.endsAt),
+});
+
+describe('booking seats', () => {
+  it('rejects seats on team event types only', () => {
+    expect(findEventTypeSeatingIssue({ seatsPerSlot: 20, isTeamEventType: false })).toBeNull();
+    expect(findEventTypeSeatingIssue({ seatsPerSlot: null, isTeamEventType: true })).toBeNull();
+    expect(findEventTypeSeatingIssue({ seatsPerSlot: 20, isTeamEventType: true })).toBe(
+      'Team event types cannot have seats yet.',
+    );
+  });
+
+  it('keeps every booking blocking for one-on-one event types', () => {
+    const existing = [booking({ eventTypeId: 'event-1' })];
+    const seating = planSlotSeating(existing, { id: 'event-1', seatsPerSlot: null });
+
+    expect(seating.blockingBookings).toEqual(existing);
+    expect(seating.claimSeat(slot.startsAt, slot.endsAt)).toBe(1);
+    expect(withRemainingSeats([slot], seating)).toEqual([{ ...slot, remainingSeats: 1 }]);
+  });
+
+  it('counts same-type attendees as seats and leaves other bookings blocking', () => {
+    const otherEventBooking = booking({ eventTypeId: 'event-2', startsAt: '2026-03-02T11:00:00.000Z', endsAt: '2026-03-02T11:30:00.000Z' });
+    const seating = planSlotSeating(
+      [
+        booking({ eventTypeId: 'event-1', seatNumber: 1 }),
+        booking({ eventTypeId: 'event-1', seatNumber: 2 }),
+        booking({ eventTypeId: 'event-1', seatNumber: 3, status: 'canceled' }),
+        otherEventBooking,
+      ],
+      { id: 'event-1', seatsPerSlot: 3 },
+    );
+
+    expect(seating.blockingBookings).toEqual([
+      booking({ eventTypeId: 'event-1', seatNumber: 3, status: 'canceled' }),
+      otherEventBooking,
+    ]);
+    expect(seating.claimSeat(slot.startsAt, slot.endsAt)).toBe(3);
+    expect(withRemainingSeats([slot], seating)).toEqual([{ ...slot, remainingSeats: 1 }]);
+  });
+
+  it('drops full slots and slots that only partly overlap an attendee', () => {
+    const laterSlot = { startsAt: '2026-03-02T09:30:00.000Z', endsAt: '2026-03-02T10:30:00.000Z' };
+    const seating = planSlotSeating(
+      [booking({ eventTypeId: 'event-1', seatNumber: 1 }), booking({ eventTypeId: 'event-1', seatNumber: 2 })],
+      { id: 'event-1', seatsPerSlot: 2 },
+    );
+
+    expect(seating.claimSeat(slot.startsAt, slot.endsAt)).toBeNull();
+    expect(seating.claimSeat(laterSlot.startsAt, laterSlot.endsAt)).toBeNull();
+    expect(withRemainingSeats([slot, laterSlot], seating)).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+import { SLOT_HOLDING_BOOKING_STATUSES, type ExistingBooking } from './availability';
+
+export type SeatHoldingBooking = ExistingBooking & {
+  eventTypeId?: string;
+  seatNumber?: number;
+};
+
+export type SlotSeating = {
+  blockingBookings: ExistingBooking[];
+  claimSeat(startsAtIso: string, endsAtIso: string): number | null;
+  remainingSeats(startsAtIso: string, endsAtIso: string): number;
+};
+
+export const isSeatedEventType = (seatsPerSlot: number | null | undefined): seatsPerSlot is number => {
+  return typeof seatsPerSlot === 'number' && seatsPerSlot > 1;
+};
+
+/**
+ * Checks a resolved (stored + patched) seat setting. Returns the first problem, or null when the
+ * event type can be saved as is.
+ */
+export const findEventTypeSeatingIssue = (input: {
+  seatsPerSlot: number | null;
+  isTeamEventType: boolean;
+}): string | null => {
+  if (isSeatedEventType(input.seatsPerSlot) && input.isTeamEventType) {
+    return 'Team event types cannot have seats yet.';
+  }
+  return null;
+};
+
+/**
+ * Attendees of a seated event type share a slot instead of blocking it, so their bookings leave the
+ * busy list and are counted per exact slot. A same-type booking that only overlaps a slot (say, after
+ * the duration changed) still makes that slot unavailable. One-on-one event types keep every booking
+ * blocking and always book seat 1.
+ */
+export const planSlotSeating = (
+  bookings: SeatHoldingBooking[],
+  eventType: { id: string; seatsPerSlot?: number | null },
+): SlotSeating => {
+  const seatsPerSlot = eventType.seatsPerSlot;
+  if (!isSeatedEventType(seatsPerSlot)) {
+    return { blockingBookings: bookings, claimSeat: () => 1, remainingSeats: () => 1 };
+  }
+
+  const isSeatHolder = (booking: SeatHoldingBooking): boolean =>
+    booking.eventTypeId === eventType.id && SLOT_HOLDING_BOOKING_STATUSES.has(booking.status);
+  const seatHolders = bookings.filter(isSeatHolder);
+
+  const listTakenSeats = (startsAtIso: string, endsAtIso: string): Set<number> | null => {
+    const startsAtMs = Date.parse(startsAtIso);
+    const endsAtMs = Date.parse(endsAtIso);
+    const takenSeats = new Set<number>();
+    for (const booking of seatHolders) {
+      const bookingStartsAtMs = booking.startsAt.getTime();
+      const bookingEndsAtMs = booking.endsAt.getTime();
+      if (bookingStartsAtMs === startsAtMs && bookingEndsAtMs === endsAtMs) {
+        takenSeats.add(booking.seatNumber ?? 1);
+      } else if (bookingStartsAtMs < endsAtMs && bookingEndsAtMs > startsAtMs) {
+        return null;
+      }
+    }
+    return takenSeats;
+  };
+
+  return {
+    blockingBookings: bookings.filter((booking) => !isSeatHolder(booking)),
+    claimSeat: (startsAtIso, endsAtIso) => {
+      const takenSeats = listTakenSeats(startsAtIso, endsAtIso);
+      if (!takenSeats) {
+        return null;
+      }
+      for (let seatNumber = 1; seatNumber <= seatsPerSlot; seatNumber += 1) {
+        if (!takenSeats.has(seatNumber)) {
+          return seatNumber;
+        }
+      }
+      return null;
+    },
+    remainingSeats: (startsAtIso, endsAtIso) => {
+      const takenSeats = listTakenSeats(startsAtIso, endsAtIso);
+      return takenSeats ? Math.max(0, seatsPerSlot - takenSeats.size) : 0;
+    },
+  };
+};
+
+/** Annotates open slots with their remaining seats and drops the ones that are already full. */
+export const withRemainingSeats = <T extends { startsAt: string; endsAt: string }>(
+  slots: T[],
+  seating: SlotSeating,
+): Array<T & { remainingSeats: number }> => {
+  return slots.flatMap((slot) => {
+    const remainingSeats = seating.remainingSeats(slot.startsAt, slot.endsAt);
+    return remainingSeats > 0 ? [{ ...slot, remainingSeats }] : [];
+  });
+};
@@ -1,12 +1,14 @@
-import { describe, expect, it } from 'vitest';
+import { afterEach, describe, expect, it, vi } from 'vitest';
 
 import {
   BookingConflictError,
   BookingUniqueConstraintError,
+  BookingValidationError,
   commitBooking,
   type BookingDataAccess,
   normalizeBookingAnswersForIdempotency,
   type PublicEventType,
+  validateBookingAnswers,
 } from './booking';
 
 const publicEventType: PublicEventType = {
@@ -21,6 +23,12 @@ const publicEventType: PublicEventType = {
   locationType: 'video',
   locationValue: 'https://meet.example.com/demo',
   questions: [],
+  availabilityScheduleId: null,
+  minimumNoticeMinutes: 0,
+  bookingHorizonDays: null,
+  bufferBeforeMinutes: 0,
+  bufferAfterMinutes: 0,
+  slotIncrementMinutes: null,
   isActive: true,
   organizerDisplayName: 'Demo Organizer',
   organizerEmail: 'demo@opencalendly.dev',
@@ -38,18 +46,20 @@ const weeklyRules = [
 ];
 
 const buildDataAccess = (options?: {
-  existingBookings?: Array<{ startsAt: Date; endsAt: Date; status: string }>;
+  existingBookings?: Array<{ startsAt: Date; endsAt: Date; status: string; eventTypeId?: string; seatNumber?: number }>;
   externalBusyWindows?: Array<{ startsAt: Date; endsAt: Date }>;
   overrides?: Array<{ startAt: Date; endAt: Date; isAvailable: boolean }>;
   throwUniqueConflict?: boolean;
   eventTypeWindowBookingCount?: number;
   eventTypeWindowBookings?: Date[];
   eventType?: PublicEventType | null;
+  scheduleRules?: Record<string, typeof weeklyRules>;
 }) => {
   let insertCount = 0;
   let actionTokenInsertCount = 0;
   let transactionCount = 0;
   let insertedMetadata: string | null = null;
+  let insertedSeatNumber: number | null = null;
 
   const dataAccess: BookingDataAccess = {
     getPublicEventType: async () => options?.eventType ?? publicEventType,
@@ -57,7 +67,8 @@ const buildDataAccess = (options?: {
       transactionCount += 1;
       return callback({
         lockEventType: async () => undefined,
-        listRules: async () => weeklyRules,
+        listRules: async (_userId, scheduleId) =>
+          scheduleId ? (options?.scheduleRules?.[scheduleId] ?? []) : weeklyRules,
         listOverrides: async () => options?.overrides ?? [],
         listExternalBusyWindows: async () => options?.externalBusyWindows ?? [],
         listConfirmedBookings: async () =>
@@ -77,6 +88,7 @@ const buildDataAccess = (options?: {
 
           insertCount += 1;
           insertedMetadata = bookingInput.metadata;
+          insertedSeatNumber = bookingInput.seatNumber;
           return {
             id: 'booking-1',
             eventTypeId: 'event-1',
@@ -100,10 +112,15 @@ const buildDataAccess = (options?: {
     getActionTokenInsertCount: () => actionTokenInsertCount,
     getTransactionCount: () => transactionCount,
     getInsertedMetadata: () => insertedMetadata,
+    getInsertedSeatNumber: () => insertedSeatNumber,
   };
 };
 
 describe('commitBooking', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
   it('canonicalizes booking answers for idempotency hashing without changing validation behavior', () => {
     expect(
       normalizeBookingAnswersForIdempotency({
@@ -117,6 +134,89 @@ describe('commitBooking', () => {
     });
   });
 
+  it('canonicalizes typed answers so selection order does not change the idempotency hash', () => {
+    expect(
+      normalizeBookingAnswersForIdempotency({
+        topics: [' SSO ', 'Billing', ''],
+        consent: true,
+        seats: 3,
+        empty: [],
+      }),
+    ).toEqual({ topics: ['Billing', 'SSO'], consent: true, seats: 3 });
+  });
+
+  it('validates and normalizes typed booking answers', () => {
+    const questions: PublicEventType['questions'] = [
+      { id: 'plan', label: 'Plan', required: true, type: 'single_select', options: ['Free', 'Pro'] },
+      { id: 'topics', label: 'Topics', required: false, type: 'multi_select', options: ['Billing', 'SSO', 'API'] },
+      { id: 'consent', label: 'Terms', required: true, type: 'checkbox' },
+      { id: 'seats', label: 'Seats', required: false, type: 'number' },
+      { id: 'phone', label: 'Phone', required: false, type: 'phone' },
+      { id: 'site', label: 'Website', required: false, type: 'url' },
+      { id: 'ticket', label: 'Ticket', required: false, pattern: '[A-Z]{3}-[0-9]+', maxLength: 12 },
+    ];
+
+    expect(
+      validateBookingAnswers(questions, {
+        plan: 'Pro',
+        topics: ['API', 'Billing', 'API'],
+        consent: true,
+        seats: ' 12 ',
+        phone: '+1 (415) 555-0100',
+        site: 'https://acme.example.com',
+        ticket: 'OPS-42',
+      }),
+    ).toEqual({
+      plan: 'Pro',
+      topics: ['Billing', 'API'],
+      consent: true,
+      seats: 12,
+      phone: '+1 (415) 555-0100',
+      site: 'https://acme.example.com',
+      ticket: 'OPS-42',
+    });
+
+    const valid = { plan: 'Free', consent: true };
+    expect(() => validateBookingAnswers(questions, { ...valid, consent: false })).toThrow(
+      'Answer required question: "Terms".',
+    );
+    expect(() => validateBookingAnswers(questions, { ...valid, plan: 'Enterprise' })).toThrow(
+      'Answer for "Plan" must be one of the listed options.',
+    );
+    expect(() => validateBookingAnswers(questions, { ...valid, topics: ['Billing', 'Other'] })).toThrow(
+      'Answer for "Topics" must only include the listed options.',
+    );
+    expect(() => validateBookingAnswers(questions, { ...valid, seats: 'many' })).toThrow(
+      'Answer for "Seats" must be a number.',
+    );
+    expect(() => validateBookingAnswers(questions, { ...valid, phone: '555' })).toThrow(
+      'Answer for "Phone" must be a valid phone number.',
+    );
+    expect(() => validateBookingAnswers(questions, { ...valid, site: 'ftp://acme.example.com' })).toThrow(
+      'Answer for "Website" must be a valid http or https URL.',
+    );
+    expect(() => validateBookingAnswers(questions, { ...valid, ticket: 'xOPS-42' })).toThrow(
+      'Answer for "Ticket" is not in the expected format.',
+    );
+    expect(() => validateBookingAnswers(questions, { ...valid, ticket: 'OPS-1234567890' })).toThrow(
+      'Answer for "Ticket" must be at most 12 characters.',
+    );
+    const freeform: PublicEventType['questions'] = [
+      { id: 'code', label: 'Code', required: false, pattern: '[a-z ]+' },
+    ];
+    expect(() => validateBookingAnswers(freeform, { code: 'a'.repeat(101) })).toThrow(
+      'Answer for "Code" must be at most 100 characters.',
+    );
+    // A pattern stored before the save-time check is never evaluated against the answer.
+    const stored: PublicEventType['questions'] = [
+      { id: 'code', label: 'Code', required: false, pattern: '(a|a)+' },
+    ];
+    expect(() => validateBookingAnswers(stored, { code: 'aaaa' })).toThrow(
+      'Answer for "Code" is not in the expected format.',
+    );
+    expect(() => validateBookingAnswers(questions, { ...valid, plan: ['Pro'] })).toThrow(BookingValidationError);
+  });
+
   it('commits booking when slot stays available inside transaction', async () => {
     const harness = buildDataAccess();
 
@@ -136,6 +236,54 @@ describe('commitBooking', () => {
     expect(harness.getActionTokenInsertCount()).toBe(2);
   });
 
+  it('validates the slot against the named schedule selected on the event type', async () => {
+    const harness = buildDataAccess({
+      eventType: { ...publicEventType, availabilityScheduleId: 'schedule-office-hours' },
+      scheduleRules: {
+        'schedule-office-hours': [
+          { dayOfWeek: 2, startMinute: 780, endMinute: 900, bufferBeforeMinutes: 0, bufferAfterMinutes: 0 },
+        ],
+      },
+    });
+    const input = {
+      username: 'demo',
+      eventSlug: 'intro-call',
+      timezone: 'UTC',
+      inviteeName: 'Pat Lee',
+      inviteeEmail: 'pat@example.com',
+    };
+
+    await expect(
+      commitBooking(harness.dataAccess, { ...input, startsAt: '2026-03-02T09:00:00.000Z' }),
+    ).rejects.toBeInstanceOf(BookingConflictError);
+
+    const result = await commitBooking(harness.dataAccess, { ...input, startsAt: '2026-03-03T13:00:00.000Z' });
+    expect(result.booking.id).toBe('booking-1');
+  });
+
+  it('rejects slots inside the minimum notice or beyond the booking horizon before opening a transaction', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-01T12:00:00.000Z'));
+    const harness = buildDataAccess({
+      eventType: { ...publicEventType, minimumNoticeMinutes: 24 * 60, bookingHorizonDays: 7 },
+    });
+    const input = {
+      username: 'demo',
+      eventSlug: 'intro-call',
+      timezone: 'UTC',
+      inviteeName: 'Pat Lee',
+      inviteeEmail: 'pat@example.com',
+    };
+
+    await expect(
+      commitBooking(harness.dataAccess, { ...input, startsAt: '2026-03-02T09:00:00.000Z' }),
+    ).rejects.toThrow(new BookingValidationError('Bookings need at least 1440 minutes of notice.'));
+    await expect(
+      commitBooking(harness.dataAccess, { ...input, startsAt: '2026-03-09T09:00:00.000Z' }),
+    ).rejects.toThrow(new BookingValidationError('Bookings can only be made up to 7 days in advance.'));
+    expect(harness.getTransactionCount()).toBe(0);
+  });
+
   it('rejects booking if the requested slot is unavailable at commit time', async () => {
     const harness = buildDataAccess({
       existingBookings: [
@@ -190,6 +338,43 @@ describe('commitBooking', () => {
     expect(harness.getInsertCount()).toBe(1);
   });
 
+  it('hands each attendee of a seated event type the next open seat until the slot is full', async () => {
+    const seat = (seatNumber: number, startsAtIso = '2026-03-02T09:00:00.000Z', endsAtIso = '2026-03-02T09:30:00.000Z') => ({
+      eventTypeId: 'event-1',
+      startsAt: new Date(startsAtIso),
+      endsAt: new Date(endsAtIso),
+      status: 'confirmed',
+      seatNumber,
+    });
+    const input = {
+      username: 'demo',
+      eventSlug: 'intro-call',
+      startsAt: '2026-03-02T09:00:00.000Z',
+      timezone: 'UTC',
+      inviteeName: 'Pat Lee',
+      inviteeEmail: 'pat@example.com',
+    };
+    const seatedEventType = { ...publicEventType, seatsPerSlot: 3 };
+
+    const openSeat = buildDataAccess({ eventType: seatedEventType, existingBookings: [seat(1), seat(3)] });
+    await commitBooking(openSeat.dataAccess, input);
+    expect(openSeat.getInsertedSeatNumber()).toBe(2);
+
+    const full = buildDataAccess({ eventType: seatedEventType, existingBookings: [seat(1), seat(2), seat(3)] });
+    await expect(commitBooking(full.dataAccess, input)).rejects.toThrow(new BookingConflictError('This slot is full.'));
+
+    const misaligned = buildDataAccess({
+      eventType: seatedEventType,
+      existingBookings: [seat(1, '2026-03-02T09:15:00.000Z', '2026-03-02T09:45:00.000Z')],
+    });
+    await expect(commitBooking(misaligned.dataAccess, input)).rejects.toBeInstanceOf(BookingConflictError);
+
+    const oneOnOne = buildDataAccess();
+    await commitBooking(oneOnOne.dataAccess, input);
+    expect(oneOnOne.getInsertedSeatNumber()).toBe(1);
+    expect(full.getInsertCount()).toBe(0);
+  });
+
   it('maps unique constraint collisions to booking conflict errors', async () => {
     const harness = buildDataAccess({ throwUniqueConflict: true });
 
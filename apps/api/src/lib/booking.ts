@@ -2,12 +2,21 @@ import { DateTime } from 'luxon';
 
 import {
   computeAvailabilitySlots,
+  resolveBookableWindowViolation,
+  toEventTypeSchedulingRules,
   type AvailabilityOverrideWindow,
-  type ExistingBooking,
+  type EventTypeSchedulingRules,
   type WeeklyAvailabilityRule,
 } from './availability';
 import { createRawToken, hashToken } from './auth';
+import {
+  canonicalizeBookingAnswer,
+  normalizeBookingAnswer,
+  type BookingAnswerQuestion,
+  type BookingAnswers,
+} from './booking-answers';
 import { buildBookingCapWindowsForSlot } from './booking-caps';
+import { planSlotSeating, type SeatHoldingBooking } from './booking-seats';
 
 export class BookingValidationError extends Error {}
 export class BookingNotFoundError extends Error {}
@@ -27,9 +36,19 @@ export type PublicEventType = {
   dailyBookingLimit: number | null;
   weeklyBookingLimit: number | null;
   monthlyBookingLimit: number | null;
+  minimumNoticeMinutes: number;
+  bookingHorizonDays: number | null;
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+  slotIncrementMinutes: number | null;
   locationType: string;
   locationValue: string | null;
-  questions: Array<{ id: string; label: string; required: boolean; placeholder?: string | undefined }>;
+  questions: BookingAnswerQuestion[];
+  availabilityScheduleId: string | null;
+  priceCents?: number | null;
+  currency?: string | null;
+  requiresConfirmation?: boolean;
+  seatsPerSlot?: number | null;
   isActive: boolean;
   organizerDisplayName: string;
   organizerEmail: string;
@@ -43,7 +62,7 @@ export type CommitBookingInput = {
   timezone: string;
   inviteeName: string;
   inviteeEmail: string;
-  answers?: Record<string, string>;
+  answers?: BookingAnswers;
 };
 
 export type InsertedBooking = {
@@ -70,7 +89,7 @@ export type BookingActionTokenPublic = {
 
 export type BookingTransaction = {
   lockEventType(eventTypeId: string): Promise<void>;
-  listRules(userId: string): Promise<WeeklyAvailabilityRule[]>;
+  listRules(userId: string, scheduleId: string | null): Promise<WeeklyAvailabilityRule[]>;
   listOverrides(userId: string, rangeStart: Date, rangeEnd: Date): Promise<AvailabilityOverrideWindow[]>;
   listExternalBusyWindows(
     userId: string,
@@ -81,7 +100,7 @@ export type BookingTransaction = {
     organizerId: string,
     rangeStart: Date,
     rangeEnd: Date,
-  ): Promise<ExistingBooking[]>;
+  ): Promise<SeatHoldingBooking[]>;
   countConfirmedEventTypeBookingsInWindow(input: {
     eventTypeId: string;
     startsAt: Date;
@@ -95,6 +114,7 @@ export type BookingTransaction = {
     startsAt: Date;
     endsAt: Date;
     metadata: string | null;
+    seatNumber: number;
   }): Promise<InsertedBooking>;
   insertActionTokens(bookingId: string, tokens: BookingActionTokenWrite[]): Promise<void>;
   afterInsertBooking?(booking: InsertedBooking): Promise<void>;
@@ -111,6 +131,7 @@ export type BookingDataAccess = {
 export type CommitBookingResult = {
   eventType: PublicEventType;
   booking: InsertedBooking;
+  answers: BookingAnswers;
   actionTokens: BookingActionTokenPublic[];
   performance: {
     lockMs: number;
@@ -124,32 +145,24 @@ export type CommitBookingResult = {
 const slotKey = (startsAt: string, endsAt: string): string => `${startsAt}|${endsAt}`;
 
 export const normalizeBookingAnswersForIdempotency = (
-  answers: Record<string, string> | undefined,
-): Record<string, string> => {
+  answers: BookingAnswers | undefined,
+): BookingAnswers => {
   if (!answers) {
     return {};
   }
 
   return Object.fromEntries(
     Object.entries(answers).flatMap(([questionId, rawValue]) => {
-      if (typeof rawValue !== 'string') {
-        return [];
-      }
-
-      const value = rawValue.trim();
-      if (!value) {
-        return [];
-      }
-
-      return [[questionId, value]];
+      const value = canonicalizeBookingAnswer(rawValue);
+      return value === null ? [] : [[questionId, value]];
     }),
   );
 };
 
 export const validateBookingAnswers = (
   questions: PublicEventType['questions'],
-  answers: Record<string, string> | undefined,
-): Record<string, string> => {
+  answers: BookingAnswers | undefined,
+): BookingAnswers => {
   const providedAnswers = answers ?? {};
   const questionById = new Map(questions.map((question) => [question.id, question]));
 
@@ -159,25 +172,45 @@ export const validateBookingAnswers = (
     }
   }
 
-  const normalizedAnswers: Record<string, string> = {};
+  const normalizedAnswers: BookingAnswers = {};
 
   for (const question of questions) {
-    const rawValue = providedAnswers[question.id];
-    const value = typeof rawValue === 'string' ? rawValue.trim() : '';
+    const result = normalizeBookingAnswer(question, providedAnswers[question.id]);
+    if (result.kind === 'invalid') {
+      throw new BookingValidationError(result.message);
+    }
 
-    if (!value) {
+    if (result.kind === 'empty') {
       if (question.required) {
         throw new BookingValidationError(`Answer required question: "${question.label}".`);
       }
       continue;
     }
 
-    normalizedAnswers[question.id] = value;
+    normalizedAnswers[question.id] = result.value;
   }
 
   return normalizedAnswers;
 };
 
+export const assertWithinBookableWindow = (
+  startsAt: Date,
+  eventTypeRules: EventTypeSchedulingRules,
+  now: Date = new Date(),
+): void => {
+  const violation = resolveBookableWindowViolation(startsAt, eventTypeRules, now);
+  if (violation === 'minimum_notice') {
+    throw new BookingValidationError(
+      `Bookings need at least ${eventTypeRules.minimumNoticeMinutes} minutes of notice.`,
+    );
+  }
+  if (violation === 'booking_horizon') {
+    throw new BookingValidationError(
+      `Bookings can only be made up to ${eventTypeRules.bookingHorizonDays} days in advance.`,
+    );
+  }
+};
+
 export const createBookingActionTokenSet = (
   now: Date = new Date(),
 ): {
@@ -220,6 +253,10 @@ export const commitBooking = async (
     throw new BookingValidationError('Invalid startsAt value.');
   }
 
+  const eventTypeRules = toEventTypeSchedulingRules(eventType);
+  const now = new Date();
+  assertWithinBookableWindow(startsAt.toJSDate(), eventTypeRules, now);
+
   const endsAt = startsAt.plus({ minutes: eventType.durationMinutes });
   const startsAtIso = startsAt.toUTC().toISO();
   const endsAtIso = endsAt.toUTC().toISO();
@@ -243,7 +280,7 @@ export const commitBooking = async (
 
     const scheduleLoadStartedAt = Date.now();
     const [rules, overrides, externalBusyWindows, confirmedBookings] = await Promise.all([
-      transaction.listRules(eventType.userId),
+      transaction.listRules(eventType.userId, eventType.availabilityScheduleId),
       transaction.listOverrides(eventType.userId, rangeStart, rangeEnd),
       transaction.listExternalBusyWindows(eventType.userId, rangeStart, rangeEnd),
       transaction.listConfirmedBookings(eventType.userId, rangeStart, rangeEnd),
@@ -256,6 +293,7 @@ export const commitBooking = async (
       isAvailable: false,
     }));
 
+    const seating = planSlotSeating(confirmedBookings, eventType);
     const availabilityComputeStartedAt = Date.now();
     const slots = computeAvailabilitySlots({
       organizerTimezone: eventType.organizerTimezone,
@@ -264,7 +302,9 @@ export const commitBooking = async (
       durationMinutes: eventType.durationMinutes,
       rules,
       overrides: [...overrides, ...blockingBusyOverrides],
-      bookings: confirmedBookings,
+      bookings: seating.blockingBookings,
+      eventTypeRules,
+      now,
     });
     const availabilityComputeMs = Date.now() - availabilityComputeStartedAt;
 
@@ -274,6 +314,10 @@ export const commitBooking = async (
     if (!matchingSlot) {
       throw new BookingConflictError('Selected slot is no longer available.');
     }
+    const seatNumber = seating.claimSeat(startsAtIso, endsAtIso);
+    if (seatNumber === null) {
+      throw new BookingConflictError('This slot is full.');
+    }
 
     const capWindows = buildBookingCapWindowsForSlot({
       startsAtIso,
@@ -318,6 +362,7 @@ export const commitBooking = async (
         startsAt: startsAt.toJSDate(),
         endsAt: endsAt.toJSDate(),
         metadata,
+        seatNumber,
       });
 
       await transaction.insertActionTokens(booking.id, actionTokenSet.tokenWrites);
@@ -327,13 +372,7 @@ export const commitBooking = async (
       return {
         booking,
         actionTokens: actionTokenSet.publicTokens,
-        performance: {
-          lockMs,
-          scheduleLoadMs,
-          availabilityComputeMs,
-          capCheckMs,
-          insertMs,
-        },
+        performance: { lockMs, scheduleLoadMs, availabilityComputeMs, capCheckMs, insertMs },
       };
     } catch (error) {
       if (error instanceof BookingUniqueConstraintError) {
@@ -346,6 +385,7 @@ export const commitBooking = async (
   return {
     eventType,
     booking: result.booking,
+    answers: normalizedAnswers,
     actionTokens: result.actionTokens,
     performance: result.performance,
   };
@@ -0,0 +1,320 @@
+import { escapeIcsParam, escapeIcsText, foldIcsLine, toIcsUtcTimestamp } from './calendar-invite';
+import {
+  buildCaldavAuthorizationHeader,
+  CaldavRequestError,
+  isLocalCaldavUrl,
+  parseCaldavFreeBusy,
+  toCaldavResponseError,
+  toCaldavTimeRangeValue,
+  unfoldIcsLines,
+  type CaldavBusyWindow,
+  type CaldavCredentials,
+  type CaldavTargetOptions,
+  type FetchLike,
+} from './caldav-shared';
+import { resolveWebhookTargetSafety } from './webhooks';
+
+const CALDAV_PRODUCT_ID = '-//OpenCalendly//CalDAV Writeback//EN';
+
+type CaldavRequestInput = CaldavTargetOptions & {
+  calendarUrl: string;
+  credentials: CaldavCredentials;
+};
+
+type CaldavEventRequestInput = CaldavTargetOptions & {
+  credentials: CaldavCredentials;
+  externalEventId: string;
+};
+
+/**
+ * Applies the webhook SSRF rules to a CalDAV URL: https, a public hostname and public resolved
+ * addresses. The stored URL is re-checked before every request because DNS can change after connect.
+ */
+export const assertCaldavTargetAllowed = async (
+  url: string,
+  options: CaldavTargetOptions,
+): Promise<void> => {
+  if (options.allowLocalHttp && isLocalCaldavUrl(url)) {
+    return;
+  }
+
+  const safety = await resolveWebhookTargetSafety(url);
+  if (!safety.ok) {
+    throw new CaldavRequestError(
+      safety.retryable
+        ? 'Unable to verify the CalDAV server address.'
+        : 'CalDAV calendar URL must use https and a public hostname.',
+      safety.reason,
+    );
+  }
+};
+
+// Redirects are never followed: a 3xx could point the organizer's credentials at an internal host.
+const requestCaldav = async (
+  fetchImpl: FetchLike,
+  options: CaldavTargetOptions,
+  url: string,
+  init: RequestInit,
+): Promise<Response> => {
+  await assertCaldavTargetAllowed(url, options);
+  return fetchImpl(url, { ...init, redirect: 'manual' });
+};
+
+const buildHeaders = (credentials: CaldavCredentials, extra: Record<string, string> = {}) => {
+  return {
+    authorization: buildCaldavAuthorizationHeader(credentials),
+    ...extra,
+  };
+};
+
+export const verifyCaldavCalendar = async (
+  input: CaldavRequestInput,
+  fetchImpl: FetchLike = fetch,
+): Promise<{ displayName: string | null }> => {
+  const response = await requestCaldav(fetchImpl, input, input.calendarUrl, {
+    method: 'PROPFIND',
+    headers: buildHeaders(input.credentials, {
+      depth: '0',
+      'content-type': 'application/xml; charset=utf-8',
+    }),
+    body:
+      '<?xml version="1.0" encoding="utf-8"?>' +
+      '<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">' +
+      '<d:prop><d:resourcetype/><d:displayname/></d:prop>' +
+      '</d:propfind>',
+  });
+
+  if (response.status === 401 || response.status === 403) {
+    throw new Error('CalDAV server rejected the username or app password.');
+  }
+  if (response.status !== 207) {
+    throw await toCaldavResponseError(response, 'CalDAV calendar lookup');
+  }
+
+  const body = await response.text();
+  const resourceType = /<(?:[\w-]+:)?resourcetype[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?resourcetype>/i.exec(body)?.[1] ?? '';
+  if (!/<(?:[\w-]+:)?calendar[\s/>]/i.test(resourceType)) {
+    throw new Error('CalDAV URL does not point to a calendar collection.');
+  }
+
+  const displayName = /<(?:[\w-]+:)?displayname[^>]*>([^<]*)<\//i.exec(body)?.[1]?.trim();
+  return { displayName: displayName && displayName.length > 0 ? displayName : null };
+};
+
+export const fetchCaldavBusyWindows = async (
+  input: CaldavRequestInput & { startIso: string; endIso: string },
+  fetchImpl: FetchLike = fetch,
+): Promise<CaldavBusyWindow[]> => {
+  const response = await requestCaldav(fetchImpl, input, input.calendarUrl, {
+    method: 'REPORT',
+    headers: buildHeaders(input.credentials, {
+      depth: '1',
+      'content-type': 'application/xml; charset=utf-8',
+    }),
+    body:
+      '<?xml version="1.0" encoding="utf-8"?>' +
+      '<c:free-busy-query xmlns:c="urn:ietf:params:xml:ns:caldav">' +
+      `<c:time-range start="${toCaldavTimeRangeValue(input.startIso)}" end="${toCaldavTimeRangeValue(input.endIso)}"/>` +
+      '</c:free-busy-query>',
+  });
+
+  if (!response.ok) {
+    throw await toCaldavResponseError(response, 'CalDAV free/busy query');
+  }
+
+  return parseCaldavFreeBusy(await response.text());
+};
+
+// Event resources are named after the writeback idempotency key, so a retried create after a lost
+// response finds the same resource instead of writing a duplicate.
+const toCaldavResourceName = (idempotencyKey: string): string => {
+  return `opencalendly-${idempotencyKey.replace(/[^a-zA-Z0-9-]/g, '-')}`;
+};
+
+export const buildCaldavEventUrl = (calendarUrl: string, idempotencyKey: string): string => {
+  return new URL(`${toCaldavResourceName(idempotencyKey)}.ics`, calendarUrl).toString();
+};
+
+export const buildCaldavEventIcs = (input: {
+  uid: string;
+  eventName: string;
+  inviteeName: string;
+  inviteeEmail: string;
+  startsAtIso: string;
+  endsAtIso: string;
+  locationValue: string | null;
+  optionalAttendees?: Array<{ name: string; email: string }>;
+  now?: Date;
+}): string => {
+  const location = input.locationValue?.trim();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    `PRODID:${CALDAV_PRODUCT_ID}`,
+    'VERSION:2.0',
+    'BEGIN:VEVENT',
+    `UID:${input.uid}`,
+    'SEQUENCE:0',
+    `DTSTAMP:${toIcsUtcTimestamp(input.now ?? new Date())}`,
+    `DTSTART:${toIcsUtcTimestamp(input.startsAtIso)}`,
+    `DTEND:${toIcsUtcTimestamp(input.endsAtIso)}`,
+    `SUMMARY:${escapeIcsText(input.eventName)}`,
+    `DESCRIPTION:${escapeIcsText(`OpenCalendly booking with ${input.inviteeName} (${input.inviteeEmail})`)}`,
+    ...(location ? [`LOCATION:${escapeIcsText(location)}`] : []),
+    `ATTENDEE;CN=${escapeIcsParam(input.inviteeName)};ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED:mailto:${input.inviteeEmail}`,
+    ...(input.optionalAttendees ?? []).map(
+      (attendee) =>
+        `ATTENDEE;CN=${escapeIcsParam(attendee.name)};ROLE=OPT-PARTICIPANT;PARTSTAT=NEEDS-ACTION:mailto:${attendee.email}`,
+    ),
+    'STATUS:CONFIRMED',
+    'TRANSP:OPAQUE',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+  return `${lines.map(foldIcsLine).join('\r\n')}\r\n`;
+};
+
+export const createCaldavCalendarEvent = async (
+  input: CaldavRequestInput & {
+    idempotencyKey: string;
+    uidDomain: string;
+    eventName: string;
+    inviteeName: string;
+    inviteeEmail: string;
+    startsAtIso: string;
+    endsAtIso: string;
+    locationValue: string | null;
+    optionalAttendees?: Array<{ name: string; email: string }>;
+  },
+  fetchImpl: FetchLike = fetch,
+): Promise<{ externalEventId: string }> => {
+  const eventUrl = buildCaldavEventUrl(input.calendarUrl, input.idempotencyKey);
+  const response = await requestCaldav(fetchImpl, input, eventUrl, {
+    method: 'PUT',
+    headers: buildHeaders(input.credentials, {
+      'content-type': 'text/calendar; charset=utf-8',
+      'if-none-match': '*',
+    }),
+    body: buildCaldavEventIcs({
+      uid: `${toCaldavResourceName(input.idempotencyKey)}@${input.uidDomain}`,
+      eventName: input.eventName,
+      inviteeName: input.inviteeName,
+      inviteeEmail: input.inviteeEmail,
+      startsAtIso: input.startsAtIso,
+      endsAtIso: input.endsAtIso,
+      locationValue: input.locationValue,
+      ...(input.optionalAttendees ? { optionalAttendees: input.optionalAttendees } : {}),
+    }),
+  });
+
+  // 412 means the resource already exists from an earlier attempt with the same idempotency key.
+  if (!response.ok && response.status !== 412) {
+    throw await toCaldavResponseError(response, 'CalDAV calendar event create');
+  }
+
+  return { externalEventId: eventUrl };
+};
+
+export const findCaldavCalendarEventByIdempotencyKey = async (
+  input: CaldavRequestInput & { idempotencyKey: string },
+  fetchImpl: FetchLike = fetch,
+): Promise<{ externalEventId: string } | null> => {
+  const eventUrl = buildCaldavEventUrl(input.calendarUrl, input.idempotencyKey);
+  const response = await requestCaldav(fetchImpl, input, eventUrl, {
+    method: 'GET',
+    headers: buildHeaders(input.credentials),
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw await toCaldavResponseError(response, 'CalDAV calendar event lookup');
+  }
+
+  return { externalEventId: eventUrl };
+};
+
+export const cancelCaldavCalendarEvent = async (
+  input: CaldavEventRequestInput,
+  fetchImpl: FetchLike = fetch,
+): Promise<void> => {
+  const response = await requestCaldav(fetchImpl, input, input.externalEventId, {
+    method: 'DELETE',
+    headers: buildHeaders(input.credentials),
+  });
+
+  if (response.status === 404) {
+    return;
+  }
+  if (!response.ok) {
+    throw await toCaldavResponseError(response, 'CalDAV calendar event cancel');
+  }
+};
+
+const rewriteEventTimes = (ics: string, input: { startsAtIso: string; endsAtIso: string }): string => {
+  let sequenceSeen = false;
+  let inEvent = false;
+  const lines = unfoldIcsLines(ics).map((line) => {
+    const upper = line.toUpperCase();
+    if (upper === 'BEGIN:VEVENT' || upper === 'END:VEVENT') {
+      inEvent = upper === 'BEGIN:VEVENT';
+      return line;
+    }
+    // Only the VEVENT's own properties move; VTIMEZONE rules also carry DTSTART lines.
+    if (!inEvent) {
+      return line;
+    }
+    const name = line.slice(0, line.search(/[;:]/)).toUpperCase();
+    if (name === 'DTSTART') {
+      return `DTSTART:${toIcsUtcTimestamp(input.startsAtIso)}`;
+    }
+    if (name === 'DTEND') {
+      return `DTEND:${toIcsUtcTimestamp(input.endsAtIso)}`;
+    }
+    if (name === 'DTSTAMP') {
+      return `DTSTAMP:${toIcsUtcTimestamp(new Date())}`;
+    }
+    if (name === 'SEQUENCE') {
+      sequenceSeen = true;
+      return `SEQUENCE:${(Number.parseInt(line.slice(line.indexOf(':') + 1), 10) || 0) + 1}`;
+    }
+    return line;
+  });
+
+  const withSequence = sequenceSeen
+    ? lines
+    : lines.flatMap((line) => (line === 'BEGIN:VEVENT' ? [line, 'SEQUENCE:1'] : [line]));
+  return `${withSequence.map(foldIcsLine).join('\r\n')}\r\n`;
+};
+
+// CalDAV has no partial update, so reschedules rewrite the stored resource with the new times and
+// guard the PUT with its ETag to avoid clobbering a concurrent edit.
+export const updateCaldavCalendarEvent = async (
+  input: CaldavEventRequestInput & { startsAtIso: string; endsAtIso: string },
+  fetchImpl: FetchLike = fetch,
+): Promise<void> => {
+  const existing = await requestCaldav(fetchImpl, input, input.externalEventId, {
+    method: 'GET',
+    headers: buildHeaders(input.credentials),
+  });
+  if (existing.status === 404) {
+    return;
+  }
+  if (!existing.ok) {
+    throw await toCaldavResponseError(existing, 'CalDAV calendar event lookup');
+  }
+
+  const etag = existing.headers.get('etag');
+  const response = await requestCaldav(fetchImpl, input, input.externalEventId, {
+    method: 'PUT',
+    headers: buildHeaders(input.credentials, {
+      'content-type': 'text/calendar; charset=utf-8',
+      ...(etag ? { 'if-match': etag } : {}),
+    }),
+    body: rewriteEventTimes(await existing.text(), input),
+  });
+
+  if (!response.ok) {
+    throw await toCaldavResponseError(response, 'CalDAV calendar event update');
+  }
+};
@@ -0,0 +1,173 @@
+import { DateTime, Duration } from 'luxon';
+
+export type FetchLike = typeof fetch;
+
+export type CaldavCredentials = {
+  username: string;
+  password: string;
+};
+
+export type CaldavBusyWindow = {
+  start: string;
+  end: string;
+};
+
+export type CaldavTargetOptions = {
+  // Only true when dev auth bootstrap is enabled; production never talks to a local CalDAV server.
+  allowLocalHttp: boolean;
+};
+
+// Carries the remote response body separately so it can be logged without reaching API clients or
+// the organizer-visible connection error.
+export class CaldavRequestError extends Error {
+  constructor(
+    message: string,
+    readonly detail: string | null = null,
+  ) {
+    super(message);
+  }
+}
+
+const LOCAL_CALDAV_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+const ICS_UTC_FORMAT = "yyyyMMdd'T'HHmmss'Z'";
+
+export const isLocalCaldavUrl = (value: string): boolean => {
+  try {
+    return LOCAL_CALDAV_HOSTNAMES.has(new URL(value).hostname);
+  } catch {
+    return false;
+  }
+};
+
+// CalDAV servers receive the organizer's password on every request, so anything but TLS is only
+// accepted for a stub or self-hosted server running on the same machine during development.
+export const normalizeCaldavCalendarUrl = (value: string, options: CaldavTargetOptions): string => {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new Error('CalDAV calendar URL must be a valid absolute URL.');
+  }
+
+  const isLocal = options.allowLocalHttp && LOCAL_CALDAV_HOSTNAMES.has(url.hostname);
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && isLocal)) {
+    throw new Error('CalDAV calendar URL must use https.');
+  }
+  if (url.username || url.password) {
+    throw new Error('CalDAV calendar URL must not embed credentials.');
+  }
+
+  url.hash = '';
+  url.search = '';
+  if (!url.pathname.endsWith('/')) {
+    url.pathname = `${url.pathname}/`;
+  }
+  return url.toString();
+};
+
+export const serializeCaldavCredentials = (credentials: CaldavCredentials): string => {
+  return JSON.stringify({ username: credentials.username, password: credentials.password });
+};
+
+export const parseCaldavCredentials = (value: string): CaldavCredentials => {
+  const parsed = JSON.parse(value) as Partial<CaldavCredentials>;
+  if (typeof parsed.username !== 'string' || typeof parsed.password !== 'string') {
+    throw new Error('Stored CalDAV credentials are invalid.');
+  }
+  return { username: parsed.username, password: parsed.password };
+};
+
+export const buildCaldavAuthorizationHeader = (credentials: CaldavCredentials): string => {
+  const bytes = new TextEncoder().encode(`${credentials.username}:${credentials.password}`);
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return `Basic ${btoa(binary)}`;
+};
+
+export const toCaldavResponseError = async (
+  response: Response,
+  action: string,
+): Promise<CaldavRequestError> => {
+  const payload = await response.text().catch(() => '');
+  return new CaldavRequestError(
+    `${action} failed with HTTP ${response.status}.`,
+    payload.slice(0, 500) || null,
+  );
+};
+
+export const unfoldIcsLines = (ics: string): string[] => {
+  return ics
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter((line) => line.length > 0);
+};
+
+const parseIcsUtcDateTime = (value: string): DateTime | null => {
+  const parsed = DateTime.fromFormat(value, ICS_UTC_FORMAT, { zone: 'utc' });
+  return parsed.isValid ? parsed : null;
+};
+
+const parseFreeBusyPeriod = (period: string): CaldavBusyWindow | null => {
+  const [startValue, endValue] = period.split('/');
+  if (!startValue || !endValue) {
+    return null;
+  }
+
+  const start = parseIcsUtcDateTime(startValue);
+  if (!start) {
+    return null;
+  }
+  const end = /^[+]?P/.test(endValue)
+    ? start.plus(Duration.fromISO(endValue.replace(/^\+/, '')))
+    : parseIcsUtcDateTime(endValue);
+  if (!end || !end.isValid || end.toMillis() <= start.toMillis()) {
+    return null;
+  }
+
+  const startIso = start.toUTC().toISO();
+  const endIso = end.toUTC().toISO();
+  return startIso && endIso ? { start: startIso, end: endIso } : null;
+};
+
+// RFC 4791 §7.10 free-busy-query responses are a VFREEBUSY component whose FREEBUSY properties
+// list UTC periods as `start/end` or `start/duration`. FBTYPE=FREE periods are ignored.
+export const parseCaldavFreeBusy = (ics: string): CaldavBusyWindow[] => {
+  const windows: CaldavBusyWindow[] = [];
+
+  for (const line of unfoldIcsLines(ics)) {
+    const separatorIndex = line.indexOf(':');
+    if (separatorIndex < 0) {
+      continue;
+    }
+    const [name, ...params] = line.slice(0, separatorIndex).split(';');
+    if (name?.toUpperCase() !== 'FREEBUSY') {
+      continue;
+    }
+    const fbType = params
+      .map((param) => param.split('='))
+      .find(([key]) => key?.toUpperCase() === 'FBTYPE')?.[1]
+      ?.toUpperCase();
+    if (fbType === 'FREE') {
+      continue;
+    }
+
+    for (const period of line.slice(separatorIndex + 1).split(',')) {
+      const window = parseFreeBusyPeriod(period.trim());
+      if (window) {
+        windows.push(window);
+      }
+    }
+  }
+
+  return windows;
+};
+
+export const toCaldavTimeRangeValue = (isoValue: string): string => {
+  const parsed = DateTime.fromISO(isoValue, { zone: 'utc' });
+  if (!parsed.isValid) {
+    throw new Error('Invalid ISO datetime for CalDAV time range.');
+  }
+  return parsed.toUTC().toFormat(ICS_UTC_FORMAT);
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildCalendarFeedIcs, parseCalendarFeedToken, resolveCalendarFeedWindow } from './calendar-feed';
+
+describe('calendar feed helpers', () => {
+  it('publishes one VEVENT per booking with team context and CRLF line endings', () => {
+    const ics = buildCalendarFeedIcs({
+      calendarName: 'OpenCalendly · Demo Organizer',
+      timezone: 'UTC',
+      now: new Date('2026-02-26T07:45:00.000Z'),
+      bookings: [
+        {
+          bookingId: 'b1',
+          eventName: 'Intro Call',
+          startsAt: new Date('2026-03-02T09:00:00.000Z'),
+          endsAt: new Date('2026-03-02T09:30:00.000Z'),
+          inviteeName: 'Pat Lee',
+          inviteeEmail: 'pat@example.com',
+          locationValue: 'https://meet.example.com/demo',
+          teamName: null,
+          inviteUid: 'booking-b1@opencalendly.com',
+          inviteSequence: 0,
+        },
+        {
+          bookingId: 'b2',
+          eventName: 'Team Demo',
+          startsAt: new Date('2026-03-03T10:00:00.000Z'),
+          endsAt: new Date('2026-03-03T11:00:00.000Z'),
+          inviteeName: 'Sam Roe',
+          inviteeEmail: 'sam@example.com',
+          locationValue: null,
+          teamName: 'Sales',
+          // Rescheduled from b0: the feed keeps the UID the original invite email used.
+          inviteUid: 'booking-b0@opencalendly.com',
+          inviteSequence: 1,
+        },
+      ],
+    });
+    const lines = ics.replace(/\r\n /g, '').split('\r\n');
+
+    expect(ics).not.toMatch(/[^\r]\n/);
+    expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(2);
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        'METHOD:PUBLISH',
+        'X-WR-CALNAME:OpenCalendly · Demo Organizer',
+        'UID:booking-b1@opencalendly.com',
+        'UID:booking-b0@opencalendly.com',
+        'SEQUENCE:1',
+        'DTSTART:20260302T090000Z',
+        'LOCATION:https://meet.example.com/demo',
+        'DESCRIPTION:Invitee: Sam Roe <sam@example.com>\\nTeam: Sales',
+      ]),
+    );
+  });
+
+  it('returns an empty calendar when there are no bookings', () => {
+    const ics = buildCalendarFeedIcs({ calendarName: 'Empty', timezone: 'UTC', bookings: [] });
+
+    expect(ics).toContain('BEGIN:VCALENDAR');
+    expect(ics).not.toContain('BEGIN:VEVENT');
+  });
+
+  it('only accepts 64-character hex tokens with an .ics suffix', () => {
+    const token = 'f'.repeat(64);
+
+    expect(parseCalendarFeedToken(`${token}.ics`)).toBe(token);
+    expect(parseCalendarFeedToken(token)).toBeNull();
+    expect(parseCalendarFeedToken(`${token.toUpperCase()}.ics`)).toBeNull();
+    expect(parseCalendarFeedToken('../secret.ics')).toBeNull();
+  });
+
+  it('bounds the feed to recent history and the upcoming year', () => {
+    const window = resolveCalendarFeedWindow(new Date('2026-03-01T00:00:00.000Z'));
+
+    expect(window.startsAt.toISOString()).toBe('2026-01-30T00:00:00.000Z');
+    expect(window.endsAt.toISOString()).toBe('2027-03-01T00:00:00.000Z');
+  });
+});
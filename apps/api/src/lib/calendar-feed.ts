@@ -0,0 +1,93 @@
+import {
+  escapeIcsParam,
+  escapeIcsText,
+  foldIcsLine,
+  toIcsUtcTimestamp,
+} from './calendar-invite';
+
+export const CALENDAR_FEED_PAST_DAYS = 30;
+export const CALENDAR_FEED_FUTURE_DAYS = 365;
+export const CALENDAR_FEED_MAX_EVENTS = 1000;
+
+const FEED_PRODUCT_ID = '-//OpenCalendly//Booking Feed//EN';
+const FEED_REFRESH_INTERVAL = 'PT15M';
+
+export type CalendarFeedBooking = {
+  bookingId: string;
+  eventName: string;
+  startsAt: Date;
+  endsAt: Date;
+  inviteeName: string;
+  inviteeEmail: string;
+  locationValue: string | null;
+  teamName: string | null;
+  // Shared with the emailed invite, so a client holding both treats them as one event.
+  inviteUid: string;
+  inviteSequence: number;
+};
+
+export type CalendarFeedInput = {
+  calendarName: string;
+  timezone: string;
+  bookings: CalendarFeedBooking[];
+  now?: Date;
+};
+
+export const resolveCalendarFeedWindow = (now: Date): { startsAt: Date; endsAt: Date } => {
+  const dayMs = 24 * 60 * 60 * 1000;
+  return {
+    startsAt: new Date(now.getTime() - CALENDAR_FEED_PAST_DAYS * dayMs),
+    endsAt: new Date(now.getTime() + CALENDAR_FEED_FUTURE_DAYS * dayMs),
+  };
+};
+
+const buildFeedEventLines = (booking: CalendarFeedBooking, stamp: string): string[] => {
+  const location = booking.locationValue?.trim();
+  const description = [
+    `Invitee: ${booking.inviteeName} <${booking.inviteeEmail}>`,
+    ...(booking.teamName ? [`Team: ${booking.teamName}`] : []),
+  ].join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${booking.inviteUid}`,
+    `SEQUENCE:${booking.inviteSequence}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${toIcsUtcTimestamp(booking.startsAt)}`,
+    `DTEND:${toIcsUtcTimestamp(booking.endsAt)}`,
+    `SUMMARY:${escapeIcsText(`${booking.eventName} with ${booking.inviteeName}`)}`,
+    `DESCRIPTION:${escapeIcsText(description)}`,
+    ...(location ? [`LOCATION:${escapeIcsText(location)}`] : []),
+    `ATTENDEE;CN=${escapeIcsParam(booking.inviteeName)};ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED:mailto:${booking.inviteeEmail}`,
+    'STATUS:CONFIRMED',
+    'TRANSP:OPAQUE',
+    'END:VEVENT',
+  ];
+};
+
+// Subscription feeds are read-only snapshots (METHOD:PUBLISH): calendar clients replace the whole
+// calendar on every poll, so canceled or rescheduled bookings simply drop out of the next response.
+export const buildCalendarFeedIcs = (input: CalendarFeedInput): string => {
+  const stamp = toIcsUtcTimestamp(input.now ?? new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    `PRODID:${FEED_PRODUCT_ID}`,
+    'VERSION:2.0',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(input.calendarName)}`,
+    `X-WR-TIMEZONE:${input.timezone}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${FEED_REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${FEED_REFRESH_INTERVAL}`,
+    ...input.bookings.flatMap((booking) => buildFeedEventLines(booking, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return `${lines.map(foldIcsLine).join('\r\n')}\r\n`;
+};
+
+// Feed URLs end in `.ics` so calendar clients recognise them; the token itself is the secret.
+export const parseCalendarFeedToken = (fileName: string): string | null => {
+  const match = /^([a-f0-9]{64})\.ics$/.exec(fileName);
+  return match?.[1] ?? null;
+};
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildAddToCalendarLinks,
+  buildBookingInviteUid,
+  buildCalendarInviteAttachment,
+  buildCalendarInviteIcs,
+  buildCalendarInviteParts,
+} from './calendar-invite';
+
+const baseInvite = {
+  uid: buildBookingInviteUid('526c8230-6f9e-4332-81cb-2f6d3e3ef105', 'opencalendly.com'),
+  startsAt: '2026-03-02T09:00:00.000Z',
+  endsAt: '2026-03-02T09:30:00.000Z',
+  summary: 'Intro Call with Demo Organizer',
+  location: 'https://meet.example.com/demo',
+  organizer: { name: 'Demo Organizer', email: 'demo@opencalendly.dev' },
+  attendee: { name: 'Pat Lee', email: 'pat@example.com' },
+  now: new Date('2026-02-26T07:45:00.000Z'),
+};
+
+const unfold = (ics: string): string[] => ics.replace(/\r\n /g, '').split('\r\n');
+
+describe('calendar invite helpers', () => {
+  it('builds an RFC 5545 request with a stable UID, sequence, and CRLF line endings', () => {
+    const ics = buildCalendarInviteIcs({ ...baseInvite, method: 'REQUEST', sequence: 0 });
+    const lines = unfold(ics);
+
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(ics).not.toMatch(/[^\r]\n/);
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        'BEGIN:VCALENDAR',
+        'METHOD:REQUEST',
+        'UID:booking-526c8230-6f9e-4332-81cb-2f6d3e3ef105@opencalendly.com',
+        'SEQUENCE:0',
+        'DTSTAMP:20260226T074500Z',
+        'DTSTART:20260302T090000Z',
+        'DTEND:20260302T093000Z',
+        'SUMMARY:Intro Call with Demo Organizer',
+        'LOCATION:https://meet.example.com/demo',
+        'ORGANIZER;CN="Demo Organizer":mailto:demo@opencalendly.dev',
+        'STATUS:CONFIRMED',
+        'END:VCALENDAR',
+      ]),
+    );
+  });
+
+  it('marks cancellations with METHOD:CANCEL and STATUS:CANCELLED for the same UID', () => {
+    const lines = unfold(buildCalendarInviteIcs({ ...baseInvite, method: 'CANCEL', sequence: 3 }));
+
+    expect(lines).toContain('METHOD:CANCEL');
+    expect(lines).toContain('STATUS:CANCELLED');
+    expect(lines).toContain('SEQUENCE:3');
+    expect(lines).toContain('UID:booking-526c8230-6f9e-4332-81cb-2f6d3e3ef105@opencalendly.com');
+  });
+
+  it('escapes text values and folds long lines at 75 octets', () => {
+    const ics = buildCalendarInviteIcs({
+      ...baseInvite,
+      method: 'REQUEST',
+      sequence: 1,
+      summary: `Roadmap review; Q2, planning\n${'é'.repeat(60)}`,
+    });
+
+    for (const line of ics.split('\r\n')) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(unfold(ics)).toContain(`SUMMARY:Roadmap review\\; Q2\\, planning\\n${'é'.repeat(60)}`);
+  });
+
+  it('encodes attachments as base64 calendar files', () => {
+    const attachment = buildCalendarInviteAttachment({ ...baseInvite, method: 'REQUEST', sequence: 0 });
+
+    expect(attachment.filename).toBe('invite.ics');
+    expect(attachment.contentType).toBe('text/calendar; charset=utf-8; method=REQUEST');
+    expect(Buffer.from(attachment.content, 'base64').toString('utf8')).toContain('METHOD:REQUEST');
+  });
+
+  it('builds Google and Outlook add-to-calendar links', () => {
+    const links = buildAddToCalendarLinks(baseInvite);
+    const google = new URL(links.google);
+    const outlook = new URL(links.outlook);
+
+    expect(google.searchParams.get('action')).toBe('TEMPLATE');
+    expect(google.searchParams.get('dates')).toBe('20260302T090000Z/20260302T093000Z');
+    expect(google.searchParams.get('location')).toBe('https://meet.example.com/demo');
+    expect(outlook.searchParams.get('subject')).toBe('Intro Call with Demo Organizer');
+    expect(outlook.searchParams.get('startdt')).toBe('2026-03-02T09:00:00.000Z');
+    expect(outlook.searchParams.get('enddt')).toBe('2026-03-02T09:30:00.000Z');
+  });
+
+  it('only adds links for active bookings and skips everything without invite details', () => {
+    const input = {
+      eventName: 'Intro Call',
+      organizerDisplayName: 'Demo Organizer',
+      recipientName: 'Pat Lee',
+      recipientEmail: 'pat@example.com',
+      startsAt: '2026-03-02T09:00:00.000Z',
+    };
+    const invite = {
+      uid: baseInvite.uid,
+      sequence: 1,
+      endsAt: '2026-03-02T09:30:00.000Z',
+      organizerEmail: 'demo@opencalendly.dev',
+    };
+
+    expect(buildCalendarInviteParts({ ...input, method: 'REQUEST', invite: undefined })).toEqual({
+      lines: [],
+      attachments: [],
+    });
+
+    const request = buildCalendarInviteParts({ ...input, method: 'REQUEST', invite });
+    expect(request.attachments).toHaveLength(1);
+    expect(request.lines.some((line) => line.startsWith('Add to Google Calendar: '))).toBe(true);
+
+    const cancel = buildCalendarInviteParts({ ...input, method: 'CANCEL', invite });
+    expect(cancel.lines).toEqual([]);
+    expect(cancel.attachments[0]?.filename).toBe('cancel.ics');
+  });
+});
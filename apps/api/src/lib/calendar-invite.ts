@@ -0,0 +1,208 @@
+import { DateTime } from 'luxon';
+
+export type CalendarInviteMethod = 'REQUEST' | 'CANCEL';
+
+export type CalendarInviteParty = {
+  name: string;
+  email: string;
+};
+
+export type CalendarInviteInput = {
+  method: CalendarInviteMethod;
+  uid: string;
+  sequence: number;
+  startsAt: string;
+  endsAt: string;
+  summary: string;
+  description?: string;
+  location?: string | null;
+  organizer: CalendarInviteParty;
+  attendee: CalendarInviteParty;
+  now?: Date;
+};
+
+export type BookingCalendarInvite = {
+  uid: string;
+  sequence: number;
+  endsAt: string;
+  organizerEmail: string;
+};
+
+export type EmailAttachment = {
+  filename: string;
+  content: string;
+  contentType: string;
+};
+
+const ICS_PRODUCT_ID = '-//OpenCalendly//Booking Invites//EN';
+const ICS_MAX_LINE_OCTETS = 75;
+
+// Every reschedule in a chain keeps the root booking's UID so calendar clients update one event in place.
+export const buildBookingInviteUid = (rootBookingId: string, uidDomain: string): string => {
+  return `booking-${rootBookingId}@${uidDomain}`;
+};
+
+export const toIcsUtcTimestamp = (value: string | Date): string => {
+  const date = typeof value === 'string' ? DateTime.fromISO(value, { zone: 'utc' }) : DateTime.fromJSDate(value);
+  return date.toUTC().toFormat("yyyyMMdd'T'HHmmss'Z'");
+};
+
+export const escapeIcsText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+export const escapeIcsParam = (value: string): string => {
+  return `"${value.replace(/"/g, "'")}"`;
+};
+
+// RFC 5545 §3.1: lines longer than 75 octets are folded with CRLF followed by a single space.
+export const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const segments: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const character of line) {
+    const octets = encoder.encode(character).length;
+    const limit = segments.length === 0 ? ICS_MAX_LINE_OCTETS : ICS_MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      segments.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += character;
+    currentOctets += octets;
+  }
+  segments.push(current);
+
+  return segments.join('\r\n ');
+};
+
+export const buildCalendarInviteIcs = (input: CalendarInviteInput): string => {
+  const isCancel = input.method === 'CANCEL';
+  const location = input.location?.trim();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    `PRODID:${ICS_PRODUCT_ID}`,
+    'VERSION:2.0',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${input.method}`,
+    'BEGIN:VEVENT',
+    `UID:${input.uid}`,
+    `SEQUENCE:${input.sequence}`,
+    `DTSTAMP:${toIcsUtcTimestamp(input.now ?? new Date())}`,
+    `DTSTART:${toIcsUtcTimestamp(input.startsAt)}`,
+    `DTEND:${toIcsUtcTimestamp(input.endsAt)}`,
+    `SUMMARY:${escapeIcsText(input.summary)}`,
+    ...(input.description ? [`DESCRIPTION:${escapeIcsText(input.description)}`] : []),
+    ...(location ? [`LOCATION:${escapeIcsText(location)}`] : []),
+    `ORGANIZER;CN=${escapeIcsParam(input.organizer.name)}:mailto:${input.organizer.email}`,
+    `ATTENDEE;CN=${escapeIcsParam(input.attendee.name)};ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;RSVP=FALSE:mailto:${input.attendee.email}`,
+    `STATUS:${isCancel ? 'CANCELLED' : 'CONFIRMED'}`,
+    'TRANSP:OPAQUE',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+
+  return `${lines.map(foldIcsLine).join('\r\n')}\r\n`;
+};
+
+const encodeBase64Utf8 = (value: string): string => {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(value)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+};
+
+export const buildCalendarInviteAttachment = (input: CalendarInviteInput): EmailAttachment => {
+  return {
+    filename: input.method === 'CANCEL' ? 'cancel.ics' : 'invite.ics',
+    content: encodeBase64Utf8(buildCalendarInviteIcs(input)),
+    contentType: `text/calendar; charset=utf-8; method=${input.method}`,
+  };
+};
+
+export const buildAddToCalendarLinks = (input: {
+  summary: string;
+  startsAt: string;
+  endsAt: string;
+  description?: string;
+  location?: string | null;
+}): { google: string; outlook: string } => {
+  const location = input.location?.trim();
+
+  const google = new URL('https://calendar.google.com/calendar/render');
+  google.searchParams.set('action', 'TEMPLATE');
+  google.searchParams.set('text', input.summary);
+  google.searchParams.set('dates', `${toIcsUtcTimestamp(input.startsAt)}/${toIcsUtcTimestamp(input.endsAt)}`);
+  if (input.description) {
+    google.searchParams.set('details', input.description);
+  }
+  if (location) {
+    google.searchParams.set('location', location);
+  }
+
+  const outlook = new URL('https://outlook.live.com/calendar/0/deeplink/compose');
+  outlook.searchParams.set('path', '/calendar/action/compose');
+  outlook.searchParams.set('rru', 'addevent');
+  outlook.searchParams.set('subject', input.summary);
+  outlook.searchParams.set('startdt', input.startsAt);
+  outlook.searchParams.set('enddt', input.endsAt);
+  if (input.description) {
+    outlook.searchParams.set('body', input.description);
+  }
+  if (location) {
+    outlook.searchParams.set('location', location);
+  }
+
+  return { google: google.toString(), outlook: outlook.toString() };
+};
+
+// Invitees get an .ics attachment (and add-to-calendar links for active bookings) so they can
+// import the booking even without a connected calendar.
+export const buildCalendarInviteParts = (input: {
+  method: CalendarInviteMethod;
+  invite: BookingCalendarInvite | undefined;
+  eventName: string;
+  organizerDisplayName: string;
+  recipientName: string;
+  recipientEmail: string;
+  startsAt: string;
+  location?: string | null;
+}): { lines: string[]; attachments: EmailAttachment[] } => {
+  if (!input.invite) {
+    return { lines: [], attachments: [] };
+  }
+
+  const summary = `${input.eventName} with ${input.organizerDisplayName}`;
+  const attachment = buildCalendarInviteAttachment({
+    method: input.method,
+    uid: input.invite.uid,
+    sequence: input.invite.sequence,
+    startsAt: input.startsAt,
+    endsAt: input.invite.endsAt,
+    summary,
+    location: input.location ?? null,
+    organizer: { name: input.organizerDisplayName, email: input.invite.organizerEmail },
+    attendee: { name: input.recipientName, email: input.recipientEmail },
+  });
+  if (input.method === 'CANCEL') {
+    return { lines: [], attachments: [attachment] };
+  }
+
+  const links = buildAddToCalendarLinks({
+    summary,
+    startsAt: input.startsAt,
+    endsAt: input.invite.endsAt,
+    location: input.location ?? null,
+  });
+  return {
+    lines: ['', `Add to Google Calendar: ${links.google}`, `Add to Outlook: ${links.outlook}`],
+    attachments: [attachment],
+  };
+};
@@ -1,7 +1,7 @@
 import { resolveAppBaseUrl } from '../server/env';
-import type { Bindings, CalendarProvider } from '../server/types';
+import type { Bindings, OAuthCalendarProvider } from '../server/types';
 
-const CALENDAR_CALLBACK_PATHS: Record<CalendarProvider, string> = {
+const CALENDAR_CALLBACK_PATHS: Record<OAuthCalendarProvider, string> = {
   google: '/settings/calendar/google/callback',
   microsoft: '/settings/calendar/microsoft/callback',
 };
@@ -25,7 +25,7 @@ const normalizeRedirectUri = (value: string): string | null => {
 export const buildExpectedCalendarRedirectUri = (
   env: Bindings,
   request: Request,
-  provider: CalendarProvider,
+  provider: OAuthCalendarProvider,
 ): string => {
   return `${resolveAppBaseUrl(env, request)}${CALENDAR_CALLBACK_PATHS[provider]}`;
 };
@@ -33,7 +33,7 @@ export const buildExpectedCalendarRedirectUri = (
 export const isExpectedCalendarRedirectUri = (input: {
   env: Bindings;
   request: Request;
-  provider: CalendarProvider;
+  provider: OAuthCalendarProvider;
   redirectUri: string;
 }): boolean => {
   const expected = normalizeRedirectUri(
@@ -1,5 +1,11 @@
 import { DateTime } from 'luxon';
 
+import { fetchCaldavBusyWindows } from './caldav-calendar';
+import {
+  parseCaldavCredentials,
+  type CaldavCredentials,
+  type CaldavTargetOptions,
+} from './caldav-shared';
 import { decryptSecret } from './calendar-crypto';
 import { fetchGoogleBusyWindows, refreshGoogleOAuthToken } from './google-calendar';
 import { fetchMicrosoftBusyWindows, refreshMicrosoftOAuthToken } from './microsoft-calendar';
@@ -22,6 +28,7 @@ export type CalendarTokenResolution = {
 const REFRESH_SKEW_SECONDS = 60;
 const MICROSOFT_SYNC_MAX_RANGE_DAYS = 62;
 const GOOGLE_SYNC_MAX_RANGE_DAYS = 90;
+const CALDAV_SYNC_MAX_RANGE_DAYS = 90;
 
 const resolveBaseSyncRange = (
   now: Date,
@@ -88,6 +95,32 @@ export const resolveMicrosoftSyncRange = (
   };
 };
 
+export const resolveCaldavSyncRange = (
+  now: Date,
+  requestedStartIso?: string,
+  requestedEndIso?: string,
+): { startIso: string; endIso: string } => {
+  const range = resolveBaseSyncRange(now, requestedStartIso, requestedEndIso);
+
+  if (range.end.diff(range.start, 'days').days > CALDAV_SYNC_MAX_RANGE_DAYS) {
+    throw new Error(`Sync range cannot exceed ${CALDAV_SYNC_MAX_RANGE_DAYS} days.`);
+  }
+
+  return {
+    startIso: range.startIso,
+    endIso: range.endIso,
+  };
+};
+
+// CalDAV connections have no OAuth tokens: the access-token column holds the encrypted
+// username/app-password pair and never needs a refresh.
+export const resolveCaldavCredentials = (input: {
+  connection: Pick<CalendarConnectionSecretState, 'accessTokenEncrypted'>;
+  encryptionSecret: string;
+}): CaldavCredentials => {
+  return parseCaldavCredentials(decryptSecret(input.connection.accessTokenEncrypted, input.encryptionSecret));
+};
+
 export const resolveGoogleAccessToken = async (
   input: {
     connection: CalendarConnectionSecretState;
@@ -241,3 +274,20 @@ export const syncMicrosoftBusyWindows = async (
       endsAt: window.endsAt.toJSDate(),
     }));
 };
+
+export const syncCaldavBusyWindows = async (
+  input: CaldavTargetOptions & {
+    calendarUrl: string;
+    credentials: CaldavCredentials;
+    startIso: string;
+    endIso: string;
+  },
+  fetchImpl: FetchLike = fetch,
+): Promise<Array<{ startsAt: Date; endsAt: Date }>> => {
+  const windows = await fetchCaldavBusyWindows(input, fetchImpl);
+
+  return windows.map((window) => ({
+    startsAt: new Date(window.start),
+    endsAt: new Date(window.end),
+  }));
+};
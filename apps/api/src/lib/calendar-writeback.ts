@@ -18,6 +18,7 @@ export type CalendarWritebackBookingContext = {
   timezone: string;
   locationType: string;
   locationValue: string | null;
+  optionalAttendees?: Array<{ name: string; email: string }>;
 };
 
 export type CalendarWritebackRescheduleTarget = {
@@ -21,6 +21,7 @@ export const DEMO_FEATURE_COSTS = [
   { key: 'webhook_create', label: 'Create webhook', cost: 1 },
   { key: 'webhook_update', label: 'Update webhook', cost: 1 },
   { key: 'webhook_run', label: 'Run webhook deliveries', cost: 2 },
+  { key: 'webhook_test', label: 'Send webhook test ping', cost: 1 },
   { key: 'calendar_connect', label: 'Connect calendar', cost: 3 },
   { key: 'calendar_sync', label: 'Sync calendar', cost: 2 },
   { key: 'writeback_run', label: 'Run writeback queue', cost: 1 },
@@ -0,0 +1,109 @@
+import type { EmailAttachment } from './calendar-invite';
+
+export type EmailBindings = {
+  RESEND_API_KEY?: string;
+  RESEND_FROM_EMAIL?: string;
+};
+
+export type EmailSendResult = {
+  sent: boolean;
+  provider: 'resend' | 'none';
+  messageId?: string;
+  error?: string;
+};
+
+export const sendTextEmail = async (
+  env: EmailBindings,
+  input: {
+    to: string;
+    subject: string;
+    text: string;
+    attachments?: EmailAttachment[];
+    idempotencyKey?: string;
+  },
+): Promise<EmailSendResult> => {
+  const apiKey = env.RESEND_API_KEY?.trim();
+  const from = env.RESEND_FROM_EMAIL?.trim();
+
+  if (!apiKey || !from) {
+    return {
+      sent: false,
+      provider: 'none',
+      error: 'Resend is not configured (RESEND_API_KEY / RESEND_FROM_EMAIL).',
+    };
+  }
+
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${apiKey}`,
+    'Content-Type': 'application/json',
+  };
+
+  const idempotencyKey = input.idempotencyKey?.trim();
+  if (idempotencyKey) {
+    headers['Idempotency-Key'] = idempotencyKey;
+  }
+
+  let lastError = 'Resend send failed.';
+
+  for (let attempt = 1; attempt <= 2; attempt += 1) {
+    try {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          from,
+          to: [input.to],
+          subject: input.subject,
+          text: input.text,
+          ...(input.attachments?.length
+            ? {
+                attachments: input.attachments.map(({ filename, content, contentType }) => ({
+                  filename,
+                  content,
+                  content_type: contentType,
+                })),
+              }
+            : {}),
+        }),
+      });
+
+      if (response.ok) {
+        const body = (await response.json()) as { id?: string };
+        return {
+          sent: true,
+          provider: 'resend',
+          ...(body.id ? { messageId: body.id } : {}),
+        };
+      }
+
+      const bodyText = await response.text();
+      lastError = bodyText || `Resend send failed with status ${response.status}.`;
+
+      if (response.status >= 500 && attempt < 2) {
+        continue;
+      }
+
+      return {
+        sent: false,
+        provider: 'resend',
+        error: lastError,
+      };
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : 'Resend send failed.';
+      if (attempt < 2) {
+        continue;
+      }
+      return {
+        sent: false,
+        provider: 'resend',
+        error: lastError,
+      };
+    }
+  }
+
+  return {
+    sent: false,
+    provider: 'resend',
+    error: lastError,
+  };
+};
@@ -1,9 +1,9 @@
 import { DateTime } from 'luxon';
 
-export type EmailBindings = {
-  RESEND_API_KEY?: string;
-  RESEND_FROM_EMAIL?: string;
-};
+import { buildCalendarInviteParts, type BookingCalendarInvite } from './calendar-invite';
+import { sendTextEmail, type EmailBindings, type EmailSendResult } from './email-transport';
+
+export type { EmailBindings, EmailSendResult } from './email-transport';
 
 export type BookingConfirmationEmailInput = {
   inviteeEmail: string;
@@ -16,6 +16,20 @@ export type BookingConfirmationEmailInput = {
   locationValue: string | null;
   cancelLink?: string;
   rescheduleLink?: string;
+  calendarInvite?: BookingCalendarInvite;
+  idempotencyKey?: string;
+  approvedRequest?: boolean;
+};
+
+export type BookingRequestEmailInput = {
+  inviteeEmail: string;
+  inviteeName: string;
+  organizerDisplayName: string;
+  eventName: string;
+  startsAt: string;
+  timezone: string;
+  declineReason?: string | null;
+  rebookLink?: string;
   idempotencyKey?: string;
 };
 
@@ -28,6 +42,9 @@ export type BookingCancellationEmailInput = {
   startsAt: string;
   timezone: string;
   cancellationReason?: string | null;
+  canceledBy?: 'invitee' | 'organizer';
+  rebookLink?: string;
+  calendarInvite?: BookingCalendarInvite;
   idempotencyKey?: string;
 };
 
@@ -40,6 +57,10 @@ export type BookingRescheduledEmailInput = {
   oldStartsAt: string;
   newStartsAt: string;
   timezone: string;
+  rescheduledBy?: 'invitee' | 'organizer';
+  cancelLink?: string;
+  rescheduleLink?: string;
+  calendarInvite?: BookingCalendarInvite;
   idempotencyKey?: string;
 };
 
@@ -65,14 +86,18 @@ export type BookingFollowUpEmailInput = {
   idempotencyKey?: string;
 };
 
-export type EmailSendResult = {
-  sent: boolean;
-  provider: 'resend' | 'none';
-  messageId?: string;
-  error?: string;
+export type TeamInvitationEmailInput = {
+  recipientEmail: string;
+  inviterDisplayName: string;
+  teamName: string;
+  role: 'owner' | 'member';
+  acceptLink: string;
+  expiresAt: string;
+  timezone: string;
+  idempotencyKey?: string;
 };
 
-const formatDateForTimezone = (isoDate: string, timezone: string): string => {
+export const formatDateForTimezone = (isoDate: string, timezone: string): string => {
   const date = DateTime.fromISO(isoDate, { zone: 'utc' }).setZone(timezone);
   if (!date.isValid) {
     return isoDate;
@@ -94,90 +119,28 @@ const formatLocationForEmail = (locationType: string, locationValue: string | nu
   return normalizedType.charAt(0).toUpperCase() + normalizedType.slice(1);
 };
 
-const sendTextEmail = async (
-  env: EmailBindings,
-  input: {
-    to: string;
-    subject: string;
-    text: string;
-    idempotencyKey?: string;
-  },
-): Promise<EmailSendResult> => {
-  const apiKey = env.RESEND_API_KEY?.trim();
-  const from = env.RESEND_FROM_EMAIL?.trim();
-
-  if (!apiKey || !from) {
-    return {
-      sent: false,
-      provider: 'none',
-      error: 'Resend is not configured (RESEND_API_KEY / RESEND_FROM_EMAIL).',
-    };
+const describeCancellation = (input: BookingCancellationEmailInput): string => {
+  if (input.canceledBy === 'organizer') {
+    return input.recipientRole === 'invitee'
+      ? `${input.organizerDisplayName} has canceled your booking.`
+      : 'You have canceled this booking.';
   }
 
-  const headers: Record<string, string> = {
-    Authorization: `Bearer ${apiKey}`,
-    'Content-Type': 'application/json',
-  };
-
-  const idempotencyKey = input.idempotencyKey?.trim();
-  if (idempotencyKey) {
-    headers['Idempotency-Key'] = idempotencyKey;
-  }
+  return input.recipientRole === 'invitee'
+    ? 'You have canceled your booking.'
+    : 'Your invitee has canceled their booking.';
+};
 
-  let lastError = 'Resend send failed.';
-
-  for (let attempt = 1; attempt <= 2; attempt += 1) {
-    try {
-      const response = await fetch('https://api.resend.com/emails', {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({
-          from,
-          to: [input.to],
-          subject: input.subject,
-          text: input.text,
-        }),
-      });
-
-      if (response.ok) {
-        const body = (await response.json()) as { id?: string };
-        return {
-          sent: true,
-          provider: 'resend',
-          ...(body.id ? { messageId: body.id } : {}),
-        };
-      }
-
-      const bodyText = await response.text();
-      lastError = bodyText || `Resend send failed with status ${response.status}.`;
-
-      if (response.status >= 500 && attempt < 2) {
-        continue;
-      }
-
-      return {
-        sent: false,
-        provider: 'resend',
-        error: lastError,
-      };
-    } catch (error) {
-      lastError = error instanceof Error ? error.message : 'Resend send failed.';
-      if (attempt < 2) {
-        continue;
-      }
-      return {
-        sent: false,
-        provider: 'resend',
-        error: lastError,
-      };
-    }
+const describeReschedule = (input: BookingRescheduledEmailInput): string => {
+  if (input.rescheduledBy === 'organizer') {
+    return input.recipientRole === 'invitee'
+      ? `${input.organizerDisplayName} has moved your booking to a new time.`
+      : 'You have rescheduled this booking.';
   }
 
-  return {
-    sent: false,
-    provider: 'resend',
-    error: lastError,
-  };
+  return input.recipientRole === 'invitee'
+    ? 'You have rescheduled your booking.'
+    : 'Your invitee has rescheduled their booking.';
 };
 
 export const sendBookingConfirmationEmail = async (
@@ -186,11 +149,13 @@ export const sendBookingConfirmationEmail = async (
 ): Promise<EmailSendResult> => {
   const when = formatDateForTimezone(input.startsAt, input.timezone);
   const location = input.locationValue?.trim() || input.locationType;
-  const subject = `Booking confirmed: ${input.eventName}`;
+  const subject = `${input.approvedRequest ? 'Booking approved' : 'Booking confirmed'}: ${input.eventName}`;
   const textLines = [
     `Hi ${input.inviteeName},`,
     '',
-    `Your booking with ${input.organizerDisplayName} is confirmed.`,
+    input.approvedRequest
+      ? `${input.organizerDisplayName} approved your booking request.`
+      : `Your booking with ${input.organizerDisplayName} is confirmed.`,
     `Event: ${input.eventName}`,
     `When: ${when} (${input.timezone})`,
     `Location: ${location}`,
@@ -203,10 +168,72 @@ export const sendBookingConfirmationEmail = async (
     textLines.push(`Reschedule link: ${input.rescheduleLink}`);
   }
 
+  const invite = buildCalendarInviteParts({
+    method: 'REQUEST',
+    invite: input.calendarInvite,
+    eventName: input.eventName,
+    organizerDisplayName: input.organizerDisplayName,
+    recipientName: input.inviteeName,
+    recipientEmail: input.inviteeEmail,
+    startsAt: input.startsAt,
+    location,
+  });
+  textLines.push(...invite.lines);
+
   return sendTextEmail(env, {
     to: input.inviteeEmail,
     subject,
     text: textLines.join('\n'),
+    attachments: invite.attachments,
+    ...(input.idempotencyKey ? { idempotencyKey: input.idempotencyKey } : {}),
+  });
+};
+
+export const sendBookingRequestReceivedEmail = async (
+  env: EmailBindings,
+  input: BookingRequestEmailInput,
+): Promise<EmailSendResult> => {
+  const when = formatDateForTimezone(input.startsAt, input.timezone);
+  const text = [
+    `Hi ${input.inviteeName},`,
+    '',
+    `${input.organizerDisplayName} reviews requests for this event before confirming them.`,
+    `Event: ${input.eventName}`,
+    `Requested time: ${when} (${input.timezone})`,
+    'The time is held for you, and we will email you as soon as the request is approved or declined.',
+  ].join('\n');
+
+  return sendTextEmail(env, {
+    to: input.inviteeEmail,
+    subject: `Request received: ${input.eventName}`,
+    text,
+    ...(input.idempotencyKey ? { idempotencyKey: input.idempotencyKey } : {}),
+  });
+};
+
+export const sendBookingRequestDeclinedEmail = async (
+  env: EmailBindings,
+  input: BookingRequestEmailInput,
+): Promise<EmailSendResult> => {
+  const when = formatDateForTimezone(input.startsAt, input.timezone);
+  const textLines = [
+    `Hi ${input.inviteeName},`,
+    '',
+    `${input.organizerDisplayName} declined your booking request.`,
+    `Event: ${input.eventName}`,
+    `Requested time: ${when} (${input.timezone})`,
+  ];
+  if (input.declineReason) {
+    textLines.push(`Reason: ${input.declineReason}`);
+  }
+  if (input.rebookLink) {
+    textLines.push(`Request another time: ${input.rebookLink}`);
+  }
+
+  return sendTextEmail(env, {
+    to: input.inviteeEmail,
+    subject: `Request declined: ${input.eventName}`,
+    text: textLines.join('\n'),
     ...(input.idempotencyKey ? { idempotencyKey: input.idempotencyKey } : {}),
   });
 };
@@ -220,9 +247,7 @@ export const sendBookingCancellationEmail = async (
   const textLines = [
     `Hi ${input.recipientName},`,
     '',
-    input.recipientRole === 'invitee'
-      ? 'You have canceled your booking.'
-      : 'Your invitee has canceled their booking.',
+    describeCancellation(input),
     `Event: ${input.eventName}`,
     `Original time: ${when} (${input.timezone})`,
   ];
@@ -230,11 +255,25 @@ export const sendBookingCancellationEmail = async (
   if (input.cancellationReason) {
     textLines.push(`Reason: ${input.cancellationReason}`);
   }
+  if (input.rebookLink) {
+    textLines.push(`Book a new time: ${input.rebookLink}`);
+  }
+
+  const invite = buildCalendarInviteParts({
+    method: 'CANCEL',
+    invite: input.calendarInvite,
+    eventName: input.eventName,
+    organizerDisplayName: input.organizerDisplayName,
+    recipientName: input.recipientName,
+    recipientEmail: input.recipientEmail,
+    startsAt: input.startsAt,
+  });
 
   return sendTextEmail(env, {
     to: input.recipientEmail,
     subject,
     text: textLines.join('\n'),
+    attachments: invite.attachments,
     ...(input.idempotencyKey ? { idempotencyKey: input.idempotencyKey } : {}),
   });
 };
@@ -246,21 +285,38 @@ export const sendBookingRescheduledEmail = async (
   const oldWhen = formatDateForTimezone(input.oldStartsAt, input.timezone);
   const newWhen = formatDateForTimezone(input.newStartsAt, input.timezone);
   const subject = `Booking rescheduled: ${input.eventName}`;
-  const text = [
+  const textLines = [
     `Hi ${input.recipientName},`,
     '',
-    input.recipientRole === 'invitee'
-      ? 'You have rescheduled your booking.'
-      : 'Your invitee has rescheduled their booking.',
+    describeReschedule(input),
     `Event: ${input.eventName}`,
     `Previous time: ${oldWhen} (${input.timezone})`,
     `New time: ${newWhen} (${input.timezone})`,
-  ].join('\n');
+  ];
+
+  if (input.rescheduleLink) {
+    textLines.push(`Need a different time? Reschedule: ${input.rescheduleLink}`);
+  }
+  if (input.cancelLink) {
+    textLines.push(`Cancel link: ${input.cancelLink}`);
+  }
+
+  const invite = buildCalendarInviteParts({
+    method: 'REQUEST',
+    invite: input.calendarInvite,
+    eventName: input.eventName,
+    organizerDisplayName: input.organizerDisplayName,
+    recipientName: input.recipientName,
+    recipientEmail: input.recipientEmail,
+    startsAt: input.newStartsAt,
+  });
+  textLines.push(...invite.lines);
 
   return sendTextEmail(env, {
     to: input.recipientEmail,
     subject,
-    text,
+    text: textLines.join('\n'),
+    attachments: invite.attachments,
     ...(input.idempotencyKey ? { idempotencyKey: input.idempotencyKey } : {}),
   });
 };
@@ -311,3 +367,28 @@ export const sendBookingFollowUpEmail = async (
     ...(input.idempotencyKey ? { idempotencyKey: input.idempotencyKey } : {}),
   });
 };
+
+export const sendTeamInvitationEmail = async (
+  env: EmailBindings,
+  input: TeamInvitationEmailInput,
+): Promise<EmailSendResult> => {
+  const expires = formatDateForTimezone(input.expiresAt, input.timezone);
+  const subject = `${input.inviterDisplayName} invited you to join ${input.teamName}`;
+  const text = [
+    'Hi,',
+    '',
+    `${input.inviterDisplayName} invited you to join the ${input.teamName} team on OpenCalendly as ${
+      input.role === 'owner' ? 'an owner' : 'a member'
+    }.`,
+    `Accept or decline: ${input.acceptLink}`,
+    `This invitation expires on ${expires} (${input.timezone}).`,
+    'If you were not expecting this invitation, you can ignore this email.',
+  ].join('\n');
+
+  return sendTextEmail(env, {
+    to: input.recipientEmail,
+    subject,
+    text,
+    ...(input.idempotencyKey ? { idempotencyKey: input.idempotencyKey } : {}),
+  });
+};
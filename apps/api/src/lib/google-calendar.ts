@@ -234,6 +234,7 @@ export const createGoogleCalendarEvent = async (
     timezone: string;
     locationType: string;
     locationValue: string | null;
+    optionalAttendees?: Array<{ name: string; email: string }>;
   },
   fetchImpl: FetchLike = fetch,
 ): Promise<{ externalEventId: string }> => {
@@ -256,7 +257,14 @@ export const createGoogleCalendarEvent = async (
         dateTime: input.endsAtIso,
         timeZone: input.timezone,
       },
-      attendees: [{ email: input.inviteeEmail, displayName: input.inviteeName }],
+      attendees: [
+        { email: input.inviteeEmail, displayName: input.inviteeName },
+        ...(input.optionalAttendees ?? []).map((attendee) => ({
+          email: attendee.email,
+          displayName: attendee.name,
+          optional: true,
+        })),
+      ],
       ...(input.locationValue
         ? {
             location: input.locationValue,
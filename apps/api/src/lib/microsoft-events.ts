@@ -21,6 +21,7 @@ export const createMicrosoftCalendarEvent = async (
     startsAtIso: string;
     endsAtIso: string;
     locationValue: string | null;
+    optionalAttendees?: Array<{ name: string; email: string }>;
   },
   fetchImpl: FetchLike = fetch,
 ): Promise<{ externalEventId: string }> => {
@@ -47,6 +48,10 @@ export const createMicrosoftCalendarEvent = async (
           },
           type: 'required',
         },
+        ...(input.optionalAttendees ?? []).map((attendee) => ({
+          emailAddress: { address: attendee.email, name: attendee.name },
+          type: 'optional',
+        })),
       ],
       ...(input.locationValue
         ? { location: { displayName: input.locationValue } }
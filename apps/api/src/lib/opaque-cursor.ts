@@ -0,0 +1,47 @@
+export type OpaqueCursor = {
+  timestamp: string;
+  id: string;
+};
+
+const CURSOR_VERSION = 'v1';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+const toBase64Url = (value: string): string => {
+  return Buffer.from(value, 'utf8')
+    .toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/g, '');
+};
+
+const fromBase64Url = (value: string): string => {
+  const normalized = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = normalized + '='.repeat((4 - (normalized.length % 4)) % 4);
+  return Buffer.from(padded, 'base64').toString('utf8');
+};
+
+/**
+ * Keyset pagination cursors: the sort timestamp plus the row id that breaks ties between rows
+ * sharing an instant, versioned and base64url-encoded so clients treat them as opaque.
+ */
+export const encodeOpaqueCursor = (cursor: OpaqueCursor): string => {
+  return toBase64Url(`${CURSOR_VERSION}|${cursor.timestamp}|${cursor.id}`);
+};
+
+export const decodeOpaqueCursor = (raw: string): OpaqueCursor | null => {
+  if (!/^[A-Za-z0-9_-]+$/.test(raw)) {
+    return null;
+  }
+
+  const [version, timestamp, id, ...rest] = fromBase64Url(raw).split('|');
+  if (version !== CURSOR_VERSION || !timestamp || !id || rest.length > 0) {
+    return null;
+  }
+
+  const timestampDate = new Date(timestamp);
+  if (Number.isNaN(timestampDate.getTime()) || !UUID_PATTERN.test(id)) {
+    return null;
+  }
+
+  return { timestamp: timestampDate.toISOString(), id };
+};
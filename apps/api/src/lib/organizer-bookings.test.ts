@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  decodeOrganizerBookingsCursor,
+  encodeOrganizerBookingsCursor,
+  resolveOrganizerBookingsWindow,
+  toInviteeSearchPattern,
+} from './organizer-bookings';
+
+const now = new Date('2026-03-10T12:00:00.000Z');
+
+describe('organizer bookings helpers', () => {
+  it('round-trips pagination cursors', () => {
+    const cursor = {
+      startsAt: '2026-03-11T09:30:00.000Z',
+      id: '8f14e45f-ceea-467f-a8b2-4f4f5b8f1a2c',
+    };
+
+    const encoded = encodeOrganizerBookingsCursor(cursor);
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeOrganizerBookingsCursor(encoded)).toEqual(cursor);
+  });
+
+  it('rejects tampered or malformed cursors', () => {
+    expect(decodeOrganizerBookingsCursor('not a cursor')).toBeNull();
+    expect(decodeOrganizerBookingsCursor('djF8bm9wZXxub3BlLWlk')).toBeNull();
+    expect(
+      decodeOrganizerBookingsCursor(
+        encodeOrganizerBookingsCursor({ startsAt: 'invalid', id: 'not-a-uuid' }),
+      ),
+    ).toBeNull();
+  });
+
+  it('splits upcoming and past confirmed bookings on the current time', () => {
+    expect(resolveOrganizerBookingsWindow({ status: 'upcoming', now })).toEqual({
+      status: 'confirmed',
+      order: 'asc',
+      endsAfter: now,
+      endsAtOrBefore: null,
+      startsAtOrAfter: null,
+      startsBefore: null,
+    });
+
+    expect(resolveOrganizerBookingsWindow({ status: 'past', now })).toMatchObject({
+      status: 'confirmed',
+      order: 'desc',
+      endsAfter: null,
+      endsAtOrBefore: now,
+    });
+  });
+
+  it('lists canceled bookings newest first with an inclusive UTC date range', () => {
+    const window = resolveOrganizerBookingsWindow({
+      status: 'canceled',
+      startDate: '2026-03-01',
+      endDate: '2026-03-07',
+      now,
+    });
+
+    expect(window.status).toBe('canceled');
+    expect(window.order).toBe('desc');
+    expect(window.endsAfter).toBeNull();
+    expect(window.startsAtOrAfter?.toISOString()).toBe('2026-03-01T00:00:00.000Z');
+    expect(window.startsBefore?.toISOString()).toBe('2026-03-08T00:00:00.000Z');
+  });
+
+  it('rejects invalid or inverted date ranges', () => {
+    expect(() =>
+      resolveOrganizerBookingsWindow({ status: 'upcoming', startDate: '2026-02-31', now }),
+    ).toThrow('Invalid startDate. Use YYYY-MM-DD.');
+    expect(() =>
+      resolveOrganizerBookingsWindow({
+        status: 'past',
+        startDate: '2026-03-07',
+        endDate: '2026-03-01',
+        now,
+      }),
+    ).toThrow('endDate must be on or after startDate.');
+  });
+
+  it('escapes LIKE wildcards in invitee search terms', () => {
+    expect(toInviteeSearchPattern('  ada ')).toBe('%ada%');
+    expect(toInviteeSearchPattern('100%_off\\')).toBe('%100\\%\\_off\\\\%');
+  });
+});
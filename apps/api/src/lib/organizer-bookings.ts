@@ -0,0 +1,75 @@
+import { DateTime } from 'luxon';
+
+import { decodeOpaqueCursor, encodeOpaqueCursor } from './opaque-cursor';
+
+export type OrganizerBookingsStatus = 'upcoming' | 'past' | 'canceled';
+
+export type OrganizerBookingsCursor = {
+  startsAt: string;
+  id: string;
+};
+
+export type OrganizerBookingsWindow = {
+  status: 'confirmed' | 'canceled';
+  order: 'asc' | 'desc';
+  endsAfter: Date | null;
+  endsAtOrBefore: Date | null;
+  startsAtOrAfter: Date | null;
+  startsBefore: Date | null;
+};
+
+const parseUtcDate = (rawDate: string): DateTime | null => {
+  const parsed = DateTime.fromISO(rawDate, { zone: 'utc' });
+  if (!parsed.isValid || parsed.toFormat('yyyy-MM-dd') !== rawDate) {
+    return null;
+  }
+  return parsed;
+};
+
+export const encodeOrganizerBookingsCursor = (cursor: OrganizerBookingsCursor): string => {
+  return encodeOpaqueCursor({ timestamp: cursor.startsAt, id: cursor.id });
+};
+
+export const decodeOrganizerBookingsCursor = (raw: string): OrganizerBookingsCursor | null => {
+  const cursor = decodeOpaqueCursor(raw);
+  return cursor ? { startsAt: cursor.timestamp, id: cursor.id } : null;
+};
+
+/**
+ * Upcoming and past only cover confirmed bookings and split on `endsAt`, so an in-progress
+ * meeting stays in the upcoming list until it ends. Upcoming reads oldest first; past and
+ * canceled read newest first.
+ */
+export const resolveOrganizerBookingsWindow = (input: {
+  status: OrganizerBookingsStatus;
+  startDate?: string | undefined;
+  endDate?: string | undefined;
+  now: Date;
+}): OrganizerBookingsWindow => {
+  const startDate = input.startDate ? parseUtcDate(input.startDate) : null;
+  if (input.startDate && !startDate) {
+    throw new Error('Invalid startDate. Use YYYY-MM-DD.');
+  }
+
+  const endDate = input.endDate ? parseUtcDate(input.endDate) : null;
+  if (input.endDate && !endDate) {
+    throw new Error('Invalid endDate. Use YYYY-MM-DD.');
+  }
+
+  if (startDate && endDate && endDate.toMillis() < startDate.toMillis()) {
+    throw new Error('endDate must be on or after startDate.');
+  }
+
+  return {
+    status: input.status === 'canceled' ? 'canceled' : 'confirmed',
+    order: input.status === 'upcoming' ? 'asc' : 'desc',
+    endsAfter: input.status === 'upcoming' ? input.now : null,
+    endsAtOrBefore: input.status === 'past' ? input.now : null,
+    startsAtOrAfter: startDate ? startDate.toJSDate() : null,
+    startsBefore: endDate ? endDate.plus({ days: 1 }).toJSDate() : null,
+  };
+};
+
+export const toInviteeSearchPattern = (query: string): string => {
+  return `%${query.trim().replace(/[\\%_]/g, (match) => `\\${match}`)}%`;
+};
@@ -0,0 +1,158 @@
+import { createHmac } from 'node:crypto';
+
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  createFakePaymentProvider,
+  createStripePaymentProvider,
+  findEventTypePaymentIssue,
+  PaymentProviderError,
+  PaymentWebhookSignatureError,
+  resolveRefundDecision,
+  verifyStripeSignature,
+} from './payments';
+
+const secret = 'whsec_test_secret';
+const now = new Date('2026-03-10T12:00:00.000Z');
+const nowSeconds = Math.floor(now.getTime() / 1000);
+
+const signStripePayload = (payload: string, timestampSeconds = nowSeconds) => {
+  const signature = createHmac('sha256', secret).update(`${timestampSeconds}.${payload}`).digest('hex');
+  return `t=${timestampSeconds},v1=${signature}`;
+};
+
+const stripeEvent = (type: string, session: Record<string, unknown>) =>
+  JSON.stringify({ type, data: { object: { id: 'cs_test_123', payment_intent: 'pi_123', ...session } } });
+
+describe('payment helpers', () => {
+  it('verifies Stripe signatures and rejects tampered, stale, or malformed headers', () => {
+    const payload = stripeEvent('checkout.session.completed', { payment_status: 'paid' });
+
+    expect(verifyStripeSignature({ payload, signatureHeader: signStripePayload(payload), secret, now })).toBe(true);
+    expect(
+      verifyStripeSignature({ payload: `${payload} `, signatureHeader: signStripePayload(payload), secret, now }),
+    ).toBe(false);
+    expect(
+      verifyStripeSignature({
+        payload,
+        signatureHeader: signStripePayload(payload, nowSeconds - 10 * 60),
+        secret,
+        now,
+      }),
+    ).toBe(false);
+    expect(verifyStripeSignature({ payload, signatureHeader: 'v1=abc', secret, now })).toBe(false);
+    expect(verifyStripeSignature({ payload, signatureHeader: null, secret, now })).toBe(false);
+  });
+
+  it('always refunds organizer cancellations and applies policy and cutoff to invitees', () => {
+    const startsAt = new Date('2026-03-12T12:00:00.000Z');
+    const base = { startsAt, now, cutoffHours: null };
+
+    expect(resolveRefundDecision({ ...base, policy: 'none', canceledBy: 'organizer' })).toBe('refund');
+    expect(resolveRefundDecision({ ...base, policy: 'none', canceledBy: 'invitee' })).toBe('keep');
+    expect(resolveRefundDecision({ ...base, policy: 'full', canceledBy: 'invitee' })).toBe('refund');
+    expect(resolveRefundDecision({ ...base, policy: 'full', canceledBy: 'invitee', cutoffHours: 48 })).toBe('refund');
+    expect(resolveRefundDecision({ ...base, policy: 'full', canceledBy: 'invitee', cutoffHours: 49 })).toBe('keep');
+  });
+
+  it('reports the first problem with an event type price', () => {
+    const base = { priceCents: 5000, currency: 'usd', providerConfigured: true, isTeamEventType: false };
+
+    expect(findEventTypePaymentIssue(base)).toBeNull();
+    expect(findEventTypePaymentIssue({ ...base, priceCents: null, currency: null, providerConfigured: false })).toBeNull();
+    expect(findEventTypePaymentIssue({ ...base, currency: null })).toBe('Set a currency for paid event types.');
+    expect(findEventTypePaymentIssue({ ...base, isTeamEventType: true })).toBe(
+      'Team event types cannot take payments yet.',
+    );
+    expect(findEventTypePaymentIssue({ ...base, providerConfigured: false })).toBe(
+      'Payments are not configured on this server.',
+    );
+  });
+});
+
+describe('Stripe payment provider', () => {
+  const provider = (fetchImpl: typeof fetch = vi.fn()) =>
+    createStripePaymentProvider({ secretKey: 'sk_test_123', webhookSecret: secret }, fetchImpl);
+  const parse = (payload: string) =>
+    provider().parseWebhook({ payload, signatureHeader: signStripePayload(payload), now });
+
+  it('maps Checkout events to hold outcomes', () => {
+    expect(parse(stripeEvent('checkout.session.completed', { payment_status: 'paid' }))).toEqual({
+      sessionId: 'cs_test_123',
+      outcome: 'succeeded',
+      paymentId: 'pi_123',
+    });
+    expect(parse(stripeEvent('checkout.session.completed', { payment_status: 'unpaid' }))).toBeNull();
+    expect(parse(stripeEvent('checkout.session.async_payment_succeeded', {}))?.outcome).toBe('succeeded');
+    expect(parse(stripeEvent('checkout.session.async_payment_failed', {}))?.outcome).toBe('failed');
+    expect(parse(stripeEvent('checkout.session.expired', {}))?.outcome).toBe('expired');
+    expect(parse(stripeEvent('payment_intent.created', {}))).toBeNull();
+  });
+
+  it('throws on a bad webhook signature', () => {
+    const payload = stripeEvent('checkout.session.expired', {});
+    expect(() => provider().parseWebhook({ payload, signatureHeader: 't=1,v1=bad', now })).toThrow(
+      PaymentWebhookSignatureError,
+    );
+  });
+
+  it('creates Checkout sessions with an idempotency key and a return URL per session', async () => {
+    const fetchMock = vi.fn(async () =>
+      new Response(JSON.stringify({ id: 'cs_test_123', url: 'https://checkout.stripe.com/c/pay/cs_test_123' })),
+    );
+
+    const session = await provider(fetchMock as unknown as typeof fetch).createCheckoutSession({
+      bookingId: 'booking-1',
+      amountCents: 5000,
+      currency: 'usd',
+      description: 'Intro Call',
+      inviteeEmail: 'pat@example.com',
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      returnUrlBase: 'https://opencalendly.com/payment',
+    });
+
+    expect(session).toEqual({ sessionId: 'cs_test_123', checkoutUrl: 'https://checkout.stripe.com/c/pay/cs_test_123' });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://api.stripe.com/v1/checkout/sessions');
+    expect(new Headers(init.headers).get('idempotency-key')).toBe('checkout:booking-1');
+    const body = new URLSearchParams(String(init.body));
+    expect(body.get('line_items[0][price_data][unit_amount]')).toBe('5000');
+    expect(body.get('success_url')).toBe('https://opencalendly.com/payment/{CHECKOUT_SESSION_ID}');
+  });
+
+  it('surfaces Stripe API failures as provider errors', async () => {
+    const fetchMock = vi.fn(async () => new Response('{"error":{"message":"No such payment_intent"}}', { status: 400 }));
+
+    await expect(
+      provider(fetchMock as unknown as typeof fetch).refund({ sessionId: 'cs_test_123', paymentId: 'pi_123', amountCents: 5000 }),
+    ).rejects.toBeInstanceOf(PaymentProviderError);
+    await expect(
+      provider(fetchMock as unknown as typeof fetch).refund({ sessionId: 'cs_test_123', paymentId: null, amountCents: 5000 }),
+    ).rejects.toBeInstanceOf(PaymentProviderError);
+  });
+});
+
+describe('fake payment provider', () => {
+  it('opens the local payment page and accepts outcome posts without a signature', async () => {
+    const provider = createFakePaymentProvider();
+    const session = await provider.createCheckoutSession({
+      bookingId: 'booking-1',
+      amountCents: 5000,
+      currency: 'usd',
+      description: 'Intro Call',
+      inviteeEmail: 'pat@example.com',
+      expiresAt: now,
+      returnUrlBase: 'http://localhost:3000/payment',
+    });
+
+    expect(session.checkoutUrl).toBe(`http://localhost:3000/payment/${session.sessionId}`);
+    expect(
+      provider.parseWebhook({
+        payload: JSON.stringify({ sessionId: session.sessionId, outcome: 'succeeded' }),
+        signatureHeader: null,
+        now,
+      }),
+    ).toMatchObject({ sessionId: session.sessionId, outcome: 'succeeded' });
+    expect(provider.parseWebhook({ payload: '{"outcome":"paid"}', signatureHeader: null, now })).toBeNull();
+  });
+});
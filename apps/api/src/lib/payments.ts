@@ -0,0 +1,264 @@
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+
+import { createWebhookSignature } from './webhooks';
+
+const STRIPE_API_BASE_URL = 'https://api.stripe.com/v1';
+const STRIPE_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+// Stripe rejects Checkout sessions that expire sooner than 30 minutes after creation.
+const STRIPE_MIN_SESSION_MINUTES = 30;
+
+type FetchLike = typeof fetch;
+
+export type PaymentProviderName = 'stripe' | 'fake';
+export type PaymentRefundPolicy = 'full' | 'none';
+
+export class PaymentProviderError extends Error {}
+export class PaymentWebhookSignatureError extends Error {}
+
+export type PaymentCheckoutInput = {
+  bookingId: string;
+  amountCents: number;
+  currency: string;
+  description: string;
+  inviteeEmail: string;
+  expiresAt: Date;
+  returnUrlBase: string;
+};
+
+export type PaymentCheckoutSession = {
+  sessionId: string;
+  checkoutUrl: string;
+};
+
+export type PaymentWebhookOutcome = {
+  sessionId: string;
+  outcome: 'succeeded' | 'expired' | 'failed';
+  paymentId: string | null;
+};
+
+export type PaymentProvider = {
+  name: PaymentProviderName;
+  createCheckoutSession(input: PaymentCheckoutInput): Promise<PaymentCheckoutSession>;
+  /** Returns null for provider events that do not change a hold. */
+  parseWebhook(input: { payload: string; signatureHeader: string | null; now: Date }): PaymentWebhookOutcome | null;
+  refund(input: { sessionId: string; paymentId: string | null; amountCents: number }): Promise<{ refundId: string }>;
+};
+
+const readErrorPayload = async (response: Response): Promise<string> => {
+  const payload = await response.text();
+  return payload.slice(0, 1000);
+};
+
+const safeEqualHex = (left: string, right: string): boolean => {
+  const leftBuffer = Buffer.from(left, 'utf8');
+  const rightBuffer = Buffer.from(right, 'utf8');
+  return leftBuffer.length === rightBuffer.length && timingSafeEqual(leftBuffer, rightBuffer);
+};
+
+export const parseStripeSignatureHeader = (
+  header: string,
+): { timestampSeconds: number; signatures: string[] } | null => {
+  let timestampSeconds: number | null = null;
+  const signatures: string[] = [];
+  for (const part of header.split(',')) {
+    const [key, value] = part.split('=', 2).map((entry) => entry.trim());
+    if (key === 't' && value && /^\d+$/.test(value)) {
+      timestampSeconds = Number.parseInt(value, 10);
+    } else if (key === 'v1' && value) {
+      signatures.push(value);
+    }
+  }
+  return timestampSeconds === null || signatures.length === 0 ? null : { timestampSeconds, signatures };
+};
+
+export const verifyStripeSignature = (input: {
+  payload: string;
+  signatureHeader: string | null;
+  secret: string;
+  now: Date;
+}): boolean => {
+  const parsed = input.signatureHeader ? parseStripeSignatureHeader(input.signatureHeader) : null;
+  if (!parsed) {
+    return false;
+  }
+  const ageSeconds = Math.abs(Math.floor(input.now.getTime() / 1000) - parsed.timestampSeconds);
+  if (ageSeconds > STRIPE_SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+  const expected = createWebhookSignature(input.secret, input.payload, parsed.timestampSeconds);
+  return parsed.signatures.some((signature) => safeEqualHex(signature, expected));
+};
+
+/**
+ * Organizer cancellations always refund. Invitee cancellations follow the event type policy,
+ * and a cutoff turns refunds off once the meeting is closer than that many hours away.
+ */
+export const resolveRefundDecision = (input: {
+  policy: PaymentRefundPolicy;
+  cutoffHours: number | null;
+  canceledBy: 'invitee' | 'organizer';
+  startsAt: Date;
+  now: Date;
+}): 'refund' | 'keep' => {
+  if (input.canceledBy === 'organizer') {
+    return 'refund';
+  }
+  if (input.policy === 'none') {
+    return 'keep';
+  }
+  if (input.cutoffHours !== null) {
+    const hoursUntilStart = (input.startsAt.getTime() - input.now.getTime()) / (60 * 60 * 1000);
+    return hoursUntilStart >= input.cutoffHours ? 'refund' : 'keep';
+  }
+  return 'refund';
+};
+
+/**
+ * Checks a resolved (stored + patched) price setting. Returns the first problem, or null when the
+ * event type can be saved as is.
+ */
+export const findEventTypePaymentIssue = (input: {
+  priceCents: number | null;
+  currency: string | null;
+  providerConfigured: boolean;
+  isTeamEventType: boolean;
+}): string | null => {
+  if (input.priceCents === null) {
+    return null;
+  }
+  if (!input.currency) {
+    return 'Set a currency for paid event types.';
+  }
+  if (input.isTeamEventType) {
+    return 'Team event types cannot take payments yet.';
+  }
+  if (!input.providerConfigured) {
+    return 'Payments are not configured on this server.';
+  }
+  return null;
+};
+
+const toStripeOutcome = (event: {
+  type?: unknown;
+  data?: { object?: { id?: unknown; payment_status?: unknown; payment_intent?: unknown } };
+}): PaymentWebhookOutcome | null => {
+  const session = event.data?.object;
+  if (typeof session?.id !== 'string') {
+    return null;
+  }
+  const paymentId = typeof session.payment_intent === 'string' ? session.payment_intent : null;
+  switch (event.type) {
+    case 'checkout.session.completed':
+      // Delayed methods (bank debits) complete with payment_status "unpaid" and settle later.
+      return session.payment_status === 'paid' ? { sessionId: session.id, outcome: 'succeeded', paymentId } : null;
+    case 'checkout.session.async_payment_succeeded':
+      return { sessionId: session.id, outcome: 'succeeded', paymentId };
+    case 'checkout.session.async_payment_failed':
+      return { sessionId: session.id, outcome: 'failed', paymentId };
+    case 'checkout.session.expired':
+      return { sessionId: session.id, outcome: 'expired', paymentId };
+    default:
+      return null;
+  }
+};
+
+export const createStripePaymentProvider = (
+  config: { secretKey: string; webhookSecret: string },
+  fetchImpl: FetchLike = fetch,
+): PaymentProvider => {
+  const postForm = async (path: string, params: URLSearchParams, idempotencyKey: string) => {
+    const response = await fetchImpl(`${STRIPE_API_BASE_URL}${path}`, {
+      method: 'POST',
+      headers: {
+        authorization: `Bearer ${config.secretKey}`,
+        'content-type': 'application/x-www-form-urlencoded',
+        'idempotency-key': idempotencyKey,
+      },
+      body: params.toString(),
+    });
+    if (!response.ok) {
+      throw new PaymentProviderError(`Stripe request failed (${response.status}): ${await readErrorPayload(response)}`);
+    }
+    return (await response.json()) as Record<string, unknown>;
+  };
+
+  return {
+    name: 'stripe',
+    createCheckoutSession: async (input) => {
+      const minimumExpiresAtMs = Date.now() + (STRIPE_MIN_SESSION_MINUTES + 1) * 60 * 1000;
+      const expiresAtSeconds = Math.floor(Math.max(input.expiresAt.getTime(), minimumExpiresAtMs) / 1000);
+      const returnUrl = `${input.returnUrlBase}/{CHECKOUT_SESSION_ID}`;
+      const params = new URLSearchParams({
+        mode: 'payment',
+        'line_items[0][quantity]': '1',
+        'line_items[0][price_data][currency]': input.currency,
+        'line_items[0][price_data][unit_amount]': String(input.amountCents),
+        'line_items[0][price_data][product_data][name]': input.description,
+        customer_email: input.inviteeEmail,
+        client_reference_id: input.bookingId,
+        'metadata[bookingId]': input.bookingId,
+        expires_at: String(expiresAtSeconds),
+        success_url: returnUrl,
+        cancel_url: returnUrl,
+      });
+      const session = await postForm('/checkout/sessions', params, `checkout:${input.bookingId}`);
+      if (typeof session.id !== 'string' || typeof session.url !== 'string') {
+        throw new PaymentProviderError('Stripe checkout session response is missing id or url.');
+      }
+      return { sessionId: session.id, checkoutUrl: session.url };
+    },
+    parseWebhook: ({ payload, signatureHeader, now }) => {
+      if (!verifyStripeSignature({ payload, signatureHeader, secret: config.webhookSecret, now })) {
+        throw new PaymentWebhookSignatureError('Invalid Stripe signature.');
+      }
+      try {
+        return toStripeOutcome(JSON.parse(payload) as Parameters<typeof toStripeOutcome>[0]);
+      } catch {
+        return null;
+      }
+    },
+    refund: async ({ sessionId, paymentId, amountCents }) => {
+      if (!paymentId) {
+        throw new PaymentProviderError('Stripe payment intent is missing for this checkout session.');
+      }
+      const refund = await postForm(
+        '/refunds',
+        new URLSearchParams({ payment_intent: paymentId, amount: String(amountCents) }),
+        `refund:${sessionId}`,
+      );
+      if (typeof refund.id !== 'string') {
+        throw new PaymentProviderError('Stripe refund response is missing id.');
+      }
+      return { refundId: refund.id };
+    },
+  };
+};
+
+/**
+ * Local stand-in for development and tests. Checkout links open the web app's payment page,
+ * which posts the chosen outcome straight to the fake webhook, so it must never run in production.
+ */
+export const createFakePaymentProvider = (): PaymentProvider => {
+  return {
+    name: 'fake',
+    createCheckoutSession: async (input) => {
+      const sessionId = `fake_${randomUUID()}`;
+      return { sessionId, checkoutUrl: `${input.returnUrlBase}/${sessionId}` };
+    },
+    parseWebhook: ({ payload }) => {
+      try {
+        const parsed = JSON.parse(payload) as { sessionId?: unknown; outcome?: unknown };
+        if (
+          typeof parsed.sessionId !== 'string' ||
+          (parsed.outcome !== 'succeeded' && parsed.outcome !== 'expired' && parsed.outcome !== 'failed')
+        ) {
+          return null;
+        }
+        return { sessionId: parsed.sessionId, outcome: parsed.outcome, paymentId: `fake_payment_${parsed.sessionId}` };
+      } catch {
+        return null;
+      }
+    },
+    refund: async ({ sessionId }) => ({ refundId: `fake_refund_${sessionId}` }),
+  };
+};
@@ -43,6 +43,12 @@ const publicEventType: PublicEventType = {
   locationType: 'video',
   locationValue: 'https://meet.example.com/demo',
   questions: [],
+  availabilityScheduleId: null,
+  minimumNoticeMinutes: 0,
+  bookingHorizonDays: null,
+  bufferBeforeMinutes: 0,
+  bufferAfterMinutes: 0,
+  slotIncrementMinutes: null,
   isActive: true,
   organizerDisplayName: 'Demo Organizer',
   organizerEmail: 'demo@opencalendly.dev',
@@ -111,6 +117,12 @@ const buildDbBackedBookingDataAccess = (db: Database): BookingDataAccess => {
           locationType: eventTypes.locationType,
           locationValue: eventTypes.locationValue,
           questions: eventTypes.questions,
+          availabilityScheduleId: eventTypes.availabilityScheduleId,
+          minimumNoticeMinutes: eventTypes.minimumNoticeMinutes,
+          bookingHorizonDays: eventTypes.bookingHorizonDays,
+          bufferBeforeMinutes: eventTypes.bufferBeforeMinutes,
+          bufferAfterMinutes: eventTypes.bufferAfterMinutes,
+          slotIncrementMinutes: eventTypes.slotIncrementMinutes,
           isActive: eventTypes.isActive,
           organizerDisplayName: users.displayName,
           organizerEmail: users.email,
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildRoutingRedirectPath,
+  findRoutingRuleIssue,
+  matchesRoutingCondition,
+  selectRoutingTarget,
+} from './routing-forms';
+
+const enterpriseId = '2f1c7a0e-5b8d-4c1a-9e3f-7d6b5a4c3b2a';
+const indiaIntroId = '7a9e3c1b-2d4f-4e6a-8b0c-1d2e3f4a5b6c';
+const fallbackId = 'c3b2a1f0-9e8d-4c7b-a6f5-e4d3c2b1a0f9';
+
+const rules = [
+  {
+    conditions: [{ questionId: 'company_size', operator: 'greater_than' as const, value: 200 }],
+    eventTypeId: enterpriseId,
+  },
+  {
+    conditions: [{ questionId: 'country', operator: 'equals' as const, value: 'IN' }],
+    eventTypeId: indiaIntroId,
+  },
+];
+
+describe('matchesRoutingCondition', () => {
+  it('compares text case-insensitively and checks list answers by membership', () => {
+    expect(matchesRoutingCondition({ questionId: 'country', operator: 'equals', value: 'IN' }, ' in ')).toBe(true);
+    expect(matchesRoutingCondition({ questionId: 'topics', operator: 'contains', value: 'Billing' }, ['billing'])).toBe(
+      true,
+    );
+    expect(matchesRoutingCondition({ questionId: 'company', operator: 'contains', value: 'corp' }, 'Acme Corp')).toBe(
+      true,
+    );
+  });
+
+  it('only lets unanswered questions satisfy not_equals', () => {
+    expect(matchesRoutingCondition({ questionId: 'country', operator: 'equals', value: 'IN' }, undefined)).toBe(false);
+    expect(matchesRoutingCondition({ questionId: 'country', operator: 'not_equals', value: 'IN' }, undefined)).toBe(
+      true,
+    );
+    expect(matchesRoutingCondition({ questionId: 'size', operator: 'greater_than', value: 200 }, 'lots')).toBe(false);
+  });
+});
+
+describe('selectRoutingTarget', () => {
+  it('returns the first matching rule in order', () => {
+    expect(
+      selectRoutingTarget({
+        rules,
+        fallbackEventTypeId: fallbackId,
+        answers: { company_size: 500, country: 'IN' },
+        isBookable: () => true,
+      }),
+    ).toEqual({ eventTypeId: enterpriseId, ruleIndex: 0 });
+  });
+
+  it('skips rules whose target can no longer take bookings, then uses the fallback', () => {
+    expect(
+      selectRoutingTarget({
+        rules,
+        fallbackEventTypeId: fallbackId,
+        answers: { company_size: 500, country: 'US' },
+        isBookable: (eventTypeId) => eventTypeId !== enterpriseId,
+      }),
+    ).toEqual({ eventTypeId: fallbackId, ruleIndex: null });
+
+    expect(
+      selectRoutingTarget({ rules, fallbackEventTypeId: null, answers: { country: 'US' }, isBookable: () => true }),
+    ).toBeNull();
+  });
+});
+
+describe('findRoutingRuleIssue', () => {
+  it('rejects rules that reference unknown questions or compare numbers with text', () => {
+    const questions = [{ id: 'company_size', type: 'number' }, { id: 'country' }];
+
+    expect(findRoutingRuleIssue(questions, rules)).toBeNull();
+    expect(
+      findRoutingRuleIssue(questions, [
+        { conditions: [{ questionId: 'budget', operator: 'equals', value: 'high' }], eventTypeId: fallbackId },
+      ]),
+    ).toBe('Rule 1 references unknown question "budget".');
+    expect(
+      findRoutingRuleIssue(questions, [
+        { conditions: [{ questionId: 'country', operator: 'less_than', value: 'IN' }], eventTypeId: fallbackId },
+      ]),
+    ).toBe('Rule 1 compares "country" with a non-numeric value.');
+  });
+});
+
+describe('buildRoutingRedirectPath', () => {
+  it('prefills only answers the target event type asks for', () => {
+    const result = buildRoutingRedirectPath({
+      basePath: '/team/sales/enterprise-demo',
+      answers: { company_size: 500, country: 'IN' },
+      targetQuestionIds: ['company_size'],
+    });
+
+    expect(result.answers).toEqual({ company_size: 500 });
+    expect(result.redirectPath).toBe(
+      `/team/sales/enterprise-demo?answers=${encodeURIComponent(JSON.stringify({ company_size: 500 }))}`,
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import type { BookingAnswers, BookingAnswerValue, RoutingRule, RoutingRuleCondition } from '@opencalendly/shared';
+
+type RoutingQuestion = { id: string; type?: string | undefined };
+
+export type RoutingSelection = {
+  eventTypeId: string;
+  ruleIndex: number | null;
+};
+
+const NUMERIC_OPERATORS = new Set<RoutingRuleCondition['operator']>(['greater_than', 'less_than']);
+
+/**
+ * Rules are saved as a whole list, so this checks them against the questions they will be evaluated
+ * with. Returns the first problem as a user-facing message, or null when the rules are usable.
+ */
+export const findRoutingRuleIssue = (questions: RoutingQuestion[], rules: RoutingRule[]): string | null => {
+  const questionIds = new Set(questions.map((question) => question.id));
+  if (questionIds.size !== questions.length) {
+    return 'Routing form question ids must be unique.';
+  }
+
+  for (const [index, rule] of rules.entries()) {
+    for (const condition of rule.conditions) {
+      if (!questionIds.has(condition.questionId)) {
+        return `Rule ${index + 1} references unknown question "${condition.questionId}".`;
+      }
+      if (NUMERIC_OPERATORS.has(condition.operator) && typeof condition.value !== 'number') {
+        return `Rule ${index + 1} compares "${condition.questionId}" with a non-numeric value.`;
+      }
+    }
+  }
+  return null;
+};
+
+const normalizeText = (value: string | number | boolean): string => String(value).trim().toLowerCase();
+
+const toNumber = (value: BookingAnswerValue): number | null => {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim().length > 0) {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+// Unanswered questions only satisfy `not_equals`, so optional questions never route by accident.
+export const matchesRoutingCondition = (
+  condition: RoutingRuleCondition,
+  answer: BookingAnswerValue | undefined,
+): boolean => {
+  if (answer === undefined) {
+    return condition.operator === 'not_equals';
+  }
+
+  switch (condition.operator) {
+    case 'equals':
+    case 'not_equals': {
+      const expected = normalizeText(condition.value);
+      const matches = Array.isArray(answer)
+        ? answer.some((entry) => normalizeText(entry) === expected)
+        : normalizeText(answer) === expected;
+      return condition.operator === 'equals' ? matches : !matches;
+    }
+    case 'contains': {
+      const expected = normalizeText(condition.value);
+      return Array.isArray(answer)
+        ? answer.some((entry) => normalizeText(entry) === expected)
+        : normalizeText(answer).includes(expected);
+    }
+    case 'greater_than':
+    case 'less_than': {
+      const actual = Array.isArray(answer) ? null : toNumber(answer);
+      if (actual === null || typeof condition.value !== 'number') {
+        return false;
+      }
+      return condition.operator === 'greater_than' ? actual > condition.value : actual < condition.value;
+    }
+  }
+};
+
+/**
+ * Walks the rules in order and returns the first whose conditions all match and whose target can
+ * still take bookings. Falls back to the form's fallback event type, or null when nothing applies.
+ */
+export const selectRoutingTarget = (input: {
+  rules: RoutingRule[];
+  fallbackEventTypeId: string | null;
+  answers: BookingAnswers;
+  isBookable: (eventTypeId: string) => boolean;
+}): RoutingSelection | null => {
+  for (const [ruleIndex, rule] of input.rules.entries()) {
+    if (!input.isBookable(rule.eventTypeId)) {
+      continue;
+    }
+    if (rule.conditions.every((condition) => matchesRoutingCondition(condition, input.answers[condition.questionId]))) {
+      return { eventTypeId: rule.eventTypeId, ruleIndex };
+    }
+  }
+
+  if (input.fallbackEventTypeId && input.isBookable(input.fallbackEventTypeId)) {
+    return { eventTypeId: input.fallbackEventTypeId, ruleIndex: null };
+  }
+  return null;
+};
+
+// Only answers whose question id also exists on the target event type are carried over.
+export const buildRoutingRedirectPath = (input: {
+  basePath: string;
+  answers: BookingAnswers;
+  targetQuestionIds: string[];
+}): { redirectPath: string; answers: BookingAnswers } => {
+  const prefill = Object.fromEntries(
+    Object.entries(input.answers).filter(([questionId]) => input.targetQuestionIds.includes(questionId)),
+  );
+  if (Object.keys(prefill).length === 0) {
+    return { redirectPath: input.basePath, answers: prefill };
+  }
+  return {
+    redirectPath: `${input.basePath}?answers=${encodeURIComponent(JSON.stringify(prefill))}`,
+    answers: prefill,
+  };
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  evaluateWaitlistOffer,
+  findEventTypeWaitlistIssue,
+  listFreedSlotWindowKeys,
+  resolveWaitlistWindowKey,
+  waitlistEntryMatchesFreedSlot,
+} from './slot-waitlist';
+
+const now = new Date('2026-03-10T12:00:00.000Z');
+
+describe('slot waitlist helpers', () => {
+  it('only opens a waitlist on free event types that book instantly', () => {
+    expect(findEventTypeWaitlistIssue({ priceCents: null, requiresConfirmation: false })).toBeNull();
+    expect(findEventTypeWaitlistIssue({ priceCents: 5000 })).toBe('Paid event types do not have a waitlist yet.');
+    expect(findEventTypeWaitlistIssue({ requiresConfirmation: true })).toBe(
+      'Event types that require approval do not have a waitlist yet.',
+    );
+  });
+
+  it('keys slot entries on the UTC start and day entries on the invitee date', () => {
+    expect(
+      resolveWaitlistWindowKey({ scope: 'slot', startsAt: '2026-03-12T09:00:00-07:00', timezone: 'UTC', now }),
+    ).toEqual({ windowKey: '2026-03-12T16:00:00.000Z' });
+    expect(
+      resolveWaitlistWindowKey({ scope: 'day', date: '2026-03-12', timezone: 'America/Los_Angeles', now }),
+    ).toEqual({ windowKey: '2026-03-12' });
+
+    expect(resolveWaitlistWindowKey({ scope: 'slot', timezone: 'UTC', now })).toEqual({
+      error: 'Pick a time to join the waitlist for.',
+    });
+    expect(
+      resolveWaitlistWindowKey({ scope: 'slot', startsAt: '2026-03-10T11:00:00.000Z', timezone: 'UTC', now }),
+    ).toEqual({ error: 'That time has already started.' });
+    expect(resolveWaitlistWindowKey({ scope: 'day', date: '2026-03-09', timezone: 'UTC', now })).toEqual({
+      error: 'That day has already passed.',
+    });
+    // Still March 10 in Los Angeles when it is noon UTC.
+    expect(
+      resolveWaitlistWindowKey({ scope: 'day', date: '2026-03-10', timezone: 'America/Los_Angeles', now }),
+    ).toEqual({ windowKey: '2026-03-10' });
+  });
+
+  it('matches a freed slot against slot and day entries in their own timezone', () => {
+    const startsAt = new Date('2026-03-12T02:00:00.000Z');
+
+    expect(listFreedSlotWindowKeys(startsAt)).toEqual([
+      '2026-03-12T02:00:00.000Z',
+      '2026-03-11',
+      '2026-03-12',
+      '2026-03-13',
+    ]);
+    expect(
+      waitlistEntryMatchesFreedSlot({ scope: 'slot', windowKey: '2026-03-12T02:00:00.000Z', timezone: 'UTC' }, startsAt),
+    ).toBe(true);
+    expect(
+      waitlistEntryMatchesFreedSlot({ scope: 'day', windowKey: '2026-03-11', timezone: 'America/New_York' }, startsAt),
+    ).toBe(true);
+    expect(waitlistEntryMatchesFreedSlot({ scope: 'day', windowKey: '2026-03-11', timezone: 'UTC' }, startsAt)).toBe(
+      false,
+    );
+  });
+
+  it('treats an offer as open only until it expires or is claimed', () => {
+    const offerExpiresAt = new Date('2026-03-10T12:30:00.000Z');
+
+    expect(evaluateWaitlistOffer({ status: 'offered', offerExpiresAt, now })).toBe('open');
+    expect(evaluateWaitlistOffer({ status: 'offered', offerExpiresAt: now, now })).toBe('expired');
+    expect(evaluateWaitlistOffer({ status: 'claimed', offerExpiresAt, now })).toBe('claimed');
+    expect(evaluateWaitlistOffer({ status: 'waiting', offerExpiresAt: null, now })).toBe('expired');
+  });
+});
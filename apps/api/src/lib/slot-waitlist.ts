@@ -0,0 +1,102 @@
+import { DateTime } from 'luxon';
+
+export type SlotWaitlistScope = 'slot' | 'day';
+export type SlotWaitlistOfferState = 'open' | 'claimed' | 'expired';
+
+export const WAITLIST_OFFER_TTL_MINUTES = 30;
+
+type SlotWaitlistWindowInput = {
+  scope: SlotWaitlistScope;
+  startsAt?: string | undefined;
+  date?: string | undefined;
+  timezone: string;
+  now: Date;
+};
+
+/**
+ * Checks whether a public event type can take waitlist signups. Returns the first problem, or null
+ * when invitees can join.
+ */
+export const findEventTypeWaitlistIssue = (input: {
+  priceCents?: number | null;
+  requiresConfirmation?: boolean;
+}): string | null => {
+  // A claim books the slot outright, so it cannot wait on a checkout or an organizer review.
+  if (typeof input.priceCents === 'number') {
+    return 'Paid event types do not have a waitlist yet.';
+  }
+  if (input.requiresConfirmation) {
+    return 'Event types that require approval do not have a waitlist yet.';
+  }
+  return null;
+};
+
+/**
+ * Slot entries key on the normalized UTC start time. Day entries key on the calendar date the
+ * invitee picked in their own timezone, which is stored next to the entry.
+ */
+export const resolveWaitlistWindowKey = (
+  input: SlotWaitlistWindowInput,
+): { windowKey: string } | { error: string } => {
+  if (input.scope === 'slot') {
+    const startsAt = input.startsAt ? DateTime.fromISO(input.startsAt, { zone: 'utc' }) : null;
+    if (!startsAt?.isValid) {
+      return { error: 'Pick a time to join the waitlist for.' };
+    }
+    if (startsAt.toMillis() <= input.now.getTime()) {
+      return { error: 'That time has already started.' };
+    }
+    return { windowKey: startsAt.toUTC().toJSDate().toISOString() };
+  }
+
+  const day = input.date ? DateTime.fromISO(input.date, { zone: input.timezone }) : null;
+  if (!day?.isValid) {
+    return { error: 'Pick a day to join the waitlist for.' };
+  }
+  if (day.endOf('day').toMillis() <= input.now.getTime()) {
+    return { error: 'That day has already passed.' };
+  }
+  return { windowKey: day.toISODate() ?? input.date ?? '' };
+};
+
+/**
+ * Every window key that could match a freed slot: its own start time plus the dates it falls on in
+ * any timezone (the UTC date and its neighbours). Callers still check each candidate with
+ * `waitlistEntryMatchesFreedSlot`.
+ */
+export const listFreedSlotWindowKeys = (startsAt: Date): string[] => {
+  const utcDay = DateTime.fromJSDate(startsAt, { zone: 'utc' }).startOf('day');
+  return [
+    startsAt.toISOString(),
+    ...[-1, 0, 1].map((offset) => utcDay.plus({ days: offset }).toISODate() ?? ''),
+  ];
+};
+
+export const waitlistEntryMatchesFreedSlot = (
+  entry: { scope: string; windowKey: string; timezone: string },
+  startsAt: Date,
+): boolean => {
+  if (entry.scope === 'slot') {
+    return entry.windowKey === startsAt.toISOString();
+  }
+  const localDay = DateTime.fromJSDate(startsAt, { zone: entry.timezone });
+  return localDay.isValid && localDay.toISODate() === entry.windowKey;
+};
+
+export const evaluateWaitlistOffer = (input: {
+  status: string;
+  offerExpiresAt: Date | null;
+  now: Date;
+}): SlotWaitlistOfferState => {
+  if (input.status === 'claimed') {
+    return 'claimed';
+  }
+  if (
+    input.status === 'offered' &&
+    input.offerExpiresAt &&
+    input.offerExpiresAt.getTime() > input.now.getTime()
+  ) {
+    return 'open';
+  }
+  return 'expired';
+};
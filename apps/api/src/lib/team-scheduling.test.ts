@@ -3,6 +3,7 @@ import { describe, expect, it } from 'vitest';
 import {
   chooseRoundRobinAssignee,
   computeTeamAvailabilitySlots,
+  rebaseRoundRobinCursor,
 } from './team-scheduling';
 
 const weekdayRule = {
@@ -34,6 +35,89 @@ describe('chooseRoundRobinAssignee', () => {
 
     expect(result).toBeNull();
   });
+
+  it('gives a mid-window joiner the next bookings under fewest-in-window', () => {
+    const policy = {
+      strategy: 'fewest_in_window' as const,
+      memberStats: new Map([
+        ['member-a', { weight: 1, lastBookedAtMs: 1_000, bookingsInWindow: 6 }],
+        ['member-b', { weight: 1, lastBookedAtMs: 2_000, bookingsInWindow: 5 }],
+      ]),
+    };
+
+    const result = chooseRoundRobinAssignee({
+      orderedMemberIds: ['member-a', 'member-b', 'member-c'],
+      availableMemberIds: ['member-a', 'member-b', 'member-c'],
+      cursor: 0,
+      policy,
+    });
+
+    expect(result).toEqual({ assigneeUserId: 'member-c', nextCursor: 0 });
+  });
+
+  it('balances bookings against member weights and falls back to rotation on ties', () => {
+    const memberStats = new Map([
+      ['member-a', { weight: 3, lastBookedAtMs: null, bookingsInWindow: 3 }],
+      ['member-b', { weight: 1, lastBookedAtMs: null, bookingsInWindow: 2 }],
+    ]);
+
+    expect(
+      chooseRoundRobinAssignee({
+        orderedMemberIds: ['member-a', 'member-b'],
+        availableMemberIds: ['member-a', 'member-b'],
+        cursor: 1,
+        policy: { strategy: 'weighted', memberStats },
+      })?.assigneeUserId,
+    ).toBe('member-a');
+
+    memberStats.set('member-b', { weight: 1, lastBookedAtMs: null, bookingsInWindow: 1 });
+    expect(
+      chooseRoundRobinAssignee({
+        orderedMemberIds: ['member-a', 'member-b'],
+        availableMemberIds: ['member-a', 'member-b'],
+        cursor: 1,
+        policy: { strategy: 'weighted', memberStats },
+      })?.assigneeUserId,
+    ).toBe('member-b');
+  });
+
+  it('prefers the member booked longest ago, skipping unavailable members', () => {
+    const result = chooseRoundRobinAssignee({
+      orderedMemberIds: ['member-a', 'member-b', 'member-c'],
+      availableMemberIds: ['member-b', 'member-c'],
+      cursor: 0,
+      policy: {
+        strategy: 'least_recently_booked',
+        memberStats: new Map([
+          ['member-a', { weight: 1, lastBookedAtMs: null, bookingsInWindow: 0 }],
+          ['member-b', { weight: 1, lastBookedAtMs: 5_000, bookingsInWindow: 1 }],
+          ['member-c', { weight: 1, lastBookedAtMs: 4_000, bookingsInWindow: 1 }],
+        ]),
+      },
+    });
+
+    expect(result?.assigneeUserId).toBe('member-c');
+  });
+});
+
+describe('rebaseRoundRobinCursor', () => {
+  it('keeps the same next member in line when an earlier member is removed', () => {
+    const orderedMemberIds = ['member-a', 'member-b', 'member-c'];
+
+    expect(rebaseRoundRobinCursor({ orderedMemberIds, removedUserId: 'member-a', cursor: 2 })).toBe(1);
+    expect(rebaseRoundRobinCursor({ orderedMemberIds, removedUserId: 'member-c', cursor: 1 })).toBe(1);
+  });
+
+  it('wraps when the removed member was next in line at the end of the rotation', () => {
+    expect(
+      rebaseRoundRobinCursor({
+        orderedMemberIds: ['member-a', 'member-b', 'member-c'],
+        removedUserId: 'member-c',
+        cursor: 2,
+      }),
+    ).toBe(0);
+    expect(rebaseRoundRobinCursor({ orderedMemberIds: ['member-a'], removedUserId: 'member-a', cursor: 0 })).toBe(0);
+  });
 });
 
 describe('computeTeamAvailabilitySlots', () => {
@@ -104,6 +188,43 @@ describe('computeTeamAvailabilitySlots', () => {
     expect(result.slots.some((slot) => slot.startsAt === '2026-03-02T09:00:00.000Z')).toBe(false);
   });
 
+  it('adds free optional members to collective slots without letting them block any', () => {
+    const result = computeTeamAvailabilitySlots({
+      mode: 'collective',
+      rangeStartIso: '2026-03-02T00:00:00.000Z',
+      days: 1,
+      durationMinutes: 30,
+      members: [
+        {
+          userId: 'member-a',
+          timezone: 'UTC',
+          rules: [weekdayRule],
+          overrides: [],
+          bookings: [],
+        },
+      ],
+      optionalMembers: [
+        {
+          userId: 'member-c',
+          timezone: 'UTC',
+          rules: [{ ...weekdayRule, startMinute: 600 }],
+          overrides: [],
+          bookings: [],
+        },
+      ],
+    });
+
+    expect(result.slots[0]).toMatchObject({
+      startsAt: '2026-03-02T09:00:00.000Z',
+      assignmentUserIds: ['member-a'],
+      optionalAttendeeUserIds: [],
+    });
+    expect(result.slots.find((slot) => slot.startsAt === '2026-03-02T10:00:00.000Z')).toMatchObject({
+      assignmentUserIds: ['member-a'],
+      optionalAttendeeUserIds: ['member-c'],
+    });
+  });
+
   it('removes slots when a member has a blocking override (time-off)', () => {
     const result = computeTeamAvailabilitySlots({
       mode: 'collective',
@@ -1,9 +1,10 @@
-import type { TeamSchedulingMode } from '@opencalendly/shared';
+import type { TeamRoundRobinStrategy, TeamSchedulingMode } from '@opencalendly/shared';
 
 import {
   computeAvailabilitySlots,
   type AvailabilityOverrideWindow,
   type AvailabilitySlot,
+  type EventTypeSchedulingRules,
   type ExistingBooking,
   type WeeklyAvailabilityRule,
 } from './availability';
@@ -20,10 +21,23 @@ export type TeamSlot = {
   startsAt: string;
   endsAt: string;
   assignmentUserIds: string[];
+  // Optional collective members free for this slot. They join the booking but never block it.
+  optionalAttendeeUserIds: string[];
   bufferBeforeMinutes: number;
   bufferAfterMinutes: number;
 };
 
+export type RoundRobinMemberStats = {
+  weight: number;
+  lastBookedAtMs: number | null;
+  bookingsInWindow: number;
+};
+
+export type RoundRobinPolicy = {
+  strategy: TeamRoundRobinStrategy;
+  memberStats: Map<string, RoundRobinMemberStats>;
+};
+
 type TeamSlotMatrixEntry = {
   startsAt: string;
   endsAt: string;
@@ -53,6 +67,8 @@ export const computeTeamSlotMatrix = (input: {
   rangeStartIso: string;
   days: number;
   durationMinutes: number;
+  eventTypeRules?: EventTypeSchedulingRules;
+  now?: Date;
 }): Map<string, TeamSlotMatrixEntry> => {
   const matrix = new Map<string, TeamSlotMatrixEntry>();
 
@@ -65,6 +81,8 @@ export const computeTeamSlotMatrix = (input: {
       rules: member.rules,
       overrides: member.overrides,
       bookings: member.bookings,
+      ...(input.eventTypeRules ? { eventTypeRules: input.eventTypeRules } : {}),
+      ...(input.now ? { now: input.now } : {}),
     });
 
     for (const slot of slots) {
@@ -86,10 +104,33 @@ export const computeTeamSlotMatrix = (input: {
   return matrix;
 };
 
+// Lower scores win. Members missing from the stats count as never booked with the default weight,
+// which is how someone who joined mid-window catches up.
+const scoreRoundRobinCandidate = (policy: RoundRobinPolicy | undefined, userId: string): number => {
+  if (!policy || policy.strategy === 'strict') {
+    return 0;
+  }
+
+  const stats = policy.memberStats.get(userId);
+  switch (policy.strategy) {
+    case 'weighted':
+      return (stats?.bookingsInWindow ?? 0) / Math.max(stats?.weight ?? 1, 1);
+    case 'least_recently_booked':
+      return stats?.lastBookedAtMs ?? Number.NEGATIVE_INFINITY;
+    case 'fewest_in_window':
+      return stats?.bookingsInWindow ?? 0;
+  }
+};
+
+/**
+ * Picks the available member with the lowest strategy score. Ties fall back to rotation order from
+ * the cursor, so `strict` (or no policy) is a plain rotation over the sorted member IDs.
+ */
 export const chooseRoundRobinAssignee = (input: {
   orderedMemberIds: string[];
   availableMemberIds: string[];
   cursor: number;
+  policy?: RoundRobinPolicy;
 }): { assigneeUserId: string; nextCursor: number } | null => {
   const totalMembers = input.orderedMemberIds.length;
   if (totalMembers === 0) {
@@ -98,6 +139,7 @@ export const chooseRoundRobinAssignee = (input: {
 
   const available = new Set(input.availableMemberIds);
   const startIndex = normalizeCursor(input.cursor, totalMembers);
+  let best: { index: number; userId: string; score: number } | null = null;
 
   for (let offset = 0; offset < totalMembers; offset += 1) {
     const index = (startIndex + offset) % totalMembers;
@@ -106,22 +148,48 @@ export const chooseRoundRobinAssignee = (input: {
       continue;
     }
 
-    return {
-      assigneeUserId: candidate,
-      nextCursor: (index + 1) % totalMembers,
-    };
+    const score = scoreRoundRobinCandidate(input.policy, candidate);
+    if (!best || score < best.score) {
+      best = { index, userId: candidate, score };
+    }
+  }
+
+  return best
+    ? {
+        assigneeUserId: best.userId,
+        nextCursor: (best.index + 1) % totalMembers,
+      }
+    : null;
+};
+
+// The cursor indexes the sorted member list, so dropping a member ahead of it shifts everyone after
+// them down by one. Without the shift the member who was next in line would be skipped.
+export const rebaseRoundRobinCursor = (input: {
+  orderedMemberIds: string[];
+  removedUserId: string;
+  cursor: number;
+}): number => {
+  const orderedMemberIds = sortMemberIds(input.orderedMemberIds);
+  const removedIndex = orderedMemberIds.indexOf(input.removedUserId);
+  if (removedIndex === -1) {
+    return normalizeCursor(input.cursor, orderedMemberIds.length);
   }
 
-  return null;
+  const remainingTotal = orderedMemberIds.length - 1;
+  const cursor = normalizeCursor(input.cursor, orderedMemberIds.length);
+  return normalizeCursor(removedIndex < cursor ? cursor - 1 : cursor, remainingTotal);
 };
 
 export const computeTeamAvailabilitySlots = (input: {
   mode: TeamSchedulingMode;
   members: TeamMemberSchedule[];
+  optionalMembers?: TeamMemberSchedule[];
   rangeStartIso: string;
   days: number;
   durationMinutes: number;
   roundRobinCursor?: number;
+  eventTypeRules?: EventTypeSchedulingRules;
+  now?: Date;
 }): { slots: TeamSlot[]; nextRoundRobinCursor: number } => {
   const orderedMemberIds = sortMemberIds(input.members.map((member) => member.userId));
   if (orderedMemberIds.length === 0) {
@@ -138,14 +206,27 @@ export const computeTeamAvailabilitySlots = (input: {
     rangeStartIso: input.rangeStartIso,
     days: input.days,
     durationMinutes: input.durationMinutes,
+    ...(input.eventTypeRules ? { eventTypeRules: input.eventTypeRules } : {}),
+    ...(input.now ? { now: input.now } : {}),
   });
 
   if (input.mode === 'collective') {
     const requiredMemberIds = orderedMembers.map((member) => member.userId);
+    const optionalMembers = (input.optionalMembers ?? []).filter((member) => !memberById.has(member.userId));
+    const optionalMatrix = computeTeamSlotMatrix({
+      members: optionalMembers,
+      rangeStartIso: input.rangeStartIso,
+      days: input.days,
+      durationMinutes: input.durationMinutes,
+      ...(input.eventTypeRules ? { eventTypeRules: input.eventTypeRules } : {}),
+      ...(input.now ? { now: input.now } : {}),
+    });
+    const optionalMemberIds = sortMemberIds(optionalMembers.map((member) => member.userId));
     const slots = Array.from(matrix.entries())
       .filter(([, entry]) => requiredMemberIds.every((memberId) => entry.byUserId.has(memberId)))
       .sort(([leftKey], [rightKey]) => compareSlotKeys(leftKey, rightKey))
-      .map(([, entry]) => {
+      .map(([key, entry]) => {
+        const optionalEntry = optionalMatrix.get(key);
         let bufferBeforeMinutes = 0;
         let bufferAfterMinutes = 0;
 
@@ -166,6 +247,7 @@ export const computeTeamAvailabilitySlots = (input: {
           startsAt: entry.startsAt,
           endsAt: entry.endsAt,
           assignmentUserIds: requiredMemberIds,
+          optionalAttendeeUserIds: optionalMemberIds.filter((memberId) => optionalEntry?.byUserId.has(memberId) ?? false),
           bufferBeforeMinutes,
           bufferAfterMinutes,
         };
@@ -208,6 +290,7 @@ export const computeTeamAvailabilitySlots = (input: {
       startsAt: entry.startsAt,
       endsAt: entry.endsAt,
       assignmentUserIds: [selection.assigneeUserId],
+      optionalAttendeeUserIds: [],
       bufferBeforeMinutes: selectedSlot.bufferBeforeMinutes,
       bufferAfterMinutes: selectedSlot.bufferAfterMinutes,
     });
@@ -0,0 +1,38 @@
+import { formatDateForTimezone } from './email';
+import { sendTextEmail, type EmailBindings, type EmailSendResult } from './email-transport';
+
+export type WaitlistOfferEmailInput = {
+  inviteeEmail: string;
+  inviteeName: string;
+  organizerDisplayName: string;
+  eventName: string;
+  startsAt: string;
+  expiresAt: string;
+  timezone: string;
+  claimLink: string;
+  idempotencyKey?: string;
+};
+
+export const sendWaitlistOfferEmail = async (
+  env: EmailBindings,
+  input: WaitlistOfferEmailInput,
+): Promise<EmailSendResult> => {
+  const when = formatDateForTimezone(input.startsAt, input.timezone);
+  const claimBy = formatDateForTimezone(input.expiresAt, input.timezone);
+  const text = [
+    `Hi ${input.inviteeName},`,
+    '',
+    `A time you were waiting for with ${input.organizerDisplayName} just opened up.`,
+    `Event: ${input.eventName}`,
+    `When: ${when} (${input.timezone})`,
+    `Claim it here before ${claimBy}: ${input.claimLink}`,
+    'The slot is not held for you, so someone else may still book it first.',
+  ].join('\n');
+
+  return sendTextEmail(env, {
+    to: input.inviteeEmail,
+    subject: `A spot opened up: ${input.eventName}`,
+    text,
+    ...(input.idempotencyKey ? { idempotencyKey: input.idempotencyKey } : {}),
+  });
+};
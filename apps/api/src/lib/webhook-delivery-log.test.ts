@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  canReplayWebhookDelivery,
+  decodeWebhookDeliveriesCursor,
+  encodeWebhookDeliveriesCursor,
+} from './webhook-delivery-log';
+
+describe('webhook delivery log helpers', () => {
+  it('round-trips delivery cursors and rejects tampered ones', () => {
+    const cursor = {
+      createdAt: '2026-03-11T09:30:00.000Z',
+      id: '8f14e45f-ceea-467f-a8b2-4f4f5b8f1a2c',
+    };
+
+    const encoded = encodeWebhookDeliveriesCursor(cursor);
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeWebhookDeliveriesCursor(encoded)).toEqual(cursor);
+
+    expect(decodeWebhookDeliveriesCursor('not a cursor')).toBeNull();
+    expect(
+      decodeWebhookDeliveriesCursor(encodeWebhookDeliveriesCursor({ createdAt: 'invalid', id: 'not-a-uuid' })),
+    ).toBeNull();
+  });
+
+  it('only replays deliveries the runner has finished with', () => {
+    expect(canReplayWebhookDelivery('failed')).toBe(true);
+    expect(canReplayWebhookDelivery('succeeded')).toBe(true);
+    expect(canReplayWebhookDelivery('pending')).toBe(false);
+  });
+});
@@ -0,0 +1,24 @@
+import { decodeOpaqueCursor, encodeOpaqueCursor } from './opaque-cursor';
+
+export type WebhookDeliveriesCursor = {
+  createdAt: string;
+  id: string;
+};
+
+// Deliveries are read newest first, with the row id breaking ties between same-instant inserts.
+export const encodeWebhookDeliveriesCursor = (cursor: WebhookDeliveriesCursor): string => {
+  return encodeOpaqueCursor({ timestamp: cursor.createdAt, id: cursor.id });
+};
+
+export const decodeWebhookDeliveriesCursor = (raw: string): WebhookDeliveriesCursor | null => {
+  const cursor = decodeOpaqueCursor(raw);
+  return cursor ? { createdAt: cursor.timestamp, id: cursor.id } : null;
+};
+
+/**
+ * Only finished deliveries can be replayed. A pending row is either still retrying or leased by a
+ * running batch, and resetting it would race the runner.
+ */
+export const canReplayWebhookDelivery = (status: string): boolean => {
+  return status === 'succeeded' || status === 'failed';
+};
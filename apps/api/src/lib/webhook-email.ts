@@ -0,0 +1,35 @@
+import { formatDateForTimezone } from './email';
+import { sendTextEmail, type EmailBindings, type EmailSendResult } from './email-transport';
+
+export type WebhookAutoDisabledEmailInput = {
+  organizerEmail: string;
+  organizerDisplayName: string;
+  webhookUrl: string;
+  failureCount: number;
+  lastError: string | null;
+  disabledAt: string;
+  timezone: string;
+  idempotencyKey?: string;
+};
+
+export const sendWebhookAutoDisabledEmail = async (
+  env: EmailBindings,
+  input: WebhookAutoDisabledEmailInput,
+): Promise<EmailSendResult> => {
+  const text = [
+    `Hi ${input.organizerDisplayName},`,
+    '',
+    `We turned off your webhook for ${input.webhookUrl} after ${input.failureCount} deliveries in a row failed every retry.`,
+    `Disabled at: ${formatDateForTimezone(input.disabledAt, input.timezone)} (${input.timezone})`,
+    ...(input.lastError ? [`Last error: ${input.lastError.slice(0, 300)}`] : []),
+    '',
+    'New events are held while it is off. Once the endpoint is fixed, enable the webhook again from your organizer console and choose whether to deliver the held events.',
+  ].join('\n');
+
+  return sendTextEmail(env, {
+    to: input.organizerEmail,
+    subject: 'Your OpenCalendly webhook was disabled',
+    text,
+    ...(input.idempotencyKey ? { idempotencyKey: input.idempotencyKey } : {}),
+  });
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+
+import { webhookEventV2Schema } from '@opencalendly/shared';
+
+import { buildWebhookBookingSnapshot, buildWebhookEventTypeSnapshot } from './webhook-payloads';
+import { buildWebhookEventV2 } from './webhooks';
+
+const eventType = {
+  id: '6f2799fb-f5ca-4f21-b0df-4b3f43a84d82',
+  userId: '7f7a3e89-863a-4651-8ffc-8e28d6dc6fd2',
+  slug: 'intro-call',
+  name: 'Intro Call',
+  durationMinutes: 30,
+  locationType: 'video',
+  locationValue: 'https://meet.example.com/intro',
+  requiresConfirmation: false,
+  priceCents: null,
+  currency: null,
+  seatsPerSlot: null,
+  isActive: true,
+};
+
+const booking = {
+  id: '526c8230-6f9e-4332-81cb-2f6d3e3ef105',
+  organizerId: eventType.userId,
+  inviteeName: 'Pat Lee',
+  inviteeEmail: 'pat@example.com',
+  startsAt: new Date('2026-03-01T10:00:00.000Z'),
+  endsAt: new Date('2026-03-01T10:30:00.000Z'),
+  status: 'canceled',
+  rescheduledFromBookingId: null,
+  canceledAt: new Date('2026-02-28T09:00:00.000Z'),
+  canceledBy: 'invitee',
+  cancellationReason: 'Conflict came up.',
+  noShowAt: null,
+};
+
+describe('webhook v2 payloads', () => {
+  it('expands bookings with event type, answers, team assignment and cancellation', () => {
+    const snapshot = buildWebhookBookingSnapshot({
+      booking,
+      eventType,
+      bookingMetadata: {
+        answers: { company: 'Acme' },
+        timezone: 'America/Los_Angeles',
+        team: {
+          teamId: 'b0f4c9a4-0a7b-4c9b-9d3a-2d6a51c1d001',
+          teamEventTypeId: 'b0f4c9a4-0a7b-4c9b-9d3a-2d6a51c1d002',
+          mode: 'round_robin',
+          assignmentUserIds: [eventType.userId],
+          optionalAttendeeUserIds: [],
+        },
+      },
+      rescheduledToBookingId: null,
+      metadata: { cancellationReason: 'Conflict came up.' },
+    });
+
+    expect(snapshot).toMatchObject({
+      status: 'canceled',
+      timezone: 'America/Los_Angeles',
+      invitee: { name: 'Pat Lee', email: 'pat@example.com' },
+      eventType: { slug: 'intro-call', name: 'Intro Call', durationMinutes: 30 },
+      location: { type: 'video', value: 'https://meet.example.com/intro' },
+      answers: { company: 'Acme' },
+      team: { mode: 'round_robin', assignmentUserIds: [eventType.userId] },
+      cancellation: { canceledBy: 'invitee', reason: 'Conflict came up.' },
+      noShowAt: null,
+    });
+    expect(snapshot.team).not.toHaveProperty('optionalAttendeeUserIds');
+
+    const event = buildWebhookEventV2({ type: 'booking.canceled', payload: { booking: snapshot } });
+    expect(webhookEventV2Schema.parse(event).apiVersion).toBe('v2');
+  });
+
+  it('leaves cancellation and team empty for plain confirmed bookings', () => {
+    const snapshot = buildWebhookBookingSnapshot({
+      booking: { ...booking, status: 'confirmed', canceledAt: null, canceledBy: null, cancellationReason: null },
+      eventType: { ...eventType, locationType: 'legacy' },
+      bookingMetadata: { answers: {} },
+      rescheduledToBookingId: '1b4e28ba-2fa1-41d2-883f-0016d3cca427',
+    });
+
+    expect(snapshot.cancellation).toBeNull();
+    expect(snapshot.team).toBeNull();
+    expect(snapshot.timezone).toBeNull();
+    expect(snapshot.location.type).toBe('custom');
+    expect(snapshot.rescheduledToBookingId).toBe('1b4e28ba-2fa1-41d2-883f-0016d3cca427');
+    expect(snapshot.metadata).toEqual({});
+    expect(buildWebhookEventTypeSnapshot(eventType).organizerId).toBe(eventType.userId);
+  });
+});
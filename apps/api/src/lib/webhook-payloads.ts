@@ -0,0 +1,111 @@
+import {
+  locationTypeSchema,
+  type WebhookBookingSnapshot,
+  type WebhookEventTypeSnapshot,
+} from '@opencalendly/shared';
+
+import type { BookingMetadata } from './booking-actions';
+
+export type WebhookEventTypeSource = {
+  id: string;
+  userId: string;
+  slug: string;
+  name: string;
+  durationMinutes: number;
+  locationType: string;
+  locationValue: string | null;
+  requiresConfirmation: boolean;
+  priceCents: number | null;
+  currency: string | null;
+  seatsPerSlot: number | null;
+  isActive: boolean;
+};
+
+export type WebhookBookingSource = {
+  id: string;
+  organizerId: string;
+  inviteeName: string;
+  inviteeEmail: string;
+  startsAt: Date;
+  endsAt: Date;
+  status: string;
+  rescheduledFromBookingId: string | null;
+  canceledAt: Date | null;
+  canceledBy: string | null;
+  cancellationReason: string | null;
+  noShowAt: Date | null;
+};
+
+const toLocationType = (value: string): WebhookEventTypeSnapshot['location']['type'] => {
+  const parsed = locationTypeSchema.safeParse(value);
+  return parsed.success ? parsed.data : 'custom';
+};
+
+export const buildWebhookEventTypeSnapshot = (eventType: WebhookEventTypeSource): WebhookEventTypeSnapshot => {
+  return {
+    id: eventType.id,
+    organizerId: eventType.userId,
+    slug: eventType.slug,
+    name: eventType.name,
+    durationMinutes: eventType.durationMinutes,
+    location: { type: toLocationType(eventType.locationType), value: eventType.locationValue },
+    requiresConfirmation: eventType.requiresConfirmation,
+    priceCents: eventType.priceCents,
+    currency: eventType.currency,
+    seatsPerSlot: eventType.seatsPerSlot,
+    isActive: eventType.isActive,
+  };
+};
+
+/**
+ * The v2 booking object: the v1 fields plus what receivers otherwise had to fetch separately.
+ * `metadata` carries the same event-specific extras a v1 payload would.
+ */
+export const buildWebhookBookingSnapshot = (input: {
+  booking: WebhookBookingSource;
+  eventType: WebhookEventTypeSource;
+  bookingMetadata: BookingMetadata;
+  rescheduledToBookingId: string | null;
+  metadata?: Record<string, unknown>;
+}): WebhookBookingSnapshot => {
+  const { booking, eventType, bookingMetadata } = input;
+  const team = bookingMetadata.team;
+  const wasCanceled = booking.canceledAt !== null || booking.cancellationReason !== null;
+
+  return {
+    id: booking.id,
+    status: booking.status,
+    startsAt: booking.startsAt.toISOString(),
+    endsAt: booking.endsAt.toISOString(),
+    timezone: bookingMetadata.timezone ?? null,
+    organizerId: booking.organizerId,
+    invitee: { name: booking.inviteeName, email: booking.inviteeEmail },
+    eventType: {
+      id: eventType.id,
+      slug: eventType.slug,
+      name: eventType.name,
+      durationMinutes: eventType.durationMinutes,
+    },
+    location: { type: toLocationType(eventType.locationType), value: eventType.locationValue },
+    answers: bookingMetadata.answers,
+    team: team
+      ? {
+          teamId: team.teamId,
+          teamEventTypeId: team.teamEventTypeId,
+          mode: team.mode,
+          assignmentUserIds: team.assignmentUserIds,
+        }
+      : null,
+    cancellation: wasCanceled
+      ? {
+          canceledAt: booking.canceledAt?.toISOString() ?? null,
+          canceledBy: booking.canceledBy,
+          reason: booking.cancellationReason,
+        }
+      : null,
+    rescheduledFromBookingId: booking.rescheduledFromBookingId,
+    rescheduledToBookingId: input.rescheduledToBookingId,
+    noShowAt: booking.noShowAt?.toISOString() ?? null,
+    metadata: input.metadata ?? {},
+  };
+};
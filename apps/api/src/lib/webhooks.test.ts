@@ -2,8 +2,12 @@ import { createHmac } from 'node:crypto';
 
 import { describe, expect, it, vi } from 'vitest';
 
+import { WEBHOOK_SIGNATURE_HEADER, verifyWebhookSignature } from '@opencalendly/shared';
+
 import {
   buildWebhookEvent,
+  buildWebhookPingEvent,
+  buildWebhookRequestHeaders,
   buildWebhookSignatureHeader,
   computeNextWebhookAttemptAt,
   computeWebhookRetryDelaySeconds,
@@ -47,6 +51,64 @@ describe('webhook helpers', () => {
     );
   });
 
+  it('signs request headers that the shared verifier accepts', async () => {
+    const event = buildWebhookPingEvent({
+      webhookId: '4f1c4cc1-5d6f-4e0b-9f3a-8fb4d1c8a001',
+      id: '9b2f3c1d-4e5f-4a6b-8c7d-0e1f2a3b4c5d',
+      createdAt: '2026-02-26T07:45:00.000Z',
+    });
+    const serializedPayload = JSON.stringify(event);
+    const timestampSeconds = 1_772_094_000;
+    const headers = buildWebhookRequestHeaders({
+      secret: 'whsec_test_secret',
+      serializedPayload,
+      timestampSeconds,
+      deliveryId: event.id,
+      eventType: event.type,
+      eventId: event.id,
+    });
+
+    expect(headers['X-OpenCalendly-Event']).toBe('ping');
+    await expect(
+      verifyWebhookSignature({
+        payload: serializedPayload,
+        header: headers[WEBHOOK_SIGNATURE_HEADER],
+        secret: 'whsec_test_secret',
+        now: new Date(timestampSeconds * 1000),
+      }),
+    ).resolves.toEqual({ ok: true, timestamp: timestampSeconds });
+  });
+
+  it('signs with both secrets during a rotation so either one verifies', async () => {
+    const serializedPayload = '{"id":"evt_1","type":"booking.created"}';
+    const timestampSeconds = 1_772_094_000;
+    const headers = buildWebhookRequestHeaders({
+      secret: 'whsec_new_secret',
+      previousSecret: 'whsec_old_secret',
+      serializedPayload,
+      timestampSeconds,
+      deliveryId: 'delivery_1',
+      eventType: 'booking.created',
+      eventId: 'evt_1',
+    });
+    const header = headers[WEBHOOK_SIGNATURE_HEADER];
+
+    expect(header?.match(/v1=/g)).toHaveLength(2);
+    for (const secret of ['whsec_new_secret', 'whsec_old_secret']) {
+      await expect(
+        verifyWebhookSignature({ payload: serializedPayload, header, secret, now: new Date(timestampSeconds * 1000) }),
+      ).resolves.toMatchObject({ ok: true });
+    }
+    await expect(
+      verifyWebhookSignature({
+        payload: serializedPayload,
+        header,
+        secret: 'whsec_other_secret',
+        now: new Date(timestampSeconds * 1000),
+      }),
+    ).resolves.toEqual({ ok: false, reason: 'signature_mismatch' });
+  });
+
   it('computes exponential retry schedule with cap', () => {
     expect(computeWebhookRetryDelaySeconds(1)).toBe(30);
     expect(computeWebhookRetryDelaySeconds(2)).toBe(60);
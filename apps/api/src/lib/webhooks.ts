@@ -1,14 +1,21 @@
 import { createHmac, randomUUID } from 'node:crypto';
 
 import {
+  WEBHOOK_SIGNATURE_HEADER,
   isSafeWebhookTargetUrl,
   webhookEventSchema,
   webhookEventTypeSchema,
+  webhookEventV2Schema,
+  type WebhookApiVersion,
+  type WebhookBookingEventType,
   type WebhookEvent,
   type WebhookEventType,
+  type WebhookEventV2,
 } from '@opencalendly/shared';
 
 export const WEBHOOK_DEFAULT_MAX_ATTEMPTS = 6;
+// Consecutive deliveries that must exhaust their retries before a subscription is switched off.
+export const WEBHOOK_AUTO_DISABLE_FAILURE_THRESHOLD = 5;
 export const WEBHOOK_RETRY_BASE_SECONDS = 30;
 export const WEBHOOK_RETRY_MAX_SECONDS = 60 * 60;
 const DNS_OVER_HTTPS_URL = 'https://cloudflare-dns.com/dns-query';
@@ -23,7 +30,7 @@ type DnsJsonResponse = {
 };
 
 export type BuildWebhookEventInput = {
-  type: WebhookEventType;
+  type: WebhookBookingEventType;
   payload: {
     bookingId: string;
     eventTypeId: string;
@@ -55,6 +62,10 @@ export const parseWebhookEventTypes = (value: unknown): WebhookEventType[] => {
   return normalizeWebhookEvents(parsed);
 };
 
+export const parseWebhookApiVersion = (value: unknown): WebhookApiVersion => {
+  return value === 'v2' ? 'v2' : 'v1';
+};
+
 export const buildWebhookEvent = (input: BuildWebhookEventInput): WebhookEvent => {
   return webhookEventSchema.parse({
     id: input.id ?? randomUUID(),
@@ -64,6 +75,21 @@ export const buildWebhookEvent = (input: BuildWebhookEventInput): WebhookEvent =
   });
 };
 
+export const buildWebhookEventV2 = (input: {
+  type: WebhookEventV2['type'];
+  payload: WebhookEventV2['payload'];
+  id?: string;
+  createdAt?: string;
+}): WebhookEventV2 => {
+  return webhookEventV2Schema.parse({
+    id: input.id ?? randomUUID(),
+    apiVersion: 'v2',
+    type: input.type,
+    createdAt: input.createdAt ?? new Date().toISOString(),
+    payload: input.payload,
+  });
+};
+
 export const createWebhookSignature = (
   secret: string,
   serializedPayload: string,
@@ -72,12 +98,54 @@ export const createWebhookSignature = (
   return createHmac('sha256', secret).update(`${timestampSeconds}.${serializedPayload}`).digest('hex');
 };
 
+// Extra secrets add more `v1=` entries after the primary one, e.g. the old secret during a rotation.
 export const buildWebhookSignatureHeader = (
   secret: string,
   serializedPayload: string,
   timestampSeconds: number,
+  additionalSecrets: string[] = [],
 ): string => {
-  return `t=${timestampSeconds},v1=${createWebhookSignature(secret, serializedPayload, timestampSeconds)}`;
+  const signatures = [secret, ...additionalSecrets].map(
+    (signingSecret) => `v1=${createWebhookSignature(signingSecret, serializedPayload, timestampSeconds)}`,
+  );
+  return [`t=${timestampSeconds}`, ...signatures].join(',');
+};
+
+export const buildWebhookRequestHeaders = (input: {
+  secret: string;
+  previousSecret?: string | null;
+  serializedPayload: string;
+  timestampSeconds: number;
+  deliveryId: string;
+  eventType: string;
+  eventId: string;
+}): Record<string, string> => {
+  return {
+    'Content-Type': 'application/json',
+    [WEBHOOK_SIGNATURE_HEADER]: buildWebhookSignatureHeader(
+      input.secret,
+      input.serializedPayload,
+      input.timestampSeconds,
+      input.previousSecret ? [input.previousSecret] : [],
+    ),
+    'X-OpenCalendly-Signature-Timestamp': String(input.timestampSeconds),
+    'X-OpenCalendly-Delivery-Id': input.deliveryId,
+    'X-OpenCalendly-Event': input.eventType,
+    'X-OpenCalendly-Event-Id': input.eventId,
+  };
+};
+
+// `ping` is never stored or subscribed to; it only exists for the test endpoint.
+export const buildWebhookPingEvent = (input: { webhookId: string; id?: string; createdAt?: string }) => {
+  return {
+    id: input.id ?? randomUUID(),
+    type: 'ping' as const,
+    createdAt: input.createdAt ?? new Date().toISOString(),
+    payload: {
+      webhookId: input.webhookId,
+      message: 'Test ping from OpenCalendly. No booking was created.',
+    },
+  };
 };
 
 export const computeWebhookRetryDelaySeconds = (attemptNumber: number): number => {
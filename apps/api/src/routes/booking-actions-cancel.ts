@@ -15,18 +15,26 @@ import {
   LaunchDemoAuthError,
 } from '../server/types';
 import { DemoQuotaAdmissionError, DemoQuotaCreditsError } from '../server/types';
-import { hashActionToken, lockActionToken, lockBooking } from '../server/booking-action-links';
+import {
+  buildWaitlistClaimUrl,
+  hashActionToken,
+  lockActionToken,
+  lockBooking,
+} from '../server/booking-action-links';
 import { emitAuditEvent, sanitizeErrorForAudit } from '../server/audit';
 import {
   queueBookingCancellationSideEffects,
   queuedEmailDelivery,
   sendBookingCancellationEmailSideEffects,
+  sendWaitlistOfferEmailSideEffects,
 } from '../server/booking-side-effects';
 import { resolveAuthenticatedUser } from '../server/auth-session';
+import { refundCanceledBookingPayment } from '../server/booking-payments';
 import { cancelPendingScheduledNotificationsForBooking } from '../server/notifications';
 import { jsonDemoQuotaError, consumeDemoFeatureCredits, isLaunchDemoBookingContext } from '../server/demo-quota';
 import { jsonError, normalizeTimezone, queueBackgroundTask } from '../server/core';
 import { withConnectedDatabase, withDatabase } from '../server/database';
+import { resolveAppBaseUrl } from '../server/env';
 import type { ApiApp, DemoQuotaDb } from '../server/types';
 import { evaluateBookingActionToken, parseBookingMetadata } from '../lib/booking-actions';
 
@@ -176,6 +184,14 @@ export const registerBookingActionCancelRoutes = (app: ApiApp): void => {
           };
         });
 
+        const refund = result.alreadyProcessed
+          ? null
+          : await refundCanceledBookingPayment(db, context.env, {
+              bookingId: result.booking.id,
+              canceledBy: 'invitee',
+              startsAt: result.booking.startsAt,
+              now,
+            });
         const timezone =
           parseBookingMetadata(result.booking.metadata, normalizeTimezone).timezone ??
           normalizeTimezone(result.organizer.timezone);
@@ -208,11 +224,36 @@ export const registerBookingActionCancelRoutes = (app: ApiApp): void => {
             }),
           );
         }
+        const waitlistOffer = sideEffects.waitlistOffer;
+        if (waitlistOffer) {
+          queueBackgroundTask(
+            context,
+            withConnectedDatabase(context, async (backgroundDb) => {
+              await sendWaitlistOfferEmailSideEffects(context.env, backgroundDb, {
+                offer: waitlistOffer,
+                claimLink: buildWaitlistClaimUrl(
+                  resolveAppBaseUrl(context.env, context.req.raw),
+                  waitlistOffer.claimToken,
+                ),
+              });
+            }).catch((error) => {
+              emitAuditEvent({
+                event: 'booking_side_effect_failed',
+                level: 'error',
+                route: '/v0/bookings/actions/:token/cancel',
+                bookingId: result.booking.id,
+                actionType: 'cancel',
+                error: sanitizeErrorForAudit(error, 'waitlist_offer_email_failed'),
+              });
+            }),
+          );
+        }
 
         return context.json({
           ok: true,
           booking: { id: result.booking.id, status: result.booking.status },
           ...(result.alreadyProcessed ? {} : { email: queuedEmailDelivery }),
+          ...(refund ? { refund } : {}),
           notifications: { canceled: result.canceledNotifications },
           webhooks: { queued: sideEffects.queuedWebhookDeliveries },
           calendarWriteback: sideEffects.calendarWriteback,
@@ -4,6 +4,11 @@ import { createOneOnOneBooking } from '../server/one-on-one-booking';
 import { resolveAuthenticatedUser } from '../server/auth-session';
 import { emitAuditEvent, sanitizeErrorForAudit } from '../server/audit';
 import { actionTokenMap, buildActionUrls } from '../server/booking-action-links';
+import { startBookingCheckout } from '../server/booking-payments';
+import {
+  queueBookingRequestWebhook,
+  sendBookingRequestEmailSideEffects,
+} from '../server/booking-request-side-effects';
 import {
   queueBookingCreatedSideEffects,
   sendBookingCreatedEmailSideEffects,
@@ -34,6 +39,7 @@ import {
   BookingValidationError,
   normalizeBookingAnswersForIdempotency,
 } from '../lib/booking';
+import { PaymentProviderError } from '../lib/payments';
 
 export const registerBookingCreateRoutes = (app: ApiApp): void => {
   app.post('/v0/bookings', async (context) => {
@@ -117,6 +123,63 @@ export const registerBookingCreateRoutes = (app: ApiApp): void => {
           ...(payload.answers ? { answers: payload.answers } : {}),
         });
 
+        const bookingSummary = {
+          id: result.booking.id,
+          eventTypeId: result.booking.eventTypeId,
+          organizerId: result.booking.organizerId,
+          inviteeName: result.booking.inviteeName,
+          inviteeEmail: result.booking.inviteeEmail,
+          startsAt: result.booking.startsAt.toISOString(),
+          endsAt: result.booking.endsAt.toISOString(),
+        };
+
+        if (result.paymentHold) {
+          // Paid bookings stop at the hold; side effects and action links wait for the payment webhook.
+          const payment = await startBookingCheckout(db, context.env, {
+            booking: result.booking,
+            eventTypeName: result.eventType.name,
+            hold: result.paymentHold,
+            appBaseUrl,
+          });
+          const responseBody = { ok: true, booking: { ...bookingSummary, status: 'pending_payment' }, payment };
+          await completeIdempotencyRequest(db, {
+            scope: 'booking_create',
+            keyHash: idempotencyState.keyHash,
+            statusCode: 200,
+            responseBody,
+          });
+          return context.json(responseBody);
+        }
+
+        if (result.approvalPending) {
+          // Requests hold the slot without confirming it; action links and reminders wait for approval.
+          const queuedWebhookDeliveries = await queueBookingRequestWebhook(db, {
+            type: 'booking.requested',
+            booking: result.booking,
+            metadata: { answers: result.answers },
+          });
+          const email = await sendBookingRequestEmailSideEffects(context.env, db, {
+            kind: 'received',
+            booking: result.booking,
+            eventName: result.eventType.name,
+            organizerDisplayName: result.eventType.organizerDisplayName,
+            timezone,
+          });
+          const responseBody = {
+            ok: true,
+            booking: { ...bookingSummary, status: 'pending_approval' },
+            email,
+            webhooks: { queued: queuedWebhookDeliveries },
+          };
+          await completeIdempotencyRequest(db, {
+            scope: 'booking_create',
+            keyHash: idempotencyState.keyHash,
+            statusCode: 200,
+            responseBody,
+          });
+          return context.json(responseBody);
+        }
+
         const tokens = actionTokenMap(result.actionTokens);
         const actionUrls = buildActionUrls(context.req.raw, appBaseUrl, {
           cancelToken: tokens.cancelToken,
@@ -128,26 +191,20 @@ export const registerBookingCreateRoutes = (app: ApiApp): void => {
           organizerDisplayName: result.eventType.organizerDisplayName,
           timezone,
           actionUrls,
+          webhookMetadata: { answers: result.answers },
         });
         const email = await sendBookingCreatedEmailSideEffects(context.env, db, {
           booking: result.booking,
           eventType: result.eventType,
           organizerDisplayName: result.eventType.organizerDisplayName,
+          organizerEmail: result.eventType.organizerEmail,
           timezone,
           actionUrls,
         });
 
         const responseBody: Record<string, unknown> = {
           ok: true,
-          booking: {
-            id: result.booking.id,
-            eventTypeId: result.booking.eventTypeId,
-            organizerId: result.booking.organizerId,
-            inviteeName: result.booking.inviteeName,
-            inviteeEmail: result.booking.inviteeEmail,
-            startsAt: result.booking.startsAt.toISOString(),
-            endsAt: result.booking.endsAt.toISOString(),
-          },
+          booking: bookingSummary,
           actions: {
             cancel: {
               token: tokens.cancelToken,
@@ -252,6 +309,24 @@ export const registerBookingCreateRoutes = (app: ApiApp): void => {
           return context.json(responseBody, 409);
         }
 
+        if (error instanceof PaymentProviderError) {
+          await releaseIdempotencyRequest(db, {
+            scope: 'booking_create',
+            keyHash: idempotencyState.keyHash,
+          });
+          emitAuditEvent({
+            event: 'booking_commit_completed',
+            level: 'error',
+            route: '/v0/bookings',
+            statusCode: 502,
+            durationMs: Date.now() - startedAt,
+            organizerUsername: payload.username,
+            eventSlug: payload.eventSlug,
+            error: sanitizeErrorForAudit(error, 'payment_checkout_failed'),
+          });
+          return jsonError(context, 502, 'Unable to start checkout. Try again.');
+        }
+
         if (error instanceof DemoQuotaAdmissionError || error instanceof DemoQuotaCreditsError) {
           emitAuditEvent({
             event: 'booking_commit_completed',
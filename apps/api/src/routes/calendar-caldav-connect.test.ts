@@ -0,0 +1,116 @@
+import { Hono } from 'hono';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Bindings } from '../server/types';
+
+const {
+  assertCaldavTargetAllowedMock,
+  assertDemoFeatureAvailableMock,
+  resolveAuthenticatedUserMock,
+  verifyCaldavCalendarMock,
+} = vi.hoisted(() => ({
+  assertCaldavTargetAllowedMock: vi.fn(),
+  assertDemoFeatureAvailableMock: vi.fn(),
+  resolveAuthenticatedUserMock: vi.fn(),
+  verifyCaldavCalendarMock: vi.fn(),
+}));
+
+vi.mock('../server/database', () => ({
+  withDatabase: async (_context: unknown, handler: (db: unknown) => Promise<Response>) => handler({}),
+}));
+
+vi.mock('../server/auth-session', () => ({
+  resolveAuthenticatedUser: resolveAuthenticatedUserMock,
+}));
+
+vi.mock('../server/demo-quota', () => ({
+  assertDemoFeatureAvailable: assertDemoFeatureAvailableMock,
+  consumeDemoFeatureCredits: vi.fn(),
+  jsonDemoQuotaError: vi.fn(),
+}));
+
+vi.mock('../lib/caldav-calendar', () => ({
+  assertCaldavTargetAllowed: assertCaldavTargetAllowedMock,
+  verifyCaldavCalendar: verifyCaldavCalendarMock,
+}));
+
+import { CaldavRequestError } from '../lib/caldav-shared';
+import { registerCaldavCalendarConnectRoutes } from './calendar-caldav-connect';
+
+const createBindings = (overrides: Partial<Bindings> = {}): Bindings =>
+  ({
+    APP_BASE_URL: 'https://opencalendly.com',
+    SESSION_SECRET: '0123456789abcdef0123456789abcdef',
+    ...overrides,
+  }) as Bindings;
+
+const connect = async (calendarUrl: string, bindings: Bindings = createBindings()) => {
+  const app = new Hono();
+  registerCaldavCalendarConnectRoutes(app as never);
+  return app.request(
+    'http://localhost/v0/calendar/caldav/connect',
+    {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ calendarUrl, username: 'organizer', password: 'app-password' }),
+    },
+    bindings,
+  );
+};
+
+describe('POST /v0/calendar/caldav/connect', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resolveAuthenticatedUserMock.mockResolvedValue({ id: 'user_123', email: 'owner@example.com' });
+    assertCaldavTargetAllowedMock.mockResolvedValue(undefined);
+    assertDemoFeatureAvailableMock.mockResolvedValue(undefined);
+  });
+
+  it('rejects a local http calendar unless dev bootstrap is enabled', async () => {
+    const response = await connect('http://localhost:5232/organizer/work/');
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toMatchObject({
+      error: 'CalDAV calendar URL must use https.',
+    });
+    expect(verifyCaldavCalendarMock).not.toHaveBeenCalled();
+  });
+
+  it('checks the target before verifying and passes the dev bootstrap option through', async () => {
+    verifyCaldavCalendarMock.mockRejectedValue(new Error('stop after verify'));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    await connect(
+      'http://localhost:5232/organizer/work/',
+      createBindings({ ENABLE_DEV_AUTH_BOOTSTRAP: 'true' }),
+    );
+
+    expect(assertCaldavTargetAllowedMock).toHaveBeenCalledWith(
+      'http://localhost:5232/organizer/work/',
+      { allowLocalHttp: true },
+    );
+    expect(verifyCaldavCalendarMock).toHaveBeenCalledWith(
+      expect.objectContaining({ allowLocalHttp: true, calendarUrl: 'http://localhost:5232/organizer/work/' }),
+    );
+  });
+
+  it('returns a generic error and only logs the remote response body', async () => {
+    verifyCaldavCalendarMock.mockRejectedValue(
+      new CaldavRequestError('CalDAV calendar lookup failed with HTTP 500.', '<html>internal admin panel</html>'),
+    );
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const response = await connect('https://dav.example.com/cal/work/');
+    const body = await response.text();
+
+    expect(response.status).toBe(400);
+    expect(body).toContain('Unable to verify the CalDAV calendar.');
+    expect(body).not.toContain('internal admin panel');
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('caldav_calendar_verify_failed'),
+      expect.objectContaining({ detail: '<html>internal admin panel</html>' }),
+    );
+  });
+});
@@ -0,0 +1,220 @@
+import { and, eq } from 'drizzle-orm';
+
+import { calendarConnections } from '@opencalendly/db';
+import { caldavConnectSchema } from '@opencalendly/shared';
+
+import { hashToken } from '../lib/auth';
+import { assertCaldavTargetAllowed, verifyCaldavCalendar } from '../lib/caldav-calendar';
+import { normalizeCaldavCalendarUrl, serializeCaldavCredentials } from '../lib/caldav-shared';
+import { encryptSecret } from '../lib/calendar-crypto';
+import { resolveAuthenticatedUser } from '../server/auth-session';
+import { emitAuditEvent, sanitizeErrorForAudit } from '../server/audit';
+import { jsonError, logInternalError } from '../server/core';
+import { withDatabase } from '../server/database';
+import { assertDemoFeatureAvailable, consumeDemoFeatureCredits, jsonDemoQuotaError } from '../server/demo-quota';
+import {
+  CALDAV_CALENDAR_PROVIDER,
+  resolveCaldavTargetOptions,
+  resolveCalendarEncryptionSecret,
+  toCalendarConnectionStatus,
+} from '../server/env';
+import { buildDemoFeatureSourceKey } from '../server/idempotency';
+import type { ApiApp, DemoQuotaDb } from '../server/types';
+import { DemoQuotaAdmissionError, DemoQuotaCreditsError } from '../server/types';
+
+const CALDAV_CONNECT_ROUTE = '/v0/calendar/caldav/connect';
+// App passwords never expire on their own; the column is required for OAuth providers only.
+const CALDAV_CREDENTIAL_EXPIRES_AT = new Date('9999-12-31T00:00:00.000Z');
+const CALDAV_VERIFY_FAILED_MESSAGE =
+  'Unable to verify the CalDAV calendar. Check the calendar URL, username and app password.';
+
+export const registerCaldavCalendarConnectRoutes = (app: ApiApp): void => {
+  app.post(CALDAV_CONNECT_ROUTE, async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const body = await context.req.json().catch(() => null);
+      const parsed = caldavConnectSchema.safeParse(body);
+      if (!parsed.success) {
+        return jsonError(context, 400, parsed.error.issues[0]?.message ?? 'Invalid request body.');
+      }
+
+      const targetOptions = resolveCaldavTargetOptions(context.env);
+      let calendarUrl: string;
+      try {
+        calendarUrl = normalizeCaldavCalendarUrl(parsed.data.calendarUrl, targetOptions);
+        await assertCaldavTargetAllowed(calendarUrl, targetOptions);
+      } catch (error) {
+        return jsonError(context, 400, error instanceof Error ? error.message : 'Invalid CalDAV calendar URL.');
+      }
+
+      const encryptionSecret = resolveCalendarEncryptionSecret(context.env);
+      if (!encryptionSecret) {
+        return jsonError(context, 500, 'Calendar encryption is not configured.');
+      }
+
+      try {
+        await assertDemoFeatureAvailable(db, context.env, authedUser, 'calendar_connect');
+      } catch (error) {
+        if (error instanceof DemoQuotaAdmissionError || error instanceof DemoQuotaCreditsError) {
+          return jsonDemoQuotaError(context, db, context.env, authedUser, error);
+        }
+        throw error;
+      }
+
+      const credentials = { username: parsed.data.username, password: parsed.data.password };
+      try {
+        await verifyCaldavCalendar({ ...targetOptions, calendarUrl, credentials });
+      } catch (error) {
+        logInternalError('caldav_calendar_verify_failed', error);
+        emitAuditEvent({
+          event: 'calendar_connect_failed',
+          level: 'warn',
+          actorUserId: authedUser.id,
+          provider: CALDAV_CALENDAR_PROVIDER,
+          route: CALDAV_CONNECT_ROUTE,
+          statusCode: 400,
+          connected: false,
+          error: sanitizeErrorForAudit(error, 'caldav_verify_failed'),
+        });
+        return jsonError(context, 400, CALDAV_VERIFY_FAILED_MESSAGE);
+      }
+
+      // One CalDAV calendar and login can only belong to one OpenCalendly account, mirroring the
+      // per-provider account uniqueness of the OAuth connections.
+      const externalAccountId = hashToken(`${calendarUrl}|${credentials.username.toLowerCase()}`);
+      const [existingConnection] = await db
+        .select({
+          id: calendarConnections.id,
+          userId: calendarConnections.userId,
+          useForConflictChecks: calendarConnections.useForConflictChecks,
+          useForWriteback: calendarConnections.useForWriteback,
+        })
+        .from(calendarConnections)
+        .where(
+          and(
+            eq(calendarConnections.provider, CALDAV_CALENDAR_PROVIDER),
+            eq(calendarConnections.externalAccountId, externalAccountId),
+          ),
+        )
+        .limit(1);
+
+      if (existingConnection && existingConnection.userId !== authedUser.id) {
+        return jsonError(
+          context,
+          409,
+          'This CalDAV calendar is already connected to another OpenCalendly account.',
+        );
+      }
+
+      try {
+        const now = new Date();
+        const credentialsEncrypted = encryptSecret(serializeCaldavCredentials(credentials), encryptionSecret);
+        await db.transaction(async (transaction) => {
+          const [existingWritebackConnection] = await transaction
+            .select({ id: calendarConnections.id })
+            .from(calendarConnections)
+            .where(
+              and(
+                eq(calendarConnections.userId, authedUser.id),
+                eq(calendarConnections.useForWriteback, true),
+              ),
+            )
+            .limit(1);
+
+          const values = {
+            externalEmail: credentials.username,
+            // CalDAV has no refresh flow, so both token columns hold the encrypted login.
+            accessTokenEncrypted: credentialsEncrypted,
+            refreshTokenEncrypted: credentialsEncrypted,
+            accessTokenExpiresAt: CALDAV_CREDENTIAL_EXPIRES_AT,
+            caldavCalendarUrl: calendarUrl,
+            useForConflictChecks: existingConnection?.useForConflictChecks ?? true,
+            useForWriteback: existingConnection?.useForWriteback ?? !existingWritebackConnection,
+            lastError: null,
+            updatedAt: now,
+          };
+          await transaction
+            .insert(calendarConnections)
+            .values({
+              userId: authedUser.id,
+              provider: CALDAV_CALENDAR_PROVIDER,
+              externalAccountId,
+              ...values,
+            })
+            .onConflictDoUpdate({
+              target: [calendarConnections.provider, calendarConnections.externalAccountId],
+              set: values,
+            });
+
+          await consumeDemoFeatureCredits(transaction as DemoQuotaDb, context.env, authedUser, {
+            featureKey: 'calendar_connect',
+            sourceKey: buildDemoFeatureSourceKey('calendar_connect', {
+              provider: CALDAV_CALENDAR_PROVIDER,
+              externalAccountId,
+            }),
+            metadata: { provider: CALDAV_CALENDAR_PROVIDER },
+            now,
+          });
+        });
+
+        const [connection] = await db
+          .select({
+            id: calendarConnections.id,
+            externalEmail: calendarConnections.externalEmail,
+            useForConflictChecks: calendarConnections.useForConflictChecks,
+            useForWriteback: calendarConnections.useForWriteback,
+            lastSyncedAt: calendarConnections.lastSyncedAt,
+            nextSyncAt: calendarConnections.nextSyncAt,
+            lastError: calendarConnections.lastError,
+          })
+          .from(calendarConnections)
+          .where(
+            and(
+              eq(calendarConnections.provider, CALDAV_CALENDAR_PROVIDER),
+              eq(calendarConnections.externalAccountId, externalAccountId),
+            ),
+          )
+          .limit(1);
+
+        if (!connection) {
+          return jsonError(context, 500, 'Unable to persist calendar connection.');
+        }
+
+        emitAuditEvent({
+          event: 'calendar_connect_completed',
+          level: 'info',
+          actorUserId: authedUser.id,
+          provider: CALDAV_CALENDAR_PROVIDER,
+          connectionId: connection.id,
+          route: CALDAV_CONNECT_ROUTE,
+          statusCode: 200,
+          connected: true,
+        });
+
+        return context.json({
+          ok: true,
+          connection: toCalendarConnectionStatus({
+            id: connection.id,
+            provider: CALDAV_CALENDAR_PROVIDER,
+            externalEmail: connection.externalEmail,
+            useForConflictChecks: connection.useForConflictChecks,
+            useForWriteback: connection.useForWriteback,
+            lastSyncedAt: connection.lastSyncedAt,
+            nextSyncAt: connection.nextSyncAt,
+            lastError: connection.lastError,
+          }),
+        });
+      } catch (error) {
+        if (error instanceof DemoQuotaAdmissionError || error instanceof DemoQuotaCreditsError) {
+          return jsonDemoQuotaError(context, db, context.env, authedUser, error);
+        }
+        logInternalError('caldav_calendar_connect_failed', error);
+        return jsonError(context, 500, 'Unable to persist calendar connection.');
+      }
+    });
+  });
+};
@@ -1,4 +1,4 @@
-import { and, eq, gt, lt, sql } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 
 import { bookingExternalEvents, calendarBusyWindows, calendarConnections } from '@opencalendly/db';
 import {
@@ -6,21 +6,12 @@ import {
   calendarSyncRequestSchema,
 } from '@opencalendly/shared';
 
-import { encryptSecret } from '../lib/calendar-crypto';
-import {
-  resolveGoogleAccessToken,
-  resolveGoogleSyncRange,
-  resolveMicrosoftAccessToken,
-  resolveMicrosoftSyncRange,
-  syncGoogleBusyWindows,
-  syncMicrosoftBusyWindows,
-} from '../lib/calendar-sync';
 import { resolveAuthenticatedUser } from '../server/auth-session';
 import { emitAuditEvent } from '../server/audit';
-import { jsonError, logInternalError } from '../server/core';
+import { syncCalendarConnection } from '../server/calendar-connection-sync';
+import { jsonError } from '../server/core';
 import { withDatabase } from '../server/database';
 import {
-  CALENDAR_SYNC_NEXT_MINUTES,
   GOOGLE_CALENDAR_PROVIDER,
   MICROSOFT_CALENDAR_PROVIDER,
   resolveCalendarEncryptionSecret,
@@ -31,15 +22,6 @@ import {
 } from '../server/env';
 import type { ApiApp } from '../server/types';
 
-const dedupeBusyWindows = (busyWindows: Array<{ startsAt: Date; endsAt: Date }>) => {
-  return Array.from(
-    busyWindows.reduce((map, window) => {
-      map.set(`${window.startsAt.toISOString()}|${window.endsAt.toISOString()}`, window);
-      return map;
-    }, new Map<string, { startsAt: Date; endsAt: Date }>()).values(),
-  );
-};
-
 export const registerCalendarConnectionRoutes = (app: ApiApp): void => {
   app.post('/v0/calendar/connections/:connectionId/disconnect', async (context) => {
     return withDatabase(context, async (db) => {
@@ -231,8 +213,7 @@ export const registerCalendarConnectionRoutes = (app: ApiApp): void => {
           accessTokenEncrypted: calendarConnections.accessTokenEncrypted,
           refreshTokenEncrypted: calendarConnections.refreshTokenEncrypted,
           accessTokenExpiresAt: calendarConnections.accessTokenExpiresAt,
-          useForConflictChecks: calendarConnections.useForConflictChecks,
-          useForWriteback: calendarConnections.useForWriteback,
+          caldavCalendarUrl: calendarConnections.caldavCalendarUrl,
         })
         .from(calendarConnections)
         .where(
@@ -265,127 +246,50 @@ export const registerCalendarConnectionRoutes = (app: ApiApp): void => {
       }
 
       const now = new Date();
-      try {
-        const range =
-          provider === GOOGLE_CALENDAR_PROVIDER
-            ? resolveGoogleSyncRange(now, parsed.data.start, parsed.data.end)
-            : resolveMicrosoftSyncRange(now, parsed.data.start, parsed.data.end);
-        const nextSyncAt = new Date(now.getTime() + CALENDAR_SYNC_NEXT_MINUTES * 60_000);
-
-        const token =
-          provider === GOOGLE_CALENDAR_PROVIDER
-            ? await resolveGoogleAccessToken({
-                connection,
-                encryptionSecret,
-                clientId: googleConfig!.clientId,
-                clientSecret: googleConfig!.clientSecret,
-                now,
-              })
-            : await resolveMicrosoftAccessToken({
-                connection,
-                encryptionSecret,
-                clientId: microsoftConfig!.clientId,
-                clientSecret: microsoftConfig!.clientSecret,
-                now,
-              });
-
-        const busyWindows =
-          provider === GOOGLE_CALENDAR_PROVIDER
-            ? await syncGoogleBusyWindows({
-                accessToken: token.accessToken,
-                startIso: range.startIso,
-                endIso: range.endIso,
-              })
-            : await syncMicrosoftBusyWindows({
-                accessToken: token.accessToken,
-                scheduleSmtp: connection.externalEmail ?? authedUser.email,
-                startIso: range.startIso,
-                endIso: range.endIso,
-              });
-        const dedupedBusyWindows = dedupeBusyWindows(busyWindows);
-
-        await db.transaction(async (transaction) => {
-          await transaction.execute(sql`select id from users where id = ${authedUser.id} for update`);
-          await transaction
-            .delete(calendarBusyWindows)
-            .where(
-              and(
-                eq(calendarBusyWindows.connectionId, connection.id),
-                lt(calendarBusyWindows.startsAt, new Date(range.endIso)),
-                gt(calendarBusyWindows.endsAt, new Date(range.startIso)),
-              ),
-            );
+      const syncResult = await syncCalendarConnection(db, context.env, {
+        connection: { ...connection, userId: authedUser.id, provider },
+        encryptionSecret,
+        scheduleSmtpFallback: authedUser.email,
+        ...(parsed.data.start ? { start: parsed.data.start } : {}),
+        ...(parsed.data.end ? { end: parsed.data.end } : {}),
+        now,
+      });
+      if (!syncResult.ok) {
+        return jsonError(context, 502, syncResult.error);
+      }
 
-          if (dedupedBusyWindows.length > 0) {
-            await transaction.insert(calendarBusyWindows).values(
-              dedupedBusyWindows.map((window) => ({
-                connectionId: connection.id,
-                userId: authedUser.id,
-                provider,
-                startsAt: window.startsAt,
-                endsAt: window.endsAt,
-              })),
-            );
-          }
+      const [updatedConnection] = await db
+        .select({
+          id: calendarConnections.id,
+          provider: calendarConnections.provider,
+          externalEmail: calendarConnections.externalEmail,
+          useForConflictChecks: calendarConnections.useForConflictChecks,
+          useForWriteback: calendarConnections.useForWriteback,
+          lastSyncedAt: calendarConnections.lastSyncedAt,
+          nextSyncAt: calendarConnections.nextSyncAt,
+          lastError: calendarConnections.lastError,
+        })
+        .from(calendarConnections)
+        .where(eq(calendarConnections.id, connection.id))
+        .limit(1);
 
-          await transaction
-            .update(calendarConnections)
-            .set({
-              accessTokenEncrypted: encryptSecret(token.accessToken, encryptionSecret),
-              refreshTokenEncrypted: encryptSecret(token.refreshToken, encryptionSecret),
-              accessTokenExpiresAt: token.accessTokenExpiresAt,
-              lastSyncedAt: now,
-              nextSyncAt,
-              lastError: null,
-              updatedAt: now,
+      return context.json({
+        ok: true,
+        provider,
+        busyWindowCount: syncResult.busyWindowCount,
+        connection: updatedConnection
+          ? toCalendarConnectionStatus({
+              id: updatedConnection.id,
+              provider,
+              externalEmail: updatedConnection.externalEmail,
+              useForConflictChecks: updatedConnection.useForConflictChecks,
+              useForWriteback: updatedConnection.useForWriteback,
+              lastSyncedAt: updatedConnection.lastSyncedAt,
+              nextSyncAt: updatedConnection.nextSyncAt,
+              lastError: updatedConnection.lastError,
             })
-            .where(eq(calendarConnections.id, connection.id));
-        });
-
-        const [updatedConnection] = await db
-          .select({
-            id: calendarConnections.id,
-            provider: calendarConnections.provider,
-            externalEmail: calendarConnections.externalEmail,
-            useForConflictChecks: calendarConnections.useForConflictChecks,
-            useForWriteback: calendarConnections.useForWriteback,
-            lastSyncedAt: calendarConnections.lastSyncedAt,
-            nextSyncAt: calendarConnections.nextSyncAt,
-            lastError: calendarConnections.lastError,
-          })
-          .from(calendarConnections)
-          .where(eq(calendarConnections.id, connection.id))
-          .limit(1);
-
-        return context.json({
-          ok: true,
-          provider,
-          busyWindowCount: dedupedBusyWindows.length,
-          connection: updatedConnection
-            ? toCalendarConnectionStatus({
-                id: updatedConnection.id,
-                provider,
-                externalEmail: updatedConnection.externalEmail,
-                useForConflictChecks: updatedConnection.useForConflictChecks,
-                useForWriteback: updatedConnection.useForWriteback,
-                lastSyncedAt: updatedConnection.lastSyncedAt,
-                nextSyncAt: updatedConnection.nextSyncAt,
-                lastError: updatedConnection.lastError,
-              })
-            : null,
-        });
-      } catch (error) {
-        logInternalError('calendar_connection_sync_failed', error);
-        await db
-          .update(calendarConnections)
-          .set({
-            lastError: `${provider === GOOGLE_CALENDAR_PROVIDER ? 'Google' : 'Microsoft'} calendar sync failed.`,
-            nextSyncAt: new Date(now.getTime() + CALENDAR_SYNC_NEXT_MINUTES * 60_000),
-            updatedAt: now,
-          })
-          .where(eq(calendarConnections.id, connection.id));
-        return jsonError(context, 502, `${provider === GOOGLE_CALENDAR_PROVIDER ? 'Google' : 'Microsoft'} calendar sync failed.`);
-      }
+          : null,
+      });
     });
   });
 };
@@ -0,0 +1,144 @@
+import { Hono } from 'hono';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { hashToken } from '../lib/auth';
+import type { Bindings } from '../server/types';
+
+const {
+  dbRef,
+  resolveAuthenticatedUserMock,
+  withDatabaseMock,
+  findCalendarFeedOwnerMock,
+  listCalendarFeedBookingsMock,
+} = vi.hoisted(() => ({
+  dbRef: { current: {} as unknown },
+  resolveAuthenticatedUserMock: vi.fn(),
+  withDatabaseMock: vi.fn(async (_context: unknown, handler: (db: unknown) => Promise<Response>) =>
+    handler(dbRef.current),
+  ),
+  findCalendarFeedOwnerMock: vi.fn(),
+  listCalendarFeedBookingsMock: vi.fn(),
+}));
+
+vi.mock('../server/database', () => ({
+  withDatabase: withDatabaseMock,
+}));
+
+vi.mock('../server/auth-session', () => ({
+  resolveAuthenticatedUser: resolveAuthenticatedUserMock,
+}));
+
+vi.mock('../server/calendar-feed', () => ({
+  findCalendarFeedOwner: findCalendarFeedOwnerMock,
+  listCalendarFeedBookings: listCalendarFeedBookingsMock,
+}));
+
+import { registerCalendarFeedRoutes } from './calendar-feeds';
+
+const bindings = {
+  APP_BASE_URL: 'https://opencalendly.com',
+  SESSION_SECRET: '0123456789abcdef0123456789abcdef',
+} as Bindings;
+
+const feedToken = 'a'.repeat(64);
+
+const createApp = () => {
+  const app = new Hono();
+  registerCalendarFeedRoutes(app as never);
+  return app;
+};
+
+describe('calendar feed routes', () => {
+  beforeEach(() => {
+    resolveAuthenticatedUserMock.mockReset();
+    findCalendarFeedOwnerMock.mockReset();
+    listCalendarFeedBookingsMock.mockReset();
+    withDatabaseMock.mockClear();
+  });
+
+  it('serves confirmed bookings as an iCalendar feed and records the access', async () => {
+    const updateSet = vi.fn(() => ({ where: async () => undefined }));
+    dbRef.current = { update: () => ({ set: updateSet }) };
+    findCalendarFeedOwnerMock.mockResolvedValue({
+      userId: 'user_123',
+      displayName: 'Demo Organizer',
+      timezone: 'Asia/Kolkata',
+    });
+    listCalendarFeedBookingsMock.mockResolvedValue([
+      {
+        bookingId: '526c8230-6f9e-4332-81cb-2f6d3e3ef105',
+        eventName: 'Team Intro',
+        startsAt: new Date('2026-03-02T09:00:00.000Z'),
+        endsAt: new Date('2026-03-02T09:30:00.000Z'),
+        inviteeName: 'Pat Lee',
+        inviteeEmail: 'pat@example.com',
+        locationValue: null,
+        teamName: 'Customer Success',
+        inviteUid: 'booking-526c8230-6f9e-4332-81cb-2f6d3e3ef105@opencalendly.com',
+        inviteSequence: 0,
+      },
+    ]);
+
+    const response = await createApp().request(`http://localhost/v0/feeds/${feedToken}.ics`, undefined, bindings);
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('text/calendar; charset=utf-8');
+    expect(findCalendarFeedOwnerMock).toHaveBeenCalledWith(dbRef.current, hashToken(feedToken));
+    expect(listCalendarFeedBookingsMock).toHaveBeenCalledWith(dbRef.current, {
+      userId: 'user_123',
+      now: expect.any(Date),
+      uidDomain: 'opencalendly.com',
+    });
+    expect(body).toContain('METHOD:PUBLISH');
+    expect(body).toContain('UID:booking-526c8230-6f9e-4332-81cb-2f6d3e3ef105@opencalendly.com');
+    expect(body).toContain('SUMMARY:Team Intro with Pat Lee');
+    expect(updateSet).toHaveBeenCalledWith({ lastAccessedAt: expect.any(Date) });
+  });
+
+  it('returns 404 for malformed or revoked tokens', async () => {
+    findCalendarFeedOwnerMock.mockResolvedValue(null);
+    const app = createApp();
+
+    const malformed = await app.request('http://localhost/v0/feeds/not-a-token.ics', undefined, bindings);
+    expect(malformed.status).toBe(404);
+    expect(withDatabaseMock).not.toHaveBeenCalled();
+
+    const revoked = await app.request(`http://localhost/v0/feeds/${feedToken}.ics`, undefined, bindings);
+    expect(revoked.status).toBe(404);
+    expect(listCalendarFeedBookingsMock).not.toHaveBeenCalled();
+  });
+
+  it('issues a feed URL whose token is stored only as a hash', async () => {
+    resolveAuthenticatedUserMock.mockResolvedValue({ id: 'user_123', email: 'owner@example.com' });
+    const values = vi.fn<(row: { tokenHash: string }) => unknown>(() => ({
+      onConflictDoUpdate: () => ({
+        returning: async () => [
+          { createdAt: new Date('2026-03-01T00:00:00.000Z'), updatedAt: new Date('2026-03-01T00:00:00.000Z') },
+        ],
+      }),
+    }));
+    dbRef.current = { insert: () => ({ values }) };
+
+    const response = await createApp().request(
+      'https://api.opencalendly.com/v0/me/calendar-feed',
+      { method: 'POST' },
+      bindings,
+    );
+    const payload = (await response.json()) as { feedUrl: string; feed: { enabled: boolean } };
+
+    expect(response.status).toBe(200);
+    expect(payload.feed.enabled).toBe(true);
+    const match = /^https:\/\/api\.opencalendly\.com\/v0\/feeds\/([a-f0-9]{64})\.ics$/.exec(payload.feedUrl);
+    expect(match).not.toBeNull();
+    expect(values.mock.calls[0]?.[0].tokenHash).toBe(hashToken(match?.[1] ?? ''));
+  });
+
+  it('requires authentication to manage the feed', async () => {
+    resolveAuthenticatedUserMock.mockResolvedValue(null);
+
+    const response = await createApp().request('http://localhost/v0/me/calendar-feed', { method: 'DELETE' }, bindings);
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,143 @@
+import { eq } from 'drizzle-orm';
+
+import { calendarFeedTokens } from '@opencalendly/db';
+
+import { createRawToken, hashToken } from '../lib/auth';
+import { buildCalendarFeedIcs, parseCalendarFeedToken } from '../lib/calendar-feed';
+import { resolveAuthenticatedUser } from '../server/auth-session';
+import { findCalendarFeedOwner, listCalendarFeedBookings } from '../server/calendar-feed';
+import { jsonError } from '../server/core';
+import { withDatabase } from '../server/database';
+import { resolveIcsUidDomain } from '../server/env';
+import type { ApiApp } from '../server/types';
+
+const buildCalendarFeedUrl = (requestUrl: string, token: string): string => {
+  return `${new URL(requestUrl).origin}/v0/feeds/${token}.ics`;
+};
+
+export const registerCalendarFeedRoutes = (app: ApiApp): void => {
+  app.get('/v0/me/calendar-feed', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const [feed] = await db
+        .select({
+          createdAt: calendarFeedTokens.createdAt,
+          updatedAt: calendarFeedTokens.updatedAt,
+          lastAccessedAt: calendarFeedTokens.lastAccessedAt,
+        })
+        .from(calendarFeedTokens)
+        .where(eq(calendarFeedTokens.userId, authedUser.id))
+        .limit(1);
+
+      // The raw token is only returned when it is issued; status reads never expose the URL again.
+      return context.json({
+        ok: true,
+        feed: feed
+          ? {
+              enabled: true,
+              createdAt: feed.createdAt.toISOString(),
+              rotatedAt: feed.updatedAt.toISOString(),
+              lastAccessedAt: feed.lastAccessedAt?.toISOString() ?? null,
+            }
+          : { enabled: false, createdAt: null, rotatedAt: null, lastAccessedAt: null },
+      });
+    });
+  });
+
+  app.post('/v0/me/calendar-feed', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      // Issuing a new token replaces the previous one, so an old subscription URL stops working.
+      const token = createRawToken();
+      const now = new Date();
+      const [feed] = await db
+        .insert(calendarFeedTokens)
+        .values({ userId: authedUser.id, tokenHash: hashToken(token), createdAt: now, updatedAt: now })
+        .onConflictDoUpdate({
+          target: calendarFeedTokens.userId,
+          set: { tokenHash: hashToken(token), updatedAt: now, lastAccessedAt: null },
+        })
+        .returning({
+          createdAt: calendarFeedTokens.createdAt,
+          updatedAt: calendarFeedTokens.updatedAt,
+        });
+
+      if (!feed) {
+        return jsonError(context, 500, 'Unable to create calendar feed.');
+      }
+
+      return context.json({
+        ok: true,
+        feedUrl: buildCalendarFeedUrl(context.req.url, token),
+        feed: {
+          enabled: true,
+          createdAt: feed.createdAt.toISOString(),
+          rotatedAt: feed.updatedAt.toISOString(),
+          lastAccessedAt: null,
+        },
+      });
+    });
+  });
+
+  app.delete('/v0/me/calendar-feed', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const deleted = await db
+        .delete(calendarFeedTokens)
+        .where(eq(calendarFeedTokens.userId, authedUser.id))
+        .returning({ id: calendarFeedTokens.id });
+
+      return context.json({ ok: true, revoked: deleted.length > 0 });
+    });
+  });
+
+  app.get('/v0/feeds/:file', async (context) => {
+    const token = parseCalendarFeedToken(context.req.param('file'));
+    if (!token) {
+      return jsonError(context, 404, 'Calendar feed not found.');
+    }
+
+    return withDatabase(context, async (db) => {
+      const owner = await findCalendarFeedOwner(db, hashToken(token));
+      if (!owner) {
+        return jsonError(context, 404, 'Calendar feed not found.');
+      }
+
+      const now = new Date();
+      const feedBookings = await listCalendarFeedBookings(db, {
+        userId: owner.userId,
+        now,
+        uidDomain: resolveIcsUidDomain(context.env),
+      });
+      await db
+        .update(calendarFeedTokens)
+        .set({ lastAccessedAt: now })
+        .where(eq(calendarFeedTokens.userId, owner.userId));
+
+      const ics = buildCalendarFeedIcs({
+        calendarName: `OpenCalendly · ${owner.displayName}`,
+        timezone: owner.timezone,
+        bookings: feedBookings,
+        now,
+      });
+
+      return context.body(ics, 200, {
+        'content-type': 'text/calendar; charset=utf-8',
+        'content-disposition': 'inline; filename="opencalendly.ics"',
+        'cache-control': 'private, max-age=300',
+      });
+    });
+  });
+};
@@ -80,7 +80,7 @@ describe('GET /v0/calendar/sync/status', () => {
     expect(response.status).toBe(200);
     expect(payload).toEqual({
       ok: true,
-      availableProviders: ['google'],
+      availableProviders: ['google', 'caldav'],
       connections: [
         {
           id: 'conn_google',
@@ -97,7 +97,7 @@ describe('GET /v0/calendar/sync/status', () => {
     });
   });
 
-  it('returns no available providers when OAuth is not configured', async () => {
+  it('returns only CalDAV when OAuth is not configured', async () => {
     dbRef.current = {
       select: () => ({
         from: () => ({
@@ -121,8 +121,33 @@ describe('GET /v0/calendar/sync/status', () => {
     expect(response.status).toBe(200);
     expect(payload).toEqual({
       ok: true,
-      availableProviders: [],
+      availableProviders: ['caldav'],
       connections: [],
     });
   });
+
+  it('returns no available providers without a calendar encryption secret', async () => {
+    dbRef.current = {
+      select: () => ({
+        from: () => ({
+          where: () => ({
+            orderBy: async () => [],
+          }),
+        }),
+      }),
+    };
+
+    const app = new Hono();
+    registerCalendarStatusRoutes(app as never);
+
+    const response = await app.request(
+      'http://localhost/v0/calendar/sync/status',
+      undefined,
+      createBindings({ SESSION_SECRET: '' }),
+    );
+    const payload = (await response.json()) as { availableProviders: string[] };
+
+    expect(response.status).toBe(200);
+    expect(payload.availableProviders).toEqual([]);
+  });
 });
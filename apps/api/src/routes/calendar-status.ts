@@ -6,8 +6,10 @@ import { resolveAuthenticatedUser } from '../server/auth-session';
 import { jsonError } from '../server/core';
 import { withDatabase } from '../server/database';
 import {
+  CALDAV_CALENDAR_PROVIDER,
   GOOGLE_CALENDAR_PROVIDER,
   MICROSOFT_CALENDAR_PROVIDER,
+  resolveCalendarEncryptionSecret,
   resolveGoogleOAuthConfig,
   resolveMicrosoftOAuthConfig,
   toCalendarConnectionStatus,
@@ -59,6 +61,8 @@ export const registerCalendarStatusRoutes = (app: ApiApp): void => {
       const availableProviders = [
         ...(resolveGoogleOAuthConfig(context.env) ? [GOOGLE_CALENDAR_PROVIDER] : []),
         ...(resolveMicrosoftOAuthConfig(context.env) ? [MICROSOFT_CALENDAR_PROVIDER] : []),
+        // CalDAV needs no OAuth app, only a secret to encrypt the stored app password.
+        ...(resolveCalendarEncryptionSecret(context.env) ? [CALDAV_CALENDAR_PROVIDER] : []),
       ] satisfies CalendarProvider[];
 
       return context.json({
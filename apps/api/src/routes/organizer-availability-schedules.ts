@@ -0,0 +1,236 @@
+import { and, asc, eq, isNotNull } from 'drizzle-orm';
+
+import { availabilityRules, availabilitySchedules, eventTypes } from '@opencalendly/db';
+import {
+  availabilityScheduleCreateSchema,
+  availabilityScheduleUpdateSchema,
+} from '@opencalendly/shared';
+
+import { resolveAuthenticatedUser } from '../server/auth-session';
+import { jsonError, isUuid } from '../server/core';
+import { isUniqueViolation, withDatabase } from '../server/database';
+import { consumeDemoFeatureCredits, jsonDemoQuotaError } from '../server/demo-quota';
+import { buildDemoFeatureSourceKey } from '../server/idempotency';
+import type { ApiApp, DemoQuotaDb } from '../server/types';
+import { DemoQuotaAdmissionError, DemoQuotaCreditsError } from '../server/types';
+
+const DUPLICATE_SCHEDULE_NAME_MESSAGE = 'An availability schedule with that name already exists.';
+
+export const registerOrganizerAvailabilityScheduleRoutes = (app: ApiApp): void => {
+  app.get('/v0/me/availability/schedules', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const [schedules, rules, linkedEventTypes] = await Promise.all([
+        db
+          .select({
+            id: availabilitySchedules.id,
+            name: availabilitySchedules.name,
+            createdAt: availabilitySchedules.createdAt,
+            updatedAt: availabilitySchedules.updatedAt,
+          })
+          .from(availabilitySchedules)
+          .where(eq(availabilitySchedules.userId, authedUser.id))
+          .orderBy(asc(availabilitySchedules.name)),
+        db
+          .select({
+            id: availabilityRules.id,
+            scheduleId: availabilityRules.scheduleId,
+            dayOfWeek: availabilityRules.dayOfWeek,
+            startMinute: availabilityRules.startMinute,
+            endMinute: availabilityRules.endMinute,
+            bufferBeforeMinutes: availabilityRules.bufferBeforeMinutes,
+            bufferAfterMinutes: availabilityRules.bufferAfterMinutes,
+          })
+          .from(availabilityRules)
+          .where(and(eq(availabilityRules.userId, authedUser.id), isNotNull(availabilityRules.scheduleId)))
+          .orderBy(availabilityRules.dayOfWeek, availabilityRules.startMinute),
+        db
+          .select({ id: eventTypes.id, availabilityScheduleId: eventTypes.availabilityScheduleId })
+          .from(eventTypes)
+          .where(and(eq(eventTypes.userId, authedUser.id), isNotNull(eventTypes.availabilityScheduleId))),
+      ]);
+
+      return context.json({
+        ok: true,
+        schedules: schedules.map((schedule) => ({
+          id: schedule.id,
+          name: schedule.name,
+          rules: rules
+            .filter((rule) => rule.scheduleId === schedule.id)
+            .map((rule) => ({
+              id: rule.id,
+              dayOfWeek: rule.dayOfWeek,
+              startMinute: rule.startMinute,
+              endMinute: rule.endMinute,
+              bufferBeforeMinutes: rule.bufferBeforeMinutes,
+              bufferAfterMinutes: rule.bufferAfterMinutes,
+            })),
+          eventTypeIds: linkedEventTypes
+            .filter((eventType) => eventType.availabilityScheduleId === schedule.id)
+            .map((eventType) => eventType.id),
+          createdAt: schedule.createdAt.toISOString(),
+          updatedAt: schedule.updatedAt.toISOString(),
+        })),
+      });
+    });
+  });
+
+  app.post('/v0/me/availability/schedules', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const parsed = availabilityScheduleCreateSchema.safeParse(await context.req.json().catch(() => null));
+      if (!parsed.success) {
+        return jsonError(context, 400, parsed.error.issues[0]?.message ?? 'Invalid request body.');
+      }
+
+      const now = new Date();
+      try {
+        const created = await db.transaction(async (transaction) => {
+          const [schedule] = await transaction
+            .insert(availabilitySchedules)
+            .values({ userId: authedUser.id, name: parsed.data.name })
+            .returning({ id: availabilitySchedules.id, name: availabilitySchedules.name });
+          if (!schedule) {
+            throw new Error('Failed to create availability schedule.');
+          }
+
+          if (parsed.data.rules.length > 0) {
+            await transaction.insert(availabilityRules).values(
+              parsed.data.rules.map((rule) => ({ userId: authedUser.id, scheduleId: schedule.id, ...rule })),
+            );
+          }
+
+          await consumeDemoFeatureCredits(transaction as DemoQuotaDb, context.env, authedUser, {
+            featureKey: 'availability_save',
+            sourceKey: buildDemoFeatureSourceKey('availability_save', {
+              scope: 'schedule_create',
+              name: parsed.data.name,
+              rules: parsed.data.rules,
+            }),
+            metadata: { scope: 'schedule', scheduleId: schedule.id, count: parsed.data.rules.length },
+            now,
+          });
+
+          return schedule;
+        });
+
+        return context.json({
+          ok: true,
+          schedule: { id: created.id, name: created.name, count: parsed.data.rules.length },
+        });
+      } catch (error) {
+        if (isUniqueViolation(error, 'availability_schedules_user_name_unique')) {
+          return jsonError(context, 409, DUPLICATE_SCHEDULE_NAME_MESSAGE);
+        }
+        if (error instanceof DemoQuotaAdmissionError || error instanceof DemoQuotaCreditsError) {
+          return jsonDemoQuotaError(context, db, context.env, authedUser, error);
+        }
+        throw error;
+      }
+    });
+  });
+
+  app.patch('/v0/me/availability/schedules/:id', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const scheduleId = context.req.param('id');
+      if (!isUuid(scheduleId)) {
+        return jsonError(context, 400, 'Invalid availability schedule id.');
+      }
+
+      const parsed = availabilityScheduleUpdateSchema.safeParse(await context.req.json().catch(() => null));
+      if (!parsed.success) {
+        return jsonError(context, 400, parsed.error.issues[0]?.message ?? 'Invalid request body.');
+      }
+
+      const { name, rules } = parsed.data;
+      const now = new Date();
+      try {
+        const updated = await db.transaction(async (transaction) => {
+          const [schedule] = await transaction
+            .update(availabilitySchedules)
+            .set({ ...(name !== undefined ? { name } : {}), updatedAt: now })
+            .where(and(eq(availabilitySchedules.id, scheduleId), eq(availabilitySchedules.userId, authedUser.id)))
+            .returning({ id: availabilitySchedules.id, name: availabilitySchedules.name });
+          if (!schedule) {
+            return null;
+          }
+
+          if (rules !== undefined) {
+            await transaction.delete(availabilityRules).where(eq(availabilityRules.scheduleId, schedule.id));
+            if (rules.length > 0) {
+              await transaction.insert(availabilityRules).values(
+                rules.map((rule) => ({ userId: authedUser.id, scheduleId: schedule.id, ...rule })),
+              );
+            }
+          }
+
+          await consumeDemoFeatureCredits(transaction as DemoQuotaDb, context.env, authedUser, {
+            featureKey: 'availability_save',
+            sourceKey: buildDemoFeatureSourceKey('availability_save', {
+              scope: 'schedule_update',
+              scheduleId,
+              changes: parsed.data,
+            }),
+            metadata: { scope: 'schedule', scheduleId, count: rules?.length ?? null },
+            now,
+          });
+
+          return schedule;
+        });
+
+        if (!updated) {
+          return jsonError(context, 404, 'Availability schedule not found.');
+        }
+
+        return context.json({ ok: true, schedule: updated });
+      } catch (error) {
+        if (isUniqueViolation(error, 'availability_schedules_user_name_unique')) {
+          return jsonError(context, 409, DUPLICATE_SCHEDULE_NAME_MESSAGE);
+        }
+        if (error instanceof DemoQuotaAdmissionError || error instanceof DemoQuotaCreditsError) {
+          return jsonDemoQuotaError(context, db, context.env, authedUser, error);
+        }
+        throw error;
+      }
+    });
+  });
+
+  app.delete('/v0/me/availability/schedules/:id', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const scheduleId = context.req.param('id');
+      if (!isUuid(scheduleId)) {
+        return jsonError(context, 400, 'Invalid availability schedule id.');
+      }
+
+      // Rules cascade with the schedule; linked event types fall back to the default weekly hours.
+      const [deleted] = await db
+        .delete(availabilitySchedules)
+        .where(and(eq(availabilitySchedules.id, scheduleId), eq(availabilitySchedules.userId, authedUser.id)))
+        .returning({ id: availabilitySchedules.id });
+
+      if (!deleted) {
+        return jsonError(context, 404, 'Availability schedule not found.');
+      }
+
+      return context.json({ ok: true, deletedId: deleted.id });
+    });
+  });
+};
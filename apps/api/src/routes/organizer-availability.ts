@@ -1,4 +1,4 @@
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 
 import { availabilityOverrides, availabilityRules } from '@opencalendly/db';
 import {
@@ -7,6 +7,7 @@ import {
 } from '@opencalendly/shared';
 
 import { resolveAuthenticatedUser } from '../server/auth-session';
+import { availabilityRuleScheduleFilter } from '../server/availability-schedules';
 import { jsonError } from '../server/core';
 import { withDatabase } from '../server/database';
 import { consumeDemoFeatureCredits, jsonDemoQuotaError } from '../server/demo-quota';
@@ -34,7 +35,7 @@ export const registerOrganizerAvailabilityRoutes = (app: ApiApp): void => {
             createdAt: availabilityRules.createdAt,
           })
           .from(availabilityRules)
-          .where(eq(availabilityRules.userId, authedUser.id))
+          .where(and(eq(availabilityRules.userId, authedUser.id), availabilityRuleScheduleFilter(null)))
           .orderBy(availabilityRules.dayOfWeek, availabilityRules.startMinute),
         db
           .select({
@@ -79,7 +80,9 @@ export const registerOrganizerAvailabilityRoutes = (app: ApiApp): void => {
       const now = new Date();
       try {
         await db.transaction(async (transaction) => {
-          await transaction.delete(availabilityRules).where(eq(availabilityRules.userId, authedUser.id));
+          await transaction
+            .delete(availabilityRules)
+            .where(and(eq(availabilityRules.userId, authedUser.id), availabilityRuleScheduleFilter(null)));
           if (parsed.data.rules.length > 0) {
             await transaction.insert(availabilityRules).values(
               parsed.data.rules.map((rule) => ({ userId: authedUser.id, ...rule })),
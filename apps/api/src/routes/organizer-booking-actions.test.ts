@@ -0,0 +1,346 @@
+import { Hono } from 'hono';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Bindings } from '../server/types';
+
+const {
+  cancelBookingAsOrganizerMock,
+  markBookingNoShowMock,
+  queueBookingCancellationSideEffectsMock,
+  queueBookingRescheduleSideEffectsMock,
+  rescheduleBookingMock,
+  resolveAuthenticatedUserMock,
+  sendBookingCancellationEmailSideEffectsMock,
+  sendBookingRescheduleEmailSideEffectsMock,
+  sendWaitlistOfferEmailSideEffectsMock,
+  withDatabaseMock,
+} = vi.hoisted(() => ({
+  cancelBookingAsOrganizerMock: vi.fn(),
+  markBookingNoShowMock: vi.fn(),
+  queueBookingCancellationSideEffectsMock: vi.fn(),
+  queueBookingRescheduleSideEffectsMock: vi.fn(),
+  rescheduleBookingMock: vi.fn(),
+  resolveAuthenticatedUserMock: vi.fn(),
+  sendBookingCancellationEmailSideEffectsMock: vi.fn(),
+  sendBookingRescheduleEmailSideEffectsMock: vi.fn(),
+  sendWaitlistOfferEmailSideEffectsMock: vi.fn(),
+  withDatabaseMock: vi.fn(async (_context: unknown, handler: (db: unknown) => Promise<Response>) =>
+    handler({}),
+  ),
+}));
+
+vi.mock('../server/database', () => ({
+  withDatabase: withDatabaseMock,
+  withConnectedDatabase: async (_context: unknown, handler: (db: unknown) => Promise<unknown>) =>
+    handler({}),
+}));
+
+vi.mock('../server/auth-session', () => ({
+  resolveAuthenticatedUser: resolveAuthenticatedUserMock,
+}));
+
+vi.mock('../server/organizer-booking-cancel', () => ({
+  cancelBookingAsOrganizer: cancelBookingAsOrganizerMock,
+}));
+
+vi.mock('../server/organizer-booking-no-show', () => ({
+  markBookingNoShow: markBookingNoShowMock,
+}));
+
+vi.mock('../server/booking-reschedule', () => ({
+  rescheduleBooking: rescheduleBookingMock,
+}));
+
+vi.mock('../server/booking-side-effects', () => ({
+  queuedEmailDelivery: { sent: false, provider: 'background', queued: true },
+  queueBookingCancellationSideEffects: queueBookingCancellationSideEffectsMock,
+  sendBookingCancellationEmailSideEffects: sendBookingCancellationEmailSideEffectsMock,
+  sendWaitlistOfferEmailSideEffects: sendWaitlistOfferEmailSideEffectsMock,
+}));
+
+vi.mock('../server/booking-reschedule-side-effects', () => ({
+  queueBookingRescheduleSideEffects: queueBookingRescheduleSideEffectsMock,
+  sendBookingRescheduleEmailSideEffects: sendBookingRescheduleEmailSideEffectsMock,
+}));
+
+import { BookingConflictError } from '../lib/booking';
+import { BookingActionGoneError, BookingActionNotFoundError } from '../server/types';
+import { registerOrganizerBookingActionRoutes } from './organizer-booking-actions';
+
+const bookingId = '8f14e45f-ceea-467f-a8b2-4f4f5b8f1a2c';
+const newBookingId = '1b4e28ba-2fa1-41d2-883f-0016d3cca427';
+
+const bindings = {
+  APP_BASE_URL: 'https://opencalendly.com',
+  SESSION_SECRET: '0123456789abcdef0123456789abcdef',
+} as Bindings;
+
+const executionCtx = {
+  waitUntil: vi.fn(),
+  passThroughOnException: vi.fn(),
+};
+
+const bookingRecord = {
+  id: bookingId,
+  eventTypeId: 'event_type_1',
+  organizerId: 'user_123',
+  inviteeName: 'Pat Lee',
+  inviteeEmail: 'pat@example.com',
+  startsAt: new Date('2026-03-12T16:00:00.000Z'),
+  endsAt: new Date('2026-03-12T16:30:00.000Z'),
+  status: 'confirmed',
+  metadata: JSON.stringify({ answers: {}, timezone: 'America/Los_Angeles' }),
+};
+
+const organizerProfile = {
+  id: 'user_123',
+  email: 'owner@example.com',
+  username: 'owner',
+  displayName: 'Owner',
+  timezone: 'UTC',
+  onboardingCompleted: true,
+};
+
+const request = (path: string, body: unknown) => {
+  const app = new Hono();
+  registerOrganizerBookingActionRoutes(app as never);
+  return app.request(
+    `http://localhost${path}`,
+    {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: { 'content-type': 'application/json' },
+    },
+    bindings,
+    executionCtx as never,
+  );
+};
+
+describe('organizer booking action routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resolveAuthenticatedUserMock.mockResolvedValue({ id: 'user_123', email: 'owner@example.com' });
+    queueBookingCancellationSideEffectsMock.mockResolvedValue({
+      queuedWebhookDeliveries: 1,
+      calendarWriteback: { queued: 0 },
+    });
+    queueBookingRescheduleSideEffectsMock.mockResolvedValue({
+      queuedWebhookDeliveries: 1,
+      calendarWriteback: { queued: 0 },
+    });
+    sendBookingCancellationEmailSideEffectsMock.mockResolvedValue([]);
+    sendBookingRescheduleEmailSideEffectsMock.mockResolvedValue([]);
+  });
+
+  it('requires authentication', async () => {
+    resolveAuthenticatedUserMock.mockResolvedValue(null);
+
+    const response = await request(`/v0/me/bookings/${bookingId}/cancel`, {});
+
+    expect(response.status).toBe(401);
+    expect(cancelBookingAsOrganizerMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects malformed booking ids', async () => {
+    const response = await request('/v0/me/bookings/not-a-uuid/cancel', {});
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ ok: false, error: 'Invalid booking id.' });
+  });
+
+  it('cancels as the organizer and emails the invitee a rebooking link', async () => {
+    cancelBookingAsOrganizerMock.mockResolvedValue({
+      booking: { ...bookingRecord, status: 'canceled' },
+      eventType: { id: 'event_type_1', slug: 'intro-call', name: 'Intro Call' },
+      organizer: organizerProfile,
+      teamSlug: null,
+      timezone: 'America/Los_Angeles',
+      canceledNotifications: 2,
+    });
+
+    const response = await request(`/v0/me/bookings/${bookingId}/cancel`, {
+      reason: 'Conflict came up.',
+    });
+    const payload = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(payload).toMatchObject({
+      ok: true,
+      booking: { id: bookingId, status: 'canceled', canceledBy: 'organizer' },
+      rebookUrl: 'https://opencalendly.com/owner/intro-call',
+      notifications: { canceled: 2 },
+      webhooks: { queued: 1 },
+    });
+    expect(cancelBookingAsOrganizerMock).toHaveBeenCalledWith(
+      expect.anything(),
+      bindings,
+      expect.objectContaining({ id: 'user_123' }),
+      { bookingId, reason: 'Conflict came up.' },
+    );
+    expect(sendBookingCancellationEmailSideEffectsMock).toHaveBeenCalledWith(
+      bindings,
+      expect.anything(),
+      expect.objectContaining({
+        canceledBy: 'organizer',
+        rebookLink: 'https://opencalendly.com/owner/intro-call',
+        cancellationReason: 'Conflict came up.',
+      }),
+    );
+  });
+
+  it('emails the freed slot to the waitlist when an entry was offered', async () => {
+    cancelBookingAsOrganizerMock.mockResolvedValue({
+      booking: { ...bookingRecord, status: 'canceled' },
+      eventType: { id: 'event_type_1', slug: 'intro-call', name: 'Intro Call' },
+      organizer: organizerProfile,
+      teamSlug: null,
+      timezone: 'America/Los_Angeles',
+      canceledNotifications: 0,
+    });
+    const waitlistOffer = { entryId: 'entry_1', claimToken: 'claim-token', inviteeEmail: 'sam@example.com' };
+    queueBookingCancellationSideEffectsMock.mockResolvedValue({
+      queuedWebhookDeliveries: 1,
+      calendarWriteback: { queued: 0 },
+      waitlistOffer,
+    });
+
+    const response = await request(`/v0/me/bookings/${bookingId}/cancel`, {});
+
+    expect(response.status).toBe(200);
+    expect(sendWaitlistOfferEmailSideEffectsMock).toHaveBeenCalledWith(bindings, expect.anything(), {
+      offer: waitlistOffer,
+      claimLink: 'https://opencalendly.com/waitlist/claim/claim-token',
+    });
+  });
+
+  it('reports the refund when canceling a paid booking', async () => {
+    cancelBookingAsOrganizerMock.mockResolvedValue({
+      booking: { ...bookingRecord, status: 'canceled' },
+      eventType: { id: 'event_type_1', slug: 'intro-call', name: 'Intro Call' },
+      organizer: organizerProfile,
+      teamSlug: null,
+      timezone: 'America/Los_Angeles',
+      canceledNotifications: 0,
+      refund: { status: 'refunded', amountCents: 5000, currency: 'usd' },
+    });
+
+    const response = await request(`/v0/me/bookings/${bookingId}/cancel`, {});
+    const payload = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(payload).toMatchObject({ refund: { status: 'refunded', amountCents: 5000, currency: 'usd' } });
+  });
+
+  it('maps missing and non-confirmed bookings to 404 and 409', async () => {
+    cancelBookingAsOrganizerMock.mockRejectedValueOnce(new BookingActionNotFoundError('Booking not found.'));
+    expect((await request(`/v0/me/bookings/${bookingId}/cancel`, {})).status).toBe(404);
+
+    cancelBookingAsOrganizerMock.mockRejectedValueOnce(new BookingActionGoneError('Booking is not cancelable.'));
+    expect((await request(`/v0/me/bookings/${bookingId}/cancel`, {})).status).toBe(409);
+  });
+
+  it('reschedules without an action token and sends fresh invitee links', async () => {
+    rescheduleBookingMock.mockResolvedValue({
+      oldBooking: { ...bookingRecord, status: 'rescheduled' },
+      newBooking: {
+        ...bookingRecord,
+        id: newBookingId,
+        startsAt: new Date('2026-03-13T16:00:00.000Z'),
+        endsAt: new Date('2026-03-13T16:30:00.000Z'),
+      },
+      eventType: { name: 'Intro Call' },
+      oldOrganizer: organizerProfile,
+      newOrganizer: organizerProfile,
+      actionTokens: [
+        { actionType: 'cancel', token: 'cancel-token', expiresAt: '2026-04-12T16:00:00.000Z' },
+        { actionType: 'reschedule', token: 'reschedule-token', expiresAt: '2026-04-12T16:00:00.000Z' },
+      ],
+      alreadyProcessed: false,
+      canceledNotificationsForOldBooking: 1,
+      queuedNotificationsForNewBooking: 1,
+    });
+
+    const response = await request(`/v0/me/bookings/${bookingId}/reschedule`, {
+      startsAt: '2026-03-13T16:00:00.000Z',
+    });
+    const payload = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(payload).toMatchObject({
+      ok: true,
+      oldBooking: { id: bookingId, status: 'rescheduled' },
+      newBooking: { id: newBookingId, rescheduledFromBookingId: bookingId },
+    });
+    expect(rescheduleBookingMock).toHaveBeenCalledWith(
+      expect.anything(),
+      bindings,
+      expect.objectContaining({ id: 'user_123' }),
+      {
+        bookingId,
+        organizerUserId: 'user_123',
+        startsAt: '2026-03-13T16:00:00.000Z',
+        timezone: undefined,
+      },
+    );
+    expect(sendBookingRescheduleEmailSideEffectsMock).toHaveBeenCalledWith(
+      bindings,
+      expect.anything(),
+      expect.objectContaining({
+        rescheduledBy: 'organizer',
+        timezone: 'America/Los_Angeles',
+        inviteeActionLinks: {
+          cancelPageUrl: 'https://opencalendly.com/bookings/actions/cancel-token',
+          reschedulePageUrl: 'https://opencalendly.com/bookings/actions/reschedule-token',
+        },
+      }),
+    );
+  });
+
+  it('returns 409 when the requested reschedule slot is taken', async () => {
+    rescheduleBookingMock.mockRejectedValue(new BookingConflictError('Selected slot is no longer available.'));
+
+    const response = await request(`/v0/me/bookings/${bookingId}/reschedule`, {
+      startsAt: '2026-03-13T16:00:00.000Z',
+    });
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({ ok: false, error: 'Selected slot is no longer available.' });
+  });
+
+  it('marks a started booking as no-show and reports queued webhooks', async () => {
+    const noShowAt = new Date('2026-03-12T16:20:00.000Z');
+    markBookingNoShowMock.mockResolvedValue({
+      booking: { ...bookingRecord, noShowAt },
+      alreadyMarked: false,
+      queuedWebhookDeliveries: 2,
+    });
+
+    const response = await request(`/v0/me/bookings/${bookingId}/no-show`, {});
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      ok: true,
+      booking: { id: bookingId, status: 'confirmed', noShowAt: noShowAt.toISOString() },
+      alreadyMarked: false,
+      webhooks: { queued: 2 },
+    });
+    expect(markBookingNoShowMock).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ organizerId: 'user_123', bookingId }),
+    );
+  });
+
+  it('returns 409 when the booking cannot be marked as no-show', async () => {
+    markBookingNoShowMock.mockRejectedValue(
+      new BookingActionGoneError('Only confirmed bookings can be marked as no-show.'),
+    );
+
+    const response = await request(`/v0/me/bookings/${bookingId}/no-show`, {});
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({
+      ok: false,
+      error: 'Only confirmed bookings can be marked as no-show.',
+    });
+  });
+});
@@ -0,0 +1,345 @@
+import { bookingCancelSchema, bookingRescheduleSchema } from '@opencalendly/shared';
+
+import { BookingConflictError, BookingValidationError } from '../lib/booking';
+import { parseBookingMetadata } from '../lib/booking-actions';
+import { resolveAuthenticatedUser } from '../server/auth-session';
+import { emitAuditEvent, sanitizeErrorForAudit } from '../server/audit';
+import {
+  actionTokenMap,
+  buildActionUrls,
+  buildBookingPageUrl,
+  buildWaitlistClaimUrl,
+} from '../server/booking-action-links';
+import {
+  queueBookingRescheduleSideEffects,
+  sendBookingRescheduleEmailSideEffects,
+} from '../server/booking-reschedule-side-effects';
+import { rescheduleBooking } from '../server/booking-reschedule';
+import {
+  queueBookingCancellationSideEffects,
+  queuedEmailDelivery,
+  sendBookingCancellationEmailSideEffects,
+  sendWaitlistOfferEmailSideEffects,
+} from '../server/booking-side-effects';
+import { isUuid, jsonError, normalizeTimezone, queueBackgroundTask } from '../server/core';
+import { withConnectedDatabase, withDatabase } from '../server/database';
+import { jsonDemoQuotaError } from '../server/demo-quota';
+import { resolveAppBaseUrl } from '../server/env';
+import { cancelBookingAsOrganizer } from '../server/organizer-booking-cancel';
+import { markBookingNoShow } from '../server/organizer-booking-no-show';
+import type { ApiApp } from '../server/types';
+import {
+  BookingActionGoneError,
+  BookingActionNotFoundError,
+  DemoQuotaAdmissionError,
+  DemoQuotaCreditsError,
+} from '../server/types';
+
+export const registerOrganizerBookingActionRoutes = (app: ApiApp): void => {
+  app.post('/v0/me/bookings/:id/cancel', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const bookingId = context.req.param('id');
+      if (!isUuid(bookingId)) {
+        return jsonError(context, 400, 'Invalid booking id.');
+      }
+
+      const parsed = bookingCancelSchema.safeParse(await context.req.json().catch(() => ({})));
+      if (!parsed.success) {
+        return jsonError(context, 400, parsed.error.issues[0]?.message ?? 'Invalid request body.');
+      }
+
+      let appBaseUrl: string;
+      try {
+        appBaseUrl = resolveAppBaseUrl(context.env, context.req.raw);
+      } catch (error) {
+        return jsonError(context, 500, error instanceof Error ? error.message : 'APP_BASE_URL must be a valid URL.');
+      }
+
+      const cancellationReason = parsed.data.reason ?? null;
+      try {
+        const result = await cancelBookingAsOrganizer(db, context.env, authedUser, {
+          bookingId,
+          reason: cancellationReason,
+        });
+        const sideEffects = await queueBookingCancellationSideEffects(db, {
+          booking: result.booking,
+          cancellationReason,
+          alreadyProcessed: false,
+        });
+        const rebookLink = buildBookingPageUrl(appBaseUrl, {
+          organizerUsername: result.organizer.username,
+          eventSlug: result.eventType.slug,
+          teamSlug: result.teamSlug,
+        });
+        queueBackgroundTask(
+          context,
+          withConnectedDatabase(context, async (backgroundDb) => {
+            await sendBookingCancellationEmailSideEffects(context.env, backgroundDb, {
+              booking: result.booking,
+              eventType: { name: result.eventType.name },
+              organizer: { email: result.organizer.email, displayName: result.organizer.displayName },
+              timezone: result.timezone,
+              cancellationReason,
+              canceledBy: 'organizer',
+              rebookLink,
+              alreadyProcessed: false,
+            });
+          }).catch((error) => {
+            emitAuditEvent({
+              event: 'booking_side_effect_failed',
+              level: 'error',
+              route: '/v0/me/bookings/:id/cancel',
+              bookingId: result.booking.id,
+              actionType: 'cancel',
+              error: sanitizeErrorForAudit(error, 'booking_cancellation_email_failed'),
+            });
+          }),
+        );
+        const waitlistOffer = sideEffects.waitlistOffer;
+        if (waitlistOffer) {
+          queueBackgroundTask(
+            context,
+            withConnectedDatabase(context, async (backgroundDb) => {
+              await sendWaitlistOfferEmailSideEffects(context.env, backgroundDb, {
+                offer: waitlistOffer,
+                claimLink: buildWaitlistClaimUrl(appBaseUrl, waitlistOffer.claimToken),
+              });
+            }).catch((error) => {
+              emitAuditEvent({
+                event: 'booking_side_effect_failed',
+                level: 'error',
+                route: '/v0/me/bookings/:id/cancel',
+                bookingId: result.booking.id,
+                actionType: 'cancel',
+                error: sanitizeErrorForAudit(error, 'waitlist_offer_email_failed'),
+              });
+            }),
+          );
+        }
+
+        emitAuditEvent({
+          event: 'organizer_booking_action_completed',
+          level: 'info',
+          route: '/v0/me/bookings/:id/cancel',
+          statusCode: 200,
+          actorUserId: authedUser.id,
+          actionType: 'cancel',
+          bookingId: result.booking.id,
+        });
+        return context.json({
+          ok: true,
+          booking: {
+            id: result.booking.id,
+            status: result.booking.status,
+            canceledBy: 'organizer',
+          },
+          rebookUrl: rebookLink,
+          email: queuedEmailDelivery,
+          ...(result.refund ? { refund: result.refund } : {}),
+          notifications: { canceled: result.canceledNotifications },
+          webhooks: { queued: sideEffects.queuedWebhookDeliveries },
+          calendarWriteback: sideEffects.calendarWriteback,
+        });
+      } catch (error) {
+        if (error instanceof BookingActionNotFoundError) {
+          return jsonError(context, 404, 'Booking not found.');
+        }
+        if (error instanceof BookingActionGoneError) {
+          return jsonError(context, 409, 'Only confirmed bookings can be canceled.');
+        }
+        if (error instanceof DemoQuotaAdmissionError || error instanceof DemoQuotaCreditsError) {
+          return jsonDemoQuotaError(context, db, context.env, authedUser, error);
+        }
+        throw error;
+      }
+    });
+  });
+
+  app.post('/v0/me/bookings/:id/reschedule', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const bookingId = context.req.param('id');
+      if (!isUuid(bookingId)) {
+        return jsonError(context, 400, 'Invalid booking id.');
+      }
+
+      const parsed = bookingRescheduleSchema.safeParse(await context.req.json().catch(() => null));
+      if (!parsed.success) {
+        return jsonError(context, 400, parsed.error.issues[0]?.message ?? 'Invalid request body.');
+      }
+
+      let appBaseUrl: string;
+      try {
+        appBaseUrl = resolveAppBaseUrl(context.env, context.req.raw);
+      } catch (error) {
+        return jsonError(context, 500, error instanceof Error ? error.message : 'APP_BASE_URL must be a valid URL.');
+      }
+
+      const requestedTimezone = parsed.data.timezone
+        ? normalizeTimezone(parsed.data.timezone)
+        : undefined;
+      try {
+        const result = await rescheduleBooking(db, context.env, authedUser, {
+          bookingId,
+          organizerUserId: authedUser.id,
+          startsAt: parsed.data.startsAt,
+          timezone: requestedTimezone,
+        });
+        if (!result.actionTokens) {
+          throw new Error('Organizer reschedule did not issue action tokens.');
+        }
+
+        const timezone =
+          requestedTimezone ??
+          parseBookingMetadata(result.oldBooking.metadata, normalizeTimezone).timezone ??
+          normalizeTimezone(result.oldOrganizer.timezone);
+        const tokens = actionTokenMap(result.actionTokens);
+        const urls = buildActionUrls(context.req.raw, appBaseUrl, {
+          cancelToken: tokens.cancelToken,
+          rescheduleToken: tokens.rescheduleToken,
+        });
+        const sideEffects = await queueBookingRescheduleSideEffects(db, {
+          oldBooking: result.oldBooking,
+          newBooking: result.newBooking,
+          alreadyProcessed: false,
+        });
+        queueBackgroundTask(
+          context,
+          withConnectedDatabase(context, async (backgroundDb) => {
+            await sendBookingRescheduleEmailSideEffects(context.env, backgroundDb, {
+              oldBooking: result.oldBooking,
+              newBooking: result.newBooking,
+              eventType: { name: result.eventType.name },
+              oldOrganizer: {
+                email: result.oldOrganizer.email,
+                displayName: result.oldOrganizer.displayName,
+              },
+              newOrganizer: {
+                email: result.newOrganizer.email,
+                displayName: result.newOrganizer.displayName,
+              },
+              timezone,
+              rescheduledBy: 'organizer',
+              inviteeActionLinks: {
+                cancelPageUrl: urls.cancelPageUrl,
+                reschedulePageUrl: urls.reschedulePageUrl,
+              },
+              alreadyProcessed: false,
+            });
+          }).catch((error) => {
+            emitAuditEvent({
+              event: 'booking_side_effect_failed',
+              level: 'error',
+              route: '/v0/me/bookings/:id/reschedule',
+              bookingId: result.newBooking.id,
+              actionType: 'reschedule',
+              error: sanitizeErrorForAudit(error, 'booking_reschedule_email_failed'),
+            });
+          }),
+        );
+
+        emitAuditEvent({
+          event: 'organizer_booking_action_completed',
+          level: 'info',
+          route: '/v0/me/bookings/:id/reschedule',
+          statusCode: 200,
+          actorUserId: authedUser.id,
+          actionType: 'reschedule',
+          bookingId: result.newBooking.id,
+        });
+        return context.json({
+          ok: true,
+          oldBooking: { id: result.oldBooking.id, status: result.oldBooking.status },
+          newBooking: {
+            id: result.newBooking.id,
+            status: 'confirmed',
+            rescheduledFromBookingId: result.oldBooking.id,
+            organizerId: result.newBooking.organizerId,
+            startsAt: result.newBooking.startsAt.toISOString(),
+            endsAt: result.newBooking.endsAt.toISOString(),
+          },
+          email: queuedEmailDelivery,
+          notifications: {
+            canceledForOldBooking: result.canceledNotificationsForOldBooking,
+            queuedForNewBooking: result.queuedNotificationsForNewBooking,
+          },
+          webhooks: { queued: sideEffects.queuedWebhookDeliveries },
+          calendarWriteback: sideEffects.calendarWriteback,
+        });
+      } catch (error) {
+        if (error instanceof BookingActionNotFoundError) {
+          return jsonError(context, 404, 'Booking not found.');
+        }
+        if (error instanceof BookingActionGoneError) {
+          return jsonError(context, 409, 'Only confirmed bookings can be rescheduled.');
+        }
+        if (error instanceof BookingValidationError) {
+          return jsonError(context, 400, error.message);
+        }
+        if (error instanceof BookingConflictError) {
+          return jsonError(context, 409, error.message);
+        }
+        if (error instanceof DemoQuotaAdmissionError || error instanceof DemoQuotaCreditsError) {
+          return jsonDemoQuotaError(context, db, context.env, authedUser, error);
+        }
+        throw error;
+      }
+    });
+  });
+
+  app.post('/v0/me/bookings/:id/no-show', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const bookingId = context.req.param('id');
+      if (!isUuid(bookingId)) {
+        return jsonError(context, 400, 'Invalid booking id.');
+      }
+
+      try {
+        const result = await markBookingNoShow(db, { organizerId: authedUser.id, bookingId, now: new Date() });
+        if (!result.alreadyMarked) {
+          emitAuditEvent({
+            event: 'organizer_booking_action_completed',
+            level: 'info',
+            route: '/v0/me/bookings/:id/no-show',
+            statusCode: 200,
+            actorUserId: authedUser.id,
+            actionType: 'no_show',
+            bookingId: result.booking.id,
+          });
+        }
+        return context.json({
+          ok: true,
+          booking: {
+            id: result.booking.id,
+            status: result.booking.status,
+            noShowAt: result.booking.noShowAt?.toISOString() ?? null,
+          },
+          alreadyMarked: result.alreadyMarked,
+          webhooks: { queued: result.queuedWebhookDeliveries },
+        });
+      } catch (error) {
+        if (error instanceof BookingActionNotFoundError) {
+          return jsonError(context, 404, 'Booking not found.');
+        }
+        if (error instanceof BookingActionGoneError || error instanceof BookingValidationError) {
+          return jsonError(context, 409, error.message);
+        }
+        throw error;
+      }
+    });
+  });
+};
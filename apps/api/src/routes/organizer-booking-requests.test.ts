@@ -0,0 +1,192 @@
+import { Hono } from 'hono';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Bindings } from '../server/types';
+
+const {
+  approveBookingRequestMock,
+  declineBookingRequestMock,
+  queueBookingCreatedSideEffectsMock,
+  queueBookingRequestWebhookMock,
+  resolveAuthenticatedUserMock,
+  sendBookingCreatedEmailSideEffectsMock,
+  sendBookingRequestEmailSideEffectsMock,
+  withDatabaseMock,
+} = vi.hoisted(() => ({
+  approveBookingRequestMock: vi.fn(),
+  declineBookingRequestMock: vi.fn(),
+  queueBookingCreatedSideEffectsMock: vi.fn(),
+  queueBookingRequestWebhookMock: vi.fn(),
+  resolveAuthenticatedUserMock: vi.fn(),
+  sendBookingCreatedEmailSideEffectsMock: vi.fn(),
+  sendBookingRequestEmailSideEffectsMock: vi.fn(),
+  withDatabaseMock: vi.fn(async (_context: unknown, handler: (db: unknown) => Promise<Response>) => handler({})),
+}));
+
+vi.mock('../server/database', () => ({
+  withDatabase: withDatabaseMock,
+  withConnectedDatabase: async (_context: unknown, handler: (db: unknown) => Promise<unknown>) => handler({}),
+}));
+
+vi.mock('../server/auth-session', () => ({
+  resolveAuthenticatedUser: resolveAuthenticatedUserMock,
+}));
+
+vi.mock('../server/booking-requests', () => ({
+  approveBookingRequest: approveBookingRequestMock,
+  declineBookingRequest: declineBookingRequestMock,
+  listPendingBookingRequests: vi.fn(),
+}));
+
+vi.mock('../server/booking-request-side-effects', () => ({
+  queueBookingRequestWebhook: queueBookingRequestWebhookMock,
+  sendBookingRequestEmailSideEffects: sendBookingRequestEmailSideEffectsMock,
+}));
+
+vi.mock('../server/booking-side-effects', () => ({
+  queuedEmailDelivery: { sent: false, provider: 'background', queued: true },
+  queueBookingCreatedSideEffects: queueBookingCreatedSideEffectsMock,
+  sendBookingCreatedEmailSideEffects: sendBookingCreatedEmailSideEffectsMock,
+}));
+
+import { BookingActionGoneError, BookingActionNotFoundError } from '../server/types';
+import { registerOrganizerBookingRequestRoutes } from './organizer-booking-requests';
+
+const bookingId = '8f14e45f-ceea-467f-a8b2-4f4f5b8f1a2c';
+
+const bindings = {
+  APP_BASE_URL: 'https://opencalendly.com',
+  SESSION_SECRET: '0123456789abcdef0123456789abcdef',
+} as Bindings;
+
+const executionCtx = {
+  waitUntil: vi.fn(),
+  passThroughOnException: vi.fn(),
+};
+
+const bookingRecord = {
+  id: bookingId,
+  eventTypeId: 'event_type_1',
+  organizerId: 'user_123',
+  inviteeName: 'Pat Lee',
+  inviteeEmail: 'pat@example.com',
+  startsAt: new Date('2026-03-12T16:00:00.000Z'),
+  endsAt: new Date('2026-03-12T16:30:00.000Z'),
+};
+
+const requestContext = {
+  eventType: { name: 'Partner Call', slug: 'partner-call', locationType: 'video', locationValue: null },
+  organizer: { email: 'owner@example.com', username: 'owner', displayName: 'Owner' },
+  timezone: 'America/Los_Angeles',
+  answers: {},
+};
+
+const request = (path: string, body: unknown) => {
+  const app = new Hono();
+  registerOrganizerBookingRequestRoutes(app as never);
+  return app.request(
+    `http://localhost${path}`,
+    { method: 'POST', body: JSON.stringify(body), headers: { 'content-type': 'application/json' } },
+    bindings,
+    executionCtx as never,
+  );
+};
+
+describe('organizer booking request routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resolveAuthenticatedUserMock.mockResolvedValue({ id: 'user_123', email: 'owner@example.com' });
+    queueBookingCreatedSideEffectsMock.mockResolvedValue({
+      queuedWebhookDeliveries: 1,
+      calendarWriteback: { queued: 0 },
+    });
+    queueBookingRequestWebhookMock.mockResolvedValue(1);
+    sendBookingCreatedEmailSideEffectsMock.mockResolvedValue({ sent: true, provider: 'resend' });
+    sendBookingRequestEmailSideEffectsMock.mockResolvedValue({ sent: true, provider: 'resend' });
+  });
+
+  it('requires authentication and a valid booking id', async () => {
+    expect((await request('/v0/me/booking-requests/not-a-uuid/approve', {})).status).toBe(400);
+
+    resolveAuthenticatedUserMock.mockResolvedValue(null);
+    expect((await request(`/v0/me/booking-requests/${bookingId}/approve`, {})).status).toBe(401);
+    expect(approveBookingRequestMock).not.toHaveBeenCalled();
+  });
+
+  it('approves a request and sends the invitee their links', async () => {
+    approveBookingRequestMock.mockResolvedValue({
+      booking: { ...bookingRecord, status: 'confirmed' },
+      ...requestContext,
+      actionTokens: [
+        { actionType: 'cancel', token: 'cancel-token', expiresAt: '2026-04-12T16:00:00.000Z' },
+        { actionType: 'reschedule', token: 'reschedule-token', expiresAt: '2026-04-12T16:00:00.000Z' },
+      ],
+      queuedNotifications: 2,
+    });
+
+    const response = await request(`/v0/me/booking-requests/${bookingId}/approve`, {});
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      ok: true,
+      booking: { id: bookingId, status: 'confirmed' },
+      notifications: { queued: 2 },
+      webhooks: { queued: 1 },
+    });
+    expect(queueBookingCreatedSideEffectsMock).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ webhookType: 'booking.approved' }),
+    );
+    expect(sendBookingCreatedEmailSideEffectsMock).toHaveBeenCalledWith(
+      bindings,
+      expect.anything(),
+      expect.objectContaining({
+        approvedRequest: true,
+        actionUrls: expect.objectContaining({
+          cancelPageUrl: 'https://opencalendly.com/bookings/actions/cancel-token',
+        }),
+      }),
+    );
+  });
+
+  it('declines a request with a reason and a rebooking link', async () => {
+    declineBookingRequestMock.mockResolvedValue({
+      booking: { ...bookingRecord, status: 'declined' },
+      ...requestContext,
+    });
+
+    const response = await request(`/v0/me/booking-requests/${bookingId}/decline`, { reason: 'Fully booked.' });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      ok: true,
+      booking: { id: bookingId, status: 'declined' },
+      rebookUrl: 'https://opencalendly.com/owner/partner-call',
+    });
+    expect(declineBookingRequestMock).toHaveBeenCalledWith(expect.anything(), expect.anything(), {
+      bookingId,
+      reason: 'Fully booked.',
+    });
+    expect(queueBookingRequestWebhookMock).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ type: 'booking.declined', metadata: { declineReason: 'Fully booked.' } }),
+    );
+    expect(sendBookingRequestEmailSideEffectsMock).toHaveBeenCalledWith(
+      bindings,
+      expect.anything(),
+      expect.objectContaining({ kind: 'declined', rebookLink: 'https://opencalendly.com/owner/partner-call' }),
+    );
+  });
+
+  it('maps missing and already handled requests to 404 and 409', async () => {
+    declineBookingRequestMock.mockRejectedValueOnce(new BookingActionNotFoundError('Booking request not found.'));
+    expect((await request(`/v0/me/booking-requests/${bookingId}/decline`, {})).status).toBe(404);
+
+    approveBookingRequestMock.mockRejectedValueOnce(
+      new BookingActionGoneError('This booking request was already handled.'),
+    );
+    const response = await request(`/v0/me/booking-requests/${bookingId}/approve`, {});
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({ ok: false, error: 'This booking request was already handled.' });
+  });
+});
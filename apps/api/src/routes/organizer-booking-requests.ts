@@ -0,0 +1,216 @@
+import { bookingRequestDeclineSchema } from '@opencalendly/shared';
+
+import { resolveAuthenticatedUser } from '../server/auth-session';
+import { emitAuditEvent, sanitizeErrorForAudit } from '../server/audit';
+import { actionTokenMap, buildActionUrls, buildBookingPageUrl } from '../server/booking-action-links';
+import {
+  queueBookingRequestWebhook,
+  sendBookingRequestEmailSideEffects,
+} from '../server/booking-request-side-effects';
+import {
+  approveBookingRequest,
+  declineBookingRequest,
+  listPendingBookingRequests,
+} from '../server/booking-requests';
+import {
+  queueBookingCreatedSideEffects,
+  queuedEmailDelivery,
+  sendBookingCreatedEmailSideEffects,
+} from '../server/booking-side-effects';
+import { isUuid, jsonError, queueBackgroundTask } from '../server/core';
+import { withConnectedDatabase, withDatabase } from '../server/database';
+import { resolveAppBaseUrl } from '../server/env';
+import type { ApiApp } from '../server/types';
+import { BookingActionGoneError, BookingActionNotFoundError } from '../server/types';
+
+const jsonDecisionError = (context: Parameters<typeof jsonError>[0], error: unknown): Response | null => {
+  if (error instanceof BookingActionNotFoundError) {
+    return jsonError(context, 404, 'Booking request not found.');
+  }
+  if (error instanceof BookingActionGoneError) {
+    return jsonError(context, 409, error.message);
+  }
+  return null;
+};
+
+export const registerOrganizerBookingRequestRoutes = (app: ApiApp): void => {
+  app.get('/v0/me/booking-requests', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const requests = await listPendingBookingRequests(db, { organizerId: authedUser.id, now: new Date() });
+      return context.json({ ok: true, requests });
+    });
+  });
+
+  app.post('/v0/me/booking-requests/:id/approve', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const bookingId = context.req.param('id');
+      if (!isUuid(bookingId)) {
+        return jsonError(context, 400, 'Invalid booking id.');
+      }
+
+      let appBaseUrl: string;
+      try {
+        appBaseUrl = resolveAppBaseUrl(context.env, context.req.raw);
+      } catch (error) {
+        return jsonError(context, 500, error instanceof Error ? error.message : 'APP_BASE_URL must be a valid URL.');
+      }
+
+      try {
+        const result = await approveBookingRequest(db, authedUser, { bookingId });
+        const tokens = actionTokenMap(result.actionTokens);
+        const actionUrls = buildActionUrls(context.req.raw, appBaseUrl, {
+          cancelToken: tokens.cancelToken,
+          rescheduleToken: tokens.rescheduleToken,
+        });
+        const sideEffects = await queueBookingCreatedSideEffects(db, {
+          booking: result.booking,
+          eventType: result.eventType,
+          organizerDisplayName: result.organizer.displayName,
+          timezone: result.timezone,
+          actionUrls,
+          webhookMetadata: { answers: result.answers },
+          webhookType: 'booking.approved',
+        });
+        queueBackgroundTask(
+          context,
+          withConnectedDatabase(context, async (backgroundDb) => {
+            await sendBookingCreatedEmailSideEffects(context.env, backgroundDb, {
+              booking: result.booking,
+              eventType: result.eventType,
+              organizerDisplayName: result.organizer.displayName,
+              organizerEmail: result.organizer.email,
+              timezone: result.timezone,
+              actionUrls,
+              approvedRequest: true,
+            });
+          }).catch((error) => {
+            emitAuditEvent({
+              event: 'booking_side_effect_failed',
+              level: 'error',
+              route: '/v0/me/booking-requests/:id/approve',
+              bookingId: result.booking.id,
+              error: sanitizeErrorForAudit(error, 'booking_approved_email_failed'),
+            });
+          }),
+        );
+
+        emitAuditEvent({
+          event: 'booking_request_approved',
+          level: 'info',
+          route: '/v0/me/booking-requests/:id/approve',
+          statusCode: 200,
+          actorUserId: authedUser.id,
+          bookingId: result.booking.id,
+        });
+        return context.json({
+          ok: true,
+          booking: { id: result.booking.id, status: result.booking.status },
+          email: queuedEmailDelivery,
+          notifications: { queued: result.queuedNotifications },
+          webhooks: { queued: sideEffects.queuedWebhookDeliveries },
+          calendarWriteback: sideEffects.calendarWriteback,
+        });
+      } catch (error) {
+        const response = jsonDecisionError(context, error);
+        if (response) {
+          return response;
+        }
+        throw error;
+      }
+    });
+  });
+
+  app.post('/v0/me/booking-requests/:id/decline', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const bookingId = context.req.param('id');
+      if (!isUuid(bookingId)) {
+        return jsonError(context, 400, 'Invalid booking id.');
+      }
+
+      const parsed = bookingRequestDeclineSchema.safeParse(await context.req.json().catch(() => ({})));
+      if (!parsed.success) {
+        return jsonError(context, 400, parsed.error.issues[0]?.message ?? 'Invalid request body.');
+      }
+
+      let appBaseUrl: string;
+      try {
+        appBaseUrl = resolveAppBaseUrl(context.env, context.req.raw);
+      } catch (error) {
+        return jsonError(context, 500, error instanceof Error ? error.message : 'APP_BASE_URL must be a valid URL.');
+      }
+
+      const declineReason = parsed.data.reason ?? null;
+      try {
+        const result = await declineBookingRequest(db, authedUser, { bookingId, reason: declineReason });
+        const queuedWebhookDeliveries = await queueBookingRequestWebhook(db, {
+          type: 'booking.declined',
+          booking: result.booking,
+          metadata: { declineReason },
+        });
+        const rebookLink = buildBookingPageUrl(appBaseUrl, {
+          organizerUsername: result.organizer.username,
+          eventSlug: result.eventType.slug,
+        });
+        queueBackgroundTask(
+          context,
+          withConnectedDatabase(context, async (backgroundDb) => {
+            await sendBookingRequestEmailSideEffects(context.env, backgroundDb, {
+              kind: 'declined',
+              booking: result.booking,
+              eventName: result.eventType.name,
+              organizerDisplayName: result.organizer.displayName,
+              timezone: result.timezone,
+              declineReason,
+              rebookLink,
+            });
+          }).catch((error) => {
+            emitAuditEvent({
+              event: 'booking_side_effect_failed',
+              level: 'error',
+              route: '/v0/me/booking-requests/:id/decline',
+              bookingId: result.booking.id,
+              error: sanitizeErrorForAudit(error, 'booking_declined_email_failed'),
+            });
+          }),
+        );
+
+        emitAuditEvent({
+          event: 'booking_request_declined',
+          level: 'info',
+          route: '/v0/me/booking-requests/:id/decline',
+          statusCode: 200,
+          actorUserId: authedUser.id,
+          bookingId: result.booking.id,
+        });
+        return context.json({
+          ok: true,
+          booking: { id: result.booking.id, status: result.booking.status },
+          rebookUrl: rebookLink,
+          email: queuedEmailDelivery,
+          webhooks: { queued: queuedWebhookDeliveries },
+        });
+      } catch (error) {
+        const response = jsonDecisionError(context, error);
+        if (response) {
+          return response;
+        }
+        throw error;
+      }
+    });
+  });
+};
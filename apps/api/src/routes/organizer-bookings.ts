@@ -0,0 +1,171 @@
+import { and, asc, desc, eq, gt, gte, ilike, lt, lte, or, type SQL } from 'drizzle-orm';
+
+import { bookings, eventTypes } from '@opencalendly/db';
+import { organizerBookingsQuerySchema } from '@opencalendly/shared';
+
+import { parseBookingMetadata } from '../lib/booking-actions';
+import {
+  decodeOrganizerBookingsCursor,
+  encodeOrganizerBookingsCursor,
+  resolveOrganizerBookingsWindow,
+  toInviteeSearchPattern,
+} from '../lib/organizer-bookings';
+import { resolveAuthenticatedUser } from '../server/auth-session';
+import { jsonError, normalizeTimezone } from '../server/core';
+import { withDatabase } from '../server/database';
+import type { ApiApp } from '../server/types';
+
+export const registerOrganizerBookingRoutes = (app: ApiApp): void => {
+  app.get('/v0/me/bookings', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const query = Object.fromEntries(new URL(context.req.url).searchParams.entries());
+      const parsed = organizerBookingsQuerySchema.safeParse(query);
+      if (!parsed.success) {
+        return jsonError(context, 400, parsed.error.issues[0]?.message ?? 'Invalid query params.');
+      }
+
+      let window: ReturnType<typeof resolveOrganizerBookingsWindow>;
+      try {
+        window = resolveOrganizerBookingsWindow({
+          status: parsed.data.status,
+          startDate: parsed.data.startDate,
+          endDate: parsed.data.endDate,
+          now: new Date(),
+        });
+      } catch (error) {
+        return jsonError(
+          context,
+          400,
+          error instanceof Error ? error.message : 'Invalid booking filters.',
+        );
+      }
+
+      const cursor = parsed.data.cursor ? decodeOrganizerBookingsCursor(parsed.data.cursor) : null;
+      if (parsed.data.cursor && !cursor) {
+        return jsonError(context, 400, 'Invalid cursor.');
+      }
+
+      const conditions: SQL[] = [
+        eq(bookings.organizerId, authedUser.id),
+        eq(bookings.status, window.status),
+      ];
+      if (window.endsAfter) {
+        conditions.push(gt(bookings.endsAt, window.endsAfter));
+      }
+      if (window.endsAtOrBefore) {
+        conditions.push(lte(bookings.endsAt, window.endsAtOrBefore));
+      }
+      if (window.startsAtOrAfter) {
+        conditions.push(gte(bookings.startsAt, window.startsAtOrAfter));
+      }
+      if (window.startsBefore) {
+        conditions.push(lt(bookings.startsAt, window.startsBefore));
+      }
+      if (parsed.data.eventTypeId) {
+        conditions.push(eq(bookings.eventTypeId, parsed.data.eventTypeId));
+      }
+      if (parsed.data.q) {
+        const pattern = toInviteeSearchPattern(parsed.data.q);
+        const searchCondition = or(
+          ilike(bookings.inviteeName, pattern),
+          ilike(bookings.inviteeEmail, pattern),
+        );
+        if (searchCondition) {
+          conditions.push(searchCondition);
+        }
+      }
+      if (cursor) {
+        const cursorStartsAt = new Date(cursor.startsAt);
+        const compare = window.order === 'asc' ? gt : lt;
+        const cursorCondition = or(
+          compare(bookings.startsAt, cursorStartsAt),
+          and(eq(bookings.startsAt, cursorStartsAt), compare(bookings.id, cursor.id)),
+        );
+        if (cursorCondition) {
+          conditions.push(cursorCondition);
+        }
+      }
+
+      const direction = window.order === 'asc' ? asc : desc;
+      const limit = parsed.data.limit;
+      const rows = await db
+        .select({
+          id: bookings.id,
+          eventTypeId: bookings.eventTypeId,
+          eventTypeName: eventTypes.name,
+          eventTypeSlug: eventTypes.slug,
+          eventTypeDurationMinutes: eventTypes.durationMinutes,
+          inviteeName: bookings.inviteeName,
+          inviteeEmail: bookings.inviteeEmail,
+          startsAt: bookings.startsAt,
+          endsAt: bookings.endsAt,
+          status: bookings.status,
+          rescheduledFromBookingId: bookings.rescheduledFromBookingId,
+          canceledAt: bookings.canceledAt,
+          canceledBy: bookings.canceledBy,
+          cancellationReason: bookings.cancellationReason,
+          noShowAt: bookings.noShowAt,
+          metadata: bookings.metadata,
+          createdAt: bookings.createdAt,
+        })
+        .from(bookings)
+        .innerJoin(eventTypes, eq(eventTypes.id, bookings.eventTypeId))
+        .where(and(...conditions))
+        .orderBy(direction(bookings.startsAt), direction(bookings.id))
+        .limit(limit + 1);
+
+      const page = rows.slice(0, limit);
+      const lastRow = page[page.length - 1];
+      const nextCursor =
+        rows.length > limit && lastRow
+          ? encodeOrganizerBookingsCursor({
+              startsAt: lastRow.startsAt.toISOString(),
+              id: lastRow.id,
+            })
+          : null;
+
+      return context.json({
+        ok: true,
+        status: parsed.data.status,
+        bookings: page.map((row) => {
+          const metadata = parseBookingMetadata(row.metadata, normalizeTimezone);
+          return {
+            id: row.id,
+            eventType: {
+              id: row.eventTypeId,
+              name: row.eventTypeName,
+              slug: row.eventTypeSlug,
+              durationMinutes: row.eventTypeDurationMinutes,
+            },
+            inviteeName: row.inviteeName,
+            inviteeEmail: row.inviteeEmail,
+            startsAt: row.startsAt.toISOString(),
+            endsAt: row.endsAt.toISOString(),
+            status: row.status,
+            timezone: metadata.timezone ?? null,
+            answers: metadata.answers,
+            team: metadata.team
+              ? {
+                  teamId: metadata.team.teamId,
+                  teamEventTypeId: metadata.team.teamEventTypeId,
+                  mode: metadata.team.mode,
+                }
+              : null,
+            rescheduledFromBookingId: row.rescheduledFromBookingId,
+            canceledAt: row.canceledAt ? row.canceledAt.toISOString() : null,
+            canceledBy: row.canceledBy,
+            cancellationReason: row.cancellationReason,
+            noShowAt: row.noShowAt ? row.noShowAt.toISOString() : null,
+            createdAt: row.createdAt.toISOString(),
+          };
+        }),
+        nextCursor,
+      });
+    });
+  });
+};
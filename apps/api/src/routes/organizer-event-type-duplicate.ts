@@ -0,0 +1,83 @@
+import { eventTypeDuplicateSchema } from '@opencalendly/shared';
+
+import { resolveAuthenticatedUser } from '../server/auth-session';
+import { isUuid, jsonError } from '../server/core';
+import { withDatabase, isUniqueViolation } from '../server/database';
+import { assertDemoFeatureAvailable, jsonDemoQuotaError } from '../server/demo-quota';
+import { duplicateEventType } from '../server/event-type-duplicate';
+import { toEventQuestions } from '../server/public-events';
+import type { ApiApp } from '../server/types';
+import {
+  DemoQuotaAdmissionError,
+  DemoQuotaCreditsError,
+  EventTypeDuplicateSlugExhaustedError,
+} from '../server/types';
+import { enqueueEventTypeWebhookEvent } from '../server/webhook-events';
+
+const normalizeSlugBody = (body: unknown): unknown => {
+  return body && typeof body === 'object'
+    ? {
+        ...body,
+        slug: typeof (body as { slug?: unknown }).slug === 'string'
+          ? ((body as { slug: string }).slug).toLowerCase().trim()
+          : (body as { slug?: unknown }).slug,
+      }
+    : body;
+};
+
+export const registerOrganizerEventTypeDuplicateRoutes = (app: ApiApp): void => {
+  app.post('/v0/event-types/:id/duplicate', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const eventTypeId = context.req.param('id');
+      if (!isUuid(eventTypeId)) {
+        return jsonError(context, 400, 'Invalid event type id.');
+      }
+
+      const parsed = eventTypeDuplicateSchema.safeParse(normalizeSlugBody(await context.req.json().catch(() => ({}))));
+      if (!parsed.success) {
+        return jsonError(context, 400, parsed.error.issues[0]?.message ?? 'Invalid request body.');
+      }
+
+      try {
+        await assertDemoFeatureAvailable(db, context.env, authedUser, 'event_type_create');
+        const result = await duplicateEventType(db, context.env, authedUser, {
+          eventTypeId,
+          ...(parsed.data.name ? { name: parsed.data.name } : {}),
+          ...(parsed.data.slug ? { slug: parsed.data.slug } : {}),
+        });
+        if (!result) {
+          return jsonError(context, 404, 'Event type not found.');
+        }
+        await enqueueEventTypeWebhookEvent(db, {
+          type: 'event_type.created',
+          eventTypeId: result.eventType.id,
+          changedFields: [],
+        });
+
+        return context.json({
+          ok: true,
+          eventType: { ...result.eventType, questions: toEventQuestions(result.eventType.questions) },
+          duplicatedFromEventTypeId: eventTypeId,
+          notificationRules: { copied: result.notificationRuleCount },
+          teamEventType: result.teamEventType,
+        });
+      } catch (error) {
+        if (error instanceof EventTypeDuplicateSlugExhaustedError) {
+          return jsonError(context, 409, error.message);
+        }
+        if (isUniqueViolation(error, 'event_types_user_slug_unique')) {
+          return jsonError(context, 409, 'An event type with that slug already exists.');
+        }
+        if (error instanceof DemoQuotaAdmissionError || error instanceof DemoQuotaCreditsError) {
+          return jsonDemoQuotaError(context, db, context.env, authedUser, error);
+        }
+        throw error;
+      }
+    });
+  });
+};
@@ -0,0 +1,247 @@
+import { Hono } from 'hono';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Bindings } from '../server/types';
+
+const {
+  cancelFutureBookingsForEventTypeMock,
+  consumeDemoFeatureCreditsMock,
+  countOpenPaymentHoldsMock,
+  deleteEventTypeRecordsMock,
+  findOwnedEventTypeMock,
+  listFutureConfirmedBookingIdsMock,
+  listFuturePendingRequestIdsMock,
+  resolveAuthenticatedUserMock,
+  updateWhereMock,
+  withDatabaseMock,
+} = vi.hoisted(() => {
+  const updateWhereMock = vi.fn();
+  const db = {
+    update: () => ({ set: () => ({ where: updateWhereMock }) }),
+    transaction: async (handler: (transaction: unknown) => Promise<unknown>) =>
+      handler({
+        update: () => ({ set: () => ({ where: () => ({ returning: updateWhereMock }) }) }),
+      }),
+  };
+  return {
+    cancelFutureBookingsForEventTypeMock: vi.fn(),
+    consumeDemoFeatureCreditsMock: vi.fn(),
+    countOpenPaymentHoldsMock: vi.fn(),
+    deleteEventTypeRecordsMock: vi.fn(),
+    findOwnedEventTypeMock: vi.fn(),
+    listFutureConfirmedBookingIdsMock: vi.fn(),
+    listFuturePendingRequestIdsMock: vi.fn(),
+    resolveAuthenticatedUserMock: vi.fn(),
+    updateWhereMock,
+    withDatabaseMock: vi.fn(async (_context: unknown, handler: (db: unknown) => Promise<Response>) =>
+      handler(db),
+    ),
+  };
+});
+
+vi.mock('../server/database', () => ({
+  withDatabase: withDatabaseMock,
+}));
+
+vi.mock('../server/auth-session', () => ({
+  resolveAuthenticatedUser: resolveAuthenticatedUserMock,
+}));
+
+vi.mock('../server/demo-quota', () => ({
+  consumeDemoFeatureCredits: consumeDemoFeatureCreditsMock,
+  jsonDemoQuotaError: vi.fn(),
+}));
+
+vi.mock('../server/event-type-lifecycle', () => ({
+  EVENT_TYPE_DELETE_CANCEL_LIMIT: 2,
+  OPEN_PAYMENT_HOLDS_MESSAGE: 'Some bookings are still waiting on payment.',
+  cancelFutureBookingsForEventType: cancelFutureBookingsForEventTypeMock,
+  countOpenPaymentHolds: countOpenPaymentHoldsMock,
+  deleteEventTypeRecords: deleteEventTypeRecordsMock,
+  findOwnedEventType: findOwnedEventTypeMock,
+  listFutureConfirmedBookingIds: listFutureConfirmedBookingIdsMock,
+  listFuturePendingRequestIds: listFuturePendingRequestIdsMock,
+}));
+
+import { registerOrganizerEventTypeLifecycleRoutes } from './organizer-event-type-lifecycle';
+
+const eventTypeId = '8f14e45f-ceea-467f-a8b2-4f4f5b8f1a2c';
+const bookingIds = ['1b4e28ba-2fa1-41d2-883f-0016d3cca427', '6fa459ea-ee8a-3ca4-894e-db77e160355e'];
+
+const bindings = {
+  APP_BASE_URL: 'https://opencalendly.com',
+  SESSION_SECRET: '0123456789abcdef0123456789abcdef',
+} as Bindings;
+
+const ownedEventType = {
+  id: eventTypeId,
+  slug: 'intro-call',
+  name: 'Intro Call',
+  isActive: true,
+  archivedAt: null,
+};
+
+const request = (path: string, method: 'POST' | 'DELETE') => {
+  const app = new Hono();
+  registerOrganizerEventTypeLifecycleRoutes(app as never);
+  return app.request(`http://localhost${path}`, { method }, bindings);
+};
+
+describe('organizer event type lifecycle routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resolveAuthenticatedUserMock.mockResolvedValue({ id: 'user_123', email: 'owner@example.com' });
+    findOwnedEventTypeMock.mockResolvedValue(ownedEventType);
+    listFutureConfirmedBookingIdsMock.mockResolvedValue([]);
+    listFuturePendingRequestIdsMock.mockResolvedValue([]);
+    countOpenPaymentHoldsMock.mockResolvedValue(0);
+    deleteEventTypeRecordsMock.mockResolvedValue(true);
+    cancelFutureBookingsForEventTypeMock.mockImplementation(
+      async (_db: unknown, _env: unknown, _user: unknown, input: { bookingIds: string[]; requestIds: string[] }) => ({
+        canceledBookings: input.bookingIds.length,
+        declinedRequests: input.requestIds.length,
+        canceledNotifications: input.bookingIds.length,
+        queuedWebhookDeliveries: input.bookingIds.length + input.requestIds.length,
+        calendarWriteback: { processed: 0, succeeded: 0, retried: 0, failed: 0 },
+      }),
+    );
+  });
+
+  it('archives an event type and deactivates it', async () => {
+    const archivedAt = new Date('2026-03-12T16:00:00.000Z');
+    updateWhereMock.mockResolvedValueOnce([{ ...ownedEventType, isActive: false, archivedAt }]);
+
+    const response = await request(`/v0/event-types/${eventTypeId}/archive`, 'POST');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      ok: true,
+      eventType: { id: eventTypeId, slug: 'intro-call', isActive: false, archivedAt: archivedAt.toISOString() },
+    });
+    expect(consumeDemoFeatureCreditsMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('treats restoring a non-archived event type as a no-op', async () => {
+    const response = await request(`/v0/event-types/${eventTypeId}/restore`, 'POST');
+
+    expect(response.status).toBe(200);
+    expect(updateWhereMock).not.toHaveBeenCalled();
+    expect(consumeDemoFeatureCreditsMock).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for event types owned by someone else', async () => {
+    findOwnedEventTypeMock.mockResolvedValue(null);
+
+    expect((await request(`/v0/event-types/${eventTypeId}/archive`, 'POST')).status).toBe(404);
+    expect((await request(`/v0/event-types/${eventTypeId}`, 'DELETE')).status).toBe(404);
+    expect(deleteEventTypeRecordsMock).not.toHaveBeenCalled();
+  });
+
+  it('refuses to hard-delete while upcoming confirmed bookings exist', async () => {
+    listFutureConfirmedBookingIdsMock.mockResolvedValue([bookingIds[0]]);
+
+    const response = await request(`/v0/event-types/${eventTypeId}`, 'DELETE');
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ ok: false, futureBookingCount: 1 });
+    expect(updateWhereMock).not.toHaveBeenCalled();
+    expect(cancelFutureBookingsForEventTypeMock).not.toHaveBeenCalled();
+    expect(deleteEventTypeRecordsMock).not.toHaveBeenCalled();
+  });
+
+  it('cancels upcoming bookings with notification before deleting when asked', async () => {
+    listFutureConfirmedBookingIdsMock.mockResolvedValue(bookingIds);
+
+    const response = await request(`/v0/event-types/${eventTypeId}?cancelFutureBookings=true`, 'DELETE');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      ok: true,
+      deletedEventTypeId: eventTypeId,
+      canceledBookings: 2,
+      webhooks: { queued: 2 },
+    });
+    expect(updateWhereMock).toHaveBeenCalledTimes(1);
+    expect(cancelFutureBookingsForEventTypeMock).toHaveBeenCalledWith(
+      expect.anything(),
+      bindings,
+      expect.objectContaining({ id: 'user_123' }),
+      { eventTypeId, bookingIds, requestIds: [], appBaseUrl: 'https://opencalendly.com' },
+    );
+    expect(deleteEventTypeRecordsMock).toHaveBeenCalledWith(expect.anything(), {
+      eventTypeId,
+      userId: 'user_123',
+    });
+  });
+
+  it('counts pending booking requests as upcoming bookings', async () => {
+    listFuturePendingRequestIdsMock.mockResolvedValue([bookingIds[1]]);
+
+    const response = await request(`/v0/event-types/${eventTypeId}`, 'DELETE');
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ ok: false, futureBookingCount: 1, pendingRequestCount: 1 });
+    expect(deleteEventTypeRecordsMock).not.toHaveBeenCalled();
+  });
+
+  it('declines pending requests alongside canceling bookings when asked', async () => {
+    listFutureConfirmedBookingIdsMock.mockResolvedValue([bookingIds[0]]);
+    listFuturePendingRequestIdsMock.mockResolvedValue([bookingIds[1]]);
+
+    const response = await request(`/v0/event-types/${eventTypeId}?cancelFutureBookings=true`, 'DELETE');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ canceledBookings: 1, declinedRequests: 1, webhooks: { queued: 2 } });
+    expect(cancelFutureBookingsForEventTypeMock).toHaveBeenCalledWith(
+      expect.anything(),
+      bindings,
+      expect.anything(),
+      { eventTypeId, bookingIds: [bookingIds[0]], requestIds: [bookingIds[1]], appBaseUrl: 'https://opencalendly.com' },
+    );
+  });
+
+  it('keeps the inline limit across bookings and requests combined', async () => {
+    listFutureConfirmedBookingIdsMock.mockResolvedValue(bookingIds);
+    listFuturePendingRequestIdsMock.mockResolvedValue(['extra-request']);
+
+    const response = await request(`/v0/event-types/${eventTypeId}?cancelFutureBookings=true`, 'DELETE');
+
+    expect(response.status).toBe(409);
+    expect(cancelFutureBookingsForEventTypeMock).not.toHaveBeenCalled();
+  });
+
+  it('refuses to hard-delete while a payment hold or open checkout exists', async () => {
+    // Cascading the hold away would make a later payment confirmation unmatched and unrefunded.
+    countOpenPaymentHoldsMock.mockResolvedValue(1);
+
+    const response = await request(`/v0/event-types/${eventTypeId}?cancelFutureBookings=true`, 'DELETE');
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ ok: false, pendingPaymentCount: 1 });
+    expect(countOpenPaymentHoldsMock).toHaveBeenCalledWith(expect.anything(), { eventTypeIds: [eventTypeId] });
+    expect(updateWhereMock).not.toHaveBeenCalled();
+    expect(cancelFutureBookingsForEventTypeMock).not.toHaveBeenCalled();
+    expect(deleteEventTypeRecordsMock).not.toHaveBeenCalled();
+  });
+
+  it('re-checks payment holds after closing the booking page', async () => {
+    countOpenPaymentHoldsMock.mockResolvedValueOnce(0).mockResolvedValueOnce(1);
+
+    const response = await request(`/v0/event-types/${eventTypeId}`, 'DELETE');
+
+    expect(response.status).toBe(409);
+    expect(updateWhereMock).toHaveBeenCalledTimes(1);
+    expect(cancelFutureBookingsForEventTypeMock).not.toHaveBeenCalled();
+    expect(deleteEventTypeRecordsMock).not.toHaveBeenCalled();
+  });
+
+  it('refuses bulk cancellation above the inline limit', async () => {
+    listFutureConfirmedBookingIdsMock.mockResolvedValue([...bookingIds, 'extra-booking']);
+
+    const response = await request(`/v0/event-types/${eventTypeId}?cancelFutureBookings=true`, 'DELETE');
+
+    expect(response.status).toBe(409);
+    expect(cancelFutureBookingsForEventTypeMock).not.toHaveBeenCalled();
+    expect(deleteEventTypeRecordsMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,226 @@
+import { and, eq } from 'drizzle-orm';
+
+import { eventTypes } from '@opencalendly/db';
+
+import { resolveAuthenticatedUser } from '../server/auth-session';
+import { emitAuditEvent } from '../server/audit';
+import { isUuid, jsonError } from '../server/core';
+import { withDatabase } from '../server/database';
+import { consumeDemoFeatureCredits, jsonDemoQuotaError } from '../server/demo-quota';
+import { resolveAppBaseUrl } from '../server/env';
+import {
+  EVENT_TYPE_DELETE_CANCEL_LIMIT,
+  OPEN_PAYMENT_HOLDS_MESSAGE,
+  cancelFutureBookingsForEventType,
+  countOpenPaymentHolds,
+  deleteEventTypeRecords,
+  findOwnedEventType,
+  listFutureConfirmedBookingIds,
+  listFuturePendingRequestIds,
+} from '../server/event-type-lifecycle';
+import { buildDemoFeatureSourceKey } from '../server/idempotency';
+import type { ApiApp, DemoQuotaDb, QueryableDb } from '../server/types';
+import {
+  BookingActionGoneError,
+  BookingActionNotFoundError,
+  DemoQuotaAdmissionError,
+  DemoQuotaCreditsError,
+} from '../server/types';
+
+const TOO_MANY_BOOKINGS_MESSAGE = `More than ${EVENT_TYPE_DELETE_CANCEL_LIMIT} upcoming bookings and requests would be canceled. Archive the event type and cancel them from the bookings list first.`;
+
+// Confirmed bookings and pending requests share the inline cancellation budget.
+const listUpcomingForDelete = async (db: QueryableDb, eventTypeId: string) => {
+  const input = { eventTypeId, now: new Date(), limit: EVENT_TYPE_DELETE_CANCEL_LIMIT + 1 };
+  const bookingIds = await listFutureConfirmedBookingIds(db, input);
+  const requestIds = await listFuturePendingRequestIds(db, input);
+  return { bookingIds, requestIds, count: bookingIds.length + requestIds.length };
+};
+
+const toArchiveState = (row: { id: string; slug: string; isActive: boolean; archivedAt: Date | null }) => ({
+  id: row.id,
+  slug: row.slug,
+  isActive: row.isActive,
+  archivedAt: row.archivedAt ? row.archivedAt.toISOString() : null,
+});
+
+export const registerOrganizerEventTypeLifecycleRoutes = (app: ApiApp): void => {
+  for (const action of ['archive', 'restore'] as const) {
+    app.post(`/v0/event-types/:id/${action}`, async (context) => {
+      return withDatabase(context, async (db) => {
+        const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+        if (!authedUser) {
+          return jsonError(context, 401, 'Unauthorized.');
+        }
+
+        const eventTypeId = context.req.param('id');
+        if (!isUuid(eventTypeId)) {
+          return jsonError(context, 400, 'Invalid event type id.');
+        }
+
+        const existing = await findOwnedEventType(db, { eventTypeId, userId: authedUser.id });
+        if (!existing) {
+          return jsonError(context, 404, 'Event type not found.');
+        }
+        if ((action === 'archive') === Boolean(existing.archivedAt)) {
+          return context.json({ ok: true, eventType: toArchiveState(existing) });
+        }
+
+        try {
+          const now = new Date();
+          const saved = await db.transaction(async (transaction) => {
+            // Archiving hides the type from booking pages but keeps every booking, reminder, and
+            // team link intact. Restoring leaves it inactive so the organizer re-publishes on purpose.
+            const [row] = await transaction
+              .update(eventTypes)
+              .set(action === 'archive' ? { archivedAt: now, isActive: false } : { archivedAt: null })
+              .where(and(eq(eventTypes.id, eventTypeId), eq(eventTypes.userId, authedUser.id)))
+              .returning({
+                id: eventTypes.id,
+                slug: eventTypes.slug,
+                isActive: eventTypes.isActive,
+                archivedAt: eventTypes.archivedAt,
+              });
+            if (!row) {
+              return null;
+            }
+
+            await consumeDemoFeatureCredits(transaction as DemoQuotaDb, context.env, authedUser, {
+              featureKey: 'event_type_update',
+              sourceKey: buildDemoFeatureSourceKey('event_type_update', { eventTypeId, action }),
+              metadata: { eventTypeId, slug: row.slug, action },
+              now,
+            });
+            return row;
+          });
+
+          if (!saved) {
+            return jsonError(context, 404, 'Event type not found.');
+          }
+
+          emitAuditEvent({
+            event: action === 'archive' ? 'event_type_archived' : 'event_type_restored',
+            level: 'info',
+            actorUserId: authedUser.id,
+            route: `/v0/event-types/:id/${action}`,
+            statusCode: 200,
+            eventTypeId,
+          });
+          return context.json({ ok: true, eventType: toArchiveState(saved) });
+        } catch (error) {
+          if (error instanceof DemoQuotaAdmissionError || error instanceof DemoQuotaCreditsError) {
+            return jsonDemoQuotaError(context, db, context.env, authedUser, error);
+          }
+          throw error;
+        }
+      });
+    });
+  }
+
+  app.delete('/v0/event-types/:id', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const eventTypeId = context.req.param('id');
+      if (!isUuid(eventTypeId)) {
+        return jsonError(context, 400, 'Invalid event type id.');
+      }
+      const cancelFutureBookings = context.req.query('cancelFutureBookings') === 'true';
+
+      const existing = await findOwnedEventType(db, { eventTypeId, userId: authedUser.id });
+      if (!existing) {
+        return jsonError(context, 404, 'Event type not found.');
+      }
+
+      const openPaymentHolds = await countOpenPaymentHolds(db, { eventTypeIds: [eventTypeId] });
+      if (openPaymentHolds > 0) {
+        return context.json(
+          { ok: false, error: OPEN_PAYMENT_HOLDS_MESSAGE, pendingPaymentCount: openPaymentHolds },
+          409,
+        );
+      }
+
+      const upcoming = await listUpcomingForDelete(db, eventTypeId);
+      if (upcoming.count > 0 && !cancelFutureBookings) {
+        return context.json(
+          {
+            ok: false,
+            error:
+              'This event type has upcoming bookings or pending requests. Archive it instead, or delete with cancelFutureBookings=true to cancel or decline them and notify invitees.',
+            futureBookingCount: upcoming.count,
+            pendingRequestCount: upcoming.requestIds.length,
+          },
+          409,
+        );
+      }
+      if (upcoming.count > EVENT_TYPE_DELETE_CANCEL_LIMIT) {
+        return jsonError(context, 409, TOO_MANY_BOOKINGS_MESSAGE);
+      }
+
+      let appBaseUrl: string;
+      try {
+        appBaseUrl = resolveAppBaseUrl(context.env, context.req.raw);
+      } catch (error) {
+        return jsonError(context, 500, error instanceof Error ? error.message : 'APP_BASE_URL must be a valid URL.');
+      }
+
+      try {
+        // Close the booking page first so no new booking lands between the cancellations and the
+        // delete, then re-read the upcoming bookings and payment holds under that guarantee.
+        await db
+          .update(eventTypes)
+          .set({ isActive: false })
+          .where(and(eq(eventTypes.id, eventTypeId), eq(eventTypes.userId, authedUser.id)));
+        if ((await countOpenPaymentHolds(db, { eventTypeIds: [eventTypeId] })) > 0) {
+          return jsonError(context, 409, OPEN_PAYMENT_HOLDS_MESSAGE);
+        }
+        const toCancel = await listUpcomingForDelete(db, eventTypeId);
+        if (toCancel.count > EVENT_TYPE_DELETE_CANCEL_LIMIT) {
+          return jsonError(context, 409, TOO_MANY_BOOKINGS_MESSAGE);
+        }
+        const cancellation = await cancelFutureBookingsForEventType(db, context.env, authedUser, {
+          eventTypeId,
+          bookingIds: toCancel.bookingIds,
+          requestIds: toCancel.requestIds,
+          appBaseUrl,
+        });
+        const deleted = await deleteEventTypeRecords(db, { eventTypeId, userId: authedUser.id });
+        if (!deleted) {
+          return jsonError(context, 404, 'Event type not found.');
+        }
+
+        emitAuditEvent({
+          event: 'event_type_deleted',
+          level: 'info',
+          actorUserId: authedUser.id,
+          route: '/v0/event-types/:id',
+          statusCode: 200,
+          eventTypeId,
+          canceledBookings: cancellation.canceledBookings,
+          declinedRequests: cancellation.declinedRequests,
+        });
+        return context.json({
+          ok: true,
+          deletedEventTypeId: eventTypeId,
+          canceledBookings: cancellation.canceledBookings,
+          declinedRequests: cancellation.declinedRequests,
+          notifications: { canceled: cancellation.canceledNotifications },
+          webhooks: { queued: cancellation.queuedWebhookDeliveries },
+          calendarWriteback: cancellation.calendarWriteback,
+        });
+      } catch (error) {
+        if (error instanceof BookingActionNotFoundError || error instanceof BookingActionGoneError) {
+          // A booking changed underneath us (invitee canceled or rescheduled); the caller can retry.
+          return jsonError(context, 409, 'Upcoming bookings changed while deleting. Try again.');
+        }
+        if (error instanceof DemoQuotaAdmissionError || error instanceof DemoQuotaCreditsError) {
+          return jsonDemoQuotaError(context, db, context.env, authedUser, error);
+        }
+        throw error;
+      }
+    });
+  });
+};
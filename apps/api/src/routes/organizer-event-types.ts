@@ -1,19 +1,53 @@
 import { and, desc, eq } from 'drizzle-orm';
 
-import { eventTypes } from '@opencalendly/db';
+import { eventTypes, teamEventTypes } from '@opencalendly/db';
 import {
   eventTypeCreateSchema,
   eventTypeUpdateSchema,
 } from '@opencalendly/shared';
 
+import { findEventTypeApprovalIssue } from '../lib/booking-requests';
+import { findEventTypeSeatingIssue } from '../lib/booking-seats';
+import { findEventTypePaymentIssue } from '../lib/payments';
 import { resolveAuthenticatedUser } from '../server/auth-session';
+import { findAvailabilityScheduleForUser } from '../server/availability-schedules';
 import { jsonError } from '../server/core';
 import { withDatabase, isUniqueViolation } from '../server/database';
 import { consumeDemoFeatureCredits, jsonDemoQuotaError } from '../server/demo-quota';
+import { resolvePaymentProviderConfig } from '../server/env';
 import { buildDemoFeatureSourceKey } from '../server/idempotency';
 import { toEventQuestions } from '../server/public-events';
 import type { ApiApp, DemoQuotaDb } from '../server/types';
 import { DemoQuotaAdmissionError, DemoQuotaCreditsError } from '../server/types';
+import { enqueueEventTypeWebhookEvent } from '../server/webhook-events';
+
+const UNKNOWN_SCHEDULE_MESSAGE = 'Availability schedule not found.';
+
+const organizerEventTypeColumns = {
+  id: eventTypes.id,
+  slug: eventTypes.slug,
+  name: eventTypes.name,
+  durationMinutes: eventTypes.durationMinutes,
+  dailyBookingLimit: eventTypes.dailyBookingLimit,
+  weeklyBookingLimit: eventTypes.weeklyBookingLimit,
+  monthlyBookingLimit: eventTypes.monthlyBookingLimit,
+  locationType: eventTypes.locationType,
+  locationValue: eventTypes.locationValue,
+  questions: eventTypes.questions,
+  availabilityScheduleId: eventTypes.availabilityScheduleId,
+  minimumNoticeMinutes: eventTypes.minimumNoticeMinutes,
+  bookingHorizonDays: eventTypes.bookingHorizonDays,
+  bufferBeforeMinutes: eventTypes.bufferBeforeMinutes,
+  bufferAfterMinutes: eventTypes.bufferAfterMinutes,
+  slotIncrementMinutes: eventTypes.slotIncrementMinutes,
+  priceCents: eventTypes.priceCents,
+  currency: eventTypes.currency,
+  refundPolicy: eventTypes.refundPolicy,
+  refundCutoffHours: eventTypes.refundCutoffHours,
+  requiresConfirmation: eventTypes.requiresConfirmation,
+  seatsPerSlot: eventTypes.seatsPerSlot,
+  isActive: eventTypes.isActive,
+};
 
 const normalizeEventTypeBody = (body: unknown): unknown => {
   return body && typeof body === 'object'
@@ -36,17 +70,8 @@ export const registerOrganizerEventTypeRoutes = (app: ApiApp): void => {
 
       const rows = await db
         .select({
-          id: eventTypes.id,
-          slug: eventTypes.slug,
-          name: eventTypes.name,
-          durationMinutes: eventTypes.durationMinutes,
-          dailyBookingLimit: eventTypes.dailyBookingLimit,
-          weeklyBookingLimit: eventTypes.weeklyBookingLimit,
-          monthlyBookingLimit: eventTypes.monthlyBookingLimit,
-          locationType: eventTypes.locationType,
-          locationValue: eventTypes.locationValue,
-          questions: eventTypes.questions,
-          isActive: eventTypes.isActive,
+          ...organizerEventTypeColumns,
+          archivedAt: eventTypes.archivedAt,
           createdAt: eventTypes.createdAt,
         })
         .from(eventTypes)
@@ -58,6 +83,7 @@ export const registerOrganizerEventTypeRoutes = (app: ApiApp): void => {
         eventTypes: rows.map((row) => ({
           ...row,
           questions: toEventQuestions(row.questions),
+          archivedAt: row.archivedAt ? row.archivedAt.toISOString() : null,
           createdAt: row.createdAt.toISOString(),
         })),
       });
@@ -76,6 +102,33 @@ export const registerOrganizerEventTypeRoutes = (app: ApiApp): void => {
         return jsonError(context, 400, parsed.error.issues[0]?.message ?? 'Invalid request body.');
       }
 
+      const priceCents = parsed.data.priceCents ?? null;
+      const issue =
+        findEventTypePaymentIssue({
+          priceCents,
+          currency: parsed.data.currency ?? null,
+          providerConfigured: resolvePaymentProviderConfig(context.env) !== null,
+          isTeamEventType: false,
+        }) ??
+        findEventTypeApprovalIssue({
+          requiresConfirmation: parsed.data.requiresConfirmation ?? false,
+          priceCents,
+          isTeamEventType: false,
+        });
+      if (issue) {
+        return jsonError(context, 400, issue);
+      }
+
+      if (
+        parsed.data.availabilityScheduleId &&
+        !(await findAvailabilityScheduleForUser(db, {
+          userId: authedUser.id,
+          scheduleId: parsed.data.availabilityScheduleId,
+        }))
+      ) {
+        return jsonError(context, 400, UNKNOWN_SCHEDULE_MESSAGE);
+      }
+
       try {
         const now = new Date();
         const inserted = await db.transaction(async (transaction) => {
@@ -92,20 +145,20 @@ export const registerOrganizerEventTypeRoutes = (app: ApiApp): void => {
               locationType: parsed.data.locationType,
               locationValue: parsed.data.locationValue ?? null,
               questions: parsed.data.questions,
+              availabilityScheduleId: parsed.data.availabilityScheduleId ?? null,
+              minimumNoticeMinutes: parsed.data.minimumNoticeMinutes ?? 0,
+              bookingHorizonDays: parsed.data.bookingHorizonDays ?? null,
+              bufferBeforeMinutes: parsed.data.bufferBeforeMinutes ?? 0,
+              bufferAfterMinutes: parsed.data.bufferAfterMinutes ?? 0,
+              slotIncrementMinutes: parsed.data.slotIncrementMinutes ?? null,
+              priceCents,
+              currency: priceCents === null ? null : (parsed.data.currency ?? null),
+              refundPolicy: parsed.data.refundPolicy ?? 'full',
+              refundCutoffHours: parsed.data.refundCutoffHours ?? null,
+              requiresConfirmation: parsed.data.requiresConfirmation ?? false,
+              seatsPerSlot: parsed.data.seatsPerSlot ?? null,
             })
-            .returning({
-              id: eventTypes.id,
-              slug: eventTypes.slug,
-              name: eventTypes.name,
-              durationMinutes: eventTypes.durationMinutes,
-              dailyBookingLimit: eventTypes.dailyBookingLimit,
-              weeklyBookingLimit: eventTypes.weeklyBookingLimit,
-              monthlyBookingLimit: eventTypes.monthlyBookingLimit,
-              locationType: eventTypes.locationType,
-              locationValue: eventTypes.locationValue,
-              questions: eventTypes.questions,
-              isActive: eventTypes.isActive,
-            });
+            .returning(organizerEventTypeColumns);
 
           if (!created) {
             throw new Error('Failed to create event type.');
@@ -128,6 +181,11 @@ export const registerOrganizerEventTypeRoutes = (app: ApiApp): void => {
         if (!inserted) {
           return jsonError(context, 500, 'Failed to create event type.');
         }
+        await enqueueEventTypeWebhookEvent(db, {
+          type: 'event_type.created',
+          eventTypeId: inserted.id,
+          changedFields: [],
+        });
 
         return context.json({ ok: true, eventType: { ...inserted, questions: toEventQuestions(inserted.questions) } });
       } catch (error) {
@@ -165,29 +223,94 @@ export const registerOrganizerEventTypeRoutes = (app: ApiApp): void => {
       if (payload.locationType !== undefined) updateValues.locationType = payload.locationType;
       if (payload.locationValue !== undefined) updateValues.locationValue = payload.locationValue ?? null;
       if (payload.questions !== undefined) updateValues.questions = payload.questions;
+      if (payload.availabilityScheduleId !== undefined) {
+        updateValues.availabilityScheduleId = payload.availabilityScheduleId ?? null;
+      }
+      if (payload.minimumNoticeMinutes !== undefined) updateValues.minimumNoticeMinutes = payload.minimumNoticeMinutes;
+      if (payload.bookingHorizonDays !== undefined) updateValues.bookingHorizonDays = payload.bookingHorizonDays ?? null;
+      if (payload.bufferBeforeMinutes !== undefined) updateValues.bufferBeforeMinutes = payload.bufferBeforeMinutes;
+      if (payload.bufferAfterMinutes !== undefined) updateValues.bufferAfterMinutes = payload.bufferAfterMinutes;
+      if (payload.slotIncrementMinutes !== undefined) {
+        updateValues.slotIncrementMinutes = payload.slotIncrementMinutes ?? null;
+      }
+      if (payload.refundPolicy !== undefined) updateValues.refundPolicy = payload.refundPolicy;
+      if (payload.refundCutoffHours !== undefined) updateValues.refundCutoffHours = payload.refundCutoffHours ?? null;
       if (payload.isActive !== undefined) updateValues.isActive = payload.isActive;
 
+      if (
+        payload.availabilityScheduleId &&
+        !(await findAvailabilityScheduleForUser(db, {
+          userId: authedUser.id,
+          scheduleId: payload.availabilityScheduleId,
+        }))
+      ) {
+        return jsonError(context, 400, UNKNOWN_SCHEDULE_MESSAGE);
+      }
+
+      const eventTypeId = context.req.param('id');
+      const priceTouched = payload.priceCents !== undefined || payload.currency !== undefined;
+      if (priceTouched || payload.requiresConfirmation !== undefined || payload.seatsPerSlot !== undefined) {
+        const [current] = await db
+          .select({
+            priceCents: eventTypes.priceCents,
+            currency: eventTypes.currency,
+            requiresConfirmation: eventTypes.requiresConfirmation,
+            seatsPerSlot: eventTypes.seatsPerSlot,
+            teamEventTypeId: teamEventTypes.id,
+          })
+          .from(eventTypes)
+          .leftJoin(teamEventTypes, eq(teamEventTypes.eventTypeId, eventTypes.id))
+          .where(and(eq(eventTypes.id, eventTypeId), eq(eventTypes.userId, authedUser.id)))
+          .limit(1);
+        if (!current) {
+          return jsonError(context, 404, 'Event type not found.');
+        }
+        // Price and currency are stored as a pair, so clearing the price clears the currency too.
+        const priceCents = payload.priceCents !== undefined ? (payload.priceCents ?? null) : current.priceCents;
+        const currency = payload.currency !== undefined ? (payload.currency ?? null) : current.currency;
+        const requiresConfirmation = payload.requiresConfirmation ?? current.requiresConfirmation;
+        const seatsPerSlot = payload.seatsPerSlot !== undefined ? (payload.seatsPerSlot ?? null) : current.seatsPerSlot;
+        const isTeamEventType = current.teamEventTypeId !== null;
+        const issue =
+          (priceTouched
+            ? findEventTypePaymentIssue({
+                priceCents,
+                currency,
+                providerConfigured: resolvePaymentProviderConfig(context.env) !== null,
+                isTeamEventType,
+              })
+            : null) ??
+          findEventTypeApprovalIssue({ requiresConfirmation, priceCents, isTeamEventType }) ??
+          findEventTypeSeatingIssue({ seatsPerSlot, isTeamEventType });
+        if (issue) {
+          return jsonError(context, 400, issue);
+        }
+        if (priceTouched) {
+          updateValues.priceCents = priceCents;
+          updateValues.currency = priceCents === null ? null : currency;
+        }
+        updateValues.requiresConfirmation = requiresConfirmation;
+        updateValues.seatsPerSlot = seatsPerSlot;
+      }
+      if (payload.isActive) {
+        const [current] = await db
+          .select({ archivedAt: eventTypes.archivedAt })
+          .from(eventTypes)
+          .where(and(eq(eventTypes.id, eventTypeId), eq(eventTypes.userId, authedUser.id)))
+          .limit(1);
+        if (current?.archivedAt) {
+          return jsonError(context, 409, 'Restore the archived event type before activating it.');
+        }
+      }
+
       try {
-        const eventTypeId = context.req.param('id');
         const now = new Date();
         const updated = await db.transaction(async (transaction) => {
           const [saved] = await transaction
             .update(eventTypes)
             .set(updateValues)
             .where(and(eq(eventTypes.id, eventTypeId), eq(eventTypes.userId, authedUser.id)))
-            .returning({
-              id: eventTypes.id,
-              slug: eventTypes.slug,
-              name: eventTypes.name,
-              durationMinutes: eventTypes.durationMinutes,
-              dailyBookingLimit: eventTypes.dailyBookingLimit,
-              weeklyBookingLimit: eventTypes.weeklyBookingLimit,
-              monthlyBookingLimit: eventTypes.monthlyBookingLimit,
-              locationType: eventTypes.locationType,
-              locationValue: eventTypes.locationValue,
-              questions: eventTypes.questions,
-              isActive: eventTypes.isActive,
-            });
+            .returning(organizerEventTypeColumns);
 
           if (!saved) {
             return null;
@@ -206,6 +329,11 @@ export const registerOrganizerEventTypeRoutes = (app: ApiApp): void => {
         if (!updated) {
           return jsonError(context, 404, 'Event type not found.');
         }
+        await enqueueEventTypeWebhookEvent(db, {
+          type: 'event_type.updated',
+          eventTypeId: updated.id,
+          changedFields: Object.keys(payload).sort(),
+        });
 
         return context.json({ ok: true, eventType: { ...updated, questions: toEventQuestions(updated.questions) } });
       } catch (error) {
@@ -0,0 +1,206 @@
+import { and, desc, eq } from 'drizzle-orm';
+
+import { routingForms } from '@opencalendly/db';
+import { routingFormCreateSchema, routingFormUpdateSchema } from '@opencalendly/shared';
+
+import { findRoutingRuleIssue } from '../lib/routing-forms';
+import { resolveAuthenticatedUser } from '../server/auth-session';
+import { emitAuditEvent } from '../server/audit';
+import { isUuid, jsonError } from '../server/core';
+import { isUniqueViolation, withDatabase } from '../server/database';
+import {
+  findOwnedRoutingForm,
+  findUnroutableEventTypeId,
+  toRoutingFormResponse,
+  toRoutingRules,
+} from '../server/routing-forms';
+import { toEventQuestions } from '../server/public-events';
+import type { ApiApp } from '../server/types';
+
+const collectTargetEventTypeIds = (
+  rules: Array<{ eventTypeId: string }>,
+  fallbackEventTypeId: string | null | undefined,
+): string[] => {
+  return [...rules.map((rule) => rule.eventTypeId), ...(fallbackEventTypeId ? [fallbackEventTypeId] : [])];
+};
+
+export const registerOrganizerRoutingFormRoutes = (app: ApiApp): void => {
+  app.get('/v0/routing-forms', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const rows = await db
+        .select()
+        .from(routingForms)
+        .where(eq(routingForms.userId, authedUser.id))
+        .orderBy(desc(routingForms.createdAt));
+
+      return context.json({ ok: true, routingForms: rows.map(toRoutingFormResponse) });
+    });
+  });
+
+  app.post('/v0/routing-forms', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const parsed = routingFormCreateSchema.safeParse(await context.req.json().catch(() => null));
+      if (!parsed.success) {
+        return jsonError(context, 400, parsed.error.issues[0]?.message ?? 'Invalid request body.');
+      }
+
+      const ruleIssue = findRoutingRuleIssue(parsed.data.questions, parsed.data.rules);
+      if (ruleIssue) {
+        return jsonError(context, 400, ruleIssue);
+      }
+      const unroutableId = await findUnroutableEventTypeId(
+        db,
+        authedUser.id,
+        collectTargetEventTypeIds(parsed.data.rules, parsed.data.fallbackEventTypeId),
+      );
+      if (unroutableId) {
+        return jsonError(context, 400, `Event type ${unroutableId} is not yours or a teammate's.`);
+      }
+
+      try {
+        const [created] = await db
+          .insert(routingForms)
+          .values({
+            userId: authedUser.id,
+            slug: parsed.data.slug,
+            name: parsed.data.name,
+            questions: parsed.data.questions,
+            rules: parsed.data.rules,
+            fallbackEventTypeId: parsed.data.fallbackEventTypeId ?? null,
+            isActive: parsed.data.isActive,
+          })
+          .returning();
+        if (!created) {
+          return jsonError(context, 500, 'Failed to create routing form.');
+        }
+
+        emitAuditEvent({
+          event: 'routing_form_created',
+          level: 'info',
+          actorUserId: authedUser.id,
+          route: '/v0/routing-forms',
+          statusCode: 200,
+          routingFormId: created.id,
+          ruleCount: parsed.data.rules.length,
+        });
+        return context.json({ ok: true, routingForm: toRoutingFormResponse(created) });
+      } catch (error) {
+        if (isUniqueViolation(error, 'routing_forms_slug_unique')) {
+          return jsonError(context, 409, 'A routing form with that slug already exists.');
+        }
+        throw error;
+      }
+    });
+  });
+
+  app.patch('/v0/routing-forms/:formId', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const formId = context.req.param('formId');
+      if (!isUuid(formId)) {
+        return jsonError(context, 400, 'Invalid formId.');
+      }
+
+      const parsed = routingFormUpdateSchema.safeParse(await context.req.json().catch(() => null));
+      if (!parsed.success) {
+        return jsonError(context, 400, parsed.error.issues[0]?.message ?? 'Invalid request body.');
+      }
+
+      const existing = await findOwnedRoutingForm(db, authedUser.id, formId);
+      if (!existing) {
+        return jsonError(context, 404, 'Routing form not found.');
+      }
+
+      // Partial updates are checked against the merged form so rules never point at removed questions.
+      const questions = parsed.data.questions ?? toEventQuestions(existing.questions);
+      const rules = parsed.data.rules ?? toRoutingRules(existing.rules);
+      const ruleIssue = findRoutingRuleIssue(questions, rules);
+      if (ruleIssue) {
+        return jsonError(context, 400, ruleIssue);
+      }
+      if (parsed.data.rules !== undefined || parsed.data.fallbackEventTypeId) {
+        const unroutableId = await findUnroutableEventTypeId(
+          db,
+          authedUser.id,
+          collectTargetEventTypeIds(parsed.data.rules ?? [], parsed.data.fallbackEventTypeId),
+        );
+        if (unroutableId) {
+          return jsonError(context, 400, `Event type ${unroutableId} is not yours or a teammate's.`);
+        }
+      }
+
+      try {
+        const [updated] = await db
+          .update(routingForms)
+          .set({ ...parsed.data, updatedAt: new Date() })
+          .where(and(eq(routingForms.id, formId), eq(routingForms.userId, authedUser.id)))
+          .returning();
+        if (!updated) {
+          return jsonError(context, 404, 'Routing form not found.');
+        }
+
+        emitAuditEvent({
+          event: 'routing_form_updated',
+          level: 'info',
+          actorUserId: authedUser.id,
+          route: '/v0/routing-forms/:formId',
+          statusCode: 200,
+          routingFormId: formId,
+          fields: Object.keys(parsed.data),
+        });
+        return context.json({ ok: true, routingForm: toRoutingFormResponse(updated) });
+      } catch (error) {
+        if (isUniqueViolation(error, 'routing_forms_slug_unique')) {
+          return jsonError(context, 409, 'A routing form with that slug already exists.');
+        }
+        throw error;
+      }
+    });
+  });
+
+  app.delete('/v0/routing-forms/:formId', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const formId = context.req.param('formId');
+      if (!isUuid(formId)) {
+        return jsonError(context, 400, 'Invalid formId.');
+      }
+
+      const [deleted] = await db
+        .delete(routingForms)
+        .where(and(eq(routingForms.id, formId), eq(routingForms.userId, authedUser.id)))
+        .returning({ id: routingForms.id });
+      if (!deleted) {
+        return jsonError(context, 404, 'Routing form not found.');
+      }
+
+      emitAuditEvent({
+        event: 'routing_form_deleted',
+        level: 'info',
+        actorUserId: authedUser.id,
+        route: '/v0/routing-forms/:formId',
+        statusCode: 200,
+        routingFormId: formId,
+      });
+      return context.json({ ok: true, id: deleted.id });
+    });
+  });
+};
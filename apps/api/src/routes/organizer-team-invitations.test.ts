@@ -0,0 +1,95 @@
+import { Hono } from 'hono';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Bindings } from '../server/types';
+
+const { existingInvitationRows, resolveAuthenticatedUserMock, sendTeamInvitationMock, writeMock } =
+  vi.hoisted(() => ({
+    existingInvitationRows: [] as unknown[],
+    resolveAuthenticatedUserMock: vi.fn(),
+    sendTeamInvitationMock: vi.fn(),
+    writeMock: vi.fn(),
+  }));
+
+vi.mock('../server/database', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  withDatabase: async (_context: unknown, handler: (db: unknown) => Promise<Response>) => {
+    const query = {
+      from: () => query,
+      where: () => query,
+      limit: async () => existingInvitationRows,
+    };
+    return handler({ select: () => query, transaction: writeMock, update: writeMock });
+  },
+}));
+
+vi.mock('../server/auth-session', () => ({
+  resolveAuthenticatedUser: resolveAuthenticatedUserMock,
+}));
+
+vi.mock('../server/team-invitations', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  findTeamForOwner: vi.fn(async () => ({ id: teamId, ownerUserId: 'user_123', name: 'Sales' })),
+  isTeamMemberEmail: vi.fn(async () => false),
+  listTeamEventTypeIdsForTeam: vi.fn(async () => []),
+  sendTeamInvitation: sendTeamInvitationMock,
+}));
+
+import { registerOrganizerTeamInvitationRoutes } from './organizer-team-invitations';
+
+const teamId = '1b4e28ba-2fa1-41d2-883f-0016d3cca427';
+const invitationId = '6fa459ea-ee8a-3ca4-894e-db77e160355e';
+
+const misconfiguredBindings = { APP_BASE_URL: 'not a url' } as Bindings;
+
+const request = (path: string, body?: unknown) => {
+  const app = new Hono();
+  registerOrganizerTeamInvitationRoutes(app as never);
+  return app.request(
+    `https://api.opencalendly.com${path}`,
+    {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      ...(body ? { body: JSON.stringify(body) } : {}),
+    },
+    misconfiguredBindings,
+  );
+};
+
+describe('organizer team invitation routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resolveAuthenticatedUserMock.mockResolvedValue({ id: 'user_123', email: 'owner@example.com' });
+    existingInvitationRows.splice(0, existingInvitationRows.length, {
+      id: invitationId,
+      teamId,
+      status: 'pending',
+      lastSentAt: new Date('2026-01-01T00:00:00.000Z'),
+      sendCount: 1,
+    });
+  });
+
+  it('returns a JSON 500 from invite create when APP_BASE_URL is invalid', async () => {
+    const response = await request(`/v0/teams/${teamId}/invitations`, { email: 'pat@example.com' });
+
+    expect(response.status).toBe(500);
+    await expect(response.json()).resolves.toMatchObject({
+      ok: false,
+      error: 'APP_BASE_URL must be a valid absolute URL.',
+    });
+    expect(writeMock).not.toHaveBeenCalled();
+    expect(sendTeamInvitationMock).not.toHaveBeenCalled();
+  });
+
+  it('returns a JSON 500 from invite resend before rotating the token', async () => {
+    const response = await request(`/v0/teams/${teamId}/invitations/${invitationId}/resend`);
+
+    expect(response.status).toBe(500);
+    await expect(response.json()).resolves.toMatchObject({
+      ok: false,
+      error: 'APP_BASE_URL must be a valid absolute URL.',
+    });
+    expect(writeMock).not.toHaveBeenCalled();
+    expect(sendTeamInvitationMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,275 @@
+import { and, desc, eq } from 'drizzle-orm';
+
+import { teamInvitations } from '@opencalendly/db';
+import { teamInvitationCreateSchema } from '@opencalendly/shared';
+
+import { resolveAuthenticatedUser } from '../server/auth-session';
+import { isUuid, jsonError } from '../server/core';
+import { isUniqueViolation, withDatabase } from '../server/database';
+import { consumeDemoFeatureCredits, jsonDemoQuotaError } from '../server/demo-quota';
+import { TEAM_INVITATION_RESEND_COOLDOWN_SECONDS, resolveAppBaseUrl } from '../server/env';
+import { buildDemoFeatureSourceKey } from '../server/idempotency';
+import {
+  buildTeamInvitationLink,
+  findTeamForOwner,
+  isTeamMemberEmail,
+  issueTeamInvitationToken,
+  listTeamEventTypeIdsForTeam,
+  normalizeInvitationEmail,
+  sendTeamInvitation,
+  serializeTeamInvitation,
+  teamInvitationColumns,
+} from '../server/team-invitations';
+import type { ApiApp, DemoQuotaDb } from '../server/types';
+import { DemoQuotaAdmissionError, DemoQuotaCreditsError } from '../server/types';
+
+const INVITATION_LIST_LIMIT = 100;
+
+export const registerOrganizerTeamInvitationRoutes = (app: ApiApp): void => {
+  app.get('/v0/teams/:teamId/invitations', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const teamId = context.req.param('teamId');
+      if (!isUuid(teamId)) {
+        return jsonError(context, 400, 'Invalid teamId.');
+      }
+
+      const team = await findTeamForOwner(db, { teamId });
+      if (!team) {
+        return jsonError(context, 404, 'Team not found.');
+      }
+      if (team.ownerUserId !== authedUser.id) {
+        return jsonError(context, 403, 'Only the team owner can view invitations.');
+      }
+
+      const rows = await db
+        .select(teamInvitationColumns)
+        .from(teamInvitations)
+        .where(eq(teamInvitations.teamId, team.id))
+        .orderBy(desc(teamInvitations.createdAt))
+        .limit(INVITATION_LIST_LIMIT);
+
+      const now = new Date();
+      return context.json({ ok: true, invitations: rows.map((row) => serializeTeamInvitation(row, now)) });
+    });
+  });
+
+  app.post('/v0/teams/:teamId/invitations', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const teamId = context.req.param('teamId');
+      if (!isUuid(teamId)) {
+        return jsonError(context, 400, 'Invalid teamId.');
+      }
+
+      const parsed = teamInvitationCreateSchema.safeParse(await context.req.json().catch(() => null));
+      if (!parsed.success) {
+        return jsonError(context, 400, parsed.error.issues[0]?.message ?? 'Invalid request body.');
+      }
+
+      const team = await findTeamForOwner(db, { teamId });
+      if (!team) {
+        return jsonError(context, 404, 'Team not found.');
+      }
+      if (team.ownerUserId !== authedUser.id) {
+        return jsonError(context, 403, 'Only the team owner can invite members.');
+      }
+
+      const email = normalizeInvitationEmail(parsed.data.email);
+      if (await isTeamMemberEmail(db, { teamId: team.id, email })) {
+        return jsonError(context, 409, 'User is already a team member.');
+      }
+
+      const requestedTeamEventTypeIds = Array.from(new Set(parsed.data.teamEventTypeIds));
+      const teamEventTypeIds = await listTeamEventTypeIdsForTeam(db, {
+        teamId: team.id,
+        teamEventTypeIds: requestedTeamEventTypeIds,
+      });
+      if (teamEventTypeIds.length !== requestedTeamEventTypeIds.length) {
+        return jsonError(context, 400, 'All team event types must belong to the team.');
+      }
+
+      let appBaseUrl: string;
+      try {
+        appBaseUrl = resolveAppBaseUrl(context.env, context.req.raw);
+      } catch (error) {
+        return jsonError(context, 500, error instanceof Error ? error.message : 'APP_BASE_URL must be a valid URL.');
+      }
+
+      const now = new Date();
+      const issued = issueTeamInvitationToken(now);
+
+      try {
+        const invitation = await db.transaction(async (transaction) => {
+          const [created] = await transaction
+            .insert(teamInvitations)
+            .values({
+              teamId: team.id,
+              email,
+              role: parsed.data.role,
+              teamEventTypeIds,
+              tokenHash: issued.tokenHash,
+              invitedByUserId: authedUser.id,
+              expiresAt: issued.expiresAt,
+              lastSentAt: now,
+            })
+            .returning(teamInvitationColumns);
+          if (!created) {
+            throw new Error('Failed to create team invitation.');
+          }
+
+          await consumeDemoFeatureCredits(transaction as DemoQuotaDb, context.env, authedUser, {
+            featureKey: 'team_member_add',
+            sourceKey: buildDemoFeatureSourceKey('team_member_add', {
+              teamId: team.id,
+              invitationId: created.id,
+            }),
+            metadata: { teamId: team.id, invitationId: created.id },
+            now,
+          });
+
+          return created;
+        });
+
+        const emailResult = await sendTeamInvitation(context.env, {
+          invitation,
+          inviter: authedUser,
+          teamName: team.name,
+          acceptLink: buildTeamInvitationLink(appBaseUrl, issued.token),
+        });
+
+        return context.json({ ok: true, invitation: serializeTeamInvitation(invitation, now), email: emailResult });
+      } catch (error) {
+        if (isUniqueViolation(error, 'team_invitations_team_email_pending_uidx')) {
+          return jsonError(context, 409, 'An invitation is already pending for that email. Resend it instead.');
+        }
+        if (error instanceof DemoQuotaAdmissionError || error instanceof DemoQuotaCreditsError) {
+          return jsonDemoQuotaError(context, db, context.env, authedUser, error);
+        }
+        throw error;
+      }
+    });
+  });
+
+  app.post('/v0/teams/:teamId/invitations/:invitationId/resend', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const teamId = context.req.param('teamId');
+      const invitationId = context.req.param('invitationId');
+      if (!isUuid(teamId) || !isUuid(invitationId)) {
+        return jsonError(context, 400, 'Invalid invitation id.');
+      }
+
+      const team = await findTeamForOwner(db, { teamId });
+      if (!team) {
+        return jsonError(context, 404, 'Team not found.');
+      }
+      if (team.ownerUserId !== authedUser.id) {
+        return jsonError(context, 403, 'Only the team owner can resend invitations.');
+      }
+
+      const [existing] = await db
+        .select(teamInvitationColumns)
+        .from(teamInvitations)
+        .where(and(eq(teamInvitations.id, invitationId), eq(teamInvitations.teamId, team.id)))
+        .limit(1);
+      if (!existing) {
+        return jsonError(context, 404, 'Invitation not found.');
+      }
+      if (existing.status !== 'pending') {
+        return jsonError(context, 409, `Invitation was already ${existing.status}.`);
+      }
+
+      const now = new Date();
+      if (now.getTime() - existing.lastSentAt.getTime() < TEAM_INVITATION_RESEND_COOLDOWN_SECONDS * 1000) {
+        return jsonError(context, 429, 'Invitation was sent moments ago. Try again in a minute.');
+      }
+
+      let appBaseUrl: string;
+      try {
+        appBaseUrl = resolveAppBaseUrl(context.env, context.req.raw);
+      } catch (error) {
+        return jsonError(context, 500, error instanceof Error ? error.message : 'APP_BASE_URL must be a valid URL.');
+      }
+
+      // Resending rotates the token and restarts the expiry window, so an older email link stops working.
+      const issued = issueTeamInvitationToken(now);
+      const [invitation] = await db
+        .update(teamInvitations)
+        .set({
+          tokenHash: issued.tokenHash,
+          expiresAt: issued.expiresAt,
+          lastSentAt: now,
+          sendCount: existing.sendCount + 1,
+          updatedAt: now,
+        })
+        .where(and(eq(teamInvitations.id, existing.id), eq(teamInvitations.status, 'pending')))
+        .returning(teamInvitationColumns);
+      if (!invitation) {
+        return jsonError(context, 409, 'Invitation is no longer pending.');
+      }
+
+      const emailResult = await sendTeamInvitation(context.env, {
+        invitation,
+        inviter: authedUser,
+        teamName: team.name,
+        acceptLink: buildTeamInvitationLink(appBaseUrl, issued.token),
+      });
+
+      return context.json({ ok: true, invitation: serializeTeamInvitation(invitation, now), email: emailResult });
+    });
+  });
+
+  app.delete('/v0/teams/:teamId/invitations/:invitationId', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const teamId = context.req.param('teamId');
+      const invitationId = context.req.param('invitationId');
+      if (!isUuid(teamId) || !isUuid(invitationId)) {
+        return jsonError(context, 400, 'Invalid invitation id.');
+      }
+
+      const team = await findTeamForOwner(db, { teamId });
+      if (!team) {
+        return jsonError(context, 404, 'Team not found.');
+      }
+      if (team.ownerUserId !== authedUser.id) {
+        return jsonError(context, 403, 'Only the team owner can revoke invitations.');
+      }
+
+      const now = new Date();
+      const [invitation] = await db
+        .update(teamInvitations)
+        .set({ status: 'revoked', respondedAt: now, updatedAt: now })
+        .where(
+          and(
+            eq(teamInvitations.id, invitationId),
+            eq(teamInvitations.teamId, team.id),
+            eq(teamInvitations.status, 'pending'),
+          ),
+        )
+        .returning(teamInvitationColumns);
+      if (!invitation) {
+        return jsonError(context, 404, 'Pending invitation not found.');
+      }
+
+      return context.json({ ok: true, invitation: serializeTeamInvitation(invitation, now) });
+    });
+  });
+};
@@ -0,0 +1,225 @@
+import { Hono } from 'hono';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type * as EventTypeLifecycle from '../server/event-type-lifecycle';
+import type * as TeamLifecycle from '../server/team-lifecycle';
+import type { Bindings } from '../server/types';
+
+const {
+  cancelTeamBookingsWithNoticeMock,
+  countOpenPaymentHoldsMock,
+  findTeamForOwnerMock,
+  findTeamMemberMock,
+  listFutureTeamAssignmentsForMemberMock,
+  listTeamBaseEventTypesMock,
+  listUpcomingTeamBookingsMock,
+  reassignFutureTeamBookingsMock,
+  removeTeamMemberRecordsMock,
+  resolveAuthenticatedUserMock,
+  transferTeamOwnershipMock,
+  withDatabaseMock,
+} = vi.hoisted(() => ({
+  cancelTeamBookingsWithNoticeMock: vi.fn(),
+  countOpenPaymentHoldsMock: vi.fn(),
+  findTeamForOwnerMock: vi.fn(),
+  findTeamMemberMock: vi.fn(),
+  listFutureTeamAssignmentsForMemberMock: vi.fn(),
+  listTeamBaseEventTypesMock: vi.fn(),
+  listUpcomingTeamBookingsMock: vi.fn(),
+  reassignFutureTeamBookingsMock: vi.fn(),
+  removeTeamMemberRecordsMock: vi.fn(),
+  resolveAuthenticatedUserMock: vi.fn(),
+  transferTeamOwnershipMock: vi.fn(),
+  withDatabaseMock: vi.fn(async (_context: unknown, handler: (db: unknown) => Promise<Response>) => handler({})),
+}));
+
+vi.mock('../server/database', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  withDatabase: withDatabaseMock,
+}));
+
+vi.mock('../server/auth-session', () => ({
+  resolveAuthenticatedUser: resolveAuthenticatedUserMock,
+}));
+
+vi.mock('../server/event-type-lifecycle', async (importOriginal) => ({
+  ...(await importOriginal<typeof EventTypeLifecycle>()),
+  countOpenPaymentHolds: countOpenPaymentHoldsMock,
+}));
+
+vi.mock('../server/team-invitations', () => ({
+  findTeamForOwner: findTeamForOwnerMock,
+}));
+
+vi.mock('../server/team-lifecycle', async (importOriginal) => ({
+  ...(await importOriginal<typeof TeamLifecycle>()),
+  cancelTeamBookingsWithNotice: cancelTeamBookingsWithNoticeMock,
+  closeTeamEventTypes: vi.fn(),
+  findTeamMember: findTeamMemberMock,
+  listTeamBaseEventTypes: listTeamBaseEventTypesMock,
+  listUpcomingTeamBookings: listUpcomingTeamBookingsMock,
+  transferTeamOwnership: transferTeamOwnershipMock,
+}));
+
+vi.mock('../server/team-member-removal', () => ({
+  listFutureTeamAssignmentsForMember: listFutureTeamAssignmentsForMemberMock,
+  listTeamEventTypeIdsForTeamId: vi.fn(async () => ['tet-1']),
+  queueHandoverCalendarWritebacks: vi.fn(async () => 0),
+  reassignFutureTeamBookings: reassignFutureTeamBookingsMock,
+  removeTeamMemberRecords: removeTeamMemberRecordsMock,
+}));
+
+import { TEAM_MEMBER_REMOVAL_CANCELLATION_REASON } from '../server/team-lifecycle';
+import { registerOrganizerTeamMembershipRoutes } from './organizer-team-membership';
+
+const teamId = '8f14e45f-ceea-467f-a8b2-4f4f5b8f1a2c';
+const ownerId = '1b4e28ba-2fa1-41d2-883f-0016d3cca427';
+const memberId = '6fa459ea-ee8a-3ca4-894e-db77e160355e';
+const bookingId = '9b2f3c1e-4d5a-4b6c-8d7e-0f1a2b3c4d5e';
+
+const bindings = {
+  APP_BASE_URL: 'https://opencalendly.com',
+  SESSION_SECRET: '0123456789abcdef0123456789abcdef',
+} as Bindings;
+
+const request = (path: string, method: 'POST' | 'DELETE', body?: unknown) => {
+  const app = new Hono();
+  registerOrganizerTeamMembershipRoutes(app as never);
+  return app.request(
+    `http://localhost${path}`,
+    {
+      method,
+      ...(body ? { body: JSON.stringify(body), headers: { 'content-type': 'application/json' } } : {}),
+    },
+    bindings,
+  );
+};
+
+describe('organizer team membership routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resolveAuthenticatedUserMock.mockResolvedValue({ id: ownerId, email: 'owner@example.com' });
+    findTeamForOwnerMock.mockResolvedValue({ id: teamId, ownerUserId: ownerId, name: 'Growth' });
+    findTeamMemberMock.mockResolvedValue({ userId: memberId, role: 'member', email: 'm@example.com', displayName: 'Casey' });
+    listFutureTeamAssignmentsForMemberMock.mockResolvedValue([]);
+    countOpenPaymentHoldsMock.mockResolvedValue(0);
+    cancelTeamBookingsWithNoticeMock.mockResolvedValue({
+      canceledBookings: 0,
+      canceledNotifications: 0,
+      queuedWebhookDeliveries: 0,
+      calendarWritebackProcessed: 0,
+    });
+    removeTeamMemberRecordsMock.mockResolvedValue({ removedFromTeamEventTypes: 1 });
+  });
+
+  it('lets a member leave, reassigning what it can and canceling the rest with notice', async () => {
+    resolveAuthenticatedUserMock.mockResolvedValue({ id: memberId, email: 'm@example.com' });
+    reassignFutureTeamBookingsMock.mockResolvedValue({
+      reassigned: 2,
+      handovers: [],
+      unassigned: [{ bookingId, eventTypeId: 'event-type-1' }],
+    });
+    cancelTeamBookingsWithNoticeMock.mockResolvedValue({
+      canceledBookings: 1,
+      canceledNotifications: 1,
+      queuedWebhookDeliveries: 1,
+      calendarWritebackProcessed: 0,
+    });
+
+    const response = await request(`/v0/teams/${teamId}/members/${memberId}`, 'DELETE');
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({
+      removedUserId: memberId,
+      futureBookings: { reassigned: 2, canceled: 1 },
+    });
+    expect(cancelTeamBookingsWithNoticeMock).toHaveBeenCalledWith(
+      expect.anything(),
+      bindings,
+      expect.objectContaining({ id: memberId }),
+      expect.objectContaining({
+        bookings: [{ bookingId, eventTypeId: 'event-type-1' }],
+        reason: TEAM_MEMBER_REMOVAL_CANCELLATION_REASON,
+      }),
+    );
+    expect(removeTeamMemberRecordsMock).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ teamId, userId: memberId }),
+    );
+  });
+
+  it('cancels every upcoming booking when asked instead of reassigning', async () => {
+    const upcoming = [{ bookingId, eventTypeId: 'event-type-1' }];
+    listFutureTeamAssignmentsForMemberMock.mockResolvedValue(upcoming);
+
+    const response = await request(`/v0/teams/${teamId}/members/${memberId}?futureBookings=cancel`, 'DELETE');
+
+    expect(response.status).toBe(200);
+    expect(reassignFutureTeamBookingsMock).not.toHaveBeenCalled();
+    expect(cancelTeamBookingsWithNoticeMock).toHaveBeenCalledWith(
+      expect.anything(),
+      bindings,
+      expect.anything(),
+      expect.objectContaining({ bookings: upcoming }),
+    );
+  });
+
+  it('keeps the owner on the team and other members from removing each other', async () => {
+    const ownerLeaving = await request(`/v0/teams/${teamId}/members/${ownerId}`, 'DELETE');
+    expect(ownerLeaving.status).toBe(409);
+
+    resolveAuthenticatedUserMock.mockResolvedValue({ id: 'someone-else', email: 'x@example.com' });
+    const otherMember = await request(`/v0/teams/${teamId}/members/${memberId}`, 'DELETE');
+    expect(otherMember.status).toBe(403);
+
+    expect(removeTeamMemberRecordsMock).not.toHaveBeenCalled();
+  });
+
+  it('transfers ownership only to an existing member', async () => {
+    findTeamMemberMock.mockResolvedValueOnce(null);
+    const outsider = await request(`/v0/teams/${teamId}/transfer-ownership`, 'POST', { userId: memberId });
+    expect(outsider.status).toBe(400);
+
+    transferTeamOwnershipMock.mockResolvedValue({ movedEventTypes: 2 });
+    const response = await request(`/v0/teams/${teamId}/transfer-ownership`, 'POST', { userId: memberId });
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({
+      team: { id: teamId, ownerUserId: memberId },
+      movedEventTypes: 2,
+    });
+    expect(transferTeamOwnershipMock).toHaveBeenCalledWith(expect.anything(), {
+      teamId,
+      fromUserId: ownerId,
+      toUserId: memberId,
+    });
+  });
+
+  it('refuses to delete a team with upcoming bookings unless cancellation is requested', async () => {
+    listTeamBaseEventTypesMock.mockResolvedValue([{ eventTypeId: 'event-type-1', userId: ownerId }]);
+    listUpcomingTeamBookingsMock.mockResolvedValue([{ bookingId, eventTypeId: 'event-type-1' }]);
+
+    const response = await request(`/v0/teams/${teamId}`, 'DELETE');
+
+    expect(response.status).toBe(409);
+    await expect(response.json()).resolves.toMatchObject({ futureBookingCount: 1 });
+    expect(cancelTeamBookingsWithNoticeMock).not.toHaveBeenCalled();
+  });
+
+  it('refuses to delete a team while one of its event types has an open payment hold', async () => {
+    listTeamBaseEventTypesMock.mockResolvedValue([
+      { eventTypeId: 'event-type-1', userId: ownerId },
+      { eventTypeId: 'event-type-2', userId: ownerId },
+    ]);
+    countOpenPaymentHoldsMock.mockResolvedValue(2);
+
+    const response = await request(`/v0/teams/${teamId}?cancelFutureBookings=true`, 'DELETE');
+
+    expect(response.status).toBe(409);
+    await expect(response.json()).resolves.toMatchObject({ pendingPaymentCount: 2 });
+    expect(countOpenPaymentHoldsMock).toHaveBeenCalledWith(expect.anything(), {
+      eventTypeIds: ['event-type-1', 'event-type-2'],
+    });
+    expect(cancelTeamBookingsWithNoticeMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,379 @@
+import { and, eq } from 'drizzle-orm';
+
+import { teamMembers } from '@opencalendly/db';
+import {
+  teamMemberRemovalQuerySchema,
+  teamMemberRoleUpdateSchema,
+  teamOwnershipTransferSchema,
+} from '@opencalendly/shared';
+
+import { resolveAuthenticatedUser } from '../server/auth-session';
+import { emitAuditEvent } from '../server/audit';
+import { isUuid, jsonError } from '../server/core';
+import { isUniqueViolation, withDatabase } from '../server/database';
+import { jsonDemoQuotaError } from '../server/demo-quota';
+import { resolveAppBaseUrl } from '../server/env';
+import {
+  EVENT_TYPE_DELETE_CANCEL_LIMIT,
+  OPEN_PAYMENT_HOLDS_MESSAGE,
+  countOpenPaymentHolds,
+  deleteEventTypeRecords,
+} from '../server/event-type-lifecycle';
+import { findTeamForOwner } from '../server/team-invitations';
+import {
+  TEAM_DELETE_CANCELLATION_REASON,
+  TEAM_MEMBER_REMOVAL_CANCELLATION_REASON,
+  cancelTeamBookingsWithNotice,
+  closeTeamEventTypes,
+  deleteTeamRecord,
+  findTeamMember,
+  listTeamBaseEventTypes,
+  listUpcomingTeamBookings,
+  transferTeamOwnership,
+} from '../server/team-lifecycle';
+import {
+  listFutureTeamAssignmentsForMember,
+  listTeamEventTypeIdsForTeamId,
+  queueHandoverCalendarWritebacks,
+  reassignFutureTeamBookings,
+  removeTeamMemberRecords,
+} from '../server/team-member-removal';
+import type { ApiApp } from '../server/types';
+import {
+  BookingActionGoneError,
+  BookingActionNotFoundError,
+  DemoQuotaAdmissionError,
+  DemoQuotaCreditsError,
+  TeamMembershipConflictError,
+} from '../server/types';
+
+const TOO_MANY_BOOKINGS_MESSAGE = `More than ${EVENT_TYPE_DELETE_CANCEL_LIMIT} upcoming bookings would be moved or canceled. Cancel some of them from the bookings list first.`;
+
+export const registerOrganizerTeamMembershipRoutes = (app: ApiApp): void => {
+  app.patch('/v0/teams/:teamId/members/:userId', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const teamId = context.req.param('teamId');
+      const userId = context.req.param('userId');
+      if (!isUuid(teamId) || !isUuid(userId)) {
+        return jsonError(context, 400, 'Invalid teamId or userId.');
+      }
+
+      const parsed = teamMemberRoleUpdateSchema.safeParse(await context.req.json().catch(() => null));
+      if (!parsed.success) {
+        return jsonError(context, 400, parsed.error.issues[0]?.message ?? 'Invalid request body.');
+      }
+
+      const team = await findTeamForOwner(db, { teamId });
+      if (!team) {
+        return jsonError(context, 404, 'Team not found.');
+      }
+      if (team.ownerUserId !== authedUser.id) {
+        return jsonError(context, 403, 'Only the team owner can change member roles.');
+      }
+      if (userId === team.ownerUserId && parsed.data.role !== 'owner') {
+        return jsonError(context, 409, 'Transfer ownership to another member before changing your own role.');
+      }
+
+      const [updated] = await db
+        .update(teamMembers)
+        .set({ role: parsed.data.role })
+        .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, userId)))
+        .returning({ teamId: teamMembers.teamId, userId: teamMembers.userId, role: teamMembers.role });
+      if (!updated) {
+        return jsonError(context, 404, 'Team member not found.');
+      }
+
+      emitAuditEvent({
+        event: 'team_member_role_updated',
+        level: 'info',
+        actorUserId: authedUser.id,
+        route: '/v0/teams/:teamId/members/:userId',
+        statusCode: 200,
+        teamId,
+        memberUserId: userId,
+        role: updated.role,
+      });
+      return context.json({ ok: true, member: updated });
+    });
+  });
+
+  // Owners remove anyone but themselves; any other member may remove themselves to leave the team.
+  app.delete('/v0/teams/:teamId/members/:userId', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const teamId = context.req.param('teamId');
+      const userId = context.req.param('userId');
+      if (!isUuid(teamId) || !isUuid(userId)) {
+        return jsonError(context, 400, 'Invalid teamId or userId.');
+      }
+      const query = teamMemberRemovalQuerySchema.safeParse({ futureBookings: context.req.query('futureBookings') });
+      if (!query.success) {
+        return jsonError(context, 400, 'futureBookings must be reassign or cancel.');
+      }
+
+      const team = await findTeamForOwner(db, { teamId });
+      if (!team) {
+        return jsonError(context, 404, 'Team not found.');
+      }
+      if (team.ownerUserId !== authedUser.id && userId !== authedUser.id) {
+        return jsonError(context, 403, 'Only the team owner can remove other members.');
+      }
+      if (userId === team.ownerUserId) {
+        return jsonError(context, 409, 'Transfer ownership to another member before leaving the team.');
+      }
+      if (!(await findTeamMember(db, { teamId, userId }))) {
+        return jsonError(context, 404, 'Team member not found.');
+      }
+
+      const now = new Date();
+      const upcoming = await listFutureTeamAssignmentsForMember(db, {
+        teamEventTypeIds: await listTeamEventTypeIdsForTeamId(db, teamId),
+        userId,
+        now,
+      });
+      if (upcoming.length > EVENT_TYPE_DELETE_CANCEL_LIMIT) {
+        return jsonError(context, 409, TOO_MANY_BOOKINGS_MESSAGE);
+      }
+
+      let appBaseUrl: string;
+      try {
+        appBaseUrl = resolveAppBaseUrl(context.env, context.req.raw);
+      } catch (error) {
+        return jsonError(context, 500, error instanceof Error ? error.message : 'APP_BASE_URL must be a valid URL.');
+      }
+
+      try {
+        const reassignment =
+          query.data.futureBookings === 'reassign'
+            ? await reassignFutureTeamBookings(db, { teamId, userId, now })
+            : { reassigned: 0, handovers: [], unassigned: upcoming };
+        const calendarWritebackQueued = await queueHandoverCalendarWritebacks(db, reassignment.handovers);
+        const cancellation = await cancelTeamBookingsWithNotice(db, context.env, authedUser, {
+          bookings: reassignment.unassigned,
+          appBaseUrl,
+          reason: TEAM_MEMBER_REMOVAL_CANCELLATION_REASON,
+        });
+        const removal = await removeTeamMemberRecords(db, { teamId, userId, now: new Date() });
+
+        emitAuditEvent({
+          event: 'team_member_removed',
+          level: 'info',
+          actorUserId: authedUser.id,
+          route: '/v0/teams/:teamId/members/:userId',
+          statusCode: 200,
+          teamId,
+          memberUserId: userId,
+          leftTeam: userId === authedUser.id,
+          reassignedBookings: reassignment.reassigned,
+          canceledBookings: cancellation.canceledBookings,
+        });
+        return context.json({
+          ok: true,
+          removedUserId: userId,
+          removedFromTeamEventTypes: removal.removedFromTeamEventTypes,
+          futureBookings: { reassigned: reassignment.reassigned, canceled: cancellation.canceledBookings },
+          notifications: { canceled: cancellation.canceledNotifications },
+          webhooks: { queued: cancellation.queuedWebhookDeliveries },
+          calendarWriteback: { queued: calendarWritebackQueued, processed: cancellation.calendarWritebackProcessed },
+        });
+      } catch (error) {
+        if (error instanceof TeamMembershipConflictError) {
+          return jsonError(context, 409, error.message);
+        }
+        if (isUniqueViolation(error, 'team_booking_assignments_user_slot_unique')) {
+          return jsonError(context, 409, 'Upcoming bookings changed while reassigning. Try again.');
+        }
+        if (error instanceof BookingActionNotFoundError || error instanceof BookingActionGoneError) {
+          return jsonError(context, 409, 'Upcoming bookings changed while removing the member. Try again.');
+        }
+        if (error instanceof DemoQuotaAdmissionError || error instanceof DemoQuotaCreditsError) {
+          return jsonDemoQuotaError(context, db, context.env, authedUser, error);
+        }
+        throw error;
+      }
+    });
+  });
+
+  app.post('/v0/teams/:teamId/transfer-ownership', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const teamId = context.req.param('teamId');
+      if (!isUuid(teamId)) {
+        return jsonError(context, 400, 'Invalid teamId.');
+      }
+      const parsed = teamOwnershipTransferSchema.safeParse(await context.req.json().catch(() => null));
+      if (!parsed.success) {
+        return jsonError(context, 400, parsed.error.issues[0]?.message ?? 'Invalid request body.');
+      }
+
+      const team = await findTeamForOwner(db, { teamId });
+      if (!team) {
+        return jsonError(context, 404, 'Team not found.');
+      }
+      if (team.ownerUserId !== authedUser.id) {
+        return jsonError(context, 403, 'Only the team owner can transfer ownership.');
+      }
+      if (parsed.data.userId === authedUser.id) {
+        return jsonError(context, 400, 'You already own this team.');
+      }
+      const nextOwner = await findTeamMember(db, { teamId, userId: parsed.data.userId });
+      if (!nextOwner) {
+        return jsonError(context, 400, 'The new owner must already be a team member.');
+      }
+
+      try {
+        const transfer = await transferTeamOwnership(db, {
+          teamId,
+          fromUserId: authedUser.id,
+          toUserId: nextOwner.userId,
+        });
+
+        emitAuditEvent({
+          event: 'team_ownership_transferred',
+          level: 'info',
+          actorUserId: authedUser.id,
+          route: '/v0/teams/:teamId/transfer-ownership',
+          statusCode: 200,
+          teamId,
+          newOwnerUserId: nextOwner.userId,
+          movedEventTypes: transfer.movedEventTypes,
+        });
+        return context.json({
+          ok: true,
+          team: { id: teamId, ownerUserId: nextOwner.userId },
+          movedEventTypes: transfer.movedEventTypes,
+        });
+      } catch (error) {
+        if (error instanceof TeamMembershipConflictError) {
+          return jsonError(context, 409, error.message);
+        }
+        if (isUniqueViolation(error, 'event_types_user_slug_unique')) {
+          return jsonError(
+            context,
+            409,
+            `${nextOwner.displayName} already has an event type with the same slug as one of this team's event types. Rename it first.`,
+          );
+        }
+        throw error;
+      }
+    });
+  });
+
+  app.delete('/v0/teams/:teamId', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const teamId = context.req.param('teamId');
+      if (!isUuid(teamId)) {
+        return jsonError(context, 400, 'Invalid teamId.');
+      }
+      const cancelFutureBookings = context.req.query('cancelFutureBookings') === 'true';
+
+      const team = await findTeamForOwner(db, { teamId });
+      if (!team) {
+        return jsonError(context, 404, 'Team not found.');
+      }
+      if (team.ownerUserId !== authedUser.id) {
+        return jsonError(context, 403, 'Only the team owner can delete the team.');
+      }
+
+      const eventTypeRows = await listTeamBaseEventTypes(db, teamId);
+      const eventTypeIds = eventTypeRows.map((row) => row.eventTypeId);
+      const openPaymentHolds = await countOpenPaymentHolds(db, { eventTypeIds });
+      if (openPaymentHolds > 0) {
+        return context.json(
+          { ok: false, error: OPEN_PAYMENT_HOLDS_MESSAGE, pendingPaymentCount: openPaymentHolds },
+          409,
+        );
+      }
+      const upcoming = await listUpcomingTeamBookings(db, eventTypeRows);
+      if (upcoming.length > 0 && !cancelFutureBookings) {
+        return context.json(
+          {
+            ok: false,
+            error:
+              'This team has upcoming bookings. Delete with cancelFutureBookings=true to cancel them and notify invitees.',
+            futureBookingCount: upcoming.length,
+          },
+          409,
+        );
+      }
+      if (upcoming.length > EVENT_TYPE_DELETE_CANCEL_LIMIT) {
+        return jsonError(context, 409, TOO_MANY_BOOKINGS_MESSAGE);
+      }
+
+      let appBaseUrl: string;
+      try {
+        appBaseUrl = resolveAppBaseUrl(context.env, context.req.raw);
+      } catch (error) {
+        return jsonError(context, 500, error instanceof Error ? error.message : 'APP_BASE_URL must be a valid URL.');
+      }
+
+      try {
+        // Close every team booking page first, then re-read the upcoming bookings under that guarantee.
+        await closeTeamEventTypes(db, eventTypeIds);
+        if ((await countOpenPaymentHolds(db, { eventTypeIds })) > 0) {
+          return jsonError(context, 409, OPEN_PAYMENT_HOLDS_MESSAGE);
+        }
+        const bookingsToCancel = await listUpcomingTeamBookings(db, eventTypeRows);
+        if (bookingsToCancel.length > EVENT_TYPE_DELETE_CANCEL_LIMIT) {
+          return jsonError(context, 409, TOO_MANY_BOOKINGS_MESSAGE);
+        }
+        const cancellation = await cancelTeamBookingsWithNotice(db, context.env, authedUser, {
+          bookings: bookingsToCancel,
+          appBaseUrl,
+          reason: TEAM_DELETE_CANCELLATION_REASON,
+        });
+        for (const row of eventTypeRows) {
+          await deleteEventTypeRecords(db, { eventTypeId: row.eventTypeId, userId: row.userId });
+        }
+        if (!(await deleteTeamRecord(db, { teamId, ownerUserId: authedUser.id }))) {
+          return jsonError(context, 404, 'Team not found.');
+        }
+
+        emitAuditEvent({
+          event: 'team_deleted',
+          level: 'info',
+          actorUserId: authedUser.id,
+          route: '/v0/teams/:teamId',
+          statusCode: 200,
+          teamId,
+          deletedEventTypes: eventTypeRows.length,
+          canceledBookings: cancellation.canceledBookings,
+        });
+        return context.json({
+          ok: true,
+          deletedTeamId: teamId,
+          deletedEventTypeIds: eventTypeRows.map((row) => row.eventTypeId),
+          canceledBookings: cancellation.canceledBookings,
+          notifications: { canceled: cancellation.canceledNotifications },
+          webhooks: { queued: cancellation.queuedWebhookDeliveries },
+        });
+      } catch (error) {
+        if (error instanceof BookingActionNotFoundError || error instanceof BookingActionGoneError) {
+          return jsonError(context, 409, 'Upcoming bookings changed while deleting. Try again.');
+        }
+        if (error instanceof DemoQuotaAdmissionError || error instanceof DemoQuotaCreditsError) {
+          return jsonDemoQuotaError(context, db, context.env, authedUser, error);
+        }
+        throw error;
+      }
+    });
+  });
+};
@@ -0,0 +1,119 @@
+import { Hono } from 'hono';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Bindings } from '../server/types';
+
+const {
+  findTeamEventTypeWithOwnerMock,
+  listRequiredTeamEventMembersMock,
+  resolveAuthenticatedUserMock,
+  saveRoundRobinSettingsMock,
+  withDatabaseMock,
+} = vi.hoisted(() => ({
+  findTeamEventTypeWithOwnerMock: vi.fn(),
+  listRequiredTeamEventMembersMock: vi.fn(),
+  resolveAuthenticatedUserMock: vi.fn(),
+  saveRoundRobinSettingsMock: vi.fn(),
+  withDatabaseMock: vi.fn(async (_context: unknown, handler: (db: unknown) => Promise<Response>) => handler({})),
+}));
+
+vi.mock('../server/database', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  withDatabase: withDatabaseMock,
+}));
+
+vi.mock('../server/auth-session', () => ({
+  resolveAuthenticatedUser: resolveAuthenticatedUserMock,
+}));
+
+vi.mock('../server/team-round-robin', () => ({
+  findTeamEventTypeWithOwner: findTeamEventTypeWithOwnerMock,
+  listRequiredTeamEventMembers: listRequiredTeamEventMembersMock,
+  saveRoundRobinSettings: saveRoundRobinSettingsMock,
+}));
+
+import { registerOrganizerTeamRoundRobinRoutes } from './organizer-team-round-robin';
+
+const teamEventTypeId = '8f14e45f-ceea-467f-a8b2-4f4f5b8f1a2c';
+const ownerId = '1b4e28ba-2fa1-41d2-883f-0016d3cca427';
+const memberId = '6fa459ea-ee8a-3ca4-894e-db77e160355e';
+const outsiderId = '9b2f3c1e-4d5a-4b6c-8d7e-0f1a2b3c4d5e';
+
+const bindings = {
+  APP_BASE_URL: 'https://opencalendly.com',
+  SESSION_SECRET: '0123456789abcdef0123456789abcdef',
+} as Bindings;
+
+const request = (body: unknown) => {
+  const app = new Hono();
+  registerOrganizerTeamRoundRobinRoutes(app as never);
+  return app.request(
+    `http://localhost/v0/team-event-types/${teamEventTypeId}/round-robin`,
+    { method: 'PATCH', body: JSON.stringify(body), headers: { 'content-type': 'application/json' } },
+    bindings,
+  );
+};
+
+describe('organizer team round-robin routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resolveAuthenticatedUserMock.mockResolvedValue({ id: ownerId, email: 'owner@example.com' });
+    findTeamEventTypeWithOwnerMock.mockResolvedValue({
+      id: teamEventTypeId,
+      teamId: 'team-1',
+      ownerUserId: ownerId,
+      mode: 'round_robin',
+    });
+    listRequiredTeamEventMembersMock.mockResolvedValue([
+      { userId: ownerId, weight: 1 },
+      { userId: memberId, weight: 1 },
+    ]);
+  });
+
+  it('saves the strategy, window, and member weights', async () => {
+    saveRoundRobinSettingsMock.mockResolvedValue({
+      strategy: 'weighted',
+      windowDays: 14,
+      memberWeights: { [ownerId]: 1, [memberId]: 3 },
+    });
+
+    const response = await request({ strategy: 'weighted', windowDays: 14, memberWeights: { [memberId]: 3 } });
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({
+      strategy: 'weighted',
+      windowDays: 14,
+      memberWeights: { [memberId]: 3 },
+    });
+    expect(saveRoundRobinSettingsMock).toHaveBeenCalledWith(expect.anything(), teamEventTypeId, {
+      strategy: 'weighted',
+      windowDays: 14,
+      memberWeights: { [memberId]: 3 },
+    });
+  });
+
+  it('rejects weights for people who are not required members', async () => {
+    const response = await request({ strategy: 'weighted', memberWeights: { [outsiderId]: 2 } });
+
+    expect(response.status).toBe(400);
+    expect(saveRoundRobinSettingsMock).not.toHaveBeenCalled();
+  });
+
+  it('only lets the team owner change round-robin event types', async () => {
+    resolveAuthenticatedUserMock.mockResolvedValue({ id: memberId, email: 'm@example.com' });
+    const notOwner = await request({ strategy: 'fewest_in_window' });
+    expect(notOwner.status).toBe(403);
+
+    resolveAuthenticatedUserMock.mockResolvedValue({ id: ownerId, email: 'owner@example.com' });
+    findTeamEventTypeWithOwnerMock.mockResolvedValue({
+      id: teamEventTypeId,
+      teamId: 'team-1',
+      ownerUserId: ownerId,
+      mode: 'collective',
+    });
+    const collective = await request({ strategy: 'fewest_in_window' });
+    expect(collective.status).toBe(400);
+
+    expect(saveRoundRobinSettingsMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,71 @@
+import { teamRoundRobinSettingsSchema } from '@opencalendly/shared';
+
+import { resolveAuthenticatedUser } from '../server/auth-session';
+import { emitAuditEvent } from '../server/audit';
+import { isUuid, jsonError } from '../server/core';
+import { withDatabase } from '../server/database';
+import {
+  findTeamEventTypeWithOwner,
+  listRequiredTeamEventMembers,
+  saveRoundRobinSettings,
+} from '../server/team-round-robin';
+import type { ApiApp } from '../server/types';
+import { TeamMembershipConflictError } from '../server/types';
+
+export const registerOrganizerTeamRoundRobinRoutes = (app: ApiApp): void => {
+  app.patch('/v0/team-event-types/:teamEventTypeId/round-robin', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const teamEventTypeId = context.req.param('teamEventTypeId');
+      if (!isUuid(teamEventTypeId)) {
+        return jsonError(context, 400, 'Invalid teamEventTypeId.');
+      }
+
+      const parsed = teamRoundRobinSettingsSchema.safeParse(await context.req.json().catch(() => null));
+      if (!parsed.success) {
+        return jsonError(context, 400, parsed.error.issues[0]?.message ?? 'Invalid request body.');
+      }
+
+      const teamEventType = await findTeamEventTypeWithOwner(db, teamEventTypeId);
+      if (!teamEventType) {
+        return jsonError(context, 404, 'Team event type not found.');
+      }
+      if (teamEventType.ownerUserId !== authedUser.id) {
+        return jsonError(context, 403, 'Only the team owner can change round-robin settings.');
+      }
+      if (teamEventType.mode !== 'round_robin') {
+        return jsonError(context, 400, 'Distribution strategies only apply to round-robin team event types.');
+      }
+
+      const requiredMembers = await listRequiredTeamEventMembers(db, teamEventTypeId);
+      const requiredMemberIds = new Set(requiredMembers.map((member) => member.userId));
+      if (Object.keys(parsed.data.memberWeights ?? {}).some((memberId) => !requiredMemberIds.has(memberId))) {
+        return jsonError(context, 400, 'Member weights can only be set for required members.');
+      }
+
+      try {
+        const settings = await saveRoundRobinSettings(db, teamEventTypeId, parsed.data);
+        emitAuditEvent({
+          event: 'team_round_robin_settings_updated',
+          level: 'info',
+          actorUserId: authedUser.id,
+          route: '/v0/team-event-types/:teamEventTypeId/round-robin',
+          statusCode: 200,
+          teamId: teamEventType.teamId,
+          teamEventTypeId,
+          strategy: settings.strategy,
+        });
+        return context.json({ ok: true, teamEventTypeId, ...settings });
+      } catch (error) {
+        if (error instanceof TeamMembershipConflictError) {
+          return jsonError(context, 409, error.message);
+        }
+        throw error;
+      }
+    });
+  });
+};
@@ -161,6 +161,8 @@ export const registerOrganizerTeamReadRoutes = (app: ApiApp): void => {
           teamEventTypeId: teamEventTypes.id,
           mode: teamEventTypes.mode,
           roundRobinCursor: teamEventTypes.roundRobinCursor,
+          roundRobinStrategy: teamEventTypes.roundRobinStrategy,
+          roundRobinWindowDays: teamEventTypes.roundRobinWindowDays,
           createdAt: teamEventTypes.createdAt,
           eventTypeId: eventTypes.id,
           slug: eventTypes.slug,
@@ -189,6 +191,7 @@ export const registerOrganizerTeamReadRoutes = (app: ApiApp): void => {
           teamEventTypeId: teamEventTypeMembers.teamEventTypeId,
           userId: teamEventTypeMembers.userId,
           isRequired: teamEventTypeMembers.isRequired,
+          weight: teamEventTypeMembers.weight,
           role: teamMembers.role,
           email: users.email,
           username: users.username,
@@ -207,6 +210,7 @@ export const registerOrganizerTeamReadRoutes = (app: ApiApp): void => {
         existing.push({
           userId: member.userId,
           isRequired: member.isRequired,
+          weight: member.weight,
           role: member.role,
           user: {
             id: member.userId,
@@ -228,10 +232,13 @@ export const registerOrganizerTeamReadRoutes = (app: ApiApp): void => {
             id: row.teamEventTypeId,
             mode: row.mode,
             roundRobinCursor: row.roundRobinCursor,
+            roundRobinStrategy: row.roundRobinStrategy,
+            roundRobinWindowDays: row.roundRobinWindowDays,
             createdAt: row.createdAt.toISOString(),
             requiredMemberUserIds: members
               .filter((member) => Boolean(member.isRequired))
               .map((member) => member.userId),
+            optionalMemberUserIds: members.filter((member) => !member.isRequired).map((member) => member.userId),
             members,
             eventType: {
               id: row.eventTypeId,
@@ -22,6 +22,7 @@ import { buildDemoFeatureSourceKey } from '../server/idempotency';
 import { toEventQuestions } from '../server/public-events';
 import type { ApiApp, DemoQuotaDb } from '../server/types';
 import { DemoQuotaAdmissionError, DemoQuotaCreditsError } from '../server/types';
+import { enqueueTeamMemberAddedWebhookEvent } from '../server/webhook-events';
 
 const normalizeSlugBody = (body: unknown): unknown => {
   return body && typeof body === 'object'
@@ -179,6 +180,7 @@ export const registerOrganizerTeamWriteRoutes = (app: ApiApp): void => {
         if (!inserted) {
           return jsonError(context, 500, 'Failed to add team member.');
         }
+        await enqueueTeamMemberAddedWebhookEvent(db, { ...inserted, source: 'direct' });
 
         return context.json({ ok: true, member: { ...inserted, user: memberUser } });
       } catch (error) {
@@ -222,9 +224,10 @@ export const registerOrganizerTeamWriteRoutes = (app: ApiApp): void => {
         .from(teamMembers)
         .where(eq(teamMembers.teamId, team.id));
       const teamMemberSet = new Set(teamMemberRows.map((member) => member.userId));
+      const optionalMemberUserIds = Array.from(new Set(parsed.data.optionalMemberUserIds ?? []));
       const requiredMemberUserIds = parsed.data.requiredMemberUserIds
         ? Array.from(new Set(parsed.data.requiredMemberUserIds))
-        : Array.from(teamMemberSet);
+        : Array.from(teamMemberSet).filter((memberId) => !optionalMemberUserIds.includes(memberId));
 
       if (requiredMemberUserIds.length === 0) {
         return jsonError(context, 400, 'Team event type must include at least one required member.');
@@ -232,6 +235,16 @@ export const registerOrganizerTeamWriteRoutes = (app: ApiApp): void => {
       if (requiredMemberUserIds.some((memberId) => !teamMemberSet.has(memberId))) {
         return jsonError(context, 400, 'All required members must belong to the team.');
       }
+      if (optionalMemberUserIds.length > 0 && parsed.data.mode !== 'collective') {
+        return jsonError(context, 400, 'Optional members are only supported for collective team event types.');
+      }
+      if (optionalMemberUserIds.some((memberId) => !teamMemberSet.has(memberId) || requiredMemberUserIds.includes(memberId))) {
+        return jsonError(context, 400, 'Optional members must belong to the team and cannot also be required.');
+      }
+      const memberWeights = parsed.data.memberWeights ?? {};
+      if (Object.keys(memberWeights).some((memberId) => !requiredMemberUserIds.includes(memberId))) {
+        return jsonError(context, 400, 'Member weights can only be set for required members.');
+      }
 
       try {
         const result = await db.transaction(async (transaction) => {
@@ -248,6 +261,11 @@ export const registerOrganizerTeamWriteRoutes = (app: ApiApp): void => {
               locationType: parsed.data.locationType,
               locationValue: parsed.data.locationValue ?? null,
               questions: parsed.data.questions,
+              minimumNoticeMinutes: parsed.data.minimumNoticeMinutes ?? 0,
+              bookingHorizonDays: parsed.data.bookingHorizonDays ?? null,
+              bufferBeforeMinutes: parsed.data.bufferBeforeMinutes ?? 0,
+              bufferAfterMinutes: parsed.data.bufferAfterMinutes ?? 0,
+              slotIncrementMinutes: parsed.data.slotIncrementMinutes ?? null,
             })
             .returning({
               id: eventTypes.id,
@@ -261,6 +279,11 @@ export const registerOrganizerTeamWriteRoutes = (app: ApiApp): void => {
               locationType: eventTypes.locationType,
               locationValue: eventTypes.locationValue,
               questions: eventTypes.questions,
+              minimumNoticeMinutes: eventTypes.minimumNoticeMinutes,
+              bookingHorizonDays: eventTypes.bookingHorizonDays,
+              bufferBeforeMinutes: eventTypes.bufferBeforeMinutes,
+              bufferAfterMinutes: eventTypes.bufferAfterMinutes,
+              slotIncrementMinutes: eventTypes.slotIncrementMinutes,
               isActive: eventTypes.isActive,
             });
           if (!eventType) {
@@ -269,23 +292,37 @@ export const registerOrganizerTeamWriteRoutes = (app: ApiApp): void => {
 
           const [teamEventType] = await transaction
             .insert(teamEventTypes)
-            .values({ teamId: team.id, eventTypeId: eventType.id, mode: parsed.data.mode })
+            .values({
+              teamId: team.id,
+              eventTypeId: eventType.id,
+              mode: parsed.data.mode,
+              roundRobinStrategy: parsed.data.roundRobinStrategy,
+              roundRobinWindowDays: parsed.data.roundRobinWindowDays,
+            })
             .returning({
               id: teamEventTypes.id,
               mode: teamEventTypes.mode,
               roundRobinCursor: teamEventTypes.roundRobinCursor,
+              roundRobinStrategy: teamEventTypes.roundRobinStrategy,
+              roundRobinWindowDays: teamEventTypes.roundRobinWindowDays,
             });
           if (!teamEventType) {
             throw new Error('Failed to create team event type.');
           }
 
-          await transaction.insert(teamEventTypeMembers).values(
-            requiredMemberUserIds.map((memberUserId) => ({
+          await transaction.insert(teamEventTypeMembers).values([
+            ...requiredMemberUserIds.map((memberUserId) => ({
               teamEventTypeId: teamEventType.id,
               userId: memberUserId,
               isRequired: true,
+              weight: memberWeights[memberUserId] ?? 1,
+            })),
+            ...optionalMemberUserIds.map((memberUserId) => ({
+              teamEventTypeId: teamEventType.id,
+              userId: memberUserId,
+              isRequired: false,
             })),
-          );
+          ]);
 
           await consumeDemoFeatureCredits(transaction as DemoQuotaDb, context.env, authedUser, {
             featureKey: 'team_event_type_create',
@@ -313,7 +350,13 @@ export const registerOrganizerTeamWriteRoutes = (app: ApiApp): void => {
             teamId: team.id,
             mode: result.teamEventType.mode,
             roundRobinCursor: result.teamEventType.roundRobinCursor,
+            roundRobinStrategy: result.teamEventType.roundRobinStrategy,
+            roundRobinWindowDays: result.teamEventType.roundRobinWindowDays,
             requiredMemberUserIds,
+            optionalMemberUserIds,
+            memberWeights: Object.fromEntries(
+              requiredMemberUserIds.map((memberUserId) => [memberUserId, memberWeights[memberUserId] ?? 1]),
+            ),
             eventType: { ...result.eventType, questions: toEventQuestions(result.eventType.questions) },
           },
         });
@@ -0,0 +1,123 @@
+import { Hono } from 'hono';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Bindings } from '../server/types';
+
+const { applyPaymentWebhookOutcomeMock, findBookingPaymentSessionMock, withDatabaseMock } = vi.hoisted(() => ({
+  applyPaymentWebhookOutcomeMock: vi.fn(),
+  findBookingPaymentSessionMock: vi.fn(),
+  withDatabaseMock: vi.fn(async (_context: unknown, handler: (db: unknown) => Promise<Response>) => handler({})),
+}));
+
+vi.mock('../server/database', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  withDatabase: withDatabaseMock,
+}));
+
+vi.mock('../server/booking-payments', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  applyPaymentWebhookOutcome: applyPaymentWebhookOutcomeMock,
+  findBookingPaymentSession: findBookingPaymentSessionMock,
+}));
+
+import { registerPaymentRoutes } from './payments';
+
+const fakeBindings = {
+  APP_BASE_URL: 'https://opencalendly.com',
+  PAYMENT_PROVIDER: 'fake',
+  ENABLE_DEV_AUTH_BOOTSTRAP: 'true',
+} as Bindings;
+const stripeBindings = {
+  APP_BASE_URL: 'https://opencalendly.com',
+  PAYMENT_PROVIDER: 'stripe',
+  STRIPE_SECRET_KEY: 'sk_test_123',
+  STRIPE_WEBHOOK_SECRET: 'whsec_test_secret',
+} as Bindings;
+
+const request = (path: string, init: RequestInit, bindings: Bindings) => {
+  const app = new Hono();
+  registerPaymentRoutes(app as never);
+  return app.request(`http://localhost${path}`, init, bindings);
+};
+
+describe('payment routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'info').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('only accepts webhooks for the configured provider', async () => {
+    const response = await request('/v0/payments/webhooks/stripe', { method: 'POST', body: '{}' }, fakeBindings);
+    expect(response.status).toBe(404);
+
+    const withoutDevAuth = { APP_BASE_URL: 'https://opencalendly.com', PAYMENT_PROVIDER: 'fake' } as Bindings;
+    expect((await request('/v0/payments/webhooks/fake', { method: 'POST', body: '{}' }, withoutDevAuth)).status).toBe(
+      404,
+    );
+  });
+
+  it('rejects Stripe webhooks with a bad signature', async () => {
+    const response = await request(
+      '/v0/payments/webhooks/stripe',
+      { method: 'POST', body: '{"type":"checkout.session.expired"}', headers: { 'stripe-signature': 't=1,v1=bad' } },
+      stripeBindings,
+    );
+
+    expect(response.status).toBe(400);
+    expect(applyPaymentWebhookOutcomeMock).not.toHaveBeenCalled();
+  });
+
+  it('ignores events that do not change a hold and applies the rest', async () => {
+    const ignored = await request('/v0/payments/webhooks/fake', { method: 'POST', body: '{}' }, fakeBindings);
+    expect(await ignored.json()).toEqual({ ok: true, ignored: true });
+
+    applyPaymentWebhookOutcomeMock.mockResolvedValue({ state: 'confirmed', bookingId: 'booking-1' });
+    const response = await request(
+      '/v0/payments/webhooks/fake',
+      { method: 'POST', body: JSON.stringify({ sessionId: 'fake_session', outcome: 'succeeded' }) },
+      fakeBindings,
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ ok: true, result: 'confirmed' });
+    expect(applyPaymentWebhookOutcomeMock).toHaveBeenCalledWith(
+      expect.anything(),
+      fakeBindings,
+      expect.objectContaining({ name: 'fake' }),
+      expect.objectContaining({ sessionId: 'fake_session', outcome: 'succeeded' }),
+      expect.objectContaining({ appBaseUrl: 'https://opencalendly.com' }),
+    );
+  });
+
+  it('returns the session status for the payment page', async () => {
+    findBookingPaymentSessionMock.mockResolvedValue({
+      payment: {
+        provider: 'fake',
+        providerSessionId: 'fake_session',
+        status: 'pending',
+        amountCents: 5000,
+        currency: 'usd',
+        checkoutUrl: 'https://opencalendly.com/payment/fake_session',
+        expiresAt: new Date('2026-03-10T12:30:00.000Z'),
+      },
+      booking: {
+        id: 'booking-1',
+        status: 'pending_payment',
+        startsAt: new Date('2026-03-12T16:00:00.000Z'),
+        endsAt: new Date('2026-03-12T16:30:00.000Z'),
+      },
+      eventTypeName: 'Intro Call',
+    });
+
+    const response = await request('/v0/payments/sessions/fake_session', {}, fakeBindings);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      ok: true,
+      payment: { sessionId: 'fake_session', status: 'pending', amountCents: 5000 },
+      booking: { id: 'booking-1', status: 'pending_payment' },
+      eventType: { name: 'Intro Call' },
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { PaymentWebhookSignatureError } from '../lib/payments';
+import { emitAuditEvent } from '../server/audit';
+import {
+  applyPaymentWebhookOutcome,
+  findBookingPaymentSession,
+  resolvePaymentProvider,
+  toPublicBookingPayment,
+} from '../server/booking-payments';
+import { jsonError } from '../server/core';
+import { withDatabase } from '../server/database';
+import { resolveAppBaseUrl } from '../server/env';
+import type { ApiApp } from '../server/types';
+
+const MAX_PAYMENT_SESSION_ID_LENGTH = 255;
+
+export const registerPaymentRoutes = (app: ApiApp): void => {
+  app.post('/v0/payments/webhooks/:provider', async (context) => {
+    const provider = resolvePaymentProvider(context.env);
+    if (!provider || provider.name !== context.req.param('provider')) {
+      return jsonError(context, 404, 'Payment provider not found.');
+    }
+
+    const payload = await context.req.text();
+    const now = new Date();
+    let outcome;
+    try {
+      outcome = provider.parseWebhook({
+        payload,
+        signatureHeader: context.req.header('stripe-signature') ?? null,
+        now,
+      });
+    } catch (error) {
+      if (error instanceof PaymentWebhookSignatureError) {
+        emitAuditEvent({
+          event: 'payment_webhook_rejected',
+          level: 'warn',
+          route: '/v0/payments/webhooks/:provider',
+          statusCode: 400,
+          paymentProvider: provider.name,
+        });
+        return jsonError(context, 400, 'Invalid webhook signature.');
+      }
+      throw error;
+    }
+    if (!outcome) {
+      return context.json({ ok: true, ignored: true });
+    }
+
+    let appBaseUrl: string;
+    try {
+      appBaseUrl = resolveAppBaseUrl(context.env, context.req.raw);
+    } catch (error) {
+      return jsonError(context, 500, error instanceof Error ? error.message : 'APP_BASE_URL must be a valid URL.');
+    }
+
+    return withDatabase(context, async (db) => {
+      const result = await applyPaymentWebhookOutcome(db, context.env, provider, outcome, {
+        request: context.req.raw,
+        appBaseUrl,
+        now,
+      });
+      emitAuditEvent({
+        event: 'payment_webhook_processed',
+        level: result.state === 'refund_failed' ? 'error' : 'info',
+        route: '/v0/payments/webhooks/:provider',
+        statusCode: 200,
+        paymentProvider: provider.name,
+        outcome: outcome.outcome,
+        result: result.state,
+        ...('bookingId' in result ? { bookingId: result.bookingId } : {}),
+      });
+      return context.json({ ok: true, result: result.state });
+    });
+  });
+
+  app.get('/v0/payments/sessions/:sessionId', async (context) => {
+    const sessionId = context.req.param('sessionId');
+    if (sessionId.length > MAX_PAYMENT_SESSION_ID_LENGTH) {
+      return jsonError(context, 404, 'Payment session not found.');
+    }
+
+    return withDatabase(context, async (db) => {
+      const row = await findBookingPaymentSession(db, sessionId);
+      if (!row) {
+        return jsonError(context, 404, 'Payment session not found.');
+      }
+
+      return context.json({
+        ok: true,
+        payment: toPublicBookingPayment(row.payment),
+        booking: {
+          id: row.booking.id,
+          status: row.booking.status,
+          startsAt: row.booking.startsAt.toISOString(),
+          endsAt: row.booking.endsAt.toISOString(),
+        },
+        eventType: { name: row.eventTypeName },
+      });
+    });
+  });
+};
@@ -4,16 +4,20 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 const {
   dbRef,
   emitTeamAvailabilityAuditMock,
+  findPublicEventTypeMock,
   findTeamEventTypeContextMock,
   isPublicBookingRateLimitedMock,
+  listAvailabilityRulesForScheduleMock,
   listTeamMemberSchedulesMock,
   resolveAuthenticatedUserMock,
   withDatabaseMock,
 } = vi.hoisted(() => ({
   dbRef: { current: {} as unknown },
   emitTeamAvailabilityAuditMock: vi.fn(),
+  findPublicEventTypeMock: vi.fn(),
   findTeamEventTypeContextMock: vi.fn(),
   isPublicBookingRateLimitedMock: vi.fn(),
+  listAvailabilityRulesForScheduleMock: vi.fn(),
   listTeamMemberSchedulesMock: vi.fn(),
   resolveAuthenticatedUserMock: vi.fn(),
   withDatabaseMock: vi.fn(async (_context: unknown, handler: (db: unknown) => Promise<Response>) =>
@@ -46,9 +50,17 @@ vi.mock('../server/team-context', () => ({
 }));
 
 vi.mock('../server/team-schedules', () => ({
-  listExternalBusyWindowsForUser: vi.fn(),
+  listExternalBusyWindowsForUser: vi.fn(async () => []),
   listTeamMemberSchedules: listTeamMemberSchedulesMock,
-  listTimeOffBlocksForUser: vi.fn(),
+  listTimeOffBlocksForUser: vi.fn(async () => []),
+}));
+
+vi.mock('../server/public-events', () => ({
+  findPublicEventType: findPublicEventTypeMock,
+}));
+
+vi.mock('../server/availability-schedules', () => ({
+  listAvailabilityRulesForSchedule: listAvailabilityRulesForScheduleMock,
 }));
 
 vi.mock('../server/auth-session', () => ({
@@ -124,3 +136,134 @@ describe('GET /v0/teams/:teamSlug/event-types/:eventSlug/availability', () => {
     });
   });
 });
+
+describe('GET /v0/users/:username/event-types/:slug/availability', () => {
+  beforeEach(() => {
+    const emptyQuery = { from: () => ({ where: async () => [] }) };
+    dbRef.current = { select: () => emptyQuery };
+    findPublicEventTypeMock.mockReset();
+    isPublicBookingRateLimitedMock.mockReset();
+    listAvailabilityRulesForScheduleMock.mockReset();
+  });
+
+  it('computes slots from the named schedule selected on the event type', async () => {
+    findPublicEventTypeMock.mockResolvedValue({
+      id: 'event-1',
+      userId: 'user-1',
+      slug: 'office-hours',
+      name: 'Office Hours',
+      durationMinutes: 30,
+      dailyBookingLimit: null,
+      weeklyBookingLimit: null,
+      monthlyBookingLimit: null,
+      locationType: 'video',
+      locationValue: null,
+      questions: [],
+      availabilityScheduleId: 'schedule-1',
+      minimumNoticeMinutes: 0,
+      bookingHorizonDays: null,
+      bufferBeforeMinutes: 0,
+      bufferAfterMinutes: 0,
+      slotIncrementMinutes: null,
+      isActive: true,
+      organizerDisplayName: 'Demo Organizer',
+      organizerEmail: 'demo@opencalendly.dev',
+      organizerTimezone: 'UTC',
+    });
+    isPublicBookingRateLimitedMock.mockResolvedValue(false);
+    listAvailabilityRulesForScheduleMock.mockResolvedValue([
+      { dayOfWeek: 2, startMinute: 600, endMinute: 660, bufferBeforeMinutes: 0, bufferAfterMinutes: 0 },
+    ]);
+
+    const app = new Hono();
+    registerPublicAvailabilityRoutes(app as never);
+
+    const response = await app.request(
+      'http://localhost/v0/users/demo/event-types/office-hours/availability?timezone=UTC&start=2026-03-01T00:00:00.000Z&days=7',
+    );
+    const payload = (await response.json()) as { slots: Array<{ startsAt: string }> };
+
+    expect(response.status).toBe(200);
+    expect(listAvailabilityRulesForScheduleMock).toHaveBeenCalledWith(expect.anything(), {
+      userId: 'user-1',
+      scheduleId: 'schedule-1',
+    });
+    expect(payload.slots.map((slot) => slot.startsAt)).toEqual([
+      '2026-03-03T10:00:00.000Z',
+      '2026-03-03T10:15:00.000Z',
+      '2026-03-03T10:30:00.000Z',
+    ]);
+  });
+});
+
+describe('GET /v0/users/:username/event-types/:slug/availability for seated event types', () => {
+  beforeEach(() => {
+    findPublicEventTypeMock.mockReset();
+    isPublicBookingRateLimitedMock.mockReset();
+    listAvailabilityRulesForScheduleMock.mockReset();
+  });
+
+  it('reports remaining seats and hides full slots', async () => {
+    const attendee = (seatNumber: number, startsAtIso: string, endsAtIso: string) => ({
+      eventTypeId: 'event-1',
+      startsAt: new Date(startsAtIso),
+      endsAt: new Date(endsAtIso),
+      status: 'confirmed',
+      metadata: null,
+      seatNumber,
+    });
+    const existingBookings = [
+      attendee(1, '2026-03-03T10:00:00.000Z', '2026-03-03T10:30:00.000Z'),
+      attendee(1, '2026-03-03T10:30:00.000Z', '2026-03-03T11:00:00.000Z'),
+      attendee(2, '2026-03-03T10:30:00.000Z', '2026-03-03T11:00:00.000Z'),
+    ];
+    // Only the bookings query selects seat numbers; the overrides query stays empty.
+    dbRef.current = {
+      select: (columns: Record<string, unknown>) => ({
+        from: () => ({ where: async () => ('seatNumber' in columns ? existingBookings : []) }),
+      }),
+    };
+    findPublicEventTypeMock.mockResolvedValue({
+      id: 'event-1',
+      userId: 'user-1',
+      slug: 'workshop',
+      name: 'Workshop',
+      durationMinutes: 30,
+      dailyBookingLimit: null,
+      weeklyBookingLimit: null,
+      monthlyBookingLimit: null,
+      locationType: 'video',
+      locationValue: null,
+      questions: [],
+      availabilityScheduleId: null,
+      minimumNoticeMinutes: 0,
+      bookingHorizonDays: null,
+      bufferBeforeMinutes: 0,
+      bufferAfterMinutes: 0,
+      slotIncrementMinutes: 30,
+      seatsPerSlot: 2,
+      isActive: true,
+      organizerDisplayName: 'Demo Organizer',
+      organizerEmail: 'demo@opencalendly.dev',
+      organizerTimezone: 'UTC',
+    });
+    isPublicBookingRateLimitedMock.mockResolvedValue(false);
+    listAvailabilityRulesForScheduleMock.mockResolvedValue([
+      { dayOfWeek: 2, startMinute: 600, endMinute: 690, bufferBeforeMinutes: 0, bufferAfterMinutes: 0 },
+    ]);
+
+    const app = new Hono();
+    registerPublicAvailabilityRoutes(app as never);
+
+    const response = await app.request(
+      'http://localhost/v0/users/demo/event-types/workshop/availability?timezone=UTC&start=2026-03-01T00:00:00.000Z&days=7',
+    );
+    const payload = (await response.json()) as { slots: Array<{ startsAt: string; remainingSeats: number }> };
+
+    expect(response.status).toBe(200);
+    expect(payload.slots).toEqual([
+      { startsAt: '2026-03-03T10:00:00.000Z', endsAt: '2026-03-03T10:30:00.000Z', remainingSeats: 1 },
+      { startsAt: '2026-03-03T11:00:00.000Z', endsAt: '2026-03-03T11:30:00.000Z', remainingSeats: 2 },
+    ]);
+  });
+});
@@ -1,18 +1,21 @@
 import { and, eq, gt, lt } from 'drizzle-orm';
 
-import { availabilityOverrides, availabilityRules, bookings } from '@opencalendly/db';
+import { availabilityOverrides, bookings } from '@opencalendly/db';
 
-import { computeAvailabilitySlots } from '../lib/availability';
+import { computeAvailabilitySlots, toEventTypeSchedulingRules } from '../lib/availability';
 import {
   buildBookingCapUsage,
   filterSlotsByBookingCaps,
   hasBookingCaps,
   resolveBookingCapUsageRange,
 } from '../lib/booking-caps';
+import { planSlotSeating, withRemainingSeats } from '../lib/booking-seats';
 import { computeTeamAvailabilitySlots } from '../lib/team-scheduling';
+import { slotHoldingBookingCondition } from '../server/booking-holds';
 import { withDatabase } from '../server/database';
 import { jsonError, normalizeTimezone } from '../server/core';
 import { resolveAuthenticatedUser } from '../server/auth-session';
+import { listAvailabilityRulesForSchedule } from '../server/availability-schedules';
 import {
   requiresLaunchDemoAuthForTeamRoute,
   requiresLaunchDemoAuthForUserRoute,
@@ -117,16 +120,10 @@ export const registerPublicAvailabilityRoutes = (app: ApiApp): void => {
       const dataLoadStartedAt = Date.now();
       const [rules, overrides, userTimeOffBlocks, externalBusyWindows, existingBookings, eventTypeBookingsForCapUsage] =
         await Promise.all([
-          db
-            .select({
-              dayOfWeek: availabilityRules.dayOfWeek,
-              startMinute: availabilityRules.startMinute,
-              endMinute: availabilityRules.endMinute,
-              bufferBeforeMinutes: availabilityRules.bufferBeforeMinutes,
-              bufferAfterMinutes: availabilityRules.bufferAfterMinutes,
-            })
-            .from(availabilityRules)
-            .where(eq(availabilityRules.userId, eventType.userId)),
+          listAvailabilityRulesForSchedule(db, {
+            userId: eventType.userId,
+            scheduleId: eventType.availabilityScheduleId,
+          }),
           db
             .select({
               startAt: availabilityOverrides.startAt,
@@ -145,16 +142,18 @@ export const registerPublicAvailabilityRoutes = (app: ApiApp): void => {
           listExternalBusyWindowsForUser(db, eventType.userId, rangeStart.toJSDate(), rangeEnd.toJSDate()),
           db
             .select({
+              eventTypeId: bookings.eventTypeId,
               startsAt: bookings.startsAt,
               endsAt: bookings.endsAt,
               status: bookings.status,
               metadata: bookings.metadata,
+              seatNumber: bookings.seatNumber,
             })
             .from(bookings)
             .where(
               and(
                 eq(bookings.organizerId, eventType.userId),
-                eq(bookings.status, 'confirmed'),
+                slotHoldingBookingCondition(new Date()),
                 lt(bookings.startsAt, rangeEnd.toJSDate()),
                 gt(bookings.endsAt, rangeStart.toJSDate()),
               ),
@@ -170,6 +169,7 @@ export const registerPublicAvailabilityRoutes = (app: ApiApp): void => {
       const dataLoadMs = Date.now() - dataLoadStartedAt;
 
       const computeStartedAt = Date.now();
+      const seating = planSlotSeating(existingBookings, eventType);
       const slots = computeAvailabilitySlots({
         organizerTimezone: eventType.organizerTimezone,
         rangeStartIso: startIso,
@@ -189,19 +189,21 @@ export const registerPublicAvailabilityRoutes = (app: ApiApp): void => {
             isAvailable: false,
           })),
         ],
-        bookings: existingBookings,
+        bookings: seating.blockingBookings,
+        eventTypeRules: toEventTypeSchedulingRules(eventType),
       });
       const computeMs = Date.now() - computeStartedAt;
 
       const capFilterStartedAt = Date.now();
+      const seatedSlots = withRemainingSeats(slots, seating);
       const slotsWithBookingCaps = hasBookingCaps(bookingCaps)
         ? filterSlotsByBookingCaps({
-            slots,
+            slots: seatedSlots,
             timezone: eventType.organizerTimezone,
             caps: bookingCaps,
             usage: buildBookingCapUsage(eventTypeBookingsForCapUsage, eventType.organizerTimezone),
           })
-        : slots;
+        : seatedSlots;
       const capFilterMs = Date.now() - capFilterStartedAt;
 
       emitUserAvailabilityAudit({
@@ -219,7 +221,7 @@ export const registerPublicAvailabilityRoutes = (app: ApiApp): void => {
       return context.json({
         ok: true,
         timezone: normalizeTimezone(timezone),
-        slots: slotsWithBookingCaps.map((slot) => ({ startsAt: slot.startsAt, endsAt: slot.endsAt })),
+        slots: slotsWithBookingCaps.map(({ startsAt, endsAt, remainingSeats }) => ({ startsAt, endsAt, remainingSeats })),
       });
     });
   });
@@ -324,15 +326,23 @@ export const registerPublicAvailabilityRoutes = (app: ApiApp): void => {
         });
         return jsonError(context, 409, 'Some required team members no longer exist.');
       }
+      const optionalMemberSchedules = await listTeamMemberSchedules(
+        db,
+        teamEventContext.optionalMembers.map((member) => member.userId),
+        rangeStart.toJSDate(),
+        rangeEnd.toJSDate(),
+      );
 
       const computeStartedAt = Date.now();
       const availability = computeTeamAvailabilitySlots({
         mode: teamEventContext.mode,
         members: memberSchedules,
+        optionalMembers: optionalMemberSchedules,
         rangeStartIso: startIso,
         days,
         durationMinutes: teamEventContext.eventType.durationMinutes,
         roundRobinCursor: teamEventContext.roundRobinCursor,
+        eventTypeRules: toEventTypeSchedulingRules(teamEventContext.eventType),
       });
       const computeMs = Date.now() - computeStartedAt;
 
@@ -375,6 +385,7 @@ export const registerPublicAvailabilityRoutes = (app: ApiApp): void => {
           startsAt: slot.startsAt,
           endsAt: slot.endsAt,
           assignmentUserIds: slot.assignmentUserIds,
+          optionalAttendeeUserIds: slot.optionalAttendeeUserIds,
         })),
       });
     });
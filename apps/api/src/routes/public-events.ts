@@ -126,7 +126,9 @@ export const registerPublicEventRoutes = (app: ApiApp): void => {
         return jsonError(context, 404, 'Team event type not found.');
       }
 
-      const memberIds = teamEventContext.members.map((member) => member.userId);
+      const memberIds = [...teamEventContext.members, ...teamEventContext.optionalMembers].map(
+        (member) => member.userId,
+      );
       const memberRows =
         memberIds.length > 0
           ? await db
@@ -140,6 +142,21 @@ export const registerPublicEventRoutes = (app: ApiApp): void => {
               .where(inArray(users.id, memberIds))
           : [];
       const memberById = new Map(memberRows.map((member) => [member.id, member]));
+      const toPublicMember = (member: { userId: string; role: string }) => {
+        const profile = memberById.get(member.userId);
+        return {
+          userId: member.userId,
+          role: member.role,
+          user: profile
+            ? {
+                id: profile.id,
+                username: profile.username,
+                displayName: profile.displayName,
+                timezone: normalizeTimezone(profile.timezone),
+              }
+            : null,
+        };
+      };
 
       emitAuditEvent({
         event: 'availability_read_completed',
@@ -171,21 +188,8 @@ export const registerPublicEventRoutes = (app: ApiApp): void => {
           questions: teamEventContext.eventType.questions ?? [],
         },
         mode: teamEventContext.mode,
-        members: teamEventContext.members.map((member) => ({
-          userId: member.userId,
-          role: member.role,
-          user: (() => {
-            const profile = memberById.get(member.userId);
-            return profile
-              ? {
-                  id: profile.id,
-                  username: profile.username,
-                  displayName: profile.displayName,
-                  timezone: normalizeTimezone(profile.timezone),
-                }
-              : null;
-          })(),
-        })),
+        members: teamEventContext.members.map(toPublicMember),
+        optionalMembers: teamEventContext.optionalMembers.map(toPublicMember),
       });
     });
   });
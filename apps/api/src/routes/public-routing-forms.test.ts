@@ -0,0 +1,176 @@
+import { Hono } from 'hono';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Bindings } from '../server/types';
+
+const { formRows, listRoutingTargetsMock, tryRecordAnalyticsFunnelEventMock, withDatabaseMock } = vi.hoisted(() => {
+  const formRows: unknown[] = [];
+  const query = {
+    from: () => query,
+    where: () => query,
+    limit: async () => formRows,
+  };
+  return {
+    formRows,
+    listRoutingTargetsMock: vi.fn(),
+    tryRecordAnalyticsFunnelEventMock: vi.fn(),
+    withDatabaseMock: vi.fn(async (_context: unknown, handler: (db: unknown) => Promise<Response>) =>
+      handler({ select: () => query }),
+    ),
+  };
+});
+
+vi.mock('../server/database', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  withDatabase: withDatabaseMock,
+}));
+
+vi.mock('../server/rate-limit', () => ({
+  isPublicBookingRateLimited: vi.fn(async () => false),
+  resolveRateLimitClientKey: vi.fn(() => 'client'),
+}));
+
+vi.mock('../server/routing-forms', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  listRoutingTargets: listRoutingTargetsMock,
+}));
+
+vi.mock('../server/telemetry', () => ({
+  tryRecordAnalyticsFunnelEvent: tryRecordAnalyticsFunnelEventMock,
+}));
+
+import { registerPublicRoutingFormRoutes } from './public-routing-forms';
+
+const formId = '0d5c2b9a-8f7e-4d6c-b5a4-3f2e1d0c9b8a';
+const ownerId = '1b4e28ba-2fa1-41d2-883f-0016d3cca427';
+const enterpriseId = '2f1c7a0e-5b8d-4c1a-9e3f-7d6b5a4c3b2a';
+const fallbackId = 'c3b2a1f0-9e8d-4c7b-a6f5-e4d3c2b1a0f9';
+
+const bindings = { APP_BASE_URL: 'https://opencalendly.com' } as Bindings;
+
+const submit = (answers: unknown) => {
+  const app = new Hono();
+  registerPublicRoutingFormRoutes(app as never);
+  return app.request(
+    'http://localhost/v0/route/sales',
+    { method: 'POST', body: JSON.stringify({ answers }), headers: { 'content-type': 'application/json' } },
+    bindings,
+  );
+};
+
+describe('public routing form routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    formRows.splice(0, formRows.length, {
+      id: formId,
+      userId: ownerId,
+      slug: 'sales',
+      name: 'Talk to sales',
+      questions: [
+        { id: 'company_size', label: 'Company size', required: true, type: 'number' },
+        { id: 'country', label: 'Country', required: false },
+      ],
+      rules: [
+        {
+          conditions: [{ questionId: 'company_size', operator: 'greater_than', value: 200 }],
+          eventTypeId: enterpriseId,
+        },
+      ],
+      fallbackEventTypeId: fallbackId,
+      isActive: true,
+    });
+    listRoutingTargetsMock.mockResolvedValue(
+      new Map([
+        [
+          enterpriseId,
+          {
+            eventTypeId: enterpriseId,
+            organizerId: ownerId,
+            teamEventTypeId: 'team-event-1',
+            basePath: '/team/sales/enterprise-demo',
+            questionIds: ['company_size'],
+            isActive: true,
+          },
+        ],
+        [
+          fallbackId,
+          {
+            eventTypeId: fallbackId,
+            organizerId: ownerId,
+            teamEventTypeId: null,
+            basePath: '/owner/intro',
+            questionIds: [],
+            isActive: true,
+          },
+        ],
+      ]),
+    );
+  });
+
+  it('redirects to the first matching rule and records the decision', async () => {
+    const response = await submit({ company_size: '500', country: 'IN' });
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      ok: true,
+      redirectPath: `/team/sales/enterprise-demo?answers=${encodeURIComponent(JSON.stringify({ company_size: 500 }))}`,
+      answers: { company_size: 500 },
+      target: { eventTypeId: enterpriseId, teamEventTypeId: 'team-event-1', ruleIndex: 0 },
+    });
+    expect(tryRecordAnalyticsFunnelEventMock).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        eventTypeId: enterpriseId,
+        teamEventTypeId: 'team-event-1',
+        stage: 'routing_decision',
+        metadata: expect.objectContaining({ routingFormId: formId, ruleIndex: 0, fallback: false }),
+      }),
+    );
+  });
+
+  it('falls back when no rule matches', async () => {
+    const response = await submit({ company_size: 20 });
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({
+      redirectPath: '/owner/intro',
+      target: { eventTypeId: fallbackId, ruleIndex: null },
+    });
+  });
+
+  it('rejects answers that fail the form questions', async () => {
+    const response = await submit({ country: 'IN' });
+
+    expect(response.status).toBe(400);
+    expect(tryRecordAnalyticsFunnelEventMock).not.toHaveBeenCalled();
+  });
+
+  it('refuses long answers to pattern questions before running the pattern', async () => {
+    formRows.splice(0, 1, {
+      ...(formRows[0] as object),
+      questions: [{ id: 'country', label: 'Country', required: true, pattern: '[A-Z]{2}' }],
+    });
+
+    const response = await submit({ country: 'A'.repeat(5000) });
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toMatchObject({
+      error: 'Answer for "Country" must be at most 100 characters.',
+    });
+  });
+
+  it('never evaluates a stored pattern that backtracks catastrophically', async () => {
+    // Written straight to the row, as if it predated the save-time check.
+    formRows.splice(0, 1, {
+      ...(formRows[0] as object),
+      questions: [{ id: 'country', label: 'Country', required: true, pattern: '(a|a)+' }],
+    });
+
+    const startedAt = performance.now();
+    const response = await submit({ country: `${'a'.repeat(30)}!` });
+
+    expect(response.status).toBe(400);
+    expect(performance.now() - startedAt).toBeLessThan(1000);
+    expect(tryRecordAnalyticsFunnelEventMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,121 @@
+import { and, eq } from 'drizzle-orm';
+
+import { routingForms } from '@opencalendly/db';
+import { routingFormSubmitSchema } from '@opencalendly/shared';
+
+import { BookingValidationError, validateBookingAnswers } from '../lib/booking';
+import { buildRoutingRedirectPath, selectRoutingTarget } from '../lib/routing-forms';
+import { jsonError } from '../server/core';
+import { withDatabase } from '../server/database';
+import { PUBLIC_BOOKING_RATE_LIMIT_MAX_BOOKING_REQUESTS_PER_SCOPE } from '../server/env';
+import { isPublicBookingRateLimited, resolveRateLimitClientKey } from '../server/rate-limit';
+import { listRoutingTargets, toRoutingRules } from '../server/routing-forms';
+import { toEventQuestions } from '../server/public-events';
+import { tryRecordAnalyticsFunnelEvent } from '../server/telemetry';
+import type { ApiApp, QueryableDb } from '../server/types';
+
+const findActiveRoutingForm = async (db: QueryableDb, formSlug: string) => {
+  const [row] = await db
+    .select()
+    .from(routingForms)
+    .where(and(eq(routingForms.slug, formSlug), eq(routingForms.isActive, true)))
+    .limit(1);
+  return row ?? null;
+};
+
+export const registerPublicRoutingFormRoutes = (app: ApiApp): void => {
+  app.get('/v0/route/:formSlug', async (context) => {
+    return withDatabase(context, async (db) => {
+      const form = await findActiveRoutingForm(db, context.req.param('formSlug'));
+      if (!form) {
+        return jsonError(context, 404, 'Routing form not found.');
+      }
+
+      return context.json({
+        ok: true,
+        form: { slug: form.slug, name: form.name, questions: toEventQuestions(form.questions) },
+      });
+    });
+  });
+
+  app.post('/v0/route/:formSlug', async (context) => {
+    return withDatabase(context, async (db) => {
+      const formSlug = context.req.param('formSlug');
+      const parsed = routingFormSubmitSchema.safeParse(await context.req.json().catch(() => null));
+      if (!parsed.success) {
+        return jsonError(context, 400, parsed.error.issues[0]?.message ?? 'Invalid request body.');
+      }
+
+      if (
+        await isPublicBookingRateLimited(db, {
+          clientKey: resolveRateLimitClientKey(context.req.raw),
+          scope: `routing|${formSlug}`,
+          perScopeLimit: PUBLIC_BOOKING_RATE_LIMIT_MAX_BOOKING_REQUESTS_PER_SCOPE,
+        })
+      ) {
+        return jsonError(context, 429, 'Rate limit exceeded. Try again in a minute.');
+      }
+
+      const form = await findActiveRoutingForm(db, formSlug);
+      if (!form) {
+        return jsonError(context, 404, 'Routing form not found.');
+      }
+
+      let answers;
+      try {
+        answers = validateBookingAnswers(toEventQuestions(form.questions), parsed.data.answers);
+      } catch (error) {
+        if (error instanceof BookingValidationError) {
+          return jsonError(context, 400, error.message);
+        }
+        throw error;
+      }
+
+      const rules = toRoutingRules(form.rules);
+      const targets = await listRoutingTargets(db, [
+        ...rules.map((rule) => rule.eventTypeId),
+        ...(form.fallbackEventTypeId ? [form.fallbackEventTypeId] : []),
+      ]);
+      const selection = selectRoutingTarget({
+        rules,
+        fallbackEventTypeId: form.fallbackEventTypeId,
+        answers,
+        isBookable: (eventTypeId) => targets.get(eventTypeId)?.isActive ?? false,
+      });
+      const target = selection ? targets.get(selection.eventTypeId) : undefined;
+      if (!selection || !target) {
+        return jsonError(context, 404, 'No event type matches these answers.');
+      }
+
+      await tryRecordAnalyticsFunnelEvent(db, {
+        organizerId: target.organizerId,
+        eventTypeId: target.eventTypeId,
+        teamEventTypeId: target.teamEventTypeId,
+        stage: 'routing_decision',
+        metadata: {
+          source: 'routing_form',
+          routingFormId: form.id,
+          routingFormOwnerId: form.userId,
+          ruleIndex: selection.ruleIndex,
+          fallback: selection.ruleIndex === null,
+        },
+      });
+
+      const redirect = buildRoutingRedirectPath({
+        basePath: target.basePath,
+        answers,
+        targetQuestionIds: target.questionIds,
+      });
+      return context.json({
+        ok: true,
+        redirectPath: redirect.redirectPath,
+        answers: redirect.answers,
+        target: {
+          eventTypeId: target.eventTypeId,
+          teamEventTypeId: target.teamEventTypeId,
+          ruleIndex: selection.ruleIndex,
+        },
+      });
+    });
+  });
+};
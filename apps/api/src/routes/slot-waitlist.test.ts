@@ -0,0 +1,205 @@
+import { Hono } from 'hono';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Bindings } from '../server/types';
+
+const {
+  claimWaitlistOfferMock,
+  isPublicBookingRateLimitedMock,
+  joinSlotWaitlistMock,
+  lookupWaitlistOfferMock,
+  queueBookingCreatedSideEffectsMock,
+  resolveAuthenticatedUserMock,
+  sendBookingCreatedEmailSideEffectsMock,
+  withDatabaseMock,
+} = vi.hoisted(() => ({
+  claimWaitlistOfferMock: vi.fn(),
+  isPublicBookingRateLimitedMock: vi.fn(),
+  joinSlotWaitlistMock: vi.fn(),
+  lookupWaitlistOfferMock: vi.fn(),
+  queueBookingCreatedSideEffectsMock: vi.fn(),
+  resolveAuthenticatedUserMock: vi.fn(),
+  sendBookingCreatedEmailSideEffectsMock: vi.fn(),
+  withDatabaseMock: vi.fn(async (_context: unknown, handler: (db: unknown) => Promise<Response>) => handler({})),
+}));
+
+vi.mock('../server/database', () => ({
+  withDatabase: withDatabaseMock,
+}));
+
+vi.mock('../server/auth-session', () => ({
+  resolveAuthenticatedUser: resolveAuthenticatedUserMock,
+}));
+
+vi.mock('../server/rate-limit', () => ({
+  isPublicBookingRateLimited: isPublicBookingRateLimitedMock,
+  resolveRateLimitClientKey: () => 'client-key',
+}));
+
+vi.mock('../server/slot-waitlist', () => ({
+  claimWaitlistOffer: claimWaitlistOfferMock,
+  joinSlotWaitlist: joinSlotWaitlistMock,
+  lookupWaitlistOffer: lookupWaitlistOfferMock,
+}));
+
+vi.mock('../server/booking-side-effects', () => ({
+  queueBookingCreatedSideEffects: queueBookingCreatedSideEffectsMock,
+  sendBookingCreatedEmailSideEffects: sendBookingCreatedEmailSideEffectsMock,
+}));
+
+import { BookingConflictError, BookingValidationError } from '../lib/booking';
+import { BookingActionGoneError } from '../server/types';
+import { registerSlotWaitlistRoutes } from './slot-waitlist';
+
+const claimToken = 'a'.repeat(64);
+
+const bindings = {
+  APP_BASE_URL: 'https://opencalendly.com',
+} as Bindings;
+
+const executionCtx = {
+  waitUntil: vi.fn(),
+  passThroughOnException: vi.fn(),
+};
+
+const request = (path: string, init?: { method: string; body?: unknown }) => {
+  const app = new Hono();
+  registerSlotWaitlistRoutes(app as never);
+  return app.request(
+    `http://localhost${path}`,
+    init
+      ? {
+          method: init.method,
+          body: JSON.stringify(init.body ?? {}),
+          headers: { 'content-type': 'application/json' },
+        }
+      : undefined,
+    bindings,
+    executionCtx as never,
+  );
+};
+
+const joinBody = {
+  scope: 'day',
+  date: '2026-03-12',
+  timezone: 'America/Los_Angeles',
+  inviteeName: 'Sam Park',
+  inviteeEmail: 'sam@example.com',
+};
+
+describe('slot waitlist routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resolveAuthenticatedUserMock.mockResolvedValue(null);
+    isPublicBookingRateLimitedMock.mockResolvedValue(false);
+    queueBookingCreatedSideEffectsMock.mockResolvedValue({
+      queuedWebhookDeliveries: 1,
+      calendarWriteback: { queued: 0 },
+    });
+    sendBookingCreatedEmailSideEffectsMock.mockResolvedValue([{ sent: true, provider: 'resend' }]);
+  });
+
+  it('joins a day waitlist and rejects scopes without a window', async () => {
+    joinSlotWaitlistMock.mockResolvedValue({
+      id: 'entry_1',
+      scope: 'day',
+      windowKey: '2026-03-12',
+      alreadyJoined: false,
+    });
+
+    const response = await request('/v0/users/owner/event-types/intro-call/waitlist', {
+      method: 'POST',
+      body: joinBody,
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      ok: true,
+      entry: { id: 'entry_1', scope: 'day', windowKey: '2026-03-12', alreadyJoined: false },
+    });
+    expect(joinSlotWaitlistMock).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ username: 'owner', eventSlug: 'intro-call', scope: 'day', date: '2026-03-12' }),
+    );
+
+    const missingStart = await request('/v0/users/owner/event-types/intro-call/waitlist', {
+      method: 'POST',
+      body: { ...joinBody, scope: 'slot' },
+    });
+    expect(missingStart.status).toBe(400);
+    expect(await missingStart.json()).toEqual({ ok: false, error: 'Slot waitlists need a startsAt time.' });
+  });
+
+  it('surfaces waitlist rules and rate limits', async () => {
+    joinSlotWaitlistMock.mockRejectedValueOnce(
+      new BookingValidationError('Paid event types do not have a waitlist yet.'),
+    );
+    const paid = await request('/v0/users/owner/event-types/intro-call/waitlist', {
+      method: 'POST',
+      body: joinBody,
+    });
+    expect(paid.status).toBe(400);
+    expect(await paid.json()).toEqual({ ok: false, error: 'Paid event types do not have a waitlist yet.' });
+
+    isPublicBookingRateLimitedMock.mockResolvedValueOnce(true);
+    const limited = await request('/v0/users/owner/event-types/intro-call/waitlist', {
+      method: 'POST',
+      body: joinBody,
+    });
+    expect(limited.status).toBe(429);
+  });
+
+  it('claims an open offer and returns the new booking links', async () => {
+    claimWaitlistOfferMock.mockResolvedValue({
+      booking: {
+        id: 'booking_2',
+        eventTypeId: 'event_type_1',
+        organizerId: 'user_123',
+        inviteeName: 'Sam Park',
+        inviteeEmail: 'sam@example.com',
+        startsAt: new Date('2026-03-12T16:00:00.000Z'),
+        endsAt: new Date('2026-03-12T16:30:00.000Z'),
+      },
+      eventType: { name: 'Intro Call', organizerDisplayName: 'Owner', organizerEmail: 'owner@example.com' },
+      answers: {},
+      actionTokens: [
+        { actionType: 'cancel', token: 'cancel-token', expiresAt: '2026-04-12T16:00:00.000Z' },
+        { actionType: 'reschedule', token: 'reschedule-token', expiresAt: '2026-04-12T16:00:00.000Z' },
+      ],
+      queuedNotifications: 1,
+      timezone: 'America/Los_Angeles',
+    });
+
+    const response = await request(`/v0/waitlist-offers/${claimToken}/claim`, { method: 'POST' });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      ok: true,
+      booking: { id: 'booking_2', startsAt: '2026-03-12T16:00:00.000Z', status: 'confirmed' },
+      actions: { cancel: { pageUrl: 'https://opencalendly.com/bookings/actions/cancel-token' } },
+      webhooks: { queued: 1 },
+    });
+    expect(queueBookingCreatedSideEffectsMock).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ webhookMetadata: { answers: {}, source: 'waitlist' } }),
+    );
+  });
+
+  it('maps used offers to 410 and lost races to 409', async () => {
+    claimWaitlistOfferMock.mockRejectedValueOnce(
+      new BookingActionGoneError('This waitlist offer has expired or was already claimed.'),
+    );
+    expect((await request(`/v0/waitlist-offers/${claimToken}/claim`, { method: 'POST' })).status).toBe(410);
+
+    claimWaitlistOfferMock.mockRejectedValueOnce(new BookingConflictError('Selected slot is no longer available.'));
+    const conflict = await request(`/v0/waitlist-offers/${claimToken}/claim`, { method: 'POST' });
+    expect(conflict.status).toBe(409);
+    expect(await conflict.json()).toEqual({
+      ok: false,
+      error: 'Someone else booked this time first. You are still on the waitlist.',
+    });
+
+    expect((await request('/v0/waitlist-offers/short/claim', { method: 'POST' })).status).toBe(404);
+    expect(claimWaitlistOfferMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,190 @@
+import { bookingActionTokenSchema, slotWaitlistJoinSchema } from '@opencalendly/shared';
+
+import { BookingConflictError, BookingNotFoundError, BookingValidationError } from '../lib/booking';
+import { resolveAuthenticatedUser } from '../server/auth-session';
+import { emitAuditEvent } from '../server/audit';
+import { actionTokenMap, buildActionUrls } from '../server/booking-action-links';
+import {
+  queueBookingCreatedSideEffects,
+  sendBookingCreatedEmailSideEffects,
+} from '../server/booking-side-effects';
+import { jsonError, normalizeTimezone } from '../server/core';
+import { withDatabase } from '../server/database';
+import { jsonDemoQuotaError, requiresLaunchDemoAuthForUserRoute } from '../server/demo-quota';
+import { PUBLIC_BOOKING_RATE_LIMIT_MAX_BOOKING_REQUESTS_PER_SCOPE, resolveAppBaseUrl } from '../server/env';
+import { isPublicBookingRateLimited, resolveRateLimitClientKey } from '../server/rate-limit';
+import { claimWaitlistOffer, joinSlotWaitlist, lookupWaitlistOffer } from '../server/slot-waitlist';
+import type { ApiApp } from '../server/types';
+import {
+  BookingActionGoneError,
+  BookingActionNotFoundError,
+  DemoQuotaAdmissionError,
+  DemoQuotaCreditsError,
+  LaunchDemoAuthError,
+} from '../server/types';
+
+export const registerSlotWaitlistRoutes = (app: ApiApp): void => {
+  app.post('/v0/users/:username/event-types/:slug/waitlist', async (context) => {
+    const parsed = slotWaitlistJoinSchema.safeParse(await context.req.json().catch(() => null));
+    if (!parsed.success) {
+      return jsonError(context, 400, parsed.error.issues[0]?.message ?? 'Invalid request body.');
+    }
+
+    const username = context.req.param('username');
+    const eventSlug = context.req.param('slug');
+    return withDatabase(context, async (db) => {
+      if (requiresLaunchDemoAuthForUserRoute(username) && !(await resolveAuthenticatedUser(db, context.req.raw))) {
+        return jsonError(context, 401, 'Sign in to access the launch demo.');
+      }
+      if (
+        await isPublicBookingRateLimited(db, {
+          clientKey: resolveRateLimitClientKey(context.req.raw),
+          scope: `waitlist|${username}|${eventSlug}`,
+          perScopeLimit: PUBLIC_BOOKING_RATE_LIMIT_MAX_BOOKING_REQUESTS_PER_SCOPE,
+        })
+      ) {
+        return jsonError(context, 429, 'Rate limit exceeded. Try again in a minute.');
+      }
+
+      try {
+        const entry = await joinSlotWaitlist(db, {
+          username,
+          eventSlug,
+          scope: parsed.data.scope,
+          startsAt: parsed.data.startsAt,
+          date: parsed.data.date,
+          timezone: normalizeTimezone(parsed.data.timezone),
+          inviteeName: parsed.data.inviteeName,
+          inviteeEmail: parsed.data.inviteeEmail,
+          answers: parsed.data.answers,
+          now: new Date(),
+        });
+        emitAuditEvent({
+          event: 'slot_waitlist_joined',
+          level: 'info',
+          route: '/v0/users/:username/event-types/:slug/waitlist',
+          statusCode: 200,
+          organizerUsername: username,
+          eventSlug,
+          scope: entry.scope,
+          alreadyJoined: entry.alreadyJoined,
+        });
+        return context.json({ ok: true, entry });
+      } catch (error) {
+        if (error instanceof BookingNotFoundError) {
+          return jsonError(context, 404, 'Event type not found.');
+        }
+        if (error instanceof BookingValidationError) {
+          return jsonError(context, 400, error.message);
+        }
+        throw error;
+      }
+    });
+  });
+
+  app.get('/v0/waitlist-offers/:token', async (context) => {
+    const token = bookingActionTokenSchema.safeParse(context.req.param('token'));
+    if (!token.success) {
+      return jsonError(context, 404, 'Waitlist offer not found.');
+    }
+
+    return withDatabase(context, async (db) => {
+      try {
+        const offer = await lookupWaitlistOffer(db, { token: token.data, now: new Date() });
+        return context.json({ ok: true, ...offer });
+      } catch (error) {
+        if (error instanceof BookingActionNotFoundError) {
+          return jsonError(context, 404, 'Waitlist offer not found.');
+        }
+        throw error;
+      }
+    });
+  });
+
+  app.post('/v0/waitlist-offers/:token/claim', async (context) => {
+    const token = bookingActionTokenSchema.safeParse(context.req.param('token'));
+    if (!token.success) {
+      return jsonError(context, 404, 'Waitlist offer not found.');
+    }
+
+    let appBaseUrl: string;
+    try {
+      appBaseUrl = resolveAppBaseUrl(context.env, context.req.raw);
+    } catch (error) {
+      return jsonError(context, 500, error instanceof Error ? error.message : 'APP_BASE_URL must be a valid URL.');
+    }
+
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      try {
+        const result = await claimWaitlistOffer(db, context.env, authedUser, { token: token.data, now: new Date() });
+        const tokens = actionTokenMap(result.actionTokens);
+        const actionUrls = buildActionUrls(context.req.raw, appBaseUrl, {
+          cancelToken: tokens.cancelToken,
+          rescheduleToken: tokens.rescheduleToken,
+        });
+        const sideEffects = await queueBookingCreatedSideEffects(db, {
+          booking: result.booking,
+          eventType: result.eventType,
+          organizerDisplayName: result.eventType.organizerDisplayName,
+          timezone: result.timezone,
+          actionUrls,
+          webhookMetadata: { answers: result.answers, source: 'waitlist' },
+        });
+        const email = await sendBookingCreatedEmailSideEffects(context.env, db, {
+          booking: result.booking,
+          eventType: result.eventType,
+          organizerDisplayName: result.eventType.organizerDisplayName,
+          organizerEmail: result.eventType.organizerEmail,
+          timezone: result.timezone,
+          actionUrls,
+        });
+
+        emitAuditEvent({
+          event: 'slot_waitlist_offer_claimed',
+          level: 'info',
+          route: '/v0/waitlist-offers/:token/claim',
+          statusCode: 200,
+          bookingId: result.booking.id,
+        });
+        return context.json({
+          ok: true,
+          booking: {
+            id: result.booking.id,
+            startsAt: result.booking.startsAt.toISOString(),
+            endsAt: result.booking.endsAt.toISOString(),
+            status: 'confirmed',
+          },
+          actions: {
+            cancel: { pageUrl: actionUrls.cancelPageUrl },
+            reschedule: { pageUrl: actionUrls.reschedulePageUrl },
+          },
+          email,
+          notifications: { queued: result.queuedNotifications },
+          webhooks: { queued: sideEffects.queuedWebhookDeliveries },
+          calendarWriteback: sideEffects.calendarWriteback,
+        });
+      } catch (error) {
+        if (error instanceof LaunchDemoAuthError) {
+          return jsonError(context, 401, error.message);
+        }
+        if (error instanceof BookingActionNotFoundError || error instanceof BookingNotFoundError) {
+          return jsonError(context, 404, 'Waitlist offer not found.');
+        }
+        if (error instanceof BookingActionGoneError) {
+          return jsonError(context, 410, error.message);
+        }
+        if (error instanceof BookingValidationError) {
+          return jsonError(context, 400, error.message);
+        }
+        if (error instanceof BookingConflictError) {
+          return jsonError(context, 409, 'Someone else booked this time first. You are still on the waitlist.');
+        }
+        if (error instanceof DemoQuotaAdmissionError || error instanceof DemoQuotaCreditsError) {
+          return jsonDemoQuotaError(context, db, context.env, authedUser, error);
+        }
+        throw error;
+      }
+    });
+  });
+};
@@ -127,6 +127,7 @@ export const registerTeamBookingCreateRoutes = (app: ApiApp): void => {
           actionUrls,
           analytics: { teamEventTypeId: result.team.teamEventTypeId },
           webhookMetadata: {
+            answers: result.answers,
             timezone,
             teamId: result.team.id,
             teamEventTypeId: result.team.teamEventTypeId,
@@ -139,6 +140,7 @@ export const registerTeamBookingCreateRoutes = (app: ApiApp): void => {
           eventType: result.eventType,
           organizerDisplayName:
             result.team.mode === 'collective' ? `${result.team.name} Team` : result.organizer.displayName,
+          organizerEmail: result.organizer.email,
           timezone,
           actionUrls,
         });
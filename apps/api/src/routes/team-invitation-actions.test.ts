@@ -0,0 +1,152 @@
+import { Hono } from 'hono';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type * as TeamInvitations from '../server/team-invitations';
+import type { Bindings } from '../server/types';
+
+const {
+  acceptTeamInvitationMock,
+  findTeamInvitationByTokenMock,
+  resolveAuthenticatedUserMock,
+  updateReturningMock,
+  withDatabaseMock,
+} = vi.hoisted(() => {
+  const updateReturningMock = vi.fn();
+  const db = {
+    update: () => ({ set: () => ({ where: () => ({ returning: updateReturningMock }) }) }),
+  };
+  return {
+    acceptTeamInvitationMock: vi.fn(),
+    findTeamInvitationByTokenMock: vi.fn(),
+    resolveAuthenticatedUserMock: vi.fn(),
+    updateReturningMock,
+    withDatabaseMock: vi.fn(async (_context: unknown, handler: (db: unknown) => Promise<Response>) =>
+      handler(db),
+    ),
+  };
+});
+
+vi.mock('../server/database', () => ({
+  withDatabase: withDatabaseMock,
+}));
+
+vi.mock('../server/auth-session', () => ({
+  resolveAuthenticatedUser: resolveAuthenticatedUserMock,
+}));
+
+vi.mock('../server/team-invitations', async (importOriginal) => ({
+  ...(await importOriginal<typeof TeamInvitations>()),
+  acceptTeamInvitation: acceptTeamInvitationMock,
+  findTeamInvitationByToken: findTeamInvitationByTokenMock,
+}));
+
+import { TeamInvitationUnavailableError } from '../server/types';
+import { registerTeamInvitationActionRoutes } from './team-invitation-actions';
+
+const token = 'a'.repeat(64);
+const bindings = {} as Bindings;
+
+const pendingInvitation = {
+  id: '1b4e28ba-2fa1-41d2-883f-0016d3cca427',
+  teamId: '8f14e45f-ceea-467f-a8b2-4f4f5b8f1a2c',
+  email: 'casey@example.com',
+  role: 'member' as const,
+  teamEventTypeIds: ['6fa459ea-ee8a-3ca4-894e-db77e160355e'],
+  status: 'pending' as const,
+  expiresAt: new Date(Date.now() + 24 * 60 * 60_000),
+  lastSentAt: new Date(),
+  sendCount: 1,
+  respondedAt: null,
+  createdAt: new Date(),
+  teamName: 'Growth',
+  teamSlug: 'growth',
+  inviterDisplayName: 'Jordan',
+};
+
+const request = (path: string, method: 'GET' | 'POST') => {
+  const app = new Hono();
+  registerTeamInvitationActionRoutes(app as never);
+  return app.request(`http://localhost${path}`, { method }, bindings);
+};
+
+describe('team invitation action routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    findTeamInvitationByTokenMock.mockResolvedValue(pendingInvitation);
+    resolveAuthenticatedUserMock.mockResolvedValue({ id: 'user-casey', email: 'Casey@Example.com' });
+  });
+
+  it('shows the invitation without requiring a session', async () => {
+    resolveAuthenticatedUserMock.mockResolvedValue(null);
+
+    const response = await request(`/v0/team-invitations/${token}`, 'GET');
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({
+      invitation: {
+        email: 'casey@example.com',
+        state: 'pending',
+        teamEventTypeCount: 1,
+        team: { name: 'Growth', slug: 'growth' },
+        inviter: { displayName: 'Jordan' },
+      },
+    });
+  });
+
+  it('accepts for the invited email and reports the event types the member joined', async () => {
+    acceptTeamInvitationMock.mockResolvedValue({
+      role: 'member',
+      addedTeamEventTypeIds: pendingInvitation.teamEventTypeIds,
+    });
+
+    const response = await request(`/v0/team-invitations/${token}/accept`, 'POST');
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({
+      team: { id: pendingInvitation.teamId, slug: 'growth' },
+      addedTeamEventTypeIds: pendingInvitation.teamEventTypeIds,
+    });
+    expect(acceptTeamInvitationMock).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ invitationId: pendingInvitation.id, teamId: pendingInvitation.teamId }),
+    );
+  });
+
+  it('rejects accepts from a different account or without a session', async () => {
+    resolveAuthenticatedUserMock.mockResolvedValueOnce({ id: 'user-other', email: 'other@example.com' });
+    const mismatch = await request(`/v0/team-invitations/${token}/accept`, 'POST');
+    expect(mismatch.status).toBe(403);
+
+    resolveAuthenticatedUserMock.mockResolvedValueOnce(null);
+    const anonymous = await request(`/v0/team-invitations/${token}/accept`, 'POST');
+    expect(anonymous.status).toBe(401);
+
+    expect(acceptTeamInvitationMock).not.toHaveBeenCalled();
+  });
+
+  it('returns 410 for expired invitations and lost accept races', async () => {
+    findTeamInvitationByTokenMock.mockResolvedValueOnce({
+      ...pendingInvitation,
+      expiresAt: new Date(Date.now() - 1000),
+    });
+    const expired = await request(`/v0/team-invitations/${token}/accept`, 'POST');
+    expect(expired.status).toBe(410);
+    await expect(expired.json()).resolves.toMatchObject({ error: expect.stringContaining('expired') });
+
+    acceptTeamInvitationMock.mockRejectedValueOnce(
+      new TeamInvitationUnavailableError('This invitation is no longer available.'),
+    );
+    const raced = await request(`/v0/team-invitations/${token}/accept`, 'POST');
+    expect(raced.status).toBe(410);
+  });
+
+  it('declines with only the token', async () => {
+    resolveAuthenticatedUserMock.mockResolvedValue(null);
+    updateReturningMock.mockResolvedValue([{ id: pendingInvitation.id }]);
+
+    const response = await request(`/v0/team-invitations/${token}/decline`, 'POST');
+
+    expect(response.status).toBe(200);
+    expect(updateReturningMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,125 @@
+import { and, eq } from 'drizzle-orm';
+
+import { teamInvitations } from '@opencalendly/db';
+
+import { resolveAuthenticatedUser } from '../server/auth-session';
+import { jsonError } from '../server/core';
+import { withDatabase } from '../server/database';
+import {
+  acceptTeamInvitation,
+  findTeamInvitationByToken,
+  normalizeInvitationEmail,
+  resolveTeamInvitationState,
+} from '../server/team-invitations';
+import type { ApiApp } from '../server/types';
+import { TeamInvitationUnavailableError } from '../server/types';
+
+const INVITATION_TOKEN_PATTERN = /^[a-f0-9]{64}$/;
+
+const describeUnavailableInvitation = (state: string): string => {
+  return state === 'expired'
+    ? 'This invitation has expired. Ask the team owner to resend it.'
+    : `This invitation was already ${state}.`;
+};
+
+export const registerTeamInvitationActionRoutes = (app: ApiApp): void => {
+  app.get('/v0/team-invitations/:token', async (context) => {
+    return withDatabase(context, async (db) => {
+      const token = context.req.param('token');
+      if (!INVITATION_TOKEN_PATTERN.test(token)) {
+        return jsonError(context, 404, 'Invitation not found.');
+      }
+
+      const invitation = await findTeamInvitationByToken(db, token);
+      if (!invitation) {
+        return jsonError(context, 404, 'Invitation not found.');
+      }
+
+      return context.json({
+        ok: true,
+        invitation: {
+          email: invitation.email,
+          role: invitation.role,
+          state: resolveTeamInvitationState(invitation, new Date()),
+          expiresAt: invitation.expiresAt.toISOString(),
+          teamEventTypeCount: invitation.teamEventTypeIds.length,
+          team: { name: invitation.teamName, slug: invitation.teamSlug },
+          inviter: { displayName: invitation.inviterDisplayName },
+        },
+      });
+    });
+  });
+
+  app.post('/v0/team-invitations/:token/accept', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Sign in to accept this invitation.');
+      }
+
+      const token = context.req.param('token');
+      const invitation = INVITATION_TOKEN_PATTERN.test(token) ? await findTeamInvitationByToken(db, token) : null;
+      if (!invitation) {
+        return jsonError(context, 404, 'Invitation not found.');
+      }
+
+      const now = new Date();
+      const state = resolveTeamInvitationState(invitation, now);
+      if (state !== 'pending') {
+        return jsonError(context, 410, describeUnavailableInvitation(state));
+      }
+      if (normalizeInvitationEmail(authedUser.email) !== invitation.email) {
+        return jsonError(context, 403, `This invitation was sent to ${invitation.email}. Sign in with that email to accept.`);
+      }
+
+      try {
+        const accepted = await acceptTeamInvitation(db, {
+          invitationId: invitation.id,
+          teamId: invitation.teamId,
+          user: authedUser,
+          now,
+        });
+
+        return context.json({
+          ok: true,
+          team: { id: invitation.teamId, name: invitation.teamName, slug: invitation.teamSlug },
+          role: accepted.role,
+          addedTeamEventTypeIds: accepted.addedTeamEventTypeIds,
+        });
+      } catch (error) {
+        if (error instanceof TeamInvitationUnavailableError) {
+          return jsonError(context, 410, error.message);
+        }
+        throw error;
+      }
+    });
+  });
+
+  // Declining only needs the emailed token: the recipient should not have to create an account to say no.
+  app.post('/v0/team-invitations/:token/decline', async (context) => {
+    return withDatabase(context, async (db) => {
+      const token = context.req.param('token');
+      const invitation = INVITATION_TOKEN_PATTERN.test(token) ? await findTeamInvitationByToken(db, token) : null;
+      if (!invitation) {
+        return jsonError(context, 404, 'Invitation not found.');
+      }
+
+      const now = new Date();
+      const state = resolveTeamInvitationState(invitation, now);
+      if (state !== 'pending') {
+        return jsonError(context, 410, describeUnavailableInvitation(state));
+      }
+
+      const [declined] = await db
+        .update(teamInvitations)
+        .set({ status: 'declined', respondedAt: now, updatedAt: now })
+        .where(and(eq(teamInvitations.id, invitation.id), eq(teamInvitations.status, 'pending')))
+        .returning({ id: teamInvitations.id });
+      if (!declined) {
+        return jsonError(context, 410, 'This invitation is no longer available.');
+      }
+
+      return context.json({ ok: true, team: { name: invitation.teamName, slug: invitation.teamSlug } });
+    });
+  });
+};
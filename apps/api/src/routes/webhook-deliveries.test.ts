@@ -0,0 +1,130 @@
+import { Hono } from 'hono';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Bindings } from '../server/types';
+
+const {
+  listWebhookDeliveriesMock,
+  replayFailedWebhookDeliveriesMock,
+  replayWebhookDeliveryMock,
+  resolveAuthenticatedUserMock,
+  withDatabaseMock,
+} = vi.hoisted(() => ({
+  listWebhookDeliveriesMock: vi.fn(),
+  replayFailedWebhookDeliveriesMock: vi.fn(),
+  replayWebhookDeliveryMock: vi.fn(),
+  resolveAuthenticatedUserMock: vi.fn(),
+  withDatabaseMock: vi.fn(async (_context: unknown, handler: (db: unknown) => Promise<Response>) => handler({})),
+}));
+
+vi.mock('../server/database', () => ({
+  withDatabase: withDatabaseMock,
+}));
+
+vi.mock('../server/auth-session', () => ({
+  resolveAuthenticatedUser: resolveAuthenticatedUserMock,
+}));
+
+vi.mock('../server/webhook-delivery-log', () => ({
+  listWebhookDeliveries: listWebhookDeliveriesMock,
+  replayFailedWebhookDeliveries: replayFailedWebhookDeliveriesMock,
+  replayWebhookDelivery: replayWebhookDeliveryMock,
+}));
+
+import { registerWebhookDeliveryRoutes } from './webhook-deliveries';
+
+const webhookId = '4f1c4cc1-5d6f-4e0b-9f3a-8fb4d1c8a001';
+const deliveryId = '7a3b9e2d-1c4f-4a8b-9d6e-2f5a8c1b3e07';
+
+const request = (path: string, init?: { method: string; body?: unknown }) => {
+  const app = new Hono();
+  registerWebhookDeliveryRoutes(app as never);
+  return app.request(
+    `http://localhost${path}`,
+    init
+      ? {
+          method: init.method,
+          body: JSON.stringify(init.body ?? {}),
+          headers: { 'content-type': 'application/json' },
+        }
+      : undefined,
+    {} as Bindings,
+    { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as never,
+  );
+};
+
+describe('webhook delivery log routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resolveAuthenticatedUserMock.mockResolvedValue({ id: 'user_123' });
+  });
+
+  it('lists deliveries with filters and rejects bad cursors', async () => {
+    listWebhookDeliveriesMock.mockResolvedValue({
+      deliveries: [{ id: deliveryId, status: 'failed', eventType: 'booking.created', payload: { bookingId: 'b' } }],
+      nextCursor: null,
+    });
+
+    const response = await request(`/v0/webhooks/${webhookId}/deliveries?status=failed&eventType=booking.created&limit=5`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ ok: true, deliveries: [{ id: deliveryId }], nextCursor: null });
+    expect(listWebhookDeliveriesMock).toHaveBeenCalledWith(expect.anything(), {
+      organizerId: 'user_123',
+      subscriptionId: webhookId,
+      status: 'failed',
+      eventType: 'booking.created',
+      cursor: null,
+      limit: 5,
+    });
+
+    expect((await request(`/v0/webhooks/${webhookId}/deliveries?cursor=%%%`)).status).toBe(400);
+    expect((await request(`/v0/webhooks/${webhookId}/deliveries?status=lost`)).status).toBe(400);
+    expect(listWebhookDeliveriesMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('hides subscriptions owned by someone else', async () => {
+    listWebhookDeliveriesMock.mockResolvedValue(null);
+    expect((await request(`/v0/webhooks/${webhookId}/deliveries`)).status).toBe(404);
+
+    resolveAuthenticatedUserMock.mockResolvedValue(null);
+    expect((await request(`/v0/webhooks/${webhookId}/deliveries`)).status).toBe(401);
+  });
+
+  it('replays a finished delivery and refuses queued ones', async () => {
+    replayWebhookDeliveryMock.mockResolvedValueOnce({ outcome: 'replayed', deliveryId, subscriptionId: webhookId });
+    const replayed = await request(`/v0/webhooks/deliveries/${deliveryId}/replay`, { method: 'POST' });
+    expect(replayed.status).toBe(200);
+    expect(await replayed.json()).toEqual({ ok: true, delivery: { id: deliveryId, status: 'pending' } });
+
+    replayWebhookDeliveryMock.mockResolvedValueOnce({ outcome: 'still_pending' });
+    expect((await request(`/v0/webhooks/deliveries/${deliveryId}/replay`, { method: 'POST' })).status).toBe(409);
+
+    replayWebhookDeliveryMock.mockResolvedValueOnce({ outcome: 'not_found' });
+    expect((await request(`/v0/webhooks/deliveries/${deliveryId}/replay`, { method: 'POST' })).status).toBe(404);
+
+    expect((await request('/v0/webhooks/deliveries/nope/replay', { method: 'POST' })).status).toBe(400);
+  });
+
+  it('bulk replays failed deliveries since a point in time', async () => {
+    replayFailedWebhookDeliveriesMock.mockResolvedValue({ replayed: 3 });
+
+    const response = await request('/v0/webhooks/deliveries/replay-failed', {
+      method: 'POST',
+      body: { since: '2026-03-01T00:00:00.000Z', subscriptionId: webhookId },
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ ok: true, replayed: 3 });
+    expect(replayFailedWebhookDeliveriesMock).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ organizerId: 'user_123', subscriptionId: webhookId, since: new Date('2026-03-01T00:00:00.000Z') }),
+    );
+
+    const future = await request('/v0/webhooks/deliveries/replay-failed', {
+      method: 'POST',
+      body: { since: '2999-01-01T00:00:00.000Z' },
+    });
+    expect(future.status).toBe(400);
+  });
+});
@@ -1,6 +1,9 @@
+import { webhookDeliveriesQuerySchema, webhookDeliveriesReplayFailedSchema } from '@opencalendly/shared';
+
+import { decodeWebhookDeliveriesCursor } from '../lib/webhook-delivery-log';
 import { resolveAuthenticatedUser } from '../server/auth-session';
 import { emitAuditEvent, sanitizeErrorForAudit } from '../server/audit';
-import { jsonError } from '../server/core';
+import { isUuid, jsonError } from '../server/core';
 import { withDatabase } from '../server/database';
 import { assertDemoFeatureAvailable, consumeDemoFeatureCredits, jsonDemoQuotaError } from '../server/demo-quota';
 import { clampWebhookDeliveryBatchLimit } from '../server/env';
@@ -8,6 +11,11 @@ import { buildDemoFeatureSourceKey } from '../server/idempotency';
 import type { ApiApp, DemoQuotaDb } from '../server/types';
 import { DemoQuotaAdmissionError, DemoQuotaCreditsError } from '../server/types';
 import { runWebhookDeliveryBatch } from '../server/webhook-deliveries';
+import {
+  listWebhookDeliveries,
+  replayFailedWebhookDeliveries,
+  replayWebhookDelivery,
+} from '../server/webhook-delivery-log';
 
 export const registerWebhookDeliveryRoutes = (app: ApiApp): void => {
   app.post('/v0/webhooks/deliveries/run', async (context) => {
@@ -106,4 +114,121 @@ export const registerWebhookDeliveryRoutes = (app: ApiApp): void => {
       }
     });
   });
+
+  app.get('/v0/webhooks/:id/deliveries', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const webhookId = context.req.param('id');
+      if (!isUuid(webhookId)) {
+        return jsonError(context, 400, 'Invalid webhook id.');
+      }
+
+      const query = Object.fromEntries(new URL(context.req.url).searchParams.entries());
+      const parsed = webhookDeliveriesQuerySchema.safeParse(query);
+      if (!parsed.success) {
+        return jsonError(context, 400, parsed.error.issues[0]?.message ?? 'Invalid query params.');
+      }
+
+      const cursor = parsed.data.cursor ? decodeWebhookDeliveriesCursor(parsed.data.cursor) : null;
+      if (parsed.data.cursor && !cursor) {
+        return jsonError(context, 400, 'Invalid cursor.');
+      }
+
+      const log = await listWebhookDeliveries(db, {
+        organizerId: authedUser.id,
+        subscriptionId: webhookId,
+        status: parsed.data.status,
+        eventType: parsed.data.eventType,
+        cursor,
+        limit: parsed.data.limit,
+      });
+      if (!log) {
+        return jsonError(context, 404, 'Webhook subscription not found.');
+      }
+
+      return context.json({ ok: true, deliveries: log.deliveries, nextCursor: log.nextCursor });
+    });
+  });
+
+  app.post('/v0/webhooks/deliveries/replay-failed', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const body = await context.req.json().catch(() => null);
+      const parsed = webhookDeliveriesReplayFailedSchema.safeParse(body);
+      if (!parsed.success) {
+        return jsonError(context, 400, parsed.error.issues[0]?.message ?? 'Invalid request body.');
+      }
+
+      const now = new Date();
+      const since = new Date(parsed.data.since);
+      if (since.getTime() > now.getTime()) {
+        return jsonError(context, 400, 'since must not be in the future.');
+      }
+
+      const result = await replayFailedWebhookDeliveries(db, {
+        organizerId: authedUser.id,
+        subscriptionId: parsed.data.subscriptionId,
+        since,
+        now,
+      });
+
+      emitAuditEvent({
+        event: 'webhook_deliveries_bulk_replayed',
+        level: 'info',
+        actorUserId: authedUser.id,
+        route: '/v0/webhooks/deliveries/replay-failed',
+        statusCode: 200,
+        since: since.toISOString(),
+        ...(parsed.data.subscriptionId ? { webhookId: parsed.data.subscriptionId } : {}),
+        replayed: result.replayed,
+      });
+
+      return context.json({ ok: true, replayed: result.replayed });
+    });
+  });
+
+  app.post('/v0/webhooks/deliveries/:id/replay', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const deliveryId = context.req.param('id');
+      if (!isUuid(deliveryId)) {
+        return jsonError(context, 400, 'Invalid delivery id.');
+      }
+
+      const result = await replayWebhookDelivery(db, { organizerId: authedUser.id, deliveryId, now: new Date() });
+      if (result.outcome === 'not_found') {
+        return jsonError(context, 404, 'Webhook delivery not found.');
+      }
+      if (result.outcome === 'subscription_inactive') {
+        return jsonError(context, 409, 'Enable the webhook subscription before replaying its deliveries.');
+      }
+      if (result.outcome === 'still_pending') {
+        return jsonError(context, 409, 'This delivery is still queued for another attempt.');
+      }
+
+      emitAuditEvent({
+        event: 'webhook_delivery_replayed',
+        level: 'info',
+        actorUserId: authedUser.id,
+        route: '/v0/webhooks/deliveries/:id/replay',
+        statusCode: 200,
+        deliveryId: result.deliveryId,
+        webhookId: result.subscriptionId,
+      });
+
+      return context.json({ ok: true, delivery: { id: result.deliveryId, status: 'pending' } });
+    });
+  });
 };
@@ -0,0 +1,106 @@
+import { Hono } from 'hono';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Bindings } from '../server/types';
+
+const {
+  assertDemoFeatureAvailableMock,
+  consumeDemoFeatureCreditsMock,
+  resolveAuthenticatedUserMock,
+  rotateWebhookSecretMock,
+  withDatabaseMock,
+} = vi.hoisted(() => ({
+  assertDemoFeatureAvailableMock: vi.fn(),
+  consumeDemoFeatureCreditsMock: vi.fn(),
+  resolveAuthenticatedUserMock: vi.fn(),
+  rotateWebhookSecretMock: vi.fn(),
+  withDatabaseMock: vi.fn(async (_context: unknown, handler: (db: unknown) => Promise<Response>) =>
+    handler({ transaction: async (run: (transaction: unknown) => Promise<unknown>) => run({}) }),
+  ),
+}));
+
+vi.mock('../server/database', () => ({
+  withDatabase: withDatabaseMock,
+}));
+
+vi.mock('../server/auth-session', () => ({
+  resolveAuthenticatedUser: resolveAuthenticatedUserMock,
+}));
+
+vi.mock('../server/demo-quota', () => ({
+  assertDemoFeatureAvailable: assertDemoFeatureAvailableMock,
+  consumeDemoFeatureCredits: consumeDemoFeatureCreditsMock,
+  jsonDemoQuotaError: vi.fn(),
+}));
+
+vi.mock('../server/webhook-secret-storage', () => ({
+  rotateWebhookSecret: rotateWebhookSecretMock,
+}));
+
+import { registerWebhookSecretRotationRoutes } from './webhook-secret-rotation';
+
+const webhookId = '4f1c4cc1-5d6f-4e0b-9f3a-8fb4d1c8a001';
+
+const request = (path: string, body: unknown) => {
+  const app = new Hono();
+  registerWebhookSecretRotationRoutes(app as never);
+  return app.request(
+    `http://localhost${path}`,
+    { method: 'POST', body: JSON.stringify(body), headers: { 'content-type': 'application/json' } },
+    {} as Bindings,
+    { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as never,
+  );
+};
+
+describe('POST /v0/webhooks/:id/rotate-secret', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resolveAuthenticatedUserMock.mockResolvedValue({ id: 'user_123' });
+  });
+
+  it('rotates the secret and reports when the previous one stops signing', async () => {
+    rotateWebhookSecretMock.mockResolvedValue({
+      outcome: 'rotated',
+      secretRotatedAt: new Date('2026-03-10T12:00:00.000Z'),
+      previousSecretExpiresAt: new Date('2026-03-11T00:00:00.000Z'),
+    });
+
+    const response = await request(`/v0/webhooks/${webhookId}/rotate-secret`, {
+      secret: 'whsec_next_secret',
+      gracePeriodHours: 12,
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      ok: true,
+      secretRotation: {
+        rotatedAt: '2026-03-10T12:00:00.000Z',
+        previousSecretExpiresAt: '2026-03-11T00:00:00.000Z',
+      },
+    });
+    expect(rotateWebhookSecretMock).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      expect.objectContaining({ organizerId: 'user_123', webhookId, secret: 'whsec_next_secret', gracePeriodHours: 12 }),
+    );
+    expect(consumeDemoFeatureCreditsMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects bad input, unknown subscriptions, and unreadable current secrets', async () => {
+    expect((await request(`/v0/webhooks/${webhookId}/rotate-secret`, { secret: 'short' })).status).toBe(400);
+    expect(
+      (await request(`/v0/webhooks/${webhookId}/rotate-secret`, { secret: 'whsec_next_secret', gracePeriodHours: 500 }))
+        .status,
+    ).toBe(400);
+
+    rotateWebhookSecretMock.mockResolvedValueOnce({ outcome: 'not_found' });
+    expect((await request(`/v0/webhooks/${webhookId}/rotate-secret`, { secret: 'whsec_next_secret' })).status).toBe(
+      404,
+    );
+
+    rotateWebhookSecretMock.mockResolvedValueOnce({ outcome: 'secret_unreadable', error: 'Secret is missing.' });
+    const unreadable = await request(`/v0/webhooks/${webhookId}/rotate-secret`, { secret: 'whsec_next_secret' });
+    expect(unreadable.status).toBe(409);
+    expect(consumeDemoFeatureCreditsMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,85 @@
+import { webhookSecretRotateSchema } from '@opencalendly/shared';
+
+import { resolveAuthenticatedUser } from '../server/auth-session';
+import { emitAuditEvent } from '../server/audit';
+import { isUuid, jsonError } from '../server/core';
+import { withDatabase } from '../server/database';
+import { assertDemoFeatureAvailable, consumeDemoFeatureCredits, jsonDemoQuotaError } from '../server/demo-quota';
+import { buildDemoFeatureSourceKey } from '../server/idempotency';
+import type { ApiApp, DemoQuotaDb } from '../server/types';
+import { DemoQuotaAdmissionError, DemoQuotaCreditsError } from '../server/types';
+import { rotateWebhookSecret } from '../server/webhook-secret-storage';
+
+export const registerWebhookSecretRotationRoutes = (app: ApiApp): void => {
+  app.post('/v0/webhooks/:id/rotate-secret', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const webhookId = context.req.param('id');
+      if (!isUuid(webhookId)) {
+        return jsonError(context, 400, 'Invalid webhook id.');
+      }
+
+      const parsed = webhookSecretRotateSchema.safeParse(await context.req.json().catch(() => null));
+      if (!parsed.success) {
+        return jsonError(context, 400, parsed.error.issues[0]?.message ?? 'Invalid request body.');
+      }
+
+      const now = new Date();
+      try {
+        await assertDemoFeatureAvailable(db, context.env, authedUser, 'webhook_update', now);
+        const rotation = await rotateWebhookSecret(db, context.env, {
+          organizerId: authedUser.id,
+          webhookId,
+          secret: parsed.data.secret,
+          gracePeriodHours: parsed.data.gracePeriodHours,
+          now,
+        });
+        if (rotation.outcome === 'not_found') {
+          return jsonError(context, 404, 'Webhook subscription not found.');
+        }
+        if (rotation.outcome === 'secret_unreadable') {
+          return jsonError(context, 409, `${rotation.error} Replace the secret with PATCH instead.`);
+        }
+
+        await db.transaction(async (transaction) => {
+          await consumeDemoFeatureCredits(transaction as DemoQuotaDb, context.env, authedUser, {
+            featureKey: 'webhook_update',
+            sourceKey: buildDemoFeatureSourceKey('webhook_update', {
+              webhookId,
+              rotatedAt: rotation.secretRotatedAt.toISOString(),
+            }),
+            metadata: { webhookId, secretRotated: true },
+            now,
+          });
+        });
+
+        emitAuditEvent({
+          event: 'webhook_secret_rotated',
+          level: 'info',
+          actorUserId: authedUser.id,
+          route: '/v0/webhooks/:id/rotate-secret',
+          statusCode: 200,
+          webhookId,
+          gracePeriodHours: parsed.data.gracePeriodHours,
+        });
+
+        return context.json({
+          ok: true,
+          secretRotation: {
+            rotatedAt: rotation.secretRotatedAt.toISOString(),
+            previousSecretExpiresAt: rotation.previousSecretExpiresAt.toISOString(),
+          },
+        });
+      } catch (error) {
+        if (error instanceof DemoQuotaAdmissionError || error instanceof DemoQuotaCreditsError) {
+          return jsonDemoQuotaError(context, db, context.env, authedUser, error);
+        }
+        throw error;
+      }
+    });
+  });
+};
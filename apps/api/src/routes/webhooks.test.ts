@@ -0,0 +1,96 @@
+import { Hono } from 'hono';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Bindings } from '../server/types';
+
+const {
+  assertDemoFeatureAvailableMock,
+  consumeDemoFeatureCreditsMock,
+  resolveAuthenticatedUserMock,
+  sendWebhookTestPingMock,
+  withDatabaseMock,
+} = vi.hoisted(() => ({
+  assertDemoFeatureAvailableMock: vi.fn(),
+  consumeDemoFeatureCreditsMock: vi.fn(),
+  resolveAuthenticatedUserMock: vi.fn(),
+  sendWebhookTestPingMock: vi.fn(),
+  withDatabaseMock: vi.fn(async (_context: unknown, handler: (db: unknown) => Promise<Response>) =>
+    handler({ transaction: async (run: (transaction: unknown) => Promise<unknown>) => run({}) }),
+  ),
+}));
+
+vi.mock('../server/database', () => ({
+  withDatabase: withDatabaseMock,
+  isUniqueViolation: () => false,
+}));
+
+vi.mock('../server/auth-session', () => ({
+  resolveAuthenticatedUser: resolveAuthenticatedUserMock,
+}));
+
+vi.mock('../server/demo-quota', () => ({
+  assertDemoFeatureAvailable: assertDemoFeatureAvailableMock,
+  consumeDemoFeatureCredits: consumeDemoFeatureCreditsMock,
+  jsonDemoQuotaError: vi.fn(),
+}));
+
+vi.mock('../server/webhook-test-ping', () => ({
+  sendWebhookTestPing: sendWebhookTestPingMock,
+}));
+
+import { registerWebhookRoutes } from './webhooks';
+
+const webhookId = '4f1c4cc1-5d6f-4e0b-9f3a-8fb4d1c8a001';
+
+const request = (path: string) => {
+  const app = new Hono();
+  registerWebhookRoutes(app as never);
+  return app.request(
+    `http://localhost${path}`,
+    { method: 'POST', body: '{}', headers: { 'content-type': 'application/json' } },
+    {} as Bindings,
+    { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as never,
+  );
+};
+
+describe('POST /v0/webhooks/:id/test', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resolveAuthenticatedUserMock.mockResolvedValue({ id: 'user_123' });
+  });
+
+  it('returns the receiver status, latency and body snippet', async () => {
+    const ping = {
+      eventId: '9b2f3c1d-4e5f-4a6b-8c7d-0e1f2a3b4c5d',
+      delivered: false,
+      responseStatus: 401,
+      latencyMs: 84,
+      responseBodySnippet: 'invalid signature',
+      error: 'HTTP 401',
+    };
+    sendWebhookTestPingMock.mockResolvedValue(ping);
+
+    const response = await request(`/v0/webhooks/${webhookId}/test`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ ok: true, ping });
+    expect(sendWebhookTestPingMock).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      expect.objectContaining({ organizerId: 'user_123', webhookId }),
+    );
+    expect(consumeDemoFeatureCreditsMock).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      expect.anything(),
+      expect.objectContaining({ featureKey: 'webhook_test' }),
+    );
+  });
+
+  it('rejects unknown subscriptions and bad ids without spending credits', async () => {
+    sendWebhookTestPingMock.mockResolvedValue(null);
+    expect((await request(`/v0/webhooks/${webhookId}/test`)).status).toBe(404);
+    expect((await request('/v0/webhooks/nope/test')).status).toBe(400);
+    expect(consumeDemoFeatureCreditsMock).not.toHaveBeenCalled();
+  });
+});
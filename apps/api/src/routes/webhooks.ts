@@ -2,24 +2,80 @@ import { and, desc, eq } from 'drizzle-orm';
 
 import { webhookSubscriptions } from '@opencalendly/db';
 import {
+  findWebhookApiVersionIssue,
   webhookSubscriptionCreateSchema,
   webhookSubscriptionUpdateSchema,
 } from '@opencalendly/shared';
 
 import {
   normalizeWebhookEvents,
+  parseWebhookApiVersion,
   parseWebhookEventTypes,
 } from '../lib/webhooks';
 import { resolveAuthenticatedUser } from '../server/auth-session';
 import { emitAuditEvent } from '../server/audit';
-import { jsonError } from '../server/core';
+import { isUuid, jsonError } from '../server/core';
 import { withDatabase, isUniqueViolation } from '../server/database';
-import { consumeDemoFeatureCredits, jsonDemoQuotaError } from '../server/demo-quota';
+import { assertDemoFeatureAvailable, consumeDemoFeatureCredits, jsonDemoQuotaError } from '../server/demo-quota';
 import { buildDemoFeatureSourceKey } from '../server/idempotency';
-import { createWebhookSecretValues } from '../server/webhook-secret-storage';
+import { settleHeldWebhookDeliveries, webhookSubscriptionResumeValues } from '../server/webhook-auto-disable';
+import { clearedWebhookSecretRotationValues, createWebhookSecretValues } from '../server/webhook-secret-storage';
+import { sendWebhookTestPing } from '../server/webhook-test-ping';
 import type { ApiApp, DemoQuotaDb } from '../server/types';
 import { DemoQuotaAdmissionError, DemoQuotaCreditsError } from '../server/types';
 
+const webhookSubscriptionColumns = {
+  id: webhookSubscriptions.id,
+  url: webhookSubscriptions.url,
+  events: webhookSubscriptions.events,
+  apiVersion: webhookSubscriptions.apiVersion,
+  isActive: webhookSubscriptions.isActive,
+  secretRotatedAt: webhookSubscriptions.secretRotatedAt,
+  previousSecretExpiresAt: webhookSubscriptions.previousSecretExpiresAt,
+  consecutiveFailureCount: webhookSubscriptions.consecutiveFailureCount,
+  autoDisabledAt: webhookSubscriptions.autoDisabledAt,
+  disabledReason: webhookSubscriptions.disabledReason,
+  createdAt: webhookSubscriptions.createdAt,
+  updatedAt: webhookSubscriptions.updatedAt,
+};
+
+const serializeWebhookSubscription = (row: {
+  id: string;
+  url: string;
+  events: unknown;
+  apiVersion: string;
+  isActive: boolean;
+  secretRotatedAt: Date | null;
+  previousSecretExpiresAt: Date | null;
+  consecutiveFailureCount: number;
+  autoDisabledAt: Date | null;
+  disabledReason: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}) => ({
+  id: row.id,
+  url: row.url,
+  events: parseWebhookEventTypes(row.events),
+  apiVersion: parseWebhookApiVersion(row.apiVersion),
+  isActive: row.isActive,
+  // previousSecretExpiresAt is only reported while the old secret still signs deliveries.
+  secretRotation: row.secretRotatedAt
+    ? {
+        rotatedAt: row.secretRotatedAt.toISOString(),
+        previousSecretExpiresAt:
+          row.previousSecretExpiresAt && row.previousSecretExpiresAt > new Date()
+            ? row.previousSecretExpiresAt.toISOString()
+            : null,
+      }
+    : null,
+  consecutiveFailureCount: row.consecutiveFailureCount,
+  autoDisabled: row.autoDisabledAt
+    ? { disabledAt: row.autoDisabledAt.toISOString(), reason: row.disabledReason }
+    : null,
+  createdAt: row.createdAt.toISOString(),
+  updatedAt: row.updatedAt.toISOString(),
+});
+
 export const registerWebhookRoutes = (app: ApiApp): void => {
   app.get('/v0/webhooks', async (context) => {
     return withDatabase(context, async (db) => {
@@ -29,29 +85,12 @@ export const registerWebhookRoutes = (app: ApiApp): void => {
       }
 
       const rows = await db
-        .select({
-          id: webhookSubscriptions.id,
-          url: webhookSubscriptions.url,
-          events: webhookSubscriptions.events,
-          isActive: webhookSubscriptions.isActive,
-          createdAt: webhookSubscriptions.createdAt,
-          updatedAt: webhookSubscriptions.updatedAt,
-        })
+        .select(webhookSubscriptionColumns)
         .from(webhookSubscriptions)
         .where(eq(webhookSubscriptions.userId, authedUser.id))
         .orderBy(desc(webhookSubscriptions.createdAt));
 
-      return context.json({
-        ok: true,
-        webhooks: rows.map((row) => ({
-          id: row.id,
-          url: row.url,
-          events: parseWebhookEventTypes(row.events),
-          isActive: row.isActive,
-          createdAt: row.createdAt.toISOString(),
-          updatedAt: row.updatedAt.toISOString(),
-        })),
-      });
+      return context.json({ ok: true, webhooks: rows.map(serializeWebhookSubscription) });
     });
   });
 
@@ -78,16 +117,10 @@ export const registerWebhookRoutes = (app: ApiApp): void => {
               url: parsed.data.url,
               ...createWebhookSecretValues(parsed.data.secret, context.env),
               events: normalizeWebhookEvents(parsed.data.events),
+              apiVersion: parsed.data.apiVersion,
               isActive: true,
             })
-            .returning({
-              id: webhookSubscriptions.id,
-              url: webhookSubscriptions.url,
-              events: webhookSubscriptions.events,
-              isActive: webhookSubscriptions.isActive,
-              createdAt: webhookSubscriptions.createdAt,
-              updatedAt: webhookSubscriptions.updatedAt,
-            });
+            .returning(webhookSubscriptionColumns);
 
           if (!created) {
             throw new Error('Failed to create webhook subscription.');
@@ -119,20 +152,11 @@ export const registerWebhookRoutes = (app: ApiApp): void => {
           webhookId: inserted.id,
           url: inserted.url,
           eventCount: parseWebhookEventTypes(inserted.events).length,
+          apiVersion: inserted.apiVersion,
           isActive: inserted.isActive,
         });
 
-        return context.json({
-          ok: true,
-          webhook: {
-            id: inserted.id,
-            url: inserted.url,
-            events: parseWebhookEventTypes(inserted.events),
-            isActive: inserted.isActive,
-            createdAt: inserted.createdAt.toISOString(),
-            updatedAt: inserted.updatedAt.toISOString(),
-          },
-        });
+        return context.json({ ok: true, webhook: serializeWebhookSubscription(inserted) });
       } catch (error) {
         if (isUniqueViolation(error, 'webhook_subscriptions_user_url_unique')) {
           return jsonError(context, 409, 'A webhook subscription with that URL already exists.');
@@ -164,7 +188,11 @@ export const registerWebhookRoutes = (app: ApiApp): void => {
         updateValues.url = parsed.data.url;
       }
       if (parsed.data.secret !== undefined) {
-        Object.assign(updateValues, createWebhookSecretValues(parsed.data.secret, context.env));
+        Object.assign(
+          updateValues,
+          createWebhookSecretValues(parsed.data.secret, context.env),
+          clearedWebhookSecretRotationValues,
+        );
       }
       if (parsed.data.events !== undefined) {
         updateValues.events = normalizeWebhookEvents(parsed.data.events);
@@ -172,27 +200,67 @@ export const registerWebhookRoutes = (app: ApiApp): void => {
       if (parsed.data.isActive !== undefined) {
         updateValues.isActive = parsed.data.isActive;
       }
+      if (parsed.data.isActive === true) {
+        Object.assign(updateValues, webhookSubscriptionResumeValues);
+      }
+      if (parsed.data.apiVersion !== undefined) {
+        updateValues.apiVersion = parsed.data.apiVersion;
+      }
 
       try {
         const webhookId = context.req.param('id');
-        const updated = await db.transaction(async (transaction) => {
+        if (parsed.data.events !== undefined || parsed.data.apiVersion !== undefined) {
+          // v1 only carries booking events, so check the combination the row will end up with.
+          const [current] = await db
+            .select({ events: webhookSubscriptions.events, apiVersion: webhookSubscriptions.apiVersion })
+            .from(webhookSubscriptions)
+            .where(and(eq(webhookSubscriptions.id, webhookId), eq(webhookSubscriptions.userId, authedUser.id)))
+            .limit(1);
+          if (!current) {
+            return jsonError(context, 404, 'Webhook subscription not found.');
+          }
+          const issue = findWebhookApiVersionIssue(
+            parsed.data.apiVersion ?? parseWebhookApiVersion(current.apiVersion),
+            parsed.data.events ?? parseWebhookEventTypes(current.events),
+          );
+          if (issue) {
+            return jsonError(context, 400, issue);
+          }
+        }
+
+        const result = await db.transaction(async (transaction) => {
+          const [previous] =
+            parsed.data.isActive === true
+              ? await transaction
+                  .select({ isActive: webhookSubscriptions.isActive })
+                  .from(webhookSubscriptions)
+                  .where(and(eq(webhookSubscriptions.id, webhookId), eq(webhookSubscriptions.userId, authedUser.id)))
+                  .limit(1)
+              : [];
           const [saved] = await transaction
             .update(webhookSubscriptions)
             .set(updateValues)
             .where(and(eq(webhookSubscriptions.id, webhookId), eq(webhookSubscriptions.userId, authedUser.id)))
-            .returning({
-              id: webhookSubscriptions.id,
-              url: webhookSubscriptions.url,
-              events: webhookSubscriptions.events,
-              isActive: webhookSubscriptions.isActive,
-              createdAt: webhookSubscriptions.createdAt,
-              updatedAt: webhookSubscriptions.updatedAt,
-            });
+            .returning(webhookSubscriptionColumns);
 
           if (!saved) {
             return null;
           }
 
+          // Only a real off-to-on switch has held deliveries to settle.
+          const replayBacklog = parsed.data.replayBacklog ?? false;
+          const backlog =
+            previous && !previous.isActive
+              ? {
+                  replayed: replayBacklog,
+                  count: await settleHeldWebhookDeliveries(transaction, {
+                    subscriptionId: saved.id,
+                    replay: replayBacklog,
+                    now,
+                  }),
+                }
+              : null;
+
           await consumeDemoFeatureCredits(transaction as DemoQuotaDb, context.env, authedUser, {
             featureKey: 'webhook_update',
             sourceKey: buildDemoFeatureSourceKey('webhook_update', {
@@ -203,12 +271,13 @@ export const registerWebhookRoutes = (app: ApiApp): void => {
             now,
           });
 
-          return saved;
+          return { saved, backlog };
         });
 
-        if (!updated) {
+        if (!result) {
           return jsonError(context, 404, 'Webhook subscription not found.');
         }
+        const { saved: updated, backlog } = result;
 
         emitAuditEvent({
           event: parsed.data.isActive !== undefined ? 'webhook_subscription_toggled' : 'webhook_subscription_updated',
@@ -219,21 +288,13 @@ export const registerWebhookRoutes = (app: ApiApp): void => {
           webhookId: updated.id,
           url: updated.url,
           eventCount: parseWebhookEventTypes(updated.events).length,
+          apiVersion: updated.apiVersion,
           isActive: updated.isActive,
           toggled: parsed.data.isActive !== undefined,
+          ...(backlog ? { backlogReplayed: backlog.replayed, backlogCount: backlog.count } : {}),
         });
 
-        return context.json({
-          ok: true,
-          webhook: {
-            id: updated.id,
-            url: updated.url,
-            events: parseWebhookEventTypes(updated.events),
-            isActive: updated.isActive,
-            createdAt: updated.createdAt.toISOString(),
-            updatedAt: updated.updatedAt.toISOString(),
-          },
-        });
+        return context.json({ ok: true, webhook: serializeWebhookSubscription(updated), backlog });
       } catch (error) {
         if (isUniqueViolation(error, 'webhook_subscriptions_user_url_unique')) {
           return jsonError(context, 409, 'A webhook subscription with that URL already exists.');
@@ -245,4 +306,55 @@ export const registerWebhookRoutes = (app: ApiApp): void => {
       }
     });
   });
+
+  app.post('/v0/webhooks/:id/test', async (context) => {
+    return withDatabase(context, async (db) => {
+      const authedUser = await resolveAuthenticatedUser(db, context.req.raw);
+      if (!authedUser) {
+        return jsonError(context, 401, 'Unauthorized.');
+      }
+
+      const webhookId = context.req.param('id');
+      if (!isUuid(webhookId)) {
+        return jsonError(context, 400, 'Invalid webhook id.');
+      }
+
+      const now = new Date();
+      try {
+        await assertDemoFeatureAvailable(db, context.env, authedUser, 'webhook_test', now);
+        const ping = await sendWebhookTestPing(db, context.env, { organizerId: authedUser.id, webhookId, now });
+        if (!ping) {
+          return jsonError(context, 404, 'Webhook subscription not found.');
+        }
+
+        await db.transaction(async (transaction) => {
+          await consumeDemoFeatureCredits(transaction as DemoQuotaDb, context.env, authedUser, {
+            featureKey: 'webhook_test',
+            sourceKey: buildDemoFeatureSourceKey('webhook_test', { webhookId, eventId: ping.eventId }),
+            metadata: { webhookId, delivered: ping.delivered },
+            now,
+          });
+        });
+
+        emitAuditEvent({
+          event: 'webhook_test_ping_sent',
+          level: ping.delivered ? 'info' : 'warn',
+          actorUserId: authedUser.id,
+          route: '/v0/webhooks/:id/test',
+          statusCode: 200,
+          webhookId,
+          delivered: ping.delivered,
+          responseStatus: ping.responseStatus,
+          latencyMs: ping.latencyMs,
+        });
+
+        return context.json({ ok: true, ping });
+      } catch (error) {
+        if (error instanceof DemoQuotaAdmissionError || error instanceof DemoQuotaCreditsError) {
+          return jsonDemoQuotaError(context, db, context.env, authedUser, error);
+        }
+        throw error;
+      }
+    });
+  });
 };
@@ -0,0 +1,30 @@
+import { emitAuditEvent } from './server/audit';
+import { withConnectedDatabase } from './server/database';
+import { captureApiException } from './server/sentry';
+import { runScheduledTick } from './server/scheduled-worker';
+import type { Bindings } from './server/types';
+
+export const handleScheduled = async (controller: ScheduledController, env: Bindings): Promise<void> => {
+  const startedAt = Date.now();
+  try {
+    const summary = await withConnectedDatabase({ env }, (db) =>
+      runScheduledTick(db, env, { now: new Date(controller.scheduledTime) }),
+    );
+    emitAuditEvent({
+      event: 'scheduled_tick_completed',
+      level: summary.budgetExhausted ? 'warn' : 'info',
+      route: controller.cron,
+      durationMs: Date.now() - startedAt,
+      ...summary,
+    });
+  } catch (error) {
+    emitAuditEvent({
+      event: 'scheduled_tick_failed',
+      level: 'error',
+      route: controller.cron,
+      durationMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : 'unknown',
+    });
+    await captureApiException(env, error, { route: 'scheduled', tags: { cron: controller.cron } });
+  }
+};
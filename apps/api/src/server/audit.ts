@@ -9,25 +9,51 @@ export type AuditEventName =
   | 'booking_side_effect_failed'
   | 'booking_commit_completed'
   | 'booking_action_misuse_detected'
+  | 'booking_payment_refund_failed'
+  | 'booking_request_approved'
+  | 'booking_request_declined'
   | 'calendar_connect_failed'
   | 'calendar_connect_completed'
   | 'calendar_disconnect_completed'
   | 'calendar_sync_completed'
   | 'calendar_writeback_batch_completed'
   | 'calendar_writeback_failed_permanently'
+  | 'event_type_archived'
+  | 'event_type_deleted'
+  | 'event_type_restored'
   | 'onboarding_completed'
+  | 'organizer_booking_action_completed'
+  | 'payment_webhook_processed'
+  | 'payment_webhook_rejected'
   | 'profile_updated'
+  | 'routing_form_created'
+  | 'routing_form_deleted'
+  | 'routing_form_updated'
+  | 'scheduled_tick_completed'
+  | 'scheduled_tick_failed'
+  | 'slot_waitlist_joined'
+  | 'slot_waitlist_offer_claimed'
+  | 'team_deleted'
+  | 'team_member_removed'
+  | 'team_member_role_updated'
+  | 'team_ownership_transferred'
+  | 'team_round_robin_settings_updated'
+  | 'webhook_deliveries_bulk_replayed'
   | 'webhook_delivery_batch_completed'
   | 'webhook_delivery_failed_permanently'
+  | 'webhook_delivery_replayed'
+  | 'webhook_secret_rotated'
+  | 'webhook_subscription_auto_disabled'
   | 'webhook_subscription_created'
   | 'webhook_subscription_updated'
-  | 'webhook_subscription_toggled';
+  | 'webhook_subscription_toggled'
+  | 'webhook_test_ping_sent';
 
 type AuditPayload = {
   event: AuditEventName;
   level: AuditLevel;
   actorUserId?: string;
-  provider?: 'google' | 'microsoft';
+  provider?: 'google' | 'microsoft' | 'caldav';
   route?: string;
   statusCode?: number;
   durationMs?: number;
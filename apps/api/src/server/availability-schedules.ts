@@ -0,0 +1,40 @@
+import { and, eq, isNull } from 'drizzle-orm';
+
+import { availabilityRules, availabilitySchedules } from '@opencalendly/db';
+
+import type { WeeklyAvailabilityRule } from '../lib/availability';
+import type { QueryableDb } from './types';
+
+export const availabilityRuleScheduleFilter = (scheduleId: string | null) => {
+  return scheduleId ? eq(availabilityRules.scheduleId, scheduleId) : isNull(availabilityRules.scheduleId);
+};
+
+// Event types without a named schedule keep using the user's default weekly rules.
+export const listAvailabilityRulesForSchedule = async (
+  db: QueryableDb,
+  input: { userId: string; scheduleId: string | null },
+): Promise<WeeklyAvailabilityRule[]> => {
+  return db
+    .select({
+      dayOfWeek: availabilityRules.dayOfWeek,
+      startMinute: availabilityRules.startMinute,
+      endMinute: availabilityRules.endMinute,
+      bufferBeforeMinutes: availabilityRules.bufferBeforeMinutes,
+      bufferAfterMinutes: availabilityRules.bufferAfterMinutes,
+    })
+    .from(availabilityRules)
+    .where(and(eq(availabilityRules.userId, input.userId), availabilityRuleScheduleFilter(input.scheduleId)));
+};
+
+export const findAvailabilityScheduleForUser = async (
+  db: QueryableDb,
+  input: { userId: string; scheduleId: string },
+): Promise<{ id: string; name: string } | null> => {
+  const [schedule] = await db
+    .select({ id: availabilitySchedules.id, name: availabilitySchedules.name })
+    .from(availabilitySchedules)
+    .where(and(eq(availabilitySchedules.id, input.scheduleId), eq(availabilitySchedules.userId, input.userId)))
+    .limit(1);
+
+  return schedule ?? null;
+};
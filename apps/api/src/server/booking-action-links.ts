@@ -2,7 +2,14 @@ import { sql } from 'drizzle-orm';
 
 import { hashToken } from '../lib/auth';
 import { coerceBookingActionDate } from '../lib/booking-actions';
-import type { BookingActionType, Database, LockedActionToken, LockedBooking } from './types';
+import type {
+  BookingActionType,
+  Database,
+  EventTypeProfile,
+  LockedActionToken,
+  LockedBooking,
+  OrganizerProfile,
+} from './types';
 
 export const actionTokenMap = (
   tokens: Array<{ actionType: BookingActionType; token: string; expiresAt: string }>,
@@ -37,6 +44,19 @@ export const buildActionUrls = (
   };
 };
 
+export const buildBookingPageUrl = (
+  appBaseUrl: string,
+  input: { organizerUsername: string; eventSlug: string; teamSlug?: string | null },
+): string => {
+  return input.teamSlug
+    ? `${appBaseUrl}/team/${encodeURIComponent(input.teamSlug)}/${encodeURIComponent(input.eventSlug)}`
+    : `${appBaseUrl}/${encodeURIComponent(input.organizerUsername)}/${encodeURIComponent(input.eventSlug)}`;
+};
+
+export const buildWaitlistClaimUrl = (appBaseUrl: string, claimToken: string): string => {
+  return `${appBaseUrl}/waitlist/claim/${claimToken}`;
+};
+
 export const lockActionToken = async (
   db: Database | Parameters<Parameters<Database['transaction']>[0]>[0],
   tokenHash: string,
@@ -94,6 +114,58 @@ export const lockBooking = async (
     : null;
 };
 
+export const lockEventTypeProfile = async (
+  db: Database | Parameters<Parameters<Database['transaction']>[0]>[0],
+  eventTypeId: string,
+): Promise<EventTypeProfile | null> => {
+  const locked = await db.execute<EventTypeProfile>(sql`
+    select
+      et.id,
+      et.user_id as "userId",
+      et.slug,
+      et.name,
+      et.duration_minutes as "durationMinutes",
+      et.daily_booking_limit as "dailyBookingLimit",
+      et.weekly_booking_limit as "weeklyBookingLimit",
+      et.monthly_booking_limit as "monthlyBookingLimit",
+      et.location_type as "locationType",
+      et.location_value as "locationValue",
+      et.availability_schedule_id as "availabilityScheduleId",
+      et.minimum_notice_minutes as "minimumNoticeMinutes",
+      et.booking_horizon_days as "bookingHorizonDays",
+      et.buffer_before_minutes as "bufferBeforeMinutes",
+      et.buffer_after_minutes as "bufferAfterMinutes",
+      et.slot_increment_minutes as "slotIncrementMinutes",
+      et.seats_per_slot as "seatsPerSlot",
+      et.is_active as "isActive",
+      owner.timezone as "organizerTimezone"
+    from event_types et
+    inner join users owner on owner.id = et.user_id
+    where et.id = ${eventTypeId}
+    for update
+  `);
+  return locked.rows[0] ?? null;
+};
+
+export const lockOrganizerProfile = async (
+  db: Database | Parameters<Parameters<Database['transaction']>[0]>[0],
+  organizerId: string,
+): Promise<OrganizerProfile | null> => {
+  const locked = await db.execute<OrganizerProfile>(sql`
+    select
+      id,
+      email,
+      username,
+      display_name as "displayName",
+      timezone,
+      onboarding_completed as "onboardingCompleted"
+    from users
+    where id = ${organizerId}
+    for update
+  `);
+  return locked.rows[0] ?? null;
+};
+
 export const hashActionToken = (token: string): string => {
   return hashToken(token);
 };
@@ -0,0 +1,46 @@
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import { describe, expect, it, vi } from 'vitest';
+
+import { resolveBookingInviteIdentities, resolveBookingInviteIdentity } from './booking-calendar-invite';
+import type { Database } from './types';
+
+const dialect = new PgDialect();
+const originalId = '1b4e28ba-2fa1-41d2-883f-0016d3cca427';
+const rescheduledId = '6fa459ea-ee8a-3ca4-894e-db77e160355e';
+const standaloneId = '8f14e45f-ceea-467f-a8b2-4f4f5b8f1a2c';
+
+describe('booking invite identities', () => {
+  it('resolves every booking to the root of its reschedule chain in one query', async () => {
+    const execute = vi.fn<(query: SQL) => Promise<{ rows: unknown[] }>>(async () => ({
+      rows: [
+        { bookingId: rescheduledId, rootBookingId: originalId, depth: 2 },
+        { bookingId: standaloneId, rootBookingId: standaloneId, depth: 0 },
+      ],
+    }));
+
+    const identities = await resolveBookingInviteIdentities(
+      { execute } as unknown as Pick<Database, 'execute'>,
+      [rescheduledId, standaloneId],
+      'cal.example.com',
+    );
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(dialect.sqlToQuery(execute.mock.calls[0]![0]).params).toEqual([rescheduledId, standaloneId]);
+    expect(identities.get(rescheduledId)).toEqual({ uid: `booking-${originalId}@cal.example.com`, sequence: 2 });
+    expect(identities.get(standaloneId)).toEqual({ uid: `booking-${standaloneId}@cal.example.com`, sequence: 0 });
+  });
+
+  it('skips the query for an empty list and falls back to the booking id when no row comes back', async () => {
+    const execute = vi.fn(async () => ({ rows: [] }));
+    const db = { execute } as unknown as Pick<Database, 'execute'>;
+    const uidDomain = 'cal.example.com';
+
+    await expect(resolveBookingInviteIdentities(db, [], uidDomain)).resolves.toEqual(new Map());
+    expect(execute).not.toHaveBeenCalled();
+    await expect(resolveBookingInviteIdentity(db, standaloneId, uidDomain)).resolves.toEqual({
+      uid: `booking-${standaloneId}@cal.example.com`,
+      sequence: 0,
+    });
+  });
+});
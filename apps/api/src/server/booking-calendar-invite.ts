@@ -0,0 +1,95 @@
+import { sql } from 'drizzle-orm';
+
+import { buildBookingInviteUid, type BookingCalendarInvite } from '../lib/calendar-invite';
+import type { Database } from './types';
+
+type InviteChainRoot = {
+  bookingId: string;
+  rootBookingId: string;
+  depth: number;
+};
+
+export type BookingInviteIdentity = {
+  uid: string;
+  sequence: number;
+};
+
+// Walks `rescheduled_from_booking_id` back to the original booking: the root id keeps the ICS UID
+// stable across reschedules and the chain depth becomes the SEQUENCE. Every booking id is resolved
+// in one query so the calendar feed can share the lookup with invite emails.
+export const resolveBookingInviteIdentities = async (
+  db: Pick<Database, 'execute'>,
+  bookingIds: string[],
+  uidDomain: string,
+): Promise<Map<string, BookingInviteIdentity>> => {
+  const identities = new Map<string, BookingInviteIdentity>();
+  if (bookingIds.length === 0) {
+    return identities;
+  }
+
+  const result = await db.execute<InviteChainRoot>(sql`
+    with recursive chain as (
+      select id as booking_id, id, rescheduled_from_booking_id, 0 as depth
+      from bookings
+      where id in (${sql.join(
+        bookingIds.map((bookingId) => sql`${bookingId}`),
+        sql`, `,
+      )})
+      union all
+      select chain.booking_id, parent.id, parent.rescheduled_from_booking_id, chain.depth + 1
+      from bookings parent
+      inner join chain on parent.id = chain.rescheduled_from_booking_id
+      where chain.depth < 100
+    )
+    select distinct on (booking_id) booking_id as "bookingId", id as "rootBookingId", depth
+    from chain
+    order by booking_id, depth desc
+  `);
+
+  for (const row of result.rows) {
+    identities.set(row.bookingId, {
+      uid: buildBookingInviteUid(row.rootBookingId, uidDomain),
+      sequence: Number(row.depth),
+    });
+  }
+  return identities;
+};
+
+export const resolveBookingInviteIdentity = async (
+  db: Pick<Database, 'execute'>,
+  bookingId: string,
+  uidDomain: string,
+): Promise<BookingInviteIdentity> => {
+  const identities = await resolveBookingInviteIdentities(db, [bookingId], uidDomain);
+  return (
+    identities.get(bookingId) ?? { uid: buildBookingInviteUid(bookingId, uidDomain), sequence: 0 }
+  );
+};
+
+// Invite attachments are best-effort: a failed chain lookup sends the email without one.
+export const tryBuildBookingCalendarInvite = async (
+  db: Database,
+  input: {
+    bookingId: string;
+    endsAt: Date;
+    organizerEmail: string;
+    uidDomain: string;
+    sequenceOffset?: number;
+  },
+): Promise<BookingCalendarInvite | undefined> => {
+  try {
+    const identity = await resolveBookingInviteIdentity(db, input.bookingId, input.uidDomain);
+    return {
+      uid: identity.uid,
+      sequence: identity.sequence + (input.sequenceOffset ?? 0),
+      endsAt: input.endsAt.toISOString(),
+      organizerEmail: input.organizerEmail,
+    };
+  } catch (error) {
+    console.warn('calendar_invite_resolve_failed', {
+      bookingId: input.bookingId,
+      error: error instanceof Error ? error.message : 'unknown',
+    });
+    return undefined;
+  }
+};
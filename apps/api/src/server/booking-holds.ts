@@ -0,0 +1,49 @@
+import { and, eq, inArray, lte, sql, type SQL } from 'drizzle-orm';
+
+import { bookingPayments, bookings } from '@opencalendly/db';
+
+import type { Database, DatabaseTransaction } from './types';
+
+/**
+ * Bookings that occupy their slot: confirmed ones, requests awaiting organizer approval, and payment
+ * holds that have not expired yet. Availability, caps, and conflict checks all use this so a hold
+ * blocks the slot like a booking.
+ */
+export const slotHoldingBookingCondition = (now: Date): SQL => {
+  return sql`(${bookings.status} in ('confirmed', 'pending_approval') or (${bookings.status} = 'pending_payment' and ${bookings.holdExpiresAt} > ${now}))`;
+};
+
+/**
+ * Flips lapsed payment holds to `expired` so the partial unique slot index stops counting them.
+ * Booking transactions call this for their organizer; the cron tick sweeps everyone else.
+ */
+export const expireStalePaymentHolds = async (
+  db: Database | DatabaseTransaction,
+  input: { now: Date; organizerId?: string; limit: number },
+): Promise<string[]> => {
+  const staleHoldIds = db
+    .select({ id: bookings.id })
+    .from(bookings)
+    .where(
+      and(
+        eq(bookings.status, 'pending_payment'),
+        lte(bookings.holdExpiresAt, input.now),
+        ...(input.organizerId ? [eq(bookings.organizerId, input.organizerId)] : []),
+      ),
+    )
+    .limit(input.limit);
+
+  const expired = await db
+    .update(bookings)
+    .set({ status: 'expired', holdExpiresAt: null })
+    .where(and(inArray(bookings.id, staleHoldIds), eq(bookings.status, 'pending_payment')))
+    .returning({ id: bookings.id });
+  const expiredIds = expired.map((row) => row.id);
+  if (expiredIds.length > 0) {
+    await db
+      .update(bookingPayments)
+      .set({ status: 'expired', updatedAt: input.now })
+      .where(and(inArray(bookingPayments.bookingId, expiredIds), eq(bookingPayments.status, 'pending')));
+  }
+  return expiredIds;
+};
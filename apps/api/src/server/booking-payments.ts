@@ -0,0 +1,388 @@
+import { and, eq, gt, notInArray } from 'drizzle-orm';
+
+import { bookingActionTokens, bookingPayments, bookings, eventTypes, users } from '@opencalendly/db';
+import type { PublicBookingPayment } from '@opencalendly/shared';
+
+import { createBookingActionTokenSet, type InsertedBooking } from '../lib/booking';
+import { parseBookingMetadata } from '../lib/booking-actions';
+import {
+  createFakePaymentProvider,
+  createStripePaymentProvider,
+  PaymentProviderError,
+  resolveRefundDecision,
+  type PaymentProvider,
+  type PaymentWebhookOutcome,
+} from '../lib/payments';
+import { emitAuditEvent, sanitizeErrorForAudit } from './audit';
+import { actionTokenMap, buildActionUrls } from './booking-action-links';
+import { queueBookingCreatedSideEffects, sendBookingCreatedEmailSideEffects } from './booking-side-effects';
+import { normalizeTimezone } from './core';
+import { resolvePaymentProviderConfig } from './env';
+import { enqueueScheduledNotificationsForBooking } from './notifications';
+import type { Bindings, Database } from './types';
+
+export type PaymentHold = {
+  amountCents: number;
+  currency: string;
+  expiresAt: Date;
+};
+
+type BookingPaymentRow = typeof bookingPayments.$inferSelect;
+
+export type PaymentWebhookResult =
+  | { state: 'ignored' }
+  | { state: 'confirmed' | 'expired' | 'refunded' | 'refund_failed'; bookingId: string };
+
+export type CancellationRefundResult = {
+  status: 'refunded' | 'kept' | 'failed';
+  amountCents: number;
+  currency: string;
+};
+
+export const resolvePaymentProvider = (env: Bindings): PaymentProvider | null => {
+  const config = resolvePaymentProviderConfig(env);
+  if (!config) {
+    return null;
+  }
+  return config.provider === 'stripe' ? createStripePaymentProvider(config) : createFakePaymentProvider();
+};
+
+export const toPublicBookingPayment = (row: BookingPaymentRow): PublicBookingPayment => ({
+  provider: row.provider,
+  sessionId: row.providerSessionId,
+  status: row.status,
+  amountCents: row.amountCents,
+  currency: row.currency,
+  checkoutUrl: row.checkoutUrl,
+  expiresAt: row.expiresAt.toISOString(),
+});
+
+export const startBookingCheckout = async (
+  db: Database,
+  env: Bindings,
+  input: { booking: InsertedBooking; eventTypeName: string; hold: PaymentHold; appBaseUrl: string },
+): Promise<PublicBookingPayment> => {
+  const provider = resolvePaymentProvider(env);
+  let session;
+  try {
+    if (!provider) {
+      throw new PaymentProviderError('Payments are not configured.');
+    }
+    session = await provider.createCheckoutSession({
+      bookingId: input.booking.id,
+      amountCents: input.hold.amountCents,
+      currency: input.hold.currency,
+      description: input.eventTypeName,
+      inviteeEmail: input.booking.inviteeEmail,
+      expiresAt: input.hold.expiresAt,
+      returnUrlBase: `${input.appBaseUrl}/payment`,
+    });
+  } catch (error) {
+    // Without a checkout session nobody can pay for the hold, so free the slot right away.
+    await db
+      .update(bookings)
+      .set({ status: 'expired', holdExpiresAt: null })
+      .where(and(eq(bookings.id, input.booking.id), eq(bookings.status, 'pending_payment')));
+    throw error instanceof PaymentProviderError ? error : new PaymentProviderError('Unable to start checkout.');
+  }
+
+  const [payment] = await db
+    .insert(bookingPayments)
+    .values({
+      bookingId: input.booking.id,
+      organizerId: input.booking.organizerId,
+      provider: provider.name,
+      providerSessionId: session.sessionId,
+      amountCents: input.hold.amountCents,
+      currency: input.hold.currency,
+      checkoutUrl: session.checkoutUrl,
+      expiresAt: input.hold.expiresAt,
+    })
+    .returning();
+  if (!payment) {
+    throw new Error('Failed to record booking payment.');
+  }
+  return toPublicBookingPayment(payment);
+};
+
+export const findBookingPaymentSession = async (db: Database, sessionId: string) => {
+  const [row] = await db
+    .select({
+      payment: bookingPayments,
+      booking: {
+        id: bookings.id,
+        status: bookings.status,
+        startsAt: bookings.startsAt,
+        endsAt: bookings.endsAt,
+      },
+      eventTypeName: eventTypes.name,
+    })
+    .from(bookingPayments)
+    .innerJoin(bookings, eq(bookings.id, bookingPayments.bookingId))
+    .innerJoin(eventTypes, eq(eventTypes.id, bookings.eventTypeId))
+    .where(eq(bookingPayments.providerSessionId, sessionId))
+    .limit(1);
+  return row ?? null;
+};
+
+const refundBookingPayment = async (
+  db: Database,
+  provider: PaymentProvider | null,
+  payment: BookingPaymentRow,
+): Promise<boolean> => {
+  const now = new Date();
+  try {
+    if (!provider || provider.name !== payment.provider) {
+      throw new PaymentProviderError(`Payment provider "${payment.provider}" is not configured.`);
+    }
+    const refund = await provider.refund({
+      sessionId: payment.providerSessionId,
+      paymentId: payment.providerPaymentId,
+      amountCents: payment.amountCents,
+    });
+    await db
+      .update(bookingPayments)
+      .set({ status: 'refunded', providerRefundId: refund.refundId, refundedAt: now, lastError: null, updatedAt: now })
+      .where(eq(bookingPayments.id, payment.id));
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message.slice(0, 1000) : 'Refund failed.';
+    await db
+      .update(bookingPayments)
+      .set({ lastError: message, updatedAt: now })
+      .where(eq(bookingPayments.id, payment.id));
+    emitAuditEvent({
+      event: 'booking_payment_refund_failed',
+      level: 'error',
+      route: 'booking_payments',
+      bookingId: payment.bookingId,
+      error: sanitizeErrorForAudit(error, 'booking_payment_refund_failed'),
+    });
+    return false;
+  }
+};
+
+const sendPaidBookingConfirmation = async (
+  db: Database,
+  env: Bindings,
+  input: {
+    booking: InsertedBooking & { metadata: string | null };
+    payment: BookingPaymentRow;
+    tokens: ReturnType<typeof createBookingActionTokenSet>['publicTokens'];
+    request: Request;
+    appBaseUrl: string;
+  },
+) => {
+  const [eventType] = await db
+    .select({
+      name: eventTypes.name,
+      locationType: eventTypes.locationType,
+      locationValue: eventTypes.locationValue,
+      organizerDisplayName: users.displayName,
+      organizerEmail: users.email,
+      organizerTimezone: users.timezone,
+    })
+    .from(eventTypes)
+    .innerJoin(users, eq(users.id, eventTypes.userId))
+    .where(eq(eventTypes.id, input.booking.eventTypeId))
+    .limit(1);
+  if (!eventType) {
+    return;
+  }
+
+  const metadata = parseBookingMetadata(input.booking.metadata, normalizeTimezone);
+  const timezone = metadata.timezone ?? normalizeTimezone(eventType.organizerTimezone);
+  const tokens = actionTokenMap(input.tokens);
+  const actionUrls = buildActionUrls(input.request, input.appBaseUrl, {
+    cancelToken: tokens.cancelToken,
+    rescheduleToken: tokens.rescheduleToken,
+  });
+  await queueBookingCreatedSideEffects(db, {
+    booking: input.booking,
+    eventType,
+    organizerDisplayName: eventType.organizerDisplayName,
+    timezone,
+    actionUrls,
+    webhookMetadata: {
+      answers: metadata.answers,
+      payment: {
+        provider: input.payment.provider,
+        amountCents: input.payment.amountCents,
+        currency: input.payment.currency,
+      },
+    },
+  });
+  await sendBookingCreatedEmailSideEffects(env, db, {
+    booking: input.booking,
+    eventType,
+    organizerDisplayName: eventType.organizerDisplayName,
+    organizerEmail: eventType.organizerEmail,
+    timezone,
+    actionUrls,
+  });
+};
+
+const confirmPaidBooking = async (
+  db: Database,
+  env: Bindings,
+  provider: PaymentProvider,
+  outcome: PaymentWebhookOutcome,
+  context: { request: Request; appBaseUrl: string; now: Date },
+): Promise<PaymentWebhookResult> => {
+  const { now } = context;
+  const result = await db.transaction(async (transaction) => {
+    // Only the first success for a session gets past this update, so replays are no-ops.
+    const [payment] = await transaction
+      .update(bookingPayments)
+      .set({
+        status: 'succeeded',
+        paidAt: now,
+        ...(outcome.paymentId ? { providerPaymentId: outcome.paymentId } : {}),
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(bookingPayments.provider, provider.name),
+          eq(bookingPayments.providerSessionId, outcome.sessionId),
+          notInArray(bookingPayments.status, ['succeeded', 'refunded']),
+        ),
+      )
+      .returning();
+    if (!payment) {
+      return null;
+    }
+
+    const [booking] = await transaction
+      .update(bookings)
+      .set({ status: 'confirmed', holdExpiresAt: null })
+      .where(
+        and(
+          eq(bookings.id, payment.bookingId),
+          eq(bookings.status, 'pending_payment'),
+          gt(bookings.holdExpiresAt, now),
+        ),
+      )
+      .returning({
+        id: bookings.id,
+        eventTypeId: bookings.eventTypeId,
+        organizerId: bookings.organizerId,
+        inviteeName: bookings.inviteeName,
+        inviteeEmail: bookings.inviteeEmail,
+        startsAt: bookings.startsAt,
+        endsAt: bookings.endsAt,
+        metadata: bookings.metadata,
+      });
+    if (!booking) {
+      return { payment, booking: null, tokens: [] };
+    }
+
+    // Links handed out with the hold were never emailed, so confirmation issues a fresh set.
+    const tokenSet = createBookingActionTokenSet(now);
+    await transaction.delete(bookingActionTokens).where(eq(bookingActionTokens.bookingId, booking.id));
+    await transaction.insert(bookingActionTokens).values(
+      tokenSet.tokenWrites.map((tokenWrite) => ({ bookingId: booking.id, ...tokenWrite })),
+    );
+    await enqueueScheduledNotificationsForBooking(transaction, {
+      bookingId: booking.id,
+      organizerId: booking.organizerId,
+      eventTypeId: booking.eventTypeId,
+      inviteeEmail: booking.inviteeEmail,
+      inviteeName: booking.inviteeName,
+      startsAt: booking.startsAt,
+      endsAt: booking.endsAt,
+    });
+    return { payment, booking, tokens: tokenSet.publicTokens };
+  });
+
+  if (!result) {
+    return { state: 'ignored' };
+  }
+  if (!result.booking) {
+    // The hold lapsed or was released before the money arrived; give it back.
+    const refunded = await refundBookingPayment(db, provider, result.payment);
+    return { state: refunded ? 'refunded' : 'refund_failed', bookingId: result.payment.bookingId };
+  }
+
+  await sendPaidBookingConfirmation(db, env, {
+    booking: result.booking,
+    payment: result.payment,
+    tokens: result.tokens,
+    request: context.request,
+    appBaseUrl: context.appBaseUrl,
+  });
+  return { state: 'confirmed', bookingId: result.booking.id };
+};
+
+export const applyPaymentWebhookOutcome = async (
+  db: Database,
+  env: Bindings,
+  provider: PaymentProvider,
+  outcome: PaymentWebhookOutcome,
+  context: { request: Request; appBaseUrl: string; now: Date },
+): Promise<PaymentWebhookResult> => {
+  if (outcome.outcome === 'succeeded') {
+    return confirmPaidBooking(db, env, provider, outcome, context);
+  }
+
+  return db.transaction(async (transaction) => {
+    const [payment] = await transaction
+      .update(bookingPayments)
+      .set({ status: outcome.outcome, updatedAt: context.now })
+      .where(
+        and(
+          eq(bookingPayments.provider, provider.name),
+          eq(bookingPayments.providerSessionId, outcome.sessionId),
+          eq(bookingPayments.status, 'pending'),
+        ),
+      )
+      .returning({ bookingId: bookingPayments.bookingId });
+    if (!payment) {
+      return { state: 'ignored' } as const;
+    }
+    await transaction
+      .update(bookings)
+      .set({ status: 'expired', holdExpiresAt: null })
+      .where(and(eq(bookings.id, payment.bookingId), eq(bookings.status, 'pending_payment')));
+    return { state: 'expired', bookingId: payment.bookingId } as const;
+  });
+};
+
+/**
+ * Applies the event type's refund policy to a canceled paid booking. Returns null for
+ * bookings that were never paid for.
+ */
+export const refundCanceledBookingPayment = async (
+  db: Database,
+  env: Bindings,
+  input: { bookingId: string; canceledBy: 'invitee' | 'organizer'; startsAt: Date; now: Date },
+): Promise<CancellationRefundResult | null> => {
+  const [row] = await db
+    .select({
+      payment: bookingPayments,
+      refundPolicy: eventTypes.refundPolicy,
+      refundCutoffHours: eventTypes.refundCutoffHours,
+    })
+    .from(bookingPayments)
+    .innerJoin(bookings, eq(bookings.id, bookingPayments.bookingId))
+    .innerJoin(eventTypes, eq(eventTypes.id, bookings.eventTypeId))
+    .where(and(eq(bookingPayments.bookingId, input.bookingId), eq(bookingPayments.status, 'succeeded')))
+    .limit(1);
+  if (!row) {
+    return null;
+  }
+
+  const summary = { amountCents: row.payment.amountCents, currency: row.payment.currency };
+  const decision = resolveRefundDecision({
+    policy: row.refundPolicy,
+    cutoffHours: row.refundCutoffHours,
+    canceledBy: input.canceledBy,
+    startsAt: input.startsAt,
+    now: input.now,
+  });
+  if (decision === 'keep') {
+    return { status: 'kept', ...summary };
+  }
+
+  const refunded = await refundBookingPayment(db, resolvePaymentProvider(env), row.payment);
+  return { status: refunded ? 'refunded' : 'failed', ...summary };
+};
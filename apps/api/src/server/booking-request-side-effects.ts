@@ -0,0 +1,91 @@
+import { sendBookingRequestDeclinedEmail, sendBookingRequestReceivedEmail } from '../lib/email';
+import { enqueueWebhookDeliveries } from './webhook-events';
+import { tryRecordEmailDelivery } from './telemetry';
+import type { Bindings, Database } from './types';
+
+type BookingRequestRecord = {
+  id: string;
+  eventTypeId: string;
+  organizerId: string;
+  inviteeName: string;
+  inviteeEmail: string;
+  startsAt: Date;
+  endsAt: Date;
+};
+
+/**
+ * Requests and declines never reach a calendar, so they only notify webhook subscribers. Approvals
+ * go through `queueBookingCreatedSideEffects`, which also records the confirmation and writeback.
+ */
+export const queueBookingRequestWebhook = async (
+  db: Database,
+  input: {
+    type: 'booking.requested' | 'booking.declined';
+    booking: BookingRequestRecord;
+    metadata?: Record<string, unknown>;
+  },
+): Promise<number> => {
+  return enqueueWebhookDeliveries(db, {
+    organizerId: input.booking.organizerId,
+    type: input.type,
+    booking: {
+      id: input.booking.id,
+      eventTypeId: input.booking.eventTypeId,
+      organizerId: input.booking.organizerId,
+      inviteeEmail: input.booking.inviteeEmail,
+      inviteeName: input.booking.inviteeName,
+      startsAtIso: input.booking.startsAt.toISOString(),
+      endsAtIso: input.booking.endsAt.toISOString(),
+    },
+    ...(input.metadata ? { metadata: input.metadata } : {}),
+  });
+};
+
+export const sendBookingRequestEmailSideEffects = async (
+  env: Bindings,
+  db: Database,
+  input: {
+    kind: 'received' | 'declined';
+    booking: BookingRequestRecord;
+    eventName: string;
+    organizerDisplayName: string;
+    timezone: string;
+    declineReason?: string | null;
+    rebookLink?: string;
+  },
+) => {
+  const emailInput = {
+    inviteeEmail: input.booking.inviteeEmail,
+    inviteeName: input.booking.inviteeName,
+    organizerDisplayName: input.organizerDisplayName,
+    eventName: input.eventName,
+    startsAt: input.booking.startsAt.toISOString(),
+    timezone: input.timezone,
+  };
+  const email =
+    input.kind === 'received'
+      ? await sendBookingRequestReceivedEmail(env, {
+          ...emailInput,
+          idempotencyKey: `booking-request-received:${input.booking.id}`,
+        })
+      : await sendBookingRequestDeclinedEmail(env, {
+          ...emailInput,
+          declineReason: input.declineReason ?? null,
+          ...(input.rebookLink ? { rebookLink: input.rebookLink } : {}),
+          idempotencyKey: `booking-declined:${input.booking.id}`,
+        });
+
+  await tryRecordEmailDelivery(env, db, {
+    organizerId: input.booking.organizerId,
+    bookingId: input.booking.id,
+    eventTypeId: input.booking.eventTypeId,
+    recipientEmail: input.booking.inviteeEmail,
+    emailType: input.kind === 'received' ? 'booking_request_received' : 'booking_declined',
+    provider: email.provider,
+    status: email.sent ? 'succeeded' : 'failed',
+    ...(email.messageId ? { providerMessageId: email.messageId } : {}),
+    ...(email.error ? { error: email.error } : {}),
+  });
+
+  return email;
+};
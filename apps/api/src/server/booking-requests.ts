@@ -0,0 +1,209 @@
+import { and, asc, eq, gt } from 'drizzle-orm';
+
+import { bookingActionTokens, bookings, eventTypes, users } from '@opencalendly/db';
+
+import { createBookingActionTokenSet } from '../lib/booking';
+import { parseBookingMetadata } from '../lib/booking-actions';
+import { evaluateBookingRequestDecision } from '../lib/booking-requests';
+import { lockBooking } from './booking-action-links';
+import { normalizeTimezone } from './core';
+import { enqueueScheduledNotificationsForBooking } from './notifications';
+import type { AuthenticatedUser, Database, DatabaseTransaction, LockedBooking } from './types';
+import { BookingActionGoneError, BookingActionNotFoundError } from './types';
+
+const decidedBookingColumns = {
+  id: bookings.id,
+  eventTypeId: bookings.eventTypeId,
+  organizerId: bookings.organizerId,
+  inviteeName: bookings.inviteeName,
+  inviteeEmail: bookings.inviteeEmail,
+  startsAt: bookings.startsAt,
+  endsAt: bookings.endsAt,
+  status: bookings.status,
+};
+
+export const listPendingBookingRequests = async (db: Database, input: { organizerId: string; now: Date }) => {
+  const rows = await db
+    .select({
+      id: bookings.id,
+      inviteeName: bookings.inviteeName,
+      inviteeEmail: bookings.inviteeEmail,
+      startsAt: bookings.startsAt,
+      endsAt: bookings.endsAt,
+      metadata: bookings.metadata,
+      createdAt: bookings.createdAt,
+      eventTypeId: eventTypes.id,
+      eventTypeName: eventTypes.name,
+      eventTypeSlug: eventTypes.slug,
+    })
+    .from(bookings)
+    .innerJoin(eventTypes, eq(eventTypes.id, bookings.eventTypeId))
+    .where(
+      and(
+        eq(bookings.organizerId, input.organizerId),
+        eq(bookings.status, 'pending_approval'),
+        gt(bookings.startsAt, input.now),
+      ),
+    )
+    .orderBy(asc(bookings.startsAt));
+
+  return rows.map((row) => {
+    const metadata = parseBookingMetadata(row.metadata, normalizeTimezone);
+    return {
+      id: row.id,
+      inviteeName: row.inviteeName,
+      inviteeEmail: row.inviteeEmail,
+      startsAt: row.startsAt.toISOString(),
+      endsAt: row.endsAt.toISOString(),
+      requestedAt: row.createdAt.toISOString(),
+      timezone: metadata.timezone ?? null,
+      answers: metadata.answers,
+      eventType: { id: row.eventTypeId, name: row.eventTypeName, slug: row.eventTypeSlug },
+    };
+  });
+};
+
+const lockPendingRequest = async (
+  transaction: DatabaseTransaction,
+  input: { bookingId: string; organizerId: string; ownedEventTypeId?: string; now: Date },
+): Promise<LockedBooking> => {
+  const booking = await lockBooking(transaction, input.bookingId);
+  // Same rule as organizer cancellation: callers passing `ownedEventTypeId` have already verified
+  // that the organizer owns the event type.
+  const isAuthorized = input.ownedEventTypeId
+    ? booking?.eventTypeId === input.ownedEventTypeId
+    : booking?.organizerId === input.organizerId;
+  if (!booking || !isAuthorized) {
+    throw new BookingActionNotFoundError('Booking request not found.');
+  }
+  const state = evaluateBookingRequestDecision({ bookingStatus: booking.status, startsAt: booking.startsAt, now: input.now });
+  if (state === 'already-decided') {
+    throw new BookingActionGoneError('This booking request was already handled.');
+  }
+  if (state === 'started') {
+    throw new BookingActionGoneError('This booking request has already started.');
+  }
+  return booking;
+};
+
+const loadRequestContext = async (transaction: DatabaseTransaction, booking: LockedBooking) => {
+  const [row] = await transaction
+    .select({
+      eventTypeName: eventTypes.name,
+      eventTypeSlug: eventTypes.slug,
+      locationType: eventTypes.locationType,
+      locationValue: eventTypes.locationValue,
+      organizerEmail: users.email,
+      organizerUsername: users.username,
+      organizerDisplayName: users.displayName,
+      organizerTimezone: users.timezone,
+    })
+    .from(eventTypes)
+    .innerJoin(users, eq(users.id, eventTypes.userId))
+    .where(eq(eventTypes.id, booking.eventTypeId))
+    .limit(1);
+  if (!row) {
+    throw new BookingActionNotFoundError('Booking context not found.');
+  }
+
+  const metadata = parseBookingMetadata(booking.metadata, normalizeTimezone);
+  return {
+    eventType: {
+      name: row.eventTypeName,
+      slug: row.eventTypeSlug,
+      locationType: row.locationType,
+      locationValue: row.locationValue,
+    },
+    organizer: {
+      email: row.organizerEmail,
+      username: row.organizerUsername,
+      displayName: row.organizerDisplayName,
+    },
+    timezone: metadata.timezone ?? normalizeTimezone(row.organizerTimezone),
+    answers: metadata.answers,
+  };
+};
+
+/**
+ * Confirms a pending request in place. The slot was held all along, so no availability check is
+ * needed; the invitee only now gets action links and reminders.
+ */
+export const approveBookingRequest = async (
+  db: Database,
+  authedUser: AuthenticatedUser,
+  input: { bookingId: string },
+) => {
+  const now = new Date();
+  return db.transaction(async (transaction) => {
+    const booking = await lockPendingRequest(transaction, {
+      bookingId: input.bookingId,
+      organizerId: authedUser.id,
+      now,
+    });
+    const context = await loadRequestContext(transaction, booking);
+
+    const [approved] = await transaction
+      .update(bookings)
+      .set({ status: 'confirmed' })
+      .where(eq(bookings.id, booking.id))
+      .returning(decidedBookingColumns);
+    if (!approved) {
+      throw new Error('Failed to approve booking request.');
+    }
+
+    const tokenSet = createBookingActionTokenSet(now);
+    await transaction.insert(bookingActionTokens).values(
+      tokenSet.tokenWrites.map((tokenWrite) => ({
+        bookingId: approved.id,
+        actionType: tokenWrite.actionType,
+        tokenHash: tokenWrite.tokenHash,
+        expiresAt: tokenWrite.expiresAt,
+      })),
+    );
+    const queuedNotifications = await enqueueScheduledNotificationsForBooking(transaction, {
+      bookingId: approved.id,
+      organizerId: approved.organizerId,
+      eventTypeId: approved.eventTypeId,
+      inviteeEmail: approved.inviteeEmail,
+      inviteeName: approved.inviteeName,
+      startsAt: approved.startsAt,
+      endsAt: approved.endsAt,
+    });
+
+    return { booking: approved, ...context, actionTokens: tokenSet.publicTokens, queuedNotifications };
+  });
+};
+
+/** Declining frees the slot right away; the decline reason is stored like a cancellation reason. */
+export const declineBookingRequest = async (
+  db: Database,
+  authedUser: AuthenticatedUser,
+  input: { bookingId: string; reason: string | null; ownedEventTypeId?: string },
+) => {
+  const now = new Date();
+  return db.transaction(async (transaction) => {
+    const booking = await lockPendingRequest(transaction, {
+      bookingId: input.bookingId,
+      organizerId: authedUser.id,
+      ...(input.ownedEventTypeId ? { ownedEventTypeId: input.ownedEventTypeId } : {}),
+      now,
+    });
+    const context = await loadRequestContext(transaction, booking);
+
+    const [declined] = await transaction
+      .update(bookings)
+      .set({
+        status: 'declined',
+        canceledAt: now,
+        canceledBy: 'organizer',
+        cancellationReason: input.reason,
+      })
+      .where(eq(bookings.id, booking.id))
+      .returning(decidedBookingColumns);
+    if (!declined) {
+      throw new Error('Failed to decline booking request.');
+    }
+
+    return { booking: declined, ...context };
+  });
+};
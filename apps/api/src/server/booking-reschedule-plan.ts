@@ -1,37 +1,37 @@
 import { and, asc, eq, gt, lt } from 'drizzle-orm';
 import type { DateTime } from 'luxon';
 
-import {
-  availabilityOverrides,
-  availabilityRules,
-  bookings,
-  teamBookingAssignments,
-  teamEventTypeMembers,
-  teamEventTypes,
-} from '@opencalendly/db';
+import { availabilityOverrides, bookings, teamBookingAssignments, teamEventTypes } from '@opencalendly/db';
 
+import { toEventTypeSchedulingRules } from '../lib/availability';
 import type { BookingMetadata } from '../lib/booking-actions';
 import { resolveRequestedRescheduleSlot } from '../lib/booking-actions';
 import { buildBookingCapWindowsForSlot } from '../lib/booking-caps';
-import { BookingConflictError, BookingValidationError } from '../lib/booking';
+import { planSlotSeating } from '../lib/booking-seats';
+import { assertWithinBookableWindow, BookingConflictError, BookingValidationError } from '../lib/booking';
+import { listAvailabilityRulesForSchedule } from './availability-schedules';
+import { slotHoldingBookingCondition } from './booking-holds';
 import { normalizeTimezone } from './core';
 import {
   countConfirmedBookingsForEventTypeWindow,
   resolveTeamMode,
   toEventTypeBookingCaps,
 } from './team-context';
-import { listExternalBusyWindowsForUser, listTeamMemberSchedules, listTimeOffBlocksForUser, resolveTeamRequestedSlot } from './team-schedules';
+import { listRequiredTeamEventMembers, loadRoundRobinPolicy } from './team-round-robin';
+import { listExternalBusyWindowsForUser, listOptionalTeamMemberSchedules, listTeamMemberSchedules, listTimeOffBlocksForUser, resolveTeamRequestedSlot } from './team-schedules';
 import type {
   DatabaseTransaction,
   EventTypeProfile,
   LockedBooking,
   OrganizerProfile,
+  TeamMemberScheduleRecord,
   TeamSchedulingMode,
 } from './types';
 
 export type TeamAssignmentWrite = {
   teamEventTypeId: string;
   userIds: string[];
+  optionalAttendeeUserIds: string[];
   mode: TeamSchedulingMode;
   nextRoundRobinCursor: number;
   organizerId: string;
@@ -41,6 +41,7 @@ export type ReschedulePlan = {
   metadata: string;
   nextOrganizerId: string;
   requestedEndsAt: DateTime;
+  seatNumber: number;
   teamAssignmentWrite: TeamAssignmentWrite | null;
 };
 
@@ -56,6 +57,9 @@ export const buildReschedulePlan = async (
     existingMetadata: BookingMetadata;
   },
 ): Promise<ReschedulePlan> => {
+  const eventTypeRules = toEventTypeSchedulingRules(input.eventType);
+  assertWithinBookableWindow(input.startsAt.toJSDate(), eventTypeRules);
+
   const requestedEndsAt = input.startsAt.plus({ minutes: input.eventType.durationMinutes });
   const requestedEndsAtIso = requestedEndsAt.toUTC().toISO();
   if (!requestedEndsAtIso) {
@@ -80,20 +84,15 @@ export const buildReschedulePlan = async (
 
   let bufferBeforeMinutes = 0;
   let bufferAfterMinutes = 0;
+  let seatNumber = 1;
   let teamAssignmentWrite: TeamAssignmentWrite | null = null;
 
   if (existingTeamAssignments.length === 0) {
     const [rules, overrides, userTimeOffBlocks, externalBusyWindows, existingBookings] = await Promise.all([
-      transaction
-        .select({
-          dayOfWeek: availabilityRules.dayOfWeek,
-          startMinute: availabilityRules.startMinute,
-          endMinute: availabilityRules.endMinute,
-          bufferBeforeMinutes: availabilityRules.bufferBeforeMinutes,
-          bufferAfterMinutes: availabilityRules.bufferAfterMinutes,
-        })
-        .from(availabilityRules)
-        .where(eq(availabilityRules.userId, input.organizer.id)),
+      listAvailabilityRulesForSchedule(transaction, {
+        userId: input.organizer.id,
+        scheduleId: input.eventType.availabilityScheduleId ?? null,
+      }),
       transaction
         .select({
           startAt: availabilityOverrides.startAt,
@@ -113,22 +112,29 @@ export const buildReschedulePlan = async (
       transaction
         .select({
           id: bookings.id,
+          eventTypeId: bookings.eventTypeId,
           startsAt: bookings.startsAt,
           endsAt: bookings.endsAt,
           status: bookings.status,
           metadata: bookings.metadata,
+          seatNumber: bookings.seatNumber,
         })
         .from(bookings)
         .where(
           and(
             eq(bookings.organizerId, input.organizer.id),
-            eq(bookings.status, 'confirmed'),
+            slotHoldingBookingCondition(new Date()),
             lt(bookings.startsAt, rangeEnd.toJSDate()),
             gt(bookings.endsAt, rangeStart.toJSDate()),
           ),
         ),
     ]);
 
+    // The attendee being moved gives up their current seat.
+    const seating = planSlotSeating(
+      existingBookings.filter((existingBooking) => existingBooking.id !== input.booking.id),
+      input.eventType,
+    );
     const slotResolution = resolveRequestedRescheduleSlot({
       requestedStartsAtIso: input.requestedStartsAtIso,
       durationMinutes: input.eventType.durationMinutes,
@@ -143,12 +149,17 @@ export const buildReschedulePlan = async (
           isAvailable: false,
         })),
       ],
-      bookings: existingBookings,
-      excludeBookingId: input.booking.id,
+      bookings: seating.blockingBookings,
+      eventTypeRules,
     });
     if (!slotResolution) {
       throw new BookingConflictError('Selected slot is no longer available.');
     }
+    const claimedSeat = seating.claimSeat(slotResolution.requestedStartsAtIso, slotResolution.requestedEndsAtIso);
+    if (claimedSeat === null) {
+      throw new BookingConflictError('This slot is full.');
+    }
+    seatNumber = claimedSeat;
 
     bufferBeforeMinutes = slotResolution.matchingSlot.bufferBeforeMinutes;
     bufferAfterMinutes = slotResolution.matchingSlot.bufferAfterMinutes;
@@ -163,6 +174,8 @@ export const buildReschedulePlan = async (
         id: teamEventTypes.id,
         mode: teamEventTypes.mode,
         roundRobinCursor: teamEventTypes.roundRobinCursor,
+        roundRobinStrategy: teamEventTypes.roundRobinStrategy,
+        roundRobinWindowDays: teamEventTypes.roundRobinWindowDays,
       })
       .from(teamEventTypes)
       .where(eq(teamEventTypes.id, teamEventTypeId))
@@ -173,16 +186,7 @@ export const buildReschedulePlan = async (
       throw new BookingValidationError('Team scheduling mode is invalid.');
     }
 
-    const requiredMemberRows = await transaction
-      .select({ userId: teamEventTypeMembers.userId })
-      .from(teamEventTypeMembers)
-      .where(
-        and(
-          eq(teamEventTypeMembers.teamEventTypeId, teamEventTypeId),
-          eq(teamEventTypeMembers.isRequired, true),
-        ),
-      )
-      .orderBy(asc(teamEventTypeMembers.userId));
+    const requiredMemberRows = await listRequiredTeamEventMembers(transaction, teamEventTypeId);
 
     const requiredMemberUserIds = requiredMemberRows.map((member) => member.userId);
     if (requiredMemberUserIds.length === 0) {
@@ -199,7 +203,11 @@ export const buildReschedulePlan = async (
       throw new BookingValidationError('Some required team members no longer exist.');
     }
 
-    const filteredMemberSchedules = memberSchedules.map((schedule) => ({
+    const optionalMemberSchedules =
+      teamMode === 'collective'
+        ? await listOptionalTeamMemberSchedules(transaction, teamEventTypeId, rangeStart.toJSDate(), rangeEnd.toJSDate())
+        : [];
+    const withoutMovedBooking = (schedule: TeamMemberScheduleRecord): TeamMemberScheduleRecord => ({
       ...schedule,
       bookings: schedule.bookings.filter(
         (existingBooking) =>
@@ -208,16 +216,33 @@ export const buildReschedulePlan = async (
             existingBooking.endsAt.getTime() === input.booking.endsAt.getTime()
           ),
       ),
-    }));
+    });
+    const filteredMemberSchedules = memberSchedules.map(withoutMovedBooking);
+
+    // The booking being moved doesn't count against its current assignee.
+    const roundRobinPolicy =
+      teamMode === 'round_robin'
+        ? await loadRoundRobinPolicy(transaction, {
+            teamEventTypeId,
+            strategy: teamEventRow.roundRobinStrategy,
+            windowDays: teamEventRow.roundRobinWindowDays,
+            members: requiredMemberRows,
+            now: new Date(),
+            excludeBookingId: input.booking.id,
+          })
+        : null;
 
     const slotResolution = resolveTeamRequestedSlot({
       mode: teamMode,
       memberSchedules: filteredMemberSchedules,
+      optionalMemberSchedules: optionalMemberSchedules.map(withoutMovedBooking),
       requestedStartsAtIso: input.requestedStartsAtIso,
       durationMinutes: input.eventType.durationMinutes,
       rangeStartIso,
       days: 2,
       roundRobinCursor: teamEventRow.roundRobinCursor,
+      ...(roundRobinPolicy ? { roundRobinPolicy } : {}),
+      eventTypeRules,
     });
     if (!slotResolution) {
       throw new BookingConflictError('Selected slot is no longer available.');
@@ -233,6 +258,7 @@ export const buildReschedulePlan = async (
     teamAssignmentWrite = {
       teamEventTypeId,
       userIds: slotResolution.assignmentUserIds,
+      optionalAttendeeUserIds: slotResolution.optionalAttendeeUserIds,
       mode: teamMode,
       nextRoundRobinCursor: slotResolution.nextRoundRobinCursor,
       organizerId: nextOrganizerId,
@@ -268,6 +294,7 @@ export const buildReschedulePlan = async (
               ...(teamAssignmentWrite
                 ? {
                     assignmentUserIds: teamAssignmentWrite.userIds,
+                    optionalAttendeeUserIds: teamAssignmentWrite.optionalAttendeeUserIds,
                     mode: teamAssignmentWrite.mode,
                   }
                 : {}),
@@ -277,6 +304,7 @@ export const buildReschedulePlan = async (
     }),
     nextOrganizerId: teamAssignmentWrite?.organizerId ?? input.booking.organizerId,
     requestedEndsAt,
+    seatNumber,
     teamAssignmentWrite,
   };
 };
@@ -1,12 +1,14 @@
 import { sendBookingRescheduledEmail } from '../lib/email';
+import { tryBuildBookingCalendarInvite } from './booking-calendar-invite';
 import {
   emptyWritebackResult,
   mergeWritebackResults,
   queueCalendarWriteback,
 } from './booking-writeback-summary';
+import { resolveIcsUidDomain } from './env';
 import { tryRecordEmailDelivery } from './telemetry';
 import type { Bindings, Database } from './types';
-import { enqueueWebhookDeliveries } from './webhook-deliveries';
+import { enqueueWebhookDeliveries } from './webhook-events';
 
 type BookingRecord = {
   id: string;
@@ -122,6 +124,8 @@ export const sendBookingRescheduleEmailSideEffects = async (
     oldOrganizer: { email: string; displayName: string };
     newOrganizer: { email: string; displayName: string };
     timezone: string;
+    rescheduledBy?: 'invitee' | 'organizer';
+    inviteeActionLinks?: { cancelPageUrl: string; reschedulePageUrl: string };
     alreadyProcessed: boolean;
   },
 ) => {
@@ -163,6 +167,12 @@ export const sendBookingRescheduleEmailSideEffects = async (
         },
       ];
 
+  const calendarInvite = await tryBuildBookingCalendarInvite(db, {
+    bookingId: input.newBooking.id,
+    endsAt: input.newBooking.endsAt,
+    organizerEmail: input.newOrganizer.email,
+    uidDomain: resolveIcsUidDomain(env),
+  });
   const email = await Promise.all([
     sendBookingRescheduledEmail(env, {
       recipientEmail: input.newBooking.inviteeEmail,
@@ -173,6 +183,14 @@ export const sendBookingRescheduleEmailSideEffects = async (
       oldStartsAt: input.oldBooking.startsAt.toISOString(),
       newStartsAt: input.newBooking.startsAt.toISOString(),
       timezone: input.timezone,
+      ...(input.rescheduledBy ? { rescheduledBy: input.rescheduledBy } : {}),
+      ...(input.inviteeActionLinks
+        ? {
+            cancelLink: input.inviteeActionLinks.cancelPageUrl,
+            rescheduleLink: input.inviteeActionLinks.reschedulePageUrl,
+          }
+        : {}),
+      ...(calendarInvite ? { calendarInvite } : {}),
       idempotencyKey: `booking-rescheduled:${input.oldBooking.id}:${input.newBooking.id}:invitee`,
     }),
     ...organizerNotifications.map((notification) =>
@@ -185,6 +203,7 @@ export const sendBookingRescheduleEmailSideEffects = async (
         oldStartsAt: input.oldBooking.startsAt.toISOString(),
         newStartsAt: input.newBooking.startsAt.toISOString(),
         timezone: input.timezone,
+        ...(input.rescheduledBy ? { rescheduledBy: input.rescheduledBy } : {}),
         idempotencyKey: notification.idempotencyKey,
       }),
     ),
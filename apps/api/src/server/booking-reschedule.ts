@@ -1,8 +1,9 @@
-import { and, desc, eq, isNull, sql } from 'drizzle-orm';
+import { and, desc, eq, isNull } from 'drizzle-orm';
 import { DateTime } from 'luxon';
 
 import {
   bookingActionTokens,
+  bookingPayments,
   bookings,
   teamBookingAssignments,
   teamEventTypes,
@@ -15,7 +16,13 @@ import {
   createBookingActionTokenSet,
 } from '../lib/booking';
 import { evaluateBookingActionToken, parseBookingMetadata } from '../lib/booking-actions';
-import { hashActionToken, lockActionToken, lockBooking } from './booking-action-links';
+import {
+  hashActionToken,
+  lockActionToken,
+  lockBooking,
+  lockEventTypeProfile,
+  lockOrganizerProfile,
+} from './booking-action-links';
 import { buildReschedulePlan } from './booking-reschedule-plan';
 import { consumeDemoFeatureCredits, isLaunchDemoBookingContext } from './demo-quota';
 import { isUniqueViolation } from './database';
@@ -28,6 +35,7 @@ import type {
   DatabaseTransaction,
   DemoQuotaDb,
   EventTypeProfile,
+  LockedActionToken,
   LockedBooking,
   OrganizerProfile,
 } from './types';
@@ -37,11 +45,10 @@ import {
   LaunchDemoAuthError,
 } from './types';
 
-type RescheduleInput = {
-  token: string;
-  startsAt: string;
-  timezone: string;
-};
+type RescheduleInput = { startsAt: string } & (
+  | { token: string; timezone: string }
+  | { bookingId: string; organizerUserId: string; timezone?: string | undefined }
+);
 
 type RescheduleResult = {
   oldBooking: LockedBooking;
@@ -123,50 +130,25 @@ export const rescheduleBooking = async (
 
   return db.transaction(async (transaction) => {
     const now = new Date();
-    const token = await lockActionToken(transaction, hashActionToken(input.token));
-    if (!token || token.actionType !== 'reschedule') {
-      throw new BookingActionNotFoundError('Action link is invalid or expired.');
+    let token: LockedActionToken | null = null;
+    let bookingId: string;
+    if ('token' in input) {
+      token = await lockActionToken(transaction, hashActionToken(input.token));
+      if (!token || token.actionType !== 'reschedule') {
+        throw new BookingActionNotFoundError('Action link is invalid or expired.');
+      }
+      bookingId = token.bookingId;
+    } else {
+      bookingId = input.bookingId;
     }
 
-    const booking = await lockBooking(transaction, token.bookingId);
-    if (!booking) {
+    const booking = await lockBooking(transaction, bookingId);
+    if (!booking || ('organizerUserId' in input && booking.organizerId !== input.organizerUserId)) {
       throw new BookingActionNotFoundError('Booking not found.');
     }
 
-    const eventTypeResult = await transaction.execute<EventTypeProfile>(sql`
-      select
-        et.id,
-        et.user_id as "userId",
-        et.slug,
-        et.name,
-        et.duration_minutes as "durationMinutes",
-        et.daily_booking_limit as "dailyBookingLimit",
-        et.weekly_booking_limit as "weeklyBookingLimit",
-        et.monthly_booking_limit as "monthlyBookingLimit",
-        et.location_type as "locationType",
-        et.location_value as "locationValue",
-        et.is_active as "isActive",
-        owner.timezone as "organizerTimezone"
-      from event_types et
-      inner join users owner on owner.id = et.user_id
-      where et.id = ${booking.eventTypeId}
-      for update
-    `);
-    const organizerResult = await transaction.execute<OrganizerProfile>(sql`
-      select
-        id,
-        email,
-        username,
-        display_name as "displayName",
-        timezone,
-        onboarding_completed as "onboardingCompleted"
-      from users
-      where id = ${booking.organizerId}
-      for update
-    `);
-
-    const eventType = eventTypeResult.rows[0];
-    const organizer = organizerResult.rows[0];
+    const eventType = await lockEventTypeProfile(transaction, booking.eventTypeId);
+    const organizer = await lockOrganizerProfile(transaction, booking.organizerId);
     if (!eventType || !organizer || !eventType.isActive) {
       throw new BookingActionNotFoundError('Booking context not found.');
     }
@@ -180,14 +162,18 @@ export const rescheduleBooking = async (
       throw new LaunchDemoAuthError('Sign in to access the launch demo.');
     }
 
-    const tokenState = evaluateBookingActionToken({
-      actionType: token.actionType,
-      bookingStatus: booking.status,
-      expiresAt: token.expiresAt,
-      consumedAt: token.consumedAt,
-      now,
-    });
-    if (tokenState === 'idempotent-replay') {
+    // Organizer-initiated reschedules have no action token, so they never replay and only need a
+    // confirmed booking.
+    const tokenState = token
+      ? evaluateBookingActionToken({
+          actionType: token.actionType,
+          bookingStatus: booking.status,
+          expiresAt: token.expiresAt,
+          consumedAt: token.consumedAt,
+          now,
+        })
+      : 'usable';
+    if (token && tokenState === 'idempotent-replay') {
       const replayBooking = await selectReplayBooking(transaction, {
         consumedBookingId: token.consumedBookingId,
         bookingId: booking.id,
@@ -213,14 +199,14 @@ export const rescheduleBooking = async (
       throw new BookingActionGoneError('Booking is not reschedulable.');
     }
 
-    const { metadata, nextOrganizerId, requestedEndsAt, teamAssignmentWrite } = await buildReschedulePlan(
+    const { metadata, nextOrganizerId, requestedEndsAt, seatNumber, teamAssignmentWrite } = await buildReschedulePlan(
       transaction,
       {
         booking,
         eventType,
         organizer,
         startsAt,
-        timezone: input.timezone,
+        timezone: input.timezone ?? existingMetadata.timezone ?? normalizeTimezone(organizer.timezone),
         requestedStartsAtIso,
         existingMetadata,
       },
@@ -248,6 +234,7 @@ export const rescheduleBooking = async (
           startsAt: startsAt.toJSDate(),
           endsAt: requestedEndsAt.toJSDate(),
           status: 'confirmed',
+          seatNumber,
           rescheduledFromBookingId: booking.id,
           metadata,
         })
@@ -272,6 +259,11 @@ export const rescheduleBooking = async (
     }
 
     await transaction.update(bookings).set({ status: 'rescheduled' }).where(eq(bookings.id, booking.id));
+    // The payment follows the meeting so a later cancellation can still refund it.
+    await transaction
+      .update(bookingPayments)
+      .set({ bookingId: insertedBooking.id, updatedAt: now })
+      .where(eq(bookingPayments.bookingId, booking.id));
 
     const tokenSet = createBookingActionTokenSet(now);
     await transaction.insert(bookingActionTokens).values(
@@ -6,6 +6,7 @@ const {
   sendBookingConfirmationEmailMock,
   sendBookingCancellationEmailMock,
   sendBookingRescheduledEmailMock,
+  tryBuildBookingCalendarInviteMock,
   tryRecordEmailDeliveryMock,
 } = vi.hoisted(() => ({
   enqueueCalendarWritebacksForBookingMock: vi.fn(),
@@ -13,6 +14,7 @@ const {
   sendBookingConfirmationEmailMock: vi.fn(),
   sendBookingCancellationEmailMock: vi.fn(),
   sendBookingRescheduledEmailMock: vi.fn(),
+  tryBuildBookingCalendarInviteMock: vi.fn(),
   tryRecordEmailDeliveryMock: vi.fn(),
 }));
 
@@ -20,7 +22,7 @@ vi.mock('./calendar-writeback-queue', () => ({
   enqueueCalendarWritebacksForBooking: enqueueCalendarWritebacksForBookingMock,
 }));
 
-vi.mock('./webhook-deliveries', () => ({
+vi.mock('./webhook-events', () => ({
   enqueueWebhookDeliveries: enqueueWebhookDeliveriesMock,
 }));
 
@@ -30,6 +32,10 @@ vi.mock('../lib/email', () => ({
   sendBookingRescheduledEmail: sendBookingRescheduledEmailMock,
 }));
 
+vi.mock('./booking-calendar-invite', () => ({
+  tryBuildBookingCalendarInvite: tryBuildBookingCalendarInviteMock,
+}));
+
 vi.mock('./telemetry', () => ({
   tryRecordAnalyticsFunnelEvent: vi.fn(),
   tryRecordEmailDelivery: tryRecordEmailDeliveryMock,
@@ -187,10 +193,17 @@ describe('sendBookingRescheduleEmailSideEffects', () => {
       provider: 'resend',
       messageId: 'message-1',
     });
+    tryBuildBookingCalendarInviteMock.mockResolvedValue({
+      uid: 'booking-booking-root@opencalendly.com',
+      sequence: 2,
+      endsAt: '2026-03-05T17:30:00.000Z',
+      organizerEmail: 'organizer@example.com',
+    });
   });
 
   it('keeps the existing invitee and organizer email pair when the organizer stays the same', async () => {
-    const result = await sendBookingRescheduleEmailSideEffects({} as never, {} as never, {
+    const env = { APP_BASE_URL: 'https://cal.example.com' };
+    const result = await sendBookingRescheduleEmailSideEffects(env as never, {} as never, {
       oldBooking: {
         id: 'booking-old',
         eventTypeId: 'event-1',
@@ -219,6 +232,21 @@ describe('sendBookingRescheduleEmailSideEffects', () => {
 
     expect(result).toHaveLength(2);
     expect(sendBookingRescheduledEmailMock).toHaveBeenCalledTimes(2);
+    expect(tryBuildBookingCalendarInviteMock).toHaveBeenCalledWith(expect.anything(), {
+      bookingId: 'booking-new',
+      endsAt: new Date('2026-03-05T17:30:00.000Z'),
+      organizerEmail: 'organizer@example.com',
+      uidDomain: 'cal.example.com',
+    });
+    expect(sendBookingRescheduledEmailMock).toHaveBeenNthCalledWith(
+      1,
+      expect.anything(),
+      expect.objectContaining({
+        recipientRole: 'invitee',
+        calendarInvite: expect.objectContaining({ uid: 'booking-booking-root@opencalendly.com', sequence: 2 }),
+      }),
+    );
+    expect(sendBookingRescheduledEmailMock.mock.calls[1]?.[1]).not.toHaveProperty('calendarInvite');
     expect(tryRecordEmailDeliveryMock).toHaveBeenCalledTimes(2);
     expect(tryRecordEmailDeliveryMock).toHaveBeenNthCalledWith(
       2,
@@ -1,12 +1,17 @@
+import { buildBookingInviteUid } from '../lib/calendar-invite';
 import {
   sendBookingCancellationEmail,
   sendBookingConfirmationEmail,
 } from '../lib/email';
+import { sendWaitlistOfferEmail } from '../lib/waitlist-email';
+import { tryBuildBookingCalendarInvite } from './booking-calendar-invite';
 import {
   emptyWritebackResult,
   queueCalendarWriteback,
 } from './booking-writeback-summary';
-import { enqueueWebhookDeliveries } from './webhook-deliveries';
+import { resolveIcsUidDomain } from './env';
+import { offerFreedSlotToWaitlist, type SlotWaitlistOffer } from './slot-waitlist';
+import { enqueueWebhookDeliveries } from './webhook-events';
 import { tryRecordAnalyticsFunnelEvent, tryRecordEmailDelivery } from './telemetry';
 import type { Bindings, Database } from './types';
 
@@ -59,6 +64,8 @@ export const queueBookingCreatedSideEffects = async (
     actionUrls: ActionUrls;
     webhookMetadata?: Record<string, unknown>;
     analytics?: { teamEventTypeId?: string | null };
+    // Approved requests confirm the booking like a fresh one but announce it as an approval.
+    webhookType?: 'booking.created' | 'booking.approved';
   },
 ) => {
   await tryRecordAnalyticsFunnelEvent(db, {
@@ -71,7 +78,7 @@ export const queueBookingCreatedSideEffects = async (
 
   const queuedWebhookDeliveries = await enqueueWebhookDeliveries(db, {
     organizerId: input.booking.organizerId,
-    type: 'booking.created',
+    type: input.webhookType ?? 'booking.created',
     booking: {
       id: input.booking.id,
       eventTypeId: input.booking.eventTypeId,
@@ -105,8 +112,10 @@ export const sendBookingCreatedEmailSideEffects = async (
     booking: BookingRecord;
     eventType: EventTypeRecord;
     organizerDisplayName: string;
+    organizerEmail: string;
     timezone: string;
     actionUrls: ActionUrls;
+    approvedRequest?: boolean;
   },
 ) => {
   const email = await sendBookingConfirmationEmail(env, {
@@ -120,7 +129,15 @@ export const sendBookingCreatedEmailSideEffects = async (
     locationValue: input.eventType.locationValue,
     cancelLink: input.actionUrls.cancelPageUrl,
     rescheduleLink: input.actionUrls.reschedulePageUrl,
-    idempotencyKey: `booking-confirmation:${input.booking.id}`,
+    // Fresh bookings start their own reschedule chain, so no lookup is needed for the UID.
+    calendarInvite: {
+      uid: buildBookingInviteUid(input.booking.id, resolveIcsUidDomain(env)),
+      sequence: 0,
+      endsAt: input.booking.endsAt.toISOString(),
+      organizerEmail: input.organizerEmail,
+    },
+    idempotencyKey: `${input.approvedRequest ? 'booking-approved' : 'booking-confirmation'}:${input.booking.id}`,
+    ...(input.approvedRequest ? { approvedRequest: true } : {}),
   });
 
   await tryRecordEmailDelivery(env, db, {
@@ -128,7 +145,7 @@ export const sendBookingCreatedEmailSideEffects = async (
     bookingId: input.booking.id,
     eventTypeId: input.booking.eventTypeId,
     recipientEmail: input.booking.inviteeEmail,
-    emailType: 'booking_confirmation',
+    emailType: input.approvedRequest ? 'booking_approved' : 'booking_confirmation',
     provider: email.provider,
     status: email.sent ? 'succeeded' : 'failed',
     ...(email.messageId ? { providerMessageId: email.messageId } : {}),
@@ -144,6 +161,8 @@ export const queueBookingCancellationSideEffects = async (
     booking: BookingRecord & { status: string };
     cancellationReason?: string | null;
     alreadyProcessed: boolean;
+    // Off when the whole event type is going away, so nobody is offered a slot they cannot book.
+    offerFreedSlot?: boolean;
   },
 ) => {
   const queuedWebhookDeliveries = input.alreadyProcessed
@@ -172,9 +191,46 @@ export const queueBookingCancellationSideEffects = async (
           organizerId: input.booking.organizerId,
           operation: 'cancel',
         }),
+    waitlistOffer:
+      input.alreadyProcessed || input.offerFreedSlot === false
+        ? null
+        : await offerFreedSlotToWaitlist(db, { booking: input.booking, now: new Date() }),
   };
 };
 
+export const sendWaitlistOfferEmailSideEffects = async (
+  env: Bindings,
+  db: Database,
+  input: { offer: SlotWaitlistOffer; claimLink: string },
+) => {
+  const { offer } = input;
+  const email = await sendWaitlistOfferEmail(env, {
+    inviteeEmail: offer.inviteeEmail,
+    inviteeName: offer.inviteeName,
+    organizerDisplayName: offer.organizerDisplayName,
+    eventName: offer.eventName,
+    startsAt: offer.startsAt.toISOString(),
+    expiresAt: offer.expiresAt.toISOString(),
+    timezone: offer.timezone,
+    claimLink: input.claimLink,
+    idempotencyKey: `waitlist-offer:${offer.entryId}:${offer.freedBookingId}`,
+  });
+
+  await tryRecordEmailDelivery(env, db, {
+    organizerId: offer.organizerId,
+    bookingId: offer.freedBookingId,
+    eventTypeId: offer.eventTypeId,
+    recipientEmail: offer.inviteeEmail,
+    emailType: 'waitlist_offer',
+    provider: email.provider,
+    status: email.sent ? 'succeeded' : 'failed',
+    ...(email.messageId ? { providerMessageId: email.messageId } : {}),
+    ...(email.error ? { error: email.error } : {}),
+  });
+
+  return email;
+};
+
 export const sendBookingCancellationEmailSideEffects = async (
   env: Bindings,
   db: Database,
@@ -184,6 +240,8 @@ export const sendBookingCancellationEmailSideEffects = async (
     organizer: { email: string; displayName: string };
     timezone: string;
     cancellationReason?: string | null;
+    canceledBy?: 'invitee' | 'organizer';
+    rebookLink?: string;
     alreadyProcessed: boolean;
   },
 ) => {
@@ -191,6 +249,13 @@ export const sendBookingCancellationEmailSideEffects = async (
     return buildSkippedEmailResults('Idempotent replay: cancellation already processed.');
   }
 
+  const calendarInvite = await tryBuildBookingCalendarInvite(db, {
+    bookingId: input.booking.id,
+    endsAt: input.booking.endsAt,
+    organizerEmail: input.organizer.email,
+    uidDomain: resolveIcsUidDomain(env),
+    sequenceOffset: 1,
+  });
   const email = await Promise.all([
     sendBookingCancellationEmail(env, {
       recipientEmail: input.booking.inviteeEmail,
@@ -201,6 +266,9 @@ export const sendBookingCancellationEmailSideEffects = async (
       startsAt: input.booking.startsAt.toISOString(),
       timezone: input.timezone,
       cancellationReason: input.cancellationReason ?? null,
+      ...(input.canceledBy ? { canceledBy: input.canceledBy } : {}),
+      ...(input.rebookLink ? { rebookLink: input.rebookLink } : {}),
+      ...(calendarInvite ? { calendarInvite } : {}),
       idempotencyKey: `booking-cancel:${input.booking.id}:invitee`,
     }),
     sendBookingCancellationEmail(env, {
@@ -212,6 +280,7 @@ export const sendBookingCancellationEmailSideEffects = async (
       startsAt: input.booking.startsAt.toISOString(),
       timezone: input.timezone,
       cancellationReason: input.cancellationReason ?? null,
+      ...(input.canceledBy ? { canceledBy: input.canceledBy } : {}),
       idempotencyKey: `booking-cancel:${input.booking.id}:organizer`,
     }),
   ]);
@@ -0,0 +1,249 @@
+import { and, eq, gt, isNull, lt, sql } from 'drizzle-orm';
+
+import { calendarBusyWindows, calendarConnections } from '@opencalendly/db';
+
+import { encryptSecret } from '../lib/calendar-crypto';
+import {
+  resolveCaldavCredentials,
+  resolveCaldavSyncRange,
+  resolveGoogleAccessToken,
+  resolveGoogleSyncRange,
+  resolveMicrosoftAccessToken,
+  resolveMicrosoftSyncRange,
+  syncCaldavBusyWindows,
+  syncGoogleBusyWindows,
+  syncMicrosoftBusyWindows,
+} from '../lib/calendar-sync';
+import { logInternalError } from './core';
+import {
+  CALDAV_CALENDAR_PROVIDER,
+  CALENDAR_SYNC_NEXT_MINUTES,
+  GOOGLE_CALENDAR_PROVIDER,
+  resolveCaldavTargetOptions,
+  resolveGoogleOAuthConfig,
+  resolveMicrosoftOAuthConfig,
+} from './env';
+import type { Bindings, CalendarProvider, Database } from './types';
+import { enqueueWebhookEventV2 } from './webhook-events';
+
+type BusyWindow = { startsAt: Date; endsAt: Date };
+
+export type SyncableCalendarConnection = {
+  id: string;
+  userId: string;
+  provider: CalendarProvider;
+  externalEmail: string | null;
+  accessTokenEncrypted: string;
+  refreshTokenEncrypted: string;
+  accessTokenExpiresAt: Date;
+  caldavCalendarUrl: string | null;
+};
+
+export type CalendarConnectionSyncResult =
+  | { ok: true; busyWindowCount: number }
+  | { ok: false; error: string };
+
+type ProviderBusyWindowResult = {
+  range: { startIso: string; endIso: string };
+  busyWindows: BusyWindow[];
+  credentialUpdate: {
+    accessTokenEncrypted: string;
+    refreshTokenEncrypted: string;
+    accessTokenExpiresAt: Date;
+  } | null;
+};
+
+export const toCalendarProviderLabel = (provider: CalendarProvider): string => {
+  if (provider === GOOGLE_CALENDAR_PROVIDER) {
+    return 'Google';
+  }
+  return provider === CALDAV_CALENDAR_PROVIDER ? 'CalDAV' : 'Microsoft';
+};
+
+const dedupeBusyWindows = (busyWindows: BusyWindow[]) => {
+  return Array.from(
+    busyWindows.reduce((map, window) => {
+      map.set(`${window.startsAt.toISOString()}|${window.endsAt.toISOString()}`, window);
+      return map;
+    }, new Map<string, BusyWindow>()).values(),
+  );
+};
+
+const fetchProviderBusyWindows = async (
+  env: Bindings,
+  input: {
+    connection: SyncableCalendarConnection;
+    encryptionSecret: string;
+    scheduleSmtpFallback: string;
+    start?: string;
+    end?: string;
+    now: Date;
+  },
+): Promise<ProviderBusyWindowResult> => {
+  const { connection, encryptionSecret, now } = input;
+
+  if (connection.provider === CALDAV_CALENDAR_PROVIDER) {
+    if (!connection.caldavCalendarUrl) {
+      throw new Error('CalDAV calendar URL is missing.');
+    }
+    const range = resolveCaldavSyncRange(now, input.start, input.end);
+    const busyWindows = await syncCaldavBusyWindows({
+      calendarUrl: connection.caldavCalendarUrl,
+      credentials: resolveCaldavCredentials({ connection, encryptionSecret }),
+      startIso: range.startIso,
+      endIso: range.endIso,
+      ...resolveCaldavTargetOptions(env),
+    });
+    return { range, busyWindows, credentialUpdate: null };
+  }
+
+  if (connection.provider === GOOGLE_CALENDAR_PROVIDER) {
+    const googleConfig = resolveGoogleOAuthConfig(env);
+    if (!googleConfig) {
+      throw new Error('Google OAuth is not configured.');
+    }
+    const range = resolveGoogleSyncRange(now, input.start, input.end);
+    const token = await resolveGoogleAccessToken({
+      connection,
+      encryptionSecret,
+      clientId: googleConfig.clientId,
+      clientSecret: googleConfig.clientSecret,
+      now,
+    });
+    const busyWindows = await syncGoogleBusyWindows({
+      accessToken: token.accessToken,
+      startIso: range.startIso,
+      endIso: range.endIso,
+    });
+    return {
+      range,
+      busyWindows,
+      credentialUpdate: {
+        accessTokenEncrypted: encryptSecret(token.accessToken, encryptionSecret),
+        refreshTokenEncrypted: encryptSecret(token.refreshToken, encryptionSecret),
+        accessTokenExpiresAt: token.accessTokenExpiresAt,
+      },
+    };
+  }
+
+  const microsoftConfig = resolveMicrosoftOAuthConfig(env);
+  if (!microsoftConfig) {
+    throw new Error('Microsoft OAuth is not configured.');
+  }
+  const range = resolveMicrosoftSyncRange(now, input.start, input.end);
+  const token = await resolveMicrosoftAccessToken({
+    connection,
+    encryptionSecret,
+    clientId: microsoftConfig.clientId,
+    clientSecret: microsoftConfig.clientSecret,
+    now,
+  });
+  const busyWindows = await syncMicrosoftBusyWindows({
+    accessToken: token.accessToken,
+    scheduleSmtp: connection.externalEmail ?? input.scheduleSmtpFallback,
+    startIso: range.startIso,
+    endIso: range.endIso,
+  });
+  return {
+    range,
+    busyWindows,
+    credentialUpdate: {
+      accessTokenEncrypted: encryptSecret(token.accessToken, encryptionSecret),
+      refreshTokenEncrypted: encryptSecret(token.refreshToken, encryptionSecret),
+      accessTokenExpiresAt: token.accessTokenExpiresAt,
+    },
+  };
+};
+
+// Replaces the connection's busy windows inside the synced range. Failures are recorded on the
+// connection (`lastError`, next retry) instead of thrown so callers can report them uniformly.
+export const syncCalendarConnection = async (
+  db: Database,
+  env: Bindings,
+  input: {
+    connection: SyncableCalendarConnection;
+    encryptionSecret: string;
+    scheduleSmtpFallback: string;
+    start?: string;
+    end?: string;
+    now: Date;
+  },
+): Promise<CalendarConnectionSyncResult> => {
+  const { connection, now } = input;
+  const nextSyncAt = new Date(now.getTime() + CALENDAR_SYNC_NEXT_MINUTES * 60_000);
+
+  try {
+    const result = await fetchProviderBusyWindows(env, input);
+    const dedupedBusyWindows = dedupeBusyWindows(result.busyWindows);
+
+    await db.transaction(async (transaction) => {
+      await transaction.execute(sql`select id from users where id = ${connection.userId} for update`);
+      await transaction
+        .delete(calendarBusyWindows)
+        .where(
+          and(
+            eq(calendarBusyWindows.connectionId, connection.id),
+            lt(calendarBusyWindows.startsAt, new Date(result.range.endIso)),
+            gt(calendarBusyWindows.endsAt, new Date(result.range.startIso)),
+          ),
+        );
+
+      if (dedupedBusyWindows.length > 0) {
+        await transaction.insert(calendarBusyWindows).values(
+          dedupedBusyWindows.map((window) => ({
+            connectionId: connection.id,
+            userId: connection.userId,
+            provider: connection.provider,
+            startsAt: window.startsAt,
+            endsAt: window.endsAt,
+          })),
+        );
+      }
+
+      await transaction
+        .update(calendarConnections)
+        .set({
+          ...(result.credentialUpdate ?? {}),
+          lastSyncedAt: now,
+          nextSyncAt,
+          lastError: null,
+          updatedAt: now,
+        })
+        .where(eq(calendarConnections.id, connection.id));
+    });
+
+    return { ok: true, busyWindowCount: dedupedBusyWindows.length };
+  } catch (error) {
+    logInternalError('calendar_connection_sync_failed', error);
+    const message = `${toCalendarProviderLabel(connection.provider)} calendar sync failed.`;
+    // Only a healthy connection going bad is worth a webhook; repeated failures stay quiet.
+    const [newlyFailing] = await db
+      .update(calendarConnections)
+      .set({ lastError: message, nextSyncAt, updatedAt: now })
+      .where(and(eq(calendarConnections.id, connection.id), isNull(calendarConnections.lastError)))
+      .returning({ id: calendarConnections.id });
+    if (!newlyFailing) {
+      await db
+        .update(calendarConnections)
+        .set({ lastError: message, nextSyncAt, updatedAt: now })
+        .where(eq(calendarConnections.id, connection.id));
+      return { ok: false, error: message };
+    }
+
+    await enqueueWebhookEventV2(db, {
+      organizerId: connection.userId,
+      type: 'calendar.connection_error',
+      payload: {
+        calendarConnection: {
+          id: connection.id,
+          userId: connection.userId,
+          provider: connection.provider,
+          externalEmail: connection.externalEmail,
+          error: message,
+          nextSyncAt: nextSyncAt.toISOString(),
+        },
+      },
+    }).catch((webhookError) => logInternalError('calendar_connection_error_webhook_failed', webhookError));
+    return { ok: false, error: message };
+  }
+};
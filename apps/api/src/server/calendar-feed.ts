@@ -0,0 +1,106 @@
+import { and, asc, eq, exists, gt, lt, or } from 'drizzle-orm';
+
+import {
+  bookings,
+  calendarFeedTokens,
+  eventTypes,
+  teamBookingAssignments,
+  teamEventTypes,
+  teams,
+  users,
+} from '@opencalendly/db';
+
+import { buildBookingInviteUid } from '../lib/calendar-invite';
+import {
+  CALENDAR_FEED_MAX_EVENTS,
+  resolveCalendarFeedWindow,
+  type CalendarFeedBooking,
+} from '../lib/calendar-feed';
+import { resolveBookingInviteIdentities } from './booking-calendar-invite';
+import type { Database } from './types';
+
+export type CalendarFeedOwner = {
+  userId: string;
+  displayName: string;
+  timezone: string;
+};
+
+export const findCalendarFeedOwner = async (
+  db: Pick<Database, 'select'>,
+  tokenHash: string,
+): Promise<CalendarFeedOwner | null> => {
+  const [owner] = await db
+    .select({
+      userId: users.id,
+      displayName: users.displayName,
+      timezone: users.timezone,
+    })
+    .from(calendarFeedTokens)
+    .innerJoin(users, eq(users.id, calendarFeedTokens.userId))
+    .where(eq(calendarFeedTokens.tokenHash, tokenHash))
+    .limit(1);
+
+  return owner ?? null;
+};
+
+// Covers bookings the user organizes plus team bookings they were assigned to, so round-robin and
+// collective hosts see the same schedule the conflict checks use.
+export const listCalendarFeedBookings = async (
+  db: Pick<Database, 'select' | 'execute'>,
+  input: { userId: string; now: Date; uidDomain: string },
+): Promise<CalendarFeedBooking[]> => {
+  const window = resolveCalendarFeedWindow(input.now);
+
+  const rows = await db
+    .select({
+      bookingId: bookings.id,
+      eventName: eventTypes.name,
+      startsAt: bookings.startsAt,
+      endsAt: bookings.endsAt,
+      inviteeName: bookings.inviteeName,
+      inviteeEmail: bookings.inviteeEmail,
+      locationValue: eventTypes.locationValue,
+      teamName: teams.name,
+    })
+    .from(bookings)
+    .innerJoin(eventTypes, eq(eventTypes.id, bookings.eventTypeId))
+    .leftJoin(teamEventTypes, eq(teamEventTypes.eventTypeId, bookings.eventTypeId))
+    .leftJoin(teams, eq(teams.id, teamEventTypes.teamId))
+    .where(
+      and(
+        eq(bookings.status, 'confirmed'),
+        lt(bookings.startsAt, window.endsAt),
+        gt(bookings.endsAt, window.startsAt),
+        or(
+          eq(bookings.organizerId, input.userId),
+          exists(
+            db
+              .select({ id: teamBookingAssignments.id })
+              .from(teamBookingAssignments)
+              .where(
+                and(
+                  eq(teamBookingAssignments.bookingId, bookings.id),
+                  eq(teamBookingAssignments.userId, input.userId),
+                ),
+              ),
+          ),
+        ),
+      ),
+    )
+    .orderBy(asc(bookings.startsAt))
+    .limit(CALENDAR_FEED_MAX_EVENTS);
+
+  const identities = await resolveBookingInviteIdentities(
+    db,
+    rows.map((row) => row.bookingId),
+    input.uidDomain,
+  );
+  return rows.map((row) => {
+    const identity = identities.get(row.bookingId);
+    return {
+      ...row,
+      inviteUid: identity?.uid ?? buildBookingInviteUid(row.bookingId, input.uidDomain),
+      inviteSequence: identity?.sequence ?? 0,
+    };
+  });
+};
@@ -63,6 +63,9 @@ describe('calendar-writeback-provider', () => {
       connectionAccessTokenEncrypted: encryptSecret('stale-access-token', encryptionSecret),
       connectionRefreshTokenEncrypted: encryptSecret('stale-refresh-token', encryptionSecret),
       connectionAccessTokenExpiresAt: new Date('2026-03-10T07:59:00.000Z'),
+      connectionCaldavCalendarUrl: null,
+      caldavTargetOptions: { allowLocalHttp: false },
+      icsUidDomain: 'opencalendly.com',
       encryptionSecret,
       googleConfig: {
         clientId: 'google-client-id',
@@ -7,9 +7,17 @@ import type {
 } from './env';
 import { calendarConnections } from '@opencalendly/db';
 
+import {
+  cancelCaldavCalendarEvent,
+  createCaldavCalendarEvent,
+  findCaldavCalendarEventByIdempotencyKey,
+  updateCaldavCalendarEvent,
+} from '../lib/caldav-calendar';
+import type { CaldavTargetOptions } from '../lib/caldav-shared';
 import { encryptSecret } from '../lib/calendar-crypto';
 import {
   type CalendarConnectionSecretState,
+  resolveCaldavCredentials,
   resolveGoogleAccessToken,
   resolveMicrosoftAccessToken,
 } from '../lib/calendar-sync';
@@ -26,6 +34,7 @@ import {
   updateMicrosoftCalendarEvent,
 } from '../lib/microsoft-calendar';
 import {
+  CALDAV_CALENDAR_PROVIDER,
   GOOGLE_CALENDAR_PROVIDER,
 } from './env';
 import type { CalendarProvider, Database } from './types';
@@ -39,11 +48,70 @@ type ProviderClientInput = {
   connectionAccessTokenEncrypted: string;
   connectionRefreshTokenEncrypted: string;
   connectionAccessTokenExpiresAt: Date;
+  connectionCaldavCalendarUrl: string | null;
+  caldavTargetOptions: CaldavTargetOptions;
+  icsUidDomain: string;
   encryptionSecret: string;
   googleConfig: ReturnType<typeof resolveGoogleOAuthConfig>;
   microsoftConfig: ReturnType<typeof resolveMicrosoftOAuthConfig>;
 };
 
+const buildCaldavWritebackProviderClient = (input: {
+  connectionAccessTokenEncrypted: string;
+  connectionCaldavCalendarUrl: string | null;
+  caldavTargetOptions: CaldavTargetOptions;
+  icsUidDomain: string;
+  encryptionSecret: string;
+}): CalendarWritebackProviderClient => {
+  const resolveConnection = () => {
+    if (!input.connectionCaldavCalendarUrl) {
+      throw new Error('CalDAV calendar URL is missing for calendar writeback.');
+    }
+    return {
+      ...input.caldavTargetOptions,
+      calendarUrl: input.connectionCaldavCalendarUrl,
+      credentials: resolveCaldavCredentials({
+        connection: { accessTokenEncrypted: input.connectionAccessTokenEncrypted },
+        encryptionSecret: input.encryptionSecret,
+      }),
+    };
+  };
+
+  return {
+    createEvent: async (bookingContext) => {
+      return createCaldavCalendarEvent({
+        ...resolveConnection(),
+        idempotencyKey: bookingContext.idempotencyKey,
+        uidDomain: input.icsUidDomain,
+        eventName: bookingContext.eventName,
+        inviteeName: bookingContext.inviteeName,
+        inviteeEmail: bookingContext.inviteeEmail,
+        startsAtIso: bookingContext.startsAtIso,
+        endsAtIso: bookingContext.endsAtIso,
+        locationValue: bookingContext.locationValue,
+        ...(bookingContext.optionalAttendees ? { optionalAttendees: bookingContext.optionalAttendees } : {}),
+      });
+    },
+    findEventByIdempotencyKey: async ({ idempotencyKey }) => {
+      return findCaldavCalendarEventByIdempotencyKey({ ...resolveConnection(), idempotencyKey });
+    },
+    cancelEvent: async ({ externalEventId }) => {
+      await cancelCaldavCalendarEvent({
+        ...input.caldavTargetOptions,
+        credentials: resolveConnection().credentials,
+        externalEventId,
+      });
+    },
+    updateEvent: async (updateInput) => {
+      await updateCaldavCalendarEvent({
+        ...input.caldavTargetOptions,
+        credentials: resolveConnection().credentials,
+        ...updateInput,
+      });
+    },
+  };
+};
+
 export const buildCalendarWritebackProviderClient = ({
   db,
   now,
@@ -53,10 +121,23 @@ export const buildCalendarWritebackProviderClient = ({
   connectionAccessTokenEncrypted,
   connectionRefreshTokenEncrypted,
   connectionAccessTokenExpiresAt,
+  connectionCaldavCalendarUrl,
+  caldavTargetOptions,
+  icsUidDomain,
   encryptionSecret,
   googleConfig,
   microsoftConfig,
 }: ProviderClientInput): CalendarWritebackProviderClient => {
+  if (provider === CALDAV_CALENDAR_PROVIDER) {
+    return buildCaldavWritebackProviderClient({
+      connectionAccessTokenEncrypted,
+      connectionCaldavCalendarUrl,
+      caldavTargetOptions,
+      icsUidDomain,
+      encryptionSecret,
+    });
+  }
+
   let connectionTokenState: CalendarConnectionSecretState = {
     accessTokenEncrypted: connectionAccessTokenEncrypted,
     refreshTokenEncrypted: connectionRefreshTokenEncrypted,
@@ -134,6 +215,7 @@ export const buildCalendarWritebackProviderClient = ({
             startsAtIso: bookingContext.startsAtIso,
             endsAtIso: bookingContext.endsAtIso,
             locationValue: bookingContext.locationValue,
+            ...(bookingContext.optionalAttendees ? { optionalAttendees: bookingContext.optionalAttendees } : {}),
           });
     },
     findEventByIdempotencyKey: async ({ idempotencyKey }) => {
@@ -4,6 +4,7 @@ import { bookingExternalEvents, calendarConnections } from '@opencalendly/db';
 
 import {
   CALENDAR_WRITEBACK_DEFAULT_MAX_ATTEMPTS,
+  CALDAV_CALENDAR_PROVIDER,
   GOOGLE_CALENDAR_PROVIDER,
   MICROSOFT_CALENDAR_PROVIDER,
   toCalendarProvider,
@@ -100,7 +101,11 @@ export const enqueueCalendarWritebacksForBooking = async (
       and(
         eq(calendarConnections.userId, input.organizerId),
         eq(calendarConnections.useForWriteback, true),
-        inArray(calendarConnections.provider, [GOOGLE_CALENDAR_PROVIDER, MICROSOFT_CALENDAR_PROVIDER]),
+        inArray(calendarConnections.provider, [
+          GOOGLE_CALENDAR_PROVIDER,
+          MICROSOFT_CALENDAR_PROVIDER,
+          CALDAV_CALENDAR_PROVIDER,
+        ]),
       ),
     );
 
@@ -13,8 +13,10 @@ import { processCalendarWriteback } from '../lib/calendar-writeback';
 import { normalizeTimezone } from './core';
 import {
   CALENDAR_WRITEBACK_DEFAULT_MAX_ATTEMPTS,
+  resolveCaldavTargetOptions,
   resolveCalendarEncryptionSecret,
   resolveGoogleOAuthConfig,
+  resolveIcsUidDomain,
   resolveMicrosoftOAuthConfig,
   toCalendarProvider,
 } from './env';
@@ -75,6 +77,7 @@ export const runCalendarWritebackBatch = async (
       connectionAccessTokenEncrypted: calendarConnections.accessTokenEncrypted,
       connectionRefreshTokenEncrypted: calendarConnections.refreshTokenEncrypted,
       connectionAccessTokenExpiresAt: calendarConnections.accessTokenExpiresAt,
+      connectionCaldavCalendarUrl: calendarConnections.caldavCalendarUrl,
     })
     .from(bookingExternalEvents)
     .innerJoin(bookings, eq(bookings.id, bookingExternalEvents.bookingId))
@@ -84,6 +87,23 @@ export const runCalendarWritebackBatch = async (
     .where(inArray(bookingExternalEvents.id, claimedRowIds))
     .orderBy(asc(bookingExternalEvents.updatedAt));
 
+  // Optional collective attendees are invited on the organizer's event alongside the invitee.
+  const metadataByRowId = new Map(
+    rows.map((row) => [row.id, parseBookingMetadata(row.bookingMetadata, normalizeTimezone)]),
+  );
+  const optionalAttendeeIds = Array.from(
+    new Set(Array.from(metadataByRowId.values()).flatMap((metadata) => metadata.team?.optionalAttendeeUserIds ?? [])),
+  );
+  const optionalAttendeeById = new Map(
+    (optionalAttendeeIds.length > 0
+      ? await db
+          .select({ id: users.id, name: users.displayName, email: users.email })
+          .from(users)
+          .where(inArray(users.id, optionalAttendeeIds))
+      : []
+    ).map((attendee) => [attendee.id, { name: attendee.name, email: attendee.email }]),
+  );
+
   const encryptionSecret = resolveCalendarEncryptionSecret(env);
   const googleConfig = resolveGoogleOAuthConfig(env);
   const microsoftConfig = resolveMicrosoftOAuthConfig(env);
@@ -94,9 +114,23 @@ export const runCalendarWritebackBatch = async (
     const provider = toCalendarProvider(row.provider);
     const operation = row.operation as CalendarWritebackOperation;
     const payload = parseCalendarWritebackPayload(row.payload);
-    const timezone =
-      parseBookingMetadata(row.bookingMetadata, normalizeTimezone).timezone ??
-      normalizeTimezone(row.organizerTimezone);
+    const metadata = metadataByRowId.get(row.id);
+    const timezone = metadata?.timezone ?? normalizeTimezone(row.organizerTimezone);
+    const optionalAttendees = (metadata?.team?.optionalAttendeeUserIds ?? []).flatMap((userId) => {
+      const attendee = optionalAttendeeById.get(userId);
+      return attendee ? [attendee] : [];
+    });
+    const booking = {
+      eventName: row.eventTypeName,
+      inviteeName: row.bookingInviteeName,
+      inviteeEmail: row.bookingInviteeEmail,
+      startsAtIso: row.bookingStartsAt.toISOString(),
+      endsAtIso: row.bookingEndsAt.toISOString(),
+      timezone,
+      locationType: row.eventTypeLocationType,
+      locationValue: row.eventTypeLocationValue,
+      ...(optionalAttendees.length > 0 ? { optionalAttendees } : {}),
+    };
 
     const applyResult = async (
       writebackResult: Awaited<ReturnType<typeof processCalendarWriteback>>,
@@ -219,16 +253,7 @@ export const runCalendarWritebackBatch = async (
             externalEventId: row.externalEventId,
             idempotencyKey: `${row.provider}:${row.bookingId}`,
           },
-          booking: {
-            eventName: row.eventTypeName,
-            inviteeName: row.bookingInviteeName,
-            inviteeEmail: row.bookingInviteeEmail,
-            startsAtIso: row.bookingStartsAt.toISOString(),
-            endsAtIso: row.bookingEndsAt.toISOString(),
-            timezone,
-            locationType: row.eventTypeLocationType,
-            locationValue: row.eventTypeLocationValue,
-          },
+          booking,
           ...(payload.rescheduleTarget ? { rescheduleTarget: payload.rescheduleTarget } : {}),
           providerClient: {
             createEvent: async () => {
@@ -256,6 +281,9 @@ export const runCalendarWritebackBatch = async (
       connectionAccessTokenEncrypted: row.connectionAccessTokenEncrypted,
       connectionRefreshTokenEncrypted: row.connectionRefreshTokenEncrypted,
       connectionAccessTokenExpiresAt: row.connectionAccessTokenExpiresAt,
+      connectionCaldavCalendarUrl: row.connectionCaldavCalendarUrl,
+      caldavTargetOptions: resolveCaldavTargetOptions(env),
+      icsUidDomain: resolveIcsUidDomain(env),
       encryptionSecret,
       googleConfig,
       microsoftConfig,
@@ -270,16 +298,7 @@ export const runCalendarWritebackBatch = async (
           externalEventId: row.externalEventId,
           idempotencyKey: `${row.provider}:${row.bookingId}`,
         },
-        booking: {
-          eventName: row.eventTypeName,
-          inviteeName: row.bookingInviteeName,
-          inviteeEmail: row.bookingInviteeEmail,
-          startsAtIso: row.bookingStartsAt.toISOString(),
-          endsAtIso: row.bookingEndsAt.toISOString(),
-          timezone,
-          locationType: row.eventTypeLocationType,
-          locationValue: row.eventTypeLocationValue,
-        },
+        booking,
         ...(payload.rescheduleTarget ? { rescheduleTarget: payload.rescheduleTarget } : {}),
         providerClient,
         now,
@@ -3,6 +3,7 @@ import { describe, expect, it } from 'vitest';
 import {
   resolveAppBaseUrl,
   resolveClerkAuthorizedParties,
+  resolveIcsUidDomain,
   resolveWebhookEncryptionSecret,
 } from './env';
 import type { Bindings } from './types';
@@ -32,6 +33,18 @@ describe('resolveAppBaseUrl', () => {
   });
 });
 
+describe('resolveIcsUidDomain', () => {
+  it('uses the host of the configured APP_BASE_URL', () => {
+    const bindings = createBindings({ APP_BASE_URL: 'https://cal.example.com:8443/app/' });
+
+    expect(resolveIcsUidDomain(bindings)).toBe('cal.example.com');
+  });
+
+  it('falls back to localhost when APP_BASE_URL is unset', () => {
+    expect(resolveIcsUidDomain(createBindings())).toBe('localhost');
+  });
+});
+
 describe('resolveWebhookEncryptionSecret', () => {
   it('prefers the dedicated webhook encryption key when configured', () => {
     const value = resolveWebhookEncryptionSecret(
@@ -1,4 +1,12 @@
-import type { Bindings, CalendarConnectionStatus, CalendarProvider, ConnectionConfig } from './types';
+import type { CaldavTargetOptions } from '../lib/caldav-shared';
+import { isDevAuthBootstrapEnabled } from '../lib/dev-auth';
+import type {
+  Bindings,
+  CalendarConnectionStatus,
+  CalendarProvider,
+  ConnectionConfig,
+  OAuthCalendarProvider,
+} from './types';
 
 const MIN_CALENDAR_SECRET_LENGTH = 32;
 const NEON_HOST_PATTERN = /\.neon\.tech(?::\d+)?(?:\/|$)/i;
@@ -7,8 +15,9 @@ export const WEBHOOK_DELIVERY_BATCH_LIMIT_DEFAULT = 25;
 export const WEBHOOK_DELIVERY_BATCH_LIMIT_MAX = 100;
 export const CALENDAR_OAUTH_STATE_TTL_MINUTES = 10;
 export const CALENDAR_SYNC_NEXT_MINUTES = 15;
-export const GOOGLE_CALENDAR_PROVIDER: CalendarProvider = 'google';
-export const MICROSOFT_CALENDAR_PROVIDER: CalendarProvider = 'microsoft';
+export const GOOGLE_CALENDAR_PROVIDER: OAuthCalendarProvider = 'google';
+export const MICROSOFT_CALENDAR_PROVIDER: OAuthCalendarProvider = 'microsoft';
+export const CALDAV_CALENDAR_PROVIDER: CalendarProvider = 'caldav';
 export const CALENDAR_WRITEBACK_DEFAULT_MAX_ATTEMPTS = 5;
 export const CALENDAR_WRITEBACK_BATCH_LIMIT_DEFAULT = 25;
 export const CALENDAR_WRITEBACK_BATCH_LIMIT_MAX = 100;
@@ -17,6 +26,15 @@ export const NOTIFICATION_RUN_BATCH_LIMIT_DEFAULT = 20;
 export const NOTIFICATION_RUN_BATCH_LIMIT_MAX = 100;
 export const NOTIFICATION_RUN_MAX_ATTEMPTS = 5;
 export const NOTIFICATION_RUN_LEASE_MINUTES = 3;
+export const SCHEDULED_TICK_TIME_BUDGET_MS = 20_000;
+export const SCHEDULED_TICK_ORGANIZER_LIMIT = 25;
+export const SCHEDULED_TICK_PER_ORGANIZER_LIMIT = 10;
+export const SCHEDULED_TICK_NOTIFICATION_BUDGET = 100;
+export const SCHEDULED_TICK_WEBHOOK_BUDGET = 50;
+export const SCHEDULED_TICK_WRITEBACK_BUDGET = 50;
+export const SCHEDULED_TICK_CALENDAR_SYNC_BUDGET = 10;
+export const TEAM_INVITATION_TTL_DAYS = 7;
+export const TEAM_INVITATION_RESEND_COOLDOWN_SECONDS = 60;
 export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
 export const IDEMPOTENCY_KEY_MIN_LENGTH = 16;
 export const IDEMPOTENCY_KEY_MAX_LENGTH = 200;
@@ -33,6 +51,10 @@ export const PUBLIC_BOOKING_RATE_LIMIT_MAX_BOOKING_REQUESTS_PER_SCOPE = 30;
 export const PUBLIC_BOOKING_RATE_LIMIT_MAX_REQUESTS_PER_IP = 180;
 export const CLERK_EXCHANGE_RATE_LIMIT_WINDOW_MS = 60_000;
 export const CLERK_EXCHANGE_RATE_LIMIT_MAX_REQUESTS_PER_IP = 40;
+export const PAYMENT_HOLD_MINUTES_DEFAULT = 30;
+export const PAYMENT_HOLD_MINUTES_MIN = 30;
+export const PAYMENT_HOLD_MINUTES_MAX = 24 * 60;
+export const PAYMENT_HOLD_EXPIRY_BATCH_LIMIT = 100;
 
 export const isNeonDatabaseUrl = (connectionString: string): boolean => {
   return NEON_HOST_PATTERN.test(connectionString);
@@ -64,6 +86,10 @@ export const resolveCalendarEncryptionSecret = (env: Bindings): string | null =>
   return !secret || secret.length < MIN_CALENDAR_SECRET_LENGTH ? null : secret;
 };
 
+export const resolveCaldavTargetOptions = (env: Bindings): CaldavTargetOptions => {
+  return { allowLocalHttp: isDevAuthBootstrapEnabled(env.ENABLE_DEV_AUTH_BOOTSTRAP) };
+};
+
 export const resolveWebhookEncryptionSecret = (env: Bindings): string | null => {
   const dedicated = env.WEBHOOK_SECRET_ENCRYPTION_KEY?.trim();
   if (dedicated) {
@@ -92,6 +118,26 @@ export const resolveMicrosoftOAuthConfig = (env: Bindings) => {
   return clientId && clientSecret ? { clientId, clientSecret } : null;
 };
 
+export const resolvePaymentProviderConfig = (
+  env: Bindings,
+): { provider: 'stripe'; secretKey: string; webhookSecret: string } | { provider: 'fake' } | null => {
+  const provider = env.PAYMENT_PROVIDER?.trim().toLowerCase();
+  if (provider === 'fake') {
+    // The fake provider confirms bookings without taking money, so it only runs next to dev auth.
+    return isDevAuthBootstrapEnabled(env.ENABLE_DEV_AUTH_BOOTSTRAP) ? { provider: 'fake' } : null;
+  }
+  const secretKey = env.STRIPE_SECRET_KEY?.trim();
+  const webhookSecret = env.STRIPE_WEBHOOK_SECRET?.trim();
+  return provider === 'stripe' && secretKey && webhookSecret ? { provider: 'stripe', secretKey, webhookSecret } : null;
+};
+
+export const resolvePaymentHoldMinutes = (env: Bindings): number => {
+  const parsed = env.PAYMENT_HOLD_MINUTES ? Number.parseInt(env.PAYMENT_HOLD_MINUTES, 10) : Number.NaN;
+  return Number.isFinite(parsed)
+    ? Math.max(PAYMENT_HOLD_MINUTES_MIN, Math.min(PAYMENT_HOLD_MINUTES_MAX, parsed))
+    : PAYMENT_HOLD_MINUTES_DEFAULT;
+};
+
 export const resolveClerkSecretKey = (env: Bindings): string | null => {
   const secretKey = env.CLERK_SECRET_KEY?.trim();
   return secretKey ? secretKey : null;
@@ -160,7 +206,7 @@ export const toCalendarConnectionStatus = (input: {
 };
 
 export const toCalendarProvider = (value: string): CalendarProvider | null => {
-  return value === 'google' || value === 'microsoft' ? value : null;
+  return value === 'google' || value === 'microsoft' || value === 'caldav' ? value : null;
 };
 
 export const clampWebhookDeliveryBatchLimit = (rawLimit: string | undefined): number => {
@@ -206,3 +252,17 @@ export const resolveAppBaseUrl = (env: Bindings, request: Request): string => {
   }
   throw new Error('APP_BASE_URL is required for non-local environments.');
 };
+
+// Calendar UIDs carry the deployment's own host so separate installs never share event identities.
+// Background writeback has no request to inspect, so an unset APP_BASE_URL means localhost.
+export const resolveIcsUidDomain = (env: Bindings): string => {
+  const configured = env.APP_BASE_URL?.trim();
+  if (configured) {
+    try {
+      return new URL(configured).hostname;
+    } catch {
+      throw new Error('APP_BASE_URL must be a valid absolute URL.');
+    }
+  }
+  return 'localhost';
+};
@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { eventTypes, notificationRules, teamEventTypeMembers, teamEventTypes } from '@opencalendly/db';
+
+vi.mock('./demo-quota', () => ({
+  consumeDemoFeatureCredits: vi.fn(),
+}));
+
+import { buildDuplicateName, duplicateEventType, pickDuplicateSlug } from './event-type-duplicate';
+import type { Bindings, Database } from './types';
+
+// Each select resolves to the next queued result, and each insert records its table and values.
+const createFakeDb = (selectResults: unknown[][], insertResults: unknown[][]) => {
+  const inserts: Array<{ table: unknown; values: unknown }> = [];
+  const chain = (result: unknown) => {
+    const node: Record<string, unknown> = {
+      then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+        Promise.resolve(result).then(resolve, reject),
+    };
+    for (const method of ['from', 'where', 'limit', 'returning']) {
+      node[method] = () => node;
+    }
+    return node;
+  };
+  const db = {
+    select: () => chain(selectResults.shift() ?? []),
+    insert: (table: unknown) => ({
+      values: (values: unknown) => {
+        inserts.push({ table, values });
+        return chain(insertResults.shift() ?? []);
+      },
+    }),
+    transaction: async (handler: (transaction: unknown) => Promise<unknown>) => handler(db),
+  };
+  return { db: db as unknown as Database, inserts };
+};
+
+const sourceEventType = {
+  id: 'source-event-type',
+  userId: 'user_123',
+  slug: 'intro-call',
+  name: 'Intro Call',
+  description: null,
+  durationMinutes: 30,
+  dailyBookingLimit: 4,
+  weeklyBookingLimit: null,
+  monthlyBookingLimit: null,
+  minimumNoticeMinutes: 120,
+  bookingHorizonDays: 30,
+  bufferBeforeMinutes: 5,
+  bufferAfterMinutes: 10,
+  slotIncrementMinutes: 15,
+  locationType: 'video',
+  locationValue: 'https://meet.example.com/intro',
+  questions: [{ id: 'goal', label: 'Goal', required: true }],
+  availabilityScheduleId: null,
+  isActive: true,
+  archivedAt: null,
+  createdAt: new Date('2026-03-01T00:00:00.000Z'),
+};
+
+describe('event type duplication', () => {
+  it('picks the first free copy slug and keeps it within the slug length', () => {
+    expect(pickDuplicateSlug('intro-call', new Set())).toBe('intro-call-copy');
+    expect(pickDuplicateSlug('intro-call', new Set(['intro-call-copy']))).toBe('intro-call-copy-2');
+    expect(pickDuplicateSlug('intro-call-copy-2', new Set(['intro-call-copy']))).toBe('intro-call-copy-2');
+    expect(pickDuplicateSlug(`${'a'.repeat(79)}b`, new Set())).toBe(`${'a'.repeat(75)}-copy`);
+    expect(buildDuplicateName('Intro Call')).toBe('Intro Call (copy)');
+    expect(buildDuplicateName('x'.repeat(120))).toHaveLength(120);
+  });
+
+  it('copies fields, notification rules, and team configuration with a new slug', async () => {
+    const { db, inserts } = createFakeDb(
+      [
+        [sourceEventType],
+        [{ slug: 'intro-call' }, { slug: 'intro-call-copy' }],
+        [{ notificationType: 'reminder', offsetMinutes: 60, isEnabled: true }],
+        [{ id: 'source-team-event-type', teamId: 'team-1', mode: 'round_robin' }],
+        [
+          { userId: 'member-1', isRequired: true },
+          { userId: 'member-2', isRequired: true },
+        ],
+      ],
+      [[{ id: 'copy-event-type', slug: 'intro-call-copy-2', questions: [] }], [], [{ id: 'copy-team-event-type' }]],
+    );
+
+    const result = await duplicateEventType(db, {} as Bindings, { id: 'user_123' } as never, {
+      eventTypeId: sourceEventType.id,
+    });
+
+    expect(result).toMatchObject({
+      notificationRuleCount: 1,
+      teamEventType: { id: 'copy-team-event-type', teamId: 'team-1', mode: 'round_robin', memberCount: 2 },
+    });
+    expect(inserts.map((insert) => insert.table)).toEqual([
+      eventTypes,
+      notificationRules,
+      teamEventTypes,
+      teamEventTypeMembers,
+    ]);
+    expect(inserts[0]?.values).toMatchObject({
+      slug: 'intro-call-copy-2',
+      name: 'Intro Call (copy)',
+      durationMinutes: 30,
+      dailyBookingLimit: 4,
+      bufferAfterMinutes: 10,
+      locationValue: 'https://meet.example.com/intro',
+      questions: sourceEventType.questions,
+      isActive: true,
+    });
+    expect(inserts[1]?.values).toEqual([
+      { notificationType: 'reminder', offsetMinutes: 60, isEnabled: true, eventTypeId: 'copy-event-type' },
+    ]);
+    expect(inserts[3]?.values).toEqual([
+      { userId: 'member-1', isRequired: true, teamEventTypeId: 'copy-team-event-type' },
+      { userId: 'member-2', isRequired: true, teamEventTypeId: 'copy-team-event-type' },
+    ]);
+  });
+
+  it('returns null for event types the organizer does not own', async () => {
+    const { db, inserts } = createFakeDb([[]], []);
+
+    await expect(
+      duplicateEventType(db, {} as Bindings, { id: 'user_123' } as never, { eventTypeId: 'missing' }),
+    ).resolves.toBeNull();
+    expect(inserts).toHaveLength(0);
+  });
+});
@@ -0,0 +1,206 @@
+import { and, eq, like } from 'drizzle-orm';
+
+import {
+  eventTypes,
+  notificationRules,
+  teamEventTypeMembers,
+  teamEventTypes,
+} from '@opencalendly/db';
+
+import { consumeDemoFeatureCredits } from './demo-quota';
+import { buildDemoFeatureSourceKey } from './idempotency';
+import type { AuthenticatedUser, Bindings, Database, DemoQuotaDb } from './types';
+import { EventTypeDuplicateSlugExhaustedError } from './types';
+
+const EVENT_SLUG_MAX_LENGTH = 80;
+const EVENT_NAME_MAX_LENGTH = 120;
+const DUPLICATE_SLUG_SUFFIX_PATTERN = /-copy(?:-\d+)?$/;
+const MAX_DUPLICATE_SLUG_ATTEMPTS = 50;
+
+// Duplicating "intro-copy" should yield "intro-copy-2", not "intro-copy-copy".
+const toDuplicateSlugBase = (slug: string): string => slug.replace(DUPLICATE_SLUG_SUFFIX_PATTERN, '');
+
+const withSlugSuffix = (base: string, suffix: string): string => {
+  const trimmedBase = base.slice(0, EVENT_SLUG_MAX_LENGTH - suffix.length).replace(/-+$/, '');
+  return `${trimmedBase}${suffix}`;
+};
+
+export const pickDuplicateSlug = (sourceSlug: string, takenSlugs: ReadonlySet<string>): string | null => {
+  const base = toDuplicateSlugBase(sourceSlug);
+  for (let attempt = 1; attempt <= MAX_DUPLICATE_SLUG_ATTEMPTS; attempt += 1) {
+    const candidate = withSlugSuffix(base, attempt === 1 ? '-copy' : `-copy-${attempt}`);
+    if (!takenSlugs.has(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+export const buildDuplicateName = (sourceName: string): string => {
+  const suffix = ' (copy)';
+  return `${sourceName.slice(0, EVENT_NAME_MAX_LENGTH - suffix.length).trimEnd()}${suffix}`;
+};
+
+export const duplicateEventType = async (
+  db: Database,
+  env: Bindings,
+  authedUser: AuthenticatedUser,
+  input: { eventTypeId: string; name?: string; slug?: string },
+) => {
+  const [source] = await db
+    .select()
+    .from(eventTypes)
+    .where(and(eq(eventTypes.id, input.eventTypeId), eq(eventTypes.userId, authedUser.id)))
+    .limit(1);
+  if (!source) {
+    return null;
+  }
+
+  let slug = input.slug;
+  if (!slug) {
+    const base = toDuplicateSlugBase(source.slug);
+    const takenRows = await db
+      .select({ slug: eventTypes.slug })
+      .from(eventTypes)
+      .where(and(eq(eventTypes.userId, authedUser.id), like(eventTypes.slug, `${base.slice(0, 60)}%`)));
+    const picked = pickDuplicateSlug(source.slug, new Set(takenRows.map((row) => row.slug)));
+    if (!picked) {
+      throw new EventTypeDuplicateSlugExhaustedError('Too many copies of this event type. Pass a slug explicitly.');
+    }
+    slug = picked;
+  }
+  const name = input.name ?? buildDuplicateName(source.name);
+
+  return db.transaction(async (transaction) => {
+    const [created] = await transaction
+      .insert(eventTypes)
+      .values({
+        userId: source.userId,
+        slug,
+        name,
+        description: source.description,
+        durationMinutes: source.durationMinutes,
+        dailyBookingLimit: source.dailyBookingLimit,
+        weeklyBookingLimit: source.weeklyBookingLimit,
+        monthlyBookingLimit: source.monthlyBookingLimit,
+        minimumNoticeMinutes: source.minimumNoticeMinutes,
+        bookingHorizonDays: source.bookingHorizonDays,
+        bufferBeforeMinutes: source.bufferBeforeMinutes,
+        bufferAfterMinutes: source.bufferAfterMinutes,
+        slotIncrementMinutes: source.slotIncrementMinutes,
+        priceCents: source.priceCents,
+        currency: source.currency,
+        refundPolicy: source.refundPolicy,
+        refundCutoffHours: source.refundCutoffHours,
+        requiresConfirmation: source.requiresConfirmation,
+        seatsPerSlot: source.seatsPerSlot,
+        locationType: source.locationType,
+        locationValue: source.locationValue,
+        questions: source.questions,
+        availabilityScheduleId: source.availabilityScheduleId,
+        // A copy of an archived type starts out inactive rather than inheriting the archive.
+        isActive: source.archivedAt ? false : source.isActive,
+      })
+      .returning({
+        id: eventTypes.id,
+        slug: eventTypes.slug,
+        name: eventTypes.name,
+        durationMinutes: eventTypes.durationMinutes,
+        dailyBookingLimit: eventTypes.dailyBookingLimit,
+        weeklyBookingLimit: eventTypes.weeklyBookingLimit,
+        monthlyBookingLimit: eventTypes.monthlyBookingLimit,
+        locationType: eventTypes.locationType,
+        locationValue: eventTypes.locationValue,
+        questions: eventTypes.questions,
+        availabilityScheduleId: eventTypes.availabilityScheduleId,
+        minimumNoticeMinutes: eventTypes.minimumNoticeMinutes,
+        bookingHorizonDays: eventTypes.bookingHorizonDays,
+        bufferBeforeMinutes: eventTypes.bufferBeforeMinutes,
+        bufferAfterMinutes: eventTypes.bufferAfterMinutes,
+        slotIncrementMinutes: eventTypes.slotIncrementMinutes,
+        priceCents: eventTypes.priceCents,
+        currency: eventTypes.currency,
+        refundPolicy: eventTypes.refundPolicy,
+        refundCutoffHours: eventTypes.refundCutoffHours,
+        requiresConfirmation: eventTypes.requiresConfirmation,
+        seatsPerSlot: eventTypes.seatsPerSlot,
+        isActive: eventTypes.isActive,
+      });
+    if (!created) {
+      throw new Error('Failed to duplicate event type.');
+    }
+
+    const rules = await transaction
+      .select({
+        notificationType: notificationRules.notificationType,
+        offsetMinutes: notificationRules.offsetMinutes,
+        isEnabled: notificationRules.isEnabled,
+      })
+      .from(notificationRules)
+      .where(eq(notificationRules.eventTypeId, source.id));
+    if (rules.length > 0) {
+      await transaction
+        .insert(notificationRules)
+        .values(rules.map((rule) => ({ ...rule, eventTypeId: created.id })));
+    }
+
+    const [sourceTeamEventType] = await transaction
+      .select({
+        id: teamEventTypes.id,
+        teamId: teamEventTypes.teamId,
+        mode: teamEventTypes.mode,
+        roundRobinStrategy: teamEventTypes.roundRobinStrategy,
+        roundRobinWindowDays: teamEventTypes.roundRobinWindowDays,
+      })
+      .from(teamEventTypes)
+      .where(eq(teamEventTypes.eventTypeId, source.id))
+      .limit(1);
+    let teamEventType: { id: string; teamId: string; mode: string; memberCount: number } | null = null;
+    if (sourceTeamEventType) {
+      const [createdTeamEventType] = await transaction
+        .insert(teamEventTypes)
+        .values({
+          teamId: sourceTeamEventType.teamId,
+          eventTypeId: created.id,
+          mode: sourceTeamEventType.mode,
+          roundRobinStrategy: sourceTeamEventType.roundRobinStrategy,
+          roundRobinWindowDays: sourceTeamEventType.roundRobinWindowDays,
+        })
+        .returning({ id: teamEventTypes.id });
+      if (!createdTeamEventType) {
+        throw new Error('Failed to duplicate team event type.');
+      }
+      const members = await transaction
+        .select({
+          userId: teamEventTypeMembers.userId,
+          isRequired: teamEventTypeMembers.isRequired,
+          weight: teamEventTypeMembers.weight,
+        })
+        .from(teamEventTypeMembers)
+        .where(eq(teamEventTypeMembers.teamEventTypeId, sourceTeamEventType.id));
+      if (members.length > 0) {
+        await transaction
+          .insert(teamEventTypeMembers)
+          .values(members.map((member) => ({ ...member, teamEventTypeId: createdTeamEventType.id })));
+      }
+      teamEventType = {
+        id: createdTeamEventType.id,
+        teamId: sourceTeamEventType.teamId,
+        mode: sourceTeamEventType.mode,
+        memberCount: members.length,
+      };
+    }
+
+    await consumeDemoFeatureCredits(transaction as DemoQuotaDb, env, authedUser, {
+      featureKey: 'event_type_create',
+      sourceKey: buildDemoFeatureSourceKey('event_type_create', {
+        duplicateOf: source.id,
+        slug,
+      }),
+      metadata: { eventTypeId: created.id, slug, duplicateOf: source.id },
+      now: new Date(),
+    });
+
+    return { eventType: created, notificationRuleCount: rules.length, teamEventType };
+  });
+};
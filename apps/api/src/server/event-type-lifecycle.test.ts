@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const {
+  declineBookingRequestMock,
+  queueBookingRequestWebhookMock,
+  runCalendarWritebackBatchMock,
+  sendBookingRequestEmailSideEffectsMock,
+} = vi.hoisted(() => ({
+  declineBookingRequestMock: vi.fn(),
+  queueBookingRequestWebhookMock: vi.fn(),
+  runCalendarWritebackBatchMock: vi.fn(),
+  sendBookingRequestEmailSideEffectsMock: vi.fn(),
+}));
+
+vi.mock('./booking-requests', () => ({
+  declineBookingRequest: declineBookingRequestMock,
+}));
+
+vi.mock('./booking-request-side-effects', () => ({
+  queueBookingRequestWebhook: queueBookingRequestWebhookMock,
+  sendBookingRequestEmailSideEffects: sendBookingRequestEmailSideEffectsMock,
+}));
+
+vi.mock('./calendar-writeback-runner', () => ({
+  runCalendarWritebackBatch: runCalendarWritebackBatchMock,
+}));
+
+import { EVENT_TYPE_DELETE_CANCELLATION_REASON, cancelFutureBookingsForEventType } from './event-type-lifecycle';
+import type { Database } from './types';
+
+const eventTypeId = '8f14e45f-ceea-467f-a8b2-4f4f5b8f1a2c';
+const requestId = '6fa459ea-ee8a-3ca4-894e-db77e160355e';
+
+const declinedRequest = {
+  booking: {
+    id: requestId,
+    eventTypeId,
+    organizerId: 'user_123',
+    inviteeName: 'Pat Lee',
+    inviteeEmail: 'pat@example.com',
+    startsAt: new Date('2026-03-20T09:00:00.000Z'),
+    endsAt: new Date('2026-03-20T09:30:00.000Z'),
+    status: 'declined',
+  },
+  eventType: { name: 'Intro Call', slug: 'intro-call', locationType: 'video', locationValue: null },
+  organizer: { email: 'owner@example.com', username: 'owner', displayName: 'Owner' },
+  timezone: 'UTC',
+  answers: [],
+};
+
+describe('cancelFutureBookingsForEventType', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    declineBookingRequestMock.mockResolvedValue(declinedRequest);
+    queueBookingRequestWebhookMock.mockResolvedValue(1);
+    sendBookingRequestEmailSideEffectsMock.mockResolvedValue({ sent: true, provider: 'resend' });
+  });
+
+  it('declines pending requests with the declined email and webhook', async () => {
+    const result = await cancelFutureBookingsForEventType(
+      {} as Database,
+      {},
+      { id: 'user_123', email: 'owner@example.com' } as never,
+      { eventTypeId, bookingIds: [], requestIds: [requestId], appBaseUrl: 'https://opencalendly.com' },
+    );
+
+    expect(declineBookingRequestMock).toHaveBeenCalledWith(expect.anything(), expect.anything(), {
+      bookingId: requestId,
+      reason: EVENT_TYPE_DELETE_CANCELLATION_REASON,
+      ownedEventTypeId: eventTypeId,
+    });
+    expect(queueBookingRequestWebhookMock).toHaveBeenCalledWith(expect.anything(), {
+      type: 'booking.declined',
+      booking: declinedRequest.booking,
+      metadata: { declineReason: EVENT_TYPE_DELETE_CANCELLATION_REASON },
+    });
+    expect(sendBookingRequestEmailSideEffectsMock).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      expect.objectContaining({
+        kind: 'declined',
+        declineReason: EVENT_TYPE_DELETE_CANCELLATION_REASON,
+        rebookLink: 'https://opencalendly.com/owner/intro-call',
+      }),
+    );
+    expect(runCalendarWritebackBatchMock).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ canceledBookings: 0, declinedRequests: 1, queuedWebhookDeliveries: 1 });
+  });
+});
@@ -0,0 +1,256 @@
+import { and, asc, eq, gt, inArray, isNotNull, or, sql } from 'drizzle-orm';
+
+import {
+  bookingExternalEvents,
+  bookingPayments,
+  bookings,
+  eventTypes,
+  notificationRules,
+  scheduledNotifications,
+  teamEventTypes,
+} from '@opencalendly/db';
+
+import { buildBookingPageUrl } from './booking-action-links';
+import { queueBookingRequestWebhook, sendBookingRequestEmailSideEffects } from './booking-request-side-effects';
+import { declineBookingRequest } from './booking-requests';
+import {
+  queueBookingCancellationSideEffects,
+  sendBookingCancellationEmailSideEffects,
+} from './booking-side-effects';
+import { runCalendarWritebackBatch } from './calendar-writeback-runner';
+import { cancelBookingAsOrganizer } from './organizer-booking-cancel';
+import type { AuthenticatedUser, Bindings, Database } from './types';
+
+// Every cancellation sends its emails and calendar writeback inline before the row is deleted, so
+// the batch is capped to stay well inside the Worker subrequest budget.
+export const EVENT_TYPE_DELETE_CANCEL_LIMIT = 25;
+export const EVENT_TYPE_DELETE_CANCELLATION_REASON = 'This event type is no longer offered.';
+export const OPEN_PAYMENT_HOLDS_MESSAGE =
+  'Some bookings are still waiting on payment. Archive instead, and delete once those checkouts have completed or expired.';
+
+export type OwnedEventType = {
+  id: string;
+  slug: string;
+  name: string;
+  isActive: boolean;
+  archivedAt: Date | null;
+};
+
+export const findOwnedEventType = async (
+  db: Pick<Database, 'select'>,
+  input: { eventTypeId: string; userId: string },
+): Promise<OwnedEventType | null> => {
+  const [row] = await db
+    .select({
+      id: eventTypes.id,
+      slug: eventTypes.slug,
+      name: eventTypes.name,
+      isActive: eventTypes.isActive,
+      archivedAt: eventTypes.archivedAt,
+    })
+    .from(eventTypes)
+    .where(and(eq(eventTypes.id, input.eventTypeId), eq(eventTypes.userId, input.userId)))
+    .limit(1);
+  return row ?? null;
+};
+
+export const listFutureConfirmedBookingIds = async (
+  db: Pick<Database, 'select'>,
+  input: { eventTypeId: string; now: Date; limit: number },
+): Promise<string[]> => {
+  const rows = await db
+    .select({ id: bookings.id })
+    .from(bookings)
+    .where(
+      and(
+        eq(bookings.eventTypeId, input.eventTypeId),
+        eq(bookings.status, 'confirmed'),
+        gt(bookings.endsAt, input.now),
+      ),
+    )
+    .orderBy(asc(bookings.startsAt))
+    .limit(input.limit);
+  return rows.map((row) => row.id);
+};
+
+// Requests that have already started can no longer be declined, matching the booking requests list.
+export const listFuturePendingRequestIds = async (
+  db: Pick<Database, 'select'>,
+  input: { eventTypeId: string; now: Date; limit: number },
+): Promise<string[]> => {
+  const rows = await db
+    .select({ id: bookings.id })
+    .from(bookings)
+    .where(
+      and(
+        eq(bookings.eventTypeId, input.eventTypeId),
+        eq(bookings.status, 'pending_approval'),
+        gt(bookings.startsAt, input.now),
+      ),
+    )
+    .orderBy(asc(bookings.startsAt))
+    .limit(input.limit);
+  return rows.map((row) => row.id);
+};
+
+/**
+ * Counts bookings whose checkout is still open: unpaid holds and pending payment rows. Deleting
+ * would cascade them away, and a payment confirmed afterwards could no longer be matched to a
+ * booking to refund, so hard deletes wait until the holds are paid or swept as expired.
+ */
+export const countOpenPaymentHolds = async (
+  db: Pick<Database, 'select'>,
+  input: { eventTypeIds: string[] },
+): Promise<number> => {
+  if (input.eventTypeIds.length === 0) {
+    return 0;
+  }
+
+  const [row] = await db
+    .select({ count: sql<number>`count(distinct ${bookings.id})::int` })
+    .from(bookings)
+    .leftJoin(
+      bookingPayments,
+      and(eq(bookingPayments.bookingId, bookings.id), eq(bookingPayments.status, 'pending')),
+    )
+    .where(
+      and(
+        inArray(bookings.eventTypeId, input.eventTypeIds),
+        or(eq(bookings.status, 'pending_payment'), isNotNull(bookingPayments.id)),
+      ),
+    );
+  return row?.count ?? 0;
+};
+
+export const cancelFutureBookingsForEventType = async (
+  db: Database,
+  env: Bindings,
+  authedUser: AuthenticatedUser,
+  input: {
+    eventTypeId: string;
+    bookingIds: string[];
+    requestIds?: string[];
+    appBaseUrl: string;
+    reason?: string;
+  },
+) => {
+  const reason = input.reason ?? EVENT_TYPE_DELETE_CANCELLATION_REASON;
+  const requestIds = input.requestIds ?? [];
+  let queuedWebhookDeliveries = 0;
+  let canceledNotifications = 0;
+
+  // Pending requests are declined rather than canceled, so invitees get the declined email and
+  // subscribers a `booking.declined` webhook, exactly as if the organizer had declined each one.
+  for (const bookingId of requestIds) {
+    const result = await declineBookingRequest(db, authedUser, {
+      bookingId,
+      reason,
+      ownedEventTypeId: input.eventTypeId,
+    });
+    queuedWebhookDeliveries += await queueBookingRequestWebhook(db, {
+      type: 'booking.declined',
+      booking: result.booking,
+      metadata: { declineReason: reason },
+    });
+    await sendBookingRequestEmailSideEffects(env, db, {
+      kind: 'declined',
+      booking: result.booking,
+      eventName: result.eventType.name,
+      organizerDisplayName: result.organizer.displayName,
+      timezone: result.timezone,
+      declineReason: reason,
+      rebookLink: buildBookingPageUrl(input.appBaseUrl, {
+        organizerUsername: result.organizer.username,
+        eventSlug: result.eventType.slug,
+      }),
+    });
+  }
+
+  for (const bookingId of input.bookingIds) {
+    const result = await cancelBookingAsOrganizer(db, env, authedUser, {
+      bookingId,
+      reason,
+      ownedEventTypeId: input.eventTypeId,
+    });
+    const sideEffects = await queueBookingCancellationSideEffects(db, {
+      booking: result.booking,
+      cancellationReason: reason,
+      alreadyProcessed: false,
+      offerFreedSlot: false,
+    });
+    queuedWebhookDeliveries += sideEffects.queuedWebhookDeliveries;
+    canceledNotifications += result.canceledNotifications;
+
+    // Awaited rather than backgrounded: the booking row is about to be deleted, and the invite
+    // attachment is rebuilt from it.
+    await sendBookingCancellationEmailSideEffects(env, db, {
+      booking: result.booking,
+      eventType: { name: result.eventType.name },
+      organizer: { email: result.organizer.email, displayName: result.organizer.displayName },
+      timezone: result.timezone,
+      cancellationReason: reason,
+      canceledBy: 'organizer',
+      rebookLink: buildBookingPageUrl(input.appBaseUrl, {
+        organizerUsername: result.organizer.username,
+        eventSlug: result.eventType.slug,
+        teamSlug: result.teamSlug,
+      }),
+      alreadyProcessed: false,
+    });
+  }
+
+  const writebackRows =
+    input.bookingIds.length > 0
+      ? await db
+          .select({ id: bookingExternalEvents.id })
+          .from(bookingExternalEvents)
+          .where(
+            and(
+              inArray(bookingExternalEvents.bookingId, input.bookingIds),
+              eq(bookingExternalEvents.status, 'pending'),
+            ),
+          )
+      : [];
+  const calendarWriteback =
+    writebackRows.length > 0
+      ? await runCalendarWritebackBatch(db, env, {
+          rowIds: writebackRows.map((row) => row.id),
+          limit: writebackRows.length,
+        })
+      : { processed: 0, succeeded: 0, retried: 0, failed: 0 };
+
+  return {
+    canceledBookings: input.bookingIds.length,
+    declinedRequests: requestIds.length,
+    canceledNotifications,
+    queuedWebhookDeliveries,
+    calendarWriteback,
+  };
+};
+
+export const deleteEventTypeRecords = async (
+  db: Pick<Database, 'transaction'>,
+  input: { eventTypeId: string; userId: string },
+): Promise<boolean> => {
+  return db.transaction(async (transaction) => {
+    // The foreign keys cascade, but the dependents are cleared explicitly so the delete stays
+    // correct if any of them moves to `set null` or gains history semantics later.
+    await transaction
+      .delete(scheduledNotifications)
+      .where(
+        and(
+          eq(scheduledNotifications.eventTypeId, input.eventTypeId),
+          inArray(scheduledNotifications.status, ['pending', 'failed']),
+        ),
+      );
+    await transaction.delete(notificationRules).where(eq(notificationRules.eventTypeId, input.eventTypeId));
+    // Team member links and assignments cascade from the team event type row.
+    await transaction.delete(teamEventTypes).where(eq(teamEventTypes.eventTypeId, input.eventTypeId));
+
+    const deleted = await transaction
+      .delete(eventTypes)
+      .where(and(eq(eventTypes.id, input.eventTypeId), eq(eventTypes.userId, input.userId)))
+      .returning({ id: eventTypes.id });
+    return deleted.length > 0;
+  });
+};
@@ -17,10 +17,11 @@ import {
   sendBookingFollowUpEmail,
   sendBookingReminderEmail,
 } from '../lib/email';
-import { normalizeTimezone } from './core';
+import { logInternalError, normalizeTimezone } from './core';
 import { NOTIFICATION_RUN_LEASE_MINUTES, NOTIFICATION_RUN_MAX_ATTEMPTS } from './env';
 import { tryRecordEmailDelivery } from './telemetry';
 import type { Bindings, Database } from './types';
+import { enqueueWebhookEventV2 } from './webhook-events';
 
 export type NotificationRuleRow = {
   id: string;
@@ -307,6 +308,25 @@ export const runScheduledNotificationBatch = async (
       failed += 1;
     }
 
+    // Retries of an already failed row do not emit again, so receivers hear about each failure once.
+    if (current.status === 'pending' && outcome.values.status === 'failed') {
+      await enqueueWebhookEventV2(db, {
+        organizerId: row.organizerId,
+        type: 'notification.failed',
+        payload: {
+          notification: {
+            id: row.id,
+            bookingId: row.bookingId,
+            eventTypeId: row.eventTypeId,
+            type: row.notificationType,
+            recipientEmail: row.recipientEmail,
+            attemptCount: outcome.values.attemptCount,
+            error: sendResult.error ?? 'Notification email failed.',
+          },
+        },
+      }).catch((error) => logInternalError('notification_failed_webhook_failed', error));
+    }
+
     await tryRecordEmailDelivery(env, db, {
       organizerId: row.organizerId,
       bookingId: row.bookingId,
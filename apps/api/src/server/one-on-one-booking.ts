@@ -2,7 +2,6 @@ import { and, eq, gt, lt, sql } from 'drizzle-orm';
 
 import {
   availabilityOverrides,
-  availabilityRules,
   bookingActionTokens,
   bookings,
 } from '@opencalendly/db';
@@ -10,15 +9,22 @@ import {
 import {
   BookingNotFoundError,
   BookingUniqueConstraintError,
+  BookingValidationError,
   commitBooking,
   type CommitBookingResult,
+  type PublicEventType,
 } from '../lib/booking';
+import type { BookingAnswers } from '../lib/booking-answers';
+import { listAvailabilityRulesForSchedule } from './availability-schedules';
+import { expireStalePaymentHolds, slotHoldingBookingCondition } from './booking-holds';
+import type { PaymentHold } from './booking-payments';
 import { countConfirmedBookingsForEventTypeWindow } from './team-context';
 import { listExternalBusyWindowsForUser, listTimeOffBlocksForUser } from './team-schedules';
 import { findPublicEventType } from './public-events';
 import { enqueueScheduledNotificationsForBooking } from './notifications';
 import { consumeDemoFeatureCredits } from './demo-quota';
 import { isUniqueViolation } from './database';
+import { PAYMENT_HOLD_EXPIRY_BATCH_LIMIT, resolvePaymentHoldMinutes, resolvePaymentProviderConfig } from './env';
 import type { AuthenticatedUser, Bindings, Database, DemoQuotaDb } from './types';
 
 type OneOnOneBookingInput = {
@@ -28,7 +34,7 @@ type OneOnOneBookingInput = {
   timezone: string;
   inviteeName: string;
   inviteeEmail: string;
-  answers?: Record<string, string>;
+  answers?: BookingAnswers;
 };
 
 export const createOneOnOneBooking = async (
@@ -36,12 +42,34 @@ export const createOneOnOneBooking = async (
   env: Bindings,
   authedUser: AuthenticatedUser | null,
   input: OneOnOneBookingInput,
-): Promise<CommitBookingResult & { queuedNotifications: number }> => {
+): Promise<
+  CommitBookingResult & { queuedNotifications: number; paymentHold: PaymentHold | null; approvalPending: boolean }
+> => {
   let queuedNotifications = 0;
+  let paymentHold: PaymentHold | null = null;
+  let approvalPending = false;
+  const resolvePaymentHold = (eventType: PublicEventType): PaymentHold | null => {
+    if (!eventType.priceCents || !eventType.currency) {
+      return null;
+    }
+    if (!resolvePaymentProviderConfig(env)) {
+      throw new BookingValidationError('Payments are not configured for this event type.');
+    }
+    return {
+      amountCents: eventType.priceCents,
+      currency: eventType.currency,
+      expiresAt: new Date(Date.now() + resolvePaymentHoldMinutes(env) * 60_000),
+    };
+  };
 
   const result = await commitBooking(
     {
-      getPublicEventType: async (username, eventSlug) => findPublicEventType(db, username, eventSlug),
+      getPublicEventType: async (username, eventSlug) => {
+        const eventType = await findPublicEventType(db, username, eventSlug);
+        paymentHold = eventType ? resolvePaymentHold(eventType) : null;
+        approvalPending = eventType?.requiresConfirmation === true;
+        return eventType;
+      },
       withEventTypeTransaction: async (eventTypeId, callback) => {
         return db.transaction(async (transaction) => {
           return callback({
@@ -53,18 +81,14 @@ export const createOneOnOneBooking = async (
                 throw new BookingNotFoundError('Event type not found.');
               }
               await transaction.execute(sql`select id from users where id = ${locked.rows[0].userId} for update`);
+              await expireStalePaymentHolds(transaction, {
+                now: new Date(),
+                organizerId: locked.rows[0].userId,
+                limit: PAYMENT_HOLD_EXPIRY_BATCH_LIMIT,
+              });
             },
-            listRules: async (userId) =>
-              transaction
-                .select({
-                  dayOfWeek: availabilityRules.dayOfWeek,
-                  startMinute: availabilityRules.startMinute,
-                  endMinute: availabilityRules.endMinute,
-                  bufferBeforeMinutes: availabilityRules.bufferBeforeMinutes,
-                  bufferAfterMinutes: availabilityRules.bufferAfterMinutes,
-                })
-                .from(availabilityRules)
-                .where(eq(availabilityRules.userId, userId)),
+            listRules: async (userId, scheduleId) =>
+              listAvailabilityRulesForSchedule(transaction, { userId, scheduleId }),
             listOverrides: async (userId, rangeStart, rangeEnd) => {
               const [overrides, userTimeOffBlocks] = await Promise.all([
                 transaction
@@ -99,16 +123,18 @@ export const createOneOnOneBooking = async (
               transaction
                 .select({
                   id: bookings.id,
+                  eventTypeId: bookings.eventTypeId,
                   startsAt: bookings.startsAt,
                   endsAt: bookings.endsAt,
                   status: bookings.status,
                   metadata: bookings.metadata,
+                  seatNumber: bookings.seatNumber,
                 })
                 .from(bookings)
                 .where(
                   and(
                     eq(bookings.organizerId, organizerId),
-                    eq(bookings.status, 'confirmed'),
+                    slotHoldingBookingCondition(new Date()),
                     lt(bookings.startsAt, rangeEnd),
                     gt(bookings.endsAt, rangeStart),
                   ),
@@ -116,7 +142,8 @@ export const createOneOnOneBooking = async (
             countConfirmedEventTypeBookingsInWindow: async (countInput) =>
               countConfirmedBookingsForEventTypeWindow(transaction, countInput),
             insertActionTokens: async (bookingId, tokens) => {
-              if (tokens.length === 0) {
+              // Requests get their cancel and reschedule links once the organizer approves them.
+              if (tokens.length === 0 || approvalPending) {
                 return;
               }
               await transaction.insert(bookingActionTokens).values(
@@ -129,15 +156,19 @@ export const createOneOnOneBooking = async (
               );
             },
             afterInsertBooking: async (booking) => {
-              queuedNotifications = await enqueueScheduledNotificationsForBooking(transaction, {
-                bookingId: booking.id,
-                organizerId: booking.organizerId,
-                eventTypeId: booking.eventTypeId,
-                inviteeEmail: booking.inviteeEmail,
-                inviteeName: booking.inviteeName,
-                startsAt: booking.startsAt,
-                endsAt: booking.endsAt,
-              });
+              // Paid bookings and approval requests queue reminders once they are confirmed.
+              queuedNotifications =
+                paymentHold || approvalPending
+                  ? 0
+                  : await enqueueScheduledNotificationsForBooking(transaction, {
+                      bookingId: booking.id,
+                      organizerId: booking.organizerId,
+                      eventTypeId: booking.eventTypeId,
+                      inviteeEmail: booking.inviteeEmail,
+                      inviteeName: booking.inviteeName,
+                      startsAt: booking.startsAt,
+                      endsAt: booking.endsAt,
+                    });
 
               if (authedUser) {
                 await consumeDemoFeatureCredits(transaction as DemoQuotaDb, env, authedUser, {
@@ -164,6 +195,9 @@ export const createOneOnOneBooking = async (
                     startsAt: bookingInput.startsAt,
                     endsAt: bookingInput.endsAt,
                     metadata: bookingInput.metadata,
+                    seatNumber: bookingInput.seatNumber,
+                    ...(paymentHold ? { status: 'pending_payment', holdExpiresAt: paymentHold.expiresAt } : {}),
+                    ...(approvalPending ? { status: 'pending_approval' } : {}),
                   })
                   .returning({
                     id: bookings.id,
@@ -193,5 +227,5 @@ export const createOneOnOneBooking = async (
     input,
   );
 
-  return { ...result, queuedNotifications };
+  return { ...result, queuedNotifications, paymentHold, approvalPending };
 };
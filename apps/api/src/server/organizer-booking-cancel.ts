@@ -0,0 +1,132 @@
+import { and, eq, isNull } from 'drizzle-orm';
+
+import {
+  bookingActionTokens,
+  bookings,
+  eventTypes,
+  teamBookingAssignments,
+  users,
+} from '@opencalendly/db';
+
+import { parseBookingMetadata } from '../lib/booking-actions';
+import { lockBooking } from './booking-action-links';
+import { refundCanceledBookingPayment } from './booking-payments';
+import { normalizeTimezone } from './core';
+import { consumeDemoFeatureCredits, isLaunchDemoBookingContext } from './demo-quota';
+import { cancelPendingScheduledNotificationsForBooking } from './notifications';
+import type { AuthenticatedUser, Bindings, Database, DemoQuotaDb } from './types';
+import { BookingActionGoneError, BookingActionNotFoundError } from './types';
+
+export const cancelBookingAsOrganizer = async (
+  db: Database,
+  env: Bindings,
+  authedUser: AuthenticatedUser,
+  input: { bookingId: string; reason: string | null; ownedEventTypeId?: string },
+) => {
+  const now = new Date();
+  const result = await db.transaction(async (transaction) => {
+    const booking = await lockBooking(transaction, input.bookingId);
+    // Event-type owners may cancel every booking on a type they own, including team bookings
+    // hosted by another member; callers must verify that ownership before passing the id.
+    const isAuthorized = input.ownedEventTypeId
+      ? booking?.eventTypeId === input.ownedEventTypeId
+      : booking?.organizerId === authedUser.id;
+    if (!booking || !isAuthorized) {
+      throw new BookingActionNotFoundError('Booking not found.');
+    }
+    if (booking.status !== 'confirmed') {
+      throw new BookingActionGoneError('Booking is not cancelable.');
+    }
+
+    const [eventType] = await transaction
+      .select({
+        id: eventTypes.id,
+        slug: eventTypes.slug,
+        name: eventTypes.name,
+      })
+      .from(eventTypes)
+      .where(eq(eventTypes.id, booking.eventTypeId))
+      .limit(1);
+    const [organizer] = await transaction
+      .select({
+        id: users.id,
+        email: users.email,
+        username: users.username,
+        displayName: users.displayName,
+        timezone: users.timezone,
+      })
+      .from(users)
+      .where(eq(users.id, booking.organizerId))
+      .limit(1);
+    if (!eventType || !organizer) {
+      throw new BookingActionNotFoundError('Booking context not found.');
+    }
+
+    const [canceledBooking] = await transaction
+      .update(bookings)
+      .set({
+        status: 'canceled',
+        canceledAt: now,
+        canceledBy: 'organizer',
+        cancellationReason: input.reason,
+      })
+      .where(eq(bookings.id, booking.id))
+      .returning({
+        id: bookings.id,
+        eventTypeId: bookings.eventTypeId,
+        organizerId: bookings.organizerId,
+        inviteeName: bookings.inviteeName,
+        inviteeEmail: bookings.inviteeEmail,
+        startsAt: bookings.startsAt,
+        endsAt: bookings.endsAt,
+        status: bookings.status,
+        metadata: bookings.metadata,
+      });
+    if (!canceledBooking) {
+      throw new Error('Failed to cancel booking.');
+    }
+
+    await transaction
+      .update(bookingActionTokens)
+      .set({ consumedAt: now })
+      .where(and(eq(bookingActionTokens.bookingId, booking.id), isNull(bookingActionTokens.consumedAt)));
+    await transaction.delete(teamBookingAssignments).where(eq(teamBookingAssignments.bookingId, booking.id));
+
+    const canceledNotifications = await cancelPendingScheduledNotificationsForBooking(transaction, {
+      bookingId: booking.id,
+    });
+
+    const metadata = parseBookingMetadata(booking.metadata, normalizeTimezone);
+    if (
+      isLaunchDemoBookingContext({
+        organizerUsername: organizer.username,
+        teamSlug: metadata.team?.teamSlug ?? null,
+      })
+    ) {
+      await consumeDemoFeatureCredits(transaction as DemoQuotaDb, env, authedUser, {
+        featureKey: 'booking_cancel',
+        sourceKey: `booking-cancel:${booking.id}`,
+        metadata: { bookingId: booking.id },
+        now,
+      });
+    }
+
+    return {
+      booking: canceledBooking,
+      eventType,
+      organizer,
+      teamSlug: metadata.team?.teamSlug ?? null,
+      timezone: metadata.timezone ?? normalizeTimezone(organizer.timezone),
+      canceledNotifications,
+    };
+  });
+
+  // Provider calls stay outside the transaction so a slow refund never holds the booking lock.
+  const refund = await refundCanceledBookingPayment(db, env, {
+    bookingId: result.booking.id,
+    canceledBy: 'organizer',
+    startsAt: result.booking.startsAt,
+    now,
+  });
+  return { ...result, refund };
+};
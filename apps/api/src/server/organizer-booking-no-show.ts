@@ -0,0 +1,78 @@
+import { and, eq, isNull, lte } from 'drizzle-orm';
+
+import { bookings } from '@opencalendly/db';
+
+import { BookingValidationError } from '../lib/booking';
+import type { Database } from './types';
+import { BookingActionGoneError, BookingActionNotFoundError } from './types';
+import { enqueueWebhookDeliveries } from './webhook-events';
+
+const noShowBookingColumns = {
+  id: bookings.id,
+  eventTypeId: bookings.eventTypeId,
+  organizerId: bookings.organizerId,
+  inviteeName: bookings.inviteeName,
+  inviteeEmail: bookings.inviteeEmail,
+  startsAt: bookings.startsAt,
+  endsAt: bookings.endsAt,
+  status: bookings.status,
+  noShowAt: bookings.noShowAt,
+};
+
+/**
+ * Records that the invitee never showed up. Only confirmed bookings that have already started
+ * qualify. Marking twice keeps the first timestamp and does not queue a second webhook.
+ */
+export const markBookingNoShow = async (
+  db: Database,
+  input: { organizerId: string; bookingId: string; now: Date },
+) => {
+  const [marked] = await db
+    .update(bookings)
+    .set({ noShowAt: input.now })
+    .where(
+      and(
+        eq(bookings.id, input.bookingId),
+        eq(bookings.organizerId, input.organizerId),
+        eq(bookings.status, 'confirmed'),
+        lte(bookings.startsAt, input.now),
+        isNull(bookings.noShowAt),
+      ),
+    )
+    .returning(noShowBookingColumns);
+
+  if (!marked) {
+    const [existing] = await db
+      .select(noShowBookingColumns)
+      .from(bookings)
+      .where(and(eq(bookings.id, input.bookingId), eq(bookings.organizerId, input.organizerId)))
+      .limit(1);
+    if (!existing) {
+      throw new BookingActionNotFoundError('Booking not found.');
+    }
+    if (existing.noShowAt) {
+      return { booking: existing, alreadyMarked: true, queuedWebhookDeliveries: 0 };
+    }
+    if (existing.status !== 'confirmed') {
+      throw new BookingActionGoneError('Only confirmed bookings can be marked as no-show.');
+    }
+    throw new BookingValidationError('A booking can only be marked as no-show after it starts.');
+  }
+
+  const queuedWebhookDeliveries = await enqueueWebhookDeliveries(db, {
+    organizerId: marked.organizerId,
+    type: 'booking.no_show',
+    booking: {
+      id: marked.id,
+      eventTypeId: marked.eventTypeId,
+      organizerId: marked.organizerId,
+      inviteeEmail: marked.inviteeEmail,
+      inviteeName: marked.inviteeName,
+      startsAtIso: marked.startsAt.toISOString(),
+      endsAtIso: marked.endsAt.toISOString(),
+    },
+    metadata: { noShowAt: input.now.toISOString() },
+  });
+
+  return { booking: marked, alreadyMarked: false, queuedWebhookDeliveries };
+};
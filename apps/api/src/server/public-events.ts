@@ -30,6 +30,16 @@ export const findPublicEventType = async (
       locationType: eventTypes.locationType,
       locationValue: eventTypes.locationValue,
       questions: eventTypes.questions,
+      availabilityScheduleId: eventTypes.availabilityScheduleId,
+      minimumNoticeMinutes: eventTypes.minimumNoticeMinutes,
+      bookingHorizonDays: eventTypes.bookingHorizonDays,
+      bufferBeforeMinutes: eventTypes.bufferBeforeMinutes,
+      bufferAfterMinutes: eventTypes.bufferAfterMinutes,
+      slotIncrementMinutes: eventTypes.slotIncrementMinutes,
+      priceCents: eventTypes.priceCents,
+      currency: eventTypes.currency,
+      requiresConfirmation: eventTypes.requiresConfirmation,
+      seatsPerSlot: eventTypes.seatsPerSlot,
       isActive: eventTypes.isActive,
       organizerEmail: users.email,
       organizerDisplayName: users.displayName,
@@ -56,6 +66,16 @@ export const findPublicEventType = async (
     locationType: row.locationType,
     locationValue: row.locationValue,
     questions: toEventQuestions(row.questions),
+    availabilityScheduleId: row.availabilityScheduleId,
+    minimumNoticeMinutes: row.minimumNoticeMinutes,
+    bookingHorizonDays: row.bookingHorizonDays,
+    bufferBeforeMinutes: row.bufferBeforeMinutes,
+    bufferAfterMinutes: row.bufferAfterMinutes,
+    slotIncrementMinutes: row.slotIncrementMinutes,
+    priceCents: row.priceCents,
+    currency: row.currency,
+    requiresConfirmation: row.requiresConfirmation,
+    seatsPerSlot: row.seatsPerSlot,
     isActive: row.isActive,
     organizerDisplayName: row.organizerDisplayName,
     organizerEmail: row.organizerEmail,
@@ -101,6 +121,12 @@ export const findPublicEventView = async (
       locationType: eventType.locationType,
       locationValue: eventType.locationValue,
       questions: eventType.questions,
+      price:
+        eventType.priceCents && eventType.currency
+          ? { amountCents: eventType.priceCents, currency: eventType.currency }
+          : null,
+      requiresConfirmation: eventType.requiresConfirmation ?? false,
+      seatsPerSlot: eventType.seatsPerSlot ?? null,
     },
     organizer: {
       id: organizer.id,
@@ -0,0 +1,135 @@
+import { and, eq, inArray } from 'drizzle-orm';
+
+import { eventTypes, routingForms, teamEventTypes, teamMembers, teams, users } from '@opencalendly/db';
+import { routingRuleSchema, type RoutingRule } from '@opencalendly/shared';
+
+import { toEventQuestions } from './public-events';
+import type { QueryableDb } from './types';
+
+export type RoutingTarget = {
+  eventTypeId: string;
+  organizerId: string;
+  teamEventTypeId: string | null;
+  basePath: string;
+  questionIds: string[];
+  isActive: boolean;
+};
+
+export const toRoutingRules = (value: unknown): RoutingRule[] => {
+  const parsed = routingRuleSchema.array().safeParse(value ?? []);
+  return parsed.success ? parsed.data : [];
+};
+
+export const toRoutingFormResponse = (row: typeof routingForms.$inferSelect) => ({
+  id: row.id,
+  slug: row.slug,
+  name: row.name,
+  questions: toEventQuestions(row.questions),
+  rules: toRoutingRules(row.rules),
+  fallbackEventTypeId: row.fallbackEventTypeId,
+  isActive: row.isActive,
+  createdAt: row.createdAt.toISOString(),
+  updatedAt: row.updatedAt.toISOString(),
+});
+
+/**
+ * Resolves where each event type lives publicly. Team event types redirect into the team booking
+ * page; everything else goes to the owner's personal page.
+ */
+export const listRoutingTargets = async (
+  db: QueryableDb,
+  eventTypeIds: string[],
+): Promise<Map<string, RoutingTarget>> => {
+  const uniqueIds = Array.from(new Set(eventTypeIds));
+  if (uniqueIds.length === 0) {
+    return new Map();
+  }
+
+  const rows = await db
+    .select({
+      eventTypeId: eventTypes.id,
+      organizerId: eventTypes.userId,
+      slug: eventTypes.slug,
+      questions: eventTypes.questions,
+      isActive: eventTypes.isActive,
+      username: users.username,
+      teamEventTypeId: teamEventTypes.id,
+      teamSlug: teams.slug,
+    })
+    .from(eventTypes)
+    .innerJoin(users, eq(users.id, eventTypes.userId))
+    .leftJoin(teamEventTypes, eq(teamEventTypes.eventTypeId, eventTypes.id))
+    .leftJoin(teams, eq(teams.id, teamEventTypes.teamId))
+    .where(inArray(eventTypes.id, uniqueIds));
+
+  return new Map(
+    rows.map((row) => [
+      row.eventTypeId,
+      {
+        eventTypeId: row.eventTypeId,
+        organizerId: row.organizerId,
+        teamEventTypeId: row.teamEventTypeId ?? null,
+        basePath: row.teamSlug
+          ? `/team/${encodeURIComponent(row.teamSlug)}/${encodeURIComponent(row.slug)}`
+          : `/${encodeURIComponent(row.username)}/${encodeURIComponent(row.slug)}`,
+        questionIds: toEventQuestions(row.questions).map((question) => question.id),
+        isActive: row.isActive,
+      },
+    ]),
+  );
+};
+
+/**
+ * A form can route to the owner's own event types and to event types owned by anyone who shares a
+ * team with them, which covers team event types and teammates' personal intro calls.
+ */
+export const findUnroutableEventTypeId = async (
+  db: QueryableDb,
+  ownerUserId: string,
+  eventTypeIds: string[],
+): Promise<string | null> => {
+  const uniqueIds = Array.from(new Set(eventTypeIds));
+  if (uniqueIds.length === 0) {
+    return null;
+  }
+
+  const targetRows = await db
+    .select({ id: eventTypes.id, userId: eventTypes.userId })
+    .from(eventTypes)
+    .where(inArray(eventTypes.id, uniqueIds));
+  const ownerByEventTypeId = new Map(targetRows.map((row) => [row.id, row.userId]));
+
+  const teamRows = await db
+    .select({ teamId: teamMembers.teamId })
+    .from(teamMembers)
+    .where(eq(teamMembers.userId, ownerUserId));
+  const teammateRows =
+    teamRows.length > 0
+      ? await db
+          .select({ userId: teamMembers.userId })
+          .from(teamMembers)
+          .where(
+            inArray(
+              teamMembers.teamId,
+              teamRows.map((row) => row.teamId),
+            ),
+          )
+      : [];
+  const allowedOwnerIds = new Set([ownerUserId, ...teammateRows.map((row) => row.userId)]);
+
+  return (
+    uniqueIds.find((eventTypeId) => {
+      const targetOwnerId = ownerByEventTypeId.get(eventTypeId);
+      return !targetOwnerId || !allowedOwnerIds.has(targetOwnerId);
+    }) ?? null
+  );
+};
+
+export const findOwnedRoutingForm = async (db: QueryableDb, ownerUserId: string, formId: string) => {
+  const [row] = await db
+    .select()
+    .from(routingForms)
+    .where(and(eq(routingForms.id, formId), eq(routingForms.userId, ownerUserId)))
+    .limit(1);
+  return row ?? null;
+};
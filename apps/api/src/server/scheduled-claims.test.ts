@@ -0,0 +1,54 @@
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import { describe, expect, it, vi } from 'vitest';
+
+import { claimDueWebhookDeliveryIds, listOrganizersWithDueWork } from './scheduled-claims';
+import type { Database } from './types';
+
+const dialect = new PgDialect();
+const now = new Date('2026-03-10T12:00:00.000Z');
+
+const normalize = (query: SQL) => {
+  const rendered = dialect.sqlToQuery(query);
+  return { sql: rendered.sql.replace(/\s+/g, ' ').trim(), params: rendered.params };
+};
+
+describe('scheduled webhook claims', () => {
+  it('ranks organizers only by deliveries on active subscriptions', async () => {
+    // Held rows on auto-disabled subscriptions are the oldest due rows. If they counted, a handful of
+    // disabled owners would fill every organizer slot each tick and nothing would ever be sent.
+    const disabledOwners = ['org-disabled-1', 'org-disabled-2', 'org-disabled-3'];
+    const execute = vi.fn<(query: SQL) => Promise<{ rows: Array<{ organizer_id: string }> }>>(async () => ({
+      rows: [{ organizer_id: 'org-active' }],
+    }));
+
+    const organizerIds = await listOrganizersWithDueWork({ execute } as unknown as Pick<Database, 'execute'>, {
+      queue: 'webhooks',
+      now,
+      limit: disabledOwners.length - 1,
+    });
+
+    const { sql, params } = normalize(execute.mock.calls[0]![0]);
+    expect(sql).toContain(
+      "where subscriptions.is_active = true and deliveries.status = 'pending' and deliveries.next_attempt_at <= $1",
+    );
+    expect(sql).toMatch(/order by oldest_due_at asc limit \$2$/);
+    expect(params).toEqual([now, disabledOwners.length - 1]);
+    expect(organizerIds).toEqual(['org-active']);
+  });
+
+  it('claims with the same active-subscription filter the organizer listing uses', async () => {
+    const execute = vi.fn<(query: SQL) => Promise<{ rows: never[] }>>(async () => ({ rows: [] }));
+    const transaction = vi.fn(async (run: (tx: unknown) => Promise<unknown>) => run({ execute }));
+
+    await claimDueWebhookDeliveryIds({ transaction } as unknown as Pick<Database, 'transaction'>, {
+      organizerId: 'org-active',
+      now,
+      limit: 10,
+    });
+
+    expect(normalize(execute.mock.calls[0]![0]).sql).toContain(
+      "and subscriptions.is_active = true and deliveries.status = 'pending'",
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import { sql } from 'drizzle-orm';
+
+import { NOTIFICATION_RUN_MAX_ATTEMPTS } from './env';
+import type { Database } from './types';
+
+export type ScheduledQueue = 'notifications' | 'webhooks' | 'writeback';
+
+const WEBHOOK_DELIVERY_LEASE_MINUTES = 3;
+const CALENDAR_SYNC_LEASE_MINUTES = 5;
+
+// Organizers with due work, oldest first. Ordering by the oldest due row means an organizer with a
+// large backlog cannot keep everyone else waiting: each tick serves a bounded slice per organizer.
+export const listOrganizersWithDueWork = async (
+  db: Pick<Database, 'execute'>,
+  input: { queue: ScheduledQueue; now: Date; limit: number },
+): Promise<string[]> => {
+  const query =
+    input.queue === 'notifications'
+      ? sql`
+          select organizer_id, min(send_at) as oldest_due_at
+          from scheduled_notifications
+          where status in ('pending', 'failed')
+            and attempt_count < ${NOTIFICATION_RUN_MAX_ATTEMPTS}
+            and send_at <= ${input.now}
+            and (leased_until is null or leased_until <= ${input.now})
+          group by organizer_id
+        `
+      : input.queue === 'webhooks'
+        ? sql`
+            select subscriptions.user_id as organizer_id, min(deliveries.next_attempt_at) as oldest_due_at
+            from webhook_deliveries as deliveries
+            inner join webhook_subscriptions as subscriptions on subscriptions.id = deliveries.subscription_id
+            where subscriptions.is_active = true
+              and deliveries.status = 'pending'
+              and deliveries.next_attempt_at <= ${input.now}
+            group by subscriptions.user_id
+          `
+        : sql`
+            select organizer_id, min(next_attempt_at) as oldest_due_at
+            from booking_external_events
+            where status = 'pending'
+              and next_attempt_at <= ${input.now}
+            group by organizer_id
+          `;
+
+  const result = await db.execute<{ organizer_id: string }>(sql`
+    select organizer_id from (${query}) as due_organizers
+    order by oldest_due_at asc
+    limit ${input.limit}
+  `);
+  return result.rows.map((row) => row.organizer_id);
+};
+
+// Leases due deliveries by pushing `next_attempt_at` past the lease window, so an overlapping cron
+// tick or a manual runner skips them. A crashed run simply retries once the lease lapses.
+export const claimDueWebhookDeliveryIds = async (
+  db: Pick<Database, 'transaction'>,
+  input: { organizerId: string; now: Date; limit: number },
+): Promise<string[]> => {
+  const leaseUntil = new Date(input.now.getTime() + WEBHOOK_DELIVERY_LEASE_MINUTES * 60_000);
+  return db.transaction(async (transaction) => {
+    const claimed = await transaction.execute<{ id: string }>(sql`
+      with due_rows as (
+        select deliveries.id
+        from webhook_deliveries as deliveries
+        inner join webhook_subscriptions as subscriptions on subscriptions.id = deliveries.subscription_id
+        where subscriptions.user_id = ${input.organizerId}
+          and subscriptions.is_active = true
+          and deliveries.status = 'pending'
+          and deliveries.next_attempt_at <= ${input.now}
+        order by deliveries.next_attempt_at asc
+        limit ${input.limit}
+        for update of deliveries skip locked
+      )
+      update webhook_deliveries as target
+      set next_attempt_at = ${leaseUntil},
+          updated_at = ${input.now}
+      from due_rows
+      where target.id = due_rows.id
+      returning target.id
+    `);
+    return claimed.rows.map((row) => row.id);
+  });
+};
+
+// Connections that feed conflict checks and are due for a busy-time refresh. Never-synced
+// connections come first. The sync itself overwrites `next_sync_at` with the regular cadence.
+export const claimDueCalendarSyncConnectionIds = async (
+  db: Pick<Database, 'transaction'>,
+  input: { now: Date; limit: number },
+): Promise<string[]> => {
+  const leaseUntil = new Date(input.now.getTime() + CALENDAR_SYNC_LEASE_MINUTES * 60_000);
+  return db.transaction(async (transaction) => {
+    const claimed = await transaction.execute<{ id: string }>(sql`
+      with due_rows as (
+        select id
+        from calendar_connections
+        where use_for_conflict_checks = true
+          and (next_sync_at is null or next_sync_at <= ${input.now})
+        order by next_sync_at asc nulls first
+        limit ${input.limit}
+        for update skip locked
+      )
+      update calendar_connections as target
+      set next_sync_at = ${leaseUntil},
+          updated_at = ${input.now}
+      from due_rows
+      where target.id = due_rows.id
+      returning target.id
+    `);
+    return claimed.rows.map((row) => row.id);
+  });
+};
@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { claimsMock, runnersMock } = vi.hoisted(() => ({
+  claimsMock: {
+    listOrganizersWithDueWork: vi.fn(),
+    claimDueCalendarSyncConnectionIds: vi.fn(),
+  },
+  runnersMock: {
+    runScheduledNotificationBatch: vi.fn(),
+    runWebhookDeliveryBatch: vi.fn(),
+    runCalendarWritebackBatch: vi.fn(),
+    syncCalendarConnection: vi.fn(),
+    expireStalePaymentHolds: vi.fn(),
+  },
+}));
+
+vi.mock('./scheduled-claims', () => claimsMock);
+vi.mock('./notifications', () => ({ runScheduledNotificationBatch: runnersMock.runScheduledNotificationBatch }));
+vi.mock('./webhook-deliveries', () => ({ runWebhookDeliveryBatch: runnersMock.runWebhookDeliveryBatch }));
+vi.mock('./calendar-writeback-runner', () => ({
+  runCalendarWritebackBatch: runnersMock.runCalendarWritebackBatch,
+}));
+vi.mock('./calendar-connection-sync', () => ({ syncCalendarConnection: runnersMock.syncCalendarConnection }));
+vi.mock('./booking-holds', () => ({ expireStalePaymentHolds: runnersMock.expireStalePaymentHolds }));
+
+import { DEFAULT_SCHEDULED_TICK_BUDGETS, runScheduledTick } from './scheduled-worker';
+import type { Bindings, Database } from './types';
+
+const now = new Date('2026-03-10T12:00:00.000Z');
+const env = { SESSION_SECRET: 'x'.repeat(32) } as Bindings;
+const db = {} as Database;
+
+const batchResult = (processed: number, failed = 0) => ({
+  processed,
+  succeeded: processed - failed,
+  failed,
+});
+
+describe('scheduled worker tick', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    claimsMock.listOrganizersWithDueWork.mockResolvedValue([]);
+    claimsMock.claimDueCalendarSyncConnectionIds.mockResolvedValue([]);
+    runnersMock.expireStalePaymentHolds.mockResolvedValue([]);
+  });
+
+  it('caps each organizer at the per-organizer limit and stops at the queue budget', async () => {
+    claimsMock.listOrganizersWithDueWork.mockImplementation(async (_db: unknown, { queue }: { queue: string }) =>
+      queue === 'notifications' ? ['org-a', 'org-b', 'org-c'] : [],
+    );
+    runnersMock.runScheduledNotificationBatch.mockImplementation(
+      async (_env: unknown, _db: unknown, input: { limit: number }) => batchResult(input.limit),
+    );
+
+    const summary = await runScheduledTick(db, env, {
+      now,
+      budgets: { ...DEFAULT_SCHEDULED_TICK_BUDGETS, perOrganizerLimit: 4, notifications: 6 },
+    });
+
+    expect(runnersMock.runScheduledNotificationBatch.mock.calls.map((call) => call[2])).toEqual([
+      { organizerId: 'org-a', limit: 4, now },
+      { organizerId: 'org-b', limit: 2, now },
+    ]);
+    expect(summary.notifications).toEqual({ organizers: 2, processed: 6, succeeded: 6, failed: 0, errors: 0 });
+    expect(summary.budgetExhausted).toBe(false);
+  });
+
+  it('keeps draining other organizers when one batch throws', async () => {
+    claimsMock.listOrganizersWithDueWork.mockImplementation(async (_db: unknown, { queue }: { queue: string }) =>
+      queue === 'webhooks' ? ['org-broken', 'org-ok'] : [],
+    );
+    runnersMock.runWebhookDeliveryBatch
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValueOnce(batchResult(3, 1));
+
+    const summary = await runScheduledTick(db, env, { now });
+
+    expect(runnersMock.runWebhookDeliveryBatch).toHaveBeenCalledTimes(2);
+    expect(summary.webhooks).toEqual({ organizers: 2, processed: 3, succeeded: 2, failed: 1, errors: 1 });
+  });
+
+  it('stops starting new work once the time budget is spent', async () => {
+    claimsMock.listOrganizersWithDueWork.mockResolvedValue(['org-a', 'org-b']);
+    runnersMock.runScheduledNotificationBatch.mockResolvedValue(batchResult(1));
+    let elapsed = 0;
+    const clock = () => {
+      elapsed += 1_000;
+      return elapsed;
+    };
+
+    const summary = await runScheduledTick(db, env, {
+      now,
+      clock,
+      budgets: { ...DEFAULT_SCHEDULED_TICK_BUDGETS, timeBudgetMs: 2_500 },
+    });
+
+    expect(runnersMock.runScheduledNotificationBatch).toHaveBeenCalledTimes(1);
+    expect(runnersMock.runWebhookDeliveryBatch).not.toHaveBeenCalled();
+    expect(runnersMock.runCalendarWritebackBatch).not.toHaveBeenCalled();
+    expect(claimsMock.claimDueCalendarSyncConnectionIds).not.toHaveBeenCalled();
+    expect(summary.budgetExhausted).toBe(true);
+  });
+
+  it('skips calendar sync when no encryption secret is configured', async () => {
+    const summary = await runScheduledTick(db, {} as Bindings, { now });
+
+    expect(claimsMock.claimDueCalendarSyncConnectionIds).not.toHaveBeenCalled();
+    expect(summary.calendarSync.processed).toBe(0);
+  });
+
+  it('expires lapsed payment holds and keeps going when the sweep fails', async () => {
+    runnersMock.expireStalePaymentHolds.mockResolvedValueOnce(['booking-a', 'booking-b']);
+    expect((await runScheduledTick(db, env, { now })).paymentHoldsExpired).toBe(2);
+    expect(runnersMock.expireStalePaymentHolds).toHaveBeenCalledWith(db, { now, limit: 100 });
+
+    runnersMock.expireStalePaymentHolds.mockRejectedValueOnce(new Error('boom'));
+    const summary = await runScheduledTick(db, env, { now });
+    expect(summary.paymentHoldsExpired).toBe(0);
+    expect(claimsMock.listOrganizersWithDueWork).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,208 @@
+import { eq, inArray } from 'drizzle-orm';
+
+import { calendarConnections, users } from '@opencalendly/db';
+
+import { expireStalePaymentHolds } from './booking-holds';
+import { syncCalendarConnection } from './calendar-connection-sync';
+import { runCalendarWritebackBatch } from './calendar-writeback-runner';
+import { logInternalError } from './core';
+import {
+  PAYMENT_HOLD_EXPIRY_BATCH_LIMIT,
+  SCHEDULED_TICK_CALENDAR_SYNC_BUDGET,
+  SCHEDULED_TICK_NOTIFICATION_BUDGET,
+  SCHEDULED_TICK_ORGANIZER_LIMIT,
+  SCHEDULED_TICK_PER_ORGANIZER_LIMIT,
+  SCHEDULED_TICK_TIME_BUDGET_MS,
+  SCHEDULED_TICK_WEBHOOK_BUDGET,
+  SCHEDULED_TICK_WRITEBACK_BUDGET,
+  resolveCalendarEncryptionSecret,
+  toCalendarProvider,
+} from './env';
+import { runScheduledNotificationBatch } from './notifications';
+import {
+  claimDueCalendarSyncConnectionIds,
+  listOrganizersWithDueWork,
+  type ScheduledQueue,
+} from './scheduled-claims';
+import type { Bindings, Database } from './types';
+import { runWebhookDeliveryBatch } from './webhook-deliveries';
+
+export type ScheduledTickBudgets = {
+  timeBudgetMs: number;
+  organizerLimit: number;
+  perOrganizerLimit: number;
+  notifications: number;
+  webhooks: number;
+  writeback: number;
+  calendarSyncs: number;
+};
+
+export type ScheduledQueueSummary = {
+  organizers: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  errors: number;
+};
+
+export type ScheduledTickSummary = {
+  notifications: ScheduledQueueSummary;
+  webhooks: ScheduledQueueSummary;
+  writeback: ScheduledQueueSummary;
+  calendarSync: ScheduledQueueSummary;
+  paymentHoldsExpired: number;
+  budgetExhausted: boolean;
+};
+
+export const DEFAULT_SCHEDULED_TICK_BUDGETS: ScheduledTickBudgets = {
+  timeBudgetMs: SCHEDULED_TICK_TIME_BUDGET_MS,
+  organizerLimit: SCHEDULED_TICK_ORGANIZER_LIMIT,
+  perOrganizerLimit: SCHEDULED_TICK_PER_ORGANIZER_LIMIT,
+  notifications: SCHEDULED_TICK_NOTIFICATION_BUDGET,
+  webhooks: SCHEDULED_TICK_WEBHOOK_BUDGET,
+  writeback: SCHEDULED_TICK_WRITEBACK_BUDGET,
+  calendarSyncs: SCHEDULED_TICK_CALENDAR_SYNC_BUDGET,
+};
+
+const emptyQueueSummary = (): ScheduledQueueSummary => ({
+  organizers: 0,
+  processed: 0,
+  succeeded: 0,
+  failed: 0,
+  errors: 0,
+});
+
+type BatchRunner = (
+  organizerId: string,
+  limit: number,
+) => Promise<{ processed: number; succeeded: number; failed: number }>;
+
+const buildBatchRunner = (db: Database, env: Bindings, queue: ScheduledQueue, now: Date): BatchRunner => {
+  if (queue === 'notifications') {
+    return (organizerId, limit) => runScheduledNotificationBatch(env, db, { organizerId, limit, now });
+  }
+  if (queue === 'webhooks') {
+    return (organizerId, limit) => runWebhookDeliveryBatch(db, { organizerId, env, limit, now });
+  }
+  return (organizerId, limit) => runCalendarWritebackBatch(db, env, { organizerId, limit });
+};
+
+export const runScheduledTick = async (
+  db: Database,
+  env: Bindings,
+  input: { now?: Date; budgets?: ScheduledTickBudgets; clock?: () => number } = {},
+): Promise<ScheduledTickSummary> => {
+  const now = input.now ?? new Date();
+  const budgets = input.budgets ?? DEFAULT_SCHEDULED_TICK_BUDGETS;
+  const clock = input.clock ?? Date.now;
+  const deadline = clock() + budgets.timeBudgetMs;
+  let budgetExhausted = false;
+  const hasTimeLeft = () => {
+    if (clock() < deadline) {
+      return true;
+    }
+    budgetExhausted = true;
+    return false;
+  };
+
+  const drainQueue = async (queue: ScheduledQueue, queueBudget: number): Promise<ScheduledQueueSummary> => {
+    const summary = emptyQueueSummary();
+    if (!hasTimeLeft()) {
+      return summary;
+    }
+    const organizerIds = await listOrganizersWithDueWork(db, { queue, now, limit: budgets.organizerLimit });
+    const runBatch = buildBatchRunner(db, env, queue, now);
+    let remaining = queueBudget;
+
+    for (const organizerId of organizerIds) {
+      if (remaining <= 0 || !hasTimeLeft()) {
+        break;
+      }
+      summary.organizers += 1;
+      try {
+        const outcome = await runBatch(organizerId, Math.min(budgets.perOrganizerLimit, remaining));
+        remaining -= outcome.processed;
+        summary.processed += outcome.processed;
+        summary.succeeded += outcome.succeeded;
+        summary.failed += outcome.failed;
+      } catch (error) {
+        // One organizer's broken row must not stall everyone else's queue for the tick.
+        summary.errors += 1;
+        logInternalError(`scheduled_${queue}_batch_failed`, error);
+      }
+    }
+    return summary;
+  };
+
+  // Booking transactions expire their organizer's lapsed holds lazily; this catches everyone else.
+  let paymentHoldsExpired = 0;
+  try {
+    paymentHoldsExpired = (await expireStalePaymentHolds(db, { now, limit: PAYMENT_HOLD_EXPIRY_BATCH_LIMIT })).length;
+  } catch (error) {
+    logInternalError('scheduled_payment_hold_expiry_failed', error);
+  }
+
+  const notifications = await drainQueue('notifications', budgets.notifications);
+  const webhooks = await drainQueue('webhooks', budgets.webhooks);
+  const writeback = await drainQueue('writeback', budgets.writeback);
+  const calendarSync = hasTimeLeft()
+    ? await syncDueCalendarConnections(db, env, { now, limit: budgets.calendarSyncs, hasTimeLeft })
+    : emptyQueueSummary();
+
+  return { notifications, webhooks, writeback, calendarSync, paymentHoldsExpired, budgetExhausted };
+};
+
+const syncDueCalendarConnections = async (
+  db: Database,
+  env: Bindings,
+  input: { now: Date; limit: number; hasTimeLeft: () => boolean },
+): Promise<ScheduledQueueSummary> => {
+  const summary = emptyQueueSummary();
+  const encryptionSecret = resolveCalendarEncryptionSecret(env);
+  if (!encryptionSecret || input.limit <= 0) {
+    return summary;
+  }
+
+  const connectionIds = await claimDueCalendarSyncConnectionIds(db, { now: input.now, limit: input.limit });
+  if (connectionIds.length === 0) {
+    return summary;
+  }
+
+  const rows = await db
+    .select({
+      id: calendarConnections.id,
+      userId: calendarConnections.userId,
+      provider: calendarConnections.provider,
+      externalEmail: calendarConnections.externalEmail,
+      accessTokenEncrypted: calendarConnections.accessTokenEncrypted,
+      refreshTokenEncrypted: calendarConnections.refreshTokenEncrypted,
+      accessTokenExpiresAt: calendarConnections.accessTokenExpiresAt,
+      caldavCalendarUrl: calendarConnections.caldavCalendarUrl,
+      userEmail: users.email,
+    })
+    .from(calendarConnections)
+    .innerJoin(users, eq(users.id, calendarConnections.userId))
+    .where(inArray(calendarConnections.id, connectionIds));
+
+  summary.organizers = new Set(rows.map((row) => row.userId)).size;
+  for (const row of rows) {
+    const provider = toCalendarProvider(row.provider);
+    if (!provider || !input.hasTimeLeft()) {
+      continue;
+    }
+    const { userEmail, ...connection } = row;
+    const result = await syncCalendarConnection(db, env, {
+      connection: { ...connection, provider },
+      encryptionSecret,
+      scheduleSmtpFallback: userEmail,
+      now: new Date(),
+    });
+    summary.processed += 1;
+    if (result.ok) {
+      summary.succeeded += 1;
+    } else {
+      summary.failed += 1;
+    }
+  }
+  return summary;
+};
@@ -0,0 +1,310 @@
+import { and, asc, eq, gt, inArray, lte } from 'drizzle-orm';
+
+import { eventTypes, slotWaitlistEntries, users } from '@opencalendly/db';
+import type { SlotWaitlistScope } from '@opencalendly/shared';
+
+import { createRawToken, hashToken } from '../lib/auth';
+import { BookingNotFoundError, BookingValidationError, validateBookingAnswers } from '../lib/booking';
+import type { BookingAnswers } from '../lib/booking-answers';
+import {
+  WAITLIST_OFFER_TTL_MINUTES,
+  evaluateWaitlistOffer,
+  findEventTypeWaitlistIssue,
+  listFreedSlotWindowKeys,
+  resolveWaitlistWindowKey,
+  waitlistEntryMatchesFreedSlot,
+} from '../lib/slot-waitlist';
+import { requiresLaunchDemoAuthForUserRoute } from './demo-quota';
+import { createOneOnOneBooking } from './one-on-one-booking';
+import { findPublicEventType } from './public-events';
+import type { AuthenticatedUser, Bindings, Database } from './types';
+import { BookingActionGoneError, BookingActionNotFoundError, LaunchDemoAuthError } from './types';
+
+// Only the first few matches are read; offers go out one at a time, oldest first.
+const WAITLIST_OFFER_CANDIDATE_LIMIT = 20;
+
+export type SlotWaitlistOffer = {
+  entryId: string;
+  freedBookingId: string;
+  eventTypeId: string;
+  organizerId: string;
+  eventName: string;
+  organizerDisplayName: string;
+  inviteeName: string;
+  inviteeEmail: string;
+  timezone: string;
+  startsAt: Date;
+  expiresAt: Date;
+  claimToken: string;
+};
+
+const expireLapsedOffers = async (db: Database, input: { eventTypeId: string; now: Date }): Promise<void> => {
+  await db
+    .update(slotWaitlistEntries)
+    .set({ status: 'expired' })
+    .where(
+      and(
+        eq(slotWaitlistEntries.eventTypeId, input.eventTypeId),
+        eq(slotWaitlistEntries.status, 'offered'),
+        lte(slotWaitlistEntries.offerExpiresAt, input.now),
+      ),
+    );
+};
+
+export const joinSlotWaitlist = async (
+  db: Database,
+  input: {
+    username: string;
+    eventSlug: string;
+    scope: SlotWaitlistScope;
+    startsAt?: string | undefined;
+    date?: string | undefined;
+    timezone: string;
+    inviteeName: string;
+    inviteeEmail: string;
+    answers?: BookingAnswers | undefined;
+    now: Date;
+  },
+) => {
+  const eventType = await findPublicEventType(db, input.username, input.eventSlug);
+  if (!eventType) {
+    throw new BookingNotFoundError('Event type not found.');
+  }
+  const issue = findEventTypeWaitlistIssue(eventType);
+  if (issue) {
+    throw new BookingValidationError(issue);
+  }
+  const answers = validateBookingAnswers(eventType.questions, input.answers);
+  const window = resolveWaitlistWindowKey(input);
+  if ('error' in window) {
+    throw new BookingValidationError(window.error);
+  }
+
+  await expireLapsedOffers(db, { eventTypeId: eventType.id, now: input.now });
+  const [inserted] = await db
+    .insert(slotWaitlistEntries)
+    .values({
+      eventTypeId: eventType.id,
+      organizerId: eventType.userId,
+      scope: input.scope,
+      windowKey: window.windowKey,
+      inviteeName: input.inviteeName,
+      inviteeEmail: input.inviteeEmail.toLowerCase(),
+      timezone: input.timezone,
+      answers,
+    })
+    .onConflictDoNothing()
+    .returning({ id: slotWaitlistEntries.id });
+  if (inserted) {
+    return { id: inserted.id, scope: input.scope, windowKey: window.windowKey, alreadyJoined: false };
+  }
+
+  const [existing] = await db
+    .select({ id: slotWaitlistEntries.id })
+    .from(slotWaitlistEntries)
+    .where(
+      and(
+        eq(slotWaitlistEntries.eventTypeId, eventType.id),
+        eq(slotWaitlistEntries.windowKey, window.windowKey),
+        eq(slotWaitlistEntries.inviteeEmail, input.inviteeEmail.toLowerCase()),
+        inArray(slotWaitlistEntries.status, ['waiting', 'offered']),
+      ),
+    )
+    .limit(1);
+  if (!existing) {
+    throw new Error('Failed to join the waitlist.');
+  }
+  return { id: existing.id, scope: input.scope, windowKey: window.windowKey, alreadyJoined: true };
+};
+
+/**
+ * Hands a freed slot to the oldest matching waitlist entry. The offer does not hold the slot: the
+ * claim books it through the normal booking path, so anyone who books first still wins.
+ */
+export const offerFreedSlotToWaitlist = async (
+  db: Database,
+  input: { booking: { id: string; eventTypeId: string; organizerId: string; startsAt: Date }; now: Date },
+): Promise<SlotWaitlistOffer | null> => {
+  const { booking, now } = input;
+  if (booking.startsAt.getTime() <= now.getTime()) {
+    return null;
+  }
+
+  await expireLapsedOffers(db, { eventTypeId: booking.eventTypeId, now });
+  const candidates = await db
+    .select({
+      id: slotWaitlistEntries.id,
+      scope: slotWaitlistEntries.scope,
+      windowKey: slotWaitlistEntries.windowKey,
+      timezone: slotWaitlistEntries.timezone,
+    })
+    .from(slotWaitlistEntries)
+    .where(
+      and(
+        eq(slotWaitlistEntries.eventTypeId, booking.eventTypeId),
+        eq(slotWaitlistEntries.status, 'waiting'),
+        inArray(slotWaitlistEntries.windowKey, listFreedSlotWindowKeys(booking.startsAt)),
+      ),
+    )
+    .orderBy(asc(slotWaitlistEntries.createdAt))
+    .limit(WAITLIST_OFFER_CANDIDATE_LIMIT);
+  const matches = candidates.filter((candidate) => waitlistEntryMatchesFreedSlot(candidate, booking.startsAt));
+  if (matches.length === 0) {
+    return null;
+  }
+
+  const [context] = await db
+    .select({ eventName: eventTypes.name, isActive: eventTypes.isActive, organizerDisplayName: users.displayName })
+    .from(eventTypes)
+    .innerJoin(users, eq(users.id, eventTypes.userId))
+    .where(eq(eventTypes.id, booking.eventTypeId))
+    .limit(1);
+  if (!context?.isActive) {
+    return null;
+  }
+
+  const expiresAt = new Date(now.getTime() + WAITLIST_OFFER_TTL_MINUTES * 60_000);
+  for (const match of matches) {
+    const claimToken = createRawToken();
+    // Guarded on status so a concurrent cancellation cannot offer the same entry twice.
+    const [offered] = await db
+      .update(slotWaitlistEntries)
+      .set({
+        status: 'offered',
+        claimTokenHash: hashToken(claimToken),
+        offeredStartsAt: booking.startsAt,
+        offerExpiresAt: expiresAt,
+      })
+      .where(and(eq(slotWaitlistEntries.id, match.id), eq(slotWaitlistEntries.status, 'waiting')))
+      .returning({
+        inviteeName: slotWaitlistEntries.inviteeName,
+        inviteeEmail: slotWaitlistEntries.inviteeEmail,
+        timezone: slotWaitlistEntries.timezone,
+      });
+    if (offered) {
+      return {
+        entryId: match.id,
+        freedBookingId: booking.id,
+        eventTypeId: booking.eventTypeId,
+        organizerId: booking.organizerId,
+        eventName: context.eventName,
+        organizerDisplayName: context.organizerDisplayName,
+        ...offered,
+        startsAt: booking.startsAt,
+        expiresAt,
+        claimToken,
+      };
+    }
+  }
+  return null;
+};
+
+const findOfferByToken = async (db: Database, token: string) => {
+  const [row] = await db
+    .select({
+      id: slotWaitlistEntries.id,
+      status: slotWaitlistEntries.status,
+      inviteeName: slotWaitlistEntries.inviteeName,
+      inviteeEmail: slotWaitlistEntries.inviteeEmail,
+      timezone: slotWaitlistEntries.timezone,
+      answers: slotWaitlistEntries.answers,
+      offeredStartsAt: slotWaitlistEntries.offeredStartsAt,
+      offerExpiresAt: slotWaitlistEntries.offerExpiresAt,
+      eventTypeSlug: eventTypes.slug,
+      eventTypeName: eventTypes.name,
+      durationMinutes: eventTypes.durationMinutes,
+      priceCents: eventTypes.priceCents,
+      requiresConfirmation: eventTypes.requiresConfirmation,
+      organizerUsername: users.username,
+      organizerDisplayName: users.displayName,
+    })
+    .from(slotWaitlistEntries)
+    .innerJoin(eventTypes, eq(eventTypes.id, slotWaitlistEntries.eventTypeId))
+    .innerJoin(users, eq(users.id, slotWaitlistEntries.organizerId))
+    .where(eq(slotWaitlistEntries.claimTokenHash, hashToken(token)))
+    .limit(1);
+  if (!row?.offeredStartsAt) {
+    throw new BookingActionNotFoundError('Waitlist offer not found.');
+  }
+  return { ...row, offeredStartsAt: row.offeredStartsAt };
+};
+
+export const lookupWaitlistOffer = async (db: Database, input: { token: string; now: Date }) => {
+  const row = await findOfferByToken(db, input.token);
+  return {
+    offer: {
+      state: evaluateWaitlistOffer({ status: row.status, offerExpiresAt: row.offerExpiresAt, now: input.now }),
+      startsAt: row.offeredStartsAt.toISOString(),
+      endsAt: new Date(row.offeredStartsAt.getTime() + row.durationMinutes * 60_000).toISOString(),
+      expiresAt: row.offerExpiresAt?.toISOString() ?? null,
+      timezone: row.timezone,
+      inviteeName: row.inviteeName,
+    },
+    eventType: { slug: row.eventTypeSlug, name: row.eventTypeName, durationMinutes: row.durationMinutes },
+    organizer: { username: row.organizerUsername, displayName: row.organizerDisplayName },
+  };
+};
+
+/**
+ * Claims the entry first so one link can only ever book once, then books through
+ * `createOneOnOneBooking`. If the slot was taken or no longer fits the event type, the entry goes
+ * back to waiting for the next freed slot.
+ */
+export const claimWaitlistOffer = async (
+  db: Database,
+  env: Bindings,
+  authedUser: AuthenticatedUser | null,
+  input: { token: string; now: Date },
+) => {
+  const row = await findOfferByToken(db, input.token);
+  if (requiresLaunchDemoAuthForUserRoute(row.organizerUsername) && !authedUser) {
+    throw new LaunchDemoAuthError('Sign in to access the launch demo.');
+  }
+  const issue = findEventTypeWaitlistIssue(row);
+  if (issue) {
+    throw new BookingValidationError(issue);
+  }
+
+  const [claimed] = await db
+    .update(slotWaitlistEntries)
+    .set({ status: 'claimed' })
+    .where(
+      and(
+        eq(slotWaitlistEntries.id, row.id),
+        eq(slotWaitlistEntries.status, 'offered'),
+        gt(slotWaitlistEntries.offerExpiresAt, input.now),
+      ),
+    )
+    .returning({ id: slotWaitlistEntries.id });
+  if (!claimed) {
+    throw new BookingActionGoneError('This waitlist offer has expired or was already claimed.');
+  }
+
+  try {
+    const result = await createOneOnOneBooking(
+      db,
+      env,
+      requiresLaunchDemoAuthForUserRoute(row.organizerUsername) ? authedUser : null,
+      {
+        username: row.organizerUsername,
+        eventSlug: row.eventTypeSlug,
+        startsAt: row.offeredStartsAt.toISOString(),
+        timezone: row.timezone,
+        inviteeName: row.inviteeName,
+        inviteeEmail: row.inviteeEmail,
+        answers: row.answers as BookingAnswers,
+      },
+    );
+    await db
+      .update(slotWaitlistEntries)
+      .set({ claimedBookingId: result.booking.id })
+      .where(eq(slotWaitlistEntries.id, row.id));
+    return { ...result, timezone: row.timezone };
+  } catch (error) {
+    await db
+      .update(slotWaitlistEntries)
+      .set({ status: 'waiting', claimTokenHash: null, offeredStartsAt: null, offerExpiresAt: null })
+      .where(eq(slotWaitlistEntries.id, row.id));
+    throw error;
+  }
+};
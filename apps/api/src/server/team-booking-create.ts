@@ -1,33 +1,25 @@
-import { and, asc, eq, sql } from 'drizzle-orm';
+import { eq, sql } from 'drizzle-orm';
 import { DateTime } from 'luxon';
 
-import {
-  bookingActionTokens,
-  bookings,
-  teamBookingAssignments,
-  teamEventTypeMembers,
-  teamEventTypes,
-  teams,
-  users,
-} from '@opencalendly/db';
+import { bookingActionTokens, bookings, teamBookingAssignments, teamEventTypes, teams, users } from '@opencalendly/db';
 
+import { toEventTypeSchedulingRules, type EventTypeSchedulingRules } from '../lib/availability';
 import {
+  assertWithinBookableWindow,
   createBookingActionTokenSet,
   BookingConflictError,
   BookingNotFoundError,
   BookingValidationError,
   validateBookingAnswers,
 } from '../lib/booking';
+import type { BookingAnswers } from '../lib/booking-answers';
 import { buildBookingCapWindowsForSlot } from '../lib/booking-caps';
 import { consumeDemoFeatureCredits } from './demo-quota';
 import { isUniqueViolation } from './database';
 import { enqueueScheduledNotificationsForBooking } from './notifications';
-import {
-  countConfirmedBookingsForEventTypeWindow,
-  resolveTeamMode,
-  toEventTypeBookingCaps,
-} from './team-context';
-import { listTeamMemberSchedules, resolveTeamRequestedSlot } from './team-schedules';
+import { countConfirmedBookingsForEventTypeWindow, resolveTeamMode, toEventTypeBookingCaps } from './team-context';
+import { listRequiredTeamEventMembers, loadRoundRobinPolicy } from './team-round-robin';
+import { listOptionalTeamMemberSchedules, listTeamMemberSchedules, resolveTeamRequestedSlot } from './team-schedules';
 import { normalizeTimezone } from './core';
 import { toEventQuestions } from './public-events';
 import type { AuthenticatedUser, Bindings, Database, DemoQuotaDb, TeamSchedulingMode } from './types';
@@ -39,7 +31,7 @@ type TeamBookingCreateInput = {
   timezone: string;
   inviteeName: string;
   inviteeEmail: string;
-  answers?: Record<string, string>;
+  answers?: BookingAnswers;
 };
 
 export const createTeamBooking = async (
@@ -60,6 +52,7 @@ export const createTeamBooking = async (
   eventType: { id: string; name: string; locationType: string; locationValue: string | null };
   team: { id: string; name: string; mode: TeamSchedulingMode; teamEventTypeId: string };
   organizer: { id: string; email: string; displayName: string };
+  answers: BookingAnswers;
   actionTokens: ReturnType<typeof createBookingActionTokenSet>['publicTokens'];
   assignmentUserIds: string[];
   queuedNotifications: number;
@@ -110,6 +103,8 @@ export const createTeamBooking = async (
       teamEventTypeId: string;
       mode: string;
       roundRobinCursor: number;
+      roundRobinStrategy: string;
+      roundRobinWindowDays: number;
       eventTypeId: string;
       eventTypeName: string;
       durationMinutes: number;
@@ -121,11 +116,13 @@ export const createTeamBooking = async (
       organizerTimezone: string;
       isActive: boolean;
       questions: unknown;
-    }>(sql`
+    } & EventTypeSchedulingRules>(sql`
       select
         tet.id as "teamEventTypeId",
         tet.mode,
         tet.round_robin_cursor as "roundRobinCursor",
+        tet.round_robin_strategy as "roundRobinStrategy",
+        tet.round_robin_window_days as "roundRobinWindowDays",
         et.id as "eventTypeId",
         et.name as "eventTypeName",
         et.duration_minutes as "durationMinutes",
@@ -135,6 +132,11 @@ export const createTeamBooking = async (
         et.location_type as "locationType",
         et.location_value as "locationValue",
         et.questions,
+        et.minimum_notice_minutes as "minimumNoticeMinutes",
+        et.booking_horizon_days as "bookingHorizonDays",
+        et.buffer_before_minutes as "bufferBeforeMinutes",
+        et.buffer_after_minutes as "bufferAfterMinutes",
+        et.slot_increment_minutes as "slotIncrementMinutes",
         u.timezone as "organizerTimezone",
         et.is_active as "isActive"
       from team_event_types tet
@@ -150,23 +152,25 @@ export const createTeamBooking = async (
       throw new BookingNotFoundError('Team event type not found.');
     }
     const organizerTimezone = normalizeTimezone(teamEventRow.organizerTimezone);
+    const eventTypeRules = toEventTypeSchedulingRules(teamEventRow);
+    assertWithinBookableWindow(startsAt.toJSDate(), eventTypeRules);
     const normalizedAnswers = validateBookingAnswers(toEventQuestions(teamEventRow.questions), input.answers);
 
-    const memberRows = await transaction
-      .select({ userId: teamEventTypeMembers.userId })
-      .from(teamEventTypeMembers)
-      .where(
-        and(
-          eq(teamEventTypeMembers.teamEventTypeId, teamEventRow.teamEventTypeId),
-          eq(teamEventTypeMembers.isRequired, true),
-        ),
-      )
-      .orderBy(asc(teamEventTypeMembers.userId));
-
+    const memberRows = await listRequiredTeamEventMembers(transaction, teamEventRow.teamEventTypeId);
     const memberUserIds = memberRows.map((member) => member.userId);
     if (memberUserIds.length === 0) {
       throw new BookingValidationError('Team event has no required members.');
     }
+    const roundRobinPolicy =
+      mode === 'round_robin'
+        ? await loadRoundRobinPolicy(transaction, {
+            teamEventTypeId: teamEventRow.teamEventTypeId,
+            strategy: teamEventRow.roundRobinStrategy,
+            windowDays: teamEventRow.roundRobinWindowDays,
+            members: memberRows,
+            now: new Date(),
+          })
+        : null;
     performance.teamContextLoadMs = Date.now() - stepStartedAt;
 
     const rangeStart = startsAt.minus({ days: 1 });
@@ -187,17 +191,24 @@ export const createTeamBooking = async (
     if (memberSchedules.length !== memberUserIds.length) {
       throw new BookingValidationError('Some required team members no longer exist.');
     }
+    const optionalMemberSchedules =
+      mode === 'collective'
+        ? await listOptionalTeamMemberSchedules(transaction, teamEventRow.teamEventTypeId, rangeStart.toJSDate(), rangeEnd.toJSDate())
+        : [];
     performance.memberScheduleLoadMs = Date.now() - stepStartedAt;
 
     stepStartedAt = Date.now();
     const slotResolution = resolveTeamRequestedSlot({
       mode,
       memberSchedules,
+      optionalMemberSchedules,
       requestedStartsAtIso,
       durationMinutes: teamEventRow.durationMinutes,
       rangeStartIso,
       days: 2,
       roundRobinCursor: teamEventRow.roundRobinCursor,
+      ...(roundRobinPolicy ? { roundRobinPolicy } : {}),
+      eventTypeRules,
     });
     if (!slotResolution) {
       throw new BookingConflictError('Selected slot is no longer available.');
@@ -238,6 +249,7 @@ export const createTeamBooking = async (
         teamEventTypeId: teamEventRow.teamEventTypeId,
         mode,
         assignmentUserIds: slotResolution.assignmentUserIds,
+        optionalAttendeeUserIds: slotResolution.optionalAttendeeUserIds,
       },
     });
 
@@ -377,6 +389,7 @@ export const createTeamBooking = async (
         teamEventTypeId: teamEventRow.teamEventTypeId,
       },
       organizer,
+      answers: normalizedAnswers,
       actionTokens: tokenSet.publicTokens,
       assignmentUserIds: slotResolution.assignmentUserIds,
       queuedNotifications,
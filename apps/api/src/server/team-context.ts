@@ -18,6 +18,7 @@ import {
   type QueryableDb,
   type TeamEventTypeContext,
 } from './types';
+import { slotHoldingBookingCondition } from './booking-holds';
 import { normalizeTimezone } from './core';
 import { toEventQuestions } from './public-events';
 
@@ -47,7 +48,7 @@ export const countConfirmedBookingsForEventTypeWindow = async (
     .where(
       and(
         eq(bookings.eventTypeId, input.eventTypeId),
-        eq(bookings.status, 'confirmed'),
+        slotHoldingBookingCondition(new Date()),
         gte(bookings.startsAt, input.startsAt),
         lt(bookings.startsAt, input.endsAt),
         ...(input.excludeBookingId ? [sql`${bookings.id} <> ${input.excludeBookingId}`] : []),
@@ -67,7 +68,7 @@ export const listConfirmedBookingStartsForEventType = async (
     .where(
       and(
         eq(bookings.eventTypeId, input.eventTypeId),
-        eq(bookings.status, 'confirmed'),
+        slotHoldingBookingCondition(new Date()),
         gte(bookings.startsAt, input.startsAt),
         lt(bookings.startsAt, input.endsAt),
       ),
@@ -99,6 +100,11 @@ export const findTeamEventTypeContext = async (
       locationType: eventTypes.locationType,
       locationValue: eventTypes.locationValue,
       questions: eventTypes.questions,
+      minimumNoticeMinutes: eventTypes.minimumNoticeMinutes,
+      bookingHorizonDays: eventTypes.bookingHorizonDays,
+      bufferBeforeMinutes: eventTypes.bufferBeforeMinutes,
+      bufferAfterMinutes: eventTypes.bufferAfterMinutes,
+      slotIncrementMinutes: eventTypes.slotIncrementMinutes,
       organizerTimezone: users.timezone,
       isActive: eventTypes.isActive,
     })
@@ -118,8 +124,8 @@ export const findTeamEventTypeContext = async (
     return null;
   }
 
-  const requiredMembers = await db
-    .select({ userId: teamMembers.userId, role: teamMembers.role })
+  const eventMembers = await db
+    .select({ userId: teamMembers.userId, role: teamMembers.role, isRequired: teamEventTypeMembers.isRequired })
     .from(teamEventTypeMembers)
     .innerJoin(
       teamMembers,
@@ -128,14 +134,10 @@ export const findTeamEventTypeContext = async (
         eq(teamMembers.userId, teamEventTypeMembers.userId),
       ),
     )
-    .where(
-      and(
-        eq(teamEventTypeMembers.teamEventTypeId, row.teamEventTypeId),
-        eq(teamEventTypeMembers.isRequired, true),
-      ),
-    )
+    .where(eq(teamEventTypeMembers.teamEventTypeId, row.teamEventTypeId))
     .orderBy(asc(teamMembers.createdAt), asc(teamMembers.userId));
 
+  const requiredMembers = eventMembers.filter((member) => member.isRequired);
   if (requiredMembers.length === 0) {
     return null;
   }
@@ -159,11 +161,22 @@ export const findTeamEventTypeContext = async (
       locationType: row.locationType,
       locationValue: row.locationValue,
       questions: toEventQuestions(row.questions),
+      minimumNoticeMinutes: row.minimumNoticeMinutes,
+      bookingHorizonDays: row.bookingHorizonDays,
+      bufferBeforeMinutes: row.bufferBeforeMinutes,
+      bufferAfterMinutes: row.bufferAfterMinutes,
+      slotIncrementMinutes: row.slotIncrementMinutes,
       organizerTimezone: normalizeTimezone(row.organizerTimezone),
       isActive: row.isActive,
     },
     mode,
     roundRobinCursor: row.roundRobinCursor,
     members: requiredMembers.map((member) => ({ userId: member.userId, role: member.role })),
+    optionalMembers:
+      mode === 'collective'
+        ? eventMembers
+            .filter((member) => !member.isRequired)
+            .map((member) => ({ userId: member.userId, role: member.role }))
+        : [],
   };
 };
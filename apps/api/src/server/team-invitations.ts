@@ -0,0 +1,216 @@
+import { and, eq, inArray, sql } from 'drizzle-orm';
+
+import { teamEventTypeMembers, teamEventTypes, teamInvitations, teamMembers, teams, users } from '@opencalendly/db';
+
+import { createRawToken, hashToken } from '../lib/auth';
+import { sendTeamInvitationEmail, type EmailSendResult } from '../lib/email';
+import { TEAM_INVITATION_TTL_DAYS } from './env';
+import type { AuthenticatedUser, Bindings, Database, QueryableDb, TeamInvitationState } from './types';
+import { TeamInvitationUnavailableError } from './types';
+import { enqueueTeamMemberAddedWebhookEvent } from './webhook-events';
+
+export type TeamInvitationRecord = {
+  id: string;
+  teamId: string;
+  email: string;
+  role: 'owner' | 'member';
+  teamEventTypeIds: string[];
+  status: 'pending' | 'accepted' | 'declined' | 'revoked';
+  expiresAt: Date;
+  lastSentAt: Date;
+  sendCount: number;
+  respondedAt: Date | null;
+  createdAt: Date;
+};
+
+export const teamInvitationColumns = {
+  id: teamInvitations.id,
+  teamId: teamInvitations.teamId,
+  email: teamInvitations.email,
+  role: teamInvitations.role,
+  teamEventTypeIds: teamInvitations.teamEventTypeIds,
+  status: teamInvitations.status,
+  expiresAt: teamInvitations.expiresAt,
+  lastSentAt: teamInvitations.lastSentAt,
+  sendCount: teamInvitations.sendCount,
+  respondedAt: teamInvitations.respondedAt,
+  createdAt: teamInvitations.createdAt,
+};
+
+export const normalizeInvitationEmail = (email: string): string => email.trim().toLowerCase();
+
+export const issueTeamInvitationToken = (now: Date): { token: string; tokenHash: string; expiresAt: Date } => {
+  const token = createRawToken();
+  return {
+    token,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(now.getTime() + TEAM_INVITATION_TTL_DAYS * 24 * 60 * 60_000),
+  };
+};
+
+export const resolveTeamInvitationState = (
+  invitation: Pick<TeamInvitationRecord, 'status' | 'expiresAt'>,
+  now: Date,
+): TeamInvitationState => {
+  if (invitation.status === 'pending' && invitation.expiresAt.getTime() <= now.getTime()) {
+    return 'expired';
+  }
+  return invitation.status;
+};
+
+export const serializeTeamInvitation = (invitation: TeamInvitationRecord, now: Date) => {
+  return {
+    id: invitation.id,
+    teamId: invitation.teamId,
+    email: invitation.email,
+    role: invitation.role,
+    teamEventTypeIds: invitation.teamEventTypeIds,
+    state: resolveTeamInvitationState(invitation, now),
+    expiresAt: invitation.expiresAt.toISOString(),
+    lastSentAt: invitation.lastSentAt.toISOString(),
+    sendCount: invitation.sendCount,
+    respondedAt: invitation.respondedAt?.toISOString() ?? null,
+    createdAt: invitation.createdAt.toISOString(),
+  };
+};
+
+export const findTeamForOwner = async (
+  db: QueryableDb,
+  input: { teamId: string },
+): Promise<{ id: string; ownerUserId: string; name: string } | null> => {
+  const [team] = await db
+    .select({ id: teams.id, ownerUserId: teams.ownerUserId, name: teams.name })
+    .from(teams)
+    .where(eq(teams.id, input.teamId))
+    .limit(1);
+  return team ?? null;
+};
+
+export const isTeamMemberEmail = async (
+  db: QueryableDb,
+  input: { teamId: string; email: string },
+): Promise<boolean> => {
+  const [member] = await db
+    .select({ id: teamMembers.id })
+    .from(teamMembers)
+    .innerJoin(users, eq(users.id, teamMembers.userId))
+    .where(and(eq(teamMembers.teamId, input.teamId), sql`lower(${users.email}) = ${input.email}`))
+    .limit(1);
+  return Boolean(member);
+};
+
+export const listTeamEventTypeIdsForTeam = async (
+  db: QueryableDb,
+  input: { teamId: string; teamEventTypeIds: string[] },
+): Promise<string[]> => {
+  if (input.teamEventTypeIds.length === 0) {
+    return [];
+  }
+  const rows = await db
+    .select({ id: teamEventTypes.id })
+    .from(teamEventTypes)
+    .where(and(eq(teamEventTypes.teamId, input.teamId), inArray(teamEventTypes.id, input.teamEventTypeIds)));
+  return rows.map((row) => row.id);
+};
+
+export const findTeamInvitationByToken = async (db: QueryableDb, token: string) => {
+  const [invitation] = await db
+    .select({
+      ...teamInvitationColumns,
+      teamName: teams.name,
+      teamSlug: teams.slug,
+      inviterDisplayName: users.displayName,
+    })
+    .from(teamInvitations)
+    .innerJoin(teams, eq(teams.id, teamInvitations.teamId))
+    .innerJoin(users, eq(users.id, teamInvitations.invitedByUserId))
+    .where(eq(teamInvitations.tokenHash, hashToken(token)))
+    .limit(1);
+  return invitation ?? null;
+};
+
+export const buildTeamInvitationLink = (appBaseUrl: string, token: string): string => {
+  return `${appBaseUrl}/teams/invite/${encodeURIComponent(token)}`;
+};
+
+export const sendTeamInvitation = async (
+  env: Bindings,
+  input: {
+    invitation: Pick<TeamInvitationRecord, 'id' | 'email' | 'role' | 'expiresAt' | 'sendCount'>;
+    inviter: Pick<AuthenticatedUser, 'displayName' | 'timezone'>;
+    teamName: string;
+    acceptLink: string;
+  },
+): Promise<EmailSendResult> => {
+  return sendTeamInvitationEmail(env, {
+    recipientEmail: input.invitation.email,
+    inviterDisplayName: input.inviter.displayName,
+    teamName: input.teamName,
+    role: input.invitation.role,
+    acceptLink: input.acceptLink,
+    expiresAt: input.invitation.expiresAt.toISOString(),
+    timezone: input.inviter.timezone,
+    idempotencyKey: `team-invitation:${input.invitation.id}:${input.invitation.sendCount}`,
+  });
+};
+
+// Accepting flips the invitation from pending in the same transaction that creates the membership,
+// so a double click or a concurrent revoke can never leave a member without a consumed invitation.
+export const acceptTeamInvitation = async (
+  db: Database,
+  input: { invitationId: string; teamId: string; user: Pick<AuthenticatedUser, 'id'>; now: Date },
+): Promise<{ role: 'owner' | 'member'; addedTeamEventTypeIds: string[] }> => {
+  const result = await db.transaction(async (transaction) => {
+    const [accepted] = await transaction
+      .update(teamInvitations)
+      .set({
+        status: 'accepted',
+        acceptedByUserId: input.user.id,
+        respondedAt: input.now,
+        updatedAt: input.now,
+      })
+      .where(
+        and(
+          eq(teamInvitations.id, input.invitationId),
+          eq(teamInvitations.status, 'pending'),
+          sql`${teamInvitations.expiresAt} > ${input.now}`,
+        ),
+      )
+      .returning({ role: teamInvitations.role, teamEventTypeIds: teamInvitations.teamEventTypeIds });
+    if (!accepted) {
+      throw new TeamInvitationUnavailableError('This invitation is no longer available.');
+    }
+
+    const [joined] = await transaction
+      .insert(teamMembers)
+      .values({ teamId: input.teamId, userId: input.user.id, role: accepted.role })
+      .onConflictDoNothing({ target: [teamMembers.teamId, teamMembers.userId] })
+      .returning({ userId: teamMembers.userId });
+
+    // Team event types deleted since the invite was sent are skipped rather than failing the accept.
+    const teamEventTypeIds = await listTeamEventTypeIdsForTeam(transaction, {
+      teamId: input.teamId,
+      teamEventTypeIds: accepted.teamEventTypeIds,
+    });
+    if (teamEventTypeIds.length > 0) {
+      await transaction
+        .insert(teamEventTypeMembers)
+        .values(
+          teamEventTypeIds.map((teamEventTypeId) => ({ teamEventTypeId, userId: input.user.id, isRequired: true })),
+        )
+        .onConflictDoNothing({ target: [teamEventTypeMembers.teamEventTypeId, teamEventTypeMembers.userId] });
+    }
+
+    return { role: accepted.role, addedTeamEventTypeIds: teamEventTypeIds, joined: Boolean(joined) };
+  });
+
+  if (result.joined) {
+    await enqueueTeamMemberAddedWebhookEvent(db, {
+      teamId: input.teamId,
+      userId: input.user.id,
+      role: result.role,
+      source: 'invitation',
+    });
+  }
+  return { role: result.role, addedTeamEventTypeIds: result.addedTeamEventTypeIds };
+};
@@ -0,0 +1,152 @@
+import { and, eq, inArray } from 'drizzle-orm';
+
+import { eventTypes, teamEventTypes, teamMembers, teams, users } from '@opencalendly/db';
+
+import {
+  EVENT_TYPE_DELETE_CANCEL_LIMIT,
+  cancelFutureBookingsForEventType,
+  listFutureConfirmedBookingIds,
+} from './event-type-lifecycle';
+import type { AuthenticatedUser, Bindings, Database, QueryableDb } from './types';
+import { TeamMembershipConflictError } from './types';
+
+export const TEAM_MEMBER_REMOVAL_CANCELLATION_REASON = 'Your host is no longer part of this team.';
+export const TEAM_DELETE_CANCELLATION_REASON = 'This team is no longer taking bookings.';
+
+export const findTeamMember = async (
+  db: QueryableDb,
+  input: { teamId: string; userId: string },
+): Promise<{ userId: string; role: 'owner' | 'member'; email: string; displayName: string } | null> => {
+  const [member] = await db
+    .select({
+      userId: teamMembers.userId,
+      role: teamMembers.role,
+      email: users.email,
+      displayName: users.displayName,
+    })
+    .from(teamMembers)
+    .innerJoin(users, eq(users.id, teamMembers.userId))
+    .where(and(eq(teamMembers.teamId, input.teamId), eq(teamMembers.userId, input.userId)))
+    .limit(1);
+  return member ?? null;
+};
+
+export const listTeamBaseEventTypes = async (
+  db: QueryableDb,
+  teamId: string,
+): Promise<Array<{ eventTypeId: string; userId: string }>> => {
+  return db
+    .select({ eventTypeId: eventTypes.id, userId: eventTypes.userId })
+    .from(teamEventTypes)
+    .innerJoin(eventTypes, eq(eventTypes.id, teamEventTypes.eventTypeId))
+    .where(eq(teamEventTypes.teamId, teamId));
+};
+
+export const listUpcomingTeamBookings = async (
+  db: QueryableDb,
+  eventTypeRows: Array<{ eventTypeId: string }>,
+): Promise<Array<{ bookingId: string; eventTypeId: string }>> => {
+  const upcoming: Array<{ bookingId: string; eventTypeId: string }> = [];
+  for (const row of eventTypeRows) {
+    const bookingIds = await listFutureConfirmedBookingIds(db, {
+      eventTypeId: row.eventTypeId,
+      now: new Date(),
+      limit: EVENT_TYPE_DELETE_CANCEL_LIMIT + 1,
+    });
+    upcoming.push(...bookingIds.map((bookingId) => ({ bookingId, eventTypeId: row.eventTypeId })));
+  }
+  return upcoming;
+};
+
+// Team bookings can span several base event types; cancellation is authorized per event type.
+export const cancelTeamBookingsWithNotice = async (
+  db: Database,
+  env: Bindings,
+  authedUser: AuthenticatedUser,
+  input: { bookings: Array<{ bookingId: string; eventTypeId: string }>; appBaseUrl: string; reason: string },
+) => {
+  const bookingIdsByEventTypeId = new Map<string, string[]>();
+  for (const booking of input.bookings) {
+    bookingIdsByEventTypeId.set(booking.eventTypeId, [
+      ...(bookingIdsByEventTypeId.get(booking.eventTypeId) ?? []),
+      booking.bookingId,
+    ]);
+  }
+
+  const totals = { canceledBookings: 0, canceledNotifications: 0, queuedWebhookDeliveries: 0, calendarWritebackProcessed: 0 };
+  for (const [eventTypeId, bookingIds] of bookingIdsByEventTypeId) {
+    const result = await cancelFutureBookingsForEventType(db, env, authedUser, {
+      eventTypeId,
+      bookingIds,
+      appBaseUrl: input.appBaseUrl,
+      reason: input.reason,
+    });
+    totals.canceledBookings += result.canceledBookings;
+    totals.canceledNotifications += result.canceledNotifications;
+    totals.queuedWebhookDeliveries += result.queuedWebhookDeliveries;
+    totals.calendarWritebackProcessed += result.calendarWriteback.processed;
+  }
+  return totals;
+};
+
+export const closeTeamEventTypes = async (db: Pick<Database, 'update'>, eventTypeIds: string[]) => {
+  if (eventTypeIds.length === 0) {
+    return;
+  }
+  await db.update(eventTypes).set({ isActive: false }).where(inArray(eventTypes.id, eventTypeIds));
+};
+
+/**
+ * Hands the team to another member. The base event types behind the team's event types move with
+ * it because organizer edits are authorized through `event_types.user_id`; the previous owner stays
+ * on the team as a regular member.
+ */
+export const transferTeamOwnership = async (
+  db: Pick<Database, 'transaction'>,
+  input: { teamId: string; fromUserId: string; toUserId: string },
+): Promise<{ movedEventTypes: number }> => {
+  return db.transaction(async (transaction) => {
+    const [updated] = await transaction
+      .update(teams)
+      .set({ ownerUserId: input.toUserId })
+      .where(and(eq(teams.id, input.teamId), eq(teams.ownerUserId, input.fromUserId)))
+      .returning({ id: teams.id });
+    if (!updated) {
+      throw new TeamMembershipConflictError('Team ownership changed while transferring. Try again.');
+    }
+
+    await transaction
+      .update(teamMembers)
+      .set({ role: 'owner' })
+      .where(and(eq(teamMembers.teamId, input.teamId), eq(teamMembers.userId, input.toUserId)));
+    await transaction
+      .update(teamMembers)
+      .set({ role: 'member' })
+      .where(and(eq(teamMembers.teamId, input.teamId), eq(teamMembers.userId, input.fromUserId)));
+
+    const teamEventTypeRows = await listTeamBaseEventTypes(transaction, input.teamId);
+    const eventTypeIds = teamEventTypeRows.map((row) => row.eventTypeId);
+    const moved =
+      eventTypeIds.length > 0
+        ? await transaction
+            .update(eventTypes)
+            .set({ userId: input.toUserId })
+            .where(inArray(eventTypes.id, eventTypeIds))
+            .returning({ id: eventTypes.id })
+        : [];
+
+    return { movedEventTypes: moved.length };
+  });
+};
+
+export const deleteTeamRecord = async (
+  db: Pick<Database, 'delete'>,
+  input: { teamId: string; ownerUserId: string },
+): Promise<boolean> => {
+  // Members and invitations cascade from the team row; the event types were deleted beforehand.
+  const deleted = await db
+    .delete(teams)
+    .where(and(eq(teams.id, input.teamId), eq(teams.ownerUserId, input.ownerUserId)))
+    .returning({ id: teams.id });
+  return deleted.length > 0;
+};
@@ -0,0 +1,389 @@
+import { and, asc, eq, gt, inArray, ne, sql } from 'drizzle-orm';
+
+import {
+  bookings,
+  scheduledNotifications,
+  teamBookingAssignments,
+  teamEventTypeMembers,
+  teamEventTypes,
+  teamMembers,
+} from '@opencalendly/db';
+
+import { toEventTypeSchedulingRules, type EventTypeSchedulingRules } from '../lib/availability';
+import { parseBookingMetadata, withTeamAssignmentUserIds } from '../lib/booking-actions';
+import { rebaseRoundRobinCursor, type RoundRobinPolicy } from '../lib/team-scheduling';
+import { enqueueCalendarWritebacksForBooking } from './calendar-writeback-queue';
+import { normalizeTimezone } from './core';
+import { resolveTeamMode } from './team-context';
+import { findRoundRobinReplacement, loadRoundRobinPolicy } from './team-round-robin';
+import type { Database, DatabaseTransaction, QueryableDb, TeamSchedulingMode } from './types';
+import { TeamMembershipConflictError } from './types';
+
+export type TeamMemberFutureBookingsMode = 'reassign' | 'cancel';
+
+type LockedTeamEventType = {
+  id: string;
+  mode: TeamSchedulingMode;
+  roundRobinCursor: number;
+  roundRobinStrategy: string;
+  roundRobinWindowDays: number;
+  eventTypeId: string;
+  eventTypeRules: EventTypeSchedulingRules;
+  requiredMembers: Array<{ userId: string; weight: number }>;
+  requiredMemberUserIds: string[];
+};
+
+type FutureAssignment = {
+  bookingId: string;
+  eventTypeId: string;
+  teamEventTypeId: string;
+  organizerId: string;
+  startsAt: Date;
+  endsAt: Date;
+  metadata: string | null;
+};
+
+export type TeamBookingHandover = {
+  bookingId: string;
+  fromUserId: string;
+  toUserId: string;
+};
+
+const lockTeamEventTypes = async (
+  transaction: DatabaseTransaction,
+  teamId: string,
+): Promise<LockedTeamEventType[]> => {
+  // Same row lock team booking creation takes, so no new booking can land on the member mid-removal.
+  const locked = await transaction.execute<
+    {
+      id: string;
+      mode: string;
+      roundRobinCursor: number;
+      roundRobinStrategy: string;
+      roundRobinWindowDays: number;
+      eventTypeId: string;
+    } & EventTypeSchedulingRules
+  >(sql`
+    select
+      tet.id,
+      tet.mode,
+      tet.round_robin_cursor as "roundRobinCursor",
+      tet.round_robin_strategy as "roundRobinStrategy",
+      tet.round_robin_window_days as "roundRobinWindowDays",
+      et.id as "eventTypeId",
+      et.minimum_notice_minutes as "minimumNoticeMinutes",
+      et.booking_horizon_days as "bookingHorizonDays",
+      et.buffer_before_minutes as "bufferBeforeMinutes",
+      et.buffer_after_minutes as "bufferAfterMinutes",
+      et.slot_increment_minutes as "slotIncrementMinutes"
+    from team_event_types tet
+    inner join event_types et on et.id = tet.event_type_id
+    where tet.team_id = ${teamId}
+    for update of tet
+  `);
+  if (locked.rows.length === 0) {
+    return [];
+  }
+
+  const memberRows = await transaction
+    .select({
+      teamEventTypeId: teamEventTypeMembers.teamEventTypeId,
+      userId: teamEventTypeMembers.userId,
+      weight: teamEventTypeMembers.weight,
+    })
+    .from(teamEventTypeMembers)
+    .where(
+      and(
+        inArray(
+          teamEventTypeMembers.teamEventTypeId,
+          locked.rows.map((row) => row.id),
+        ),
+        eq(teamEventTypeMembers.isRequired, true),
+      ),
+    )
+    .orderBy(asc(teamEventTypeMembers.userId));
+
+  return locked.rows.flatMap((row) => {
+    const mode = resolveTeamMode(row.mode);
+    if (!mode) {
+      return [];
+    }
+    const requiredMembers = memberRows
+      .filter((member) => member.teamEventTypeId === row.id)
+      .map((member) => ({ userId: member.userId, weight: member.weight }));
+    return [
+      {
+        id: row.id,
+        mode,
+        roundRobinCursor: row.roundRobinCursor,
+        roundRobinStrategy: row.roundRobinStrategy,
+        roundRobinWindowDays: row.roundRobinWindowDays,
+        eventTypeId: row.eventTypeId,
+        eventTypeRules: toEventTypeSchedulingRules(row),
+        requiredMembers,
+        requiredMemberUserIds: requiredMembers.map((member) => member.userId),
+      },
+    ];
+  });
+};
+
+// Meetings already under way are left alone; only assignments that have not started yet move.
+export const listFutureTeamAssignmentsForMember = async (
+  db: QueryableDb,
+  input: { teamEventTypeIds: string[]; userId: string; now: Date },
+): Promise<FutureAssignment[]> => {
+  if (input.teamEventTypeIds.length === 0) {
+    return [];
+  }
+  return db
+    .select({
+      bookingId: bookings.id,
+      eventTypeId: bookings.eventTypeId,
+      teamEventTypeId: teamBookingAssignments.teamEventTypeId,
+      organizerId: bookings.organizerId,
+      startsAt: bookings.startsAt,
+      endsAt: bookings.endsAt,
+      metadata: bookings.metadata,
+    })
+    .from(teamBookingAssignments)
+    .innerJoin(bookings, eq(bookings.id, teamBookingAssignments.bookingId))
+    .where(
+      and(
+        eq(teamBookingAssignments.userId, input.userId),
+        inArray(teamBookingAssignments.teamEventTypeId, input.teamEventTypeIds),
+        eq(bookings.status, 'confirmed'),
+        gt(bookings.startsAt, input.now),
+      ),
+    )
+    .orderBy(asc(bookings.startsAt));
+};
+
+export const listTeamEventTypeIdsForTeamId = async (db: QueryableDb, teamId: string): Promise<string[]> => {
+  const rows = await db
+    .select({ id: teamEventTypes.id })
+    .from(teamEventTypes)
+    .where(eq(teamEventTypes.teamId, teamId));
+  return rows.map((row) => row.id);
+};
+
+/**
+ * Moves the member's upcoming team bookings to someone else: round-robin bookings go to the next
+ * available member in rotation, collective bookings continue with the remaining hosts. Bookings
+ * that cannot be moved are returned so the caller can cancel them with notice.
+ */
+export const reassignFutureTeamBookings = async (
+  db: Pick<Database, 'transaction'>,
+  input: { teamId: string; userId: string; now: Date },
+): Promise<{ reassigned: number; handovers: TeamBookingHandover[]; unassigned: FutureAssignment[] }> => {
+  return db.transaction(async (transaction) => {
+    const lockedTeamEventTypes = await lockTeamEventTypes(transaction, input.teamId);
+    const assignments = await listFutureTeamAssignmentsForMember(transaction, {
+      teamEventTypeIds: lockedTeamEventTypes.map((row) => row.id),
+      userId: input.userId,
+      now: input.now,
+    });
+
+    const cursorByTeamEventTypeId = new Map(
+      lockedTeamEventTypes.map((row) => [
+        row.id,
+        rebaseRoundRobinCursor({
+          orderedMemberIds: row.requiredMemberUserIds,
+          removedUserId: input.userId,
+          cursor: row.roundRobinCursor,
+        }),
+      ]),
+    );
+    const policyByTeamEventTypeId = new Map<string, RoundRobinPolicy>();
+    const handovers: TeamBookingHandover[] = [];
+    const unassigned: FutureAssignment[] = [];
+    let reassigned = 0;
+
+    for (const assignment of assignments) {
+      const teamEventType = lockedTeamEventTypes.find((row) => row.id === assignment.teamEventTypeId);
+      if (!teamEventType) {
+        unassigned.push(assignment);
+        continue;
+      }
+
+      let nextAssignmentUserIds: string[];
+      if (teamEventType.mode === 'round_robin') {
+        const remainingMembers = teamEventType.requiredMembers.filter((member) => member.userId !== input.userId);
+        const policy =
+          policyByTeamEventTypeId.get(teamEventType.id) ??
+          (await loadRoundRobinPolicy(transaction, {
+            teamEventTypeId: teamEventType.id,
+            strategy: teamEventType.roundRobinStrategy,
+            windowDays: teamEventType.roundRobinWindowDays,
+            members: remainingMembers,
+            now: input.now,
+          }));
+        policyByTeamEventTypeId.set(teamEventType.id, policy);
+        const replacement =
+          remainingMembers.length > 0
+            ? await findRoundRobinReplacement(transaction, {
+                eventTypeRules: teamEventType.eventTypeRules,
+                startsAt: assignment.startsAt,
+                endsAt: assignment.endsAt,
+                remainingUserIds: remainingMembers.map((member) => member.userId),
+                cursor: cursorByTeamEventTypeId.get(teamEventType.id) ?? 0,
+                policy,
+              })
+            : null;
+        const replacementUserId = replacement?.assignmentUserIds[0];
+        if (!replacement || !replacementUserId) {
+          unassigned.push(assignment);
+          continue;
+        }
+        // Only advanced locally so consecutive moves spread out; the stored cursor is rebased once
+        // the member is actually removed.
+        cursorByTeamEventTypeId.set(teamEventType.id, replacement.nextRoundRobinCursor);
+        const replacementStats = policy.memberStats.get(replacementUserId);
+        if (replacementStats) {
+          replacementStats.bookingsInWindow += 1;
+          replacementStats.lastBookedAtMs = input.now.getTime();
+        }
+        await transaction
+          .update(teamBookingAssignments)
+          .set({ userId: replacementUserId })
+          .where(
+            and(
+              eq(teamBookingAssignments.bookingId, assignment.bookingId),
+              eq(teamBookingAssignments.userId, input.userId),
+            ),
+          );
+        nextAssignmentUserIds = [replacementUserId];
+      } else {
+        const otherHosts = await transaction
+          .select({ userId: teamBookingAssignments.userId })
+          .from(teamBookingAssignments)
+          .where(
+            and(
+              eq(teamBookingAssignments.bookingId, assignment.bookingId),
+              ne(teamBookingAssignments.userId, input.userId),
+            ),
+          )
+          .orderBy(asc(teamBookingAssignments.userId));
+        // Optional attendees alone can't carry the meeting, and they stay behind the required hosts.
+        const optionalIds = parseBookingMetadata(assignment.metadata, normalizeTimezone).team?.optionalAttendeeUserIds ?? [];
+        const otherUserIds = otherHosts.map((host) => host.userId);
+        const hostIds = otherUserIds.filter((userId) => !optionalIds.includes(userId));
+        if (hostIds.length === 0) {
+          unassigned.push(assignment);
+          continue;
+        }
+        await transaction
+          .delete(teamBookingAssignments)
+          .where(
+            and(
+              eq(teamBookingAssignments.bookingId, assignment.bookingId),
+              eq(teamBookingAssignments.userId, input.userId),
+            ),
+          );
+        nextAssignmentUserIds = [...hostIds, ...otherUserIds.filter((userId) => optionalIds.includes(userId))];
+      }
+
+      const nextOrganizerId =
+        assignment.organizerId === input.userId ? (nextAssignmentUserIds[0] ?? input.userId) : assignment.organizerId;
+      await transaction
+        .update(bookings)
+        .set({
+          organizerId: nextOrganizerId,
+          metadata: withTeamAssignmentUserIds(assignment.metadata, nextAssignmentUserIds),
+        })
+        .where(eq(bookings.id, assignment.bookingId));
+      if (nextOrganizerId !== assignment.organizerId) {
+        await transaction
+          .update(scheduledNotifications)
+          .set({ organizerId: nextOrganizerId, updatedAt: input.now })
+          .where(
+            and(
+              eq(scheduledNotifications.bookingId, assignment.bookingId),
+              inArray(scheduledNotifications.status, ['pending', 'failed']),
+            ),
+          );
+        handovers.push({ bookingId: assignment.bookingId, fromUserId: assignment.organizerId, toUserId: nextOrganizerId });
+      }
+      reassigned += 1;
+    }
+
+    return { reassigned, handovers, unassigned };
+  });
+};
+
+// Only the organizer's calendars carry the event, so a new organizer means removing it from the
+// old calendars and creating it on the new ones. The cron worker drains both.
+export const queueHandoverCalendarWritebacks = async (db: Database, handovers: TeamBookingHandover[]) => {
+  let queued = 0;
+  for (const handover of handovers) {
+    const canceled = await enqueueCalendarWritebacksForBooking(db, {
+      bookingId: handover.bookingId,
+      organizerId: handover.fromUserId,
+      operation: 'cancel',
+    });
+    const created = await enqueueCalendarWritebacksForBooking(db, {
+      bookingId: handover.bookingId,
+      organizerId: handover.toUserId,
+      operation: 'create',
+    });
+    queued += canceled.queued + created.queued;
+  }
+  return queued;
+};
+
+export const removeTeamMemberRecords = async (
+  db: Pick<Database, 'transaction'>,
+  input: { teamId: string; userId: string; now: Date },
+): Promise<{ removedFromTeamEventTypes: number }> => {
+  return db.transaction(async (transaction) => {
+    const lockedTeamEventTypes = await lockTeamEventTypes(transaction, input.teamId);
+    const remaining = await listFutureTeamAssignmentsForMember(transaction, {
+      teamEventTypeIds: lockedTeamEventTypes.map((row) => row.id),
+      userId: input.userId,
+      now: input.now,
+    });
+    if (remaining.length > 0) {
+      throw new TeamMembershipConflictError('New bookings were assigned to this member while removing them. Try again.');
+    }
+
+    for (const teamEventType of lockedTeamEventTypes) {
+      if (teamEventType.mode !== 'round_robin' || !teamEventType.requiredMemberUserIds.includes(input.userId)) {
+        continue;
+      }
+      await transaction
+        .update(teamEventTypes)
+        .set({
+          roundRobinCursor: rebaseRoundRobinCursor({
+            orderedMemberIds: teamEventType.requiredMemberUserIds,
+            removedUserId: input.userId,
+            cursor: teamEventType.roundRobinCursor,
+          }),
+        })
+        .where(eq(teamEventTypes.id, teamEventType.id));
+    }
+
+    const removedLinks =
+      lockedTeamEventTypes.length > 0
+        ? await transaction
+            .delete(teamEventTypeMembers)
+            .where(
+              and(
+                eq(teamEventTypeMembers.userId, input.userId),
+                inArray(
+                  teamEventTypeMembers.teamEventTypeId,
+                  lockedTeamEventTypes.map((row) => row.id),
+                ),
+              ),
+            )
+            .returning({ id: teamEventTypeMembers.id })
+        : [];
+    const removedMembers = await transaction
+      .delete(teamMembers)
+      .where(and(eq(teamMembers.teamId, input.teamId), eq(teamMembers.userId, input.userId)))
+      .returning({ id: teamMembers.id });
+    if (removedMembers.length === 0) {
+      throw new TeamMembershipConflictError('This member already left the team.');
+    }
+
+    return { removedFromTeamEventTypes: removedLinks.length };
+  });
+};
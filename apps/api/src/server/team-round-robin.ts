@@ -0,0 +1,181 @@
+import { and, asc, eq, gte, inArray, max, ne, sql } from 'drizzle-orm';
+import { DateTime } from 'luxon';
+
+import { teamBookingAssignments, teamEventTypeMembers, teamEventTypes, teams } from '@opencalendly/db';
+import type { TeamRoundRobinSettingsInput, TeamRoundRobinStrategy } from '@opencalendly/shared';
+
+import type { EventTypeSchedulingRules } from '../lib/availability';
+import type { RoundRobinMemberStats, RoundRobinPolicy } from '../lib/team-scheduling';
+import { listTeamMemberSchedules, resolveTeamRequestedSlot } from './team-schedules';
+import type { Database, QueryableDb } from './types';
+import { TeamMembershipConflictError } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const resolveRoundRobinStrategy = (rawStrategy: string | null | undefined): TeamRoundRobinStrategy => {
+  return rawStrategy === 'weighted' || rawStrategy === 'least_recently_booked' || rawStrategy === 'fewest_in_window'
+    ? rawStrategy
+    : 'strict';
+};
+
+export const listRequiredTeamEventMembers = async (
+  db: QueryableDb,
+  teamEventTypeId: string,
+): Promise<Array<{ userId: string; weight: number }>> => {
+  return db
+    .select({ userId: teamEventTypeMembers.userId, weight: teamEventTypeMembers.weight })
+    .from(teamEventTypeMembers)
+    .where(and(eq(teamEventTypeMembers.teamEventTypeId, teamEventTypeId), eq(teamEventTypeMembers.isRequired, true)))
+    .orderBy(asc(teamEventTypeMembers.userId));
+};
+
+export const findTeamEventTypeWithOwner = async (
+  db: QueryableDb,
+  teamEventTypeId: string,
+): Promise<{ id: string; teamId: string; ownerUserId: string; mode: string } | null> => {
+  const [row] = await db
+    .select({
+      id: teamEventTypes.id,
+      teamId: teamEventTypes.teamId,
+      ownerUserId: teams.ownerUserId,
+      mode: teamEventTypes.mode,
+    })
+    .from(teamEventTypes)
+    .innerJoin(teams, eq(teams.id, teamEventTypes.teamId))
+    .where(eq(teamEventTypes.id, teamEventTypeId))
+    .limit(1);
+  return row ?? null;
+};
+
+// Weights left out of the payload keep their stored value; the cursor is untouched so switching back
+// to strict resumes the rotation where it stopped.
+export const saveRoundRobinSettings = async (
+  db: Pick<Database, 'transaction'>,
+  teamEventTypeId: string,
+  input: TeamRoundRobinSettingsInput,
+): Promise<{ strategy: TeamRoundRobinStrategy; windowDays: number; memberWeights: Record<string, number> }> => {
+  return db.transaction(async (transaction) => {
+    const [updated] = await transaction
+      .update(teamEventTypes)
+      .set({
+        roundRobinStrategy: input.strategy,
+        ...(input.windowDays !== undefined ? { roundRobinWindowDays: input.windowDays } : {}),
+      })
+      .where(eq(teamEventTypes.id, teamEventTypeId))
+      .returning({ windowDays: teamEventTypes.roundRobinWindowDays });
+    if (!updated) {
+      throw new TeamMembershipConflictError('Team event type was removed while saving. Reload and try again.');
+    }
+
+    for (const [userId, weight] of Object.entries(input.memberWeights ?? {})) {
+      await transaction
+        .update(teamEventTypeMembers)
+        .set({ weight })
+        .where(and(eq(teamEventTypeMembers.teamEventTypeId, teamEventTypeId), eq(teamEventTypeMembers.userId, userId)));
+    }
+
+    const members = await listRequiredTeamEventMembers(transaction, teamEventTypeId);
+    return {
+      strategy: input.strategy,
+      windowDays: updated.windowDays,
+      memberWeights: Object.fromEntries(members.map((member) => [member.userId, member.weight])),
+    };
+  });
+};
+
+/**
+ * Loads the per-member history the non-strict strategies score against. Only live assignments count:
+ * cancel and reschedule flows delete the assignment row, so a canceled lead goes back into the pool.
+ */
+export const loadRoundRobinPolicy = async (
+  db: QueryableDb,
+  input: {
+    teamEventTypeId: string;
+    strategy: string | null | undefined;
+    windowDays: number;
+    members: Array<{ userId: string; weight: number }>;
+    now: Date;
+    excludeBookingId?: string;
+  },
+): Promise<RoundRobinPolicy> => {
+  const strategy = resolveRoundRobinStrategy(input.strategy);
+  const memberStats = new Map<string, RoundRobinMemberStats>(
+    input.members.map((member) => [member.userId, { weight: member.weight, lastBookedAtMs: null, bookingsInWindow: 0 }]),
+  );
+  if (strategy === 'strict' || input.members.length === 0) {
+    return { strategy, memberStats };
+  }
+
+  const windowStart = new Date(input.now.getTime() - input.windowDays * DAY_MS);
+  const rows = await db
+    .select({
+      userId: teamBookingAssignments.userId,
+      lastBookedAt: max(teamBookingAssignments.createdAt),
+      bookingsInWindow: sql<number>`(count(*) filter (where ${gte(teamBookingAssignments.createdAt, windowStart)}))::int`,
+    })
+    .from(teamBookingAssignments)
+    .where(
+      and(
+        eq(teamBookingAssignments.teamEventTypeId, input.teamEventTypeId),
+        inArray(
+          teamBookingAssignments.userId,
+          input.members.map((member) => member.userId),
+        ),
+        input.excludeBookingId ? ne(teamBookingAssignments.bookingId, input.excludeBookingId) : undefined,
+      ),
+    )
+    .groupBy(teamBookingAssignments.userId);
+
+  for (const row of rows) {
+    const stats = memberStats.get(row.userId);
+    if (!stats) {
+      continue;
+    }
+    stats.lastBookedAtMs = row.lastBookedAt ? new Date(row.lastBookedAt).getTime() : null;
+    stats.bookingsInWindow = Number(row.bookingsInWindow);
+  }
+
+  return { strategy, memberStats };
+};
+
+/**
+ * Picks who takes over an existing round-robin booking. The booking already exists, so notice and
+ * horizon rules no longer apply; buffers and the slot grid still do, otherwise the replacement could
+ * be double-booked against their own meetings.
+ */
+export const findRoundRobinReplacement = async (
+  db: QueryableDb,
+  input: {
+    eventTypeRules: EventTypeSchedulingRules;
+    startsAt: Date;
+    endsAt: Date;
+    remainingUserIds: string[];
+    cursor: number;
+    policy: RoundRobinPolicy;
+  },
+) => {
+  const startsAt = DateTime.fromJSDate(input.startsAt, { zone: 'utc' });
+  const requestedStartsAtIso = startsAt.toUTC().toISO();
+  const rangeStartIso = startsAt.minus({ days: 1 }).toUTC().toISO();
+  if (!requestedStartsAtIso || !rangeStartIso) {
+    return null;
+  }
+
+  const memberSchedules = await listTeamMemberSchedules(
+    db,
+    input.remainingUserIds,
+    startsAt.minus({ days: 1 }).toJSDate(),
+    DateTime.fromJSDate(input.endsAt).plus({ days: 1 }).toJSDate(),
+  );
+  return resolveTeamRequestedSlot({
+    mode: 'round_robin',
+    memberSchedules,
+    requestedStartsAtIso,
+    durationMinutes: Math.round((input.endsAt.getTime() - input.startsAt.getTime()) / 60_000),
+    rangeStartIso,
+    days: 2,
+    roundRobinCursor: input.cursor,
+    roundRobinPolicy: input.policy,
+    eventTypeRules: { ...input.eventTypeRules, minimumNoticeMinutes: 0, bookingHorizonDays: null },
+  });
+};
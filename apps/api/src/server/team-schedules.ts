@@ -1,4 +1,4 @@
-import { and, eq, gt, inArray, lt } from 'drizzle-orm';
+import { and, eq, gt, inArray, isNull, lt } from 'drizzle-orm';
 import { DateTime } from 'luxon';
 
 import {
@@ -8,11 +8,14 @@ import {
   calendarBusyWindows,
   calendarConnections,
   teamBookingAssignments,
+  teamEventTypeMembers,
   timeOffBlocks,
   users,
 } from '@opencalendly/db';
 
-import { chooseRoundRobinAssignee, computeTeamSlotMatrix } from '../lib/team-scheduling';
+import type { EventTypeSchedulingRules } from '../lib/availability';
+import { chooseRoundRobinAssignee, computeTeamSlotMatrix, type RoundRobinPolicy } from '../lib/team-scheduling';
+import { slotHoldingBookingCondition } from './booking-holds';
 import type { QueryableDb, TeamMemberScheduleRecord } from './types';
 import { normalizeTimezone } from './core';
 import type { TeamSchedulingMode } from '@opencalendly/shared';
@@ -89,7 +92,7 @@ export const listTeamMemberSchedules = async (
         bufferAfterMinutes: availabilityRules.bufferAfterMinutes,
       })
       .from(availabilityRules)
-      .where(inArray(availabilityRules.userId, uniqueMemberIds)),
+      .where(and(inArray(availabilityRules.userId, uniqueMemberIds), isNull(availabilityRules.scheduleId))),
     db
       .select({
         userId: availabilityOverrides.userId,
@@ -147,7 +150,7 @@ export const listTeamMemberSchedules = async (
       .where(
         and(
           inArray(bookings.organizerId, uniqueMemberIds),
-          eq(bookings.status, 'confirmed'),
+          slotHoldingBookingCondition(new Date()),
           lt(bookings.startsAt, rangeEnd),
           gt(bookings.endsAt, rangeStart),
         ),
@@ -265,14 +268,36 @@ export const listTeamMemberSchedules = async (
   return schedules;
 };
 
+// Optional members only matter for collective events, where they join a slot when they're free.
+export const listOptionalTeamMemberSchedules = async (
+  db: QueryableDb,
+  teamEventTypeId: string,
+  rangeStart: Date,
+  rangeEnd: Date,
+): Promise<TeamMemberScheduleRecord[]> => {
+  const optionalMembers = await db
+    .select({ userId: teamEventTypeMembers.userId })
+    .from(teamEventTypeMembers)
+    .where(and(eq(teamEventTypeMembers.teamEventTypeId, teamEventTypeId), eq(teamEventTypeMembers.isRequired, false)));
+  return listTeamMemberSchedules(
+    db,
+    optionalMembers.map((member) => member.userId),
+    rangeStart,
+    rangeEnd,
+  );
+};
+
 export const resolveTeamRequestedSlot = (input: {
   mode: TeamSchedulingMode;
   memberSchedules: TeamMemberScheduleRecord[];
+  optionalMemberSchedules?: TeamMemberScheduleRecord[];
   requestedStartsAtIso: string;
   durationMinutes: number;
   rangeStartIso: string;
   days: number;
   roundRobinCursor: number;
+  roundRobinPolicy?: RoundRobinPolicy;
+  eventTypeRules?: EventTypeSchedulingRules;
 }) => {
   const startsAt = DateTime.fromISO(input.requestedStartsAtIso, { zone: 'utc' });
   if (!startsAt.isValid) {
@@ -284,12 +309,16 @@ export const resolveTeamRequestedSlot = (input: {
     return null;
   }
 
-  const requestedSlot = computeTeamSlotMatrix({
-    members: input.memberSchedules,
-    rangeStartIso: input.rangeStartIso,
-    days: input.days,
-    durationMinutes: input.durationMinutes,
-  }).get(`${input.requestedStartsAtIso}|${requestedEndsAtIso}`);
+  const slotKey = `${input.requestedStartsAtIso}|${requestedEndsAtIso}`;
+  const findRequestedSlot = (members: TeamMemberScheduleRecord[]) =>
+    computeTeamSlotMatrix({
+      members,
+      rangeStartIso: input.rangeStartIso,
+      days: input.days,
+      durationMinutes: input.durationMinutes,
+      ...(input.eventTypeRules ? { eventTypeRules: input.eventTypeRules } : {}),
+    }).get(slotKey);
+  const requestedSlot = findRequestedSlot(input.memberSchedules);
   if (!requestedSlot) {
     return null;
   }
@@ -313,8 +342,15 @@ export const resolveTeamRequestedSlot = (input: {
       bufferBeforeMinutes = Math.max(bufferBeforeMinutes, memberSlot.bufferBeforeMinutes);
       bufferAfterMinutes = Math.max(bufferAfterMinutes, memberSlot.bufferAfterMinutes);
     }
+    // Optional members ride along when free; required hosts stay first so the organizer is one of them.
+    const optionalSlot = input.optionalMemberSchedules?.length ? findRequestedSlot(input.optionalMemberSchedules) : null;
+    const optionalAttendeeUserIds = (input.optionalMemberSchedules ?? [])
+      .map((memberSchedule) => memberSchedule.userId)
+      .filter((memberId) => !orderedMemberIds.includes(memberId) && (optionalSlot?.byUserId.has(memberId) ?? false))
+      .sort((left, right) => left.localeCompare(right));
     return {
-      assignmentUserIds: orderedMemberIds,
+      assignmentUserIds: [...orderedMemberIds, ...optionalAttendeeUserIds],
+      optionalAttendeeUserIds,
       bufferBeforeMinutes,
       bufferAfterMinutes,
       nextRoundRobinCursor: input.roundRobinCursor,
@@ -326,6 +362,7 @@ export const resolveTeamRequestedSlot = (input: {
     orderedMemberIds,
     availableMemberIds,
     cursor: input.roundRobinCursor,
+    ...(input.roundRobinPolicy ? { policy: input.roundRobinPolicy } : {}),
   });
   const selectedSlot = selection ? requestedSlot.byUserId.get(selection.assigneeUserId) : null;
   if (!selection || !selectedSlot) {
@@ -334,6 +371,7 @@ export const resolveTeamRequestedSlot = (input: {
 
   return {
     assignmentUserIds: [selection.assigneeUserId],
+    optionalAttendeeUserIds: [] as string[],
     bufferBeforeMinutes: selectedSlot.bufferBeforeMinutes,
     bufferAfterMinutes: selectedSlot.bufferAfterMinutes,
     nextRoundRobinCursor: selection.nextCursor,
@@ -16,8 +16,8 @@ type AnalyticsFunnelEventWrite = {
 
 type EmailDeliveryWrite = {
   organizerId: string;
-  bookingId: string;
-  eventTypeId: string;
+  bookingId: string | null;
+  eventTypeId: string | null;
   recipientEmail: string;
   emailType: EmailDeliveryType;
   provider: string;
@@ -3,7 +3,9 @@ import type { Hono } from 'hono';
 import { createDb } from '@opencalendly/db';
 import type {
   EventQuestion,
+  StoredWebhookEvent,
   TeamSchedulingMode,
+  WebhookApiVersion,
   WebhookEvent,
   WebhookEventType,
 } from '@opencalendly/shared';
@@ -33,6 +35,10 @@ export type Bindings = {
   CLERK_SECRET_KEY?: string;
   CLERK_ALLOWED_AUDIENCES?: string;
   ENABLE_DEV_AUTH_BOOTSTRAP?: string;
+  PAYMENT_PROVIDER?: string;
+  PAYMENT_HOLD_MINUTES?: string;
+  STRIPE_SECRET_KEY?: string;
+  STRIPE_WEBHOOK_SECRET?: string;
 };
 
 export type ContextLike = {
@@ -65,6 +71,7 @@ export type SessionUserRecord = {
   timezone: string;
   onboardingCompleted: boolean;
 };
+export type TeamInvitationState = 'pending' | 'expired' | 'accepted' | 'declined' | 'revoked';
 export type BookingActionType = 'cancel' | 'reschedule';
 export type LockedActionToken = {
   id: string;
@@ -106,6 +113,13 @@ export type EventTypeProfile = {
   locationValue: string | null;
   questions?: EventQuestion[];
   organizerTimezone?: string;
+  availabilityScheduleId?: string | null;
+  minimumNoticeMinutes?: number;
+  bookingHorizonDays?: number | null;
+  bufferBeforeMinutes?: number;
+  bufferAfterMinutes?: number;
+  slotIncrementMinutes?: number | null;
+  seatsPerSlot?: number | null;
   isActive: boolean;
 };
 export type DemoAdmissionsDailyRow = {
@@ -128,6 +142,7 @@ export type WebhookSubscriptionRecord = {
   userId: string;
   url: string;
   events: WebhookEventType[];
+  apiVersion: WebhookApiVersion;
   isActive: boolean;
 };
 export type PendingWebhookDelivery = {
@@ -135,9 +150,10 @@ export type PendingWebhookDelivery = {
   subscriptionId: string;
   url: string;
   secret: string;
+  previousSecret: string | null;
   eventId: string;
   eventType: WebhookEventType;
-  payload: WebhookEvent;
+  payload: StoredWebhookEvent;
   attemptCount: number;
   maxAttempts: number;
 };
@@ -155,6 +171,9 @@ export type PublicEventView = {
     locationType: string;
     locationValue: string | null;
     questions: EventQuestion[];
+    price: { amountCents: number; currency: string } | null;
+    requiresConfirmation: boolean;
+    seatsPerSlot: number | null;
   };
   organizer: {
     id: string;
@@ -180,6 +199,8 @@ export type TeamEventTypeContext = {
   mode: TeamSchedulingMode;
   roundRobinCursor: number;
   members: TeamMemberRecord[];
+  // Collective events add these members to a slot when they are free; they never block it.
+  optionalMembers: TeamMemberRecord[];
 };
 export type TeamMemberScheduleRecord = {
   userId: string;
@@ -203,7 +224,8 @@ export type TeamMemberScheduleRecord = {
     metadata: string | null;
   }>;
 };
-export type CalendarProvider = 'google' | 'microsoft';
+export type CalendarProvider = 'google' | 'microsoft' | 'caldav';
+export type OAuthCalendarProvider = Exclude<CalendarProvider, 'caldav'>;
 export type CalendarConnectionStatus = {
   id: string;
   provider: CalendarProvider;
@@ -221,7 +243,12 @@ export type EmailDeliveryType =
   | 'booking_cancellation'
   | 'booking_rescheduled'
   | 'booking_reminder'
-  | 'booking_follow_up';
+  | 'booking_follow_up'
+  | 'booking_request_received'
+  | 'booking_approved'
+  | 'booking_declined'
+  | 'waitlist_offer'
+  | 'webhook_auto_disabled';
 export type ConnectionConfig =
   | { source: 'hyperdrive' | 'database_url'; connectionString: string }
   | null;
@@ -231,3 +258,6 @@ export class BookingActionGoneError extends Error {}
 export class LaunchDemoAuthError extends Error {}
 export class DemoQuotaAdmissionError extends Error {}
 export class DemoQuotaCreditsError extends Error {}
+export class EventTypeDuplicateSlugExhaustedError extends Error {}
+export class TeamInvitationUnavailableError extends Error {}
+export class TeamMembershipConflictError extends Error {}
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { sendWebhookAutoDisabledEmailMock, tryRecordEmailDeliveryMock } = vi.hoisted(() => ({
+  sendWebhookAutoDisabledEmailMock: vi.fn(),
+  tryRecordEmailDeliveryMock: vi.fn(),
+}));
+
+vi.mock('../lib/webhook-email', () => ({
+  sendWebhookAutoDisabledEmail: sendWebhookAutoDisabledEmailMock,
+}));
+
+vi.mock('./telemetry', () => ({
+  tryRecordEmailDelivery: tryRecordEmailDeliveryMock,
+}));
+
+import { WEBHOOK_AUTO_DISABLE_FAILURE_THRESHOLD } from '../lib/webhooks';
+import { recordWebhookPermanentFailure } from './webhook-auto-disable';
+import type { Database } from './types';
+
+const subscriptionId = 'b4799557-a220-4eff-bde5-75ff4db4378d';
+const organizerId = '735d1a63-99a8-48a0-8d4b-cf344a7bbba8';
+const now = new Date('2026-03-14T12:00:00.000Z');
+
+// Each update returns the next queued `returning` rows; selects answer the delivery lookup, then the owner lookup.
+const createDb = (input: { returning: unknown[][]; selects: unknown[][] }) => {
+  const set = vi.fn(() => ({
+    where: () => ({ returning: async () => input.returning.shift() ?? [] }),
+  }));
+  const select = vi.fn(() => ({
+    from: () => ({ where: () => ({ limit: async () => input.selects.shift() ?? [] }) }),
+  }));
+  return { db: { update: vi.fn(() => ({ set })), select } as unknown as Database, set };
+};
+
+describe('recordWebhookPermanentFailure', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sendWebhookAutoDisabledEmailMock.mockResolvedValue({ sent: true, provider: 'resend', messageId: 'msg_1' });
+  });
+
+  it('only counts the failure while the streak is under the threshold', async () => {
+    const { db, set } = createDb({
+      returning: [[{ consecutiveFailureCount: WEBHOOK_AUTO_DISABLE_FAILURE_THRESHOLD - 1 }]],
+      selects: [],
+    });
+
+    await expect(
+      recordWebhookPermanentFailure(db, {}, { subscriptionId, deliveryId: 'delivery_1', now }),
+    ).resolves.toBe(false);
+    expect(set).toHaveBeenCalledOnce();
+    expect(sendWebhookAutoDisabledEmailMock).not.toHaveBeenCalled();
+  });
+
+  it('disables the subscription with a reason and emails the owner at the threshold', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const { db, set } = createDb({
+      returning: [
+        [{ consecutiveFailureCount: WEBHOOK_AUTO_DISABLE_FAILURE_THRESHOLD }],
+        [{ id: subscriptionId, userId: organizerId, url: 'https://hooks.example.com/opencalendly' }],
+      ],
+      selects: [[{ lastError: 'HTTP 503' }], [{ email: 'owner@example.com', displayName: 'Owner', timezone: 'UTC' }]],
+    });
+
+    await expect(
+      recordWebhookPermanentFailure(db, {}, { subscriptionId, deliveryId: 'delivery_1', now }),
+    ).resolves.toBe(true);
+
+    expect(set).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        isActive: false,
+        autoDisabledAt: now,
+        disabledReason: `Disabled after ${WEBHOOK_AUTO_DISABLE_FAILURE_THRESHOLD} consecutive deliveries failed every retry. Last error: HTTP 503`,
+      }),
+    );
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('webhook_subscription_auto_disabled'),
+    );
+    expect(sendWebhookAutoDisabledEmailMock).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        organizerEmail: 'owner@example.com',
+        webhookUrl: 'https://hooks.example.com/opencalendly',
+        lastError: 'HTTP 503',
+      }),
+    );
+    expect(tryRecordEmailDeliveryMock).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      expect.objectContaining({ emailType: 'webhook_auto_disabled', status: 'succeeded', bookingId: null }),
+    );
+    warnSpy.mockRestore();
+  });
+
+  it('does not notify again when the subscription was already switched off', async () => {
+    const { db } = createDb({
+      returning: [[{ consecutiveFailureCount: WEBHOOK_AUTO_DISABLE_FAILURE_THRESHOLD + 1 }], []],
+      selects: [[{ lastError: null }]],
+    });
+
+    await expect(
+      recordWebhookPermanentFailure(db, {}, { subscriptionId, deliveryId: 'delivery_1', now }),
+    ).resolves.toBe(false);
+    expect(sendWebhookAutoDisabledEmailMock).not.toHaveBeenCalled();
+  });
+});
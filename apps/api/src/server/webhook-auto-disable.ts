@@ -0,0 +1,157 @@
+import { and, eq, gt, sql } from 'drizzle-orm';
+
+import { users, webhookDeliveries, webhookSubscriptions } from '@opencalendly/db';
+
+import { sendWebhookAutoDisabledEmail } from '../lib/webhook-email';
+import { WEBHOOK_AUTO_DISABLE_FAILURE_THRESHOLD } from '../lib/webhooks';
+import { emitAuditEvent, sanitizeErrorForAudit } from './audit';
+import { logInternalError } from './core';
+import { tryRecordEmailDelivery } from './telemetry';
+import type { Bindings, Database } from './types';
+
+const HELD_DELIVERY_SKIPPED_ERROR = 'Skipped while the subscription was disabled.';
+
+// Applied whenever a subscription is switched back on, so the failure streak starts over.
+export const webhookSubscriptionResumeValues = {
+  consecutiveFailureCount: 0,
+  autoDisabledAt: null,
+  disabledReason: null,
+} as const;
+
+export const resetWebhookFailureStreak = async (db: Database, subscriptionId: string): Promise<void> => {
+  await db
+    .update(webhookSubscriptions)
+    .set({ consecutiveFailureCount: 0 })
+    .where(and(eq(webhookSubscriptions.id, subscriptionId), gt(webhookSubscriptions.consecutiveFailureCount, 0)));
+};
+
+const notifyWebhookOwner = async (
+  db: Database,
+  env: Bindings,
+  input: { subscriptionId: string; organizerId: string; url: string; failureCount: number; lastError: string | null; now: Date },
+): Promise<void> => {
+  const [owner] = await db
+    .select({ email: users.email, displayName: users.displayName, timezone: users.timezone })
+    .from(users)
+    .where(eq(users.id, input.organizerId))
+    .limit(1);
+  if (!owner) {
+    return;
+  }
+
+  const email = await sendWebhookAutoDisabledEmail(env, {
+    organizerEmail: owner.email,
+    organizerDisplayName: owner.displayName,
+    webhookUrl: input.url,
+    failureCount: input.failureCount,
+    lastError: input.lastError,
+    disabledAt: input.now.toISOString(),
+    timezone: owner.timezone,
+    idempotencyKey: `webhook-auto-disabled:${input.subscriptionId}:${input.now.toISOString()}`,
+  });
+
+  await tryRecordEmailDelivery(env, db, {
+    organizerId: input.organizerId,
+    bookingId: null,
+    eventTypeId: null,
+    recipientEmail: owner.email,
+    emailType: 'webhook_auto_disabled',
+    provider: email.provider,
+    status: email.sent ? 'succeeded' : 'failed',
+    ...(email.messageId ? { providerMessageId: email.messageId } : {}),
+    ...(email.error ? { error: email.error } : {}),
+  });
+};
+
+/**
+ * Counts a delivery that used up all of its retries against its subscription. Once
+ * `WEBHOOK_AUTO_DISABLE_FAILURE_THRESHOLD` land in a row, the subscription is switched off with a
+ * recorded reason and the owner is emailed. Returns true only for the failure that disabled it.
+ */
+export const recordWebhookPermanentFailure = async (
+  db: Database,
+  env: Bindings,
+  input: { subscriptionId: string; deliveryId: string; now: Date },
+): Promise<boolean> => {
+  const [counted] = await db
+    .update(webhookSubscriptions)
+    .set({ consecutiveFailureCount: sql`${webhookSubscriptions.consecutiveFailureCount} + 1` })
+    .where(eq(webhookSubscriptions.id, input.subscriptionId))
+    .returning({ consecutiveFailureCount: webhookSubscriptions.consecutiveFailureCount });
+  if (!counted || counted.consecutiveFailureCount < WEBHOOK_AUTO_DISABLE_FAILURE_THRESHOLD) {
+    return false;
+  }
+
+  const [lastDelivery] = await db
+    .select({ lastError: webhookDeliveries.lastError })
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.id, input.deliveryId))
+    .limit(1);
+  const lastError = lastDelivery?.lastError ?? null;
+  const reason = [
+    `Disabled after ${counted.consecutiveFailureCount} consecutive deliveries failed every retry.`,
+    ...(lastError ? [`Last error: ${lastError.slice(0, 500)}`] : []),
+  ].join(' ');
+
+  // Guarded on isActive so a concurrent runner or a manual disable does not notify twice.
+  const [disabled] = await db
+    .update(webhookSubscriptions)
+    .set({ isActive: false, autoDisabledAt: input.now, disabledReason: reason, updatedAt: input.now })
+    .where(and(eq(webhookSubscriptions.id, input.subscriptionId), eq(webhookSubscriptions.isActive, true)))
+    .returning({ id: webhookSubscriptions.id, userId: webhookSubscriptions.userId, url: webhookSubscriptions.url });
+  if (!disabled) {
+    return false;
+  }
+
+  emitAuditEvent({
+    event: 'webhook_subscription_auto_disabled',
+    level: 'warn',
+    actorUserId: disabled.userId,
+    route: 'webhook_delivery_runner',
+    subscriptionId: disabled.id,
+    deliveryId: input.deliveryId,
+    consecutiveFailures: counted.consecutiveFailureCount,
+    reason: sanitizeErrorForAudit(lastError, 'delivery_failed'),
+  });
+
+  await notifyWebhookOwner(db, env, {
+    subscriptionId: disabled.id,
+    organizerId: disabled.userId,
+    url: disabled.url,
+    failureCount: counted.consecutiveFailureCount,
+    lastError,
+    now: input.now,
+  }).catch((error) => {
+    logInternalError('webhook_auto_disabled_email_failed', error);
+  });
+
+  return true;
+};
+
+/**
+ * Deals with the pending deliveries held while a subscription was off. Replaying makes them due on
+ * the next run. Otherwise they are closed out as failed, which keeps them in the delivery log
+ * where they can still be replayed individually.
+ */
+export const settleHeldWebhookDeliveries = async (
+  db: Pick<Database, 'update'>,
+  input: { subscriptionId: string; replay: boolean; now: Date },
+): Promise<number> => {
+  const held = and(eq(webhookDeliveries.subscriptionId, input.subscriptionId), eq(webhookDeliveries.status, 'pending'));
+  const settled = await db
+    .update(webhookDeliveries)
+    .set(
+      input.replay
+        ? { nextAttemptAt: input.now, updatedAt: input.now }
+        : {
+            status: 'failed',
+            lastAttemptAt: input.now,
+            lastError: HELD_DELIVERY_SKIPPED_ERROR,
+            nextAttemptAt: input.now,
+            updatedAt: input.now,
+          },
+    )
+    .where(held)
+    .returning({ id: webhookDeliveries.id });
+  return settled.length;
+};
@@ -8,6 +8,7 @@ const buildDelivery = (url: string): PendingWebhookDelivery => ({
   subscriptionId: 'b4799557-a220-4eff-bde5-75ff4db4378d',
   url,
   secret: 'whsec_super_secret',
+  previousSecret: null,
   eventId: 'c716ac14-0d39-4efe-b0ee-8eb9c14d2b33',
   eventType: 'booking.created',
   payload: {
@@ -1,27 +1,21 @@
-import { and, eq, lte } from 'drizzle-orm';
+import { eq, inArray } from 'drizzle-orm';
 
 import { webhookDeliveries, webhookSubscriptions } from '@opencalendly/db';
-import { webhookEventSchema } from '@opencalendly/shared';
+import { storedWebhookEventSchema } from '@opencalendly/shared';
 
 import {
-  WEBHOOK_DEFAULT_MAX_ATTEMPTS,
-  buildWebhookEvent,
-  buildWebhookSignatureHeader,
+  buildWebhookRequestHeaders,
   computeNextWebhookAttemptAt,
   isWebhookDeliveryExhausted,
   parseWebhookEventTypes,
   resolveWebhookTargetSafety,
 } from '../lib/webhooks';
 import { emitAuditEvent } from './audit';
+import { claimDueWebhookDeliveryIds } from './scheduled-claims';
 import { captureApiException } from './sentry';
-import { migrateWebhookSecretIfNeeded } from './webhook-secret-storage';
-import type {
-  Bindings,
-  Database,
-  PendingWebhookDelivery,
-  WebhookEventType,
-  WebhookSubscriptionRecord,
-} from './types';
+import { recordWebhookPermanentFailure, resetWebhookFailureStreak } from './webhook-auto-disable';
+import { migrateWebhookSecretIfNeeded, resolveWebhookPreviousSigningSecret } from './webhook-secret-storage';
+import type { Bindings, Database, PendingWebhookDelivery } from './types';
 
 export type WebhookDeliveryRunResult = {
   processed: number;
@@ -31,93 +25,6 @@ export type WebhookDeliveryRunResult = {
   rowIds: string[];
 };
 
-const toWebhookSubscriptionRecord = (value: {
-  id: string;
-  userId: string;
-  url: string;
-  events: unknown;
-  isActive: boolean;
-}): WebhookSubscriptionRecord => {
-  return {
-    id: value.id,
-    userId: value.userId,
-    url: value.url,
-    events: parseWebhookEventTypes(value.events),
-    isActive: value.isActive,
-  };
-};
-
-export const enqueueWebhookDeliveries = async (
-  db: Database,
-  input: {
-    organizerId: string;
-    type: WebhookEventType;
-    booking: {
-      id: string;
-      eventTypeId: string;
-      organizerId: string;
-      inviteeEmail: string;
-      inviteeName: string;
-      startsAtIso: string;
-      endsAtIso: string;
-    };
-    metadata?: Record<string, unknown>;
-  },
-): Promise<number> => {
-  const subscriptions = await db
-    .select({
-      id: webhookSubscriptions.id,
-      userId: webhookSubscriptions.userId,
-      url: webhookSubscriptions.url,
-      events: webhookSubscriptions.events,
-      isActive: webhookSubscriptions.isActive,
-    })
-    .from(webhookSubscriptions)
-    .where(and(eq(webhookSubscriptions.userId, input.organizerId), eq(webhookSubscriptions.isActive, true)));
-
-  const matchingSubscriptions = subscriptions
-    .map((subscription) => toWebhookSubscriptionRecord(subscription))
-    .filter((subscription) => subscription.events.includes(input.type));
-
-  if (matchingSubscriptions.length === 0) {
-    return 0;
-  }
-
-  const event = buildWebhookEvent({
-    type: input.type,
-    payload: {
-      bookingId: input.booking.id,
-      eventTypeId: input.booking.eventTypeId,
-      organizerId: input.booking.organizerId,
-      inviteeEmail: input.booking.inviteeEmail,
-      inviteeName: input.booking.inviteeName,
-      startsAt: input.booking.startsAtIso,
-      endsAt: input.booking.endsAtIso,
-      ...(input.metadata ? { metadata: input.metadata } : {}),
-    },
-  });
-
-  const deliveryWrites: Array<typeof webhookDeliveries.$inferInsert> = matchingSubscriptions.map(
-    (subscription) => ({
-      subscriptionId: subscription.id,
-      eventId: event.id,
-      eventType: event.type,
-      payload: event,
-      status: 'pending',
-      attemptCount: 0,
-      maxAttempts: WEBHOOK_DEFAULT_MAX_ATTEMPTS,
-      nextAttemptAt: new Date(event.createdAt),
-    }),
-  );
-
-  await db
-    .insert(webhookDeliveries)
-    .values(deliveryWrites)
-    .onConflictDoNothing({ target: [webhookDeliveries.subscriptionId, webhookDeliveries.eventId] });
-
-  return matchingSubscriptions.length;
-};
-
 export const executeWebhookDelivery = async (
   db: Database,
   env: Bindings,
@@ -185,7 +92,6 @@ export const executeWebhookDelivery = async (
 
   const serializedPayload = JSON.stringify(delivery.payload);
   const timestampSeconds = Math.floor(now.getTime() / 1000);
-  const signature = buildWebhookSignatureHeader(delivery.secret, serializedPayload, timestampSeconds);
 
   let responseStatus: number | null = null;
   let errorMessage: string | null = null;
@@ -194,14 +100,15 @@ export const executeWebhookDelivery = async (
     const response = await fetch(delivery.url, {
       method: 'POST',
       redirect: 'manual',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-OpenCalendly-Signature': signature,
-        'X-OpenCalendly-Signature-Timestamp': String(timestampSeconds),
-        'X-OpenCalendly-Delivery-Id': delivery.id,
-        'X-OpenCalendly-Event': delivery.eventType,
-        'X-OpenCalendly-Event-Id': delivery.eventId,
-      },
+      headers: buildWebhookRequestHeaders({
+        secret: delivery.secret,
+        previousSecret: delivery.previousSecret,
+        serializedPayload,
+        timestampSeconds,
+        deliveryId: delivery.id,
+        eventType: delivery.eventType,
+        eventId: delivery.eventId,
+      }),
       body: serializedPayload,
     });
 
@@ -289,6 +196,10 @@ export const runWebhookDeliveryBatch = async (
   input: { organizerId: string; env: Bindings; limit: number; now?: Date },
 ): Promise<WebhookDeliveryRunResult> => {
   const now = input.now ?? new Date();
+  const claimedIds = await claimDueWebhookDeliveryIds(db, { organizerId: input.organizerId, now, limit: input.limit });
+  if (claimedIds.length === 0) {
+    return { processed: 0, succeeded: 0, retried: 0, failed: 0, rowIds: [] };
+  }
   const dueRows = await db
     .select({
       id: webhookDeliveries.id,
@@ -301,25 +212,22 @@ export const runWebhookDeliveryBatch = async (
       url: webhookSubscriptions.url,
       secret: webhookSubscriptions.secret,
       secretEncrypted: webhookSubscriptions.secretEncrypted,
+      previousSecretEncrypted: webhookSubscriptions.previousSecretEncrypted,
+      previousSecretExpiresAt: webhookSubscriptions.previousSecretExpiresAt,
     })
     .from(webhookDeliveries)
     .innerJoin(webhookSubscriptions, eq(webhookSubscriptions.id, webhookDeliveries.subscriptionId))
-    .where(
-      and(
-        eq(webhookSubscriptions.userId, input.organizerId),
-        eq(webhookDeliveries.status, 'pending'),
-        lte(webhookDeliveries.nextAttemptAt, now),
-      ),
-    )
-    .orderBy(webhookDeliveries.nextAttemptAt)
-    .limit(input.limit);
+    .where(inArray(webhookDeliveries.id, claimedIds))
+    .orderBy(webhookDeliveries.createdAt);
 
   const deliveries: PendingWebhookDelivery[] = [];
+  // Rows held back for a subscription disabled mid-batch are left out, so counts reflect real attempts.
+  const processedIds: string[] = [];
   let failed = 0;
 
   for (const row of dueRows) {
     const eventType = parseWebhookEventTypes([row.eventType])[0];
-    const payload = webhookEventSchema.safeParse(row.payload);
+    const payload = storedWebhookEventSchema.safeParse(row.payload);
     if (!eventType || !payload.success) {
       const invalidNow = new Date();
       await db
@@ -334,6 +242,7 @@ export const runWebhookDeliveryBatch = async (
         })
         .where(eq(webhookDeliveries.id, row.id));
       failed += 1;
+      processedIds.push(row.id);
       continue;
     }
 
@@ -358,6 +267,7 @@ export const runWebhookDeliveryBatch = async (
         })
         .where(eq(webhookDeliveries.id, row.id));
       failed += 1;
+      processedIds.push(row.id);
       continue;
     }
 
@@ -366,6 +276,7 @@ export const runWebhookDeliveryBatch = async (
       subscriptionId: row.subscriptionId,
       url: row.url,
       secret: signingSecret,
+      previousSecret: resolveWebhookPreviousSigningSecret(row, input.env, now),
       eventId: row.eventId,
       eventType,
       payload: payload.data,
@@ -376,22 +287,43 @@ export const runWebhookDeliveryBatch = async (
 
   let succeeded = 0;
   let retried = 0;
+  const healthySubscriptionIds = new Set<string>();
+  const disabledSubscriptionIds = new Set<string>();
   for (const delivery of deliveries) {
+    // Rows claimed for a subscription that was just disabled stay pending and are held with its backlog.
+    if (disabledSubscriptionIds.has(delivery.subscriptionId)) {
+      continue;
+    }
+
     const outcome = await executeWebhookDelivery(db, input.env, delivery);
+    processedIds.push(delivery.id);
     if (outcome === 'succeeded') {
       succeeded += 1;
+      if (!healthySubscriptionIds.has(delivery.subscriptionId)) {
+        await resetWebhookFailureStreak(db, delivery.subscriptionId);
+        healthySubscriptionIds.add(delivery.subscriptionId);
+      }
     } else if (outcome === 'retried') {
       retried += 1;
     } else {
       failed += 1;
+      healthySubscriptionIds.delete(delivery.subscriptionId);
+      const autoDisabled = await recordWebhookPermanentFailure(db, input.env, {
+        subscriptionId: delivery.subscriptionId,
+        deliveryId: delivery.id,
+        now: new Date(),
+      });
+      if (autoDisabled) {
+        disabledSubscriptionIds.add(delivery.subscriptionId);
+      }
     }
   }
 
   return {
-    processed: dueRows.length,
+    processed: processedIds.length,
     succeeded,
     retried,
     failed,
-    rowIds: dueRows.map((row) => row.id),
+    rowIds: processedIds,
   };
 };
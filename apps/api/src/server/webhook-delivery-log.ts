@@ -0,0 +1,186 @@
+import { and, desc, eq, gte, inArray, lt, or, type SQL } from 'drizzle-orm';
+
+import { webhookDeliveries, webhookSubscriptions } from '@opencalendly/db';
+import type { WebhookDeliveryStatus } from '@opencalendly/shared';
+
+import {
+  type WebhookDeliveriesCursor,
+  canReplayWebhookDelivery,
+  encodeWebhookDeliveriesCursor,
+} from '../lib/webhook-delivery-log';
+import type { Database, WebhookEventType } from './types';
+
+export type WebhookDeliveryReplayOutcome =
+  | { outcome: 'replayed'; deliveryId: string; subscriptionId: string }
+  | { outcome: 'not_found' }
+  | { outcome: 'subscription_inactive' }
+  | { outcome: 'still_pending' };
+
+const deliveryLogColumns = {
+  id: webhookDeliveries.id,
+  eventId: webhookDeliveries.eventId,
+  eventType: webhookDeliveries.eventType,
+  status: webhookDeliveries.status,
+  attemptCount: webhookDeliveries.attemptCount,
+  maxAttempts: webhookDeliveries.maxAttempts,
+  nextAttemptAt: webhookDeliveries.nextAttemptAt,
+  lastAttemptAt: webhookDeliveries.lastAttemptAt,
+  lastResponseStatus: webhookDeliveries.lastResponseStatus,
+  lastError: webhookDeliveries.lastError,
+  payload: webhookDeliveries.payload,
+  createdAt: webhookDeliveries.createdAt,
+  updatedAt: webhookDeliveries.updatedAt,
+};
+
+// Back to square one: the runner picks the row up on its next pass with a fresh attempt budget.
+const replayValues = (now: Date) => ({
+  status: 'pending' as const,
+  attemptCount: 0,
+  nextAttemptAt: now,
+  lastError: null,
+  updatedAt: now,
+});
+
+/**
+ * Newest first. Returns null when the subscription does not belong to the organizer so the route
+ * can answer 404 without leaking whether the id exists.
+ */
+export const listWebhookDeliveries = async (
+  db: Database,
+  input: {
+    organizerId: string;
+    subscriptionId: string;
+    status?: WebhookDeliveryStatus | undefined;
+    eventType?: WebhookEventType | undefined;
+    cursor: WebhookDeliveriesCursor | null;
+    limit: number;
+  },
+) => {
+  const [subscription] = await db
+    .select({ id: webhookSubscriptions.id })
+    .from(webhookSubscriptions)
+    .where(and(eq(webhookSubscriptions.id, input.subscriptionId), eq(webhookSubscriptions.userId, input.organizerId)))
+    .limit(1);
+  if (!subscription) {
+    return null;
+  }
+
+  const conditions: SQL[] = [eq(webhookDeliveries.subscriptionId, subscription.id)];
+  if (input.status) {
+    conditions.push(eq(webhookDeliveries.status, input.status));
+  }
+  if (input.eventType) {
+    conditions.push(eq(webhookDeliveries.eventType, input.eventType));
+  }
+  if (input.cursor) {
+    const cursorCreatedAt = new Date(input.cursor.createdAt);
+    const cursorCondition = or(
+      lt(webhookDeliveries.createdAt, cursorCreatedAt),
+      and(eq(webhookDeliveries.createdAt, cursorCreatedAt), lt(webhookDeliveries.id, input.cursor.id)),
+    );
+    if (cursorCondition) {
+      conditions.push(cursorCondition);
+    }
+  }
+
+  const rows = await db
+    .select(deliveryLogColumns)
+    .from(webhookDeliveries)
+    .where(and(...conditions))
+    .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+    .limit(input.limit + 1);
+
+  const page = rows.slice(0, input.limit);
+  const lastRow = page[page.length - 1];
+  return {
+    deliveries: page.map((row) => ({
+      id: row.id,
+      eventId: row.eventId,
+      eventType: row.eventType,
+      status: row.status,
+      attemptCount: row.attemptCount,
+      maxAttempts: row.maxAttempts,
+      nextAttemptAt: row.status === 'pending' ? row.nextAttemptAt.toISOString() : null,
+      lastAttemptAt: row.lastAttemptAt ? row.lastAttemptAt.toISOString() : null,
+      lastResponseStatus: row.lastResponseStatus,
+      lastError: row.lastError,
+      payload: row.payload,
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    })),
+    nextCursor:
+      rows.length > input.limit && lastRow
+        ? encodeWebhookDeliveriesCursor({ createdAt: lastRow.createdAt.toISOString(), id: lastRow.id })
+        : null,
+  };
+};
+
+export const replayWebhookDelivery = async (
+  db: Database,
+  input: { organizerId: string; deliveryId: string; now: Date },
+): Promise<WebhookDeliveryReplayOutcome> => {
+  const [row] = await db
+    .select({
+      subscriptionId: webhookDeliveries.subscriptionId,
+      status: webhookDeliveries.status,
+      isActive: webhookSubscriptions.isActive,
+    })
+    .from(webhookDeliveries)
+    .innerJoin(webhookSubscriptions, eq(webhookSubscriptions.id, webhookDeliveries.subscriptionId))
+    .where(and(eq(webhookDeliveries.id, input.deliveryId), eq(webhookSubscriptions.userId, input.organizerId)))
+    .limit(1);
+  if (!row) {
+    return { outcome: 'not_found' };
+  }
+  if (!row.isActive) {
+    return { outcome: 'subscription_inactive' };
+  }
+  if (!canReplayWebhookDelivery(row.status)) {
+    return { outcome: 'still_pending' };
+  }
+
+  // Guarded on status so two replays, or a replay racing the runner, only reset the row once.
+  const [replayed] = await db
+    .update(webhookDeliveries)
+    .set(replayValues(input.now))
+    .where(and(eq(webhookDeliveries.id, input.deliveryId), inArray(webhookDeliveries.status, ['succeeded', 'failed'])))
+    .returning({ id: webhookDeliveries.id });
+  if (!replayed) {
+    return { outcome: 'still_pending' };
+  }
+  return { outcome: 'replayed', deliveryId: replayed.id, subscriptionId: row.subscriptionId };
+};
+
+/**
+ * Requeues every failed delivery whose last attempt landed at or after `since`, across the
+ * organizer's active subscriptions or just one of them. Disabled subscriptions are skipped.
+ */
+export const replayFailedWebhookDeliveries = async (
+  db: Database,
+  input: { organizerId: string; subscriptionId?: string | undefined; since: Date; now: Date },
+): Promise<{ replayed: number }> => {
+  const subscriptionConditions: SQL[] = [
+    eq(webhookSubscriptions.userId, input.organizerId),
+    eq(webhookSubscriptions.isActive, true),
+  ];
+  if (input.subscriptionId) {
+    subscriptionConditions.push(eq(webhookSubscriptions.id, input.subscriptionId));
+  }
+  const subscriptionIds = db
+    .select({ id: webhookSubscriptions.id })
+    .from(webhookSubscriptions)
+    .where(and(...subscriptionConditions));
+
+  const rows = await db
+    .update(webhookDeliveries)
+    .set(replayValues(input.now))
+    .where(
+      and(
+        inArray(webhookDeliveries.subscriptionId, subscriptionIds),
+        eq(webhookDeliveries.status, 'failed'),
+        gte(webhookDeliveries.lastAttemptAt, input.since),
+      ),
+    )
+    .returning({ id: webhookDeliveries.id });
+  return { replayed: rows.length };
+};
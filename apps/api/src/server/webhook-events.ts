@@ -0,0 +1,241 @@
+import { and, eq, isNotNull, or } from 'drizzle-orm';
+
+import { bookings, eventTypes, teams, users, webhookDeliveries, webhookSubscriptions } from '@opencalendly/db';
+import type {
+  StoredWebhookEvent,
+  TeamMemberRole,
+  WebhookBookingEventType,
+  WebhookEventType,
+  WebhookEventV2,
+} from '@opencalendly/shared';
+
+import { parseBookingMetadata } from '../lib/booking-actions';
+import { buildWebhookBookingSnapshot, buildWebhookEventTypeSnapshot } from '../lib/webhook-payloads';
+import {
+  WEBHOOK_DEFAULT_MAX_ATTEMPTS,
+  buildWebhookEvent,
+  buildWebhookEventV2,
+  parseWebhookApiVersion,
+  parseWebhookEventTypes,
+} from '../lib/webhooks';
+import { normalizeTimezone } from './core';
+import type { Database, WebhookSubscriptionRecord } from './types';
+
+const loadMatchingSubscriptions = async (
+  db: Database,
+  organizerId: string,
+  type: WebhookEventType,
+): Promise<WebhookSubscriptionRecord[]> => {
+  const rows = await db
+    .select({
+      id: webhookSubscriptions.id,
+      userId: webhookSubscriptions.userId,
+      url: webhookSubscriptions.url,
+      events: webhookSubscriptions.events,
+      apiVersion: webhookSubscriptions.apiVersion,
+      isActive: webhookSubscriptions.isActive,
+    })
+    .from(webhookSubscriptions)
+    .where(
+      and(
+        eq(webhookSubscriptions.userId, organizerId),
+        // Auto-disabled subscriptions keep collecting events so they can be replayed on re-enable.
+        or(eq(webhookSubscriptions.isActive, true), isNotNull(webhookSubscriptions.autoDisabledAt)),
+      ),
+    );
+
+  return rows
+    .map((row) => ({
+      id: row.id,
+      userId: row.userId,
+      url: row.url,
+      events: parseWebhookEventTypes(row.events),
+      apiVersion: parseWebhookApiVersion(row.apiVersion),
+      isActive: row.isActive,
+    }))
+    .filter((subscription) => subscription.events.includes(type));
+};
+
+const buildDeliveryWrites = (
+  subscriptions: WebhookSubscriptionRecord[],
+  event: StoredWebhookEvent,
+): Array<typeof webhookDeliveries.$inferInsert> => {
+  return subscriptions.map((subscription) => ({
+    subscriptionId: subscription.id,
+    eventId: event.id,
+    eventType: event.type,
+    payload: event,
+    status: 'pending',
+    attemptCount: 0,
+    maxAttempts: WEBHOOK_DEFAULT_MAX_ATTEMPTS,
+    nextAttemptAt: new Date(event.createdAt),
+  }));
+};
+
+const insertDeliveryWrites = async (
+  db: Database,
+  writes: Array<typeof webhookDeliveries.$inferInsert>,
+): Promise<void> => {
+  if (writes.length === 0) {
+    return;
+  }
+  await db
+    .insert(webhookDeliveries)
+    .values(writes)
+    .onConflictDoNothing({ target: [webhookDeliveries.subscriptionId, webhookDeliveries.eventId] });
+};
+
+const loadBookingSnapshot = async (db: Database, bookingId: string, metadata?: Record<string, unknown>) => {
+  const [row] = await db
+    .select({ booking: bookings, eventType: eventTypes })
+    .from(bookings)
+    .innerJoin(eventTypes, eq(eventTypes.id, bookings.eventTypeId))
+    .where(eq(bookings.id, bookingId))
+    .limit(1);
+  if (!row) {
+    return null;
+  }
+
+  const [rescheduledTo] = await db
+    .select({ id: bookings.id })
+    .from(bookings)
+    .where(eq(bookings.rescheduledFromBookingId, bookingId))
+    .limit(1);
+
+  return buildWebhookBookingSnapshot({
+    booking: row.booking,
+    eventType: row.eventType,
+    bookingMetadata: parseBookingMetadata(row.booking.metadata, normalizeTimezone),
+    rescheduledToBookingId: rescheduledTo?.id ?? null,
+    ...(metadata ? { metadata } : {}),
+  });
+};
+
+/**
+ * Queues a booking event for every active subscription that listens for it. v1 subscriptions get
+ * the original flat payload; v2 subscriptions get the expanded booking object under the same
+ * event id, so a receiver can dedupe across versions.
+ */
+export const enqueueWebhookDeliveries = async (
+  db: Database,
+  input: {
+    organizerId: string;
+    type: WebhookBookingEventType;
+    booking: {
+      id: string;
+      eventTypeId: string;
+      organizerId: string;
+      inviteeEmail: string;
+      inviteeName: string;
+      startsAtIso: string;
+      endsAtIso: string;
+    };
+    metadata?: Record<string, unknown>;
+  },
+): Promise<number> => {
+  const matchingSubscriptions = await loadMatchingSubscriptions(db, input.organizerId, input.type);
+  if (matchingSubscriptions.length === 0) {
+    return 0;
+  }
+
+  const event = buildWebhookEvent({
+    type: input.type,
+    payload: {
+      bookingId: input.booking.id,
+      eventTypeId: input.booking.eventTypeId,
+      organizerId: input.booking.organizerId,
+      inviteeEmail: input.booking.inviteeEmail,
+      inviteeName: input.booking.inviteeName,
+      startsAt: input.booking.startsAtIso,
+      endsAt: input.booking.endsAtIso,
+      ...(input.metadata ? { metadata: input.metadata } : {}),
+    },
+  });
+
+  const v1Subscriptions = matchingSubscriptions.filter((subscription) => subscription.apiVersion === 'v1');
+  const v2Subscriptions = matchingSubscriptions.filter((subscription) => subscription.apiVersion === 'v2');
+  const writes = buildDeliveryWrites(v1Subscriptions, event);
+
+  let queued = v1Subscriptions.length;
+  if (v2Subscriptions.length > 0) {
+    const booking = await loadBookingSnapshot(db, input.booking.id, input.metadata);
+    if (booking) {
+      const eventV2 = buildWebhookEventV2({
+        id: event.id,
+        createdAt: event.createdAt,
+        type: input.type,
+        payload: { booking },
+      });
+      writes.push(...buildDeliveryWrites(v2Subscriptions, eventV2));
+      queued += v2Subscriptions.length;
+    }
+  }
+
+  await insertDeliveryWrites(db, writes);
+  return queued;
+};
+
+/**
+ * Queues a non-booking event. These only exist in the v2 catalog, so v1 subscriptions never match.
+ */
+export const enqueueWebhookEventV2 = async (
+  db: Database,
+  input: { organizerId: string } & Pick<WebhookEventV2, 'type' | 'payload'>,
+): Promise<number> => {
+  const subscriptions = (await loadMatchingSubscriptions(db, input.organizerId, input.type)).filter(
+    (subscription) => subscription.apiVersion === 'v2',
+  );
+  if (subscriptions.length === 0) {
+    return 0;
+  }
+
+  const event = buildWebhookEventV2({ type: input.type, payload: input.payload });
+  await insertDeliveryWrites(db, buildDeliveryWrites(subscriptions, event));
+  return subscriptions.length;
+};
+
+export const enqueueEventTypeWebhookEvent = async (
+  db: Database,
+  input: { type: 'event_type.created' | 'event_type.updated'; eventTypeId: string; changedFields: string[] },
+): Promise<number> => {
+  const [eventType] = await db.select().from(eventTypes).where(eq(eventTypes.id, input.eventTypeId)).limit(1);
+  if (!eventType) {
+    return 0;
+  }
+
+  return enqueueWebhookEventV2(db, {
+    organizerId: eventType.userId,
+    type: input.type,
+    payload: { eventType: buildWebhookEventTypeSnapshot(eventType), changedFields: input.changedFields },
+  });
+};
+
+// Team events go to the team owner's subscriptions, since webhooks are configured per organizer.
+export const enqueueTeamMemberAddedWebhookEvent = async (
+  db: Database,
+  input: { teamId: string; userId: string; role: TeamMemberRole; source: 'direct' | 'invitation' },
+): Promise<number> => {
+  const [team] = await db
+    .select({ id: teams.id, ownerUserId: teams.ownerUserId, slug: teams.slug, name: teams.name })
+    .from(teams)
+    .where(eq(teams.id, input.teamId))
+    .limit(1);
+  const [member] = await db
+    .select({ email: users.email, displayName: users.displayName })
+    .from(users)
+    .where(eq(users.id, input.userId))
+    .limit(1);
+  if (!team || !member) {
+    return 0;
+  }
+
+  return enqueueWebhookEventV2(db, {
+    organizerId: team.ownerUserId,
+    type: 'team.member_added',
+    payload: {
+      team: { id: team.id, slug: team.slug, name: team.name },
+      member: { userId: input.userId, email: member.email, displayName: member.displayName, role: input.role },
+      source: input.source,
+    },
+  });
+};
@@ -2,7 +2,9 @@ import { describe, expect, it } from 'vitest';
 
 import type { Bindings } from './types';
 import {
+  createWebhookSecretRotationValues,
   createWebhookSecretValues,
+  resolveWebhookPreviousSigningSecret,
   resolveWebhookSigningSecret,
   webhookSecretStorageErrors,
 } from './webhook-secret-storage';
@@ -66,4 +68,21 @@ describe('webhook secret storage', () => {
       ),
     ).toThrow(webhookSecretStorageErrors.encryptionConfig);
   });
+
+  it('keeps the current secret readable until the rotation grace period ends', () => {
+    const env = createBindings();
+    const now = new Date('2026-03-10T12:00:00.000Z');
+    const current = createWebhookSecretValues('whsec_old_secret', env);
+    const rotated = createWebhookSecretRotationValues(current, 'whsec_new_secret', env, {
+      now,
+      gracePeriodHours: 24,
+    });
+
+    expect(resolveWebhookSigningSecret(rotated, env).secret).toBe('whsec_new_secret');
+    expect(rotated.previousSecretExpiresAt.toISOString()).toBe('2026-03-11T12:00:00.000Z');
+    expect(rotated.secretRotatedAt).toBe(now);
+    expect(resolveWebhookPreviousSigningSecret(rotated, env, now)).toBe('whsec_old_secret');
+    expect(resolveWebhookPreviousSigningSecret(rotated, env, rotated.previousSecretExpiresAt)).toBeNull();
+    expect(resolveWebhookPreviousSigningSecret(rotated, {} as Bindings, now)).toBeNull();
+  });
 });
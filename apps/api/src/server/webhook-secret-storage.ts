@@ -1,4 +1,4 @@
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 
 import { webhookSubscriptions } from '@opencalendly/db';
 
@@ -12,6 +12,16 @@ type StoredWebhookSecret = {
   secretEncrypted: string | null;
 };
 
+type StoredPreviousWebhookSecret = {
+  previousSecretEncrypted: string | null;
+  previousSecretExpiresAt: Date | null;
+};
+
+export type WebhookSecretRotationResult =
+  | { outcome: 'rotated'; secretRotatedAt: Date; previousSecretExpiresAt: Date }
+  | { outcome: 'not_found' }
+  | { outcome: 'secret_unreadable'; error: string };
+
 const MISSING_SECRET_ERROR = 'Webhook subscription secret is missing.';
 const ENCRYPTION_CONFIG_ERROR =
   'Webhook secret encryption is not configured. Set WEBHOOK_SECRET_ENCRYPTION_KEY or SESSION_SECRET.';
@@ -93,6 +103,97 @@ export const migrateWebhookSecretIfNeeded = async (
   return resolved.secret;
 };
 
+// Applied by instant secret swaps so an older rotation window does not keep signing.
+export const clearedWebhookSecretRotationValues = {
+  previousSecretEncrypted: null,
+  previousSecretExpiresAt: null,
+} as const;
+
+/**
+ * Encrypts the new secret and keeps the current one as the previous secret until the grace period
+ * ends. Rotating again inside a window drops the oldest secret: only two are ever valid.
+ */
+export const createWebhookSecretRotationValues = (
+  current: Omit<StoredWebhookSecret, 'id'>,
+  plaintext: string,
+  env: Bindings,
+  input: { now: Date; gracePeriodHours: number },
+) => {
+  const previous = resolveWebhookSigningSecret(current, env).secret;
+  const next = createWebhookSecretValues(plaintext, env);
+  const encryptionSecret = resolveWebhookEncryptionSecret(env);
+  if (!encryptionSecret) {
+    throw new Error(ENCRYPTION_CONFIG_ERROR);
+  }
+
+  return {
+    ...next,
+    previousSecretEncrypted: encryptSecret(previous, encryptionSecret),
+    previousSecretExpiresAt: new Date(input.now.getTime() + input.gracePeriodHours * 60 * 60 * 1000),
+    secretRotatedAt: input.now,
+  };
+};
+
+// The previous secret is best effort: if it is gone, expired, or unreadable, deliveries carry one signature.
+export const resolveWebhookPreviousSigningSecret = (
+  value: StoredPreviousWebhookSecret,
+  env: Bindings,
+  now: Date,
+): string | null => {
+  if (!value.previousSecretEncrypted || !value.previousSecretExpiresAt || value.previousSecretExpiresAt <= now) {
+    return null;
+  }
+  const encryptionSecret = resolveWebhookEncryptionSecret(env);
+  if (!encryptionSecret) {
+    return null;
+  }
+  try {
+    return decryptSecret(value.previousSecretEncrypted, encryptionSecret);
+  } catch {
+    return null;
+  }
+};
+
+export const rotateWebhookSecret = async (
+  db: Database,
+  env: Bindings,
+  input: { organizerId: string; webhookId: string; secret: string; gracePeriodHours: number; now: Date },
+): Promise<WebhookSecretRotationResult> => {
+  const ownedSubscription = and(
+    eq(webhookSubscriptions.id, input.webhookId),
+    eq(webhookSubscriptions.userId, input.organizerId),
+  );
+  const [current] = await db
+    .select({ secret: webhookSubscriptions.secret, secretEncrypted: webhookSubscriptions.secretEncrypted })
+    .from(webhookSubscriptions)
+    .where(ownedSubscription)
+    .limit(1);
+  if (!current) {
+    return { outcome: 'not_found' };
+  }
+
+  let values: ReturnType<typeof createWebhookSecretRotationValues>;
+  try {
+    values = createWebhookSecretRotationValues(current, input.secret, env, input);
+  } catch (error) {
+    return { outcome: 'secret_unreadable', error: error instanceof Error ? error.message : DECRYPTION_ERROR };
+  }
+
+  const [rotated] = await db
+    .update(webhookSubscriptions)
+    .set({ ...values, updatedAt: input.now })
+    .where(ownedSubscription)
+    .returning({ id: webhookSubscriptions.id });
+  if (!rotated) {
+    return { outcome: 'not_found' };
+  }
+  return {
+    outcome: 'rotated',
+    secretRotatedAt: values.secretRotatedAt,
+    previousSecretExpiresAt: values.previousSecretExpiresAt,
+  };
+};
+
 export const webhookSecretStorageErrors = {
   missingSecret: MISSING_SECRET_ERROR,
   encryptionConfig: ENCRYPTION_CONFIG_ERROR,
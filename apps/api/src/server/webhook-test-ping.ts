@@ -0,0 +1,103 @@
+import { and, eq } from 'drizzle-orm';
+
+import { webhookSubscriptions } from '@opencalendly/db';
+
+import { buildWebhookPingEvent, buildWebhookRequestHeaders, resolveWebhookTargetSafety } from '../lib/webhooks';
+import { migrateWebhookSecretIfNeeded, resolveWebhookPreviousSigningSecret } from './webhook-secret-storage';
+import type { Bindings, Database } from './types';
+
+const WEBHOOK_TEST_TIMEOUT_MS = 10_000;
+const WEBHOOK_TEST_BODY_SNIPPET_LENGTH = 500;
+
+export type WebhookTestPingResult = {
+  eventId: string;
+  delivered: boolean;
+  responseStatus: number | null;
+  latencyMs: number | null;
+  responseBodySnippet: string | null;
+  error: string | null;
+};
+
+/**
+ * Sends one signed `ping` straight to the subscription URL and reports what came back. Nothing is
+ * queued or retried, and disabled subscriptions can be pinged so a receiver can be checked before
+ * it goes live. Returns null when the subscription is not the organizer's.
+ */
+export const sendWebhookTestPing = async (
+  db: Database,
+  env: Bindings,
+  input: { organizerId: string; webhookId: string; now: Date },
+): Promise<WebhookTestPingResult | null> => {
+  const [subscription] = await db
+    .select({
+      id: webhookSubscriptions.id,
+      url: webhookSubscriptions.url,
+      secret: webhookSubscriptions.secret,
+      secretEncrypted: webhookSubscriptions.secretEncrypted,
+      previousSecretEncrypted: webhookSubscriptions.previousSecretEncrypted,
+      previousSecretExpiresAt: webhookSubscriptions.previousSecretExpiresAt,
+    })
+    .from(webhookSubscriptions)
+    .where(and(eq(webhookSubscriptions.id, input.webhookId), eq(webhookSubscriptions.userId, input.organizerId)))
+    .limit(1);
+  if (!subscription) {
+    return null;
+  }
+
+  const event = buildWebhookPingEvent({ webhookId: subscription.id, createdAt: input.now.toISOString() });
+  const failed = (error: string): WebhookTestPingResult => ({
+    eventId: event.id,
+    delivered: false,
+    responseStatus: null,
+    latencyMs: null,
+    responseBodySnippet: null,
+    error,
+  });
+
+  let secret: string;
+  try {
+    secret = await migrateWebhookSecretIfNeeded(db, env, subscription);
+  } catch (error) {
+    return failed(error instanceof Error ? error.message : 'Webhook subscription secret is invalid.');
+  }
+
+  const targetSafety = await resolveWebhookTargetSafety(subscription.url);
+  if (!targetSafety.ok) {
+    return failed(targetSafety.reason);
+  }
+
+  const serializedPayload = JSON.stringify(event);
+  const startedAt = Date.now();
+  try {
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      redirect: 'manual',
+      headers: buildWebhookRequestHeaders({
+        secret,
+        previousSecret: resolveWebhookPreviousSigningSecret(subscription, env, input.now),
+        serializedPayload,
+        timestampSeconds: Math.floor(input.now.getTime() / 1000),
+        deliveryId: event.id,
+        eventType: event.type,
+        eventId: event.id,
+      }),
+      body: serializedPayload,
+      signal: AbortSignal.timeout(WEBHOOK_TEST_TIMEOUT_MS),
+    });
+    const latencyMs = Date.now() - startedAt;
+    const body = await response.text().catch(() => '');
+    return {
+      eventId: event.id,
+      delivered: response.ok,
+      responseStatus: response.status,
+      latencyMs,
+      responseBodySnippet: body.slice(0, WEBHOOK_TEST_BODY_SNIPPET_LENGTH),
+      error: response.ok ? null : `HTTP ${response.status}`,
+    };
+  } catch (error) {
+    return {
+      ...failed(error instanceof Error ? error.message : 'Webhook test ping failed.'),
+      latencyMs: Date.now() - startedAt,
+    };
+  }
+};
@@ -11,6 +11,8 @@ import {
 } from '../../../features/booking/components';
 import { readableLocation } from '../../../features/booking/common';
 import { useOneOnOneBooking } from '../../../features/booking/use-one-on-one-booking';
+import { BookingWaitlistCard } from '../../../features/booking/waitlist-join';
+import { formatPrice } from '../../../lib/public-booking';
 import styles from './page.module.css';
 
 type BookingPageClientProps = {
@@ -65,6 +67,9 @@ export default function BookingPageClient({ username, eventSlug, apiBaseUrl }: B
         <p>
           Hosted by <strong>{booking.eventData.organizer.displayName}</strong> ·{' '}
           {booking.eventData.eventType.durationMinutes} minutes
+          {booking.eventData.eventType.price
+            ? ` · ${formatPrice(booking.eventData.eventType.price.amountCents, booking.eventData.eventType.price.currency)}`
+            : null}
         </p>
         <p>
           Location:{' '}
@@ -96,18 +101,24 @@ export default function BookingPageClient({ username, eventSlug, apiBaseUrl }: B
           slotGroups={booking.slotGroups}
           selectedSlot={booking.selectedSlot}
           onSelectSlot={booking.setSelectedSlot}
-          renderSlotLabel={(slotStartsAt) =>
-            new Intl.DateTimeFormat(undefined, {
+          renderSlotLabel={(slotStartsAt) => {
+            const label = new Intl.DateTimeFormat(undefined, {
               timeStyle: 'short',
               timeZone: booking.timezone,
-            }).format(new Date(slotStartsAt))
-          }
+            }).format(new Date(slotStartsAt));
+            const remainingSeats = booking.remainingSeatsBySlot.get(slotStartsAt);
+            return remainingSeats ? `${label} · ${remainingSeats} ${remainingSeats === 1 ? 'seat' : 'seats'} left` : label;
+          }}
         />
 
         <div className={styles.card}>
           <div className={styles.sectionHead}>
             <h2>Your details</h2>
-            <p>We’ll send your confirmation and booking links by email.</p>
+            <p>
+              {booking.eventData.eventType.requiresConfirmation
+                ? 'The organizer reviews each request. We’ll email you once it is approved or declined.'
+                : 'We’ll send your confirmation and booking links by email.'}
+            </p>
           </div>
 
           {booking.selectedSlotLabel ? (
@@ -170,7 +181,11 @@ export default function BookingPageClient({ username, eventSlug, apiBaseUrl }: B
             />
 
             <button className={styles.primaryButton} type="submit" disabled={booking.submitting}>
-              {booking.submitting ? 'Booking...' : 'Confirm booking'}
+              {booking.submitting
+                ? 'Booking...'
+                : booking.eventData.eventType.requiresConfirmation
+                  ? 'Request booking'
+                  : 'Confirm booking'}
             </button>
           </form>
 
@@ -180,6 +195,18 @@ export default function BookingPageClient({ username, eventSlug, apiBaseUrl }: B
           ) : null}
           {booking.deliveryStatus ? <p className={styles.notice}>{booking.deliveryStatus}</p> : null}
           <BookingActionLinks styles={styles} actionLinks={booking.actionLinks} />
+          {!booking.eventData.eventType.price && !booking.eventData.eventType.requiresConfirmation ? (
+            <BookingWaitlistCard
+              styles={styles}
+              apiBaseUrl={apiBaseUrl}
+              username={username}
+              eventSlug={eventSlug}
+              timezone={booking.timezone}
+              inviteeName={booking.inviteeName}
+              inviteeEmail={booking.inviteeEmail}
+              answers={booking.answers}
+            />
+          ) : null}
         </div>
       </section>
     </main>
@@ -0,0 +1,164 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { BookingPaymentSessionResponse } from '@opencalendly/shared';
+
+import { BookingLoadingState, BookingUnavailableState } from '../../../features/booking/components';
+import { normalizeLocalBrowserUrl } from '../../../lib/api-base-url';
+import { API_REQUEST_CREDENTIALS } from '../../../lib/auth-session';
+import { formatPrice, formatSlot, getBrowserTimezone } from '../../../lib/public-booking';
+import styles from './page.module.css';
+
+// Stripe redirects back before its webhook lands, so a pending session is re-checked for a while.
+const PENDING_POLL_INTERVAL_MS = 3_000;
+const PENDING_POLL_ATTEMPTS = 20;
+
+type PaymentPageClientProps = {
+  sessionId: string;
+  apiBaseUrl: string;
+};
+
+type PaymentSession = Omit<BookingPaymentSessionResponse, 'ok' | 'error'>;
+
+const describeSession = (session: PaymentSession): { title: string; detail: string } => {
+  if (session.booking.status === 'confirmed') {
+    return { title: 'Booking confirmed', detail: 'Payment received. Check your email for the invite and links.' };
+  }
+  if (session.payment.status === 'refunded') {
+    return { title: 'Payment refunded', detail: 'The hold ended before the payment arrived, so it was refunded.' };
+  }
+  if (session.payment.status === 'pending' && session.booking.status === 'pending_payment') {
+    return { title: 'Waiting for payment', detail: 'Your slot is held until the payment completes.' };
+  }
+  return { title: 'Booking not completed', detail: 'The payment did not go through and the slot was released.' };
+};
+
+export default function PaymentPageClient({ sessionId, apiBaseUrl }: PaymentPageClientProps) {
+  const [session, setSession] = useState<PaymentSession | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pollsLeft, setPollsLeft] = useState(PENDING_POLL_ATTEMPTS);
+
+  const loadSession = useCallback(async () => {
+    try {
+      const response = await fetch(
+        normalizeLocalBrowserUrl(`${apiBaseUrl}/v0/payments/sessions/${encodeURIComponent(sessionId)}`),
+        { cache: 'no-store', credentials: API_REQUEST_CREDENTIALS },
+      );
+      const payload = (await response.json()) as BookingPaymentSessionResponse;
+      if (!response.ok || !payload.ok) {
+        setError(payload.error || 'Payment session not found.');
+        return;
+      }
+      setSession({ payment: payload.payment, booking: payload.booking, eventType: payload.eventType });
+    } catch {
+      setError('Unable to load this payment.');
+    } finally {
+      setLoading(false);
+    }
+  }, [apiBaseUrl, sessionId]);
+
+  useEffect(() => {
+    void loadSession();
+  }, [loadSession]);
+
+  const isPending = session?.payment.status === 'pending' && session.booking.status === 'pending_payment';
+  useEffect(() => {
+    if (!isPending || session?.payment.provider === 'fake' || pollsLeft <= 0) {
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      setPollsLeft((previous) => previous - 1);
+      void loadSession();
+    }, PENDING_POLL_INTERVAL_MS);
+    return () => window.clearTimeout(timer);
+  }, [isPending, loadSession, pollsLeft, session?.payment.provider]);
+
+  // Local development only: the fake provider has no hosted checkout, so this page plays its part.
+  const sendFakeOutcome = async (outcome: 'succeeded' | 'expired') => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(normalizeLocalBrowserUrl(`${apiBaseUrl}/v0/payments/webhooks/fake`), {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        credentials: API_REQUEST_CREDENTIALS,
+        body: JSON.stringify({ sessionId, outcome }),
+      });
+      if (!response.ok) {
+        setError('Unable to record the test payment.');
+        return;
+      }
+      await loadSession();
+    } catch {
+      setError('Unable to record the test payment.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <BookingLoadingState styles={styles} kicker="Payment" title="Checking payment..." />;
+  }
+
+  if (!session) {
+    return (
+      <BookingUnavailableState
+        styles={styles}
+        kicker="Payment"
+        title="Payment unavailable"
+        error={error || 'Payment session not found.'}
+      />
+    );
+  }
+
+  const summary = describeSession(session);
+  const timezone = getBrowserTimezone();
+
+  return (
+    <main className={styles.page}>
+      <section className={styles.heroCard}>
+        <p className={styles.kicker}>Payment</p>
+        <h1>{summary.title}</h1>
+        <p>
+          <strong>{session.eventType.name}</strong> · {formatSlot(session.booking.startsAt, timezone)} ({timezone}) ·{' '}
+          {formatPrice(session.payment.amountCents, session.payment.currency)}
+        </p>
+        <p>{summary.detail}</p>
+        {isPending ? <p>Hold expires {formatSlot(session.payment.expiresAt, timezone)}.</p> : null}
+      </section>
+
+      {isPending && session.payment.provider === 'fake' ? (
+        <section className={styles.card}>
+          <p>This server uses the test payment provider. No money moves.</p>
+          <button
+            className={styles.primaryButton}
+            type="button"
+            disabled={submitting}
+            onClick={() => void sendFakeOutcome('succeeded')}
+          >
+            Complete test payment
+          </button>
+          <button
+            className={styles.secondaryButton}
+            type="button"
+            disabled={submitting}
+            onClick={() => void sendFakeOutcome('expired')}
+          >
+            Abandon
+          </button>
+          {error ? <p className={styles.error}>{error}</p> : null}
+        </section>
+      ) : null}
+
+      {isPending && session.payment.provider === 'stripe' ? (
+        <section className={styles.card}>
+          <a className={styles.primaryButton} href={session.payment.checkoutUrl}>
+            Return to checkout
+          </a>
+        </section>
+      ) : null}
+    </main>
+  );
+}
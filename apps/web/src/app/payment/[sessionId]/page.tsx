@@ -0,0 +1,16 @@
+import { resolveApiBaseUrl } from '../../../lib/api-base-url';
+import PaymentPageClient from './page.client';
+
+export const runtime = 'edge';
+
+type PaymentPageProps = {
+  params: Promise<{
+    sessionId: string;
+  }>;
+};
+
+export default async function PaymentPage({ params }: PaymentPageProps) {
+  const { sessionId } = await params;
+
+  return <PaymentPageClient sessionId={sessionId} apiBaseUrl={resolveApiBaseUrl('PaymentPage')} />;
+}
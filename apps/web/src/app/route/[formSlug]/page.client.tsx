@@ -0,0 +1,135 @@
+'use client';
+
+import { type FormEvent, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { BookingAnswerValue, PublicRoutingFormResponse, RoutingFormSubmitResponse } from '@opencalendly/shared';
+
+import {
+  BookingLoadingState,
+  BookingQuestionFields,
+  BookingUnavailableState,
+} from '../../../features/booking/components';
+import { buildInitialAnswers, findMissingRequiredQuestion, toAnsweredQuestions } from '../../../features/booking/common';
+import { normalizeLocalBrowserUrl } from '../../../lib/api-base-url';
+import { API_REQUEST_CREDENTIALS } from '../../../lib/auth-session';
+import styles from './page.module.css';
+
+type RoutingFormPageClientProps = {
+  formSlug: string;
+  apiBaseUrl: string;
+};
+
+export default function RoutingFormPageClient({ formSlug, apiBaseUrl }: RoutingFormPageClientProps) {
+  const router = useRouter();
+  const [form, setForm] = useState<PublicRoutingFormResponse['form'] | null>(null);
+  const [answers, setAnswers] = useState<Record<string, BookingAnswerValue>>({});
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const formUrl = normalizeLocalBrowserUrl(`${apiBaseUrl}/v0/route/${encodeURIComponent(formSlug)}`);
+
+  useEffect(() => {
+    let canceled = false;
+    const loadForm = async () => {
+      try {
+        const response = await fetch(formUrl, { cache: 'no-store', credentials: API_REQUEST_CREDENTIALS });
+        const payload = (await response.json()) as PublicRoutingFormResponse;
+        if (canceled) {
+          return;
+        }
+        if (!response.ok || !payload.ok) {
+          setError(payload.error || 'Routing form not found.');
+          return;
+        }
+        setForm(payload.form);
+        setAnswers(buildInitialAnswers(payload.form.questions));
+      } catch {
+        if (!canceled) {
+          setError('Unable to load this form.');
+        }
+      } finally {
+        if (!canceled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    void loadForm();
+    return () => {
+      canceled = true;
+    };
+  }, [formUrl]);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!form) {
+      return;
+    }
+
+    const missingQuestion = findMissingRequiredQuestion(form.questions, answers);
+    if (missingQuestion) {
+      setError(`Answer required question: "${missingQuestion.label}".`);
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(formUrl, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        credentials: API_REQUEST_CREDENTIALS,
+        body: JSON.stringify({ answers: toAnsweredQuestions(answers) }),
+      });
+      const payload = (await response.json()) as RoutingFormSubmitResponse;
+      if (!response.ok || !payload.ok || !payload.redirectPath) {
+        setError(payload.error || 'Unable to find a matching meeting.');
+        return;
+      }
+      router.push(payload.redirectPath);
+    } catch {
+      setError('Unable to submit this form.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <BookingLoadingState styles={styles} kicker="Get matched" title="Loading form..." />;
+  }
+
+  if (!form) {
+    return (
+      <BookingUnavailableState
+        styles={styles}
+        kicker="Get matched"
+        title="Form unavailable"
+        error={error || 'Routing form not found.'}
+      />
+    );
+  }
+
+  return (
+    <main className={styles.page}>
+      <section className={styles.heroCard}>
+        <p className={styles.kicker}>Get matched</p>
+        <h1>{form.name}</h1>
+        <p>Answer a few questions and we will take you to the right booking page.</p>
+      </section>
+
+      <form className={styles.card} onSubmit={(event) => void handleSubmit(event)}>
+        <BookingQuestionFields
+          styles={styles}
+          prefix="routing"
+          questions={form.questions}
+          answers={answers}
+          onAnswerChange={(questionId, value) => setAnswers((previous) => ({ ...previous, [questionId]: value }))}
+        />
+        <button className={styles.primaryButton} type="submit" disabled={submitting}>
+          {submitting ? 'Finding your meeting...' : 'Continue'}
+        </button>
+        {error ? <p className={styles.error}>{error}</p> : null}
+      </form>
+    </main>
+  );
+}
@@ -0,0 +1,16 @@
+import { resolveApiBaseUrl } from '../../../lib/api-base-url';
+import RoutingFormPageClient from './page.client';
+
+export const runtime = 'edge';
+
+type RoutingFormPageProps = {
+  params: Promise<{
+    formSlug: string;
+  }>;
+};
+
+export default async function RoutingFormPage({ params }: RoutingFormPageProps) {
+  const { formSlug } = await params;
+
+  return <RoutingFormPageClient formSlug={formSlug} apiBaseUrl={resolveApiBaseUrl('RoutingFormPage')} />;
+}
@@ -109,6 +109,15 @@ export default function TeamBookingPageClient({
             <p className={styles.selection}>
               {formatSlot(booking.selectedSlotDetails.startsAt, booking.timezone)} ·{' '}
               {booking.selectedSlotDetails.assignmentUserIds.length} assigned member(s)
+              {booking.selectedSlotDetails.optionalAttendeeUserIds.length > 0
+                ? ` · also attending: ${booking.selectedSlotDetails.optionalAttendeeUserIds
+                    .map(
+                      (userId) =>
+                        booking.teamEvent?.optionalMembers.find((member) => member.userId === userId)?.user
+                          ?.displayName ?? userId,
+                    )
+                    .join(', ')}`
+                : ''}
             </p>
           ) : (
             <p className={styles.selection}>Choose a time to continue.</p>
@@ -179,6 +188,18 @@ export default function TeamBookingPageClient({
                 </li>
               ))}
             </ul>
+            {booking.teamEvent.optionalMembers.length > 0 ? (
+              <>
+                <h3>Optional members</h3>
+                <ul>
+                  {booking.teamEvent.optionalMembers.map((member) => (
+                    <li key={member.userId}>
+                      {member.user?.displayName ?? member.userId} · joins when free
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : null}
           </div>
 
           {booking.error ? <p className={styles.error}>{booking.error}</p> : null}
@@ -0,0 +1,170 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+
+import { teamInvitationApi, type TeamInvitationView } from '../../../../features/team-invitations/api';
+import { useAuthSession } from '../../../../lib/use-auth-session';
+import styles from './page.module.css';
+
+type TeamInvitationPageClientProps = {
+  token: string;
+  apiBaseUrl: string;
+};
+
+const STATE_MESSAGES: Record<Exclude<TeamInvitationView['state'], 'pending'>, string> = {
+  expired: 'This invitation has expired. Ask the team owner to send a new one.',
+  accepted: 'This invitation was already accepted.',
+  declined: 'This invitation was declined.',
+  revoked: 'The team owner revoked this invitation.',
+};
+
+export default function TeamInvitationPageClient({ token, apiBaseUrl }: TeamInvitationPageClientProps) {
+  const { session, ready } = useAuthSession();
+  const [invitation, setInvitation] = useState<TeamInvitationView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    teamInvitationApi
+      .getInvitation(apiBaseUrl, token)
+      .then((payload) => {
+        if (!cancelled) {
+          setInvitation(payload.invitation);
+        }
+      })
+      .catch((caught: unknown) => {
+        if (!cancelled) {
+          setError(caught instanceof Error ? caught.message : 'Unable to load this invitation.');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [apiBaseUrl, token]);
+
+  const respond = async (action: 'accept' | 'decline') => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      if (action === 'accept') {
+        const result = await teamInvitationApi.acceptInvitation(apiBaseUrl, session, token);
+        setSuccess(
+          result.addedTeamEventTypeIds.length > 0
+            ? `You joined ${result.team.name} and ${result.addedTeamEventTypeIds.length} team event type(s).`
+            : `You joined ${result.team.name}.`,
+        );
+        setInvitation((prev) => (prev ? { ...prev, state: 'accepted' } : prev));
+      } else {
+        const result = await teamInvitationApi.declineInvitation(apiBaseUrl, session, token);
+        setSuccess(`You declined the invitation to ${result.team.name}.`);
+        setInvitation((prev) => (prev ? { ...prev, state: 'declined' } : prev));
+      }
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : 'Unable to respond to this invitation.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!ready || loading) {
+    return (
+      <main className={styles.page}>
+        <section className={styles.heroCard}>
+          <p className={styles.kicker}>Team invitation</p>
+          <h1>Loading invitation...</h1>
+        </section>
+      </main>
+    );
+  }
+
+  if (!invitation) {
+    return (
+      <main className={styles.page}>
+        <section className={styles.heroCard}>
+          <p className={styles.kicker}>Team invitation</p>
+          <h1>This invitation is unavailable</h1>
+          <p className={styles.error}>{error || 'This invitation link is not valid.'}</p>
+          <Link className={styles.secondaryButton} href="/">
+            Go home
+          </Link>
+        </section>
+      </main>
+    );
+  }
+
+  const signInHref = `/auth/sign-in?redirect_url=${encodeURIComponent(`/teams/invite/${encodeURIComponent(token)}`)}`;
+  const signedInAsOther =
+    session !== null && session.user.email.trim().toLowerCase() !== invitation.email.toLowerCase();
+
+  return (
+    <main className={styles.page}>
+      <section className={styles.heroCard}>
+        <p className={styles.kicker}>Team invitation</p>
+        <h1>Join {invitation.team.name}</h1>
+        <p>
+          {invitation.inviter.displayName} invited <strong>{invitation.email}</strong> to join as{' '}
+          {invitation.role === 'owner' ? 'an owner' : 'a member'}.
+        </p>
+        {invitation.teamEventTypeCount > 0 ? (
+          <p className={styles.muted}>
+            Accepting also adds you to {invitation.teamEventTypeCount} team event type(s).
+          </p>
+        ) : null}
+
+        {invitation.state !== 'pending' ? (
+          <p className={success ? styles.success : styles.muted}>{success || STATE_MESSAGES[invitation.state]}</p>
+        ) : (
+          <>
+            <p className={styles.muted}>Expires {new Date(invitation.expiresAt).toLocaleString()}.</p>
+            {signedInAsOther ? (
+              <p className={styles.error}>
+                You are signed in as {session.user.email}. Sign in as {invitation.email} to accept.
+              </p>
+            ) : null}
+            <div className={styles.actions}>
+              {session ? (
+                <button
+                  type="button"
+                  className={styles.primaryButton}
+                  onClick={() => void respond('accept')}
+                  disabled={submitting || signedInAsOther}
+                >
+                  {submitting ? 'Saving…' : 'Accept invitation'}
+                </button>
+              ) : (
+                <Link className={styles.primaryButton} href={signInHref}>
+                  Sign in to accept
+                </Link>
+              )}
+              <button
+                type="button"
+                className={styles.secondaryButton}
+                onClick={() => void respond('decline')}
+                disabled={submitting}
+              >
+                Decline
+              </button>
+            </div>
+          </>
+        )}
+
+        {invitation.state === 'accepted' && success ? (
+          <Link className={styles.secondaryButton} href="/organizer">
+            Open organizer console
+          </Link>
+        ) : null}
+        {error ? <p className={styles.error}>{error}</p> : null}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,16 @@
+import { resolveApiBaseUrl } from '../../../../lib/api-base-url';
+import TeamInvitationPageClient from './page.client';
+
+export const runtime = 'edge';
+
+type TeamInvitationPageProps = {
+  params: Promise<{
+    token: string;
+  }>;
+};
+
+export default async function TeamInvitationPage({ params }: TeamInvitationPageProps) {
+  const { token } = await params;
+
+  return <TeamInvitationPageClient token={token} apiBaseUrl={resolveApiBaseUrl('TeamInvitationPage')} />;
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { PublicBookingResponse, WaitlistOfferResponse } from '@opencalendly/shared';
+
+import { BookingLoadingState, BookingUnavailableState } from '../../../../features/booking/components';
+import { normalizeLocalBrowserUrl } from '../../../../lib/api-base-url';
+import { API_REQUEST_CREDENTIALS } from '../../../../lib/auth-session';
+import { formatSlot } from '../../../../lib/public-booking';
+import styles from './page.module.css';
+
+type WaitlistClaimPageClientProps = {
+  token: string;
+  apiBaseUrl: string;
+};
+
+type WaitlistOffer = Omit<WaitlistOfferResponse, 'ok' | 'error'>;
+
+const describeOffer = (offer: WaitlistOffer['offer']): { title: string; detail: string } => {
+  if (offer.state === 'open') {
+    return { title: 'A spot opened up', detail: 'The slot is not held, so claim it before someone else books it.' };
+  }
+  if (offer.state === 'claimed') {
+    return { title: 'Already claimed', detail: 'This offer was used. Check your email for the booking details.' };
+  }
+  return { title: 'Offer expired', detail: 'This offer is no longer available.' };
+};
+
+export default function WaitlistClaimPageClient({ token, apiBaseUrl }: WaitlistClaimPageClientProps) {
+  const [offer, setOffer] = useState<WaitlistOffer | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmation, setConfirmation] = useState<PublicBookingResponse | null>(null);
+
+  const loadOffer = useCallback(async () => {
+    try {
+      const response = await fetch(
+        normalizeLocalBrowserUrl(`${apiBaseUrl}/v0/waitlist-offers/${encodeURIComponent(token)}`),
+        { cache: 'no-store', credentials: API_REQUEST_CREDENTIALS },
+      );
+      const payload = (await response.json()) as WaitlistOfferResponse;
+      if (!response.ok || !payload.ok) {
+        setError(payload.error || 'Waitlist offer not found.');
+        return;
+      }
+      setOffer({ offer: payload.offer, eventType: payload.eventType, organizer: payload.organizer });
+    } catch {
+      setError('Unable to load this waitlist offer.');
+    } finally {
+      setLoading(false);
+    }
+  }, [apiBaseUrl, token]);
+
+  useEffect(() => {
+    void loadOffer();
+  }, [loadOffer]);
+
+  const claimOffer = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        normalizeLocalBrowserUrl(`${apiBaseUrl}/v0/waitlist-offers/${encodeURIComponent(token)}/claim`),
+        { method: 'POST', credentials: API_REQUEST_CREDENTIALS },
+      );
+      const payload = (await response.json()) as PublicBookingResponse;
+      if (!response.ok || !payload.ok) {
+        setError(payload.error || 'Unable to claim this slot.');
+        // A failed claim always ends the offer; the invitee is either back on the waitlist or too late.
+        setOffer((previous) => (previous ? { ...previous, offer: { ...previous.offer, state: 'expired' } } : previous));
+        return;
+      }
+      setConfirmation(payload);
+    } catch {
+      setError('Unable to claim this slot.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <BookingLoadingState styles={styles} kicker="Waitlist" title="Checking your offer..." />;
+  }
+
+  if (!offer) {
+    return (
+      <BookingUnavailableState
+        styles={styles}
+        kicker="Waitlist"
+        title="Offer unavailable"
+        error={error || 'Waitlist offer not found.'}
+      />
+    );
+  }
+
+  const timezone = offer.offer.timezone;
+  const summary = confirmation
+    ? { title: 'Booking confirmed', detail: 'Check your email for the invite and links.' }
+    : describeOffer(offer.offer);
+
+  return (
+    <main className={styles.page}>
+      <section className={styles.heroCard}>
+        <p className={styles.kicker}>Waitlist</p>
+        <h1>{summary.title}</h1>
+        <p>
+          <strong>{offer.eventType.name}</strong> with {offer.organizer.displayName} ·{' '}
+          {formatSlot(offer.offer.startsAt, timezone)} ({timezone})
+        </p>
+        <p>{summary.detail}</p>
+        {offer.offer.state === 'open' && offer.offer.expiresAt && !confirmation ? (
+          <p>Offer ends {formatSlot(offer.offer.expiresAt, timezone)}.</p>
+        ) : null}
+      </section>
+
+      {offer.offer.state === 'open' && !confirmation ? (
+        <section className={styles.card}>
+          <button className={styles.primaryButton} type="button" disabled={submitting} onClick={() => void claimOffer()}>
+            {submitting ? 'Booking...' : `Book this time as ${offer.offer.inviteeName}`}
+          </button>
+          {error ? <p className={styles.error}>{error}</p> : null}
+        </section>
+      ) : null}
+
+      {confirmation?.actions ? (
+        <section className={styles.card}>
+          {confirmation.actions.cancel ? (
+            <a className={styles.secondaryButton} href={confirmation.actions.cancel.pageUrl}>
+              Cancel booking
+            </a>
+          ) : null}
+          {confirmation.actions.reschedule ? (
+            <a className={styles.secondaryButton} href={confirmation.actions.reschedule.pageUrl}>
+              Reschedule booking
+            </a>
+          ) : null}
+        </section>
+      ) : null}
+
+      {offer.offer.state !== 'open' && error ? (
+        <section className={styles.card}>
+          <p className={styles.error}>{error}</p>
+        </section>
+      ) : null}
+    </main>
+  );
+}
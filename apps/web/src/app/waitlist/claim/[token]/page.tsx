@@ -0,0 +1,16 @@
+import { resolveApiBaseUrl } from '../../../../lib/api-base-url';
+import WaitlistClaimPageClient from './page.client';
+
+export const runtime = 'edge';
+
+type WaitlistClaimPageProps = {
+  params: Promise<{
+    token: string;
+  }>;
+};
+
+export default async function WaitlistClaimPage({ params }: WaitlistClaimPageProps) {
+  const { token } = await params;
+
+  return <WaitlistClaimPageClient token={token} apiBaseUrl={resolveApiBaseUrl('WaitlistClaimPage')} />;
+}
@@ -1,14 +1,87 @@
-import type { BookingQuestion, PublicBookingActionLinks } from '@opencalendly/shared';
+import type { BookingAnswerValue, BookingQuestion, PublicBookingActionLinks } from '@opencalendly/shared';
 
 export const buildInitialAnswers = (
   questions: BookingQuestion[],
-): Record<string, string> => {
-  return questions.reduce<Record<string, string>>((accumulator, question) => {
-    accumulator[question.id] = '';
+): Record<string, BookingAnswerValue> => {
+  return questions.reduce<Record<string, BookingAnswerValue>>((accumulator, question) => {
+    if (question.type === 'checkbox') {
+      accumulator[question.id] = false;
+    } else if (question.type === 'multi_select') {
+      accumulator[question.id] = [];
+    } else {
+      accumulator[question.id] = '';
+    }
     return accumulator;
   }, {});
 };
 
+const isPrefillValueFor = (question: BookingQuestion, value: unknown): value is BookingAnswerValue => {
+  if (question.type === 'checkbox') {
+    return typeof value === 'boolean';
+  }
+  if (question.type === 'multi_select') {
+    return Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+  }
+  if (question.type === 'number') {
+    return typeof value === 'number' || typeof value === 'string';
+  }
+  return typeof value === 'string';
+};
+
+// Routing forms hand their answers over as a JSON `answers` query parameter. Unknown question ids
+// and values of the wrong shape are dropped so a hand-edited link cannot break the form.
+export const readPrefilledAnswers = (
+  questions: BookingQuestion[],
+  search: string,
+): Record<string, BookingAnswerValue> => {
+  const raw = new URLSearchParams(search).get('answers');
+  if (!raw) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return {};
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return {};
+  }
+
+  const values = parsed as Record<string, unknown>;
+  return questions.reduce<Record<string, BookingAnswerValue>>((accumulator, question) => {
+    const value = values[question.id];
+    if (isPrefillValueFor(question, value)) {
+      accumulator[question.id] = question.type === 'number' ? String(value) : value;
+    }
+    return accumulator;
+  }, {});
+};
+
+const isBlankAnswer = (value: BookingAnswerValue | undefined): boolean => {
+  if (typeof value === 'string') {
+    return value.trim().length === 0;
+  }
+  if (Array.isArray(value)) {
+    return value.length === 0;
+  }
+  return value === undefined;
+};
+
+export const findMissingRequiredQuestion = (
+  questions: BookingQuestion[],
+  answers: Record<string, BookingAnswerValue>,
+): BookingQuestion | undefined => {
+  return questions.find((question) => {
+    if (!question.required) {
+      return false;
+    }
+    const value = answers[question.id];
+    return question.type === 'checkbox' ? value !== true : isBlankAnswer(value);
+  });
+};
+
 export const readableLocation = (locationType: string, locationValue: string | null): string => {
   if (locationValue && locationValue.trim().length > 0) {
     return locationValue;
@@ -16,10 +89,10 @@ export const readableLocation = (locationType: string, locationValue: string | n
   return locationType.replaceAll('_', ' ');
 };
 
-export const toAnsweredQuestions = (answers: Record<string, string>): Record<string, string> => {
-  return Object.fromEntries(
-    Object.entries(answers).filter((entry) => entry[1].trim().length > 0),
-  );
+export const toAnsweredQuestions = (
+  answers: Record<string, BookingAnswerValue>,
+): Record<string, BookingAnswerValue> => {
+  return Object.fromEntries(Object.entries(answers).filter((entry) => !isBlankAnswer(entry[1])));
 };
 
 export const toActionLinks = (
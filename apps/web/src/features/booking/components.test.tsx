@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { BookingActionLinks } from './components';
+import { BookingActionLinks, BookingQuestionFields } from './components';
 
 describe('BookingActionLinks', () => {
   it('opens action pages in the top window', () => {
@@ -24,3 +24,24 @@ describe('BookingActionLinks', () => {
     expect(children[1]?.props.target).toBe('_top');
   });
 });
+
+describe('BookingQuestionFields', () => {
+  it('renders typed questions with matching controls', () => {
+    const element = BookingQuestionFields({
+      styles: { label: 'label', checkboxLabel: 'checkbox', choiceGroup: 'choices' } as never,
+      prefix: 'q',
+      questions: [
+        { id: 'company', label: 'Company', required: true },
+        { id: 'topics', label: 'Topics', required: false, type: 'multi_select', options: ['Billing', 'SSO'] },
+        { id: 'consent', label: 'I agree', required: true, type: 'checkbox' },
+      ],
+      answers: { company: '', topics: [], consent: false },
+      onAnswerChange: () => undefined,
+    });
+
+    const fields = element.props.children as Array<{ type: unknown; props: { className: string } }>;
+
+    expect(fields.map((field) => field.type)).toEqual(['label', 'fieldset', 'label']);
+    expect(fields.map((field) => field.props.className)).toEqual(['label', 'choices', 'checkbox']);
+  });
+});
@@ -1,6 +1,7 @@
 'use client';
 
 import React, { type ReactNode } from 'react';
+import type { BookingAnswerValue, BookingQuestion } from '@opencalendly/shared';
 import { DemoQuotaCard } from '../../components/demo-quota-card';
 import type { AuthSession } from '../../lib/auth-session';
 import type { DemoFeatureCostKey, DemoQuotaStatusResponse } from '../../lib/demo-quota';
@@ -198,37 +199,160 @@ export function BookingSlotPicker(input: {
   );
 }
 
+const toHtmlInputType = (type: BookingQuestion['type']): string => {
+  switch (type) {
+    case 'email':
+      return 'email';
+    case 'phone':
+      return 'tel';
+    case 'url':
+      return 'url';
+    case 'number':
+      return 'number';
+    default:
+      return 'text';
+  }
+};
+
+function BookingQuestionInput(input: {
+  styles: BookingStyles;
+  fieldId: string;
+  question: BookingQuestion;
+  value: BookingAnswerValue | undefined;
+  onAnswerChange: (questionId: string, value: BookingAnswerValue) => void;
+}) {
+  const { question, styles } = input;
+  const textValue = typeof input.value === 'string' ? input.value : '';
+  const onTextChange = (value: string) => input.onAnswerChange(question.id, value);
+
+  switch (question.type ?? 'short_text') {
+    case 'long_text':
+      return (
+        <textarea
+          id={input.fieldId}
+          className={styles.input}
+          rows={4}
+          value={textValue}
+          onChange={(event) => onTextChange(event.target.value)}
+          placeholder={question.placeholder ?? ''}
+          required={question.required}
+          {...(question.minLength !== undefined ? { minLength: question.minLength } : {})}
+          {...(question.maxLength !== undefined ? { maxLength: question.maxLength } : {})}
+        />
+      );
+    case 'single_select':
+      return (
+        <select
+          id={input.fieldId}
+          className={styles.select}
+          value={textValue}
+          onChange={(event) => onTextChange(event.target.value)}
+          required={question.required}
+        >
+          <option value="">{question.placeholder ?? 'Select an option'}</option>
+          {(question.options ?? []).map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      );
+    case 'multi_select': {
+      const selected = Array.isArray(input.value) ? input.value : [];
+      return (
+        <>
+          {(question.options ?? []).map((option, index) => (
+            <label key={option} className={styles.checkboxLabel} htmlFor={`${input.fieldId}-${index}`}>
+              <input
+                id={`${input.fieldId}-${index}`}
+                type="checkbox"
+                checked={selected.includes(option)}
+                onChange={(event) =>
+                  input.onAnswerChange(
+                    question.id,
+                    event.target.checked ? [...selected, option] : selected.filter((value) => value !== option),
+                  )
+                }
+              />
+              {option}
+            </label>
+          ))}
+        </>
+      );
+    }
+    case 'checkbox':
+      return (
+        <input
+          id={input.fieldId}
+          type="checkbox"
+          checked={input.value === true}
+          onChange={(event) => input.onAnswerChange(question.id, event.target.checked)}
+          required={question.required}
+        />
+      );
+    default:
+      return (
+        <input
+          id={input.fieldId}
+          className={styles.input}
+          type={toHtmlInputType(question.type)}
+          {...(question.type === 'number' ? { inputMode: 'decimal' as const } : {})}
+          value={textValue}
+          onChange={(event) => onTextChange(event.target.value)}
+          placeholder={question.placeholder ?? ''}
+          required={question.required}
+          {...(question.minLength !== undefined ? { minLength: question.minLength } : {})}
+          {...(question.maxLength !== undefined ? { maxLength: question.maxLength } : {})}
+          {...(question.pattern ? { pattern: question.pattern } : {})}
+        />
+      );
+  }
+}
+
 export function BookingQuestionFields(input: {
   styles: BookingStyles;
   prefix: string;
-  questions: Array<{
-    id: string;
-    label: string;
-    required: boolean;
-    placeholder?: string;
-  }>;
-  answers: Record<string, string>;
-  onAnswerChange: (questionId: string, value: string) => void;
+  questions: BookingQuestion[];
+  answers: Record<string, BookingAnswerValue>;
+  onAnswerChange: (questionId: string, value: BookingAnswerValue) => void;
 }) {
   return (
     <>
-      {input.questions.map((question) => (
-        <label
-          key={question.id}
-          className={input.styles.label}
-          htmlFor={`${input.prefix}-${question.id}`}
-        >
-          {question.label}
-          <input
-            id={`${input.prefix}-${question.id}`}
-            className={input.styles.input}
-            value={input.answers[question.id] ?? ''}
-            onChange={(event) => input.onAnswerChange(question.id, event.target.value)}
-            placeholder={question.placeholder ?? ''}
-            required={question.required}
+      {input.questions.map((question) => {
+        const fieldId = `${input.prefix}-${question.id}`;
+        const field = (
+          <BookingQuestionInput
+            styles={input.styles}
+            fieldId={fieldId}
+            question={question}
+            value={input.answers[question.id]}
+            onAnswerChange={input.onAnswerChange}
           />
-        </label>
-      ))}
+        );
+
+        if (question.type === 'multi_select') {
+          return (
+            <fieldset key={question.id} className={input.styles.choiceGroup}>
+              <legend className={input.styles.label}>{question.label}</legend>
+              {field}
+            </fieldset>
+          );
+        }
+        if (question.type === 'checkbox') {
+          return (
+            <label key={question.id} className={input.styles.checkboxLabel} htmlFor={fieldId}>
+              {field}
+              {question.label}
+            </label>
+          );
+        }
+        return (
+          <label key={question.id} className={input.styles.label} htmlFor={fieldId}>
+            {question.label}
+            {field}
+          </label>
+        );
+      })}
     </>
   );
 }
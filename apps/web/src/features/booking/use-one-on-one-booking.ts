@@ -2,6 +2,7 @@
 
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import type {
+  BookingAnswerValue,
   PublicAvailabilityResponse,
   PublicBookingResponse,
   PublicEventResponse,
@@ -21,6 +22,8 @@ import {
 import { useAuthSession } from '../../lib/use-auth-session';
 import {
   buildInitialAnswers,
+  findMissingRequiredQuestion,
+  readPrefilledAnswers,
   toActionLinks,
   toAnsweredQuestions,
 } from './common';
@@ -42,11 +45,11 @@ export function useOneOnOneBooking(input: OneOnOneBookingArgs) {
   const isLaunchDemoPage = username.trim().toLowerCase() === 'demo';
   const [timezone, setTimezone] = useState('UTC');
   const [eventData, setEventData] = useState<PublicEventResponse | null>(null);
-  const [slots, setSlots] = useState<Array<{ startsAt: string; endsAt: string }>>([]);
+  const [slots, setSlots] = useState<PublicAvailabilityResponse['slots']>([]);
   const [selectedSlot, setSelectedSlot] = useState('');
   const [inviteeName, setInviteeName] = useState('');
   const [inviteeEmail, setInviteeEmail] = useState('');
-  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [answers, setAnswers] = useState<Record<string, BookingAnswerValue>>({});
   const [bookingRequestKey, setBookingRequestKey] = useState('');
   const [pageError, setPageError] = useState<string | null>(null);
   const [loadingEvent, setLoadingEvent] = useState(true);
@@ -80,6 +83,13 @@ export function useOneOnOneBooking(input: OneOnOneBookingArgs) {
     return groupSlotsByDay(slots, timezone);
   }, [slots, timezone]);
 
+  // Only seated event types show seat counts; one-on-one slots always have a single seat.
+  const remainingSeatsBySlot = useMemo(() => {
+    return eventData?.eventType.seatsPerSlot
+      ? new Map(slots.map((slot) => [slot.startsAt, slot.remainingSeats]))
+      : new Map<string, number>();
+  }, [eventData, slots]);
+
   const selectedSlotLabel = useMemo(() => {
     if (!selectedSlot) {
       return null;
@@ -131,7 +141,10 @@ export function useOneOnOneBooking(input: OneOnOneBookingArgs) {
       }
 
       setEventData(payload);
-      setAnswers(buildInitialAnswers(payload.eventType.questions));
+      setAnswers({
+        ...buildInitialAnswers(payload.eventType.questions),
+        ...readPrefilledAnswers(payload.eventType.questions, window.location.search),
+      });
       trackFunnelEvent('page_view');
     } catch {
       setPageError('Unable to load event details.');
@@ -226,9 +239,7 @@ export function useOneOnOneBooking(input: OneOnOneBookingArgs) {
       return;
     }
 
-    const missingRequiredQuestion = eventData?.eventType.questions.find(
-      (question) => question.required && !(answers[question.id] ?? '').trim(),
-    );
+    const missingRequiredQuestion = findMissingRequiredQuestion(eventData?.eventType.questions ?? [], answers);
     if (missingRequiredQuestion) {
       setPageError(`Answer required question: "${missingRequiredQuestion.label}".`);
       return;
@@ -269,9 +280,23 @@ export function useOneOnOneBooking(input: OneOnOneBookingArgs) {
         return;
       }
 
-      setConfirmation(`Confirmed for ${formatSlot(payload.booking.startsAt, timezone)} (${timezone}).`);
-      setDeliveryStatus(buildEmailDeliveryMessage(payload.email, inviteeEmail));
-      setActionLinks(toActionLinks(payload.actions));
+      if (payload.payment) {
+        // The slot is held while the invitee pays; the payment page reports the outcome.
+        window.location.assign(payload.payment.checkoutUrl);
+        return;
+      }
+
+      if (payload.booking.status === 'pending_approval') {
+        // Requests hold the slot without links; the invitee hears back by email once the organizer decides.
+        setConfirmation(
+          `Request sent for ${formatSlot(payload.booking.startsAt, timezone)} (${timezone}). The organizer will approve or decline it.`,
+        );
+        setDeliveryStatus(`We will email ${inviteeEmail} as soon as the organizer decides.`);
+      } else {
+        setConfirmation(`Confirmed for ${formatSlot(payload.booking.startsAt, timezone)} (${timezone}).`);
+        setDeliveryStatus(buildEmailDeliveryMessage(payload.email, inviteeEmail));
+        setActionLinks(toActionLinks(payload.actions));
+      }
       setInviteeName('');
       setInviteeEmail('');
       setSelectedSlot('');
@@ -320,10 +345,11 @@ export function useOneOnOneBooking(input: OneOnOneBookingArgs) {
     pageError,
     ready,
     refreshDemoQuota,
+    remainingSeatsBySlot,
     selectedSlot,
     selectedSlotLabel,
     session,
-    setAnswer: (questionId: string, value: string) => {
+    setAnswer: (questionId: string, value: BookingAnswerValue) => {
       setAnswers((previous) => ({
         ...previous,
         [questionId]: value,
@@ -2,7 +2,9 @@
 
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import type {
+  BookingAnswerValue,
   TeamAvailabilityResponse,
+  TeamAvailabilitySlot,
   TeamBookingResponse,
   TeamEventResponse,
 } from '@opencalendly/shared';
@@ -21,6 +23,8 @@ import {
 import { useAuthSession } from '../../lib/use-auth-session';
 import {
   buildInitialAnswers,
+  findMissingRequiredQuestion,
+  readPrefilledAnswers,
   toActionLinks,
   toAnsweredQuestions,
 } from './common';
@@ -42,13 +46,11 @@ export function useTeamBooking(input: TeamBookingArgs) {
   const isLaunchDemoPage = teamSlug.trim().toLowerCase() === 'demo-team';
   const [timezone, setTimezone] = useState('UTC');
   const [teamEvent, setTeamEvent] = useState<TeamEventResponse | null>(null);
-  const [slots, setSlots] = useState<
-    Array<{ startsAt: string; endsAt: string; assignmentUserIds: string[] }>
-  >([]);
+  const [slots, setSlots] = useState<TeamAvailabilitySlot[]>([]);
   const [selectedSlot, setSelectedSlot] = useState('');
   const [inviteeName, setInviteeName] = useState('');
   const [inviteeEmail, setInviteeEmail] = useState('');
-  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [answers, setAnswers] = useState<Record<string, BookingAnswerValue>>({});
   const [bookingRequestKey, setBookingRequestKey] = useState('');
   const [loadingEvent, setLoadingEvent] = useState(true);
   const [loadingSlots, setLoadingSlots] = useState(false);
@@ -117,7 +119,10 @@ export function useTeamBooking(input: TeamBookingArgs) {
       }
 
       setTeamEvent(payload);
-      setAnswers(buildInitialAnswers(payload.eventType.questions));
+      setAnswers({
+        ...buildInitialAnswers(payload.eventType.questions),
+        ...readPrefilledAnswers(payload.eventType.questions, window.location.search),
+      });
     } catch {
       setError('Unable to load team event details.');
       setTeamEvent(null);
@@ -210,9 +215,7 @@ export function useTeamBooking(input: TeamBookingArgs) {
       return;
     }
 
-    const missingRequiredQuestion = teamEvent?.eventType.questions.find(
-      (question) => question.required && !(answers[question.id] ?? '').trim(),
-    );
+    const missingRequiredQuestion = findMissingRequiredQuestion(teamEvent?.eventType.questions ?? [], answers);
     if (missingRequiredQuestion) {
       setError(`Answer required question: "${missingRequiredQuestion.label}".`);
       return;
@@ -309,7 +312,7 @@ export function useTeamBooking(input: TeamBookingArgs) {
     selectedSlot,
     selectedSlotDetails,
     session,
-    setAnswer: (questionId: string, value: string) => {
+    setAnswer: (questionId: string, value: BookingAnswerValue) => {
       setAnswers((previous) => ({
         ...previous,
         [questionId]: value,
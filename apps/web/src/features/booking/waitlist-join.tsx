@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { BookingAnswerValue, SlotWaitlistJoinResponse, SlotWaitlistScope } from '@opencalendly/shared';
+
+import { API_REQUEST_CREDENTIALS } from '../../lib/auth-session';
+import { normalizeLocalBrowserUrl } from '../../lib/api-base-url';
+import { zonedDateTimeToIso } from '../../lib/public-booking';
+import { toAnsweredQuestions } from './common';
+
+type BookingStyles = Record<string, string>;
+
+/**
+ * For times that are already taken. The invitee reuses the details typed into the booking form and
+ * waits for either a whole day or one exact time.
+ */
+export function BookingWaitlistCard(input: {
+  styles: BookingStyles;
+  apiBaseUrl: string;
+  username: string;
+  eventSlug: string;
+  timezone: string;
+  inviteeName: string;
+  inviteeEmail: string;
+  answers: Record<string, BookingAnswerValue>;
+}) {
+  const { styles } = input;
+  const [scope, setScope] = useState<SlotWaitlistScope>('day');
+  const [date, setDate] = useState('');
+  const [time, setTime] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const joinWaitlist = async () => {
+    setError(null);
+    setNotice(null);
+    if (!input.inviteeName.trim() || !input.inviteeEmail.trim()) {
+      setError('Add your name and email above first.');
+      return;
+    }
+    const startsAt = scope === 'slot' ? zonedDateTimeToIso(date, time, input.timezone) : null;
+    if (!date || (scope === 'slot' && !startsAt)) {
+      setError(scope === 'slot' ? 'Pick a day and time.' : 'Pick a day.');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(
+        normalizeLocalBrowserUrl(
+          `${input.apiBaseUrl}/v0/users/${encodeURIComponent(input.username)}/event-types/${encodeURIComponent(input.eventSlug)}/waitlist`,
+        ),
+        {
+          method: 'POST',
+          credentials: API_REQUEST_CREDENTIALS,
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            scope,
+            ...(scope === 'slot' ? { startsAt } : { date }),
+            timezone: input.timezone,
+            inviteeName: input.inviteeName,
+            inviteeEmail: input.inviteeEmail,
+            answers: toAnsweredQuestions(input.answers),
+          }),
+        },
+      );
+      const payload = (await response.json()) as SlotWaitlistJoinResponse;
+      if (!response.ok || !payload.ok || !payload.entry) {
+        setError(payload.error || 'Unable to join the waitlist.');
+        return;
+      }
+      setNotice(
+        payload.entry.alreadyJoined
+          ? `You are already on this waitlist. We will email ${input.inviteeEmail} if a spot opens.`
+          : `You are on the waitlist. We will email ${input.inviteeEmail} if a spot opens.`,
+      );
+    } catch {
+      setError('Unable to join the waitlist.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className={styles.form}>
+      <div className={styles.sectionHead}>
+        <h2>Fully booked?</h2>
+        <p>Join the waitlist. If someone cancels, the first person waiting gets a short-lived link to book the freed time.</p>
+      </div>
+      <label className={styles.label} htmlFor="waitlist-scope">
+        Wait for
+      </label>
+      <select
+        id="waitlist-scope"
+        className={styles.select}
+        value={scope}
+        onChange={(event) => setScope(event.target.value as SlotWaitlistScope)}
+      >
+        <option value="day">Any time on a day</option>
+        <option value="slot">One specific time</option>
+      </select>
+      <label className={styles.label} htmlFor="waitlist-date">
+        Day
+      </label>
+      <input id="waitlist-date" type="date" className={styles.input} value={date} onChange={(event) => setDate(event.target.value)} />
+      {scope === 'slot' ? (
+        <>
+          <label className={styles.label} htmlFor="waitlist-time">
+            Time ({input.timezone})
+          </label>
+          <input id="waitlist-time" type="time" className={styles.input} value={time} onChange={(event) => setTime(event.target.value)} />
+        </>
+      ) : null}
+      <button className={styles.secondaryButton} type="button" disabled={submitting} onClick={() => void joinWaitlist()}>
+        {submitting ? 'Joining...' : 'Join waitlist'}
+      </button>
+      {error ? <p className={styles.error}>{error}</p> : null}
+      {notice ? <p className={styles.notice}>{notice}</p> : null}
+    </div>
+  );
+}
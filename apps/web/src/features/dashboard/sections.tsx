@@ -159,6 +159,10 @@ export const DashboardFunnelSection = ({
     <section className={styles.card}>
       <h2>Funnel Summary</h2>
       <div className={styles.statGrid}>
+        <div>
+          <strong>{funnel.summary.routingDecisions}</strong>
+          <span>Routed by forms</span>
+        </div>
         <div>
           <strong>{funnel.summary.pageViews}</strong>
           <span>Page views</span>
@@ -15,6 +15,7 @@ export type AuthMeResponse = {
 export type FunnelResponse = {
   ok: boolean;
   summary: {
+    routingDecisions: number;
     pageViews: number;
     slotSelections: number;
     bookingConfirmations: number;
@@ -26,6 +27,7 @@ export type FunnelResponse = {
   byEventType: Array<{
     eventTypeId: string;
     eventTypeName: string;
+    routingDecisions: number;
     pageViews: number;
     slotSelections: number;
     bookingConfirmations: number;
@@ -127,7 +127,7 @@ export const AvailabilityPanel = ({
   return (
     <div className={styles.splitGrid}>
       <div className={styles.form}>
-        <h3>Current rules</h3>
+        <h3>Default rules</h3>
         {availabilityRules.length === 0 ? (
           <p className={styles.empty}>No recurring rules configured.</p>
         ) : (
@@ -0,0 +1,191 @@
+'use client';
+
+import { type FormEvent, useState } from 'react';
+
+import {
+  organizerApi,
+  type AvailabilitySchedule,
+  type OrganizerEventType,
+} from '../../lib/organizer-api';
+import type { AuthSession } from '../../lib/auth-session';
+import {
+  dayLabels,
+  isAvailabilityRuleInput,
+  parseJsonArray,
+  toClockTime,
+  type AvailabilityRuleInput,
+} from './utils';
+
+type OrganizerStyles = Record<string, string>;
+
+const buildScheduleForm = (schedule?: AvailabilitySchedule) => ({
+  name: schedule?.name ?? '',
+  rules: JSON.stringify(
+    (schedule?.rules ?? []).map((rule) => ({
+      dayOfWeek: rule.dayOfWeek,
+      startMinute: rule.startMinute,
+      endMinute: rule.endMinute,
+      bufferBeforeMinutes: rule.bufferBeforeMinutes,
+      bufferAfterMinutes: rule.bufferAfterMinutes,
+    })),
+    null,
+    2,
+  ),
+});
+
+export const AvailabilitySchedulesPanel = ({
+  apiBaseUrl,
+  session,
+  schedules,
+  eventTypes,
+  isBusy,
+  beginBusy,
+  endBusy,
+  refreshOrganizerState,
+  setPanelError,
+  setPanelMessage,
+  styles,
+}: {
+  apiBaseUrl: string;
+  session: AuthSession | null;
+  schedules: AvailabilitySchedule[];
+  eventTypes: OrganizerEventType[];
+  isBusy: (action: string) => boolean;
+  beginBusy: (action: string) => void;
+  endBusy: (action: string) => void;
+  refreshOrganizerState: () => Promise<void>;
+  setPanelError: (message: string | null) => void;
+  setPanelMessage: (message: string | null) => void;
+  styles: OrganizerStyles;
+}) => {
+  const [editingScheduleId, setEditingScheduleId] = useState<string | null>(null);
+  const [scheduleForm, setScheduleForm] = useState(() => buildScheduleForm());
+
+  const startEditing = (schedule: AvailabilitySchedule | null) => {
+    setEditingScheduleId(schedule?.id ?? null);
+    setScheduleForm(buildScheduleForm(schedule ?? undefined));
+  };
+
+  const handleSaveSchedule = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!session) {
+      return;
+    }
+
+    const action = 'scheduleSave';
+    beginBusy(action);
+    setPanelError(null);
+    setPanelMessage(null);
+
+    try {
+      const rules = parseJsonArray<AvailabilityRuleInput>(scheduleForm.rules, 'Schedule rules', isAvailabilityRuleInput);
+      const name = scheduleForm.name.trim();
+      if (editingScheduleId) {
+        await organizerApi.updateAvailabilitySchedule(apiBaseUrl, session, editingScheduleId, { name, rules });
+        setPanelMessage('Availability schedule updated.');
+      } else {
+        await organizerApi.createAvailabilitySchedule(apiBaseUrl, session, { name, rules });
+        setScheduleForm(buildScheduleForm());
+        setPanelMessage('Availability schedule created.');
+      }
+      await refreshOrganizerState();
+    } catch (caught) {
+      setPanelError(caught instanceof Error ? caught.message : 'Unable to save availability schedule.');
+    } finally {
+      endBusy(action);
+    }
+  };
+
+  const handleDeleteSchedule = async (scheduleId: string) => {
+    if (!session) {
+      return;
+    }
+
+    const action = `scheduleDelete:${scheduleId}`;
+    beginBusy(action);
+    setPanelError(null);
+    setPanelMessage(null);
+
+    try {
+      await organizerApi.deleteAvailabilitySchedule(apiBaseUrl, session, scheduleId);
+      if (editingScheduleId === scheduleId) {
+        startEditing(null);
+      }
+      setPanelMessage('Availability schedule deleted. Event types using it fell back to your default rules.');
+      await refreshOrganizerState();
+    } catch (caught) {
+      setPanelError(caught instanceof Error ? caught.message : 'Unable to delete availability schedule.');
+    } finally {
+      endBusy(action);
+    }
+  };
+
+  return (
+    <div className={styles.splitGrid}>
+      <div className={styles.form}>
+        <h3>Named schedules</h3>
+        {schedules.length === 0 ? (
+          <p className={styles.empty}>No named schedules yet. Event types use your default rules.</p>
+        ) : (
+          <div className={styles.listGrid}>
+            {schedules.map((schedule) => {
+              const linkedNames = eventTypes
+                .filter((eventType) => schedule.eventTypeIds.includes(eventType.id))
+                .map((eventType) => eventType.name);
+              return (
+                <article key={schedule.id} className={styles.itemCard}>
+                  <div className={styles.itemHead}>
+                    <strong>{schedule.name}</strong>
+                    <span className={styles.badge}>{schedule.rules.length} rules</span>
+                  </div>
+                  <ul>
+                    {schedule.rules.map((rule) => (
+                      <li key={rule.id}>
+                        {dayLabels[rule.dayOfWeek] ?? `Day ${rule.dayOfWeek}`}: {toClockTime(rule.startMinute)} -{' '}
+                        {toClockTime(rule.endMinute)}
+                      </li>
+                    ))}
+                  </ul>
+                  <p className={styles.helperText}>
+                    {linkedNames.length > 0 ? `Used by: ${linkedNames.join(', ')}` : 'Not used by any event type.'}
+                  </p>
+                  <div className={styles.inlineActions}>
+                    <button type="button" className={styles.secondaryButton} onClick={() => startEditing(schedule)}>
+                      Edit
+                    </button>
+                    <button type="button" className={styles.ghostButton} onClick={() => void handleDeleteSchedule(schedule.id)} disabled={isBusy(`scheduleDelete:${schedule.id}`)}>
+                      {isBusy(`scheduleDelete:${schedule.id}`) ? 'Deleting…' : 'Delete'}
+                    </button>
+                  </div>
+                </article>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <form className={styles.form} onSubmit={handleSaveSchedule}>
+        <h3>{editingScheduleId ? 'Edit schedule' : 'Create schedule'}</h3>
+        <label className={styles.label}>
+          Name
+          <input className={styles.input} value={scheduleForm.name} maxLength={80} placeholder="Office hours Tue/Thu" onChange={(event) => setScheduleForm((prev) => ({ ...prev, name: event.target.value }))} required />
+        </label>
+        <label className={styles.label}>
+          Rules JSON
+          <textarea className={styles.textarea} value={scheduleForm.rules} onChange={(event) => setScheduleForm((prev) => ({ ...prev, rules: event.target.value }))} spellCheck={false} />
+        </label>
+        <div className={styles.inlineActions}>
+          <button type="submit" className={styles.primaryButton} disabled={isBusy('scheduleSave')}>
+            {isBusy('scheduleSave') ? 'Saving…' : editingScheduleId ? 'Save schedule' : 'Create schedule'}
+          </button>
+          {editingScheduleId ? (
+            <button type="button" className={styles.ghostButton} onClick={() => startEditing(null)}>
+              New schedule
+            </button>
+          ) : null}
+        </div>
+        <p className={styles.helperText}>Pick a named schedule on an event type to book it against these hours instead of your default rules.</p>
+      </form>
+    </div>
+  );
+};
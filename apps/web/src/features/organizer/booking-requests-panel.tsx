@@ -0,0 +1,155 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { organizerApi, type OrganizerBookingRequest } from '../../lib/organizer-api';
+import type { AuthSession } from '../../lib/auth-session';
+import { formatBookingAnswer, formatDateTime, toNullableString } from './utils';
+
+type OrganizerStyles = Record<string, string>;
+
+export const BookingRequestsPanel = ({
+  apiBaseUrl,
+  session,
+  isBusy,
+  beginBusy,
+  endBusy,
+  setPanelError,
+  setPanelMessage,
+  styles,
+}: {
+  apiBaseUrl: string;
+  session: AuthSession | null;
+  isBusy: (action: string) => boolean;
+  beginBusy: (action: string) => void;
+  endBusy: (action: string) => void;
+  setPanelError: (message: string | null) => void;
+  setPanelMessage: (message: string | null) => void;
+  styles: OrganizerStyles;
+}) => {
+  const [requests, setRequests] = useState<OrganizerBookingRequest[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [decliningId, setDecliningId] = useState<string | null>(null);
+  const [declineReason, setDeclineReason] = useState('');
+
+  const refreshRequests = useCallback(async () => {
+    if (!session) {
+      return;
+    }
+    setLoading(true);
+    try {
+      const payload = await organizerApi.listBookingRequests(apiBaseUrl, session);
+      setRequests(payload.requests);
+    } catch (caught) {
+      setPanelError(caught instanceof Error ? caught.message : 'Unable to load booking requests.');
+    } finally {
+      setLoading(false);
+    }
+  }, [apiBaseUrl, session, setPanelError]);
+
+  useEffect(() => {
+    void refreshRequests();
+  }, [refreshRequests]);
+
+  const handleApprove = async (bookingId: string) => {
+    if (!session) {
+      return;
+    }
+
+    const action = `bookingRequestApprove:${bookingId}`;
+    beginBusy(action);
+    setPanelError(null);
+    setPanelMessage(null);
+
+    try {
+      await organizerApi.approveBookingRequest(apiBaseUrl, session, bookingId);
+      setPanelMessage('Request approved. The invitee was emailed their confirmation and booking links.');
+      await refreshRequests();
+    } catch (caught) {
+      setPanelError(caught instanceof Error ? caught.message : 'Unable to approve booking request.');
+    } finally {
+      endBusy(action);
+    }
+  };
+
+  const handleDecline = async (bookingId: string) => {
+    if (!session) {
+      return;
+    }
+
+    const action = `bookingRequestDecline:${bookingId}`;
+    beginBusy(action);
+    setPanelError(null);
+    setPanelMessage(null);
+
+    try {
+      await organizerApi.declineBookingRequest(apiBaseUrl, session, bookingId, {
+        reason: toNullableString(declineReason),
+      });
+      setDecliningId(null);
+      setDeclineReason('');
+      setPanelMessage('Request declined. The slot is open again and the invitee was emailed a link to pick another time.');
+      await refreshRequests();
+    } catch (caught) {
+      setPanelError(caught instanceof Error ? caught.message : 'Unable to decline booking request.');
+    } finally {
+      endBusy(action);
+    }
+  };
+
+  return (
+    <div className={styles.form}>
+      <div className={styles.inlineActions}>
+        <h3>Waiting for approval</h3>
+        <button type="button" className={styles.ghostButton} onClick={() => void refreshRequests()} disabled={loading}>
+          {loading ? 'Loading…' : 'Refresh'}
+        </button>
+      </div>
+      {requests.length === 0 ? (
+        <p className={styles.empty}>{loading ? 'Loading requests…' : 'No requests are waiting for you.'}</p>
+      ) : (
+        <div className={styles.listGrid}>
+          {requests.map((request) => (
+            <article key={request.id} className={styles.itemCard}>
+              <div className={styles.itemHead}>
+                <strong>{request.inviteeName}</strong>
+                <span className={styles.badge}>{request.eventType.name}</span>
+              </div>
+              <p>
+                {formatDateTime(request.startsAt)} - {formatDateTime(request.endsAt)}
+              </p>
+              <p className={styles.helperText}>
+                {request.inviteeEmail}
+                {request.timezone ? ` · ${request.timezone}` : ''} · requested {formatDateTime(request.requestedAt)}
+              </p>
+              {Object.entries(request.answers).map(([questionId, answer]) => (
+                <p key={questionId} className={styles.helperText}>
+                  {questionId}: {formatBookingAnswer(answer)}
+                </p>
+              ))}
+              <div className={styles.inlineActions}>
+                <button type="button" className={styles.primaryButton} onClick={() => void handleApprove(request.id)} disabled={isBusy(`bookingRequestApprove:${request.id}`)}>
+                  {isBusy(`bookingRequestApprove:${request.id}`) ? 'Approving…' : 'Approve'}
+                </button>
+                <button type="button" className={styles.ghostButton} onClick={() => setDecliningId((current) => (current === request.id ? null : request.id))}>
+                  {decliningId === request.id ? 'Close' : 'Decline'}
+                </button>
+              </div>
+              {decliningId === request.id ? (
+                <div className={styles.form}>
+                  <label className={styles.labelCompact}>
+                    Reason (shared with the invitee)
+                    <input className={styles.input} value={declineReason} maxLength={500} onChange={(event) => setDeclineReason(event.target.value)} />
+                  </label>
+                  <button type="button" className={styles.secondaryButton} onClick={() => void handleDecline(request.id)} disabled={isBusy(`bookingRequestDecline:${request.id}`)}>
+                    {isBusy(`bookingRequestDecline:${request.id}`) ? 'Declining…' : 'Decline request'}
+                  </button>
+                </div>
+              ) : null}
+            </article>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
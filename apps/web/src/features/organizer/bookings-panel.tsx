@@ -0,0 +1,309 @@
+'use client';
+
+import { type FormEvent, useState } from 'react';
+
+import {
+  organizerApi,
+  type OrganizerBookingsFilters,
+  type OrganizerBookingsStatus,
+  type OrganizerEventType,
+} from '../../lib/organizer-api';
+import type { AuthSession } from '../../lib/auth-session';
+import { useOrganizerBookings } from './use-organizer-bookings';
+import { formatBookingAnswer, formatDateTime, toNullableString } from './utils';
+
+type OrganizerStyles = Record<string, string>;
+
+const bookingStatusOptions: Array<{ value: OrganizerBookingsStatus; label: string }> = [
+  { value: 'upcoming', label: 'Upcoming' },
+  { value: 'past', label: 'Past' },
+  { value: 'canceled', label: 'Canceled' },
+];
+
+const buildBookingsFilterForm = () => ({
+  status: 'upcoming' as OrganizerBookingsStatus,
+  startDate: '',
+  endDate: '',
+  eventTypeId: '',
+  q: '',
+});
+
+const toBookingsFilters = (
+  form: ReturnType<typeof buildBookingsFilterForm>,
+): OrganizerBookingsFilters => {
+  const q = toNullableString(form.q);
+  return {
+    status: form.status,
+    ...(form.startDate ? { startDate: form.startDate } : {}),
+    ...(form.endDate ? { endDate: form.endDate } : {}),
+    ...(form.eventTypeId ? { eventTypeId: form.eventTypeId } : {}),
+    ...(q ? { q } : {}),
+  };
+};
+
+export const BookingsPanel = ({
+  apiBaseUrl,
+  session,
+  eventTypes,
+  isBusy,
+  beginBusy,
+  endBusy,
+  setPanelError,
+  setPanelMessage,
+  styles,
+}: {
+  apiBaseUrl: string;
+  session: AuthSession | null;
+  eventTypes: OrganizerEventType[];
+  isBusy: (action: string) => boolean;
+  beginBusy: (action: string) => void;
+  endBusy: (action: string) => void;
+  setPanelError: (message: string | null) => void;
+  setPanelMessage: (message: string | null) => void;
+  styles: OrganizerStyles;
+}) => {
+  const [filterForm, setFilterForm] = useState(buildBookingsFilterForm);
+  const [filters, setFilters] = useState<OrganizerBookingsFilters>(() =>
+    toBookingsFilters(buildBookingsFilterForm()),
+  );
+  const [filterError, setFilterError] = useState<string | null>(null);
+  const {
+    bookings,
+    hasMoreBookings,
+    bookingsLoading,
+    bookingsError,
+    refreshBookings,
+    loadMoreBookings,
+  } = useOrganizerBookings({ apiBaseUrl, session, filters });
+
+  const [managedBookingId, setManagedBookingId] = useState<string | null>(null);
+  const [bookingActionForm, setBookingActionForm] = useState({ startsAt: '', reason: '' });
+
+  const toggleManagedBooking = (bookingId: string) => {
+    setManagedBookingId((current) => (current === bookingId ? null : bookingId));
+    setBookingActionForm({ startsAt: '', reason: '' });
+  };
+
+  const handleCancelBooking = async (bookingId: string) => {
+    if (!session) {
+      return;
+    }
+
+    const action = `bookingCancel:${bookingId}`;
+    beginBusy(action);
+    setPanelError(null);
+    setPanelMessage(null);
+
+    try {
+      await organizerApi.cancelBooking(apiBaseUrl, session, bookingId, {
+        reason: toNullableString(bookingActionForm.reason),
+      });
+      setManagedBookingId(null);
+      setPanelMessage('Booking canceled. The invitee was emailed a link to book a new time.');
+      await refreshBookings();
+    } catch (caught) {
+      setPanelError(caught instanceof Error ? caught.message : 'Unable to cancel booking.');
+    } finally {
+      endBusy(action);
+    }
+  };
+
+  const handleMarkNoShow = async (bookingId: string) => {
+    if (!session) {
+      return;
+    }
+
+    const action = `bookingNoShow:${bookingId}`;
+    beginBusy(action);
+    setPanelError(null);
+    setPanelMessage(null);
+
+    try {
+      await organizerApi.markBookingNoShow(apiBaseUrl, session, bookingId);
+      setPanelMessage('Booking marked as no-show.');
+      await refreshBookings();
+    } catch (caught) {
+      setPanelError(caught instanceof Error ? caught.message : 'Unable to mark booking as no-show.');
+    } finally {
+      endBusy(action);
+    }
+  };
+
+  const handleRescheduleBooking = async (bookingId: string) => {
+    if (!session) {
+      return;
+    }
+
+    setPanelError(null);
+    setPanelMessage(null);
+    const startsAtMs = Date.parse(bookingActionForm.startsAt);
+    if (!Number.isFinite(startsAtMs)) {
+      setPanelError('Pick a new start time to reschedule.');
+      return;
+    }
+
+    const action = `bookingReschedule:${bookingId}`;
+    beginBusy(action);
+
+    try {
+      const result = await organizerApi.rescheduleBooking(apiBaseUrl, session, bookingId, {
+        startsAt: new Date(startsAtMs).toISOString(),
+      });
+      setManagedBookingId(null);
+      setPanelMessage(`Booking moved to ${formatDateTime(result.newBooking.startsAt)}. The invitee was emailed the change.`);
+      await refreshBookings();
+    } catch (caught) {
+      setPanelError(caught instanceof Error ? caught.message : 'Unable to reschedule booking.');
+    } finally {
+      endBusy(action);
+    }
+  };
+
+  const handleApplyFilters = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (filterForm.startDate && filterForm.endDate && filterForm.startDate > filterForm.endDate) {
+      setFilterError('Start date must be on or before end date.');
+      return;
+    }
+
+    setFilterError(null);
+    setFilters(toBookingsFilters(filterForm));
+  };
+
+  const handleResetFilters = () => {
+    const next = buildBookingsFilterForm();
+    setFilterError(null);
+    setFilterForm(next);
+    setFilters(toBookingsFilters(next));
+  };
+
+  return (
+    <>
+      <form className={styles.form} onSubmit={handleApplyFilters}>
+        <h3>Filters</h3>
+        <div className={styles.splitGrid}>
+          <label className={styles.label}>
+            Status
+            <select className={styles.select} value={filterForm.status} onChange={(event) => setFilterForm((prev) => ({ ...prev, status: event.target.value as OrganizerBookingsStatus }))}>
+              {bookingStatusOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.label}>
+            Event type
+            <select className={styles.select} value={filterForm.eventTypeId} onChange={(event) => setFilterForm((prev) => ({ ...prev, eventTypeId: event.target.value }))}>
+              <option value="">All event types</option>
+              {eventTypes.map((eventType) => (
+                <option key={eventType.id} value={eventType.id}>
+                  {eventType.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.label}>
+            From (UTC date)
+            <input className={styles.input} type="date" value={filterForm.startDate} onChange={(event) => setFilterForm((prev) => ({ ...prev, startDate: event.target.value }))} />
+          </label>
+          <label className={styles.label}>
+            To (UTC date)
+            <input className={styles.input} type="date" value={filterForm.endDate} onChange={(event) => setFilterForm((prev) => ({ ...prev, endDate: event.target.value }))} />
+          </label>
+        </div>
+        <label className={styles.label}>
+          Invitee search
+          <input className={styles.input} value={filterForm.q} placeholder="Name or email" maxLength={120} onChange={(event) => setFilterForm((prev) => ({ ...prev, q: event.target.value }))} />
+        </label>
+        {filterError ? <p className={styles.helperText}>{filterError}</p> : null}
+        <div className={styles.inlineActions}>
+          <button type="submit" className={styles.primaryButton} disabled={bookingsLoading}>
+            Apply filters
+          </button>
+          <button type="button" className={styles.secondaryButton} onClick={handleResetFilters} disabled={bookingsLoading}>
+            Reset
+          </button>
+          <button type="button" className={styles.ghostButton} onClick={() => void refreshBookings()} disabled={bookingsLoading}>
+            {bookingsLoading ? 'Loading…' : 'Refresh'}
+          </button>
+        </div>
+      </form>
+
+      <div className={styles.form}>
+        <h3>{bookingStatusOptions.find((option) => option.value === filters.status)?.label ?? 'Upcoming'} bookings</h3>
+        {bookingsError ? <p className={styles.helperText}>{bookingsError}</p> : null}
+        {bookings.length === 0 ? (
+          <p className={styles.empty}>{bookingsLoading ? 'Loading bookings…' : 'No bookings match these filters.'}</p>
+        ) : (
+          <div className={styles.listGrid}>
+            {bookings.map((booking) => (
+              <article key={booking.id} className={styles.itemCard}>
+                <div className={styles.itemHead}>
+                  <strong>{booking.inviteeName}</strong>
+                  <span className={styles.badge}>{booking.eventType.name}</span>
+                </div>
+                <p>
+                  {formatDateTime(booking.startsAt)} - {formatDateTime(booking.endsAt)}
+                </p>
+                <p className={styles.helperText}>
+                  {booking.inviteeEmail}
+                  {booking.timezone ? ` · ${booking.timezone}` : ''}
+                  {booking.team ? ` · team ${booking.team.mode.replace('_', ' ')}` : ''}
+                </p>
+                {Object.entries(booking.answers).map(([questionId, answer]) => (
+                  <p key={questionId} className={styles.helperText}>
+                    {questionId}: {formatBookingAnswer(answer)}
+                  </p>
+                ))}
+                {booking.status === 'confirmed' && filters.status === 'upcoming' ? (
+                  <button type="button" className={styles.ghostButton} onClick={() => toggleManagedBooking(booking.id)}>
+                    {managedBookingId === booking.id ? 'Close' : 'Cancel or reschedule'}
+                  </button>
+                ) : null}
+                {managedBookingId === booking.id ? (
+                  <div className={styles.form}>
+                    <label className={styles.labelCompact}>
+                      New start
+                      <input className={styles.input} type="datetime-local" value={bookingActionForm.startsAt} onChange={(event) => setBookingActionForm((prev) => ({ ...prev, startsAt: event.target.value }))} />
+                    </label>
+                    <button type="button" className={styles.secondaryButton} onClick={() => void handleRescheduleBooking(booking.id)} disabled={isBusy(`bookingReschedule:${booking.id}`)}>
+                      {isBusy(`bookingReschedule:${booking.id}`) ? 'Rescheduling…' : 'Reschedule'}
+                    </button>
+                    <label className={styles.labelCompact}>
+                      Cancellation reason
+                      <input className={styles.input} value={bookingActionForm.reason} maxLength={500} onChange={(event) => setBookingActionForm((prev) => ({ ...prev, reason: event.target.value }))} />
+                    </label>
+                    <button type="button" className={styles.ghostButton} onClick={() => void handleCancelBooking(booking.id)} disabled={isBusy(`bookingCancel:${booking.id}`)}>
+                      {isBusy(`bookingCancel:${booking.id}`) ? 'Canceling…' : 'Cancel booking'}
+                    </button>
+                    <p className={styles.helperText}>The new start must be an open slot in your availability. The invitee gets an email either way.</p>
+                  </div>
+                ) : null}
+                {booking.noShowAt ? (
+                  <p className={styles.helperText}>Marked no-show {formatDateTime(booking.noShowAt)}</p>
+                ) : booking.status === 'confirmed' && filters.status === 'past' ? (
+                  <button type="button" className={styles.ghostButton} onClick={() => void handleMarkNoShow(booking.id)} disabled={isBusy(`bookingNoShow:${booking.id}`)}>
+                    {isBusy(`bookingNoShow:${booking.id}`) ? 'Saving…' : 'Mark no-show'}
+                  </button>
+                ) : null}
+                {booking.canceledAt ? (
+                  <p className={styles.helperText}>
+                    Canceled {formatDateTime(booking.canceledAt)}
+                    {booking.canceledBy ? ` by ${booking.canceledBy}` : ''}
+                    {booking.cancellationReason ? `: ${booking.cancellationReason}` : ''}
+                  </p>
+                ) : null}
+              </article>
+            ))}
+          </div>
+        )}
+        {hasMoreBookings ? (
+          <button type="button" className={styles.secondaryButton} onClick={() => void loadMoreBookings()} disabled={bookingsLoading}>
+            {bookingsLoading ? 'Loading…' : 'Load more'}
+          </button>
+        ) : null}
+      </div>
+    </>
+  );
+};
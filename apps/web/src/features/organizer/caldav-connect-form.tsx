@@ -0,0 +1,105 @@
+'use client';
+
+import { type FormEvent, useState } from 'react';
+
+import { organizerApi } from '../../lib/organizer-api';
+import type { AuthSession } from '../../lib/auth-session';
+
+type OrganizerStyles = Record<string, string>;
+
+const emptyCaldavForm = { calendarUrl: '', username: '', password: '' };
+
+export const CaldavConnectForm = ({
+  apiBaseUrl,
+  session,
+  refreshOrganizerState,
+  isBusy,
+  beginBusy,
+  endBusy,
+  setPanelError,
+  setPanelMessage,
+  styles,
+}: {
+  apiBaseUrl: string;
+  session: AuthSession | null;
+  refreshOrganizerState: () => Promise<void>;
+  isBusy: (action: string) => boolean;
+  beginBusy: (action: string) => void;
+  endBusy: (action: string) => void;
+  setPanelError: (message: string | null) => void;
+  setPanelMessage: (message: string | null) => void;
+  styles: OrganizerStyles;
+}) => {
+  const [caldavForm, setCaldavForm] = useState(emptyCaldavForm);
+
+  const handleConnectCaldav = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!session) {
+      return;
+    }
+
+    const action = 'calendarConnect:caldav';
+    beginBusy(action);
+    setPanelError(null);
+    setPanelMessage(null);
+
+    try {
+      const result = await organizerApi.connectCaldav(apiBaseUrl, session, caldavForm);
+      // The app password is never shown again, so clear the form as soon as the server accepts it.
+      setCaldavForm(emptyCaldavForm);
+      setPanelMessage(
+        `CalDAV calendar connected for ${result.connection.externalEmail ?? caldavForm.username}. Run a sync to import busy time.`,
+      );
+      await refreshOrganizerState();
+    } catch (caught) {
+      setPanelError(caught instanceof Error ? caught.message : 'Unable to connect CalDAV calendar.');
+    } finally {
+      endBusy(action);
+    }
+  };
+
+  return (
+    <form className={styles.form} onSubmit={handleConnectCaldav}>
+      <h3>Add CalDAV calendar</h3>
+      <p className={styles.helperText}>
+        Works with iCloud, Fastmail, Nextcloud, and other CalDAV servers. Use an app-specific password where your
+        provider offers one.
+      </p>
+      <label className={styles.label}>
+        Calendar URL
+        <input
+          className={styles.input}
+          type="url"
+          value={caldavForm.calendarUrl}
+          onChange={(event) => setCaldavForm((prev) => ({ ...prev, calendarUrl: event.target.value }))}
+          placeholder="https://caldav.example.com/calendars/you/work/"
+          required
+        />
+      </label>
+      <label className={styles.label}>
+        Username
+        <input
+          className={styles.input}
+          autoComplete="username"
+          value={caldavForm.username}
+          onChange={(event) => setCaldavForm((prev) => ({ ...prev, username: event.target.value }))}
+          required
+        />
+      </label>
+      <label className={styles.label}>
+        App password
+        <input
+          className={styles.input}
+          type="password"
+          autoComplete="new-password"
+          value={caldavForm.password}
+          onChange={(event) => setCaldavForm((prev) => ({ ...prev, password: event.target.value }))}
+          required
+        />
+      </label>
+      <button type="submit" className={styles.secondaryButton} disabled={isBusy('calendarConnect:caldav')}>
+        {isBusy('calendarConnect:caldav') ? 'Connecting…' : 'Connect CalDAV calendar'}
+      </button>
+    </form>
+  );
+};
@@ -1,4 +1,5 @@
 import type { CalendarConnectionStatus, CalendarProvider } from '../../lib/organizer-api';
+import { toCalendarProviderLabel } from './calendar-connect';
 
 export type RecentCalendarConnection = {
   provider: CalendarProvider;
@@ -7,10 +8,6 @@ export type RecentCalendarConnection = {
 
 const STORAGE_KEY = 'opencalendly.recent-calendar-connection';
 
-const toProviderLabel = (provider: CalendarProvider): string => {
-  return provider === 'google' ? 'Google Calendar' : 'Microsoft Calendar';
-};
-
 const safeParseFeedback = (value: string | null): RecentCalendarConnection | null => {
   if (!value) {
     return null;
@@ -18,7 +15,7 @@ const safeParseFeedback = (value: string | null): RecentCalendarConnection | nul
 
   try {
     const parsed = JSON.parse(value) as Partial<RecentCalendarConnection>;
-    if (parsed.provider !== 'google' && parsed.provider !== 'microsoft') {
+    if (parsed.provider !== 'google' && parsed.provider !== 'microsoft' && parsed.provider !== 'caldav') {
       return null;
     }
     return {
@@ -51,7 +48,7 @@ export const consumeRecentCalendarConnection = (): RecentCalendarConnection | nu
 export const buildCalendarConnectSuccessMessage = (
   feedback: RecentCalendarConnection,
 ): string => {
-  const providerLabel = toProviderLabel(feedback.provider);
+  const providerLabel = toCalendarProviderLabel(feedback.provider);
   if (feedback.email) {
     return `${providerLabel} connected for ${feedback.email}. Review sync and writeback settings below.`;
   }
@@ -71,6 +71,13 @@ describe('buildCalendarConnectAvailabilityMessage', () => {
     expect(buildCalendarConnectAvailabilityMessage(['google', 'microsoft'])).toBeNull();
   });
 
+  it('ignores CalDAV because it connects without OAuth', () => {
+    expect(buildCalendarConnectAvailabilityMessage(['google', 'microsoft', 'caldav'])).toBeNull();
+    expect(buildCalendarConnectAvailabilityMessage(['google', 'caldav'])).toBe(
+      'Unavailable here: Microsoft Calendar.',
+    );
+  });
+
   it('lists the unavailable providers for partial runtimes', () => {
     expect(buildCalendarConnectAvailabilityMessage(['google'])).toBe(
       'Unavailable here: Microsoft Calendar.',
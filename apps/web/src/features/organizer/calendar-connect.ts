@@ -3,8 +3,13 @@ import type { CalendarConnectionStatus, CalendarProvider } from '../../lib/organ
 const providerLabelById = {
   google: 'Google Calendar',
   microsoft: 'Microsoft Calendar',
+  caldav: 'CalDAV calendar',
 } satisfies Record<CalendarProvider, string>;
 
+// CalDAV connects through its own credentials form, so only OAuth providers count toward the
+// connect-button availability notice.
+const oauthProviders: CalendarProvider[] = ['google', 'microsoft'];
+
 export const toCalendarProviderLabel = (provider: CalendarProvider): string => {
   return providerLabelById[provider];
 };
@@ -17,9 +22,7 @@ export const buildCalendarConnectionSummary = (
     return 'No calendars connected yet. Add one to block busy time and choose a writeback target.';
   }
 
-  const labels = connected.map((status) =>
-    status.provider === 'google' ? 'Google Calendar' : 'Microsoft Calendar',
-  );
+  const labels = connected.map((status) => toCalendarProviderLabel(status.provider));
 
   if (labels.length === 1) {
     return `1 calendar connected: ${labels[0]}.`;
@@ -35,13 +38,12 @@ export const buildCalendarConnectAvailabilityMessage = (
     return 'Calendar OAuth is not configured in this environment yet.';
   }
 
-  if (availableProviders.length === Object.keys(providerLabelById).length) {
-    return null;
-  }
-
-  const unavailableProviders = (Object.keys(providerLabelById) as CalendarProvider[])
+  const unavailableProviders = oauthProviders
     .filter((provider) => !availableProviders.includes(provider))
     .map(toCalendarProviderLabel);
+  if (unavailableProviders.length === 0) {
+    return null;
+  }
 
   return `Unavailable here: ${unavailableProviders.join(', ')}.`;
 };
@@ -0,0 +1,130 @@
+'use client';
+
+import { useState } from 'react';
+
+import { organizerApi, type CalendarFeedStatus } from '../../lib/organizer-api';
+import type { AuthSession } from '../../lib/auth-session';
+
+type OrganizerStyles = Record<string, string>;
+
+export const CalendarFeedCard = ({
+  apiBaseUrl,
+  session,
+  calendarFeed,
+  refreshOrganizerState,
+  isBusy,
+  beginBusy,
+  endBusy,
+  setPanelError,
+  setPanelMessage,
+  styles,
+}: {
+  apiBaseUrl: string;
+  session: AuthSession | null;
+  calendarFeed: CalendarFeedStatus | null;
+  refreshOrganizerState: () => Promise<void>;
+  isBusy: (action: string) => boolean;
+  beginBusy: (action: string) => void;
+  endBusy: (action: string) => void;
+  setPanelError: (message: string | null) => void;
+  setPanelMessage: (message: string | null) => void;
+  styles: OrganizerStyles;
+}) => {
+  // The API only reveals the URL when it is issued, so it lives in local state until the next rotation.
+  const [issuedFeedUrl, setIssuedFeedUrl] = useState<string | null>(null);
+  const isEnabled = calendarFeed?.enabled ?? false;
+
+  const handleCreateFeed = async () => {
+    if (!session) {
+      return;
+    }
+    if (isEnabled && !window.confirm('Rotate the feed URL? Calendars subscribed to the current URL will stop updating.')) {
+      return;
+    }
+
+    const action = 'calendarFeedCreate';
+    beginBusy(action);
+    setPanelError(null);
+    setPanelMessage(null);
+
+    try {
+      const result = await organizerApi.createCalendarFeed(apiBaseUrl, session);
+      setIssuedFeedUrl(result.feedUrl);
+      setPanelMessage(isEnabled ? 'Calendar feed URL rotated.' : 'Calendar feed URL created.');
+      await refreshOrganizerState();
+    } catch (caught) {
+      setPanelError(caught instanceof Error ? caught.message : 'Unable to create calendar feed URL.');
+    } finally {
+      endBusy(action);
+    }
+  };
+
+  const handleRevokeFeed = async () => {
+    if (!session) {
+      return;
+    }
+    if (!window.confirm('Revoke the calendar feed? Subscribed calendars will stop receiving bookings.')) {
+      return;
+    }
+
+    const action = 'calendarFeedRevoke';
+    beginBusy(action);
+    setPanelError(null);
+    setPanelMessage(null);
+
+    try {
+      await organizerApi.revokeCalendarFeed(apiBaseUrl, session);
+      setIssuedFeedUrl(null);
+      setPanelMessage('Calendar feed revoked.');
+      await refreshOrganizerState();
+    } catch (caught) {
+      setPanelError(caught instanceof Error ? caught.message : 'Unable to revoke calendar feed.');
+    } finally {
+      endBusy(action);
+    }
+  };
+
+  return (
+    <div className={styles.form}>
+      <h3>Calendar subscription feed</h3>
+      <p className={styles.helperText}>
+        Subscribe from Apple Calendar, Fastmail, Thunderbird, or any app that reads iCalendar URLs. The feed is
+        read-only and includes your confirmed one-on-one and team bookings.
+      </p>
+      {isEnabled && calendarFeed ? (
+        <p>
+          Active since {calendarFeed.rotatedAt ? new Date(calendarFeed.rotatedAt).toLocaleString() : 'n/a'} · Last fetched{' '}
+          {calendarFeed.lastAccessedAt ? new Date(calendarFeed.lastAccessedAt).toLocaleString() : 'never'}
+        </p>
+      ) : (
+        <p className={styles.empty}>No feed URL issued yet.</p>
+      )}
+      {issuedFeedUrl ? (
+        <label className={styles.label}>
+          Feed URL (copy it now — it will not be shown again)
+          <input className={styles.input} value={issuedFeedUrl} readOnly onFocus={(event) => event.target.select()} />
+        </label>
+      ) : null}
+      <div className={styles.inlineActions}>
+        <button
+          type="button"
+          className={styles.secondaryButton}
+          onClick={() => void handleCreateFeed()}
+          disabled={isBusy('calendarFeedCreate')}
+        >
+          {isBusy('calendarFeedCreate') ? 'Saving…' : isEnabled ? 'Rotate feed URL' : 'Create feed URL'}
+        </button>
+        {isEnabled ? (
+          <button
+            type="button"
+            className={styles.ghostButton}
+            onClick={() => void handleRevokeFeed()}
+            disabled={isBusy('calendarFeedRevoke')}
+          >
+            {isBusy('calendarFeedRevoke') ? 'Revoking…' : 'Revoke feed'}
+          </button>
+        ) : null}
+      </div>
+    </div>
+  );
+};
@@ -1,12 +1,20 @@
 'use client';
 
-import { organizerApi, type CalendarConnectionStatus, type CalendarProvider } from '../../lib/organizer-api';
+import {
+  organizerApi,
+  type CalendarConnectionStatus,
+  type CalendarFeedStatus,
+  type CalendarProvider,
+} from '../../lib/organizer-api';
 import type { AuthSession } from '../../lib/auth-session';
 import {
   isRecentCalendarConnection,
   type RecentCalendarConnection,
 } from './calendar-connect-feedback';
+import { CaldavConnectForm } from './caldav-connect-form';
+import { toCalendarProviderLabel } from './calendar-connect';
 import { CalendarConnectActions } from './calendar-connect-actions';
+import { CalendarFeedCard } from './calendar-feed-card';
 
 type OrganizerStyles = Record<string, string>;
 
@@ -15,6 +23,7 @@ export const CalendarsPanel = ({
   session,
   calendarStatuses,
   availableCalendarProviders,
+  calendarFeed,
   recentCalendarConnection,
   refreshOrganizerState,
   isBusy,
@@ -28,6 +37,7 @@ export const CalendarsPanel = ({
   session: AuthSession | null;
   calendarStatuses: CalendarConnectionStatus[];
   availableCalendarProviders: CalendarProvider[];
+  calendarFeed?: CalendarFeedStatus | null;
   recentCalendarConnection: RecentCalendarConnection | null;
   refreshOrganizerState: () => Promise<void>;
   isBusy: (action: string) => boolean;
@@ -50,7 +60,7 @@ export const CalendarsPanel = ({
     try {
       const result = await organizerApi.syncConnection(apiBaseUrl, session, connection.id);
       setPanelMessage(
-        `${connection.provider === 'google' ? 'Google' : 'Microsoft'} sync complete: ${result.busyWindowCount} busy windows refreshed.`,
+        `${toCalendarProviderLabel(connection.provider)} sync complete: ${result.busyWindowCount} busy windows refreshed.`,
       );
       await refreshOrganizerState();
     } catch (caught) {
@@ -80,7 +90,7 @@ export const CalendarsPanel = ({
     try {
       await organizerApi.disconnectConnection(apiBaseUrl, session, connection.id);
       setPanelMessage(
-        `${connection.provider === 'google' ? 'Google' : 'Microsoft'} calendar disconnected.`,
+        `${toCalendarProviderLabel(connection.provider)} disconnected.`,
       );
       await refreshOrganizerState();
     } catch (caught) {
@@ -126,7 +136,7 @@ export const CalendarsPanel = ({
         <h3>Add calendars</h3>
         <p className={styles.helperText}>
           {availableCalendarProviders.length > 0
-            ? 'Connect every configured Google and Microsoft calendar you need.'
+            ? 'Connect every configured Google, Microsoft, and CalDAV calendar you need.'
             : 'Calendar connections are unavailable until OAuth is configured for this environment.'}
         </p>
         <CalendarConnectActions
@@ -141,6 +151,35 @@ export const CalendarsPanel = ({
         />
       </div>
 
+      {availableCalendarProviders.includes('caldav') ? (
+        <CaldavConnectForm
+          apiBaseUrl={apiBaseUrl}
+          session={session}
+          refreshOrganizerState={refreshOrganizerState}
+          isBusy={isBusy}
+          beginBusy={beginBusy}
+          endBusy={endBusy}
+          setPanelError={setPanelError}
+          setPanelMessage={setPanelMessage}
+          styles={styles}
+        />
+      ) : null}
+
+      {calendarFeed !== undefined ? (
+        <CalendarFeedCard
+          apiBaseUrl={apiBaseUrl}
+          session={session}
+          calendarFeed={calendarFeed}
+          refreshOrganizerState={refreshOrganizerState}
+          isBusy={isBusy}
+          beginBusy={beginBusy}
+          endBusy={endBusy}
+          setPanelError={setPanelError}
+          setPanelMessage={setPanelMessage}
+          styles={styles}
+        />
+      ) : null}
+
       <div className={styles.form}>
         <h3>Connected calendars</h3>
         {recentCalendarConnection ? (
@@ -150,9 +189,7 @@ export const CalendarsPanel = ({
             </div>
             <div className={styles.successPanelCopy}>
               <strong>
-                {recentCalendarConnection.provider === 'google'
-                  ? 'Google Calendar connected'
-                  : 'Microsoft Calendar connected'}
+                {`${toCalendarProviderLabel(recentCalendarConnection.provider)} connected`}
               </strong>
               <p>
                 {recentCalendarConnection.email
@@ -176,7 +213,7 @@ export const CalendarsPanel = ({
                 >
                   <div className={styles.itemHead}>
                     <strong>
-                      {status.provider === 'google' ? 'Google Calendar' : 'Microsoft Calendar'}
+                      {toCalendarProviderLabel(status.provider)}
                     </strong>
                     <span
                       className={`${styles.badge} ${isFresh ? styles.badgeSuccess : ''}`.trim()}
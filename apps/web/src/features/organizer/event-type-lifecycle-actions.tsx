@@ -0,0 +1,149 @@
+'use client';
+
+import { organizerApi, type OrganizerEventType } from '../../lib/organizer-api';
+import type { AuthSession } from '../../lib/auth-session';
+
+type OrganizerStyles = Record<string, string>;
+
+export const EventTypeLifecycleActions = ({
+  apiBaseUrl,
+  session,
+  eventType,
+  isBusy,
+  beginBusy,
+  endBusy,
+  refreshOrganizerState,
+  setPanelError,
+  setPanelMessage,
+  styles,
+}: {
+  apiBaseUrl: string;
+  session: AuthSession | null;
+  eventType: OrganizerEventType;
+  isBusy: (action: string) => boolean;
+  beginBusy: (action: string) => void;
+  endBusy: (action: string) => void;
+  refreshOrganizerState: () => Promise<void>;
+  setPanelError: (message: string | null) => void;
+  setPanelMessage: (message: string | null) => void;
+  styles: OrganizerStyles;
+}) => {
+  const duplicateAction = `eventTypeDuplicate:${eventType.id}`;
+  const archiveAction = `eventTypeArchive:${eventType.id}`;
+  const deleteAction = `eventTypeDelete:${eventType.id}`;
+
+  const runAction = async (action: string, task: () => Promise<string>, fallbackError: string) => {
+    beginBusy(action);
+    setPanelError(null);
+    setPanelMessage(null);
+
+    try {
+      setPanelMessage(await task());
+      await refreshOrganizerState();
+    } catch (caught) {
+      setPanelError(caught instanceof Error ? caught.message : fallbackError);
+    } finally {
+      endBusy(action);
+    }
+  };
+
+  const handleDuplicate = async () => {
+    if (!session) {
+      return;
+    }
+
+    await runAction(
+      duplicateAction,
+      async () => {
+        const result = await organizerApi.duplicateEventType(apiBaseUrl, session, eventType.id);
+        return `Duplicated as "${result.eventType.name}" (${result.eventType.slug}).`;
+      },
+      'Unable to duplicate event type.',
+    );
+  };
+
+  const handleArchiveToggle = async () => {
+    if (!session) {
+      return;
+    }
+
+    if (eventType.archivedAt) {
+      await runAction(
+        archiveAction,
+        async () => {
+          await organizerApi.restoreEventType(apiBaseUrl, session, eventType.id);
+          return 'Event type restored. Activate it when you are ready to take bookings again.';
+        },
+        'Unable to restore event type.',
+      );
+      return;
+    }
+
+    await runAction(
+      archiveAction,
+      async () => {
+        await organizerApi.archiveEventType(apiBaseUrl, session, eventType.id);
+        return 'Event type archived. Existing bookings are unchanged.';
+      },
+      'Unable to archive event type.',
+    );
+  };
+
+  const handleDelete = async () => {
+    if (!session) {
+      return;
+    }
+    if (!window.confirm(`Delete "${eventType.name}" permanently? Its booking history and reminders are removed too.`)) {
+      return;
+    }
+    const cancelFutureBookings = window.confirm(
+      'If this event type has upcoming bookings or pending requests, cancel or decline them and email each invitee? Choose Cancel to keep them and stop the delete.',
+    );
+
+    await runAction(
+      deleteAction,
+      async () => {
+        const result = await organizerApi.deleteEventType(apiBaseUrl, session, eventType.id, {
+          cancelFutureBookings,
+        });
+        const notified = [
+          ...(result.canceledBookings > 0 ? [`${result.canceledBookings} upcoming booking(s) canceled`] : []),
+          ...(result.declinedRequests > 0 ? [`${result.declinedRequests} pending request(s) declined`] : []),
+        ];
+        return notified.length > 0
+          ? `Event type deleted. ${notified.join(' and ')}; invitees notified.`
+          : 'Event type deleted.';
+      },
+      'Unable to delete event type.',
+    );
+  };
+
+  return (
+    <div className={styles.rowActions}>
+      <button
+        type="button"
+        className={styles.ghostButton}
+        onClick={() => void handleDuplicate()}
+        disabled={isBusy(duplicateAction)}
+      >
+        {isBusy(duplicateAction) ? 'Duplicating…' : 'Duplicate'}
+      </button>
+      <button
+        type="button"
+        className={styles.ghostButton}
+        onClick={() => void handleArchiveToggle()}
+        disabled={isBusy(archiveAction)}
+      >
+        {isBusy(archiveAction) ? 'Saving…' : eventType.archivedAt ? 'Restore' : 'Archive'}
+      </button>
+      <button
+        type="button"
+        className={styles.ghostButton}
+        onClick={() => void handleDelete()}
+        disabled={isBusy(deleteAction)}
+      >
+        {isBusy(deleteAction) ? 'Deleting…' : 'Delete'}
+      </button>
+    </div>
+  );
+};
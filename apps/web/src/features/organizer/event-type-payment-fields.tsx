@@ -0,0 +1,67 @@
+'use client';
+
+import type { EventTypeForm } from './utils';
+
+type OrganizerStyles = Record<string, string>;
+
+type PaymentFieldKey = 'priceCents' | 'currency' | 'refundPolicy' | 'refundCutoffHours';
+
+export const EventTypePaymentFields = ({
+  form,
+  onChange,
+  styles,
+}: {
+  form: EventTypeForm;
+  onChange: (key: PaymentFieldKey, value: string) => void;
+  styles: OrganizerStyles;
+}) => {
+  return (
+    <div className={styles.splitGrid}>
+      <label className={styles.label}>
+        Price (minor units, e.g. 5000 = 50.00)
+        <input
+          className={styles.input}
+          type="number"
+          min={50}
+          max={1000000}
+          value={form.priceCents}
+          placeholder="Free"
+          onChange={(event) => onChange('priceCents', event.target.value)}
+        />
+      </label>
+      <label className={styles.label}>
+        Currency
+        <input
+          className={styles.input}
+          value={form.currency}
+          maxLength={3}
+          placeholder="usd"
+          onChange={(event) => onChange('currency', event.target.value)}
+        />
+      </label>
+      <label className={styles.label}>
+        Refund on invitee cancel
+        <select
+          className={styles.select}
+          value={form.refundPolicy}
+          onChange={(event) => onChange('refundPolicy', event.target.value)}
+        >
+          <option value="full">Full refund</option>
+          <option value="none">No refund</option>
+        </select>
+      </label>
+      <label className={styles.label}>
+        Refund cutoff (hours before start)
+        <input
+          className={styles.input}
+          type="number"
+          min={1}
+          max={720}
+          value={form.refundCutoffHours}
+          placeholder="Any time"
+          onChange={(event) => onChange('refundCutoffHours', event.target.value)}
+        />
+      </label>
+    </div>
+  );
+};
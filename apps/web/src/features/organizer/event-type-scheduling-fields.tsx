@@ -0,0 +1,55 @@
+'use client';
+
+import type { EventTypeForm } from './utils';
+
+type OrganizerStyles = Record<string, string>;
+
+type SchedulingFieldKey =
+  | 'minimumNoticeMinutes'
+  | 'bookingHorizonDays'
+  | 'bufferBeforeMinutes'
+  | 'bufferAfterMinutes'
+  | 'slotIncrementMinutes';
+
+const schedulingFields: Array<{
+  key: SchedulingFieldKey;
+  label: string;
+  min: number;
+  max: number;
+  placeholder?: string;
+}> = [
+  { key: 'minimumNoticeMinutes', label: 'Minimum notice (minutes)', min: 0, max: 43200 },
+  { key: 'bookingHorizonDays', label: 'Booking horizon (days)', min: 1, max: 730, placeholder: 'No limit' },
+  { key: 'bufferBeforeMinutes', label: 'Buffer before (minutes)', min: 0, max: 180 },
+  { key: 'bufferAfterMinutes', label: 'Buffer after (minutes)', min: 0, max: 180 },
+  { key: 'slotIncrementMinutes', label: 'Slot increment (minutes)', min: 5, max: 60, placeholder: '15' },
+];
+
+export const EventTypeSchedulingFields = ({
+  form,
+  onChange,
+  styles,
+}: {
+  form: EventTypeForm;
+  onChange: (key: SchedulingFieldKey, value: string) => void;
+  styles: OrganizerStyles;
+}) => {
+  return (
+    <div className={styles.splitGrid}>
+      {schedulingFields.map((field) => (
+        <label key={field.key} className={styles.label}>
+          {field.label}
+          <input
+            className={styles.input}
+            type="number"
+            min={field.min}
+            max={field.max}
+            value={form[field.key]}
+            placeholder={field.placeholder}
+            onChange={(event) => onChange(field.key, event.target.value)}
+          />
+        </label>
+      ))}
+    </div>
+  );
+};
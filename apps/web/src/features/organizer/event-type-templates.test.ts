@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+
+import { eventTypeCreateSchema } from '@opencalendly/shared';
+
+import { EVENT_TYPE_TEMPLATES, findEventTypeTemplate } from './event-type-templates';
+import { buildEventTypeCreateBody } from './utils';
+
+describe('event type templates', () => {
+  it('produce create payloads the API accepts', () => {
+    for (const template of EVENT_TYPE_TEMPLATES) {
+      const parsed = eventTypeCreateSchema.safeParse(buildEventTypeCreateBody(template.form, template.questions));
+      expect(parsed.success, `${template.key}: ${parsed.error?.issues[0]?.message ?? ''}`).toBe(true);
+    }
+  });
+
+  it('use unique keys and slugs', () => {
+    expect(new Set(EVENT_TYPE_TEMPLATES.map((template) => template.key)).size).toBe(EVENT_TYPE_TEMPLATES.length);
+    expect(new Set(EVENT_TYPE_TEMPLATES.map((template) => template.form.slug)).size).toBe(
+      EVENT_TYPE_TEMPLATES.length,
+    );
+  });
+
+  it('includes an interview template with screening questions', () => {
+    const interview = findEventTypeTemplate('interview-60');
+
+    expect(interview?.form.durationMinutes).toBe('60');
+    expect(interview?.questions.filter((question) => question.required).length).toBeGreaterThan(0);
+    expect(findEventTypeTemplate('missing')).toBeNull();
+  });
+});
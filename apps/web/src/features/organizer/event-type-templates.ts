@@ -0,0 +1,82 @@
+import type { OrganizerEventQuestion } from '../../lib/organizer-api';
+import { buildDefaultEventTypeForm, type EventTypeForm } from './utils';
+
+export type EventTypeTemplate = {
+  key: string;
+  label: string;
+  description: string;
+  form: EventTypeForm;
+  questions: OrganizerEventQuestion[];
+};
+
+export const EVENT_TYPE_TEMPLATES: EventTypeTemplate[] = [
+  {
+    key: 'intro-30',
+    label: '30 min intro',
+    description: 'Video intro call with a short goal question and a 5 minute buffer after.',
+    form: {
+      ...buildDefaultEventTypeForm(),
+      name: '30 min intro',
+      slug: 'intro-30',
+      durationMinutes: '30',
+      minimumNoticeMinutes: '240',
+      bufferAfterMinutes: '5',
+    },
+    questions: [
+      {
+        id: 'goal',
+        label: 'What would you like to cover?',
+        required: false,
+        type: 'long_text',
+        maxLength: 1000,
+      },
+    ],
+  },
+  {
+    key: 'interview-60',
+    label: '60 min interview',
+    description: 'Interview slot with screening questions, a day of notice, and buffers on both sides.',
+    form: {
+      ...buildDefaultEventTypeForm(),
+      name: '60 min interview',
+      slug: 'interview-60',
+      durationMinutes: '60',
+      minimumNoticeMinutes: '1440',
+      bookingHorizonDays: '30',
+      bufferBeforeMinutes: '10',
+      bufferAfterMinutes: '10',
+      slotIncrementMinutes: '30',
+    },
+    questions: [
+      { id: 'role', label: 'Role you are applying for', required: true, type: 'short_text', maxLength: 120 },
+      { id: 'profile', label: 'LinkedIn or portfolio URL', required: true, type: 'url' },
+      {
+        id: 'experience',
+        label: 'Years of relevant experience',
+        required: true,
+        type: 'single_select',
+        options: ['0-2', '3-5', '6-10', '10+'],
+      },
+      { id: 'phone', label: 'Phone number (backup contact)', required: false, type: 'phone' },
+    ],
+  },
+  {
+    key: 'quick-chat-15',
+    label: '15 min quick chat',
+    description: 'Short phone call on a 15 minute grid with no extra questions.',
+    form: {
+      ...buildDefaultEventTypeForm(),
+      name: '15 min quick chat',
+      slug: 'quick-chat-15',
+      durationMinutes: '15',
+      locationType: 'phone',
+      minimumNoticeMinutes: '60',
+      slotIncrementMinutes: '15',
+    },
+    questions: [],
+  },
+];
+
+export const findEventTypeTemplate = (key: string): EventTypeTemplate | null => {
+  return EVENT_TYPE_TEMPLATES.find((template) => template.key === key) ?? null;
+};
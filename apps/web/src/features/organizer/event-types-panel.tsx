@@ -2,9 +2,26 @@
 
 import { type FormEvent, useEffect, useState } from 'react';
 
-import { organizerApi, type OrganizerEventType } from '../../lib/organizer-api';
+import {
+  organizerApi,
+  type AvailabilitySchedule,
+  type OrganizerEventQuestion,
+  type OrganizerEventType,
+} from '../../lib/organizer-api';
 import type { AuthSession } from '../../lib/auth-session';
-import { buildDefaultEventTypeForm, toNullableString } from './utils';
+import { EventTypeLifecycleActions } from './event-type-lifecycle-actions';
+import { EventTypePaymentFields } from './event-type-payment-fields';
+import { EventTypeSchedulingFields } from './event-type-scheduling-fields';
+import { EVENT_TYPE_TEMPLATES, findEventTypeTemplate } from './event-type-templates';
+import {
+  buildDefaultEventTypeForm,
+  buildEventTypeCreateBody,
+  buildEventTypeFormFromEventType,
+  parseIntegerOrUndefined,
+  toEventTypePaymentBody,
+  toEventTypeSchedulingBody,
+  toNullableString,
+} from './utils';
 
 type OrganizerStyles = Record<string, string>;
 
@@ -12,6 +29,7 @@ export const EventTypesPanel = ({
   apiBaseUrl,
   session,
   eventTypes,
+  availabilitySchedules,
   isBusy,
   beginBusy,
   endBusy,
@@ -23,6 +41,7 @@ export const EventTypesPanel = ({
   apiBaseUrl: string;
   session: AuthSession | null;
   eventTypes: OrganizerEventType[];
+  availabilitySchedules: AvailabilitySchedule[];
   isBusy: (action: string) => boolean;
   beginBusy: (action: string) => void;
   endBusy: (action: string) => void;
@@ -32,6 +51,8 @@ export const EventTypesPanel = ({
   styles: OrganizerStyles;
 }) => {
   const [createForm, setCreateForm] = useState(buildDefaultEventTypeForm);
+  const [createQuestions, setCreateQuestions] = useState<OrganizerEventQuestion[]>([]);
+  const [templateKey, setTemplateKey] = useState('');
   const [updateForm, setUpdateForm] = useState(buildDefaultEventTypeForm);
   const [updateId, setUpdateId] = useState('');
 
@@ -40,14 +61,7 @@ export const EventTypesPanel = ({
       const first = eventTypes[0];
       if (first) {
         setUpdateId(first.id);
-        setUpdateForm({
-          name: first.name,
-          slug: first.slug,
-          durationMinutes: String(first.durationMinutes),
-          locationType: first.locationType,
-          locationValue: first.locationValue ?? '',
-          isActive: first.isActive,
-        });
+        setUpdateForm(buildEventTypeFormFromEventType(first));
       }
       return;
     }
@@ -61,14 +75,7 @@ export const EventTypesPanel = ({
       return;
     }
     setUpdateId(first.id);
-    setUpdateForm({
-      name: first.name,
-      slug: first.slug,
-      durationMinutes: String(first.durationMinutes),
-      locationType: first.locationType,
-      locationValue: first.locationValue ?? '',
-      isActive: first.isActive,
-    });
+    setUpdateForm(buildEventTypeFormFromEventType(first));
   }, [eventTypes, updateId]);
 
   const handleCreateEventType = async (event: FormEvent<HTMLFormElement>) => {
@@ -83,14 +90,10 @@ export const EventTypesPanel = ({
     setPanelMessage(null);
 
     try {
-      await organizerApi.createEventType(apiBaseUrl, session, {
-        name: createForm.name.trim(),
-        slug: createForm.slug.trim().toLowerCase(),
-        durationMinutes: Number.parseInt(createForm.durationMinutes, 10),
-        locationType: createForm.locationType,
-        locationValue: toNullableString(createForm.locationValue),
-      });
+      await organizerApi.createEventType(apiBaseUrl, session, buildEventTypeCreateBody(createForm, createQuestions));
       setCreateForm(buildDefaultEventTypeForm());
+      setCreateQuestions([]);
+      setTemplateKey('');
       setPanelMessage('Event type created.');
       await refreshOrganizerState();
     } catch (caught) {
@@ -118,6 +121,11 @@ export const EventTypesPanel = ({
         durationMinutes: Number.parseInt(updateForm.durationMinutes, 10),
         locationType: updateForm.locationType,
         locationValue: toNullableString(updateForm.locationValue),
+        availabilityScheduleId: updateForm.availabilityScheduleId || null,
+        ...toEventTypeSchedulingBody(updateForm),
+        ...toEventTypePaymentBody(updateForm),
+        requiresConfirmation: updateForm.requiresConfirmation,
+        seatsPerSlot: parseIntegerOrUndefined(updateForm.seatsPerSlot) ?? null,
         isActive: updateForm.isActive,
       });
       setPanelMessage('Event type updated.');
@@ -167,21 +175,43 @@ export const EventTypesPanel = ({
                   <span className={styles.badge}>{eventType.slug}</span>
                 </div>
                 <p>
-                  {eventType.durationMinutes} min · {eventType.locationType}
+                  {eventType.durationMinutes} min · {eventType.locationType} ·{' '}
+                  {availabilitySchedules.find((schedule) => schedule.id === eventType.availabilityScheduleId)?.name ??
+                    'Default rules'}
                 </p>
-                <p>Status: {eventType.isActive ? 'Active' : 'Inactive'}</p>
-                <button
-                  type="button"
-                  className={styles.ghostButton}
-                  onClick={() => void handleToggleEventTypeActive(eventType.id, eventType.isActive)}
-                  disabled={isBusy(`eventTypeToggle:${eventType.id}`)}
-                >
-                  {isBusy(`eventTypeToggle:${eventType.id}`)
-                    ? 'Saving…'
-                    : eventType.isActive
-                      ? 'Deactivate'
-                      : 'Activate'}
-                </button>
+                {eventType.minimumNoticeMinutes > 0 || eventType.bookingHorizonDays ? (
+                  <p className={styles.helperText}>
+                    {eventType.minimumNoticeMinutes > 0 ? `${eventType.minimumNoticeMinutes} min notice` : 'No notice'}
+                    {eventType.bookingHorizonDays ? ` · up to ${eventType.bookingHorizonDays} days out` : ''}
+                  </p>
+                ) : null}
+                <p>Status: {eventType.archivedAt ? 'Archived' : eventType.isActive ? 'Active' : 'Inactive'}</p>
+                {eventType.archivedAt ? null : (
+                  <button
+                    type="button"
+                    className={styles.ghostButton}
+                    onClick={() => void handleToggleEventTypeActive(eventType.id, eventType.isActive)}
+                    disabled={isBusy(`eventTypeToggle:${eventType.id}`)}
+                  >
+                    {isBusy(`eventTypeToggle:${eventType.id}`)
+                      ? 'Saving…'
+                      : eventType.isActive
+                        ? 'Deactivate'
+                        : 'Activate'}
+                  </button>
+                )}
+                <EventTypeLifecycleActions
+                  apiBaseUrl={apiBaseUrl}
+                  session={session}
+                  eventType={eventType}
+                  isBusy={isBusy}
+                  beginBusy={beginBusy}
+                  endBusy={endBusy}
+                  refreshOrganizerState={refreshOrganizerState}
+                  setPanelError={setPanelError}
+                  setPanelMessage={setPanelMessage}
+                  styles={styles}
+                />
               </article>
             ))}
           </div>
@@ -190,6 +220,34 @@ export const EventTypesPanel = ({
 
       <form className={styles.form} onSubmit={handleCreateEventType}>
         <h3>Create event type</h3>
+        <label className={styles.label}>
+          Start from
+          <select
+            className={styles.select}
+            value={templateKey}
+            onChange={(event) => {
+              const template = findEventTypeTemplate(event.target.value);
+              setTemplateKey(template?.key ?? '');
+              setCreateForm(template ? { ...template.form } : buildDefaultEventTypeForm());
+              setCreateQuestions(template ? template.questions : []);
+            }}
+          >
+            <option value="">Blank event type</option>
+            {EVENT_TYPE_TEMPLATES.map((template) => (
+              <option key={template.key} value={template.key}>
+                {template.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {findEventTypeTemplate(templateKey) ? (
+          <p className={styles.helperText}>
+            {findEventTypeTemplate(templateKey)?.description}
+            {createQuestions.length > 0
+              ? ` Questions: ${createQuestions.map((question) => question.label).join(', ')}.`
+              : ''}
+          </p>
+        ) : null}
         <label className={styles.label}>
           Name
           <input className={styles.input} value={createForm.name} onChange={(event) => setCreateForm((prev) => ({ ...prev, name: event.target.value }))} required />
@@ -215,6 +273,27 @@ export const EventTypesPanel = ({
           Location value (optional)
           <input className={styles.input} value={createForm.locationValue} onChange={(event) => setCreateForm((prev) => ({ ...prev, locationValue: event.target.value }))} placeholder="https://meet.example.com/room" />
         </label>
+        <label className={styles.label}>
+          Availability schedule
+          <select className={styles.select} value={createForm.availabilityScheduleId} onChange={(event) => setCreateForm((prev) => ({ ...prev, availabilityScheduleId: event.target.value }))}>
+            <option value="">Default rules</option>
+            {availabilitySchedules.map((schedule) => (
+              <option key={schedule.id} value={schedule.id}>
+                {schedule.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <EventTypeSchedulingFields form={createForm} onChange={(key, value) => setCreateForm((prev) => ({ ...prev, [key]: value }))} styles={styles} />
+        <EventTypePaymentFields form={createForm} onChange={(key, value) => setCreateForm((prev) => ({ ...prev, [key]: value }))} styles={styles} />
+        <label className={styles.label}>
+          Seats per slot (optional)
+          <input className={styles.input} type="number" min={2} max={500} value={createForm.seatsPerSlot} onChange={(event) => setCreateForm((prev) => ({ ...prev, seatsPerSlot: event.target.value }))} placeholder="Blank keeps it one-on-one" />
+        </label>
+        <label className={styles.checkbox}>
+          <input type="checkbox" checked={createForm.requiresConfirmation} onChange={(event) => setCreateForm((prev) => ({ ...prev, requiresConfirmation: event.target.checked }))} />
+          Require my approval for new bookings
+        </label>
         <button type="submit" className={styles.primaryButton} disabled={isBusy('eventTypeCreate')}>
           {isBusy('eventTypeCreate') ? 'Creating…' : 'Create event type'}
         </button>
@@ -234,14 +313,7 @@ export const EventTypesPanel = ({
               if (!selected) {
                 return;
               }
-              setUpdateForm({
-                name: selected.name,
-                slug: selected.slug,
-                durationMinutes: String(selected.durationMinutes),
-                locationType: selected.locationType,
-                locationValue: selected.locationValue ?? '',
-                isActive: selected.isActive,
-              });
+              setUpdateForm(buildEventTypeFormFromEventType(selected));
             }}
             required
           >
@@ -277,6 +349,27 @@ export const EventTypesPanel = ({
           Location value (optional)
           <input className={styles.input} value={updateForm.locationValue} onChange={(event) => setUpdateForm((prev) => ({ ...prev, locationValue: event.target.value }))} />
         </label>
+        <label className={styles.label}>
+          Availability schedule
+          <select className={styles.select} value={updateForm.availabilityScheduleId} onChange={(event) => setUpdateForm((prev) => ({ ...prev, availabilityScheduleId: event.target.value }))}>
+            <option value="">Default rules</option>
+            {availabilitySchedules.map((schedule) => (
+              <option key={schedule.id} value={schedule.id}>
+                {schedule.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <EventTypeSchedulingFields form={updateForm} onChange={(key, value) => setUpdateForm((prev) => ({ ...prev, [key]: value }))} styles={styles} />
+        <EventTypePaymentFields form={updateForm} onChange={(key, value) => setUpdateForm((prev) => ({ ...prev, [key]: value }))} styles={styles} />
+        <label className={styles.label}>
+          Seats per slot (optional)
+          <input className={styles.input} type="number" min={2} max={500} value={updateForm.seatsPerSlot} onChange={(event) => setUpdateForm((prev) => ({ ...prev, seatsPerSlot: event.target.value }))} placeholder="Blank keeps it one-on-one" />
+        </label>
+        <label className={styles.checkbox}>
+          <input type="checkbox" checked={updateForm.requiresConfirmation} onChange={(event) => setUpdateForm((prev) => ({ ...prev, requiresConfirmation: event.target.checked }))} />
+          Require my approval for new bookings
+        </label>
         <label className={styles.checkbox}>
           <input type="checkbox" checked={updateForm.isActive} onChange={(event) => setUpdateForm((prev) => ({ ...prev, isActive: event.target.checked }))} />
           Active
@@ -0,0 +1,241 @@
+'use client';
+
+import { type FormEvent, useCallback, useEffect, useState } from 'react';
+import type { RoutingRule } from '@opencalendly/shared';
+
+import {
+  organizerApi,
+  type OrganizerEventQuestion,
+  type OrganizerEventType,
+  type OrganizerRoutingForm,
+} from '../../lib/organizer-api';
+import type { AuthSession } from '../../lib/auth-session';
+import { isRecord, parseJsonArray, toNullableString } from './utils';
+
+type OrganizerStyles = Record<string, string>;
+
+const EXAMPLE_QUESTIONS = JSON.stringify(
+  [
+    { id: 'company_size', label: 'Company size', required: true, type: 'number' },
+    { id: 'country', label: 'Country', required: true, type: 'single_select', options: ['IN', 'US', 'Other'] },
+  ],
+  null,
+  2,
+);
+const EXAMPLE_RULES = JSON.stringify(
+  [{ conditions: [{ questionId: 'company_size', operator: 'greater_than', value: 200 }], eventTypeId: '<event-type-id>' }],
+  null,
+  2,
+);
+
+const buildRoutingFormDraft = () => ({
+  name: '',
+  slug: '',
+  fallbackEventTypeId: '',
+  questions: EXAMPLE_QUESTIONS,
+  rules: '[]',
+});
+
+// Shape checks stay loose here; the API validates questions and rules against each other.
+const isQuestionInput = (value: unknown): value is OrganizerEventQuestion => isRecord(value);
+const isRuleInput = (value: unknown): value is RoutingRule => isRecord(value) && Array.isArray(value.conditions);
+
+export const RoutingFormsPanel = ({
+  apiBaseUrl,
+  session,
+  eventTypes,
+  isBusy,
+  beginBusy,
+  endBusy,
+  setPanelError,
+  setPanelMessage,
+  styles,
+}: {
+  apiBaseUrl: string;
+  session: AuthSession | null;
+  eventTypes: OrganizerEventType[];
+  isBusy: (action: string) => boolean;
+  beginBusy: (action: string) => void;
+  endBusy: (action: string) => void;
+  setPanelError: (message: string | null) => void;
+  setPanelMessage: (message: string | null) => void;
+  styles: OrganizerStyles;
+}) => {
+  const [routingForms, setRoutingForms] = useState<OrganizerRoutingForm[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editingFormId, setEditingFormId] = useState<string | null>(null);
+  const [draft, setDraft] = useState(buildRoutingFormDraft);
+
+  const refreshRoutingForms = useCallback(async () => {
+    if (!session) {
+      return;
+    }
+    setLoading(true);
+    try {
+      const payload = await organizerApi.listRoutingForms(apiBaseUrl, session);
+      setRoutingForms(payload.routingForms);
+    } catch (caught) {
+      setPanelError(caught instanceof Error ? caught.message : 'Unable to load routing forms.');
+    } finally {
+      setLoading(false);
+    }
+  }, [apiBaseUrl, session, setPanelError]);
+
+  useEffect(() => {
+    void refreshRoutingForms();
+  }, [refreshRoutingForms]);
+
+  const runAction = async (action: string, work: () => Promise<string>, fallbackError: string) => {
+    if (!session) {
+      return;
+    }
+    beginBusy(action);
+    setPanelError(null);
+    setPanelMessage(null);
+    try {
+      setPanelMessage(await work());
+      await refreshRoutingForms();
+    } catch (caught) {
+      setPanelError(caught instanceof Error ? caught.message : fallbackError);
+    } finally {
+      endBusy(action);
+    }
+  };
+
+  const handleSave = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    await runAction(
+      'routingFormSave',
+      async () => {
+        const body = {
+          name: draft.name.trim(),
+          slug: draft.slug.trim().toLowerCase(),
+          questions: parseJsonArray(draft.questions, 'Questions', isQuestionInput),
+          rules: parseJsonArray(draft.rules, 'Rules', isRuleInput),
+          fallbackEventTypeId: toNullableString(draft.fallbackEventTypeId),
+        };
+        if (editingFormId) {
+          await organizerApi.updateRoutingForm(apiBaseUrl, session, editingFormId, body);
+        } else {
+          await organizerApi.createRoutingForm(apiBaseUrl, session, body);
+        }
+        setEditingFormId(null);
+        setDraft(buildRoutingFormDraft());
+        return editingFormId ? 'Routing form updated.' : 'Routing form created.';
+      },
+      'Unable to save routing form.',
+    );
+  };
+
+  const handleEdit = (form: OrganizerRoutingForm) => {
+    setEditingFormId(form.id);
+    setDraft({
+      name: form.name,
+      slug: form.slug,
+      fallbackEventTypeId: form.fallbackEventTypeId ?? '',
+      questions: JSON.stringify(form.questions, null, 2),
+      rules: JSON.stringify(form.rules, null, 2),
+    });
+  };
+
+  return (
+    <div className={styles.splitGrid}>
+      <form className={styles.form} onSubmit={(event) => void handleSave(event)}>
+        <h3>{editingFormId ? 'Edit routing form' : 'Create routing form'}</h3>
+        <label className={styles.label}>
+          Name
+          <input className={styles.input} value={draft.name} onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))} required />
+        </label>
+        <label className={styles.label}>
+          Slug (public at /route/slug)
+          <input className={styles.input} value={draft.slug} onChange={(event) => setDraft((prev) => ({ ...prev, slug: event.target.value }))} required />
+        </label>
+        <label className={styles.label}>
+          Fallback event type
+          <select className={styles.select} value={draft.fallbackEventTypeId} onChange={(event) => setDraft((prev) => ({ ...prev, fallbackEventTypeId: event.target.value }))}>
+            <option value="">No fallback</option>
+            {eventTypes.map((eventType) => (
+              <option key={eventType.id} value={eventType.id}>
+                {eventType.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.label}>
+          Questions (JSON, same shape as booking questions)
+          <textarea className={styles.textarea} value={draft.questions} onChange={(event) => setDraft((prev) => ({ ...prev, questions: event.target.value }))} spellCheck={false} />
+        </label>
+        <label className={styles.label}>
+          Rules (JSON, first match wins)
+          <textarea className={styles.textarea} value={draft.rules} onChange={(event) => setDraft((prev) => ({ ...prev, rules: event.target.value }))} placeholder={EXAMPLE_RULES} spellCheck={false} />
+        </label>
+        <button type="submit" className={styles.primaryButton} disabled={isBusy('routingFormSave')}>
+          {isBusy('routingFormSave') ? 'Saving…' : editingFormId ? 'Save routing form' : 'Create routing form'}
+        </button>
+        {editingFormId ? (
+          <button type="button" className={styles.secondaryButton} onClick={() => { setEditingFormId(null); setDraft(buildRoutingFormDraft()); }}>
+            Cancel editing
+          </button>
+        ) : null}
+      </form>
+
+      <div className={styles.form}>
+        <h3>Routing forms</h3>
+        {loading && routingForms.length === 0 ? <p className={styles.empty}>Loading routing forms…</p> : null}
+        {!loading && routingForms.length === 0 ? <p className={styles.empty}>No routing forms yet.</p> : null}
+        <div className={styles.listGrid}>
+          {routingForms.map((form) => (
+            <article key={form.id} className={styles.itemCard}>
+              <div className={styles.itemHead}>
+                <strong>{form.name}</strong>
+                <span className={styles.badge}>{form.isActive ? 'active' : 'inactive'}</span>
+              </div>
+              <p>
+                <a href={`/route/${form.slug}`}>/route/{form.slug}</a> · {form.questions.length} question(s) · {form.rules.length} rule(s)
+              </p>
+              <div className={styles.inlineActions}>
+                <button type="button" className={styles.ghostButton} onClick={() => handleEdit(form)}>
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  className={styles.ghostButton}
+                  disabled={isBusy(`routingFormToggle:${form.id}`)}
+                  onClick={() =>
+                    void runAction(
+                      `routingFormToggle:${form.id}`,
+                      async () => {
+                        await organizerApi.updateRoutingForm(apiBaseUrl, session, form.id, { isActive: !form.isActive });
+                        return form.isActive ? 'Routing form disabled.' : 'Routing form enabled.';
+                      },
+                      'Unable to update routing form.',
+                    )
+                  }
+                >
+                  {form.isActive ? 'Disable' : 'Enable'}
+                </button>
+                <button
+                  type="button"
+                  className={styles.ghostButton}
+                  disabled={isBusy(`routingFormDelete:${form.id}`)}
+                  onClick={() =>
+                    void runAction(
+                      `routingFormDelete:${form.id}`,
+                      async () => {
+                        await organizerApi.deleteRoutingForm(apiBaseUrl, session, form.id);
+                        return 'Routing form deleted.';
+                      },
+                      'Unable to delete routing form.',
+                    )
+                  }
+                >
+                  Delete
+                </button>
+              </div>
+            </article>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
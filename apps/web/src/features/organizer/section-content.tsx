@@ -9,11 +9,15 @@ import type {
   TeamMember,
 } from '../../lib/organizer-api';
 import { AvailabilityPanel } from './availability-panel';
+import { AvailabilitySchedulesPanel } from './availability-schedules-panel';
+import { BookingRequestsPanel } from './booking-requests-panel';
+import { BookingsPanel } from './bookings-panel';
 import { CalendarsPanel } from './calendars-panel';
 import type { RecentCalendarConnection } from './calendar-connect-feedback';
 import { EventTypesPanel } from './event-types-panel';
 import { NotificationRulesPanel } from './notification-rules-panel';
 import { ProfilePanel } from './profile-panel';
+import { RoutingFormsPanel } from './routing-forms-panel';
 import { TeamsPanel } from './teams-panel';
 import { TimeOffPanel } from './time-off-panel';
 import type { OrganizerConsoleUser, OrganizerSectionsState } from './types';
@@ -87,6 +91,7 @@ export function OrganizerSectionContent({
           apiBaseUrl={apiBaseUrl}
           session={session}
           eventTypes={organizer.state.eventTypes}
+          availabilitySchedules={organizer.state.availabilitySchedules}
           isBusy={busy.isBusy}
           beginBusy={busy.beginBusy}
           endBusy={busy.endBusy}
@@ -117,6 +122,49 @@ export function OrganizerSectionContent({
     );
   }
 
+  if (activeSection === 'bookings') {
+    return (
+      <section id="bookings" className={styles.card}>
+        <div className={styles.sectionHeader}>
+          <h2>Bookings</h2>
+          <p>Browse upcoming, past, and canceled bookings across your event types.</p>
+        </div>
+        <BookingsPanel
+          apiBaseUrl={apiBaseUrl}
+          session={session}
+          eventTypes={organizer.state.eventTypes}
+          isBusy={busy.isBusy}
+          beginBusy={busy.beginBusy}
+          endBusy={busy.endBusy}
+          setPanelError={setPanelError}
+          setPanelMessage={setPanelMessage}
+          styles={styles}
+        />
+      </section>
+    );
+  }
+
+  if (activeSection === 'booking-requests') {
+    return (
+      <section id="booking-requests" className={styles.card}>
+        <div className={styles.sectionHeader}>
+          <h2>Approval queue</h2>
+          <p>Approve or decline requests for event types that need your sign-off. Each request holds its slot until you decide.</p>
+        </div>
+        <BookingRequestsPanel
+          apiBaseUrl={apiBaseUrl}
+          session={session}
+          isBusy={busy.isBusy}
+          beginBusy={busy.beginBusy}
+          endBusy={busy.endBusy}
+          setPanelError={setPanelError}
+          setPanelMessage={setPanelMessage}
+          styles={styles}
+        />
+      </section>
+    );
+  }
+
   if (activeSection === 'availability') {
     return (
       <section id="availability" className={styles.card}>
@@ -137,6 +185,19 @@ export function OrganizerSectionContent({
           setPanelMessage={setPanelMessage}
           styles={styles}
         />
+        <AvailabilitySchedulesPanel
+          apiBaseUrl={apiBaseUrl}
+          session={session}
+          schedules={organizer.state.availabilitySchedules}
+          eventTypes={organizer.state.eventTypes}
+          isBusy={busy.isBusy}
+          beginBusy={busy.beginBusy}
+          endBusy={busy.endBusy}
+          refreshOrganizerState={organizer.refreshOrganizerState}
+          setPanelError={setPanelError}
+          setPanelMessage={setPanelMessage}
+          styles={styles}
+        />
       </section>
     );
   }
@@ -195,6 +256,28 @@ export function OrganizerSectionContent({
     );
   }
 
+  if (activeSection === 'routing-forms') {
+    return (
+      <section id="routing-forms" className={styles.card}>
+        <div className={styles.sectionHeader}>
+          <h2>Routing forms</h2>
+          <p>Ask qualifying questions and send each invitee to the right event type or teammate.</p>
+        </div>
+        <RoutingFormsPanel
+          apiBaseUrl={apiBaseUrl}
+          session={session}
+          eventTypes={organizer.state.eventTypes}
+          isBusy={busy.isBusy}
+          beginBusy={busy.beginBusy}
+          endBusy={busy.endBusy}
+          setPanelError={setPanelError}
+          setPanelMessage={setPanelMessage}
+          styles={styles}
+        />
+      </section>
+    );
+  }
+
   if (activeSection === 'webhooks') {
     return (
       <section id="webhooks" className={styles.card}>
@@ -230,6 +313,7 @@ export function OrganizerSectionContent({
           session={session}
           calendarStatuses={organizer.state.calendarStatuses}
           availableCalendarProviders={organizer.state.availableCalendarProviders}
+          calendarFeed={organizer.state.calendarFeed}
           recentCalendarConnection={recentCalendarConnection}
           refreshOrganizerState={organizer.refreshOrganizerState}
           isBusy={busy.isBusy}
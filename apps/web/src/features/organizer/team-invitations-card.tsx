@@ -0,0 +1,207 @@
+'use client';
+
+import { type FormEvent, useCallback, useEffect, useState } from 'react';
+
+import {
+  organizerApi,
+  type TeamEventType,
+  type TeamInvitation,
+  type TeamInvitationEmailResult,
+  type TeamMemberRole,
+} from '../../lib/organizer-api';
+import type { AuthSession } from '../../lib/auth-session';
+
+type OrganizerStyles = Record<string, string>;
+
+const describeEmailResult = (email: TeamInvitationEmailResult, address: string): string => {
+  return email.sent
+    ? `Invitation emailed to ${address}.`
+    : `Invitation saved, but the email was not sent: ${email.error ?? 'email delivery is not configured.'}`;
+};
+
+export const TeamInvitationsCard = ({
+  apiBaseUrl,
+  session,
+  teamId,
+  teamEventTypes,
+  isBusy,
+  beginBusy,
+  endBusy,
+  setPanelError,
+  setPanelMessage,
+  styles,
+}: {
+  apiBaseUrl: string;
+  session: AuthSession | null;
+  teamId: string;
+  teamEventTypes: TeamEventType[];
+  isBusy: (action: string) => boolean;
+  beginBusy: (action: string) => void;
+  endBusy: (action: string) => void;
+  setPanelError: (message: string | null) => void;
+  setPanelMessage: (message: string | null) => void;
+  styles: OrganizerStyles;
+}) => {
+  const [invitations, setInvitations] = useState<TeamInvitation[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [form, setForm] = useState({ email: '', role: 'member' as TeamMemberRole, teamEventTypeIds: [] as string[] });
+
+  const refreshInvitations = useCallback(async () => {
+    if (!session || !teamId) {
+      return;
+    }
+    try {
+      const payload = await organizerApi.listTeamInvitations(apiBaseUrl, session, teamId);
+      setInvitations(payload.invitations);
+      setLoadError(null);
+    } catch (caught) {
+      setInvitations([]);
+      setLoadError(caught instanceof Error ? caught.message : 'Unable to load team invitations.');
+    }
+  }, [apiBaseUrl, session, teamId]);
+
+  useEffect(() => {
+    setForm({ email: '', role: 'member', teamEventTypeIds: [] });
+    void refreshInvitations();
+  }, [refreshInvitations]);
+
+  const runAction = async (action: string, task: () => Promise<string>, fallbackError: string) => {
+    beginBusy(action);
+    setPanelError(null);
+    setPanelMessage(null);
+
+    try {
+      setPanelMessage(await task());
+      await refreshInvitations();
+    } catch (caught) {
+      setPanelError(caught instanceof Error ? caught.message : fallbackError);
+    } finally {
+      endBusy(action);
+    }
+  };
+
+  const handleInvite = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!session) {
+      return;
+    }
+
+    await runAction(
+      'teamInvitationCreate',
+      async () => {
+        const result = await organizerApi.createTeamInvitation(apiBaseUrl, session, teamId, {
+          email: form.email.trim(),
+          role: form.role,
+          teamEventTypeIds: form.teamEventTypeIds,
+        });
+        setForm({ email: '', role: 'member', teamEventTypeIds: [] });
+        return describeEmailResult(result.email, result.invitation.email);
+      },
+      'Unable to send team invitation.',
+    );
+  };
+
+  const handleResend = async (invitation: TeamInvitation) => {
+    if (!session) {
+      return;
+    }
+
+    await runAction(
+      `teamInvitationResend:${invitation.id}`,
+      async () => {
+        const result = await organizerApi.resendTeamInvitation(apiBaseUrl, session, teamId, invitation.id);
+        return describeEmailResult(result.email, result.invitation.email);
+      },
+      'Unable to resend team invitation.',
+    );
+  };
+
+  const handleRevoke = async (invitation: TeamInvitation) => {
+    if (!session || !window.confirm(`Revoke the invitation for ${invitation.email}? The emailed link will stop working.`)) {
+      return;
+    }
+
+    await runAction(
+      `teamInvitationRevoke:${invitation.id}`,
+      async () => {
+        await organizerApi.revokeTeamInvitation(apiBaseUrl, session, teamId, invitation.id);
+        return 'Invitation revoked.';
+      },
+      'Unable to revoke team invitation.',
+    );
+  };
+
+  const toggleTeamEventType = (teamEventTypeId: string, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      teamEventTypeIds: checked
+        ? [...prev.teamEventTypeIds, teamEventTypeId]
+        : prev.teamEventTypeIds.filter((id) => id !== teamEventTypeId),
+    }));
+  };
+
+  return (
+    <form className={styles.form} onSubmit={handleInvite}>
+      <h4>Invite by email</h4>
+      <p className={styles.helperText}>The invitee joins after accepting from the emailed link. Links expire after 7 days.</p>
+      <label className={styles.label}>
+        Email
+        <input className={styles.input} type="email" value={form.email} onChange={(event) => setForm((prev) => ({ ...prev, email: event.target.value }))} required />
+      </label>
+      <label className={styles.label}>
+        Role
+        <select className={styles.select} value={form.role} onChange={(event) => setForm((prev) => ({ ...prev, role: event.target.value as TeamMemberRole }))}>
+          <option value="member">member</option>
+          <option value="owner">owner</option>
+        </select>
+      </label>
+      {teamEventTypes.length > 0 ? (
+        <fieldset className={styles.checkboxGroup}>
+          <legend>Also add to team event types (optional)</legend>
+          {teamEventTypes.map((item) => (
+            <label key={item.id} className={styles.checkbox}>
+              <input type="checkbox" checked={form.teamEventTypeIds.includes(item.id)} onChange={(event) => toggleTeamEventType(item.id, event.target.checked)} />
+              {item.eventType.name} ({item.mode})
+            </label>
+          ))}
+        </fieldset>
+      ) : null}
+      <button type="submit" className={styles.primaryButton} disabled={isBusy('teamInvitationCreate')}>
+        {isBusy('teamInvitationCreate') ? 'Sending…' : 'Send invitation'}
+      </button>
+
+      {loadError ? <p className={styles.error}>{loadError}</p> : null}
+      {invitations.length === 0 ? (
+        <p className={styles.empty}>No invitations sent yet.</p>
+      ) : (
+        <ul>
+          {invitations.map((invitation) => (
+            <li key={invitation.id}>
+              {invitation.email} - {invitation.role} · <span className={styles.badge}>{invitation.state}</span>
+              {invitation.state === 'pending' || invitation.state === 'expired' ? (
+                <span className={styles.rowActions}>
+                  <button
+                    type="button"
+                    className={styles.ghostButton}
+                    onClick={() => void handleResend(invitation)}
+                    disabled={isBusy(`teamInvitationResend:${invitation.id}`)}
+                  >
+                    {isBusy(`teamInvitationResend:${invitation.id}`) ? 'Sending…' : 'Resend'}
+                  </button>
+                  <button
+                    type="button"
+                    className={styles.ghostButton}
+                    onClick={() => void handleRevoke(invitation)}
+                    disabled={isBusy(`teamInvitationRevoke:${invitation.id}`)}
+                  >
+                    Revoke
+                  </button>
+                </span>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      )}
+    </form>
+  );
+};
@@ -0,0 +1,166 @@
+'use client';
+
+import { organizerApi, type TeamMember, type TeamSummary } from '../../lib/organizer-api';
+import type { AuthSession } from '../../lib/auth-session';
+
+type OrganizerStyles = Record<string, string>;
+
+export type TeamActionProps = {
+  apiBaseUrl: string;
+  session: AuthSession | null;
+  team: TeamSummary;
+  isBusy: (action: string) => boolean;
+  beginBusy: (action: string) => void;
+  endBusy: (action: string) => void;
+  refreshTeamDetails: (teamId: string) => Promise<void>;
+  refreshOrganizerState: () => Promise<void>;
+  setPanelError: (message: string | null) => void;
+  setPanelMessage: (message: string | null) => void;
+  styles: OrganizerStyles;
+};
+
+export const createTeamActionRunner = ({
+  beginBusy,
+  endBusy,
+  setPanelError,
+  setPanelMessage,
+}: Pick<TeamActionProps, 'beginBusy' | 'endBusy' | 'setPanelError' | 'setPanelMessage'>) => {
+  return async (action: string, task: () => Promise<string>, fallbackError: string) => {
+    beginBusy(action);
+    setPanelError(null);
+    setPanelMessage(null);
+
+    try {
+      setPanelMessage(await task());
+    } catch (caught) {
+      setPanelError(caught instanceof Error ? caught.message : fallbackError);
+    } finally {
+      endBusy(action);
+    }
+  };
+};
+
+export const TeamMemberActions = ({ member, ...props }: TeamActionProps & { member: TeamMember }) => {
+  const { apiBaseUrl, session, team, isBusy, refreshTeamDetails, refreshOrganizerState, styles } = props;
+  const runAction = createTeamActionRunner(props);
+  const roleAction = `teamMemberRole:${member.userId}`;
+  const transferAction = `teamOwnershipTransfer:${member.userId}`;
+  const removeAction = `teamMemberRemove:${member.userId}`;
+
+  if (member.userId === team.ownerUserId) {
+    return <span className={styles.badge}>team owner</span>;
+  }
+
+  const handleRoleToggle = async () => {
+    if (!session) {
+      return;
+    }
+    const nextRole = member.role === 'owner' ? 'member' : 'owner';
+
+    await runAction(
+      roleAction,
+      async () => {
+        await organizerApi.updateTeamMemberRole(apiBaseUrl, session, team.id, member.userId, nextRole);
+        await refreshTeamDetails(team.id);
+        return `${member.user.displayName} is now ${nextRole === 'owner' ? 'an owner' : 'a member'}.`;
+      },
+      'Unable to change team member role.',
+    );
+  };
+
+  const handleTransfer = async () => {
+    if (
+      !session ||
+      !window.confirm(
+        `Make ${member.user.displayName} the owner of ${team.name}? You stay on the team as a member and lose owner controls.`,
+      )
+    ) {
+      return;
+    }
+
+    await runAction(
+      transferAction,
+      async () => {
+        await organizerApi.transferTeamOwnership(apiBaseUrl, session, team.id, member.userId);
+        await refreshOrganizerState();
+        return `${member.user.displayName} now owns ${team.name}.`;
+      },
+      'Unable to transfer team ownership.',
+    );
+  };
+
+  const handleRemove = async () => {
+    if (
+      !session ||
+      !window.confirm(
+        `Remove ${member.user.displayName} from ${team.name}? Their upcoming team bookings move to other members when someone is free; the rest are canceled and invitees are emailed.`,
+      )
+    ) {
+      return;
+    }
+
+    await runAction(
+      removeAction,
+      async () => {
+        const result = await organizerApi.removeTeamMember(apiBaseUrl, session, team.id, member.userId, 'reassign');
+        await refreshTeamDetails(team.id);
+        await refreshOrganizerState();
+        const { reassigned, canceled } = result.futureBookings;
+        return reassigned + canceled > 0
+          ? `${member.user.displayName} removed. ${reassigned} upcoming booking(s) reassigned, ${canceled} canceled.`
+          : `${member.user.displayName} removed.`;
+      },
+      'Unable to remove team member.',
+    );
+  };
+
+  return (
+    <span className={styles.rowActions}>
+      <button type="button" className={styles.ghostButton} onClick={() => void handleRoleToggle()} disabled={isBusy(roleAction)}>
+        {member.role === 'owner' ? 'Make member' : 'Make owner'}
+      </button>
+      <button type="button" className={styles.ghostButton} onClick={() => void handleTransfer()} disabled={isBusy(transferAction)}>
+        {isBusy(transferAction) ? 'Transferring…' : 'Transfer ownership'}
+      </button>
+      <button type="button" className={styles.ghostButton} onClick={() => void handleRemove()} disabled={isBusy(removeAction)}>
+        {isBusy(removeAction) ? 'Removing…' : 'Remove'}
+      </button>
+    </span>
+  );
+};
+
+export const TeamDeleteAction = (props: TeamActionProps) => {
+  const { apiBaseUrl, session, team, isBusy, refreshOrganizerState, styles } = props;
+  const runAction = createTeamActionRunner(props);
+  const deleteAction = `teamDelete:${team.id}`;
+
+  const handleDelete = async () => {
+    if (!session) {
+      return;
+    }
+    if (!window.confirm(`Delete ${team.name} permanently? Its team event types, members, and invitations are removed too.`)) {
+      return;
+    }
+    const cancelFutureBookings = window.confirm(
+      'If this team has upcoming bookings, cancel them and email each invitee? Choose Cancel to keep them and stop the delete.',
+    );
+
+    await runAction(
+      deleteAction,
+      async () => {
+        const result = await organizerApi.deleteTeam(apiBaseUrl, session, team.id, { cancelFutureBookings });
+        await refreshOrganizerState();
+        return result.canceledBookings > 0
+          ? `Team deleted. ${result.canceledBookings} upcoming booking(s) canceled and invitees notified.`
+          : 'Team deleted.';
+      },
+      'Unable to delete team.',
+    );
+  };
+
+  return (
+    <button type="button" className={styles.ghostButton} onClick={() => void handleDelete()} disabled={isBusy(deleteAction)}>
+      {isBusy(deleteAction) ? 'Deleting…' : 'Delete team'}
+    </button>
+  );
+};
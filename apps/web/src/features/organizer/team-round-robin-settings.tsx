@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+
+import { organizerApi, type TeamEventType, type TeamRoundRobinStrategy } from '../../lib/organizer-api';
+import { createTeamActionRunner, type TeamActionProps } from './team-member-actions';
+
+const STRATEGY_LABELS: Record<TeamRoundRobinStrategy, string> = {
+  strict: 'Strict rotation',
+  weighted: 'Weighted',
+  least_recently_booked: 'Least recently booked',
+  fewest_in_window: 'Fewest bookings in window',
+};
+
+export const TeamRoundRobinSettings = ({
+  teamEventType,
+  ...props
+}: TeamActionProps & { teamEventType: TeamEventType }) => {
+  const { apiBaseUrl, session, isBusy, refreshTeamDetails, team, styles } = props;
+  const runAction = createTeamActionRunner(props);
+  const action = `teamRoundRobin:${teamEventType.id}`;
+  const requiredMembers = teamEventType.members.filter((member) => member.isRequired);
+  const [strategy, setStrategy] = useState<TeamRoundRobinStrategy>(teamEventType.roundRobinStrategy);
+  const [windowDays, setWindowDays] = useState(String(teamEventType.roundRobinWindowDays));
+  const [weights, setWeights] = useState<Record<string, string>>(() =>
+    Object.fromEntries(requiredMembers.map((member) => [member.userId, String(member.weight)])),
+  );
+
+  const handleSave = async () => {
+    if (!session) {
+      return;
+    }
+
+    await runAction(
+      action,
+      async () => {
+        await organizerApi.updateTeamRoundRobinSettings(apiBaseUrl, session, teamEventType.id, {
+          strategy,
+          windowDays: Number.parseInt(windowDays, 10),
+          ...(strategy === 'weighted'
+            ? {
+                memberWeights: Object.fromEntries(
+                  Object.entries(weights).map(([userId, weight]) => [userId, Number.parseInt(weight, 10)]),
+                ),
+              }
+            : {}),
+        });
+        await refreshTeamDetails(team.id);
+        return `Round-robin settings saved for ${teamEventType.eventType.name}.`;
+      },
+      'Unable to save round-robin settings.',
+    );
+  };
+
+  return (
+    <div className={styles.form}>
+      <label className={styles.label}>
+        Distribution
+        <select
+          className={styles.select}
+          value={strategy}
+          onChange={(event) => setStrategy(event.target.value as TeamRoundRobinStrategy)}
+        >
+          {Object.entries(STRATEGY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {strategy === 'weighted' || strategy === 'fewest_in_window' ? (
+        <label className={styles.label}>
+          Look-back window (days)
+          <input
+            className={styles.input}
+            type="number"
+            min={1}
+            max={365}
+            value={windowDays}
+            onChange={(event) => setWindowDays(event.target.value)}
+          />
+        </label>
+      ) : null}
+      {strategy === 'weighted'
+        ? requiredMembers.map((member) => (
+            <label key={member.userId} className={styles.label}>
+              {member.user.displayName} weight
+              <input
+                className={styles.input}
+                type="number"
+                min={1}
+                max={100}
+                value={weights[member.userId] ?? '1'}
+                onChange={(event) => setWeights((prev) => ({ ...prev, [member.userId]: event.target.value }))}
+              />
+            </label>
+          ))
+        : null}
+      <button type="button" className={styles.secondaryButton} onClick={() => void handleSave()} disabled={isBusy(action)}>
+        {isBusy(action) ? 'Saving…' : 'Save distribution'}
+      </button>
+    </div>
+  );
+};
@@ -6,9 +6,13 @@ import {
   organizerApi,
   type TeamEventType,
   type TeamMember,
+  type TeamRoundRobinStrategy,
   type TeamSummary,
 } from '../../lib/organizer-api';
 import type { AuthSession } from '../../lib/auth-session';
+import { TeamInvitationsCard } from './team-invitations-card';
+import { TeamDeleteAction, TeamMemberActions } from './team-member-actions';
+import { TeamRoundRobinSettings } from './team-round-robin-settings';
 import { toNullableString } from './utils';
 
 type OrganizerStyles = Record<string, string>;
@@ -62,11 +66,17 @@ export const TeamsPanel = ({
     slug: '',
     durationMinutes: '30',
     mode: 'round_robin' as 'round_robin' | 'collective',
+    roundRobinStrategy: 'strict' as TeamRoundRobinStrategy,
     locationType: 'video' as 'video' | 'phone' | 'in_person' | 'custom',
     locationValue: '',
     requiredMemberUserIds: '',
+    optionalMemberUserIds: '',
   });
 
+  const teamActionProps = selectedTeam
+    ? { apiBaseUrl, session, team: selectedTeam, isBusy, beginBusy, endBusy, refreshTeamDetails, refreshOrganizerState, setPanelError, setPanelMessage, styles }
+    : null;
+
   const handleCreateTeam = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     if (!session) {
@@ -131,10 +141,14 @@ export const TeamsPanel = ({
     setPanelError(null);
     setPanelMessage(null);
 
-    const requiredMemberUserIds = teamEventTypeForm.requiredMemberUserIds
-      .split(',')
-      .map((userId) => userId.trim())
-      .filter(Boolean);
+    const toUserIds = (value: string) =>
+      value
+        .split(',')
+        .map((userId) => userId.trim())
+        .filter(Boolean);
+    const requiredMemberUserIds = toUserIds(teamEventTypeForm.requiredMemberUserIds);
+    const optionalMemberUserIds =
+      teamEventTypeForm.mode === 'collective' ? toUserIds(teamEventTypeForm.optionalMemberUserIds) : [];
 
     try {
       await organizerApi.createTeamEventType(apiBaseUrl, session, {
@@ -143,18 +157,22 @@ export const TeamsPanel = ({
         slug: teamEventTypeForm.slug.trim().toLowerCase(),
         durationMinutes: Number.parseInt(teamEventTypeForm.durationMinutes, 10),
         mode: teamEventTypeForm.mode,
+        ...(teamEventTypeForm.mode === 'round_robin' ? { roundRobinStrategy: teamEventTypeForm.roundRobinStrategy } : {}),
         locationType: teamEventTypeForm.locationType,
         locationValue: toNullableString(teamEventTypeForm.locationValue),
         ...(requiredMemberUserIds.length > 0 ? { requiredMemberUserIds } : {}),
+        ...(optionalMemberUserIds.length > 0 ? { optionalMemberUserIds } : {}),
       });
       setTeamEventTypeForm({
         name: '',
         slug: '',
         durationMinutes: '30',
         mode: 'round_robin',
+        roundRobinStrategy: 'strict',
         locationType: 'video',
         locationValue: '',
         requiredMemberUserIds: '',
+        optionalMemberUserIds: '',
       });
       setPanelMessage('Team event type created.');
       await refreshTeamDetails(selectedTeamId);
@@ -214,11 +232,26 @@ export const TeamsPanel = ({
 
       {selectedTeam ? (
         <div className={styles.teamPanel}>
-          <h3>Team details: {selectedTeam.name}</h3>
+          <div className={styles.itemHead}>
+            <h3>Team details: {selectedTeam.name}</h3>
+            {teamActionProps ? <TeamDeleteAction {...teamActionProps} /> : null}
+          </div>
           {teamDetailsLoading ? <p>Loading team members and event types…</p> : null}
           {teamDetailsError ? <p className={styles.error}>{teamDetailsError}</p> : null}
 
           <div className={styles.splitGrid}>
+            <TeamInvitationsCard
+              apiBaseUrl={apiBaseUrl}
+              session={session}
+              teamId={selectedTeam.id}
+              teamEventTypes={teamEventTypes}
+              isBusy={isBusy}
+              beginBusy={beginBusy}
+              endBusy={endBusy}
+              setPanelError={setPanelError}
+              setPanelMessage={setPanelMessage}
+              styles={styles}
+            />
             <form className={styles.form} onSubmit={handleAddTeamMember}>
               <h4>Add member</h4>
               <p className={styles.helperText}>Enter a user UUID. Seed users are created by `npm run db:seed`.</p>
@@ -243,6 +276,7 @@ export const TeamsPanel = ({
                   {teamMembers.map((member) => (
                     <li key={member.id}>
                       {member.user.displayName} ({member.user.email}) - {member.role}
+                      {teamActionProps ? <TeamMemberActions member={member} {...teamActionProps} /> : null}
                       <br />
                       <span className={styles.helperText}>{member.userId}</span>
                     </li>
@@ -272,6 +306,17 @@ export const TeamsPanel = ({
                   <option value="collective">collective</option>
                 </select>
               </label>
+              {teamEventTypeForm.mode === 'round_robin' ? (
+                <label className={styles.label}>
+                  Distribution
+                  <select className={styles.select} value={teamEventTypeForm.roundRobinStrategy} onChange={(event) => setTeamEventTypeForm((prev) => ({ ...prev, roundRobinStrategy: event.target.value as TeamRoundRobinStrategy }))}>
+                    <option value="strict">strict rotation</option>
+                    <option value="weighted">weighted</option>
+                    <option value="least_recently_booked">least recently booked</option>
+                    <option value="fewest_in_window">fewest bookings in window</option>
+                  </select>
+                </label>
+              ) : null}
               <label className={styles.label}>
                 Location type
                 <select className={styles.select} value={teamEventTypeForm.locationType} onChange={(event) => setTeamEventTypeForm((prev) => ({ ...prev, locationType: event.target.value as 'video' | 'phone' | 'in_person' | 'custom' }))}>
@@ -289,6 +334,12 @@ export const TeamsPanel = ({
                 Required member IDs (comma-separated, optional)
                 <input className={styles.input} value={teamEventTypeForm.requiredMemberUserIds} onChange={(event) => setTeamEventTypeForm((prev) => ({ ...prev, requiredMemberUserIds: event.target.value }))} placeholder="uuid-1, uuid-2" />
               </label>
+              {teamEventTypeForm.mode === 'collective' ? (
+                <label className={styles.label}>
+                  Optional member IDs (join when free, never block slots)
+                  <input className={styles.input} value={teamEventTypeForm.optionalMemberUserIds} onChange={(event) => setTeamEventTypeForm((prev) => ({ ...prev, optionalMemberUserIds: event.target.value }))} placeholder="uuid-3, uuid-4" />
+                </label>
+              ) : null}
               <button type="submit" className={styles.primaryButton} disabled={isBusy('teamEventTypeCreate')}>
                 {isBusy('teamEventTypeCreate') ? 'Creating…' : 'Create team event type'}
               </button>
@@ -305,7 +356,13 @@ export const TeamsPanel = ({
                       <p>
                         {item.eventType.slug} · {item.eventType.durationMinutes} min
                       </p>
-                      <p>Required members: {item.requiredMemberUserIds.length}</p>
+                      <p>
+                        Required members: {item.requiredMemberUserIds.length}
+                        {item.optionalMemberUserIds.length > 0 ? ` · Optional: ${item.optionalMemberUserIds.length}` : ''}
+                      </p>
+                      {item.mode === 'round_robin' && teamActionProps ? (
+                        <TeamRoundRobinSettings key={`${item.id}:${item.roundRobinStrategy}`} {...teamActionProps} teamEventType={item} />
+                      ) : null}
                     </article>
                   ))}
                 </div>
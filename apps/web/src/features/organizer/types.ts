@@ -1,7 +1,9 @@
 import type {
   AvailabilityOverride,
   AvailabilityRule,
+  AvailabilitySchedule,
   CalendarConnectionStatus,
+  CalendarFeedStatus,
   CalendarProvider,
   NotificationRule,
   OrganizerEventType,
@@ -31,11 +33,13 @@ export type OrganizerSectionsState = {
   eventTypes: OrganizerEventType[];
   availabilityRules: AvailabilityRule[];
   availabilityOverrides: AvailabilityOverride[];
+  availabilitySchedules: AvailabilitySchedule[];
   timeOffBlocks: TimeOffBlock[];
   teams: TeamSummary[];
   webhooks: OrganizerWebhook[];
   calendarStatuses: CalendarConnectionStatus[];
   availableCalendarProviders: CalendarProvider[];
+  calendarFeed: CalendarFeedStatus | null;
   writebackStatus: WritebackStatus | null;
 };
 
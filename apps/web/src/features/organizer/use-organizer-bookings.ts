@@ -0,0 +1,79 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import type { AuthSession } from '../../lib/auth-session';
+import {
+  organizerApi,
+  type OrganizerBooking,
+  type OrganizerBookingsFilters,
+} from '../../lib/organizer-api';
+
+type UseOrganizerBookingsInput = {
+  apiBaseUrl: string;
+  session: AuthSession | null;
+  filters: OrganizerBookingsFilters;
+};
+
+export const useOrganizerBookings = ({ apiBaseUrl, session, filters }: UseOrganizerBookingsInput) => {
+  const [bookings, setBookings] = useState<OrganizerBooking[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestIdRef = useRef(0);
+
+  const loadBookings = useCallback(
+    async (cursor: string | null) => {
+      if (!session) {
+        return;
+      }
+
+      const requestId = requestIdRef.current + 1;
+      requestIdRef.current = requestId;
+      setLoading(true);
+      setError(null);
+
+      try {
+        const payload = await organizerApi.listBookings(apiBaseUrl, session, filters, cursor);
+        if (requestId === requestIdRef.current) {
+          setBookings((previous) => (cursor ? [...previous, ...payload.bookings] : payload.bookings));
+          setNextCursor(payload.nextCursor);
+        }
+      } catch (caught) {
+        if (requestId === requestIdRef.current) {
+          if (!cursor) {
+            setBookings([]);
+            setNextCursor(null);
+          }
+          setError(caught instanceof Error ? caught.message : 'Unable to load bookings.');
+        }
+      } finally {
+        if (requestId === requestIdRef.current) {
+          setLoading(false);
+        }
+      }
+    },
+    [apiBaseUrl, filters, session],
+  );
+
+  const refreshBookings = useCallback(() => loadBookings(null), [loadBookings]);
+
+  const loadMoreBookings = useCallback(async () => {
+    if (nextCursor) {
+      await loadBookings(nextCursor);
+    }
+  }, [loadBookings, nextCursor]);
+
+  useEffect(() => {
+    void refreshBookings();
+  }, [refreshBookings]);
+
+  return {
+    bookings,
+    hasMoreBookings: nextCursor !== null,
+    bookingsLoading: loading,
+    bookingsError: error,
+    refreshBookings,
+    loadMoreBookings,
+  };
+};
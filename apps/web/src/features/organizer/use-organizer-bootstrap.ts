@@ -17,11 +17,13 @@ const emptyState: OrganizerSectionsState = {
   eventTypes: [],
   availabilityRules: [],
   availabilityOverrides: [],
+  availabilitySchedules: [],
   timeOffBlocks: [],
   teams: [],
   webhooks: [],
   calendarStatuses: [],
   availableCalendarProviders: [],
+  calendarFeed: null,
   writebackStatus: null,
 };
 
@@ -56,20 +58,24 @@ export const useOrganizerBootstrap = ({
         [
           eventTypePayload,
           availabilityPayload,
+          schedulePayload,
           timeOffPayload,
           teamPayload,
           webhookPayload,
           calendarPayload,
+          calendarFeedPayload,
           writebackPayload,
         ],
       ] = await Promise.all([
         Promise.all([
           organizerApi.listEventTypes(apiBaseUrl, session),
           organizerApi.getAvailability(apiBaseUrl, session),
+          organizerApi.listAvailabilitySchedules(apiBaseUrl, session),
           organizerApi.listTimeOffBlocks(apiBaseUrl, session),
           organizerApi.listTeams(apiBaseUrl, session),
           organizerApi.listWebhooks(apiBaseUrl, session),
           organizerApi.getCalendarSyncStatus(apiBaseUrl, session),
+          organizerApi.getCalendarFeed(apiBaseUrl, session),
           organizerApi.getWritebackStatus(apiBaseUrl, session),
         ]),
         refreshDemoQuotaPromise,
@@ -83,11 +89,13 @@ export const useOrganizerBootstrap = ({
         eventTypes: eventTypePayload.eventTypes,
         availabilityRules: availabilityPayload.rules,
         availabilityOverrides: availabilityPayload.overrides,
+        availabilitySchedules: schedulePayload.schedules,
         timeOffBlocks: timeOffPayload.timeOffBlocks,
         teams: teamPayload.teams,
         webhooks: webhookPayload.webhooks,
         calendarStatuses: calendarPayload.connections,
         availableCalendarProviders: calendarPayload.availableProviders,
+        calendarFeed: calendarFeedPayload.feed,
         writebackStatus: {
           summary: writebackPayload.summary,
           failures: writebackPayload.failures,
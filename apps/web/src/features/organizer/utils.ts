@@ -1,12 +1,17 @@
-import type { OrganizerEventType } from '../../lib/organizer-api';
+import type { BookingAnswerValue } from '@opencalendly/shared';
+
+import type { OrganizerEventQuestion, OrganizerEventType } from '../../lib/organizer-api';
 
 export const dayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
 export const organizerSections = [
   { id: 'event-types', label: 'Event types' },
+  { id: 'bookings', label: 'Bookings' },
+  { id: 'booking-requests', label: 'Approval queue' },
   { id: 'availability', label: 'Availability' },
   { id: 'time-off', label: 'Time off + holidays' },
   { id: 'teams', label: 'Teams' },
+  { id: 'routing-forms', label: 'Routing forms' },
   { id: 'webhooks', label: 'Webhooks' },
   { id: 'calendars', label: 'Calendars' },
   { id: 'profile', label: 'Profile' },
@@ -29,6 +34,16 @@ export const toNullableString = (value: string): string | null => {
   return trimmed.length > 0 ? trimmed : null;
 };
 
+export const formatBookingAnswer = (answer: BookingAnswerValue): string => {
+  if (Array.isArray(answer)) {
+    return answer.join(', ');
+  }
+  if (typeof answer === 'boolean') {
+    return answer ? 'Yes' : 'No';
+  }
+  return String(answer);
+};
+
 export const parseIntegerOrUndefined = (value: string): number | undefined => {
   const trimmed = value.trim();
   if (!trimmed || !/^\d+$/.test(trimmed)) {
@@ -149,5 +164,74 @@ export const buildDefaultEventTypeForm = () => ({
   durationMinutes: '30',
   locationType: 'video' as OrganizerEventType['locationType'],
   locationValue: '',
+  availabilityScheduleId: '',
+  minimumNoticeMinutes: '0',
+  bookingHorizonDays: '',
+  bufferBeforeMinutes: '0',
+  bufferAfterMinutes: '0',
+  slotIncrementMinutes: '',
+  priceCents: '',
+  currency: 'usd',
+  refundPolicy: 'full' as OrganizerEventType['refundPolicy'],
+  refundCutoffHours: '',
+  requiresConfirmation: false,
+  seatsPerSlot: '',
   isActive: true,
 });
+
+export type EventTypeForm = ReturnType<typeof buildDefaultEventTypeForm>;
+
+export const buildEventTypeFormFromEventType = (eventType: OrganizerEventType): EventTypeForm => ({
+  name: eventType.name,
+  slug: eventType.slug,
+  durationMinutes: String(eventType.durationMinutes),
+  locationType: eventType.locationType,
+  locationValue: eventType.locationValue ?? '',
+  availabilityScheduleId: eventType.availabilityScheduleId ?? '',
+  minimumNoticeMinutes: String(eventType.minimumNoticeMinutes),
+  bookingHorizonDays: eventType.bookingHorizonDays ? String(eventType.bookingHorizonDays) : '',
+  bufferBeforeMinutes: String(eventType.bufferBeforeMinutes),
+  bufferAfterMinutes: String(eventType.bufferAfterMinutes),
+  slotIncrementMinutes: eventType.slotIncrementMinutes ? String(eventType.slotIncrementMinutes) : '',
+  priceCents: eventType.priceCents ? String(eventType.priceCents) : '',
+  currency: eventType.currency ?? 'usd',
+  refundPolicy: eventType.refundPolicy,
+  refundCutoffHours: eventType.refundCutoffHours ? String(eventType.refundCutoffHours) : '',
+  requiresConfirmation: eventType.requiresConfirmation,
+  seatsPerSlot: eventType.seatsPerSlot ? String(eventType.seatsPerSlot) : '',
+  isActive: eventType.isActive,
+});
+
+// Blank horizon/increment inputs mean "no limit" and "default 15-minute grid" respectively.
+export const toEventTypeSchedulingBody = (form: EventTypeForm) => ({
+  minimumNoticeMinutes: parseIntegerOrUndefined(form.minimumNoticeMinutes) ?? 0,
+  bookingHorizonDays: parseIntegerOrUndefined(form.bookingHorizonDays) ?? null,
+  bufferBeforeMinutes: parseIntegerOrUndefined(form.bufferBeforeMinutes) ?? 0,
+  bufferAfterMinutes: parseIntegerOrUndefined(form.bufferAfterMinutes) ?? 0,
+  slotIncrementMinutes: parseIntegerOrUndefined(form.slotIncrementMinutes) ?? null,
+});
+
+// A blank price keeps the event type free; the API drops the currency along with it.
+export const toEventTypePaymentBody = (form: EventTypeForm) => {
+  const priceCents = parseIntegerOrUndefined(form.priceCents) ?? null;
+  return {
+    priceCents,
+    currency: priceCents === null ? null : form.currency.trim().toLowerCase(),
+    refundPolicy: form.refundPolicy,
+    refundCutoffHours: parseIntegerOrUndefined(form.refundCutoffHours) ?? null,
+  };
+};
+
+export const buildEventTypeCreateBody = (form: EventTypeForm, questions: OrganizerEventQuestion[]) => ({
+  name: form.name.trim(),
+  slug: form.slug.trim().toLowerCase(),
+  durationMinutes: Number.parseInt(form.durationMinutes, 10),
+  locationType: form.locationType,
+  locationValue: toNullableString(form.locationValue),
+  availabilityScheduleId: form.availabilityScheduleId || null,
+  questions,
+  ...toEventTypeSchedulingBody(form),
+  ...toEventTypePaymentBody(form),
+  requiresConfirmation: form.requiresConfirmation,
+  seatsPerSlot: parseIntegerOrUndefined(form.seatsPerSlot) ?? null,
+});
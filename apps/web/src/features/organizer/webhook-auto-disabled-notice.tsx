@@ -0,0 +1,81 @@
+'use client';
+
+import { organizerApi, type OrganizerWebhook } from '../../lib/organizer-api';
+import type { AuthSession } from '../../lib/auth-session';
+import { formatDateTime } from './utils';
+
+type OrganizerStyles = Record<string, string>;
+
+export const WebhookAutoDisabledNotice = ({
+  apiBaseUrl,
+  session,
+  webhookId,
+  autoDisabled,
+  refreshOrganizerState,
+  isBusy,
+  beginBusy,
+  endBusy,
+  setPanelError,
+  setPanelMessage,
+  styles,
+}: {
+  apiBaseUrl: string;
+  session: AuthSession | null;
+  webhookId: string;
+  autoDisabled: NonNullable<OrganizerWebhook['autoDisabled']>;
+  refreshOrganizerState: () => Promise<void>;
+  isBusy: (action: string) => boolean;
+  beginBusy: (action: string) => void;
+  endBusy: (action: string) => void;
+  setPanelError: (message: string | null) => void;
+  setPanelMessage: (message: string | null) => void;
+  styles: OrganizerStyles;
+}) => {
+  const action = `webhookReenable:${webhookId}`;
+
+  const handleReenable = async (replayBacklog: boolean) => {
+    if (!session) {
+      return;
+    }
+
+    beginBusy(action);
+    setPanelError(null);
+    setPanelMessage(null);
+
+    try {
+      const { backlog } = await organizerApi.updateWebhook(apiBaseUrl, session, webhookId, {
+        isActive: true,
+        replayBacklog,
+      });
+      const count = backlog?.count ?? 0;
+      setPanelMessage(
+        replayBacklog
+          ? `Webhook enabled. ${count} held deliveries will go out on the next delivery run.`
+          : `Webhook enabled. ${count} held deliveries were skipped.`,
+      );
+      await refreshOrganizerState();
+    } catch (caught) {
+      setPanelError(caught instanceof Error ? caught.message : 'Unable to enable webhook.');
+    } finally {
+      endBusy(action);
+    }
+  };
+
+  return (
+    <div className={styles.form}>
+      <p className={styles.error}>
+        Disabled automatically {formatDateTime(autoDisabled.disabledAt)}.
+        {autoDisabled.reason ? ` ${autoDisabled.reason}` : ''}
+      </p>
+      <p className={styles.helperText}>New events are held until you enable the webhook again.</p>
+      <div className={styles.inlineActions}>
+        <button type="button" className={styles.secondaryButton} onClick={() => void handleReenable(true)} disabled={isBusy(action)}>
+          {isBusy(action) ? 'Saving…' : 'Enable and deliver held events'}
+        </button>
+        <button type="button" className={styles.ghostButton} onClick={() => void handleReenable(false)} disabled={isBusy(action)}>
+          Enable and skip held events
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { WebhookDeliveryStatus, WebhookEventType } from '@opencalendly/shared';
+
+import {
+  organizerApi,
+  type OrganizerWebhookDelivery,
+  type OrganizerWebhookDeliveryFilters,
+} from '../../lib/organizer-api';
+import type { AuthSession } from '../../lib/auth-session';
+import { formatDateTime } from './utils';
+
+type OrganizerStyles = Record<string, string>;
+
+const deliveryStatusOptions: WebhookDeliveryStatus[] = ['pending', 'succeeded', 'failed'];
+
+const describeAttempt = (delivery: OrganizerWebhookDelivery): string => {
+  const attempts = `${delivery.attemptCount}/${delivery.maxAttempts} attempts`;
+  if (delivery.status === 'pending') {
+    return delivery.nextAttemptAt ? `${attempts} · next ${formatDateTime(delivery.nextAttemptAt)}` : attempts;
+  }
+  return delivery.lastAttemptAt ? `${attempts} · last ${formatDateTime(delivery.lastAttemptAt)}` : attempts;
+};
+
+export const WebhookDeliveryTimeline = ({
+  apiBaseUrl,
+  session,
+  webhookId,
+  events,
+  isBusy,
+  beginBusy,
+  endBusy,
+  setPanelError,
+  setPanelMessage,
+  styles,
+}: {
+  apiBaseUrl: string;
+  session: AuthSession | null;
+  webhookId: string;
+  events: WebhookEventType[];
+  isBusy: (action: string) => boolean;
+  beginBusy: (action: string) => void;
+  endBusy: (action: string) => void;
+  setPanelError: (message: string | null) => void;
+  setPanelMessage: (message: string | null) => void;
+  styles: OrganizerStyles;
+}) => {
+  const [filters, setFilters] = useState<OrganizerWebhookDeliveryFilters>({});
+  const [deliveries, setDeliveries] = useState<OrganizerWebhookDelivery[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadDeliveries = useCallback(
+    async (cursor?: string | null) => {
+      if (!session) {
+        return;
+      }
+      setLoading(true);
+      try {
+        const payload = await organizerApi.listWebhookDeliveries(apiBaseUrl, session, webhookId, filters, cursor);
+        setDeliveries((previous) => (cursor ? [...previous, ...payload.deliveries] : payload.deliveries));
+        setNextCursor(payload.nextCursor);
+      } catch (caught) {
+        setPanelError(caught instanceof Error ? caught.message : 'Unable to load webhook deliveries.');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [apiBaseUrl, filters, session, setPanelError, webhookId],
+  );
+
+  useEffect(() => {
+    void loadDeliveries();
+  }, [loadDeliveries]);
+
+  const handleReplay = async (deliveryId: string) => {
+    if (!session) {
+      return;
+    }
+
+    const action = `webhookReplay:${deliveryId}`;
+    beginBusy(action);
+    setPanelError(null);
+    setPanelMessage(null);
+
+    try {
+      await organizerApi.replayWebhookDelivery(apiBaseUrl, session, deliveryId);
+      setPanelMessage('Delivery queued again. Run the delivery worker to send it.');
+      await loadDeliveries();
+    } catch (caught) {
+      setPanelError(caught instanceof Error ? caught.message : 'Unable to replay webhook delivery.');
+    } finally {
+      endBusy(action);
+    }
+  };
+
+  return (
+    <div className={styles.form}>
+      <div className={styles.inlineActions}>
+        <label className={styles.labelCompact}>
+          Status
+          <select
+            className={styles.select}
+            value={filters.status ?? ''}
+            onChange={(event) =>
+              setFilters((prev) => ({
+                ...prev,
+                status: (event.target.value || undefined) as WebhookDeliveryStatus | undefined,
+              }))
+            }
+          >
+            <option value="">All</option>
+            {deliveryStatusOptions.map((status) => (
+              <option key={status} value={status}>
+                {status}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.labelCompact}>
+          Event
+          <select
+            className={styles.select}
+            value={filters.eventType ?? ''}
+            onChange={(event) =>
+              setFilters((prev) => ({
+                ...prev,
+                eventType: (event.target.value || undefined) as WebhookEventType | undefined,
+              }))
+            }
+          >
+            <option value="">All</option>
+            {events.map((eventType) => (
+              <option key={eventType} value={eventType}>
+                {eventType}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {deliveries.length === 0 ? (
+        <p className={styles.empty}>{loading ? 'Loading deliveries…' : 'No deliveries match these filters.'}</p>
+      ) : (
+        <ol className={styles.listGrid}>
+          {deliveries.map((delivery) => (
+            <li key={delivery.id} className={styles.itemCard}>
+              <div className={styles.itemHead}>
+                <strong>
+                  {formatDateTime(delivery.createdAt)} · {delivery.eventType}
+                </strong>
+                <span className={delivery.status === 'succeeded' ? styles.badgeSuccess : styles.badge}>
+                  {delivery.status}
+                </span>
+              </div>
+              <p className={styles.helperText}>
+                {describeAttempt(delivery)}
+                {delivery.lastResponseStatus !== null ? ` · HTTP ${delivery.lastResponseStatus}` : ''}
+              </p>
+              {delivery.lastError ? <p className={styles.error}>{delivery.lastError}</p> : null}
+              <details>
+                <summary>Payload</summary>
+                <pre>{JSON.stringify(delivery.payload, null, 2)}</pre>
+              </details>
+              {delivery.status !== 'pending' ? (
+                <button
+                  type="button"
+                  className={styles.ghostButton}
+                  onClick={() => void handleReplay(delivery.id)}
+                  disabled={isBusy(`webhookReplay:${delivery.id}`)}
+                >
+                  {isBusy(`webhookReplay:${delivery.id}`) ? 'Queueing…' : 'Replay'}
+                </button>
+              ) : null}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {nextCursor ? (
+        <button
+          type="button"
+          className={styles.secondaryButton}
+          onClick={() => void loadDeliveries(nextCursor)}
+          disabled={loading}
+        >
+          {loading ? 'Loading…' : 'Load older deliveries'}
+        </button>
+      ) : null}
+    </div>
+  );
+};
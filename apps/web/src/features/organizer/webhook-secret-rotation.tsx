@@ -0,0 +1,106 @@
+'use client';
+
+import { type FormEvent, useState } from 'react';
+
+import { organizerApi, type OrganizerWebhookSecretRotation } from '../../lib/organizer-api';
+import type { AuthSession } from '../../lib/auth-session';
+import { formatDateTime, parseIntegerOrUndefined } from './utils';
+
+type OrganizerStyles = Record<string, string>;
+
+const DEFAULT_GRACE_PERIOD_HOURS = '24';
+
+const describeSecretRotation = (rotation: OrganizerWebhookSecretRotation | null): string | null => {
+  if (!rotation) {
+    return null;
+  }
+  if (rotation.previousSecretExpiresAt) {
+    return `Secret rotated ${formatDateTime(rotation.rotatedAt)}. Deliveries carry both signatures until ${formatDateTime(rotation.previousSecretExpiresAt)}.`;
+  }
+  return `Secret rotated ${formatDateTime(rotation.rotatedAt)}. The previous secret no longer signs deliveries.`;
+};
+
+export const WebhookSecretRotation = ({
+  apiBaseUrl,
+  session,
+  webhookId,
+  secretRotation,
+  refreshOrganizerState,
+  isBusy,
+  beginBusy,
+  endBusy,
+  setPanelError,
+  setPanelMessage,
+  styles,
+}: {
+  apiBaseUrl: string;
+  session: AuthSession | null;
+  webhookId: string;
+  secretRotation: OrganizerWebhookSecretRotation | null;
+  refreshOrganizerState: () => Promise<void>;
+  isBusy: (action: string) => boolean;
+  beginBusy: (action: string) => void;
+  endBusy: (action: string) => void;
+  setPanelError: (message: string | null) => void;
+  setPanelMessage: (message: string | null) => void;
+  styles: OrganizerStyles;
+}) => {
+  const [secret, setSecret] = useState('');
+  const [gracePeriodHours, setGracePeriodHours] = useState(DEFAULT_GRACE_PERIOD_HOURS);
+  const action = `webhookRotate:${webhookId}`;
+  const rotationSummary = describeSecretRotation(secretRotation);
+
+  const handleRotate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!session) {
+      return;
+    }
+
+    const hours = parseIntegerOrUndefined(gracePeriodHours);
+    if (hours === undefined || hours < 1 || hours > 168) {
+      setPanelError('Grace period must be between 1 and 168 hours.');
+      return;
+    }
+
+    beginBusy(action);
+    setPanelError(null);
+    setPanelMessage(null);
+
+    try {
+      const payload = await organizerApi.rotateWebhookSecret(apiBaseUrl, session, webhookId, {
+        secret,
+        gracePeriodHours: hours,
+      });
+      setSecret('');
+      setGracePeriodHours(DEFAULT_GRACE_PERIOD_HOURS);
+      const expiresAt = payload.secretRotation.previousSecretExpiresAt;
+      setPanelMessage(
+        expiresAt
+          ? `Webhook secret rotated. The previous secret stays valid until ${formatDateTime(expiresAt)}.`
+          : 'Webhook secret rotated.',
+      );
+      await refreshOrganizerState();
+    } catch (caught) {
+      setPanelError(caught instanceof Error ? caught.message : 'Unable to rotate webhook secret.');
+    } finally {
+      endBusy(action);
+    }
+  };
+
+  return (
+    <form className={styles.inlineActions} onSubmit={handleRotate}>
+      {rotationSummary ? <p className={styles.helperText}>{rotationSummary}</p> : null}
+      <label className={styles.labelCompact}>
+        New secret
+        <input className={styles.input} type="password" autoComplete="new-password" value={secret} onChange={(event) => setSecret(event.target.value)} minLength={8} required />
+      </label>
+      <label className={styles.labelCompact}>
+        Grace (hours)
+        <input className={styles.input} value={gracePeriodHours} onChange={(event) => setGracePeriodHours(event.target.value)} inputMode="numeric" />
+      </label>
+      <button type="submit" className={styles.ghostButton} disabled={isBusy(action)}>
+        {isBusy(action) ? 'Rotating…' : 'Rotate secret'}
+      </button>
+    </form>
+  );
+};
@@ -1,13 +1,35 @@
 'use client';
 
-import { type FormEvent, useMemo, useState } from 'react';
+import { type FormEvent, useState } from 'react';
+import {
+  webhookBookingEventTypeSchema,
+  webhookEventTypeSchema,
+  type WebhookApiVersion,
+  type WebhookEventType,
+} from '@opencalendly/shared';
 
 import { organizerApi, type OrganizerWebhook } from '../../lib/organizer-api';
 import type { AuthSession } from '../../lib/auth-session';
 import { parseIntegerOrUndefined } from './utils';
+import { WebhookAutoDisabledNotice } from './webhook-auto-disabled-notice';
+import { WebhookDeliveryTimeline } from './webhook-delivery-timeline';
+import { WebhookSecretRotation } from './webhook-secret-rotation';
 
 type OrganizerStyles = Record<string, string>;
 
+// v1 subscriptions only carry booking events; the rest of the catalog needs v2 payloads.
+const webhookEventOptionsByVersion: Record<WebhookApiVersion, WebhookEventType[]> = {
+  v1: webhookBookingEventTypeSchema.options,
+  v2: webhookEventTypeSchema.options,
+};
+
+const buildWebhookForm = () => ({
+  url: '',
+  secret: '',
+  apiVersion: 'v2' as WebhookApiVersion,
+  events: ['booking.created'] as WebhookEventType[],
+});
+
 export const WebhooksPanel = ({
   apiBaseUrl,
   session,
@@ -31,28 +53,29 @@ export const WebhooksPanel = ({
   setPanelMessage: (message: string | null) => void;
   styles: OrganizerStyles;
 }) => {
-  const [webhookForm, setWebhookForm] = useState({
-    url: '',
-    secret: '',
-    bookingCreated: true,
-    bookingCanceled: false,
-    bookingRescheduled: false,
-  });
+  const [webhookForm, setWebhookForm] = useState(buildWebhookForm);
   const [webhookRunLimit, setWebhookRunLimit] = useState('20');
+  const [replayFailedSince, setReplayFailedSince] = useState('');
+  const [timelineWebhookId, setTimelineWebhookId] = useState<string | null>(null);
 
-  const selectedWebhookEvents = useMemo(() => {
-    const events: Array<'booking.created' | 'booking.canceled' | 'booking.rescheduled'> = [];
-    if (webhookForm.bookingCreated) {
-      events.push('booking.created');
-    }
-    if (webhookForm.bookingCanceled) {
-      events.push('booking.canceled');
-    }
-    if (webhookForm.bookingRescheduled) {
-      events.push('booking.rescheduled');
-    }
-    return events;
-  }, [webhookForm.bookingCanceled, webhookForm.bookingCreated, webhookForm.bookingRescheduled]);
+  const webhookEventOptions = webhookEventOptionsByVersion[webhookForm.apiVersion];
+
+  const toggleWebhookEvent = (eventType: WebhookEventType, checked: boolean) => {
+    setWebhookForm((prev) => ({
+      ...prev,
+      events: webhookEventOptions.filter((option) =>
+        option === eventType ? checked : prev.events.includes(option),
+      ),
+    }));
+  };
+
+  const changeWebhookApiVersion = (apiVersion: WebhookApiVersion) => {
+    setWebhookForm((prev) => ({
+      ...prev,
+      apiVersion,
+      events: prev.events.filter((option) => webhookEventOptionsByVersion[apiVersion].includes(option)),
+    }));
+  };
 
   const handleCreateWebhook = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
@@ -66,7 +89,7 @@ export const WebhooksPanel = ({
     setPanelMessage(null);
 
     try {
-      if (selectedWebhookEvents.length === 0) {
+      if (webhookForm.events.length === 0) {
         setPanelError('Select at least one webhook event.');
         return;
       }
@@ -74,15 +97,10 @@ export const WebhooksPanel = ({
       await organizerApi.createWebhook(apiBaseUrl, session, {
         url: webhookForm.url.trim(),
         secret: webhookForm.secret,
-        events: selectedWebhookEvents,
-      });
-      setWebhookForm({
-        url: '',
-        secret: '',
-        bookingCreated: true,
-        bookingCanceled: false,
-        bookingRescheduled: false,
+        events: webhookForm.events,
+        apiVersion: webhookForm.apiVersion,
       });
+      setWebhookForm(buildWebhookForm());
       setPanelMessage('Webhook created.');
       await refreshOrganizerState();
     } catch (caught) {
@@ -113,6 +131,53 @@ export const WebhooksPanel = ({
     }
   };
 
+  const handleUpgradeWebhook = async (webhookId: string) => {
+    if (!session) {
+      return;
+    }
+
+    const action = `webhookUpgrade:${webhookId}`;
+    beginBusy(action);
+    setPanelError(null);
+    setPanelMessage(null);
+
+    try {
+      await organizerApi.updateWebhook(apiBaseUrl, session, webhookId, { apiVersion: 'v2' });
+      setPanelMessage('Webhook now receives v2 payloads.');
+      await refreshOrganizerState();
+    } catch (caught) {
+      setPanelError(caught instanceof Error ? caught.message : 'Unable to change webhook payload version.');
+    } finally {
+      endBusy(action);
+    }
+  };
+
+  const handleSendTestPing = async (webhookId: string) => {
+    if (!session) {
+      return;
+    }
+
+    const action = `webhookTest:${webhookId}`;
+    beginBusy(action);
+    setPanelError(null);
+    setPanelMessage(null);
+
+    try {
+      const { ping } = await organizerApi.sendWebhookTestPing(apiBaseUrl, session, webhookId);
+      const timing = ping.latencyMs !== null ? ` in ${ping.latencyMs} ms` : '';
+      const snippet = ping.responseBodySnippet ? ` Response: ${ping.responseBodySnippet}` : '';
+      if (ping.delivered) {
+        setPanelMessage(`Test ping delivered (HTTP ${ping.responseStatus})${timing}.${snippet}`);
+      } else {
+        setPanelError(`Test ping failed${timing}: ${ping.error ?? 'no response'}.${snippet}`);
+      }
+    } catch (caught) {
+      setPanelError(caught instanceof Error ? caught.message : 'Unable to send webhook test ping.');
+    } finally {
+      endBusy(action);
+    }
+  };
+
   const handleRunWebhookDeliveries = async () => {
     if (!session) {
       return;
@@ -140,6 +205,34 @@ export const WebhooksPanel = ({
     }
   };
 
+  const handleReplayFailedDeliveries = async () => {
+    if (!session) {
+      return;
+    }
+
+    const since = new Date(replayFailedSince);
+    if (!replayFailedSince || Number.isNaN(since.getTime())) {
+      setPanelError('Pick when to redeliver failed webhooks from.');
+      return;
+    }
+
+    const action = 'webhookReplayFailed';
+    beginBusy(action);
+    setPanelError(null);
+    setPanelMessage(null);
+
+    try {
+      const payload = await organizerApi.replayFailedWebhookDeliveries(apiBaseUrl, session, {
+        since: since.toISOString(),
+      });
+      setPanelMessage(`Queued ${payload.replayed} failed deliveries again. Run the delivery worker to send them.`);
+    } catch (caught) {
+      setPanelError(caught instanceof Error ? caught.message : 'Unable to redeliver failed webhooks.');
+    } finally {
+      endBusy(action);
+    }
+  };
+
   return (
     <div className={styles.splitGrid}>
       <form className={styles.form} onSubmit={handleCreateWebhook}>
@@ -152,20 +245,21 @@ export const WebhooksPanel = ({
           Secret
           <input className={styles.input} type="password" autoComplete="new-password" value={webhookForm.secret} onChange={(event) => setWebhookForm((prev) => ({ ...prev, secret: event.target.value }))} minLength={8} required />
         </label>
+        <label className={styles.label}>
+          Payload version
+          <select className={styles.select} value={webhookForm.apiVersion} onChange={(event) => changeWebhookApiVersion(event.target.value as WebhookApiVersion)}>
+            <option value="v2">v2: expanded objects, all events</option>
+            <option value="v1">v1: flat booking payloads</option>
+          </select>
+        </label>
         <fieldset className={styles.checkboxGroup}>
           <legend>Events</legend>
-          <label className={styles.checkbox}>
-            <input type="checkbox" checked={webhookForm.bookingCreated} onChange={(event) => setWebhookForm((prev) => ({ ...prev, bookingCreated: event.target.checked }))} />
-            booking.created
-          </label>
-          <label className={styles.checkbox}>
-            <input type="checkbox" checked={webhookForm.bookingCanceled} onChange={(event) => setWebhookForm((prev) => ({ ...prev, bookingCanceled: event.target.checked }))} />
-            booking.canceled
-          </label>
-          <label className={styles.checkbox}>
-            <input type="checkbox" checked={webhookForm.bookingRescheduled} onChange={(event) => setWebhookForm((prev) => ({ ...prev, bookingRescheduled: event.target.checked }))} />
-            booking.rescheduled
-          </label>
+          {webhookEventOptions.map((eventType) => (
+            <label key={eventType} className={styles.checkbox}>
+              <input type="checkbox" checked={webhookForm.events.includes(eventType)} onChange={(event) => toggleWebhookEvent(eventType, event.target.checked)} />
+              {eventType}
+            </label>
+          ))}
         </fieldset>
         <button type="submit" className={styles.primaryButton} disabled={isBusy('webhookCreate')}>
           {isBusy('webhookCreate') ? 'Creating…' : 'Create webhook'}
@@ -179,6 +273,15 @@ export const WebhooksPanel = ({
             {isBusy('webhookRun') ? 'Running…' : 'Run delivery worker'}
           </button>
         </div>
+        <div className={styles.inlineActions}>
+          <label className={styles.labelCompact}>
+            Failed since
+            <input className={styles.input} type="datetime-local" value={replayFailedSince} onChange={(event) => setReplayFailedSince(event.target.value)} />
+          </label>
+          <button type="button" className={styles.secondaryButton} onClick={() => void handleReplayFailedDeliveries()} disabled={isBusy('webhookReplayFailed')}>
+            {isBusy('webhookReplayFailed') ? 'Queueing…' : 'Redeliver failed'}
+          </button>
+        </div>
       </form>
 
       <div className={styles.form}>
@@ -191,12 +294,70 @@ export const WebhooksPanel = ({
               <article key={webhook.id} className={styles.itemCard}>
                 <div className={styles.itemHead}>
                   <strong>{webhook.url}</strong>
-                  <span className={styles.badge}>{webhook.isActive ? 'active' : 'inactive'}</span>
+                  <span className={styles.badge}>{webhook.isActive ? 'active' : webhook.autoDisabled ? 'auto-disabled' : 'inactive'}</span>
                 </div>
                 <p>Events: {webhook.events.join(', ')}</p>
-                <button type="button" className={styles.ghostButton} onClick={() => void handleToggleWebhookActive(webhook.id, webhook.isActive)} disabled={isBusy(`webhookToggle:${webhook.id}`)}>
-                  {isBusy(`webhookToggle:${webhook.id}`) ? 'Saving…' : webhook.isActive ? 'Disable' : 'Enable'}
+                <p className={styles.helperText}>Payload version: {webhook.apiVersion}</p>
+                {webhook.isActive && webhook.consecutiveFailureCount > 0 ? (
+                  <p className={styles.helperText}>Failing: {webhook.consecutiveFailureCount} deliveries in a row used up every retry.</p>
+                ) : null}
+                {webhook.autoDisabled && !webhook.isActive ? (
+                  <WebhookAutoDisabledNotice
+                    apiBaseUrl={apiBaseUrl}
+                    session={session}
+                    webhookId={webhook.id}
+                    autoDisabled={webhook.autoDisabled}
+                    refreshOrganizerState={refreshOrganizerState}
+                    isBusy={isBusy}
+                    beginBusy={beginBusy}
+                    endBusy={endBusy}
+                    setPanelError={setPanelError}
+                    setPanelMessage={setPanelMessage}
+                    styles={styles}
+                  />
+                ) : (
+                  <button type="button" className={styles.ghostButton} onClick={() => void handleToggleWebhookActive(webhook.id, webhook.isActive)} disabled={isBusy(`webhookToggle:${webhook.id}`)}>
+                    {isBusy(`webhookToggle:${webhook.id}`) ? 'Saving…' : webhook.isActive ? 'Disable' : 'Enable'}
+                  </button>
+                )}
+                {webhook.apiVersion === 'v1' ? (
+                  <button type="button" className={styles.ghostButton} onClick={() => void handleUpgradeWebhook(webhook.id)} disabled={isBusy(`webhookUpgrade:${webhook.id}`)}>
+                    {isBusy(`webhookUpgrade:${webhook.id}`) ? 'Saving…' : 'Switch to v2 payloads'}
+                  </button>
+                ) : null}
+                <button type="button" className={styles.ghostButton} onClick={() => void handleSendTestPing(webhook.id)} disabled={isBusy(`webhookTest:${webhook.id}`)}>
+                  {isBusy(`webhookTest:${webhook.id}`) ? 'Pinging…' : 'Send test ping'}
+                </button>
+                <WebhookSecretRotation
+                  apiBaseUrl={apiBaseUrl}
+                  session={session}
+                  webhookId={webhook.id}
+                  secretRotation={webhook.secretRotation}
+                  refreshOrganizerState={refreshOrganizerState}
+                  isBusy={isBusy}
+                  beginBusy={beginBusy}
+                  endBusy={endBusy}
+                  setPanelError={setPanelError}
+                  setPanelMessage={setPanelMessage}
+                  styles={styles}
+                />
+                <button type="button" className={styles.ghostButton} onClick={() => setTimelineWebhookId((current) => (current === webhook.id ? null : webhook.id))}>
+                  {timelineWebhookId === webhook.id ? 'Hide deliveries' : 'Deliveries'}
                 </button>
+                {timelineWebhookId === webhook.id ? (
+                  <WebhookDeliveryTimeline
+                    apiBaseUrl={apiBaseUrl}
+                    session={session}
+                    webhookId={webhook.id}
+                    events={webhook.events}
+                    isBusy={isBusy}
+                    beginBusy={beginBusy}
+                    endBusy={endBusy}
+                    setPanelError={setPanelError}
+                    setPanelMessage={setPanelMessage}
+                    styles={styles}
+                  />
+                ) : null}
               </article>
             ))}
           </div>
@@ -0,0 +1,50 @@
+import { authedGetJson, authedPostJson } from '../../lib/api-client';
+import type { AuthSession } from '../../lib/auth-session';
+
+export type TeamInvitationView = {
+  email: string;
+  role: 'owner' | 'member';
+  state: 'pending' | 'expired' | 'accepted' | 'declined' | 'revoked';
+  expiresAt: string;
+  teamEventTypeCount: number;
+  team: { name: string; slug: string };
+  inviter: { displayName: string };
+};
+
+const invitationUrl = (apiBaseUrl: string, token: string, action?: 'accept' | 'decline') => {
+  const base = `${apiBaseUrl}/v0/team-invitations/${encodeURIComponent(token)}`;
+  return action ? `${base}/${action}` : base;
+};
+
+export const teamInvitationApi = {
+  getInvitation: async (apiBaseUrl: string, token: string) => {
+    return authedGetJson<{ ok: true; invitation: TeamInvitationView }>({
+      url: invitationUrl(apiBaseUrl, token),
+      session: null,
+      fallbackError: 'Unable to load this invitation.',
+    });
+  },
+
+  acceptInvitation: async (apiBaseUrl: string, session: AuthSession | null, token: string) => {
+    return authedPostJson<{
+      ok: true;
+      team: { id: string; name: string; slug: string };
+      role: 'owner' | 'member';
+      addedTeamEventTypeIds: string[];
+    }>({
+      url: invitationUrl(apiBaseUrl, token, 'accept'),
+      session,
+      body: {},
+      fallbackError: 'Unable to accept this invitation.',
+    });
+  },
+
+  declineInvitation: async (apiBaseUrl: string, session: AuthSession | null, token: string) => {
+    return authedPostJson<{ ok: true; team: { name: string; slug: string } }>({
+      url: invitationUrl(apiBaseUrl, token, 'decline'),
+      session,
+      body: {},
+      fallbackError: 'Unable to decline this invitation.',
+    });
+  },
+};
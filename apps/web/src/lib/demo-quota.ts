@@ -17,6 +17,7 @@ export type DemoFeatureCostKey =
   | 'webhook_create'
   | 'webhook_update'
   | 'webhook_run'
+  | 'webhook_test'
   | 'calendar_connect'
   | 'calendar_sync'
   | 'writeback_run'
@@ -1,7 +1,21 @@
-import { authedDeleteJson, authedGetJson, authedPostJson, authedPutJson } from '../api-client';
+import {
+  authedDeleteJson,
+  authedGetJson,
+  authedPatchJson,
+  authedPostJson,
+  authedPutJson,
+} from '../api-client';
 import type { AuthSession } from '../auth-session';
 import { organizerApiFallback as fallback } from './fallback';
-import type { AvailabilityOverride, AvailabilityRule, TimeOffBlock } from './types';
+import type { AvailabilityOverride, AvailabilityRule, AvailabilitySchedule, TimeOffBlock } from './types';
+
+type AvailabilityRuleBody = {
+  dayOfWeek: number;
+  startMinute: number;
+  endMinute: number;
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+};
 
 export const organizerAvailabilityApi = {
   getAvailability: async (apiBaseUrl: string, session: AuthSession | null) => {
@@ -19,13 +33,7 @@ export const organizerAvailabilityApi = {
   replaceAvailabilityRules: async (
     apiBaseUrl: string,
     session: AuthSession | null,
-    rules: Array<{
-      dayOfWeek: number;
-      startMinute: number;
-      endMinute: number;
-      bufferBeforeMinutes: number;
-      bufferAfterMinutes: number;
-    }>,
+    rules: AvailabilityRuleBody[],
   ) => {
     return authedPutJson<{ ok: true; count: number }>({
       url: `${apiBaseUrl}/v0/me/availability/rules`,
@@ -53,6 +61,53 @@ export const organizerAvailabilityApi = {
     });
   },
 
+  listAvailabilitySchedules: async (apiBaseUrl: string, session: AuthSession | null) => {
+    return authedGetJson<{ ok: true; schedules: AvailabilitySchedule[] }>({
+      url: `${apiBaseUrl}/v0/me/availability/schedules`,
+      session,
+      fallbackError: fallback.availabilitySchedulesList,
+    });
+  },
+
+  createAvailabilitySchedule: async (
+    apiBaseUrl: string,
+    session: AuthSession | null,
+    body: { name: string; rules: AvailabilityRuleBody[] },
+  ) => {
+    return authedPostJson<{ ok: true; schedule: { id: string; name: string; count: number } }>({
+      url: `${apiBaseUrl}/v0/me/availability/schedules`,
+      session,
+      body,
+      fallbackError: fallback.availabilityScheduleCreate,
+    });
+  },
+
+  updateAvailabilitySchedule: async (
+    apiBaseUrl: string,
+    session: AuthSession | null,
+    scheduleId: string,
+    body: Partial<{ name: string; rules: AvailabilityRuleBody[] }>,
+  ) => {
+    return authedPatchJson<{ ok: true; schedule: { id: string; name: string } }>({
+      url: `${apiBaseUrl}/v0/me/availability/schedules/${encodeURIComponent(scheduleId)}`,
+      session,
+      body,
+      fallbackError: fallback.availabilityScheduleUpdate,
+    });
+  },
+
+  deleteAvailabilitySchedule: async (
+    apiBaseUrl: string,
+    session: AuthSession | null,
+    scheduleId: string,
+  ) => {
+    return authedDeleteJson<{ ok: true; deletedId: string }>({
+      url: `${apiBaseUrl}/v0/me/availability/schedules/${encodeURIComponent(scheduleId)}`,
+      session,
+      fallbackError: fallback.availabilityScheduleDelete,
+    });
+  },
+
   listTimeOffBlocks: async (apiBaseUrl: string, session: AuthSession | null) => {
     return authedGetJson<{ ok: true; timeOffBlocks: TimeOffBlock[] }>({
       url: `${apiBaseUrl}/v0/me/time-off`,
@@ -0,0 +1,133 @@
+import { authedGetJson, authedPostJson } from '../api-client';
+import type { AuthSession } from '../auth-session';
+import { organizerApiFallback as fallback } from './fallback';
+import type {
+  OrganizerBooking,
+  OrganizerBookingRequest,
+  OrganizerBookingsFilters,
+  OrganizerBookingsStatus,
+} from './types';
+
+export const organizerBookingsApi = {
+  listBookings: async (
+    apiBaseUrl: string,
+    session: AuthSession | null,
+    filters: OrganizerBookingsFilters,
+    cursor?: string | null,
+  ) => {
+    const params = new URLSearchParams({ status: filters.status });
+    if (filters.startDate) {
+      params.set('startDate', filters.startDate);
+    }
+    if (filters.endDate) {
+      params.set('endDate', filters.endDate);
+    }
+    if (filters.eventTypeId) {
+      params.set('eventTypeId', filters.eventTypeId);
+    }
+    if (filters.q) {
+      params.set('q', filters.q);
+    }
+    if (cursor) {
+      params.set('cursor', cursor);
+    }
+
+    return authedGetJson<{
+      ok: true;
+      status: OrganizerBookingsStatus;
+      bookings: OrganizerBooking[];
+      nextCursor: string | null;
+    }>({
+      url: `${apiBaseUrl}/v0/me/bookings?${params.toString()}`,
+      session,
+      fallbackError: fallback.bookingsList,
+    });
+  },
+
+  cancelBooking: async (
+    apiBaseUrl: string,
+    session: AuthSession | null,
+    bookingId: string,
+    body: { reason?: string | null },
+  ) => {
+    return authedPostJson<{
+      ok: true;
+      booking: { id: string; status: string; canceledBy: 'organizer' };
+      rebookUrl: string;
+    }>({
+      url: `${apiBaseUrl}/v0/me/bookings/${encodeURIComponent(bookingId)}/cancel`,
+      session,
+      body,
+      fallbackError: fallback.bookingCancel,
+    });
+  },
+
+  markBookingNoShow: async (apiBaseUrl: string, session: AuthSession | null, bookingId: string) => {
+    return authedPostJson<{
+      ok: true;
+      booking: { id: string; status: string; noShowAt: string | null };
+      alreadyMarked: boolean;
+    }>({
+      url: `${apiBaseUrl}/v0/me/bookings/${encodeURIComponent(bookingId)}/no-show`,
+      session,
+      body: {},
+      fallbackError: fallback.bookingNoShow,
+    });
+  },
+
+  rescheduleBooking: async (
+    apiBaseUrl: string,
+    session: AuthSession | null,
+    bookingId: string,
+    body: { startsAt: string; timezone?: string },
+  ) => {
+    return authedPostJson<{
+      ok: true;
+      oldBooking: { id: string; status: string };
+      newBooking: {
+        id: string;
+        status: 'confirmed';
+        rescheduledFromBookingId: string;
+        organizerId: string;
+        startsAt: string;
+        endsAt: string;
+      };
+    }>({
+      url: `${apiBaseUrl}/v0/me/bookings/${encodeURIComponent(bookingId)}/reschedule`,
+      session,
+      body,
+      fallbackError: fallback.bookingReschedule,
+    });
+  },
+
+  listBookingRequests: async (apiBaseUrl: string, session: AuthSession | null) => {
+    return authedGetJson<{ ok: true; requests: OrganizerBookingRequest[] }>({
+      url: `${apiBaseUrl}/v0/me/booking-requests`,
+      session,
+      fallbackError: fallback.bookingRequestsList,
+    });
+  },
+
+  approveBookingRequest: async (apiBaseUrl: string, session: AuthSession | null, bookingId: string) => {
+    return authedPostJson<{ ok: true; booking: { id: string; status: 'confirmed' } }>({
+      url: `${apiBaseUrl}/v0/me/booking-requests/${encodeURIComponent(bookingId)}/approve`,
+      session,
+      body: {},
+      fallbackError: fallback.bookingRequestApprove,
+    });
+  },
+
+  declineBookingRequest: async (
+    apiBaseUrl: string,
+    session: AuthSession | null,
+    bookingId: string,
+    body: { reason?: string | null },
+  ) => {
+    return authedPostJson<{ ok: true; booking: { id: string; status: 'declined' }; rebookUrl: string }>({
+      url: `${apiBaseUrl}/v0/me/booking-requests/${encodeURIComponent(bookingId)}/decline`,
+      session,
+      body,
+      fallbackError: fallback.bookingRequestDecline,
+    });
+  },
+};
@@ -1,7 +1,7 @@
-import { authedGetJson, authedPatchJson, authedPostJson } from '../api-client';
+import { authedDeleteJson, authedGetJson, authedPatchJson, authedPostJson } from '../api-client';
 import type { AuthSession } from '../auth-session';
 import { organizerApiFallback as fallback } from './fallback';
-import type { CalendarConnectionStatus, CalendarProvider, WritebackStatus } from './types';
+import type { CalendarConnectionStatus, CalendarFeedStatus, CalendarProvider, WritebackStatus } from './types';
 
 export const organizerCalendarApi = {
   getCalendarSyncStatus: async (apiBaseUrl: string, session: AuthSession | null) => {
@@ -94,6 +94,26 @@ export const organizerCalendarApi = {
     });
   },
 
+  connectCaldav: async (
+    apiBaseUrl: string,
+    session: AuthSession | null,
+    body: {
+      calendarUrl: string;
+      username: string;
+      password: string;
+    },
+  ) => {
+    return authedPostJson<{
+      ok: true;
+      connection: CalendarConnectionStatus;
+    }>({
+      url: `${apiBaseUrl}/v0/calendar/caldav/connect`,
+      session,
+      body,
+      fallbackError: fallback.calendarCaldavConnect,
+    });
+  },
+
   disconnectConnection: async (
     apiBaseUrl: string,
     session: AuthSession | null,
@@ -122,7 +142,7 @@ export const organizerCalendarApi = {
   ) => {
     return authedPostJson<{
       ok: true;
-      provider: 'google' | 'microsoft';
+      provider: CalendarProvider;
       syncWindow: {
         startIso: string;
         endIso: string;
@@ -160,6 +180,31 @@ export const organizerCalendarApi = {
     });
   },
 
+  getCalendarFeed: async (apiBaseUrl: string, session: AuthSession | null) => {
+    return authedGetJson<{ ok: true; feed: CalendarFeedStatus }>({
+      url: `${apiBaseUrl}/v0/me/calendar-feed`,
+      session,
+      fallbackError: fallback.calendarFeedStatus,
+    });
+  },
+
+  createCalendarFeed: async (apiBaseUrl: string, session: AuthSession | null) => {
+    return authedPostJson<{ ok: true; feedUrl: string; feed: CalendarFeedStatus }>({
+      url: `${apiBaseUrl}/v0/me/calendar-feed`,
+      session,
+      body: {},
+      fallbackError: fallback.calendarFeedCreate,
+    });
+  },
+
+  revokeCalendarFeed: async (apiBaseUrl: string, session: AuthSession | null) => {
+    return authedDeleteJson<{ ok: true; revoked: boolean }>({
+      url: `${apiBaseUrl}/v0/me/calendar-feed`,
+      session,
+      fallbackError: fallback.calendarFeedRevoke,
+    });
+  },
+
   getWritebackStatus: async (apiBaseUrl: string, session: AuthSession | null) => {
     return authedGetJson<{ ok: true } & WritebackStatus>({
       url: `${apiBaseUrl}/v0/calendar/writeback/status`,
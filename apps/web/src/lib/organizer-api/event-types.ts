@@ -1,7 +1,12 @@
-import { authedGetJson, authedPatchJson, authedPostJson, authedPutJson } from '../api-client';
+import { authedDeleteJson, authedGetJson, authedPatchJson, authedPostJson, authedPutJson } from '../api-client';
 import type { AuthSession } from '../auth-session';
 import { organizerApiFallback as fallback } from './fallback';
-import type { NotificationRule, OrganizerEventQuestion, OrganizerEventType } from './types';
+import type {
+  EventTypeArchiveState,
+  NotificationRule,
+  OrganizerEventQuestion,
+  OrganizerEventType,
+} from './types';
 
 export const organizerEventTypesApi = {
   listEventTypes: async (apiBaseUrl: string, session: AuthSession | null) => {
@@ -25,6 +30,18 @@ export const organizerEventTypesApi = {
       locationType: 'video' | 'phone' | 'in_person' | 'custom';
       locationValue?: string | null;
       questions?: OrganizerEventQuestion[];
+      availabilityScheduleId?: string | null;
+      minimumNoticeMinutes?: number;
+      bookingHorizonDays?: number | null;
+      bufferBeforeMinutes?: number;
+      bufferAfterMinutes?: number;
+      slotIncrementMinutes?: number | null;
+      priceCents?: number | null;
+      currency?: string | null;
+      refundPolicy?: 'full' | 'none';
+      refundCutoffHours?: number | null;
+      requiresConfirmation?: boolean;
+      seatsPerSlot?: number | null;
     },
   ) => {
     return authedPostJson<{ ok: true; eventType: OrganizerEventType }>({
@@ -49,6 +66,18 @@ export const organizerEventTypesApi = {
       locationType: 'video' | 'phone' | 'in_person' | 'custom';
       locationValue: string | null;
       questions: OrganizerEventQuestion[];
+      availabilityScheduleId: string | null;
+      minimumNoticeMinutes: number;
+      bookingHorizonDays: number | null;
+      bufferBeforeMinutes: number;
+      bufferAfterMinutes: number;
+      slotIncrementMinutes: number | null;
+      priceCents: number | null;
+      currency: string | null;
+      refundPolicy: 'full' | 'none';
+      refundCutoffHours: number | null;
+      requiresConfirmation: boolean;
+      seatsPerSlot: number | null;
       isActive: boolean;
     }>,
   ) => {
@@ -60,6 +89,64 @@ export const organizerEventTypesApi = {
     });
   },
 
+  duplicateEventType: async (
+    apiBaseUrl: string,
+    session: AuthSession | null,
+    eventTypeId: string,
+    body: { name?: string; slug?: string } = {},
+  ) => {
+    return authedPostJson<{
+      ok: true;
+      eventType: Omit<OrganizerEventType, 'archivedAt' | 'createdAt'>;
+      duplicatedFromEventTypeId: string;
+      notificationRules: { copied: number };
+      teamEventType: { id: string; teamId: string; mode: string; memberCount: number } | null;
+    }>({
+      url: `${apiBaseUrl}/v0/event-types/${encodeURIComponent(eventTypeId)}/duplicate`,
+      session,
+      body,
+      fallbackError: fallback.eventTypeDuplicate,
+    });
+  },
+
+  archiveEventType: async (apiBaseUrl: string, session: AuthSession | null, eventTypeId: string) => {
+    return authedPostJson<{ ok: true; eventType: EventTypeArchiveState }>({
+      url: `${apiBaseUrl}/v0/event-types/${encodeURIComponent(eventTypeId)}/archive`,
+      session,
+      body: {},
+      fallbackError: fallback.eventTypeArchive,
+    });
+  },
+
+  restoreEventType: async (apiBaseUrl: string, session: AuthSession | null, eventTypeId: string) => {
+    return authedPostJson<{ ok: true; eventType: EventTypeArchiveState }>({
+      url: `${apiBaseUrl}/v0/event-types/${encodeURIComponent(eventTypeId)}/restore`,
+      session,
+      body: {},
+      fallbackError: fallback.eventTypeRestore,
+    });
+  },
+
+  deleteEventType: async (
+    apiBaseUrl: string,
+    session: AuthSession | null,
+    eventTypeId: string,
+    options: { cancelFutureBookings: boolean },
+  ) => {
+    return authedDeleteJson<{
+      ok: true;
+      deletedEventTypeId: string;
+      canceledBookings: number;
+      declinedRequests: number;
+      notifications: { canceled: number };
+      webhooks: { queued: number };
+    }>({
+      url: `${apiBaseUrl}/v0/event-types/${encodeURIComponent(eventTypeId)}${options.cancelFutureBookings ? '?cancelFutureBookings=true' : ''}`,
+      session,
+      fallbackError: fallback.eventTypeDelete,
+    });
+  },
+
   getNotificationRules: async (
     apiBaseUrl: string,
     session: AuthSession | null,
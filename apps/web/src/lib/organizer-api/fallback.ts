@@ -2,34 +2,71 @@ export const organizerApiFallback = {
   eventTypesList: 'Unable to load event types.',
   eventTypeCreate: 'Unable to create event type.',
   eventTypeUpdate: 'Unable to update event type.',
+  eventTypeDuplicate: 'Unable to duplicate event type.',
+  eventTypeArchive: 'Unable to archive event type.',
+  eventTypeRestore: 'Unable to restore event type.',
+  eventTypeDelete: 'Unable to delete event type.',
   notificationRulesGet: 'Unable to load notification rules.',
   notificationRulesPut: 'Unable to save notification rules.',
   notificationsRun: 'Unable to run notification workflows.',
   availabilityGet: 'Unable to load availability.',
   availabilityRulesPut: 'Unable to update availability rules.',
   availabilityOverridesPut: 'Unable to update availability overrides.',
+  availabilitySchedulesList: 'Unable to load availability schedules.',
+  availabilityScheduleCreate: 'Unable to create availability schedule.',
+  availabilityScheduleUpdate: 'Unable to update availability schedule.',
+  availabilityScheduleDelete: 'Unable to delete availability schedule.',
   timeOffList: 'Unable to load time-off blocks.',
   timeOffCreate: 'Unable to create time-off block.',
   timeOffDelete: 'Unable to delete time-off block.',
   timeOffHolidayImport: 'Unable to import holiday blocks.',
+  bookingsList: 'Unable to load bookings.',
+  bookingCancel: 'Unable to cancel booking.',
+  bookingNoShow: 'Unable to mark booking as no-show.',
+  bookingReschedule: 'Unable to reschedule booking.',
+  bookingRequestsList: 'Unable to load booking requests.',
+  bookingRequestApprove: 'Unable to approve booking request.',
+  bookingRequestDecline: 'Unable to decline booking request.',
   teamsList: 'Unable to load teams.',
   teamCreate: 'Unable to create team.',
   teamMembersList: 'Unable to load team members.',
   teamMemberCreate: 'Unable to add team member.',
+  teamMemberRoleUpdate: 'Unable to change team member role.',
+  teamMemberRemove: 'Unable to remove team member.',
+  teamOwnershipTransfer: 'Unable to transfer team ownership.',
+  teamDelete: 'Unable to delete team.',
+  teamInvitationsList: 'Unable to load team invitations.',
+  teamInvitationCreate: 'Unable to send team invitation.',
+  teamInvitationResend: 'Unable to resend team invitation.',
+  teamInvitationRevoke: 'Unable to revoke team invitation.',
   teamEventTypesList: 'Unable to load team event types.',
   teamEventTypeCreate: 'Unable to create team event type.',
+  teamRoundRobinUpdate: 'Unable to save round-robin settings.',
+  routingFormsList: 'Unable to load routing forms.',
+  routingFormCreate: 'Unable to create routing form.',
+  routingFormUpdate: 'Unable to update routing form.',
+  routingFormDelete: 'Unable to delete routing form.',
   webhooksList: 'Unable to load webhooks.',
   webhookCreate: 'Unable to create webhook.',
   webhookPatch: 'Unable to update webhook.',
   webhookRun: 'Unable to run webhook deliveries.',
+  webhookTest: 'Unable to send webhook test ping.',
+  webhookSecretRotate: 'Unable to rotate webhook secret.',
+  webhookDeliveriesList: 'Unable to load webhook deliveries.',
+  webhookDeliveryReplay: 'Unable to replay webhook delivery.',
+  webhookDeliveriesReplayFailed: 'Unable to redeliver failed webhooks.',
   calendarStatus: 'Unable to load calendar status.',
   calendarGoogleConnectStart: 'Unable to start Google calendar connection.',
   calendarGoogleConnectComplete: 'Unable to complete Google calendar connection.',
   calendarMicrosoftConnectStart: 'Unable to start Microsoft calendar connection.',
   calendarMicrosoftConnectComplete: 'Unable to complete Microsoft calendar connection.',
+  calendarCaldavConnect: 'Unable to connect CalDAV calendar.',
   calendarConnectionDisconnect: 'Unable to disconnect calendar.',
   calendarConnectionSync: 'Unable to sync calendar.',
   calendarConnectionPreferences: 'Unable to update calendar preferences.',
+  calendarFeedStatus: 'Unable to load calendar feed.',
+  calendarFeedCreate: 'Unable to create calendar feed URL.',
+  calendarFeedRevoke: 'Unable to revoke calendar feed.',
   profileGet: 'Unable to load profile.',
   profileUpdate: 'Unable to update profile.',
   onboardingComplete: 'Unable to complete onboarding.',
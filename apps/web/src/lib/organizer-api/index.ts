@@ -1,17 +1,21 @@
 export * from './types';
 
 import { organizerAvailabilityApi } from './availability';
+import { organizerBookingsApi } from './bookings';
 import { organizerCalendarApi } from './calendar';
 import { organizerEventTypesApi } from './event-types';
 import { organizerProfileApi } from './profile';
+import { organizerRoutingFormsApi } from './routing-forms';
 import { organizerTeamsApi } from './teams';
 import { organizerWebhooksApi } from './webhooks';
 
 export const organizerApi = {
   ...organizerEventTypesApi,
   ...organizerAvailabilityApi,
+  ...organizerBookingsApi,
   ...organizerTeamsApi,
   ...organizerWebhooksApi,
+  ...organizerRoutingFormsApi,
   ...organizerCalendarApi,
   ...organizerProfileApi,
 };
@@ -0,0 +1,51 @@
+import type { RoutingFormCreateInput, RoutingFormUpdateInput } from '@opencalendly/shared';
+
+import { authedDeleteJson, authedGetJson, authedPatchJson, authedPostJson } from '../api-client';
+import type { AuthSession } from '../auth-session';
+import { organizerApiFallback as fallback } from './fallback';
+import type { OrganizerRoutingForm } from './types';
+
+export const organizerRoutingFormsApi = {
+  listRoutingForms: async (apiBaseUrl: string, session: AuthSession | null) => {
+    return authedGetJson<{ ok: true; routingForms: OrganizerRoutingForm[] }>({
+      url: `${apiBaseUrl}/v0/routing-forms`,
+      session,
+      fallbackError: fallback.routingFormsList,
+    });
+  },
+
+  createRoutingForm: async (
+    apiBaseUrl: string,
+    session: AuthSession | null,
+    body: Omit<RoutingFormCreateInput, 'rules' | 'isActive'> & Partial<Pick<RoutingFormCreateInput, 'rules' | 'isActive'>>,
+  ) => {
+    return authedPostJson<{ ok: true; routingForm: OrganizerRoutingForm }>({
+      url: `${apiBaseUrl}/v0/routing-forms`,
+      session,
+      body,
+      fallbackError: fallback.routingFormCreate,
+    });
+  },
+
+  updateRoutingForm: async (
+    apiBaseUrl: string,
+    session: AuthSession | null,
+    formId: string,
+    body: RoutingFormUpdateInput,
+  ) => {
+    return authedPatchJson<{ ok: true; routingForm: OrganizerRoutingForm }>({
+      url: `${apiBaseUrl}/v0/routing-forms/${encodeURIComponent(formId)}`,
+      session,
+      body,
+      fallbackError: fallback.routingFormUpdate,
+    });
+  },
+
+  deleteRoutingForm: async (apiBaseUrl: string, session: AuthSession | null, formId: string) => {
+    return authedDeleteJson<{ ok: true; id: string }>({
+      url: `${apiBaseUrl}/v0/routing-forms/${encodeURIComponent(formId)}`,
+      session,
+      fallbackError: fallback.routingFormDelete,
+    });
+  },
+};
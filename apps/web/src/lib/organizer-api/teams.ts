@@ -1,11 +1,15 @@
-import { authedGetJson, authedPostJson } from '../api-client';
+import { authedDeleteJson, authedGetJson, authedPatchJson, authedPostJson } from '../api-client';
 import type { AuthSession } from '../auth-session';
 import { organizerApiFallback as fallback } from './fallback';
 import type {
   OrganizerEventQuestion,
   TeamEventType,
+  TeamInvitation,
+  TeamInvitationEmailResult,
   TeamMember,
+  TeamMemberRemovalResult,
   TeamMemberRole,
+  TeamRoundRobinStrategy,
   TeamSummary,
 } from './types';
 
@@ -67,6 +71,110 @@ export const organizerTeamsApi = {
     });
   },
 
+  updateTeamMemberRole: async (
+    apiBaseUrl: string,
+    session: AuthSession | null,
+    teamId: string,
+    userId: string,
+    role: TeamMemberRole,
+  ) => {
+    return authedPatchJson<{ ok: true; member: { teamId: string; userId: string; role: TeamMemberRole } }>({
+      url: `${apiBaseUrl}/v0/teams/${encodeURIComponent(teamId)}/members/${encodeURIComponent(userId)}`,
+      session,
+      body: { role },
+      fallbackError: fallback.teamMemberRoleUpdate,
+    });
+  },
+
+  removeTeamMember: async (
+    apiBaseUrl: string,
+    session: AuthSession | null,
+    teamId: string,
+    userId: string,
+    futureBookings: 'reassign' | 'cancel',
+  ) => {
+    return authedDeleteJson<TeamMemberRemovalResult>({
+      url: `${apiBaseUrl}/v0/teams/${encodeURIComponent(teamId)}/members/${encodeURIComponent(userId)}?futureBookings=${futureBookings}`,
+      session,
+      fallbackError: fallback.teamMemberRemove,
+    });
+  },
+
+  transferTeamOwnership: async (apiBaseUrl: string, session: AuthSession | null, teamId: string, userId: string) => {
+    return authedPostJson<{ ok: true; team: { id: string; ownerUserId: string }; movedEventTypes: number }>({
+      url: `${apiBaseUrl}/v0/teams/${encodeURIComponent(teamId)}/transfer-ownership`,
+      session,
+      body: { userId },
+      fallbackError: fallback.teamOwnershipTransfer,
+    });
+  },
+
+  deleteTeam: async (
+    apiBaseUrl: string,
+    session: AuthSession | null,
+    teamId: string,
+    options: { cancelFutureBookings: boolean },
+  ) => {
+    return authedDeleteJson<{ ok: true; deletedTeamId: string; deletedEventTypeIds: string[]; canceledBookings: number }>({
+      url: `${apiBaseUrl}/v0/teams/${encodeURIComponent(teamId)}${options.cancelFutureBookings ? '?cancelFutureBookings=true' : ''}`,
+      session,
+      fallbackError: fallback.teamDelete,
+    });
+  },
+
+  listTeamInvitations: async (apiBaseUrl: string, session: AuthSession | null, teamId: string) => {
+    return authedGetJson<{ ok: true; invitations: TeamInvitation[] }>({
+      url: `${apiBaseUrl}/v0/teams/${encodeURIComponent(teamId)}/invitations`,
+      session,
+      fallbackError: fallback.teamInvitationsList,
+    });
+  },
+
+  createTeamInvitation: async (
+    apiBaseUrl: string,
+    session: AuthSession | null,
+    teamId: string,
+    body: {
+      email: string;
+      role: TeamMemberRole;
+      teamEventTypeIds: string[];
+    },
+  ) => {
+    return authedPostJson<{ ok: true; invitation: TeamInvitation; email: TeamInvitationEmailResult }>({
+      url: `${apiBaseUrl}/v0/teams/${encodeURIComponent(teamId)}/invitations`,
+      session,
+      body,
+      fallbackError: fallback.teamInvitationCreate,
+    });
+  },
+
+  resendTeamInvitation: async (
+    apiBaseUrl: string,
+    session: AuthSession | null,
+    teamId: string,
+    invitationId: string,
+  ) => {
+    return authedPostJson<{ ok: true; invitation: TeamInvitation; email: TeamInvitationEmailResult }>({
+      url: `${apiBaseUrl}/v0/teams/${encodeURIComponent(teamId)}/invitations/${encodeURIComponent(invitationId)}/resend`,
+      session,
+      body: {},
+      fallbackError: fallback.teamInvitationResend,
+    });
+  },
+
+  revokeTeamInvitation: async (
+    apiBaseUrl: string,
+    session: AuthSession | null,
+    teamId: string,
+    invitationId: string,
+  ) => {
+    return authedDeleteJson<{ ok: true; invitation: TeamInvitation }>({
+      url: `${apiBaseUrl}/v0/teams/${encodeURIComponent(teamId)}/invitations/${encodeURIComponent(invitationId)}`,
+      session,
+      fallbackError: fallback.teamInvitationRevoke,
+    });
+  },
+
   listTeamEventTypes: async (
     apiBaseUrl: string,
     session: AuthSession | null,
@@ -104,6 +212,10 @@ export const organizerTeamsApi = {
       locationValue?: string | null;
       questions?: OrganizerEventQuestion[];
       requiredMemberUserIds?: string[];
+      optionalMemberUserIds?: string[];
+      roundRobinStrategy?: TeamRoundRobinStrategy;
+      roundRobinWindowDays?: number;
+      memberWeights?: Record<string, number>;
     },
   ) => {
     return authedPostJson<{ ok: true; teamEventType: TeamEventType }>({
@@ -113,4 +225,24 @@ export const organizerTeamsApi = {
       fallbackError: fallback.teamEventTypeCreate,
     });
   },
+
+  updateTeamRoundRobinSettings: async (
+    apiBaseUrl: string,
+    session: AuthSession | null,
+    teamEventTypeId: string,
+    body: { strategy: TeamRoundRobinStrategy; windowDays?: number; memberWeights?: Record<string, number> },
+  ) => {
+    return authedPatchJson<{
+      ok: true;
+      teamEventTypeId: string;
+      strategy: TeamRoundRobinStrategy;
+      windowDays: number;
+      memberWeights: Record<string, number>;
+    }>({
+      url: `${apiBaseUrl}/v0/team-event-types/${encodeURIComponent(teamEventTypeId)}/round-robin`,
+      session,
+      body,
+      fallbackError: fallback.teamRoundRobinUpdate,
+    });
+  },
 };
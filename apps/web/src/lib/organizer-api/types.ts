@@ -1,9 +1,13 @@
-export type OrganizerEventQuestion = {
-  id: string;
-  label: string;
-  required: boolean;
-  placeholder?: string;
-};
+import type {
+  BookingAnswerValue,
+  BookingQuestion,
+  RoutingRule,
+  WebhookApiVersion,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+} from '@opencalendly/shared';
+
+export type OrganizerEventQuestion = BookingQuestion;
 
 export type OrganizerEventType = {
   id: string;
@@ -16,10 +20,25 @@ export type OrganizerEventType = {
   locationType: 'video' | 'phone' | 'in_person' | 'custom';
   locationValue: string | null;
   questions: OrganizerEventQuestion[];
+  availabilityScheduleId: string | null;
+  minimumNoticeMinutes: number;
+  bookingHorizonDays: number | null;
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+  slotIncrementMinutes: number | null;
+  priceCents: number | null;
+  currency: string | null;
+  refundPolicy: 'full' | 'none';
+  refundCutoffHours: number | null;
+  requiresConfirmation: boolean;
+  seatsPerSlot: number | null;
   isActive: boolean;
+  archivedAt: string | null;
   createdAt: string;
 };
 
+export type EventTypeArchiveState = Pick<OrganizerEventType, 'id' | 'slug' | 'isActive' | 'archivedAt'>;
+
 export type NotificationRule = {
   id: string;
   notificationType: 'reminder' | 'follow_up';
@@ -39,6 +58,15 @@ export type AvailabilityRule = {
   createdAt: string;
 };
 
+export type AvailabilitySchedule = {
+  id: string;
+  name: string;
+  rules: Array<Omit<AvailabilityRule, 'createdAt'>>;
+  eventTypeIds: string[];
+  createdAt: string;
+  updatedAt: string;
+};
+
 export type AvailabilityOverride = {
   id: string;
   startAt: string;
@@ -58,6 +86,60 @@ export type TimeOffBlock = {
   createdAt: string;
 };
 
+export type OrganizerBookingsStatus = 'upcoming' | 'past' | 'canceled';
+
+export type OrganizerBooking = {
+  id: string;
+  eventType: {
+    id: string;
+    name: string;
+    slug: string;
+    durationMinutes: number;
+  };
+  inviteeName: string;
+  inviteeEmail: string;
+  startsAt: string;
+  endsAt: string;
+  status: string;
+  timezone: string | null;
+  answers: Record<string, BookingAnswerValue>;
+  team: {
+    teamId: string;
+    teamEventTypeId: string;
+    mode: 'round_robin' | 'collective';
+  } | null;
+  rescheduledFromBookingId: string | null;
+  canceledAt: string | null;
+  canceledBy: string | null;
+  cancellationReason: string | null;
+  noShowAt: string | null;
+  createdAt: string;
+};
+
+export type OrganizerBookingRequest = {
+  id: string;
+  inviteeName: string;
+  inviteeEmail: string;
+  startsAt: string;
+  endsAt: string;
+  requestedAt: string;
+  timezone: string | null;
+  answers: Record<string, BookingAnswerValue>;
+  eventType: {
+    id: string;
+    name: string;
+    slug: string;
+  };
+};
+
+export type OrganizerBookingsFilters = {
+  status: OrganizerBookingsStatus;
+  startDate?: string;
+  endDate?: string;
+  eventTypeId?: string;
+  q?: string;
+};
+
 export type TeamSummary = {
   id: string;
   ownerUserId: string;
@@ -85,9 +167,41 @@ export type TeamMember = {
   };
 };
 
+export type TeamInvitationState = 'pending' | 'expired' | 'accepted' | 'declined' | 'revoked';
+
+export type TeamInvitation = {
+  id: string;
+  teamId: string;
+  email: string;
+  role: TeamMemberRole;
+  teamEventTypeIds: string[];
+  state: TeamInvitationState;
+  expiresAt: string;
+  lastSentAt: string;
+  sendCount: number;
+  respondedAt: string | null;
+  createdAt: string;
+};
+
+export type TeamInvitationEmailResult = {
+  sent: boolean;
+  provider: 'resend' | 'none';
+  error?: string;
+};
+
+export type TeamMemberRemovalResult = {
+  ok: true;
+  removedUserId: string;
+  removedFromTeamEventTypes: number;
+  futureBookings: { reassigned: number; canceled: number };
+};
+
+export type TeamRoundRobinStrategy = 'strict' | 'weighted' | 'least_recently_booked' | 'fewest_in_window';
+
 export type TeamEventTypeMember = {
   userId: string;
   isRequired: boolean;
+  weight: number;
   role: TeamMemberRole;
   user: {
     id: string;
@@ -102,8 +216,11 @@ export type TeamEventType = {
   id: string;
   mode: 'round_robin' | 'collective';
   roundRobinCursor: number;
+  roundRobinStrategy: TeamRoundRobinStrategy;
+  roundRobinWindowDays: number;
   createdAt: string;
   requiredMemberUserIds: string[];
+  optionalMemberUserIds: string[];
   members: TeamEventTypeMember[];
   eventType: {
     id: string;
@@ -123,7 +240,58 @@ export type TeamEventType = {
 export type OrganizerWebhook = {
   id: string;
   url: string;
-  events: Array<'booking.created' | 'booking.canceled' | 'booking.rescheduled'>;
+  events: WebhookEventType[];
+  apiVersion: WebhookApiVersion;
+  isActive: boolean;
+  secretRotation: OrganizerWebhookSecretRotation | null;
+  consecutiveFailureCount: number;
+  autoDisabled: { disabledAt: string; reason: string | null } | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type OrganizerWebhookSecretRotation = {
+  rotatedAt: string;
+  previousSecretExpiresAt: string | null;
+};
+
+export type OrganizerWebhookDelivery = {
+  id: string;
+  eventId: string;
+  eventType: string;
+  status: WebhookDeliveryStatus;
+  attemptCount: number;
+  maxAttempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  lastResponseStatus: number | null;
+  lastError: string | null;
+  payload: Record<string, unknown>;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type OrganizerWebhookTestPing = {
+  eventId: string;
+  delivered: boolean;
+  responseStatus: number | null;
+  latencyMs: number | null;
+  responseBodySnippet: string | null;
+  error: string | null;
+};
+
+export type OrganizerWebhookDeliveryFilters = {
+  status?: WebhookDeliveryStatus | undefined;
+  eventType?: WebhookEventType | undefined;
+};
+
+export type OrganizerRoutingForm = {
+  id: string;
+  slug: string;
+  name: string;
+  questions: OrganizerEventQuestion[];
+  rules: RoutingRule[];
+  fallbackEventTypeId: string | null;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -131,7 +299,7 @@ export type OrganizerWebhook = {
 
 export type CalendarConnectionStatus = {
   id: string;
-  provider: 'google' | 'microsoft';
+  provider: CalendarProvider;
   connected: boolean;
   externalEmail: string | null;
   useForConflictChecks: boolean;
@@ -141,7 +309,7 @@ export type CalendarConnectionStatus = {
   lastError: string | null;
 };
 
-export type CalendarProvider = 'google' | 'microsoft';
+export type CalendarProvider = 'google' | 'microsoft' | 'caldav';
 
 export type WritebackFailure = {
   id: string;
@@ -156,6 +324,13 @@ export type WritebackFailure = {
   updatedAt: string;
 };
 
+export type CalendarFeedStatus = {
+  enabled: boolean;
+  createdAt: string | null;
+  rotatedAt: string | null;
+  lastAccessedAt: string | null;
+};
+
 export type WritebackStatus = {
   summary: {
     pending: number;
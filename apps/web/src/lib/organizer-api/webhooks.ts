@@ -1,7 +1,15 @@
 import { authedGetJson, authedPatchJson, authedPostJson } from '../api-client';
 import type { AuthSession } from '../auth-session';
 import { organizerApiFallback as fallback } from './fallback';
-import type { OrganizerWebhook } from './types';
+import type { WebhookApiVersion, WebhookEventType } from '@opencalendly/shared';
+
+import type {
+  OrganizerWebhook,
+  OrganizerWebhookDelivery,
+  OrganizerWebhookDeliveryFilters,
+  OrganizerWebhookSecretRotation,
+  OrganizerWebhookTestPing,
+} from './types';
 
 export const organizerWebhooksApi = {
   listWebhooks: async (apiBaseUrl: string, session: AuthSession | null) => {
@@ -17,8 +25,9 @@ export const organizerWebhooksApi = {
     session: AuthSession | null,
     body: {
       url: string;
-      events: Array<'booking.created' | 'booking.canceled' | 'booking.rescheduled'>;
+      events: WebhookEventType[];
       secret: string;
+      apiVersion: WebhookApiVersion;
     },
   ) => {
     return authedPostJson<{ ok: true; webhook: OrganizerWebhook }>({
@@ -35,12 +44,18 @@ export const organizerWebhooksApi = {
     webhookId: string,
     body: Partial<{
       url: string;
-      events: Array<'booking.created' | 'booking.canceled' | 'booking.rescheduled'>;
+      events: WebhookEventType[];
       secret: string;
       isActive: boolean;
+      apiVersion: WebhookApiVersion;
+      replayBacklog: boolean;
     }>,
   ) => {
-    return authedPatchJson<{ ok: true; webhook: OrganizerWebhook }>({
+    return authedPatchJson<{
+      ok: true;
+      webhook: OrganizerWebhook;
+      backlog: { replayed: boolean; count: number } | null;
+    }>({
       url: `${apiBaseUrl}/v0/webhooks/${encodeURIComponent(webhookId)}`,
       session,
       body,
@@ -66,4 +81,74 @@ export const organizerWebhooksApi = {
       fallbackError: fallback.webhookRun,
     });
   },
+
+  sendWebhookTestPing: async (apiBaseUrl: string, session: AuthSession | null, webhookId: string) => {
+    return authedPostJson<{ ok: true; ping: OrganizerWebhookTestPing }>({
+      url: `${apiBaseUrl}/v0/webhooks/${encodeURIComponent(webhookId)}/test`,
+      session,
+      body: {},
+      fallbackError: fallback.webhookTest,
+    });
+  },
+
+  rotateWebhookSecret: async (
+    apiBaseUrl: string,
+    session: AuthSession | null,
+    webhookId: string,
+    body: { secret: string; gracePeriodHours: number },
+  ) => {
+    return authedPostJson<{ ok: true; secretRotation: OrganizerWebhookSecretRotation }>({
+      url: `${apiBaseUrl}/v0/webhooks/${encodeURIComponent(webhookId)}/rotate-secret`,
+      session,
+      body,
+      fallbackError: fallback.webhookSecretRotate,
+    });
+  },
+
+  listWebhookDeliveries: async (
+    apiBaseUrl: string,
+    session: AuthSession | null,
+    webhookId: string,
+    filters: OrganizerWebhookDeliveryFilters,
+    cursor?: string | null,
+  ) => {
+    const params = new URLSearchParams();
+    if (filters.status) {
+      params.set('status', filters.status);
+    }
+    if (filters.eventType) {
+      params.set('eventType', filters.eventType);
+    }
+    if (cursor) {
+      params.set('cursor', cursor);
+    }
+
+    return authedGetJson<{ ok: true; deliveries: OrganizerWebhookDelivery[]; nextCursor: string | null }>({
+      url: `${apiBaseUrl}/v0/webhooks/${encodeURIComponent(webhookId)}/deliveries?${params.toString()}`,
+      session,
+      fallbackError: fallback.webhookDeliveriesList,
+    });
+  },
+
+  replayWebhookDelivery: async (apiBaseUrl: string, session: AuthSession | null, deliveryId: string) => {
+    return authedPostJson<{ ok: true; delivery: { id: string; status: 'pending' } }>({
+      url: `${apiBaseUrl}/v0/webhooks/deliveries/${encodeURIComponent(deliveryId)}/replay`,
+      session,
+      body: {},
+      fallbackError: fallback.webhookDeliveryReplay,
+    });
+  },
+
+  replayFailedWebhookDeliveries: async (
+    apiBaseUrl: string,
+    session: AuthSession | null,
+    body: { since: string; subscriptionId?: string },
+  ) => {
+    return authedPostJson<{ ok: true; replayed: number }>({
+      url: `${apiBaseUrl}/v0/webhooks/deliveries/replay-failed`,
+      session,
+      body,
+      fallbackError: fallback.webhookDeliveriesReplayFailed,
+    });
+  },
 };
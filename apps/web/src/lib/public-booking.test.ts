@@ -3,9 +3,11 @@ import { afterEach, describe, expect, it, vi } from 'vitest';
 import {
   createIdempotencyKey,
   formatDayLabel,
+  formatPrice,
   formatSlot,
   getBrowserTimezone,
   groupSlotsByDay,
+  zonedDateTimeToIso,
 } from './public-booking';
 
 afterEach(() => {
@@ -92,3 +94,18 @@ describe('createIdempotencyKey', () => {
     expect(key.startsWith('fallback-')).toBe(true);
   });
 });
+
+describe('formatPrice', () => {
+  it('converts minor units using each currency precision', () => {
+    expect(formatPrice(5000, 'usd')).toContain('50.00');
+    expect(formatPrice(5000, 'jpy')).toContain('5,000');
+  });
+});
+
+describe('zonedDateTimeToIso', () => {
+  it('reads wall-clock times in the given timezone', () => {
+    expect(zonedDateTimeToIso('2026-03-12', '09:00', 'America/Los_Angeles')).toBe('2026-03-12T16:00:00.000Z');
+    expect(zonedDateTimeToIso('2026-03-12', '09:00', 'Asia/Kolkata')).toBe('2026-03-12T03:30:00.000Z');
+    expect(zonedDateTimeToIso('2026-03-12', '', 'UTC')).toBeNull();
+  });
+});
@@ -34,6 +34,34 @@ export const formatDayLabel = (isoDate: string, timezone: string): string => {
   }).format(new Date(isoDate));
 };
 
+// Reads a wall-clock date and time in `timezone` as an instant. The offset is sampled at the naive
+// UTC reading, which is exact everywhere except inside a DST jump.
+export const zonedDateTimeToIso = (date: string, time: string, timezone: string): string | null => {
+  const naiveUtcMs = Date.parse(`${date}T${time}:00.000Z`);
+  if (Number.isNaN(naiveUtcMs)) {
+    return null;
+  }
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(new Date(naiveUtcMs));
+  const read = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+  const zonedAsUtcMs = Date.UTC(read('year'), read('month') - 1, read('day'), read('hour'), read('minute'));
+  return new Date(naiveUtcMs - (zonedAsUtcMs - naiveUtcMs)).toISOString();
+};
+
+// Amounts arrive in minor units; the formatter knows how many decimals each currency uses.
+export const formatPrice = (amountCents: number, currency: string): string => {
+  const formatter = new Intl.NumberFormat(undefined, { style: 'currency', currency: currency.toUpperCase() });
+  const fractionDigits = formatter.resolvedOptions().maximumFractionDigits ?? 2;
+  return formatter.format(amountCents / 10 ** fractionDigits);
+};
+
 export const createIdempotencyKey = (): string => {
   if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
     return crypto.randomUUID();
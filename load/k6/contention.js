@@ -1,10 +1,15 @@
-import { sleep } from 'k6';
-import { Rate } from 'k6/metrics';
+/* global __ENV */
+
+import { check, sleep } from 'k6';
+import { Counter, Rate } from 'k6/metrics';
 
 import {
   apiBaseUrl,
+  availabilityUrl,
+  buildPublicHeaders,
   buildPublicIdempotentHeaders,
   expectStatus,
+  getJson,
   oneOnOneBookingPayload,
   postJson,
   requireEnv,
@@ -13,6 +18,9 @@ import {
 
 const bookingConflictRate = new Rate('booking_conflict_rate');
 const bookingUnexpectedFailureRate = new Rate('booking_unexpected_failure_rate');
+const seatedBookingSuccessCount = new Counter('seated_booking_success_count');
+
+const seatsPerSlot = Number.parseInt(__ENV.SEATED_SEATS_PER_SLOT || '0', 10);
 
 export const options = {
   scenarios: {
@@ -29,12 +37,21 @@ export const options = {
       exec: 'sameSlotTeam',
       startTime: '5s',
     },
+    seated_same_slot: {
+      executor: 'constant-vus',
+      vus: 8,
+      duration: '30s',
+      exec: 'sameSlotSeated',
+      startTime: '10s',
+    },
   },
   thresholds: {
     http_req_failed: ['rate==0'],
     http_req_duration: ['p(95)<2000', 'p(99)<4000'],
     checks: ['rate>0.9'],
     booking_unexpected_failure_rate: ['rate==0'],
+    // A seated slot must never hand out more seats than it has, however many attendees race for it.
+    seated_booking_success_count: [`count<=${seatsPerSlot}`],
   },
 };
 
@@ -45,6 +62,9 @@ requireEnv([
   'TEAM_SLUG',
   'TEAM_EVENT_SLUG',
   'TEAM_STARTS_AT',
+  'SEATED_EVENT_SLUG',
+  'SEATED_STARTS_AT',
+  'SEATED_SEATS_PER_SLOT',
 ]);
 
 const recordBookingOutcome = (response) => {
@@ -73,3 +93,38 @@ export function sameSlotTeam() {
   recordBookingOutcome(response);
   sleep(0.2);
 }
+
+export function sameSlotSeated() {
+  const response = postJson(
+    `${apiBaseUrl}/v0/bookings`,
+    oneOnOneBookingPayload({ eventSlug: __ENV.SEATED_EVENT_SLUG, startsAt: __ENV.SEATED_STARTS_AT }),
+    {
+      headers: buildPublicIdempotentHeaders('contention-seated-booking'),
+      tags: { flow: 'booking', profile: 'contention', kind: 'seated' },
+      expectedStatuses: [200, 409, 429],
+    },
+  );
+  expectStatus(response, [200, 409], 'contention seated booking returns success or conflict');
+  recordBookingOutcome(response);
+  seatedBookingSuccessCount.add(response.status === 200 ? 1 : 0);
+  sleep(0.2);
+}
+
+export function teardown() {
+  const response = getJson(
+    availabilityUrl({
+      kind: 'one_on_one',
+      username: __ENV.ONE_ON_ONE_USERNAME,
+      eventSlug: __ENV.SEATED_EVENT_SLUG,
+      start: __ENV.SEATED_STARTS_AT,
+      days: '1',
+    }),
+    { headers: buildPublicHeaders(), tags: { flow: 'availability', profile: 'contention', kind: 'seated' } },
+  );
+  const seatedSlotMs = new Date(__ENV.SEATED_STARTS_AT).getTime();
+  check(response, {
+    'contention seated slot is no longer offered once full': (value) =>
+      value.status === 200 &&
+      !value.json('slots').some((slot) => new Date(slot.startsAt).getTime() === seatedSlotMs),
+  });
+}
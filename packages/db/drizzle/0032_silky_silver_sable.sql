@@ -0,0 +1 @@
+CREATE INDEX "bookings_organizer_status_starts_at_idx" ON "bookings" USING btree ("organizer_id","status","starts_at");
\ No newline at end of file
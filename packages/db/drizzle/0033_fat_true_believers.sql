@@ -0,0 +1,14 @@
+CREATE TABLE "availability_schedules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"name" varchar(80) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "availability_schedules_user_name_unique" UNIQUE("user_id","name")
+);
+--> statement-breakpoint
+ALTER TABLE "availability_rules" ADD COLUMN "schedule_id" uuid;--> statement-breakpoint
+ALTER TABLE "event_types" ADD COLUMN "availability_schedule_id" uuid;--> statement-breakpoint
+ALTER TABLE "availability_schedules" ADD CONSTRAINT "availability_schedules_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "availability_rules" ADD CONSTRAINT "availability_rules_schedule_id_availability_schedules_id_fk" FOREIGN KEY ("schedule_id") REFERENCES "public"."availability_schedules"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "event_types" ADD CONSTRAINT "event_types_availability_schedule_id_availability_schedules_id_fk" FOREIGN KEY ("availability_schedule_id") REFERENCES "public"."availability_schedules"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
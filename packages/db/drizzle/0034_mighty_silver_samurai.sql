@@ -0,0 +1,9 @@
+ALTER TABLE "event_types" ADD COLUMN "minimum_notice_minutes" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "event_types" ADD COLUMN "booking_horizon_days" integer;--> statement-breakpoint
+ALTER TABLE "event_types" ADD COLUMN "buffer_before_minutes" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "event_types" ADD COLUMN "buffer_after_minutes" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "event_types" ADD COLUMN "slot_increment_minutes" integer;--> statement-breakpoint
+ALTER TABLE "event_types" ADD CONSTRAINT "event_types_minimum_notice_minutes_range" CHECK ("event_types"."minimum_notice_minutes" >= 0 and "event_types"."minimum_notice_minutes" <= 43200);--> statement-breakpoint
+ALTER TABLE "event_types" ADD CONSTRAINT "event_types_booking_horizon_days_range" CHECK ("event_types"."booking_horizon_days" is null or ("event_types"."booking_horizon_days" > 0 and "event_types"."booking_horizon_days" <= 730));--> statement-breakpoint
+ALTER TABLE "event_types" ADD CONSTRAINT "event_types_buffer_minutes_range" CHECK ("event_types"."buffer_before_minutes" >= 0 and "event_types"."buffer_before_minutes" <= 180 and "event_types"."buffer_after_minutes" >= 0 and "event_types"."buffer_after_minutes" <= 180);--> statement-breakpoint
+ALTER TABLE "event_types" ADD CONSTRAINT "event_types_slot_increment_minutes_range" CHECK ("event_types"."slot_increment_minutes" is null or ("event_types"."slot_increment_minutes" >= 5 and "event_types"."slot_increment_minutes" <= 60));
\ No newline at end of file
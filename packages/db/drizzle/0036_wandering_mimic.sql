@@ -0,0 +1,2 @@
+ALTER TYPE "public"."calendar_provider" ADD VALUE 'caldav';--> statement-breakpoint
+ALTER TABLE "calendar_connections" ADD COLUMN "caldav_calendar_url" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "event_types" ADD COLUMN "archived_at" timestamp with time zone;
\ No newline at end of file
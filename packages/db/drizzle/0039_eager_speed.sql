@@ -0,0 +1 @@
+ALTER TABLE "team_booking_assignments" DROP CONSTRAINT "team_booking_assignments_member_fk";
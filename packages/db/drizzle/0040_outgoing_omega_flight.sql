@@ -0,0 +1,4 @@
+CREATE TYPE "public"."team_round_robin_strategy" AS ENUM('strict', 'weighted', 'least_recently_booked', 'fewest_in_window');--> statement-breakpoint
+ALTER TABLE "team_event_type_members" ADD COLUMN "weight" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "team_event_types" ADD COLUMN "round_robin_strategy" "team_round_robin_strategy" DEFAULT 'strict' NOT NULL;--> statement-breakpoint
+ALTER TABLE "team_event_types" ADD COLUMN "round_robin_window_days" integer DEFAULT 30 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,18 @@
+ALTER TYPE "public"."analytics_funnel_stage" ADD VALUE 'routing_decision';--> statement-breakpoint
+CREATE TABLE "routing_forms" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"slug" varchar(80) NOT NULL,
+	"name" varchar(120) NOT NULL,
+	"questions" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"rules" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"fallback_event_type_id" uuid,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "routing_forms_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+ALTER TABLE "routing_forms" ADD CONSTRAINT "routing_forms_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "routing_forms" ADD CONSTRAINT "routing_forms_fallback_event_type_id_event_types_id_fk" FOREIGN KEY ("fallback_event_type_id") REFERENCES "public"."event_types"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "routing_forms_user_created_at_idx" ON "routing_forms" USING btree ("user_id","created_at");
\ No newline at end of file
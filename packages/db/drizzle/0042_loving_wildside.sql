@@ -0,0 +1,37 @@
+CREATE TYPE "public"."booking_payment_status" AS ENUM('pending', 'succeeded', 'expired', 'failed', 'refunded');--> statement-breakpoint
+CREATE TYPE "public"."payment_provider" AS ENUM('stripe', 'fake');--> statement-breakpoint
+CREATE TYPE "public"."payment_refund_policy" AS ENUM('full', 'none');--> statement-breakpoint
+CREATE TABLE "booking_payments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"booking_id" uuid NOT NULL,
+	"organizer_id" uuid NOT NULL,
+	"provider" "payment_provider" NOT NULL,
+	"provider_session_id" varchar(255) NOT NULL,
+	"provider_payment_id" varchar(255),
+	"provider_refund_id" varchar(255),
+	"status" "booking_payment_status" DEFAULT 'pending' NOT NULL,
+	"amount_cents" integer NOT NULL,
+	"currency" varchar(3) NOT NULL,
+	"checkout_url" text NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"paid_at" timestamp with time zone,
+	"refunded_at" timestamp with time zone,
+	"last_error" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "booking_payments_provider_session_unique" UNIQUE("provider","provider_session_id")
+);
+--> statement-breakpoint
+DROP INDEX "bookings_confirmed_unique_slot";--> statement-breakpoint
+ALTER TABLE "bookings" ADD COLUMN "hold_expires_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "event_types" ADD COLUMN "price_cents" integer;--> statement-breakpoint
+ALTER TABLE "event_types" ADD COLUMN "currency" varchar(3);--> statement-breakpoint
+ALTER TABLE "event_types" ADD COLUMN "refund_policy" "payment_refund_policy" DEFAULT 'full' NOT NULL;--> statement-breakpoint
+ALTER TABLE "event_types" ADD COLUMN "refund_cutoff_hours" integer;--> statement-breakpoint
+ALTER TABLE "booking_payments" ADD CONSTRAINT "booking_payments_booking_id_bookings_id_fk" FOREIGN KEY ("booking_id") REFERENCES "public"."bookings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "booking_payments" ADD CONSTRAINT "booking_payments_organizer_id_users_id_fk" FOREIGN KEY ("organizer_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "booking_payments_booking_id_idx" ON "booking_payments" USING btree ("booking_id");--> statement-breakpoint
+CREATE INDEX "bookings_status_hold_expires_at_idx" ON "bookings" USING btree ("status","hold_expires_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "bookings_confirmed_unique_slot" ON "bookings" USING btree ("organizer_id","starts_at","ends_at") WHERE "bookings"."status" in ('confirmed', 'pending_payment');--> statement-breakpoint
+ALTER TABLE "event_types" ADD CONSTRAINT "event_types_price_currency_paired" CHECK (("event_types"."price_cents" is null and "event_types"."currency" is null) or ("event_types"."price_cents" > 0 and "event_types"."currency" is not null));--> statement-breakpoint
+ALTER TABLE "event_types" ADD CONSTRAINT "event_types_refund_cutoff_hours_range" CHECK ("event_types"."refund_cutoff_hours" is null or ("event_types"."refund_cutoff_hours" > 0 and "event_types"."refund_cutoff_hours" <= 720));
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TYPE "public"."email_delivery_type" ADD VALUE 'booking_request_received';--> statement-breakpoint
+ALTER TYPE "public"."email_delivery_type" ADD VALUE 'booking_approved';--> statement-breakpoint
+ALTER TYPE "public"."email_delivery_type" ADD VALUE 'booking_declined';--> statement-breakpoint
+DROP INDEX "bookings_confirmed_unique_slot";--> statement-breakpoint
+ALTER TABLE "event_types" ADD COLUMN "requires_confirmation" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "bookings_confirmed_unique_slot" ON "bookings" USING btree ("organizer_id","starts_at","ends_at") WHERE "bookings"."status" in ('confirmed', 'pending_payment', 'pending_approval');
\ No newline at end of file
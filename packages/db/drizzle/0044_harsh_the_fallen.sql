@@ -0,0 +1,6 @@
+DROP INDEX "bookings_confirmed_unique_slot";--> statement-breakpoint
+ALTER TABLE "bookings" ADD COLUMN "seat_number" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "event_types" ADD COLUMN "seats_per_slot" integer;--> statement-breakpoint
+CREATE UNIQUE INDEX "bookings_confirmed_unique_slot" ON "bookings" USING btree ("organizer_id","starts_at","ends_at","seat_number") WHERE "bookings"."status" in ('confirmed', 'pending_payment', 'pending_approval');--> statement-breakpoint
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_seat_number_positive" CHECK ("bookings"."seat_number" >= 1);--> statement-breakpoint
+ALTER TABLE "event_types" ADD CONSTRAINT "event_types_seats_per_slot_range" CHECK ("event_types"."seats_per_slot" is null or ("event_types"."seats_per_slot" >= 2 and "event_types"."seats_per_slot" <= 500));
\ No newline at end of file
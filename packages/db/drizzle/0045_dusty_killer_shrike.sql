@@ -0,0 +1,27 @@
+ALTER TYPE "public"."email_delivery_type" ADD VALUE 'waitlist_offer';--> statement-breakpoint
+CREATE TABLE "slot_waitlist_entries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"event_type_id" uuid NOT NULL,
+	"organizer_id" uuid NOT NULL,
+	"scope" varchar(8) NOT NULL,
+	"window_key" varchar(32) NOT NULL,
+	"invitee_name" varchar(120) NOT NULL,
+	"invitee_email" varchar(320) NOT NULL,
+	"timezone" varchar(80) DEFAULT 'UTC' NOT NULL,
+	"answers" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"status" varchar(16) DEFAULT 'waiting' NOT NULL,
+	"claim_token_hash" text,
+	"offered_starts_at" timestamp with time zone,
+	"offer_expires_at" timestamp with time zone,
+	"claimed_booking_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "slot_waitlist_entries_claim_token_hash_unique" UNIQUE("claim_token_hash"),
+	CONSTRAINT "slot_waitlist_entries_scope_check" CHECK ("slot_waitlist_entries"."scope" in ('slot', 'day')),
+	CONSTRAINT "slot_waitlist_entries_status_check" CHECK ("slot_waitlist_entries"."status" in ('waiting', 'offered', 'claimed', 'expired'))
+);
+--> statement-breakpoint
+ALTER TABLE "slot_waitlist_entries" ADD CONSTRAINT "slot_waitlist_entries_event_type_id_event_types_id_fk" FOREIGN KEY ("event_type_id") REFERENCES "public"."event_types"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "slot_waitlist_entries" ADD CONSTRAINT "slot_waitlist_entries_organizer_id_users_id_fk" FOREIGN KEY ("organizer_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "slot_waitlist_entries" ADD CONSTRAINT "slot_waitlist_entries_claimed_booking_id_bookings_id_fk" FOREIGN KEY ("claimed_booking_id") REFERENCES "public"."bookings"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "slot_waitlist_entries_open_unique" ON "slot_waitlist_entries" USING btree ("event_type_id","window_key","invitee_email") WHERE "slot_waitlist_entries"."status" in ('waiting', 'offered');--> statement-breakpoint
+CREATE INDEX "slot_waitlist_entries_event_type_window_status_idx" ON "slot_waitlist_entries" USING btree ("event_type_id","window_key","status","created_at");
\ No newline at end of file
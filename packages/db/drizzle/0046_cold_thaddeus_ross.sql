@@ -0,0 +1 @@
+CREATE INDEX "webhook_deliveries_subscription_created_at_idx" ON "webhook_deliveries" USING btree ("subscription_id","created_at");
\ No newline at end of file
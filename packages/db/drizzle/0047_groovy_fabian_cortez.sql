@@ -0,0 +1,3 @@
+ALTER TABLE "bookings" ADD COLUMN "no_show_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "webhook_subscriptions" ADD COLUMN "api_version" varchar(8) DEFAULT 'v1' NOT NULL;--> statement-breakpoint
+ALTER TABLE "webhook_subscriptions" ADD CONSTRAINT "webhook_subscriptions_api_version_valid" CHECK ("webhook_subscriptions"."api_version" in ('v1', 'v2'));
\ No newline at end of file
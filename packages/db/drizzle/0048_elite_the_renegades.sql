@@ -0,0 +1,3 @@
+ALTER TABLE "webhook_subscriptions" ADD COLUMN "previous_secret_encrypted" text;--> statement-breakpoint
+ALTER TABLE "webhook_subscriptions" ADD COLUMN "previous_secret_expires_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "webhook_subscriptions" ADD COLUMN "secret_rotated_at" timestamp with time zone;
\ No newline at end of file
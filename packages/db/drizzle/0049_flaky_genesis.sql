@@ -0,0 +1,4 @@
+ALTER TYPE "public"."email_delivery_type" ADD VALUE 'webhook_auto_disabled';--> statement-breakpoint
+ALTER TABLE "webhook_subscriptions" ADD COLUMN "consecutive_failure_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "webhook_subscriptions" ADD COLUMN "auto_disabled_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "webhook_subscriptions" ADD COLUMN "disabled_reason" text;
\ No newline at end of file
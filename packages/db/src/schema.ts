@@ -24,12 +24,33 @@ type EventQuestionRecord = {
   placeholder?: string | undefined;
 };
 
-type WebhookEventTypeRecord = 'booking.created' | 'booking.canceled' | 'booking.rescheduled';
+type WebhookEventTypeRecord =
+  | 'booking.created'
+  | 'booking.canceled'
+  | 'booking.rescheduled'
+  | 'booking.requested'
+  | 'booking.approved'
+  | 'booking.declined'
+  | 'booking.no_show'
+  | 'event_type.created'
+  | 'event_type.updated'
+  | 'calendar.connection_error'
+  | 'team.member_added'
+  | 'notification.failed';
+type WebhookApiVersionRecord = 'v1' | 'v2';
 type WebhookDeliveryStatusRecord = 'pending' | 'succeeded' | 'failed';
-type CalendarProviderRecord = 'google' | 'microsoft';
+type CalendarProviderRecord = 'google' | 'microsoft' | 'caldav';
 type CalendarWritebackOperationRecord = 'create' | 'cancel' | 'reschedule';
 type CalendarWritebackStatusRecord = 'pending' | 'succeeded' | 'failed';
-type AnalyticsFunnelStageRecord = 'page_view' | 'slot_selection' | 'booking_confirmed';
+type AnalyticsFunnelStageRecord = 'page_view' | 'slot_selection' | 'booking_confirmed' | 'routing_decision';
+type RoutingRuleRecord = {
+  conditions: Array<{
+    questionId: string;
+    operator: 'equals' | 'not_equals' | 'contains' | 'greater_than' | 'less_than';
+    value: string | number | boolean;
+  }>;
+  eventTypeId: string;
+};
 type NotificationRuleTypeRecord = 'reminder' | 'follow_up';
 type ScheduledNotificationStatusRecord = 'pending' | 'sent' | 'failed' | 'canceled';
 type EmailDeliveryTypeRecord =
@@ -37,28 +58,59 @@ type EmailDeliveryTypeRecord =
   | 'booking_cancellation'
   | 'booking_rescheduled'
   | 'booking_reminder'
-  | 'booking_follow_up';
+  | 'booking_follow_up'
+  | 'booking_request_received'
+  | 'booking_approved'
+  | 'booking_declined'
+  | 'waitlist_offer'
+  | 'webhook_auto_disabled';
 type EmailDeliveryStatusRecord = 'succeeded' | 'failed';
 type IdempotencyRequestStatusRecord = 'in_progress' | 'completed';
-type WebhookEventPayloadRecord = {
-  id: string;
-  type: WebhookEventTypeRecord;
-  createdAt: string;
-  payload: {
-    bookingId: string;
-    eventTypeId: string;
-    organizerId: string;
-    inviteeEmail: string;
-    inviteeName: string;
-    startsAt: string;
-    endsAt: string;
-    metadata?: Record<string, unknown> | undefined;
-  };
-};
+type PaymentProviderRecord = 'stripe' | 'fake';
+type PaymentRefundPolicyRecord = 'full' | 'none';
+type BookingPaymentStatusRecord = 'pending' | 'succeeded' | 'expired' | 'failed' | 'refunded';
+type SlotWaitlistScopeRecord = 'slot' | 'day';
+type SlotWaitlistStatusRecord = 'waiting' | 'offered' | 'claimed' | 'expired';
+type TeamInvitationStatusRecord = 'pending' | 'accepted' | 'declined' | 'revoked';
+type WebhookEventPayloadRecord =
+  | {
+      id: string;
+      type: WebhookEventTypeRecord;
+      createdAt: string;
+      payload: {
+        bookingId: string;
+        eventTypeId: string;
+        organizerId: string;
+        inviteeEmail: string;
+        inviteeName: string;
+        startsAt: string;
+        endsAt: string;
+        metadata?: Record<string, unknown> | undefined;
+      };
+    }
+  | {
+      id: string;
+      apiVersion: 'v2';
+      type: WebhookEventTypeRecord;
+      createdAt: string;
+      payload: Record<string, unknown>;
+    };
 
 export const teamMemberRoleEnum = pgEnum('team_member_role', ['owner', 'member']);
 export const teamSchedulingModeEnum = pgEnum('team_scheduling_mode', ['round_robin', 'collective']);
-export const calendarProviderEnum = pgEnum('calendar_provider', ['google', 'microsoft']);
+export const teamRoundRobinStrategyEnum = pgEnum('team_round_robin_strategy', [
+  'strict',
+  'weighted',
+  'least_recently_booked',
+  'fewest_in_window',
+]);
+export const teamInvitationStatusEnum = pgEnum('team_invitation_status', [
+  'pending',
+  'accepted',
+  'declined',
+  'revoked',
+]);
+export const calendarProviderEnum = pgEnum('calendar_provider', ['google', 'microsoft', 'caldav']);
 export const calendarWritebackOperationEnum = pgEnum('calendar_writeback_operation', [
   'create',
   'cancel',
@@ -73,6 +125,7 @@ export const analyticsFunnelStageEnum = pgEnum('analytics_funnel_stage', [
   'page_view',
   'slot_selection',
   'booking_confirmed',
+  'routing_decision',
 ]);
 export const notificationRuleTypeEnum = pgEnum('notification_rule_type', ['reminder', 'follow_up']);
 export const scheduledNotificationStatusEnum = pgEnum('scheduled_notification_status', [
@@ -87,12 +140,26 @@ export const emailDeliveryTypeEnum = pgEnum('email_delivery_type', [
   'booking_rescheduled',
   'booking_reminder',
   'booking_follow_up',
+  'booking_request_received',
+  'booking_approved',
+  'booking_declined',
+  'waitlist_offer',
+  'webhook_auto_disabled',
 ]);
 export const emailDeliveryStatusEnum = pgEnum('email_delivery_status', ['succeeded', 'failed']);
 export const idempotencyRequestStatusEnum = pgEnum('idempotency_request_status', [
   'in_progress',
   'completed',
 ]);
+export const paymentProviderEnum = pgEnum('payment_provider', ['stripe', 'fake']);
+export const paymentRefundPolicyEnum = pgEnum('payment_refund_policy', ['full', 'none']);
+export const bookingPaymentStatusEnum = pgEnum('booking_payment_status', [
+  'pending',
+  'succeeded',
+  'expired',
+  'failed',
+  'refunded',
+]);
 
 export const users = pgTable('users', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -114,6 +181,18 @@ export const sessions = pgTable('sessions', {
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
 });
 
+export const calendarFeedTokens = pgTable('calendar_feed_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id')
+    .notNull()
+    .unique()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  tokenHash: text('token_hash').notNull().unique(),
+  lastAccessedAt: timestamp('last_accessed_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
 export const requestRateLimits = pgTable(
   'request_rate_limits',
   {
@@ -150,13 +229,28 @@ export const eventTypes = pgTable(
     dailyBookingLimit: integer('daily_booking_limit'),
     weeklyBookingLimit: integer('weekly_booking_limit'),
     monthlyBookingLimit: integer('monthly_booking_limit'),
+    minimumNoticeMinutes: integer('minimum_notice_minutes').notNull().default(0),
+    bookingHorizonDays: integer('booking_horizon_days'),
+    bufferBeforeMinutes: integer('buffer_before_minutes').notNull().default(0),
+    bufferAfterMinutes: integer('buffer_after_minutes').notNull().default(0),
+    slotIncrementMinutes: integer('slot_increment_minutes'),
     locationType: varchar('location_type', { length: 32 }).notNull().default('video'),
     locationValue: text('location_value'),
     questions: jsonb('questions')
       .$type<EventQuestionRecord[]>()
       .notNull()
       .default(sql`'[]'::jsonb`),
+    availabilityScheduleId: uuid('availability_schedule_id').references(() => availabilitySchedules.id, {
+      onDelete: 'set null',
+    }),
+    priceCents: integer('price_cents'),
+    currency: varchar('currency', { length: 3 }),
+    refundPolicy: paymentRefundPolicyEnum('refund_policy').$type<PaymentRefundPolicyRecord>().notNull().default('full'),
+    refundCutoffHours: integer('refund_cutoff_hours'),
+    requiresConfirmation: boolean('requires_confirmation').notNull().default(false),
+    seatsPerSlot: integer('seats_per_slot'),
     isActive: boolean('is_active').notNull().default(true),
+    archivedAt: timestamp('archived_at', { withTimezone: true }),
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
   },
   (table) => ({
@@ -173,6 +267,34 @@ export const eventTypes = pgTable(
       'event_types_monthly_booking_limit_positive',
       sql`${table.monthlyBookingLimit} is null or (${table.monthlyBookingLimit} > 0 and ${table.monthlyBookingLimit} <= 1000)`,
     ),
+    minimumNoticeRange: check(
+      'event_types_minimum_notice_minutes_range',
+      sql`${table.minimumNoticeMinutes} >= 0 and ${table.minimumNoticeMinutes} <= 43200`,
+    ),
+    bookingHorizonRange: check(
+      'event_types_booking_horizon_days_range',
+      sql`${table.bookingHorizonDays} is null or (${table.bookingHorizonDays} > 0 and ${table.bookingHorizonDays} <= 730)`,
+    ),
+    bufferRange: check(
+      'event_types_buffer_minutes_range',
+      sql`${table.bufferBeforeMinutes} >= 0 and ${table.bufferBeforeMinutes} <= 180 and ${table.bufferAfterMinutes} >= 0 and ${table.bufferAfterMinutes} <= 180`,
+    ),
+    slotIncrementRange: check(
+      'event_types_slot_increment_minutes_range',
+      sql`${table.slotIncrementMinutes} is null or (${table.slotIncrementMinutes} >= 5 and ${table.slotIncrementMinutes} <= 60)`,
+    ),
+    priceCurrencyPaired: check(
+      'event_types_price_currency_paired',
+      sql`(${table.priceCents} is null and ${table.currency} is null) or (${table.priceCents} > 0 and ${table.currency} is not null)`,
+    ),
+    refundCutoffRange: check(
+      'event_types_refund_cutoff_hours_range',
+      sql`${table.refundCutoffHours} is null or (${table.refundCutoffHours} > 0 and ${table.refundCutoffHours} <= 720)`,
+    ),
+    seatsPerSlotRange: check(
+      'event_types_seats_per_slot_range',
+      sql`${table.seatsPerSlot} is null or (${table.seatsPerSlot} >= 2 and ${table.seatsPerSlot} <= 500)`,
+    ),
   }),
 );
 
@@ -216,6 +338,9 @@ export const teamEventTypes = pgTable(
       .references(() => eventTypes.id, { onDelete: 'cascade' }),
     mode: teamSchedulingModeEnum('mode').notNull(),
     roundRobinCursor: integer('round_robin_cursor').notNull().default(0),
+    roundRobinStrategy: teamRoundRobinStrategyEnum('round_robin_strategy').notNull().default('strict'),
+    // Look-back for the weighted and fewest-in-window strategies, counted from assignment time.
+    roundRobinWindowDays: integer('round_robin_window_days').notNull().default(30),
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
   },
   (table) => ({
@@ -235,6 +360,7 @@ export const teamEventTypeMembers = pgTable(
       .notNull()
       .references(() => users.id, { onDelete: 'cascade' }),
     isRequired: boolean('is_required').notNull().default(true),
+    weight: integer('weight').notNull().default(1),
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
   },
   (table) => ({
@@ -245,11 +371,62 @@ export const teamEventTypeMembers = pgTable(
   }),
 );
 
+export const teamInvitations = pgTable(
+  'team_invitations',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    teamId: uuid('team_id')
+      .notNull()
+      .references(() => teams.id, { onDelete: 'cascade' }),
+    email: varchar('email', { length: 320 }).notNull(),
+    role: teamMemberRoleEnum('role').notNull().default('member'),
+    teamEventTypeIds: jsonb('team_event_type_ids')
+      .$type<string[]>()
+      .notNull()
+      .default(sql`'[]'::jsonb`),
+    tokenHash: text('token_hash').notNull().unique(),
+    status: teamInvitationStatusEnum('status').$type<TeamInvitationStatusRecord>().notNull().default('pending'),
+    invitedByUserId: uuid('invited_by_user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    acceptedByUserId: uuid('accepted_by_user_id').references(() => users.id, { onDelete: 'set null' }),
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+    lastSentAt: timestamp('last_sent_at', { withTimezone: true }).notNull().defaultNow(),
+    sendCount: integer('send_count').notNull().default(1),
+    respondedAt: timestamp('responded_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    pendingTeamEmailUnique: uniqueIndex('team_invitations_team_email_pending_uidx')
+      .on(table.teamId, table.email)
+      .where(sql`${table.status} = 'pending'`),
+    teamStatusIndex: index('team_invitations_team_status_idx').on(table.teamId, table.status),
+  }),
+);
+
+export const availabilitySchedules = pgTable(
+  'availability_schedules',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 80 }).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    userNameUnique: unique('availability_schedules_user_name_unique').on(table.userId, table.name),
+  }),
+);
+
 export const availabilityRules = pgTable('availability_rules', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: uuid('user_id')
     .notNull()
     .references(() => users.id, { onDelete: 'cascade' }),
+  scheduleId: uuid('schedule_id').references(() => availabilitySchedules.id, { onDelete: 'cascade' }),
   dayOfWeek: integer('day_of_week').notNull(),
   startMinute: integer('start_minute').notNull(),
   endMinute: integer('end_minute').notNull(),
@@ -319,6 +496,9 @@ export const bookings = pgTable(
     startsAt: timestamp('starts_at', { withTimezone: true }).notNull(),
     endsAt: timestamp('ends_at', { withTimezone: true }).notNull(),
     status: varchar('status', { length: 20 }).notNull().default('confirmed'),
+    holdExpiresAt: timestamp('hold_expires_at', { withTimezone: true }),
+    // One-on-one bookings always take seat 1; seated event types hand out 1..seats_per_slot.
+    seatNumber: integer('seat_number').notNull().default(1),
     rescheduledFromBookingId: uuid('rescheduled_from_booking_id').references(
       (): AnyPgColumn => bookings.id,
       {
@@ -328,18 +508,60 @@ export const bookings = pgTable(
     canceledAt: timestamp('canceled_at', { withTimezone: true }),
     canceledBy: varchar('canceled_by', { length: 32 }),
     cancellationReason: text('cancellation_reason'),
+    noShowAt: timestamp('no_show_at', { withTimezone: true }),
     metadata: text('metadata'),
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
   },
   (table) => ({
     uniqueConfirmedSlot: uniqueIndex('bookings_confirmed_unique_slot')
-      .on(table.organizerId, table.startsAt, table.endsAt)
-      .where(sql`${table.status} = 'confirmed'`),
+      .on(table.organizerId, table.startsAt, table.endsAt, table.seatNumber)
+      .where(sql`${table.status} in ('confirmed', 'pending_payment', 'pending_approval')`),
     eventTypeStatusStartsAtIndex: index('bookings_event_type_status_starts_at_idx').on(
       table.eventTypeId,
       table.status,
       table.startsAt,
     ),
+    organizerStatusStartsAtIndex: index('bookings_organizer_status_starts_at_idx').on(
+      table.organizerId,
+      table.status,
+      table.startsAt,
+    ),
+    statusHoldExpiresAtIndex: index('bookings_status_hold_expires_at_idx').on(table.status, table.holdExpiresAt),
+    seatNumberPositive: check('bookings_seat_number_positive', sql`${table.seatNumber} >= 1`),
+  }),
+);
+
+export const bookingPayments = pgTable(
+  'booking_payments',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    bookingId: uuid('booking_id')
+      .notNull()
+      .references(() => bookings.id, { onDelete: 'cascade' }),
+    organizerId: uuid('organizer_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    provider: paymentProviderEnum('provider').$type<PaymentProviderRecord>().notNull(),
+    providerSessionId: varchar('provider_session_id', { length: 255 }).notNull(),
+    providerPaymentId: varchar('provider_payment_id', { length: 255 }),
+    providerRefundId: varchar('provider_refund_id', { length: 255 }),
+    status: bookingPaymentStatusEnum('status').$type<BookingPaymentStatusRecord>().notNull().default('pending'),
+    amountCents: integer('amount_cents').notNull(),
+    currency: varchar('currency', { length: 3 }).notNull(),
+    checkoutUrl: text('checkout_url').notNull(),
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+    paidAt: timestamp('paid_at', { withTimezone: true }),
+    refundedAt: timestamp('refunded_at', { withTimezone: true }),
+    lastError: text('last_error'),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    providerSessionUnique: unique('booking_payments_provider_session_unique').on(
+      table.provider,
+      table.providerSessionId,
+    ),
+    bookingIndex: index('booking_payments_booking_id_idx').on(table.bookingId),
   }),
 );
 
@@ -458,6 +680,35 @@ export const scheduledNotifications = pgTable(
   }),
 );
 
+export const routingForms = pgTable(
+  'routing_forms',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    slug: varchar('slug', { length: 80 }).notNull().unique(),
+    name: varchar('name', { length: 120 }).notNull(),
+    questions: jsonb('questions')
+      .$type<EventQuestionRecord[]>()
+      .notNull()
+      .default(sql`'[]'::jsonb`),
+    rules: jsonb('rules')
+      .$type<RoutingRuleRecord[]>()
+      .notNull()
+      .default(sql`'[]'::jsonb`),
+    fallbackEventTypeId: uuid('fallback_event_type_id').references(() => eventTypes.id, {
+      onDelete: 'set null',
+    }),
+    isActive: boolean('is_active').notNull().default(true),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    userCreatedAtIndex: index('routing_forms_user_created_at_idx').on(table.userId, table.createdAt),
+  }),
+);
+
 export const analyticsFunnelEvents = pgTable(
   'analytics_funnel_events',
   {
@@ -600,6 +851,8 @@ export const idempotencyRequests = pgTable(
   }),
 );
 
+// Assignments are not tied to the current member list: past rows stay as host history for team
+// analytics after a member leaves, and member removal moves or cancels the upcoming ones itself.
 export const teamBookingAssignments = pgTable(
   'team_booking_assignments',
   {
@@ -631,11 +884,6 @@ export const teamBookingAssignments = pgTable(
     teamEventTypeIdIndex: index('team_booking_assignments_team_event_type_id_idx').on(
       table.teamEventTypeId,
     ),
-    teamMembershipFk: foreignKey({
-      columns: [table.teamEventTypeId, table.userId],
-      foreignColumns: [teamEventTypeMembers.teamEventTypeId, teamEventTypeMembers.userId],
-      name: 'team_booking_assignments_member_fk',
-    }),
   }),
 );
 
@@ -730,6 +978,48 @@ export const waitlistEntries = pgTable(
   }),
 );
 
+export const slotWaitlistEntries = pgTable(
+  'slot_waitlist_entries',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    eventTypeId: uuid('event_type_id')
+      .notNull()
+      .references(() => eventTypes.id, { onDelete: 'cascade' }),
+    organizerId: uuid('organizer_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    scope: varchar('scope', { length: 8 }).$type<SlotWaitlistScopeRecord>().notNull(),
+    // Slot entries key on the ISO start time; day entries on YYYY-MM-DD in the organizer timezone.
+    windowKey: varchar('window_key', { length: 32 }).notNull(),
+    inviteeName: varchar('invitee_name', { length: 120 }).notNull(),
+    inviteeEmail: varchar('invitee_email', { length: 320 }).notNull(),
+    timezone: varchar('timezone', { length: 80 }).notNull().default('UTC'),
+    answers: jsonb('answers').$type<Record<string, unknown>>().notNull().default(sql`'{}'::jsonb`),
+    status: varchar('status', { length: 16 }).$type<SlotWaitlistStatusRecord>().notNull().default('waiting'),
+    claimTokenHash: text('claim_token_hash').unique(),
+    offeredStartsAt: timestamp('offered_starts_at', { withTimezone: true }),
+    offerExpiresAt: timestamp('offer_expires_at', { withTimezone: true }),
+    claimedBookingId: uuid('claimed_booking_id').references(() => bookings.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    scopeCheck: check('slot_waitlist_entries_scope_check', sql`${table.scope} in ('slot', 'day')`),
+    statusCheck: check(
+      'slot_waitlist_entries_status_check',
+      sql`${table.status} in ('waiting', 'offered', 'claimed', 'expired')`,
+    ),
+    uniqueOpenEntry: uniqueIndex('slot_waitlist_entries_open_unique')
+      .on(table.eventTypeId, table.windowKey, table.inviteeEmail)
+      .where(sql`${table.status} in ('waiting', 'offered')`),
+    eventTypeWindowStatusIndex: index('slot_waitlist_entries_event_type_window_status_idx').on(
+      table.eventTypeId,
+      table.windowKey,
+      table.status,
+      table.createdAt,
+    ),
+  }),
+);
+
 export const webhookSubscriptions = pgTable(
   'webhook_subscriptions',
   {
@@ -740,13 +1030,24 @@ export const webhookSubscriptions = pgTable(
     url: varchar('url', { length: 2000 }).notNull(),
     secret: text('secret'),
     secretEncrypted: text('secret_encrypted'),
+    // Set during a rotation grace window; deliveries are signed with both secrets until it expires.
+    previousSecretEncrypted: text('previous_secret_encrypted'),
+    previousSecretExpiresAt: timestamp('previous_secret_expires_at', { withTimezone: true }),
+    secretRotatedAt: timestamp('secret_rotated_at', { withTimezone: true }),
     events: jsonb('events').$type<WebhookEventTypeRecord[]>().notNull(),
+    // Rows created before payload versioning stay on v1 so existing receivers see no change.
+    apiVersion: varchar('api_version', { length: 8 }).$type<WebhookApiVersionRecord>().notNull().default('v1'),
     isActive: boolean('is_active').notNull().default(true),
+    // Deliveries that ran out of retries in a row. Reset by any success or by re-enabling.
+    consecutiveFailureCount: integer('consecutive_failure_count').notNull().default(0),
+    autoDisabledAt: timestamp('auto_disabled_at', { withTimezone: true }),
+    disabledReason: text('disabled_reason'),
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
   },
   (table) => ({
     uniqueUserUrl: unique('webhook_subscriptions_user_url_unique').on(table.userId, table.url),
+    apiVersionValid: check('webhook_subscriptions_api_version_valid', sql`${table.apiVersion} in ('v1', 'v2')`),
   }),
 );
 
@@ -778,6 +1079,10 @@ export const webhookDeliveries = pgTable(
       table.subscriptionId,
       table.eventId,
     ),
+    subscriptionCreatedAtIndex: index('webhook_deliveries_subscription_created_at_idx').on(
+      table.subscriptionId,
+      table.createdAt,
+    ),
   }),
 );
 
@@ -795,6 +1100,7 @@ export const calendarConnections = pgTable(
     refreshTokenEncrypted: text('refresh_token_encrypted').notNull(),
     accessTokenExpiresAt: timestamp('access_token_expires_at', { withTimezone: true }).notNull(),
     scope: text('scope'),
+    caldavCalendarUrl: text('caldav_calendar_url'),
     useForConflictChecks: boolean('use_for_conflict_checks').notNull().default(true),
     useForWriteback: boolean('use_for_writeback').notNull().default(false),
     lastSyncedAt: timestamp('last_synced_at', { withTimezone: true }),
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+
+import { isSafeAnswerPattern } from './answer-pattern';
+
+describe('isSafeAnswerPattern', () => {
+  it('rejects shapes that backtrack exponentially or polynomially on a near-miss answer', () => {
+    const unsafe = [
+      '(a|a)+',
+      '(a|aa)*',
+      '\\w*\\w*\\w*x',
+      '(a+)+$',
+      '(?:[a-z]*\\s?){2,}',
+      '((ab)*c)+',
+      '(a?){30}',
+      'a?a?a?a?aaaa',
+      '(a|a)(a|a)(a|a)(a|a)',
+      '(?=a)a',
+      '(a)\\1',
+    ];
+    for (const pattern of unsafe) {
+      expect(isSafeAnswerPattern(pattern), pattern).toBe(false);
+    }
+  });
+
+  it('accepts common answer formats', () => {
+    const safe = [
+      '[A-Z]{3}-[0-9]+',
+      '([A-Z]{3}-)?[0-9]+',
+      '(ab)+',
+      '(a+)?',
+      '[(a+)]+',
+      '(Mr|Ms|Dr)\\.? [A-Z][a-z]+',
+      '[^@\\s]+@[^@\\s]+\\.[a-z]{2,}',
+      '\\+?[0-9 ]{7,15}',
+      '(?<code>[A-Z]{2})-\\d{4}',
+    ];
+    for (const pattern of safe) {
+      expect(isSafeAnswerPattern(pattern), pattern).toBe(true);
+    }
+  });
+
+  it('keeps the worst accepted pattern fast at the answer length cap', () => {
+    const pattern = '(?:a|a|a|a|a|a|a|a)\\w*a\\w*a\\w*!';
+    expect(isSafeAnswerPattern(pattern)).toBe(true);
+
+    const startedAt = performance.now();
+    expect(new RegExp(`^(?:${pattern})$`).test('a'.repeat(100))).toBe(false);
+    expect(performance.now() - startedAt).toBeLessThan(1000);
+  });
+});
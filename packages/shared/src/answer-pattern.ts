@@ -0,0 +1,152 @@
+// Organizer-defined question patterns run against anonymous booking and routing-form answers on a
+// backtracking engine, so only a subset with a small, fixed backtracking bound is accepted:
+// - no lookaround or backreferences
+// - repeated groups hold fixed-length content without alternation
+// - at most three quantifiers that vary in length, and no two unbounded ones in a row
+// - few alternation paths
+// With the answer length cap, the worst accepted pattern stays around a few million steps.
+export const EVENT_QUESTION_PATTERN_ANSWER_MAX_LENGTH = 100;
+
+const VARYING_QUANTIFIERS_MAX = 3;
+const ALTERNATION_PATHS_MAX = 8;
+
+const QUANTIFIER_PATTERN = /^(?:([*+?])|\{(\d+)(,(\d*))?\})\??/;
+const NAMED_GROUP_PATTERN = /^\?<[A-Za-z_$][\w$]*>/;
+
+type PatternScan = {
+  value: string;
+  index: number;
+  varyingQuantifiers: number;
+  alternationPaths: number;
+};
+
+type PatternShape = {
+  varies: boolean;
+  unbounded: boolean;
+  alternates: boolean;
+};
+
+class UnsafeAnswerPatternError extends Error {}
+
+const FIXED_ATOM: PatternShape = { varies: false, unbounded: false, alternates: false };
+
+const readQuantifier = (scan: PatternScan): { min: number; max: number } | null => {
+  const match = QUANTIFIER_PATTERN.exec(scan.value.slice(scan.index));
+  if (!match) {
+    return null;
+  }
+  scan.index += match[0].length;
+
+  const [, symbol, min, range, max] = match;
+  if (symbol) {
+    return { min: symbol === '+' ? 1 : 0, max: symbol === '?' ? 1 : Number.POSITIVE_INFINITY };
+  }
+  const lower = Number(min);
+  return {
+    min: lower,
+    max: range === undefined ? lower : max ? Number(max) : Number.POSITIVE_INFINITY,
+  };
+};
+
+const scanAtom = (scan: PatternScan): PatternShape => {
+  const char = scan.value[scan.index];
+
+  if (char === '(') {
+    scan.index += 1;
+    if (scan.value[scan.index] === '?') {
+      const namedGroup = NAMED_GROUP_PATTERN.exec(scan.value.slice(scan.index));
+      if (scan.value[scan.index + 1] === ':') {
+        scan.index += 2;
+      } else if (namedGroup) {
+        scan.index += namedGroup[0].length;
+      } else {
+        // Lookahead and lookbehind.
+        throw new UnsafeAnswerPatternError();
+      }
+    }
+    const shape = scanAlternatives(scan);
+    scan.index += 1;
+    return shape;
+  }
+
+  if (char === '\\') {
+    // Backreferences can make matching exponential no matter how the rest is shaped.
+    if (/[1-9k]/.test(scan.value[scan.index + 1] ?? '')) {
+      throw new UnsafeAnswerPatternError();
+    }
+    scan.index += 2;
+    return FIXED_ATOM;
+  }
+
+  if (char === '[') {
+    scan.index += 1;
+    while (scan.index < scan.value.length && scan.value[scan.index] !== ']') {
+      scan.index += scan.value[scan.index] === '\\' ? 2 : 1;
+    }
+    scan.index += 1;
+    return FIXED_ATOM;
+  }
+
+  scan.index += 1;
+  return FIXED_ATOM;
+};
+
+// Reads one alternation (the whole pattern or one group's contents) up to its closing parenthesis.
+const scanAlternatives = (scan: PatternScan): PatternShape => {
+  const shape: PatternShape = { varies: false, unbounded: false, alternates: false };
+  let branches = 1;
+  let previousUnbounded = false;
+
+  while (scan.index < scan.value.length && scan.value[scan.index] !== ')') {
+    if (scan.value[scan.index] === '|') {
+      scan.index += 1;
+      branches += 1;
+      previousUnbounded = false;
+      continue;
+    }
+
+    const atom = scanAtom(scan);
+    const quantifier = readQuantifier(scan);
+    if (quantifier && quantifier.max > 1 && (atom.varies || atom.alternates)) {
+      throw new UnsafeAnswerPatternError();
+    }
+
+    const quantifierVaries = quantifier !== null && quantifier.min !== quantifier.max;
+    if (quantifierVaries) {
+      scan.varyingQuantifiers += 1;
+    }
+    // `\w*\w*` style runs split one stretch of input between quantifiers in every possible way.
+    const atomUnbounded = quantifier?.max === Number.POSITIVE_INFINITY || atom.unbounded;
+    if ((atomUnbounded && previousUnbounded) || scan.varyingQuantifiers > VARYING_QUANTIFIERS_MAX) {
+      throw new UnsafeAnswerPatternError();
+    }
+
+    previousUnbounded = atomUnbounded;
+    shape.varies ||= quantifierVaries || atom.varies;
+    shape.unbounded ||= atomUnbounded;
+    shape.alternates ||= atom.alternates;
+  }
+
+  if (branches > 1) {
+    shape.alternates = true;
+    scan.alternationPaths *= branches;
+    if (scan.alternationPaths > ALTERNATION_PATHS_MAX) {
+      throw new UnsafeAnswerPatternError();
+    }
+  }
+  return shape;
+};
+
+/** Expects a pattern that already compiles; callers check syntax with `new RegExp` first. */
+export const isSafeAnswerPattern = (value: string): boolean => {
+  const scan: PatternScan = { value, index: 0, varyingQuantifiers: 0, alternationPaths: 1 };
+  try {
+    scanAlternatives(scan);
+    return scan.index === value.length;
+  } catch (error) {
+    if (error instanceof UnsafeAnswerPatternError) {
+      return false;
+    }
+    throw error;
+  }
+};
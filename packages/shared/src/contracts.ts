@@ -1,8 +1,15 @@
+import type { BookingAnswerValue, EventQuestionType } from './schemas';
+
 export type BookingQuestion = {
   id: string;
   label: string;
   required: boolean;
   placeholder?: string;
+  type?: EventQuestionType;
+  options?: string[];
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
 };
 
 export type PublicBookingActionLinks = {
@@ -30,6 +37,9 @@ export type PublicEventResponse = {
     locationType: string;
     locationValue: string | null;
     questions: BookingQuestion[];
+    price: PublicEventPrice | null;
+    requiresConfirmation: boolean;
+    seatsPerSlot: number | null;
   };
   organizer: {
     username: string;
@@ -39,6 +49,33 @@ export type PublicEventResponse = {
   error?: string;
 };
 
+export type PublicEventPrice = {
+  amountCents: number;
+  currency: string;
+};
+
+export type PublicRoutingFormResponse = {
+  ok: boolean;
+  form: {
+    slug: string;
+    name: string;
+    questions: BookingQuestion[];
+  };
+  error?: string;
+};
+
+export type RoutingFormSubmitResponse = {
+  ok: boolean;
+  redirectPath?: string;
+  answers?: Record<string, BookingAnswerValue>;
+  target?: {
+    eventTypeId: string;
+    teamEventTypeId: string | null;
+    ruleIndex: number | null;
+  };
+  error?: string;
+};
+
 export type PublicAvailabilitySlot = {
   startsAt: string;
   endsAt: string;
@@ -47,7 +84,53 @@ export type PublicAvailabilitySlot = {
 export type PublicAvailabilityResponse = {
   ok: boolean;
   timezone: string;
-  slots: PublicAvailabilitySlot[];
+  // One-on-one event types report a single remaining seat for every open slot.
+  slots: Array<PublicAvailabilitySlot & { remainingSeats: number }>;
+  error?: string;
+};
+
+export type BookingPaymentStatus = 'pending' | 'succeeded' | 'expired' | 'failed' | 'refunded';
+
+export type PublicBookingPayment = {
+  provider: 'stripe' | 'fake';
+  sessionId: string;
+  status: BookingPaymentStatus;
+  amountCents: number;
+  currency: string;
+  checkoutUrl: string;
+  expiresAt: string;
+};
+
+export type SlotWaitlistJoinResponse = {
+  ok: boolean;
+  entry?: {
+    id: string;
+    scope: 'slot' | 'day';
+    windowKey: string;
+    alreadyJoined: boolean;
+  };
+  error?: string;
+};
+
+export type WaitlistOfferResponse = {
+  ok: boolean;
+  offer: {
+    state: 'open' | 'claimed' | 'expired';
+    startsAt: string;
+    endsAt: string;
+    expiresAt: string | null;
+    timezone: string;
+    inviteeName: string;
+  };
+  eventType: {
+    slug: string;
+    name: string;
+    durationMinutes: number;
+  };
+  organizer: {
+    username: string;
+    displayName: string;
+  };
   error?: string;
 };
 
@@ -57,9 +140,26 @@ export type PublicBookingResponse = {
     id: string;
     startsAt: string;
     endsAt: string;
+    status?: 'confirmed' | 'pending_payment' | 'pending_approval';
   };
   actions?: PublicBookingActionLinks;
   email?: PublicBookingEmailDelivery;
+  payment?: PublicBookingPayment;
+  error?: string;
+};
+
+export type BookingPaymentSessionResponse = {
+  ok: boolean;
+  payment: PublicBookingPayment;
+  booking: {
+    id: string;
+    status: string;
+    startsAt: string;
+    endsAt: string;
+  };
+  eventType: {
+    name: string;
+  };
   error?: string;
 };
 
@@ -92,6 +192,7 @@ export type TeamEventResponse = {
   };
   mode: 'round_robin' | 'collective';
   members: TeamEventMember[];
+  optionalMembers: TeamEventMember[];
   error?: string;
 };
 
@@ -99,6 +200,7 @@ export type TeamAvailabilitySlot = {
   startsAt: string;
   endsAt: string;
   assignmentUserIds: string[];
+  optionalAttendeeUserIds: string[];
 };
 
 export type TeamAvailabilityResponse = {
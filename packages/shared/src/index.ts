@@ -1,2 +1,4 @@
 export * from './schemas';
 export * from './contracts';
+export * from './webhook-signature';
+export * from './answer-pattern';
@@ -2,6 +2,8 @@ import { describe, expect, it } from 'vitest';
 
 import {
   availabilityRuleSchema,
+  availabilityScheduleCreateSchema,
+  availabilityScheduleUpdateSchema,
   bookingActionTokenSchema,
   bookingCancelSchema,
   calendarConnectCompleteSchema,
@@ -16,6 +18,8 @@ import {
   bookingRescheduleSchema,
   setNotificationRulesSchema,
   notificationsRunSchema,
+  organizerBookingsQuerySchema,
+  routingFormCreateSchema,
   eventTypeCreateSchema,
   healthCheckSchema,
   timeOffCreateSchema,
@@ -28,6 +32,7 @@ import {
   webhookSubscriptionCreateSchema,
   webhookSubscriptionUpdateSchema,
   webhookEventSchema,
+  webhookEventV2Schema,
 } from './schemas';
 
 describe('shared schemas', () => {
@@ -67,11 +72,52 @@ describe('shared schemas', () => {
     expect(result.success).toBe(false);
   });
 
+  it('defaults new subscriptions to v2 and keeps v1 to booking events', () => {
+    const base = { url: 'https://example.com/webhooks/opencalendly', secret: 'whsec_super_secret' };
+
+    expect(webhookSubscriptionCreateSchema.parse({ ...base, events: ['team.member_added'] }).apiVersion).toBe('v2');
+    expect(
+      webhookSubscriptionCreateSchema.safeParse({ ...base, apiVersion: 'v1', events: ['booking.no_show'] }).success,
+    ).toBe(true);
+    expect(
+      webhookSubscriptionCreateSchema.safeParse({ ...base, apiVersion: 'v1', events: ['event_type.created'] }).success,
+    ).toBe(false);
+  });
+
+  it('keeps v2 payload shapes tied to their event type', () => {
+    const event = {
+      id: '3f8c8a1e-9a54-4a5e-8c45-1f0f4d3f9b11',
+      apiVersion: 'v2',
+      type: 'calendar.connection_error',
+      createdAt: '2026-03-01T10:00:00.000Z',
+      payload: {
+        calendarConnection: {
+          id: '0d5b6f86-4a4e-4b79-9c7c-6f5f4b7e4c21',
+          userId: '8b1a9953-c461-4296-87b4-5a1a4d7c2f10',
+          provider: 'google',
+          externalEmail: 'owner@example.com',
+          error: 'Google calendar sync failed.',
+          nextSyncAt: null,
+        },
+      },
+    };
+
+    expect(webhookEventV2Schema.safeParse(event).success).toBe(true);
+    expect(webhookEventV2Schema.safeParse({ ...event, type: 'notification.failed' }).success).toBe(false);
+    expect(webhookEventSchema.safeParse({ ...event, type: 'booking.created' }).success).toBe(false);
+  });
+
   it('rejects empty webhook subscription update payloads', () => {
     const result = webhookSubscriptionUpdateSchema.safeParse({});
     expect(result.success).toBe(false);
   });
 
+  it('only accepts replayBacklog when re-enabling a webhook subscription', () => {
+    expect(webhookSubscriptionUpdateSchema.safeParse({ isActive: true, replayBacklog: true }).success).toBe(true);
+    expect(webhookSubscriptionUpdateSchema.safeParse({ isActive: false, replayBacklog: true }).success).toBe(false);
+    expect(webhookSubscriptionUpdateSchema.safeParse({ replayBacklog: false }).success).toBe(false);
+  });
+
   it('accepts event type payloads with booking questions', () => {
     const payload = eventTypeCreateSchema.parse({
       name: 'Intro Call',
@@ -97,6 +143,48 @@ describe('shared schemas', () => {
     expect(payload.monthlyBookingLimit).toBe(100);
   });
 
+  it('validates typed booking question definitions', () => {
+    const base = { name: 'Intro Call', slug: 'intro-call', durationMinutes: 30, locationType: 'video' };
+    const payload = eventTypeCreateSchema.parse({
+      ...base,
+      questions: [
+        { id: 'plan', label: 'Plan', required: true, type: 'single_select', options: ['Free', 'Pro'] },
+        { id: 'ticket', label: 'Ticket', required: false, type: 'short_text', pattern: '[A-Z]{3}-[0-9]+', maxLength: 20 },
+        { id: 'consent', label: 'I agree to the terms', required: true, type: 'checkbox' },
+      ],
+    });
+    expect(payload.questions.map((question) => question.type)).toEqual(['single_select', 'short_text', 'checkbox']);
+
+    const invalidQuestions = [
+      { id: 'plan', label: 'Plan', required: true, type: 'multi_select' },
+      { id: 'plan', label: 'Plan', required: true, type: 'single_select', options: ['Pro', 'Pro'] },
+      { id: 'notes', label: 'Notes', required: false, options: ['a'] },
+      { id: 'seats', label: 'Seats', required: false, type: 'number', maxLength: 3 },
+      { id: 'notes', label: 'Notes', required: false, minLength: 10, maxLength: 5 },
+      { id: 'code', label: 'Code', required: false, pattern: '([a-z' },
+      { id: 'code', label: 'Code', required: false, pattern: '(a|a)+' },
+      { id: 'code', label: 'Code', required: false, pattern: '(a|aa)*' },
+      { id: 'code', label: 'Code', required: false, pattern: '\\w*\\w*\\w*x' },
+      { id: 'code', label: 'Code', required: false, pattern: '[a-z]+', minLength: 101 },
+    ];
+    for (const question of invalidQuestions) {
+      expect(eventTypeCreateSchema.safeParse({ ...base, questions: [question] }).success).toBe(false);
+    }
+  });
+
+  it('accepts typed booking answers', () => {
+    const result = bookingCreateSchema.safeParse({
+      username: 'demo',
+      eventSlug: 'intro-call',
+      startsAt: '2026-03-02T09:00:00.000Z',
+      inviteeName: 'Pat Lee',
+      inviteeEmail: 'pat@example.com',
+      answers: { plan: 'Pro', topics: ['Billing', 'SSO'], consent: true, seats: 12 },
+    });
+
+    expect(result.success).toBe(true);
+  });
+
   it.each([{ dailyBookingLimit: 0 }, { weeklyBookingLimit: 0 }, { monthlyBookingLimit: 0 }])(
     'rejects event type payloads with invalid booking caps: %o',
     (capPatch) => {
@@ -112,6 +200,24 @@ describe('shared schemas', () => {
     },
   );
 
+  it('validates per-event-type notice, horizon, buffers and slot increments', () => {
+    const base = { name: 'Intro Call', slug: 'intro-call', durationMinutes: 30, locationType: 'video' };
+    const payload = eventTypeCreateSchema.parse({
+      ...base,
+      minimumNoticeMinutes: 240,
+      bookingHorizonDays: 60,
+      bufferBeforeMinutes: 10,
+      bufferAfterMinutes: 15,
+      slotIncrementMinutes: 30,
+    });
+
+    expect(payload).toMatchObject({ minimumNoticeMinutes: 240, bookingHorizonDays: 60, slotIncrementMinutes: 30 });
+    expect(eventTypeCreateSchema.safeParse({ ...base, minimumNoticeMinutes: -1 }).success).toBe(false);
+    expect(eventTypeCreateSchema.safeParse({ ...base, bookingHorizonDays: 0 }).success).toBe(false);
+    expect(eventTypeCreateSchema.safeParse({ ...base, bufferAfterMinutes: 181 }).success).toBe(false);
+    expect(eventTypeCreateSchema.safeParse({ ...base, slotIncrementMinutes: 3 }).success).toBe(false);
+  });
+
   it('rejects invalid availability windows', () => {
     const result = availabilityRuleSchema.safeParse({
       dayOfWeek: 1,
@@ -124,6 +230,25 @@ describe('shared schemas', () => {
     expect(result.success).toBe(false);
   });
 
+  it('trims named availability schedules and defaults their rules', () => {
+    const payload = availabilityScheduleCreateSchema.parse({ name: '  Office hours Tue/Thu  ' });
+
+    expect(payload).toEqual({ name: 'Office hours Tue/Thu', rules: [] });
+    expect(availabilityScheduleCreateSchema.safeParse({ name: '   ' }).success).toBe(false);
+    expect(availabilityScheduleUpdateSchema.safeParse({}).success).toBe(false);
+  });
+
+  it('accepts a nullable availability schedule on event types', () => {
+    const base = { name: 'Intro Call', slug: 'intro-call', durationMinutes: 30, locationType: 'video' };
+
+    expect(
+      eventTypeCreateSchema.parse({ ...base, availabilityScheduleId: null }).availabilityScheduleId,
+    ).toBeNull();
+    expect(eventTypeCreateSchema.safeParse({ ...base, availabilityScheduleId: 'office-hours' }).success).toBe(
+      false,
+    );
+  });
+
   it('accepts manual time-off payloads', () => {
     const payload = timeOffCreateSchema.parse({
       startAt: '2026-03-10T09:00:00.000Z',
@@ -288,6 +413,8 @@ describe('shared schemas', () => {
     });
 
     expect(payload.mode).toBe('round_robin');
+    expect(payload.roundRobinStrategy).toBe('strict');
+    expect(payload.roundRobinWindowDays).toBe(30);
   });
 
   it('accepts team booking payloads', () => {
@@ -357,6 +484,35 @@ describe('shared schemas', () => {
     expect(result.success).toBe(false);
   });
 
+  it('rejects routing_decision stage in public funnel tracking payload', () => {
+    const result = analyticsTrackFunnelEventSchema.safeParse({
+      username: 'demo',
+      eventSlug: 'intro-call',
+      stage: 'routing_decision',
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('applies routing form defaults and rejects empty rule conditions', () => {
+    const payload = routingFormCreateSchema.parse({
+      name: 'Talk to sales',
+      slug: 'sales',
+      questions: [{ id: 'company_size', label: 'Company size', required: true, type: 'number' }],
+    });
+
+    expect(payload.rules).toEqual([]);
+    expect(payload.isActive).toBe(true);
+
+    const invalid = routingFormCreateSchema.safeParse({
+      name: 'Talk to sales',
+      slug: 'sales',
+      questions: [{ id: 'company_size', label: 'Company size', required: true, type: 'number' }],
+      rules: [{ conditions: [], eventTypeId: '2f1c7a0e-5b8d-4c1a-9e3f-7d6b5a4c3b2a' }],
+    });
+    expect(invalid.success).toBe(false);
+  });
+
   it('rejects invalid analytics range filters', () => {
     const result = analyticsRangeQuerySchema.safeParse({
       startDate: '2026-04-30',
@@ -374,4 +530,25 @@ describe('shared schemas', () => {
 
     expect(result.success).toBe(false);
   });
+
+  it('defaults organizer bookings query to upcoming with a page size', () => {
+    const result = organizerBookingsQuerySchema.safeParse({});
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.status).toBe('upcoming');
+      expect(result.data.limit).toBe(25);
+    }
+  });
+
+  it('rejects organizer bookings queries with inverted ranges or oversized pages', () => {
+    expect(
+      organizerBookingsQuerySchema.safeParse({
+        startDate: '2026-04-30',
+        endDate: '2026-04-01',
+      }).success,
+    ).toBe(false);
+    expect(organizerBookingsQuerySchema.safeParse({ limit: '500' }).success).toBe(false);
+    expect(organizerBookingsQuerySchema.safeParse({ status: 'pending' }).success).toBe(false);
+  });
 });
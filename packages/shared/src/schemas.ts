@@ -1,5 +1,7 @@
 import { z } from 'zod';
 
+import { EVENT_QUESTION_PATTERN_ANSWER_MAX_LENGTH, isSafeAnswerPattern } from './answer-pattern';
+
 export const healthCheckSchema = z.object({
   status: z.literal('ok'),
 });
@@ -86,18 +88,133 @@ export const usernameSchema = z.string().min(3).max(64).regex(usernamePattern);
 export const eventSlugSchema = z.string().min(2).max(80).regex(slugPattern);
 export const emailSchema = z.string().email().max(320);
 
-export const eventQuestionSchema = z.object({
-  id: z.string().min(1).max(64).regex(questionIdPattern),
-  label: z.string().min(1).max(120),
-  required: z.boolean(),
-  placeholder: z.string().min(1).max(160).optional(),
-});
+export const eventQuestionTypeSchema = z.enum([
+  'short_text',
+  'long_text',
+  'email',
+  'phone',
+  'number',
+  'url',
+  'single_select',
+  'multi_select',
+  'checkbox',
+]);
+
+export const EVENT_QUESTION_SELECT_TYPES = ['single_select', 'multi_select'] as const;
+export const EVENT_QUESTION_TEXT_TYPES = ['short_text', 'long_text', 'email', 'phone', 'url'] as const;
+export const EVENT_QUESTION_ANSWER_MAX_LENGTH = 5000;
+
+const isValidRegexPattern = (value: string): boolean => {
+  try {
+    new RegExp(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Questions stored before typed questions existed have no `type`; they behave as `short_text`.
+export const eventQuestionSchema = z
+  .object({
+    id: z.string().min(1).max(64).regex(questionIdPattern),
+    label: z.string().min(1).max(120),
+    required: z.boolean(),
+    placeholder: z.string().min(1).max(160).optional(),
+    type: eventQuestionTypeSchema.optional(),
+    options: z.array(z.string().trim().min(1).max(120)).min(1).max(50).optional(),
+    minLength: z.number().int().min(0).max(EVENT_QUESTION_ANSWER_MAX_LENGTH).optional(),
+    maxLength: z.number().int().min(1).max(EVENT_QUESTION_ANSWER_MAX_LENGTH).optional(),
+    pattern: z
+      .string()
+      .min(1)
+      .max(200)
+      .refine(isValidRegexPattern, {
+        message: 'Question pattern must be a valid regular expression.',
+      })
+      .refine(isSafeAnswerPattern, {
+        message: 'Question pattern is too complex to check safely against booking answers.',
+      })
+      .optional(),
+  })
+  .superRefine((value, context) => {
+    const type = value.type ?? 'short_text';
+    const isSelect = (EVENT_QUESTION_SELECT_TYPES as readonly string[]).includes(type);
+    const isText = (EVENT_QUESTION_TEXT_TYPES as readonly string[]).includes(type);
+
+    if (isSelect && !value.options) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Select questions need at least one option.',
+        path: ['options'],
+      });
+    }
+    if (!isSelect && value.options) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Only select questions accept options.',
+        path: ['options'],
+      });
+    }
+    if (value.options && new Set(value.options).size !== value.options.length) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Question options must be unique.',
+        path: ['options'],
+      });
+    }
+    if (!isText && (value.minLength !== undefined || value.maxLength !== undefined || value.pattern)) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Length and pattern rules only apply to text questions.',
+        path: ['type'],
+      });
+    }
+    if (value.pattern && value.minLength !== undefined && value.minLength > EVENT_QUESTION_PATTERN_ANSWER_MAX_LENGTH) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Questions with a pattern accept at most ${EVENT_QUESTION_PATTERN_ANSWER_MAX_LENGTH} characters.`,
+        path: ['minLength'],
+      });
+    }
+    if (value.minLength !== undefined && value.maxLength !== undefined && value.minLength > value.maxLength) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'minLength must be less than or equal to maxLength.',
+        path: ['minLength'],
+      });
+    }
+  });
 
 export const eventQuestionsSchema = z.array(eventQuestionSchema).max(20);
 export const locationTypeSchema = z.enum(['video', 'phone', 'in_person', 'custom']);
 export const teamMemberRoleSchema = z.enum(['owner', 'member']);
 export const teamSchedulingModeSchema = z.enum(['round_robin', 'collective']);
+export const teamRoundRobinStrategySchema = z.enum(['strict', 'weighted', 'least_recently_booked', 'fewest_in_window']);
+export const teamRoundRobinWindowDaysSchema = z.number().int().min(1).max(365);
+export const teamMemberWeightsSchema = z.record(z.string().uuid(), z.number().int().min(1).max(100));
 export const bookingLimitSchema = z.number().int().min(1).max(1000);
+export const currencySchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z]{3}$/, 'Currency must be a three-letter ISO code.');
+export const refundPolicySchema = z.enum(['full', 'none']);
+
+const eventTypeSchedulingFields = {
+  minimumNoticeMinutes: z.number().int().min(0).max(43200).optional(),
+  bookingHorizonDays: z.number().int().min(1).max(730).nullish(),
+  bufferBeforeMinutes: z.number().int().min(0).max(180).optional(),
+  bufferAfterMinutes: z.number().int().min(0).max(180).optional(),
+  slotIncrementMinutes: z.number().int().min(5).max(60).nullish(),
+};
+
+// Prices are in the currency's minor unit. Leaving priceCents empty keeps the event type free.
+const eventTypePaymentFields = {
+  priceCents: z.number().int().min(50).max(1_000_000).nullish(),
+  currency: currencySchema.nullish(),
+  refundPolicy: refundPolicySchema.optional(),
+  refundCutoffHours: z.number().int().min(1).max(720).nullish(),
+};
 
 export const clerkAuthExchangeRequestSchema = z.object({
   clerkToken: z.string().min(20).max(4096),
@@ -134,6 +251,12 @@ export const eventTypeCreateSchema = z.object({
   dailyBookingLimit: bookingLimitSchema.nullish(),
   weeklyBookingLimit: bookingLimitSchema.nullish(),
   monthlyBookingLimit: bookingLimitSchema.nullish(),
+  ...eventTypeSchedulingFields,
+  ...eventTypePaymentFields,
+  availabilityScheduleId: z.string().uuid().nullish(),
+  requiresConfirmation: z.boolean().optional(),
+  // Leaving seatsPerSlot empty keeps the event type one-on-one.
+  seatsPerSlot: z.number().int().min(2).max(500).nullish(),
 });
 
 export const eventTypeUpdateSchema = eventTypeCreateSchema
@@ -145,6 +268,11 @@ export const eventTypeUpdateSchema = eventTypeCreateSchema
     message: 'At least one field is required.',
   });
 
+export const eventTypeDuplicateSchema = z.object({
+  name: z.string().min(1).max(120).optional(),
+  slug: eventSlugSchema.optional(),
+});
+
 export const teamCreateSchema = z.object({
   name: z.string().min(1).max(120),
   slug: eventSlugSchema,
@@ -155,6 +283,24 @@ export const teamAddMemberSchema = z.object({
   role: teamMemberRoleSchema.default('member'),
 });
 
+export const teamMemberRoleUpdateSchema = z.object({
+  role: teamMemberRoleSchema,
+});
+
+export const teamOwnershipTransferSchema = z.object({
+  userId: z.string().uuid(),
+});
+
+export const teamMemberRemovalQuerySchema = z.object({
+  futureBookings: z.enum(['reassign', 'cancel']).default('reassign'),
+});
+
+export const teamInvitationCreateSchema = z.object({
+  email: emailSchema,
+  role: teamMemberRoleSchema.default('member'),
+  teamEventTypeIds: z.array(z.string().uuid()).max(50).default([]),
+});
+
 export const teamEventTypeCreateSchema = z.object({
   teamId: z.string().uuid(),
   name: z.string().min(1).max(120),
@@ -167,9 +313,55 @@ export const teamEventTypeCreateSchema = z.object({
   dailyBookingLimit: bookingLimitSchema.nullish(),
   weeklyBookingLimit: bookingLimitSchema.nullish(),
   monthlyBookingLimit: bookingLimitSchema.nullish(),
+  ...eventTypeSchedulingFields,
   requiredMemberUserIds: z.array(z.string().uuid()).min(1).max(100).optional(),
+  optionalMemberUserIds: z.array(z.string().uuid()).max(100).optional(),
+  roundRobinStrategy: teamRoundRobinStrategySchema.default('strict'),
+  roundRobinWindowDays: teamRoundRobinWindowDaysSchema.default(30),
+  memberWeights: teamMemberWeightsSchema.optional(),
+});
+
+export const teamRoundRobinSettingsSchema = z.object({
+  strategy: teamRoundRobinStrategySchema,
+  windowDays: teamRoundRobinWindowDaysSchema.optional(),
+  memberWeights: teamMemberWeightsSchema.optional(),
 });
 
+export const routingRuleOperatorSchema = z.enum(['equals', 'not_equals', 'contains', 'greater_than', 'less_than']);
+export const routingRuleConditionSchema = z.object({
+  questionId: z.string().min(1).max(64).regex(questionIdPattern),
+  operator: routingRuleOperatorSchema,
+  value: z.union([z.string().trim().min(1).max(200), z.number().finite(), z.boolean()]),
+});
+
+// Rules are evaluated in order and the first rule whose conditions all match wins.
+export const routingRuleSchema = z.object({
+  conditions: z.array(routingRuleConditionSchema).min(1).max(10),
+  eventTypeId: z.string().uuid(),
+});
+
+export const routingFormCreateSchema = z.object({
+  name: z.string().min(1).max(120),
+  slug: eventSlugSchema,
+  questions: eventQuestionsSchema.min(1),
+  rules: z.array(routingRuleSchema).max(50).default([]),
+  fallbackEventTypeId: z.string().uuid().nullish(),
+  isActive: z.boolean().default(true),
+});
+
+export const routingFormUpdateSchema = z
+  .object({
+    name: z.string().min(1).max(120).optional(),
+    slug: eventSlugSchema.optional(),
+    questions: eventQuestionsSchema.min(1).optional(),
+    rules: z.array(routingRuleSchema).max(50).optional(),
+    fallbackEventTypeId: z.string().uuid().nullable().optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((value) => Object.keys(value).length > 0, {
+    message: 'At least one field is required.',
+  });
+
 export const availabilityRuleSchema = z
   .object({
     dayOfWeek: z.number().int().min(0).max(6),
@@ -197,6 +389,22 @@ export const setAvailabilityRulesSchema = z.object({
   rules: z.array(availabilityRuleSchema).max(50),
 });
 
+export const availabilityScheduleNameSchema = z.string().trim().min(1).max(80);
+
+export const availabilityScheduleCreateSchema = z.object({
+  name: availabilityScheduleNameSchema,
+  rules: z.array(availabilityRuleSchema).max(50).default([]),
+});
+
+export const availabilityScheduleUpdateSchema = z
+  .object({
+    name: availabilityScheduleNameSchema.optional(),
+    rules: z.array(availabilityRuleSchema).max(50).optional(),
+  })
+  .refine((value) => Object.keys(value).length > 0, {
+    message: 'At least one field is required.',
+  });
+
 export const setAvailabilityOverridesSchema = z.object({
   overrides: z.array(availabilityOverrideSchema).max(200),
 });
@@ -222,6 +430,16 @@ export const availabilityQuerySchema = z.object({
   days: z.coerce.number().int().min(1).max(30).optional(),
 });
 
+// Text-like questions answer with strings, multi select with an option list, checkbox with a
+// boolean, and number with a number (numeric strings are accepted and converted server-side).
+export const bookingAnswerValueSchema = z.union([
+  z.string().max(EVENT_QUESTION_ANSWER_MAX_LENGTH),
+  z.array(z.string().max(120)).max(50),
+  z.boolean(),
+  z.number().finite(),
+]);
+export const bookingAnswersSchema = z.record(z.string(), bookingAnswerValueSchema);
+
 export const bookingCreateSchema = z.object({
   username: usernameSchema,
   eventSlug: eventSlugSchema,
@@ -229,7 +447,7 @@ export const bookingCreateSchema = z.object({
   timezone: timezoneSchema.optional(),
   inviteeName: z.string().min(1).max(120),
   inviteeEmail: emailSchema,
-  answers: z.record(z.string(), z.string()).optional(),
+  answers: bookingAnswersSchema.optional(),
 });
 
 export const teamBookingCreateSchema = z.object({
@@ -239,13 +457,21 @@ export const teamBookingCreateSchema = z.object({
   timezone: timezoneSchema.optional(),
   inviteeName: z.string().min(1).max(120),
   inviteeEmail: emailSchema,
-  answers: z.record(z.string(), z.string()).optional(),
+  answers: bookingAnswersSchema.optional(),
+});
+
+export const routingFormSubmitSchema = z.object({
+  answers: bookingAnswersSchema.default({}),
 });
 
 export const bookingCancelSchema = z.object({
   reason: z.string().min(1).max(500).nullish(),
 });
 
+export const bookingRequestDeclineSchema = z.object({
+  reason: z.string().min(1).max(500).nullish(),
+});
+
 export const bookingRescheduleSchema = z.object({
   startsAt: z.string().datetime({ offset: true }),
   timezone: timezoneSchema.optional(),
@@ -287,13 +513,59 @@ export const waitlistJoinSchema = z.object({
   metadata: z.record(z.string(), z.unknown()).optional(),
 });
 
-export const webhookEventTypeSchema = z.enum([
+export const slotWaitlistScopeSchema = z.enum(['slot', 'day']);
+
+export const slotWaitlistJoinSchema = z
+  .object({
+    scope: slotWaitlistScopeSchema,
+    startsAt: z.string().datetime({ offset: true }).optional(),
+    date: isoDateSchema.optional(),
+    timezone: timezoneSchema.optional(),
+    inviteeName: z.string().min(1).max(120),
+    inviteeEmail: emailSchema,
+    answers: bookingAnswersSchema.optional(),
+  })
+  .superRefine((value, context) => {
+    if (value.scope === 'slot' && !value.startsAt) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Slot waitlists need a startsAt time.',
+        path: ['startsAt'],
+      });
+    }
+    if (value.scope === 'day' && !value.date) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Day waitlists need a date.',
+        path: ['date'],
+      });
+    }
+  });
+
+export const webhookBookingEventTypeSchema = z.enum([
   'booking.created',
   'booking.canceled',
   'booking.rescheduled',
+  'booking.requested',
+  'booking.approved',
+  'booking.declined',
+  'booking.no_show',
 ]);
 
-export const calendarProviderSchema = z.enum(['google', 'microsoft']);
+export const webhookEventTypeSchema = z.enum([
+  ...webhookBookingEventTypeSchema.options,
+  'event_type.created',
+  'event_type.updated',
+  'calendar.connection_error',
+  'team.member_added',
+  'notification.failed',
+]);
+
+// v1 keeps the original flat booking payload; v2 adds expanded objects and non-booking events.
+export const webhookApiVersionSchema = z.enum(['v1', 'v2']);
+export const WEBHOOK_LATEST_API_VERSION = 'v2';
+
+export const calendarProviderSchema = z.enum(['google', 'microsoft', 'caldav']);
 
 export const calendarConnectStartSchema = z.object({
   redirectUri: z.string().url().max(2000),
@@ -305,6 +577,12 @@ export const calendarConnectCompleteSchema = z.object({
   redirectUri: z.string().url().max(2000),
 });
 
+export const caldavConnectSchema = z.object({
+  calendarUrl: z.string().trim().url().max(2000),
+  username: z.string().trim().min(1).max(320),
+  password: z.string().min(1).max(1024),
+});
+
 export const calendarSyncRequestSchema = z
   .object({
     start: z.string().datetime({ offset: true }).optional(),
@@ -337,11 +615,16 @@ export const calendarWritebackRunSchema = z.object({
   limit: z.number().int().min(1).max(100).optional(),
 });
 
-export const analyticsFunnelStageSchema = z.enum(['page_view', 'slot_selection', 'booking_confirmed']);
+export const analyticsFunnelStageSchema = z.enum([
+  'page_view',
+  'slot_selection',
+  'booking_confirmed',
+  'routing_decision',
+]);
 export const analyticsTrackFunnelEventSchema = z.object({
   username: usernameSchema,
   eventSlug: eventSlugSchema,
-  stage: analyticsFunnelStageSchema.exclude(['booking_confirmed']),
+  stage: analyticsFunnelStageSchema.exclude(['booking_confirmed', 'routing_decision']),
 });
 
 export const analyticsRangeQuerySchema = z
@@ -364,13 +647,57 @@ export const analyticsRangeQuerySchema = z
     },
   );
 
-export const webhookSubscriptionCreateSchema = z.object({
-  url: z.string().url().max(2000).refine(isSafeWebhookTargetUrl, {
-    message: 'Use an HTTPS webhook URL with a public hostname.',
-  }),
-  events: z.array(webhookEventTypeSchema).min(1).max(3),
-  secret: z.string().min(8).max(200),
-});
+export const organizerBookingsStatusSchema = z.enum(['upcoming', 'past', 'canceled']);
+
+export const organizerBookingsQuerySchema = z
+  .object({
+    status: organizerBookingsStatusSchema.default('upcoming'),
+    startDate: isoDateSchema.optional(),
+    endDate: isoDateSchema.optional(),
+    eventTypeId: z.string().uuid().optional(),
+    q: z.string().trim().min(1).max(120).optional(),
+    cursor: z.string().min(1).max(200).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(25),
+  })
+  .refine(
+    (value) => {
+      if (!value.startDate || !value.endDate) {
+        return true;
+      }
+      return value.endDate >= value.startDate;
+    },
+    {
+      message: 'endDate must be on or after startDate.',
+      path: ['endDate'],
+    },
+  );
+
+export const findWebhookApiVersionIssue = (
+  apiVersion: z.infer<typeof webhookApiVersionSchema>,
+  events: Array<z.infer<typeof webhookEventTypeSchema>>,
+): string | null => {
+  if (apiVersion !== 'v1') {
+    return null;
+  }
+  const unsupported = events.find((event) => !webhookBookingEventTypeSchema.safeParse(event).success);
+  return unsupported ? `${unsupported} is only delivered to apiVersion v2 subscriptions.` : null;
+};
+
+export const webhookSubscriptionCreateSchema = z
+  .object({
+    url: z.string().url().max(2000).refine(isSafeWebhookTargetUrl, {
+      message: 'Use an HTTPS webhook URL with a public hostname.',
+    }),
+    events: z.array(webhookEventTypeSchema).min(1).max(webhookEventTypeSchema.options.length),
+    secret: z.string().min(8).max(200),
+    apiVersion: webhookApiVersionSchema.default(WEBHOOK_LATEST_API_VERSION),
+  })
+  .superRefine((value, context) => {
+    const issue = findWebhookApiVersionIssue(value.apiVersion, value.events);
+    if (issue) {
+      context.addIssue({ code: z.ZodIssueCode.custom, message: issue, path: ['events'] });
+    }
+  });
 
 export const webhookSubscriptionUpdateSchema = z
   .object({
@@ -382,14 +709,40 @@ export const webhookSubscriptionUpdateSchema = z
         message: 'Use an HTTPS webhook URL with a public hostname.',
       })
       .optional(),
-    events: z.array(webhookEventTypeSchema).min(1).max(3).optional(),
+    events: z.array(webhookEventTypeSchema).min(1).max(webhookEventTypeSchema.options.length).optional(),
     secret: z.string().min(8).max(200).optional(),
     isActive: z.boolean().optional(),
+    apiVersion: webhookApiVersionSchema.optional(),
+    // Only meaningful when re-enabling: deliver the events held while the subscription was off.
+    replayBacklog: z.boolean().optional(),
   })
   .refine((value) => Object.keys(value).length > 0, {
     message: 'At least one field is required.',
+  })
+  .refine((value) => value.replayBacklog === undefined || value.isActive === true, {
+    message: 'replayBacklog can only be sent with isActive: true.',
   });
 
+export const webhookSecretRotateSchema = z.object({
+  secret: z.string().min(8).max(200),
+  // How long receivers keep accepting the old secret. Capped at a week so stale secrets do not linger.
+  gracePeriodHours: z.number().int().min(1).max(168).default(24),
+});
+
+export const webhookDeliveryStatusSchema = z.enum(['pending', 'succeeded', 'failed']);
+
+export const webhookDeliveriesQuerySchema = z.object({
+  status: webhookDeliveryStatusSchema.optional(),
+  eventType: webhookEventTypeSchema.optional(),
+  cursor: z.string().min(1).max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const webhookDeliveriesReplayFailedSchema = z.object({
+  since: z.string().datetime(),
+  subscriptionId: z.string().uuid().optional(),
+});
+
 export const webhookEventPayloadSchema = z.object({
   bookingId: z.string().uuid(),
   eventTypeId: z.string().uuid(),
@@ -403,11 +756,130 @@ export const webhookEventPayloadSchema = z.object({
 
 export const webhookEventSchema = z.object({
   id: z.string().uuid(),
-  type: webhookEventTypeSchema,
+  type: webhookBookingEventTypeSchema,
   createdAt: z.string().datetime(),
   payload: webhookEventPayloadSchema,
 });
 
+export const webhookBookingSnapshotSchema = z.object({
+  id: z.string().uuid(),
+  status: z.string().min(1).max(20),
+  startsAt: z.string().datetime(),
+  endsAt: z.string().datetime(),
+  timezone: z.string().nullable(),
+  organizerId: z.string().uuid(),
+  invitee: z.object({ name: z.string().min(1).max(120), email: z.string().email() }),
+  eventType: z.object({
+    id: z.string().uuid(),
+    slug: z.string(),
+    name: z.string(),
+    durationMinutes: z.number().int(),
+  }),
+  location: z.object({ type: locationTypeSchema, value: z.string().nullable() }),
+  answers: bookingAnswersSchema,
+  team: z
+    .object({
+      teamId: z.string().uuid(),
+      teamEventTypeId: z.string().uuid(),
+      mode: teamSchedulingModeSchema,
+      assignmentUserIds: z.array(z.string()),
+    })
+    .nullable(),
+  cancellation: z
+    .object({
+      canceledAt: z.string().datetime().nullable(),
+      canceledBy: z.string().nullable(),
+      reason: z.string().nullable(),
+    })
+    .nullable(),
+  rescheduledFromBookingId: z.string().uuid().nullable(),
+  rescheduledToBookingId: z.string().uuid().nullable(),
+  noShowAt: z.string().datetime().nullable(),
+  metadata: z.record(z.string(), z.unknown()),
+});
+
+export const webhookEventTypeSnapshotSchema = z.object({
+  id: z.string().uuid(),
+  organizerId: z.string().uuid(),
+  slug: z.string(),
+  name: z.string(),
+  durationMinutes: z.number().int(),
+  location: z.object({ type: locationTypeSchema, value: z.string().nullable() }),
+  requiresConfirmation: z.boolean(),
+  priceCents: z.number().int().nullable(),
+  currency: z.string().nullable(),
+  seatsPerSlot: z.number().int().nullable(),
+  isActive: z.boolean(),
+});
+
+const webhookEventV2Base = {
+  id: z.string().uuid(),
+  apiVersion: z.literal('v2'),
+  createdAt: z.string().datetime(),
+};
+
+export const webhookEventV2Schema = z.discriminatedUnion('type', [
+  z.object({
+    ...webhookEventV2Base,
+    type: webhookBookingEventTypeSchema,
+    payload: z.object({ booking: webhookBookingSnapshotSchema }),
+  }),
+  z.object({
+    ...webhookEventV2Base,
+    type: z.enum(['event_type.created', 'event_type.updated']),
+    payload: z.object({
+      eventType: webhookEventTypeSnapshotSchema,
+      changedFields: z.array(z.string()),
+    }),
+  }),
+  z.object({
+    ...webhookEventV2Base,
+    type: z.literal('calendar.connection_error'),
+    payload: z.object({
+      calendarConnection: z.object({
+        id: z.string().uuid(),
+        userId: z.string().uuid(),
+        provider: calendarProviderSchema,
+        externalEmail: z.string().nullable(),
+        error: z.string(),
+        nextSyncAt: z.string().datetime().nullable(),
+      }),
+    }),
+  }),
+  z.object({
+    ...webhookEventV2Base,
+    type: z.literal('team.member_added'),
+    payload: z.object({
+      team: z.object({ id: z.string().uuid(), slug: z.string(), name: z.string() }),
+      member: z.object({
+        userId: z.string().uuid(),
+        email: z.string().email(),
+        displayName: z.string(),
+        role: teamMemberRoleSchema,
+      }),
+      source: z.enum(['direct', 'invitation']),
+    }),
+  }),
+  z.object({
+    ...webhookEventV2Base,
+    type: z.literal('notification.failed'),
+    payload: z.object({
+      notification: z.object({
+        id: z.string().uuid(),
+        bookingId: z.string().uuid(),
+        eventTypeId: z.string().uuid(),
+        type: notificationRuleTypeSchema,
+        recipientEmail: z.string().email(),
+        attemptCount: z.number().int(),
+        error: z.string(),
+      }),
+    }),
+  }),
+]);
+
+// Rows written before versioning hold v1 events, so both shapes stay readable.
+export const storedWebhookEventSchema = z.union([webhookEventV2Schema, webhookEventSchema]);
+
 export type HealthCheck = z.infer<typeof healthCheckSchema>;
 export type ClerkAuthExchangeRequest = z.infer<typeof clerkAuthExchangeRequestSchema>;
 export type ProfileUpdateInput = z.infer<typeof profileUpdateSchema>;
@@ -415,13 +887,32 @@ export type BookingActionToken = z.infer<typeof bookingActionTokenSchema>;
 export type BookingActionType = z.infer<typeof bookingActionTypeSchema>;
 export type EventTypeCreateInput = z.infer<typeof eventTypeCreateSchema>;
 export type EventTypeUpdateInput = z.infer<typeof eventTypeUpdateSchema>;
+export type RefundPolicy = z.infer<typeof refundPolicySchema>;
+export type EventTypeDuplicateInput = z.infer<typeof eventTypeDuplicateSchema>;
 export type EventQuestion = z.infer<typeof eventQuestionSchema>;
+export type EventQuestionType = z.infer<typeof eventQuestionTypeSchema>;
+export type BookingAnswerValue = z.infer<typeof bookingAnswerValueSchema>;
+export type BookingAnswers = z.infer<typeof bookingAnswersSchema>;
 export type TeamMemberRole = z.infer<typeof teamMemberRoleSchema>;
 export type TeamSchedulingMode = z.infer<typeof teamSchedulingModeSchema>;
+export type TeamRoundRobinStrategy = z.infer<typeof teamRoundRobinStrategySchema>;
 export type TeamCreateInput = z.infer<typeof teamCreateSchema>;
 export type TeamAddMemberInput = z.infer<typeof teamAddMemberSchema>;
+export type TeamMemberRoleUpdateInput = z.infer<typeof teamMemberRoleUpdateSchema>;
+export type TeamOwnershipTransferInput = z.infer<typeof teamOwnershipTransferSchema>;
+export type TeamMemberRemovalQuery = z.infer<typeof teamMemberRemovalQuerySchema>;
+export type TeamInvitationCreateInput = z.infer<typeof teamInvitationCreateSchema>;
 export type TeamEventTypeCreateInput = z.infer<typeof teamEventTypeCreateSchema>;
+export type TeamRoundRobinSettingsInput = z.infer<typeof teamRoundRobinSettingsSchema>;
+export type RoutingRuleOperator = z.infer<typeof routingRuleOperatorSchema>;
+export type RoutingRuleCondition = z.infer<typeof routingRuleConditionSchema>;
+export type RoutingRule = z.infer<typeof routingRuleSchema>;
+export type RoutingFormCreateInput = z.infer<typeof routingFormCreateSchema>;
+export type RoutingFormUpdateInput = z.infer<typeof routingFormUpdateSchema>;
+export type RoutingFormSubmitInput = z.infer<typeof routingFormSubmitSchema>;
 export type AvailabilityRuleInput = z.infer<typeof availabilityRuleSchema>;
+export type AvailabilityScheduleCreateInput = z.infer<typeof availabilityScheduleCreateSchema>;
+export type AvailabilityScheduleUpdateInput = z.infer<typeof availabilityScheduleUpdateSchema>;
 export type AvailabilityOverrideInput = z.infer<typeof availabilityOverrideSchema>;
 export type AvailabilityQueryInput = z.infer<typeof availabilityQuerySchema>;
 export type TimeOffCreateInput = z.infer<typeof timeOffCreateSchema>;
@@ -429,20 +920,34 @@ export type TimeOffHolidayImportInput = z.infer<typeof timeOffHolidayImportSchem
 export type BookingCreateInput = z.infer<typeof bookingCreateSchema>;
 export type TeamBookingCreateInput = z.infer<typeof teamBookingCreateSchema>;
 export type BookingCancelInput = z.infer<typeof bookingCancelSchema>;
+export type BookingRequestDeclineInput = z.infer<typeof bookingRequestDeclineSchema>;
 export type BookingRescheduleInput = z.infer<typeof bookingRescheduleSchema>;
 export type NotificationRuleType = z.infer<typeof notificationRuleTypeSchema>;
 export type NotificationRuleInput = z.infer<typeof notificationRuleSchema>;
 export type SetNotificationRulesInput = z.infer<typeof setNotificationRulesSchema>;
 export type NotificationsRunInput = z.infer<typeof notificationsRunSchema>;
 export type WaitlistJoinInput = z.infer<typeof waitlistJoinSchema>;
+export type SlotWaitlistScope = z.infer<typeof slotWaitlistScopeSchema>;
+export type SlotWaitlistJoinInput = z.infer<typeof slotWaitlistJoinSchema>;
 export type WebhookEventType = z.infer<typeof webhookEventTypeSchema>;
+export type WebhookBookingEventType = z.infer<typeof webhookBookingEventTypeSchema>;
+export type WebhookApiVersion = z.infer<typeof webhookApiVersionSchema>;
 export type WebhookSubscriptionCreateInput = z.infer<typeof webhookSubscriptionCreateSchema>;
 export type WebhookSubscriptionUpdateInput = z.infer<typeof webhookSubscriptionUpdateSchema>;
+export type WebhookSecretRotateInput = z.infer<typeof webhookSecretRotateSchema>;
+export type WebhookDeliveryStatus = z.infer<typeof webhookDeliveryStatusSchema>;
+export type WebhookDeliveriesQueryInput = z.infer<typeof webhookDeliveriesQuerySchema>;
+export type WebhookDeliveriesReplayFailedInput = z.infer<typeof webhookDeliveriesReplayFailedSchema>;
 export type WebhookEventPayload = z.infer<typeof webhookEventPayloadSchema>;
 export type WebhookEvent = z.infer<typeof webhookEventSchema>;
+export type WebhookBookingSnapshot = z.infer<typeof webhookBookingSnapshotSchema>;
+export type WebhookEventTypeSnapshot = z.infer<typeof webhookEventTypeSnapshotSchema>;
+export type WebhookEventV2 = z.infer<typeof webhookEventV2Schema>;
+export type StoredWebhookEvent = z.infer<typeof storedWebhookEventSchema>;
 export type CalendarProvider = z.infer<typeof calendarProviderSchema>;
 export type CalendarConnectStartInput = z.infer<typeof calendarConnectStartSchema>;
 export type CalendarConnectCompleteInput = z.infer<typeof calendarConnectCompleteSchema>;
+export type CaldavConnectInput = z.infer<typeof caldavConnectSchema>;
 export type CalendarSyncRequestInput = z.infer<typeof calendarSyncRequestSchema>;
 export type CalendarConnectionPreferencesUpdateInput = z.infer<
   typeof calendarConnectionPreferencesUpdateSchema
@@ -452,3 +957,5 @@ export type OnboardingCompleteInput = z.infer<typeof onboardingCompleteSchema>;
 export type AnalyticsFunnelStage = z.infer<typeof analyticsFunnelStageSchema>;
 export type AnalyticsTrackFunnelEventInput = z.infer<typeof analyticsTrackFunnelEventSchema>;
 export type AnalyticsRangeQueryInput = z.infer<typeof analyticsRangeQuerySchema>;
+export type OrganizerBookingsStatus = z.infer<typeof organizerBookingsStatusSchema>;
+export type OrganizerBookingsQueryInput = z.infer<typeof organizerBookingsQuerySchema>;
@@ -0,0 +1,63 @@
+import { createHmac } from 'node:crypto';
+
+import { describe, expect, it } from 'vitest';
+
+import { parseWebhookSignatureHeader, verifyWebhookSignature } from './webhook-signature';
+
+const secret = 'whsec_test_secret';
+const payload = '{"id":"evt_1","type":"ping"}';
+const timestamp = 1_772_094_000;
+const now = new Date(timestamp * 1000);
+
+const sign = (key: string, body: string, seconds: number) =>
+  createHmac('sha256', key).update(`${seconds}.${body}`).digest('hex');
+
+describe('webhook signature verifier', () => {
+  it('parses headers with one or more v1 signatures and rejects malformed ones', () => {
+    const first = sign(secret, payload, timestamp);
+    const second = sign('whsec_next_secret', payload, timestamp);
+
+    expect(parseWebhookSignatureHeader(`t=${timestamp},v1=${first},v1=${second}`)).toEqual({
+      timestamp,
+      signatures: [first, second],
+    });
+    expect(parseWebhookSignatureHeader(`t=${timestamp},v0=legacy,v1=${first}`)?.signatures).toEqual([first]);
+    expect(parseWebhookSignatureHeader(`v1=${first}`)).toBeNull();
+    expect(parseWebhookSignatureHeader(`t=${timestamp},v1=not-hex`)).toBeNull();
+    expect(parseWebhookSignatureHeader('garbage')).toBeNull();
+  });
+
+  it('accepts a valid signature inside the tolerance window', async () => {
+    const header = `t=${timestamp},v1=${sign(secret, payload, timestamp)}`;
+
+    await expect(verifyWebhookSignature({ payload, header, secret, now })).resolves.toEqual({ ok: true, timestamp });
+
+    const dualHeader = `t=${timestamp},v1=${sign('whsec_old_secret', payload, timestamp)},v1=${sign(secret, payload, timestamp)}`;
+    await expect(verifyWebhookSignature({ payload, header: dualHeader, secret, now })).resolves.toMatchObject({
+      ok: true,
+    });
+  });
+
+  it('rejects tampered bodies, wrong secrets, and stale timestamps', async () => {
+    const header = `t=${timestamp},v1=${sign(secret, payload, timestamp)}`;
+
+    await expect(verifyWebhookSignature({ payload: `${payload} `, header, secret, now })).resolves.toEqual({
+      ok: false,
+      reason: 'signature_mismatch',
+    });
+    await expect(verifyWebhookSignature({ payload, header, secret: 'whsec_other', now })).resolves.toEqual({
+      ok: false,
+      reason: 'signature_mismatch',
+    });
+    await expect(
+      verifyWebhookSignature({ payload, header, secret, now: new Date((timestamp + 301) * 1000) }),
+    ).resolves.toEqual({ ok: false, reason: 'timestamp_outside_tolerance' });
+    await expect(
+      verifyWebhookSignature({ payload, header, secret, toleranceSeconds: 600, now: new Date((timestamp + 301) * 1000) }),
+    ).resolves.toMatchObject({ ok: true });
+    await expect(verifyWebhookSignature({ payload, header: null, secret, now })).resolves.toEqual({
+      ok: false,
+      reason: 'malformed_header',
+    });
+  });
+});
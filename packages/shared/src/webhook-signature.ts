@@ -0,0 +1,104 @@
+export const WEBHOOK_SIGNATURE_HEADER = 'X-OpenCalendly-Signature';
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export type ParsedWebhookSignatureHeader = {
+  timestamp: number;
+  signatures: string[];
+};
+
+export type WebhookSignatureVerification =
+  | { ok: true; timestamp: number }
+  | { ok: false; reason: 'malformed_header' | 'timestamp_outside_tolerance' | 'signature_mismatch' };
+
+const SIGNATURE_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Reads `t=<unix seconds>,v1=<hex hmac>`. Unknown schemes are ignored and `v1` may repeat, so
+ * receivers keep working when the sender signs with more than one secret.
+ */
+export const parseWebhookSignatureHeader = (header: string): ParsedWebhookSignatureHeader | null => {
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+
+  for (const part of header.split(',')) {
+    const separator = part.indexOf('=');
+    if (separator <= 0) {
+      return null;
+    }
+    const key = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+    if (key === 't') {
+      if (timestamp !== null || !/^\d{1,12}$/.test(value)) {
+        return null;
+      }
+      timestamp = Number.parseInt(value, 10);
+    } else if (key === 'v1') {
+      if (!SIGNATURE_PATTERN.test(value)) {
+        return null;
+      }
+      signatures.push(value);
+    }
+  }
+
+  if (timestamp === null || signatures.length === 0) {
+    return null;
+  }
+  return { timestamp, signatures };
+};
+
+const toHex = (buffer: ArrayBuffer): string => {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const timingSafeEqualHex = (left: string, right: string): boolean => {
+  if (left.length !== right.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let index = 0; index < left.length; index += 1) {
+    difference |= left.charCodeAt(index) ^ right.charCodeAt(index);
+  }
+  return difference === 0;
+};
+
+// Web Crypto so the same helper runs in Node, Workers, and browsers.
+const computeSignature = async (secret: string, signedPayload: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(signedPayload)));
+};
+
+/**
+ * Verifies an OpenCalendly webhook against the raw request body. Pass the body exactly as it was
+ * received: re-serializing parsed JSON can change the bytes and break the signature.
+ */
+export const verifyWebhookSignature = async (input: {
+  payload: string;
+  header: string | null | undefined;
+  secret: string;
+  toleranceSeconds?: number;
+  now?: Date;
+}): Promise<WebhookSignatureVerification> => {
+  const parsed = input.header ? parseWebhookSignatureHeader(input.header) : null;
+  if (!parsed) {
+    return { ok: false, reason: 'malformed_header' };
+  }
+
+  const nowSeconds = Math.floor((input.now ?? new Date()).getTime() / 1000);
+  const tolerance = input.toleranceSeconds ?? WEBHOOK_SIGNATURE_TOLERANCE_SECONDS;
+  if (Math.abs(nowSeconds - parsed.timestamp) > tolerance) {
+    return { ok: false, reason: 'timestamp_outside_tolerance' };
+  }
+
+  const expected = await computeSignature(input.secret, `${parsed.timestamp}.${input.payload}`);
+  if (!parsed.signatures.some((signature) => timingSafeEqualHex(signature, expected))) {
+    return { ok: false, reason: 'signature_mismatch' };
+  }
+  return { ok: true, timestamp: parsed.timestamp };
+};
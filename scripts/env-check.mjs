@@ -43,6 +43,11 @@ const OPTIONAL = {
     'Recommended Sentry environment label such as staging or production.',
   MICROSOFT_CLIENT_ID: 'Microsoft Entra -> App registrations -> client ID (Feature 7).',
   MICROSOFT_CLIENT_SECRET: 'Microsoft Entra -> App registrations -> client secret (Feature 7).',
+  PAYMENT_PROVIDER: 'Optional payment provider for paid event types: stripe or fake (local only).',
+  STRIPE_SECRET_KEY: 'Stripe dashboard -> Developers -> API keys -> Secret key (when PAYMENT_PROVIDER=stripe).',
+  STRIPE_WEBHOOK_SECRET:
+    'Stripe dashboard -> Developers -> Webhooks -> signing secret for /v0/payments/webhooks/stripe.',
+  PAYMENT_HOLD_MINUTES: 'Optional minutes a pending payment holds its slot (30-1440, default 30).',
 };
 
 const PLACEHOLDER_PATTERN = /(replace-with|your[_-]|changeme|todo|example\.com|YOUR_|dummy|sample)/i;
@@ -223,6 +228,17 @@ if (enableDevAuthBootstrap && !/^(true|false)$/i.test(enableDevAuthBootstrap.tri
   errors.push('ENABLE_DEV_AUTH_BOOTSTRAP must be "true" or "false" when provided.');
 }
 
+const paymentProvider = parsed.PAYMENT_PROVIDER?.trim().toLowerCase();
+if (paymentProvider && paymentProvider !== 'stripe' && paymentProvider !== 'fake') {
+  errors.push('PAYMENT_PROVIDER must be "stripe" or "fake" when provided.');
+}
+if (paymentProvider === 'stripe' && (!parsed.STRIPE_SECRET_KEY || !parsed.STRIPE_WEBHOOK_SECRET)) {
+  errors.push('PAYMENT_PROVIDER=stripe requires STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET.');
+}
+if (paymentProvider === 'fake' && isProductionValidation) {
+  errors.push('PAYMENT_PROVIDER=fake confirms bookings without payment and must not be used in production.');
+}
+
 if (apiBaseUrl && publicApiBaseUrl && apiBaseUrl !== publicApiBaseUrl) {
   warnings.push('API_BASE_URL and NEXT_PUBLIC_API_BASE_URL differ.');
 }
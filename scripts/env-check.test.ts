@@ -113,4 +113,18 @@ TELEMETRY_HMAC_KEY=${'c'.repeat(32)}
 
     expect(() => runEnvCheck(cwd, ['--production'])).toThrowError(/APP_BASE_URL must use HTTPS/);
   });
+
+  it('fails production validation when the fake payment provider is enabled', () => {
+    const cwd = writeEnv(`
+${createBaseEnv()}
+APP_BASE_URL=https://app.opencalendly.com
+API_BASE_URL=https://api.opencalendly.com
+NEXT_PUBLIC_API_BASE_URL=https://api.opencalendly.com
+WEBHOOK_SECRET_ENCRYPTION_KEY=${'b'.repeat(32)}
+TELEMETRY_HMAC_KEY=${'c'.repeat(32)}
+PAYMENT_PROVIDER=fake
+`);
+
+    expect(() => runEnvCheck(cwd, ['--production'])).toThrowError(/PAYMENT_PROVIDER=fake/);
+  });
 });